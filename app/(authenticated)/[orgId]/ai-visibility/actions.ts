@@ -5,6 +5,7 @@ import { syncOrganization, syncSinglePrompt } from '@/lib/ai-visibility/sync'
 import { withAdminAuth } from '@/lib/actions/with-auth'
 import { revalidatePath } from 'next/cache'
 import { PromptSource, AIPlatform, SyncFrequency } from '@/lib/enums'
+import { MAX_SAMPLE_COUNT } from '@/lib/ai-visibility/sampling'
 
 export async function runAIVisibilitySync(orgId: string) {
   return withAdminAuth(async () => {
@@ -46,6 +47,10 @@ export async function runAIVisibilitySync(orgId: string) {
       config,
     })
 
+    if (result.aiDisabled) {
+      return { success: false as const, error: 'AI features are disabled for this organization.' }
+    }
+
     if (result.queriesCompleted === 0 && result.skippedPlatforms.length > 0) {
       return {
         success: false as const,
@@ -215,6 +220,7 @@ export async function updateAIVisibilityConfig(
     syncFrequency: SyncFrequency
     monthlyBudgetCents: number
     budgetAlertThreshold: number
+    sampleCount: number
     competitors: { name: string; domain: string }[]
   }
 ) {
@@ -228,6 +234,16 @@ export async function updateAIVisibilityConfig(
     if (data.budgetAlertThreshold < 50 || data.budgetAlertThreshold > 100) {
       return { success: false as const, error: 'Alert threshold must be between 50% and 100%' }
     }
+    if (
+      !Number.isInteger(data.sampleCount) ||
+      data.sampleCount < 1 ||
+      data.sampleCount > MAX_SAMPLE_COUNT
+    ) {
+      return {
+        success: false as const,
+        error: `Sample count must be between 1 and ${MAX_SAMPLE_COUNT}`,
+      }
+    }
     if (data.competitors.length > 10) {
       return { success: false as const, error: 'Maximum 10 competitors allowed' }
     }
@@ -242,6 +258,7 @@ export async function updateAIVisibilityConfig(
         sync_frequency: data.syncFrequency,
         monthly_budget_cents: data.monthlyBudgetCents,
         budget_alert_threshold: data.budgetAlertThreshold,
+        sample_count: data.sampleCount,
         competitors: data.competitors,
       },
       { onConflict: 'organization_id' }
@@ -5,6 +5,7 @@ import { OverviewDashboard } from '@/components/ai-visibility/overview-dashboard
 import {
   getLatestScores,
   getScoreHistory,
+  getShareOfVoiceHistory,
   getAIVisibilityConfig,
 } from '@/lib/ai-visibility/queries'
 import { getAvailablePlatforms } from '@/lib/ai-visibility/platforms/provider-keys'
@@ -19,19 +20,21 @@ export default async function AIVisibilityPage({ params }: PageProps) {
   const { orgId } = await params
   const supabase = await createClient()
 
-  const [scores, history, config, user, availablePlatforms, promptCount] = await Promise.all([
-    getLatestScores(supabase, orgId),
-    getScoreHistory(supabase, orgId),
-    getAIVisibilityConfig(supabase, orgId),
-    getAuthUser(),
-    getAvailablePlatforms(),
-    supabase
-      .from('ai_visibility_prompts')
-      .select('*', { count: 'exact', head: true })
-      .eq('organization_id', orgId)
-      .eq('is_active', true)
-      .then((r) => r.count ?? 0),
-  ])
+  const [scores, history, shareOfVoiceHistory, config, user, availablePlatforms, promptCount] =
+    await Promise.all([
+      getLatestScores(supabase, orgId),
+      getScoreHistory(supabase, orgId),
+      getShareOfVoiceHistory(supabase, orgId),
+      getAIVisibilityConfig(supabase, orgId),
+      getAuthUser(),
+      getAvailablePlatforms(orgId),
+      supabase
+        .from('ai_visibility_prompts')
+        .select('*', { count: 'exact', head: true })
+        .eq('organization_id', orgId)
+        .eq('is_active', true)
+        .then((r) => r.count ?? 0),
+    ])
 
   const userRecord = user ? await getUserRecord(user.id) : null
   const isInternal = userRecord != null && isInternalUser(userRecord)
@@ -42,6 +45,7 @@ export default async function AIVisibilityPage({ params }: PageProps) {
       latestScore={scores.latest}
       previousScore={scores.previous}
       scoreHistory={history}
+      shareOfVoiceHistory={shareOfVoiceHistory}
       config={config}
       isInternal={isInternal}
       availablePlatforms={availablePlatforms}
@@ -8,6 +8,11 @@ import { formatDate, displayName, CampaignStatus } from '@/lib/utils'
 import { EditableDescription } from '@/components/campaigns/editable-description'
 import { EditableUtmSection } from '@/components/campaigns/editable-utm-section'
 import { canManageCampaigns } from '@/lib/permissions'
+import { CampaignPerformancePanel } from '@/components/campaigns/campaign-performance-panel'
+import type { CampaignPerformance } from '@/lib/platforms/google-analytics/campaign-performance'
+import type { TrackedLink } from '@/lib/campaigns/tracked-links'
+import { WeeklyReportRecipients } from '@/components/campaigns/weekly-report-recipients'
+import { isSuppressed } from '@/lib/email/client'
 
 interface CampaignDetailPageProps {
   params: Promise<{ orgId: string; id: string }>
@@ -17,7 +22,17 @@ export default async function CampaignDetailPage({ params }: CampaignDetailPageP
   const { orgId, id } = await params
   const supabase = await createClient()
 
-  const { data: campaign } = await supabase.from('campaigns').select('*').eq('id', id).single()
+  const [{ data: campaign }, { data: performance }, { data: links }] = await Promise.all([
+    supabase.from('campaigns').select('*').eq('id', id).single(),
+    supabase.from('campaign_performance').select('*').eq('campaign_id', id).maybeSingle(),
+    supabase
+      .from('campaign_links')
+      .select(
+        'id, campaign_id, name, destination_url, utm_source, utm_content, last_status_code, last_checked_at'
+      )
+      .eq('campaign_id', id)
+      .order('created_at', { ascending: true }),
+  ])
 
   if (!campaign) {
     notFound()
@@ -56,6 +71,10 @@ export default async function CampaignDetailPage({ params }: CampaignDetailPageP
 
   const canDelete = canManageCampaigns(userRecord?.role)
 
+  const reportRecipients: string[] = campaign.weekly_report_recipients ?? []
+  const suppressionChecks = await Promise.all(reportRecipients.map(isSuppressed))
+  const suppressedRecipients = reportRecipients.filter((_, i) => suppressionChecks[i])
+
   async function handleDelete() {
     'use server'
     const result = await deleteCampaign((await params).id)
@@ -118,6 +137,8 @@ export default async function CampaignDetailPage({ params }: CampaignDetailPageP
         <CardContent className="pt-6">
           <EditableUtmSection
             campaignId={campaign.id}
+            campaignName={campaign.name}
+            links={(links ?? []) as TrackedLink[]}
             initialValues={{
               utm_source: campaign.utm_source || '',
               utm_medium: campaign.utm_medium || '',
@@ -129,16 +150,18 @@ export default async function CampaignDetailPage({ params }: CampaignDetailPageP
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Performance Metrics</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <p className="text-muted-foreground">
-            Metrics will appear here once platform integrations are connected.
-          </p>
-        </CardContent>
-      </Card>
+      <CampaignPerformancePanel
+        campaignId={campaign.id}
+        performance={(performance as CampaignPerformance | null) ?? null}
+        canRefresh={canDelete}
+      />
+
+      <WeeklyReportRecipients
+        campaignId={campaign.id}
+        recipients={reportRecipients}
+        suppressed={suppressedRecipients}
+        canEdit={canDelete}
+      />
     </div>
   )
 }
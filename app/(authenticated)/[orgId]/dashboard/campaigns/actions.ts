@@ -2,7 +2,24 @@
 
 import { generateUTMParameters } from '@/lib/utils/utm'
 import { revalidatePath } from 'next/cache'
+import { after } from 'next/server'
 import { withCampaignAuth } from '@/lib/actions/with-auth'
+import { createServiceClient } from '@/lib/supabase/server'
+import {
+  ATTRIBUTABLE_CAMPAIGN_COLUMNS,
+  getCampaignDateRange,
+  syncCampaignPerformance,
+  type AttributableCampaign,
+} from '@/lib/platforms/google-analytics/campaign-performance'
+import {
+  parseTrackedLinksCsv,
+  validateTrackedLink,
+  type TrackedLinkInput,
+} from '@/lib/campaigns/tracked-links'
+import { parseRecipients } from '@/lib/email/recipients'
+import { MAX_WEEKLY_REPORT_RECIPIENTS } from '@/lib/campaigns/weekly-report'
+import { isPublicHttpUrl } from '@/lib/utils/public-url'
+import type { SupabaseClient } from '@supabase/supabase-js'
 
 const VALID_CAMPAIGN_TYPES = [
   'thought_leadership',
@@ -16,6 +33,13 @@ const VALID_CAMPAIGN_TYPES = [
 
 type CreateCampaignResult = { error: string } | { success: true; campaign: Record<string, unknown> }
 type ActionResult = { error: string } | { success: true }
+type ImportLinksResult = { error: string } | { success: true; imported: number }
+type CheckLinksResult = { error: string } | { success: true; checked: number; broken: number }
+
+// Timeout for each destination check, and how many run at once
+const LINK_CHECK_TIMEOUT_MS = 10000
+const LINK_CHECK_CONCURRENCY = 5
+const LINK_CHECK_MAX_REDIRECTS = 5
 
 export async function createCampaign(formData: FormData): Promise<CreateCampaignResult> {
   const name = formData.get('name') as string
@@ -211,6 +235,348 @@ export async function updateUtmParameters(
   })
 }
 
+export async function updateWeeklyReportRecipients(
+  campaignId: string,
+  input: string
+): Promise<ActionResult> {
+  const { emails, invalid } = parseRecipients(input)
+  if (invalid.length > 0) {
+    return { error: `Invalid email address: ${invalid[0]}` }
+  }
+  if (emails.length > MAX_WEEKLY_REPORT_RECIPIENTS) {
+    return { error: `At most ${MAX_WEEKLY_REPORT_RECIPIENTS} recipients are allowed` }
+  }
+
+  return withCampaignAuth(async (ctx) => {
+    const { error } = await ctx.supabase
+      .from('campaigns')
+      .update({ weekly_report_recipients: emails.length > 0 ? emails : null })
+      .eq('id', campaignId)
+
+    if (error) {
+      return { error: 'Failed to update recipients' }
+    }
+
+    revalidatePath(`/dashboard/campaigns/${campaignId}`)
+    return { success: true }
+  })
+}
+
+export async function refreshCampaignPerformance(campaignId: string): Promise<ActionResult> {
+  return withCampaignAuth(async (ctx) => {
+    // RLS limits the lookup to campaigns in the user's organizations
+    const { data: campaign } = await ctx.supabase
+      .from('campaigns')
+      .select(ATTRIBUTABLE_CAMPAIGN_COLUMNS)
+      .eq('id', campaignId)
+      .single()
+
+    if (!campaign) {
+      return { error: 'Campaign not found' }
+    }
+
+    const attributable = campaign as AttributableCampaign
+    if (!attributable.utm_campaign) {
+      return { error: 'Set a utm_campaign value to track performance' }
+    }
+    if (!getCampaignDateRange(attributable)) {
+      return { error: 'Performance is available from the day after the campaign starts' }
+    }
+
+    try {
+      const performance = await syncCampaignPerformance(createServiceClient(), attributable)
+      if (!performance) {
+        return { error: 'Connect Google Analytics to track campaign performance' }
+      }
+    } catch (error) {
+      console.error('[Campaign Performance Error]', {
+        type: 'refresh_failed',
+        campaignId,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      })
+      return { error: 'Failed to fetch campaign performance. Please try again.' }
+    }
+
+    revalidatePath('/dashboard/campaigns')
+    revalidatePath(`/dashboard/campaigns/${campaignId}`)
+    return { success: true }
+  })
+}
+
+/**
+ * Request a link destination and return the final status code after
+ * redirects, or 0 when it can't be reached. Redirects are followed by hand so
+ * every hop can be checked: links that lead to loopback, private or link-local
+ * hosts are treated as unreachable rather than requested from the server.
+ */
+async function checkDestination(url: string): Promise<number> {
+  const signal = AbortSignal.timeout(LINK_CHECK_TIMEOUT_MS)
+  let current = url
+
+  for (let hop = 0; hop <= LINK_CHECK_MAX_REDIRECTS; hop++) {
+    if (!(await isPublicHttpUrl(current))) return 0
+
+    const response = await requestDestination(current, signal)
+    if (!response) return 0
+
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) return response.status
+
+    try {
+      current = new URL(location, current).toString()
+    } catch {
+      return 0
+    }
+  }
+  return 0
+}
+
+// Some servers reject HEAD, so those are retried with GET
+async function requestDestination(url: string, signal: AbortSignal): Promise<Response | null> {
+  for (const method of ['HEAD', 'GET']) {
+    try {
+      const response = await fetch(url, {
+        method,
+        redirect: 'manual',
+        headers: { 'User-Agent': 'SeloBot/1.0 (Link Check; +https://selo.io/bot)' },
+        signal,
+      })
+      if (method === 'HEAD' && (response.status === 405 || response.status === 501)) continue
+      return response
+    } catch {
+      if (method === 'GET') return null
+    }
+  }
+  return null
+}
+
+/**
+ * Check each link's destination a few at a time and record the status codes.
+ * Returns how many links are broken.
+ */
+async function recordDestinationChecks(
+  supabase: SupabaseClient,
+  links: { id: string; destination_url: string }[]
+): Promise<number> {
+  let broken = 0
+  const queue = [...links]
+  async function worker() {
+    for (let link = queue.shift(); link; link = queue.shift()) {
+      const status = await checkDestination(link.destination_url)
+      if (status === 0 || status >= 400) broken++
+      await supabase
+        .from('campaign_links')
+        .update({ last_status_code: status, last_checked_at: new Date().toISOString() })
+        .eq('id', link.id)
+    }
+  }
+  await Promise.all(Array.from({ length: LINK_CHECK_CONCURRENCY }, worker))
+  return broken
+}
+
+function toLinkRecord(input: TrackedLinkInput) {
+  return {
+    name: input.name.trim(),
+    destination_url: input.destination_url.trim(),
+    utm_source: input.utm_source.trim() || null,
+    utm_content: input.utm_content.trim() || null,
+  }
+}
+
+export async function createTrackedLink(
+  campaignId: string,
+  input: TrackedLinkInput
+): Promise<ActionResult> {
+  const validationError = validateTrackedLink(input)
+  if (validationError) {
+    return { error: validationError }
+  }
+
+  return withCampaignAuth(async (ctx) => {
+    const { data: campaign } = await ctx.supabase
+      .from('campaigns')
+      .select('id, organization_id')
+      .eq('id', campaignId)
+      .single()
+
+    if (!campaign) {
+      return { error: 'Campaign not found' }
+    }
+
+    const record = toLinkRecord(input)
+    const { error } = await ctx.supabase.from('campaign_links').insert({
+      ...record,
+      campaign_id: campaign.id,
+      organization_id: campaign.organization_id,
+      last_status_code: await checkDestination(record.destination_url),
+      last_checked_at: new Date().toISOString(),
+    })
+
+    if (error) {
+      if (error.code === '23505') {
+        return { error: 'A link with this name already exists' }
+      }
+      console.error('[Create Tracked Link Error]', {
+        type: 'database_error',
+        campaignId,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      })
+      return { error: 'Failed to create link. Please try again.' }
+    }
+
+    revalidatePath(`/dashboard/campaigns/${campaignId}`)
+    return { success: true }
+  })
+}
+
+export async function updateTrackedLink(
+  linkId: string,
+  input: TrackedLinkInput
+): Promise<ActionResult> {
+  const validationError = validateTrackedLink(input)
+  if (validationError) {
+    return { error: validationError }
+  }
+
+  return withCampaignAuth(async (ctx) => {
+    const record = toLinkRecord(input)
+    const { data: link, error } = await ctx.supabase
+      .from('campaign_links')
+      .update({
+        ...record,
+        last_status_code: await checkDestination(record.destination_url),
+        last_checked_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', linkId)
+      .select('campaign_id')
+      .single()
+
+    if (error || !link) {
+      if (error?.code === '23505') {
+        return { error: 'A link with this name already exists' }
+      }
+      console.error('[Update Tracked Link Error]', {
+        type: 'database_error',
+        linkId,
+        error: error?.message,
+        timestamp: new Date().toISOString(),
+      })
+      return { error: 'Failed to update link. Please try again.' }
+    }
+
+    revalidatePath(`/dashboard/campaigns/${link.campaign_id}`)
+    return { success: true }
+  })
+}
+
+export async function deleteTrackedLink(linkId: string): Promise<ActionResult> {
+  return withCampaignAuth(async (ctx) => {
+    const { data: link, error } = await ctx.supabase
+      .from('campaign_links')
+      .delete()
+      .eq('id', linkId)
+      .select('campaign_id')
+      .single()
+
+    if (error || !link) {
+      return { error: 'Failed to delete link' }
+    }
+
+    revalidatePath(`/dashboard/campaigns/${link.campaign_id}`)
+    return { success: true }
+  })
+}
+
+/**
+ * Import links from CSV. Rows are matched to existing links by name, so
+ * re-importing an edited export updates links in place. The whole file is
+ * rejected if any row is invalid. Destinations are checked like single links.
+ */
+export async function importTrackedLinks(
+  campaignId: string,
+  csvText: string
+): Promise<ImportLinksResult> {
+  const { links, errors } = parseTrackedLinksCsv(csvText)
+  if (errors.length > 0) {
+    const more = errors.length > 3 ? ` (and ${errors.length - 3} more)` : ''
+    return { error: `${errors.slice(0, 3).join('; ')}${more}` }
+  }
+  if (links.length === 0) {
+    return { error: 'The file has no links to import' }
+  }
+
+  return withCampaignAuth(async (ctx) => {
+    const { data: campaign } = await ctx.supabase
+      .from('campaigns')
+      .select('id, organization_id')
+      .eq('id', campaignId)
+      .single()
+
+    if (!campaign) {
+      return { error: 'Campaign not found' }
+    }
+
+    // Destinations may have changed, so earlier results no longer apply
+    const { data: imported, error } = await ctx.supabase
+      .from('campaign_links')
+      .upsert(
+        links.map((link) => ({
+          ...toLinkRecord(link),
+          campaign_id: campaign.id,
+          organization_id: campaign.organization_id,
+          last_status_code: null,
+          last_checked_at: null,
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: 'campaign_id,name' }
+      )
+      .select('id, destination_url')
+
+    if (error) {
+      console.error('[Import Tracked Links Error]', {
+        type: 'database_error',
+        campaignId,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      })
+      return { error: 'Failed to import links. Please try again.' }
+    }
+
+    // Checking hundreds of destinations can outlast the request, so it runs after the response
+    after(async () => {
+      await recordDestinationChecks(createServiceClient(), imported ?? [])
+      revalidatePath(`/dashboard/campaigns/${campaignId}`)
+    })
+
+    revalidatePath(`/dashboard/campaigns/${campaignId}`)
+    return { success: true, imported: links.length }
+  })
+}
+
+/**
+ * Check that every link's destination resolves, recording the status code.
+ */
+export async function checkTrackedLinks(campaignId: string): Promise<CheckLinksResult> {
+  return withCampaignAuth(async (ctx) => {
+    const { data: links, error } = await ctx.supabase
+      .from('campaign_links')
+      .select('id, destination_url')
+      .eq('campaign_id', campaignId)
+
+    if (error) {
+      return { error: 'Failed to load links' }
+    }
+
+    const broken = await recordDestinationChecks(ctx.supabase, links ?? [])
+
+    revalidatePath(`/dashboard/campaigns/${campaignId}`)
+    return { success: true, checked: links?.length ?? 0, broken }
+  })
+}
+
 export async function deleteCampaign(campaignId: string): Promise<ActionResult> {
   return withCampaignAuth(async (ctx) => {
     const { error } = await ctx.supabase.from('campaigns').delete().eq('id', campaignId)
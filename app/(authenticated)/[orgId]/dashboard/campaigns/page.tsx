@@ -2,7 +2,9 @@ import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
 import { CreateCampaignDialog } from '@/components/campaigns/create-campaign-dialog'
 import { CampaignCard } from '@/components/campaigns/campaign-card'
+import { CampaignComparisonTable } from '@/components/campaigns/campaign-comparison-table'
 import { canManageCampaigns } from '@/lib/permissions'
+import type { CampaignPerformance } from '@/lib/platforms/google-analytics/campaign-performance'
 
 interface CampaignsPageProps {
   params: Promise<{ orgId: string }>
@@ -16,8 +18,8 @@ export default async function CampaignsPage({ params }: CampaignsPageProps) {
     data: { user },
   } = await supabase.auth.getUser()
 
-  // Fetch user record and campaigns in parallel (independent queries)
-  const [{ data: rawUser }, { data: campaigns }] = await Promise.all([
+  // Fetch user record, campaigns and their performance in parallel (independent queries)
+  const [{ data: rawUser }, { data: campaigns }, { data: performance }] = await Promise.all([
     supabase
       .from('users')
       .select('id, is_internal, team_members(organization_id, role)')
@@ -28,6 +30,7 @@ export default async function CampaignsPage({ params }: CampaignsPageProps) {
       .select('id, name, status, start_date, end_date, created_at')
       .eq('organization_id', organizationId)
       .order('created_at', { ascending: false }),
+    supabase.from('campaign_performance').select('*').eq('organization_id', organizationId),
   ])
 
   const membership = (rawUser?.team_members as { organization_id: string; role: string }[])?.[0]
@@ -45,6 +48,14 @@ export default async function CampaignsPage({ params }: CampaignsPageProps) {
 
   const canCreateCampaign = canManageCampaigns(userRecord!.role)
 
+  const performanceByCampaign = new Map(
+    ((performance ?? []) as CampaignPerformance[]).map((row) => [row.campaign_id, row])
+  )
+  const comparisonRows = (campaigns ?? []).flatMap((campaign) => {
+    const row = performanceByCampaign.get(campaign.id)
+    return row ? [{ id: campaign.id, name: campaign.name, performance: row }] : []
+  })
+
   return (
     <div className="space-y-8 p-8">
       <div className="flex items-start justify-between">
@@ -78,6 +89,8 @@ export default async function CampaignsPage({ params }: CampaignsPageProps) {
           )}
         </div>
       </div>
+
+      <CampaignComparisonTable rows={comparisonRows} />
     </div>
   )
 }
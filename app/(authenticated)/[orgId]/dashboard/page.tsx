@@ -29,6 +29,11 @@ export default async function DashboardPage({ params }: PageProps) {
     (c) => c.platform_type === 'google_analytics'
   )
   const hubspotConnections = (connections || []).filter((c) => c.platform_type === 'hubspot')
+  const metaConnections = (connections || []).filter((c) => c.platform_type === 'meta')
+  const instagramConnections = (connections || []).filter((c) => c.platform_type === 'instagram')
+  const searchConsoleConnections = (connections || []).filter(
+    (c) => c.platform_type === 'search_console'
+  )
 
   return (
     <div className="space-y-8 p-8" data-testid="dashboard-page">
@@ -39,6 +44,9 @@ export default async function DashboardPage({ params }: PageProps) {
         linkedInConnections={linkedInConnections}
         googleAnalyticsConnections={googleAnalyticsConnections}
         hubspotConnections={hubspotConnections}
+        metaConnections={metaConnections}
+        instagramConnections={instagramConnections}
+        searchConsoleConnections={searchConsoleConnections}
       />
     </div>
   )
@@ -2,6 +2,8 @@ import { notFound } from 'next/navigation'
 import { ReportDetailClient } from './client'
 import { getReportWithAudits, getReportAuditData, getUnifiedAuditForReport } from '../actions'
 import { transformToPresentation } from './transform'
+import { createClient } from '@/lib/supabase/server'
+import { fetchOrganizationPageTraffic } from '@/lib/platforms/google-analytics/page-traffic'
 
 export const dynamic = 'force-dynamic'
 
@@ -29,10 +31,15 @@ export default async function ReportDetailPage({ params, searchParams }: PagePro
     return null
   })
 
-  const auditData = await getReportAuditData(report)
+  const [auditData, pageTraffic] = await Promise.all([
+    getReportAuditData(report),
+    report.audit_id && report.organization_id
+      ? fetchOrganizationPageTraffic(await createClient(), report.organization_id)
+      : Promise.resolve([]),
+  ])
 
   // Transform to presentation data
-  const presentationData = transformToPresentation({ report, audit, auditData })
+  const presentationData = transformToPresentation({ report, audit, auditData, pageTraffic })
 
   return (
     <ReportDetailClient
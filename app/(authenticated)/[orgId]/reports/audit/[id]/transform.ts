@@ -3,10 +3,16 @@ import type { ReportAuditData } from '../actions'
 import type {
   ReportPresentationData,
   ReportOpportunity,
+  ReportPriorityFix,
   ReportProjection,
   ReportRecommendation,
 } from '@/lib/reports/types'
 import type { UnifiedAudit } from '@/lib/unified-audit/types'
+import {
+  rankChecksByTraffic,
+  type PageTraffic,
+  type TrafficWeightedCheck,
+} from '@/lib/unified-audit/importance'
 import {
   ReportPriority,
   ReportEffort,
@@ -24,6 +30,8 @@ export interface TransformInput {
     'seo_score' | 'performance_score' | 'ai_readiness_score' | 'pages_crawled'
   > | null
   auditData: ReportAuditData
+  /** Sessions per page from Google Analytics, when the org has it connected */
+  pageTraffic?: PageTraffic[]
 }
 
 /**
@@ -37,6 +45,7 @@ export function transformToPresentation({
   report,
   audit,
   auditData,
+  pageTraffic,
 }: TransformInput): ReportPresentationData {
   const seoScore = audit?.seo_score ?? 0
   const aioScore = audit?.ai_readiness_score ?? 0
@@ -58,6 +67,9 @@ export function transformToPresentation({
   // Transform opportunities from failed checks
   const opportunities = transformOpportunities(auditData)
 
+  // Rank failed checks by the traffic of the pages they affect
+  const priorityFixes = transformPriorityFixes(auditData, pageTraffic ?? [])
+
   // Transform projections
   const projections = transformProjections(seoScore, pageSpeedScore, aioScore)
 
@@ -90,11 +102,33 @@ export function transformToPresentation({
       recommendations_count: recommendations.length,
     },
     opportunities,
+    ...(priorityFixes.length > 0 && { priority_fixes: priorityFixes }),
     projections,
     recommendations,
   }
 }
 
+function transformPriorityFixes(
+  auditData: ReportAuditData,
+  pageTraffic: PageTraffic[]
+): ReportPriorityFix[] {
+  const failedChecks: TrafficWeightedCheck[] = [...auditData.siteChecks, ...auditData.aioChecks]
+    .filter((check) => check.status === CheckStatus.Failed)
+    .map((check) => ({
+      check_name: check.check_name,
+      display_name: check.display_name ?? null,
+      priority: check.priority,
+      page_url: typeof check.page_url === 'string' ? check.page_url : null,
+    }))
+
+  return rankChecksByTraffic(failedChecks, pageTraffic, 3).map((fix) => ({
+    title: fix.title,
+    priority: mapPriorityToReport(fix.priority),
+    affected_pages: fix.affectedPages,
+    sessions: fix.sessions,
+  }))
+}
+
 function transformOpportunities(auditData: ReportAuditData): ReportOpportunity[] {
   const opportunities: ReportOpportunity[] = []
 
@@ -101,7 +101,7 @@ export function AuthorNotesEditor({ reviewId, initialNotes, canEdit }: Props) {
           value={value}
           onChange={(e) => handleChange(e.target.value)}
           rows={4}
-          placeholder="Notes about this quarter the AI should consider — campaigns run, team changes, product launches, reasons for big movements, etc."
+          placeholder="Notes about this period the AI should consider — campaigns run, team changes, product launches, reasons for big movements, etc."
           disabled={!canEdit}
           className="border-indigo-200 bg-white/80 placeholder:text-indigo-400/70 focus-visible:border-indigo-500 focus-visible:ring-indigo-500/30 dark:border-indigo-500/30 dark:bg-slate-950/60 dark:placeholder:text-indigo-300/40 dark:focus-visible:border-indigo-400"
         />
@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { Mail, Send } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { showError, showSuccess } from '@/components/ui/sonner'
+import { ReviewDeliveryStatus } from '@/lib/enums'
+import { sendLatestSnapshot, updateReviewDistribution } from '@/lib/reviews/actions'
+
+export interface ReviewDelivery {
+  id: string
+  recipient_email: string
+  status: ReviewDeliveryStatus
+  created_at: string
+}
+
+export interface ReviewDistributionSettings {
+  recipients: string[]
+  sendOnPublish: boolean
+  scheduledSendAt: string | null
+  hasPublishedSnapshot: boolean
+  recentDeliveries: ReviewDelivery[]
+}
+
+interface DistributionDialogProps extends ReviewDistributionSettings {
+  reviewId: string
+}
+
+const STATUS_VARIANTS: Record<ReviewDeliveryStatus, 'secondary' | 'destructive' | 'outline'> = {
+  [ReviewDeliveryStatus.Sent]: 'secondary',
+  [ReviewDeliveryStatus.Failed]: 'destructive',
+  [ReviewDeliveryStatus.Suppressed]: 'outline',
+}
+
+/** ISO timestamp → value for a `datetime-local` input in the viewer's timezone. */
+function toLocalInputValue(iso: string | null): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  const offsetMs = date.getTimezoneOffset() * 60_000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
+
+/**
+ * Manages who receives a review by email and when: on every publish, at a
+ * scheduled time (sent by the review-deliveries cron), or right now.
+ */
+export function DistributionDialog({
+  reviewId,
+  recipients: initialRecipients,
+  sendOnPublish: initialSendOnPublish,
+  scheduledSendAt: initialScheduledSendAt,
+  hasPublishedSnapshot,
+  recentDeliveries,
+}: DistributionDialogProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [recipients, setRecipients] = useState(initialRecipients.join('\n'))
+  const [sendOnPublish, setSendOnPublish] = useState(initialSendOnPublish)
+  const [scheduledSendAt, setScheduledSendAt] = useState(toLocalInputValue(initialScheduledSendAt))
+  const [isSaving, startSaveTransition] = useTransition()
+  const [isSending, startSendTransition] = useTransition()
+
+  function handleSave() {
+    startSaveTransition(async () => {
+      const result = await updateReviewDistribution(reviewId, {
+        recipients,
+        sendOnPublish,
+        scheduledSendAt: scheduledSendAt ? new Date(scheduledSendAt).toISOString() : null,
+      })
+      if (result.success) {
+        showSuccess('Distribution settings saved')
+        setOpen(false)
+        router.refresh()
+      } else {
+        showError(result.error)
+      }
+    })
+  }
+
+  function handleSendNow() {
+    startSendTransition(async () => {
+      const result = await sendLatestSnapshot(reviewId)
+      if (!result.success) {
+        showError(result.error)
+        return
+      }
+      const skipped = result.failed + result.suppressed
+      showSuccess(
+        skipped > 0
+          ? `Sent to ${result.sent} recipient(s), ${skipped} skipped`
+          : `Sent to ${result.sent} recipient(s)`
+      )
+      router.refresh()
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="performance-reports-editor-distribution-button">
+          <Mail className="size-4" aria-hidden="true" />
+          Distribution
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg" data-testid="performance-reports-distribution-dialog">
+        <DialogHeader>
+          <DialogTitle>Email Distribution</DialogTitle>
+          <DialogDescription>
+            Recipients get an email with the headline numbers and a share link to the latest
+            published snapshot.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="review-recipients">Recipients</Label>
+            <Textarea
+              id="review-recipients"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+              placeholder={'client@example.com\nmarketing@example.com'}
+              rows={4}
+            />
+            <p className="text-muted-foreground text-xs">One email address per line.</p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="review-send-on-publish"
+              checked={sendOnPublish}
+              onCheckedChange={(checked) => setSendOnPublish(checked === true)}
+            />
+            <Label htmlFor="review-send-on-publish" className="font-normal">
+              Send automatically when a new version is published
+            </Label>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-scheduled-send">Scheduled send (optional)</Label>
+            <Input
+              id="review-scheduled-send"
+              type="datetime-local"
+              value={scheduledSendAt}
+              onChange={(e) => setScheduledSendAt(e.target.value)}
+            />
+            <p className="text-muted-foreground text-xs">
+              Sends the latest published version once, within an hour of this time.
+            </p>
+          </div>
+
+          {recentDeliveries.length > 0 && (
+            <div className="space-y-2" data-testid="performance-reports-recent-deliveries">
+              <p className="text-sm font-medium">Recent deliveries</p>
+              <ul className="max-h-40 space-y-1 overflow-y-auto text-sm">
+                {recentDeliveries.map((d) => (
+                  <li key={d.id} className="flex items-center justify-between gap-2">
+                    <span className="truncate">{d.recipient_email}</span>
+                    <span className="flex shrink-0 items-center gap-2">
+                      <span className="text-muted-foreground text-xs">
+                        {new Date(d.created_at).toLocaleDateString()}
+                      </span>
+                      <Badge variant={STATUS_VARIANTS[d.status]}>{d.status}</Badge>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSendNow}
+            disabled={!hasPublishedSnapshot || initialRecipients.length === 0 || isSending}
+            data-testid="performance-reports-send-now-button"
+          >
+            <Send className="size-4" aria-hidden="true" />
+            {isSending ? 'Sending…' : 'Send latest now'}
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            data-testid="performance-reports-distribution-save-button"
+          >
+            {isSaving ? 'Saving…' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,6 +7,7 @@ import { ArrowLeft, Eye, FileStack, UploadCloud } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { showError, showSuccess } from '@/components/ui/sonner'
 import { publishReview } from '@/lib/reviews/actions'
+import { DistributionDialog, type ReviewDistributionSettings } from './distribution-dialog'
 
 export interface EditorHeaderProps {
   orgId: string
@@ -14,6 +15,8 @@ export interface EditorHeaderProps {
   title: string
   quarter: string
   canEdit: boolean
+  /** Loaded for editors only; the Distribution button is hidden without it */
+  distribution?: ReviewDistributionSettings
 }
 
 /**
@@ -26,7 +29,14 @@ export interface EditorHeaderProps {
  * compute `canEdit`); the server action is the source of truth for empty-draft
  * validation, so we never pre-disable the button based on narrative contents.
  */
-export function EditorHeader({ orgId, reviewId, title, quarter, canEdit }: EditorHeaderProps) {
+export function EditorHeader({
+  orgId,
+  reviewId,
+  title,
+  quarter,
+  canEdit,
+  distribution,
+}: EditorHeaderProps) {
   const router = useRouter()
   const [isPublishing, startPublishTransition] = useTransition()
 
@@ -76,6 +86,7 @@ export function EditorHeader({ orgId, reviewId, title, quarter, canEdit }: Edito
             {isPublishing ? 'Publishing…' : 'Publish'}
           </Button>
         )}
+        {canEdit && distribution && <DistributionDialog reviewId={reviewId} {...distribution} />}
         <Button variant="outline" asChild data-testid="performance-reports-editor-snapshots-button">
           <Link href={snapshotsHref}>
             <FileStack className="size-4" aria-hidden="true" />
@@ -3,9 +3,11 @@ import { createClient } from '@/lib/supabase/server'
 import { getAuthUser, getUserRecord } from '@/lib/auth/cached'
 import { isInternalUser } from '@/lib/permissions'
 import { UserRole } from '@/lib/enums'
+import { formatPeriodLabel } from '@/lib/reviews/period'
 import type { NarrativeBlocks } from '@/lib/reviews/types'
 import { AuthorNotesEditor } from './author-notes-editor'
 import { EditorHeader } from './editor-header'
+import type { ReviewDelivery, ReviewDistributionSettings } from './distribution-dialog'
 import { NarrativeEditor } from './narrative-editor'
 import { StyleMemoPreview } from './style-memo-preview'
 
@@ -25,7 +27,9 @@ export default async function PerformanceReportEditorPage({
   const supabase = await createClient()
   const { data: review } = await supabase
     .from('marketing_reviews')
-    .select('id, title, quarter, organization_id')
+    .select(
+      'id, title, quarter, organization_id, latest_snapshot_id, send_on_publish, scheduled_send_at'
+    )
     .eq('id', id)
     .eq('organization_id', orgId)
     .maybeSingle()
@@ -44,6 +48,31 @@ export default async function PerformanceReportEditorPage({
     .eq('organization_id', orgId)
     .maybeSingle()
 
+  let distribution: ReviewDistributionSettings | undefined
+  if (canEdit) {
+    const [{ data: recipientRows }, { data: deliveryRows }] = await Promise.all([
+      supabase
+        .from('marketing_review_recipients')
+        .select('email')
+        .eq('review_id', id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('marketing_review_deliveries')
+        .select('id, recipient_email, status, created_at')
+        .eq('review_id', id)
+        .order('created_at', { ascending: false })
+        .limit(10),
+    ])
+
+    distribution = {
+      recipients: (recipientRows ?? []).map((r) => r.email as string),
+      sendOnPublish: (review.send_on_publish as boolean | null) ?? false,
+      scheduledSendAt: (review.scheduled_send_at as string | null) ?? null,
+      hasPublishedSnapshot: review.latest_snapshot_id !== null,
+      recentDeliveries: (deliveryRows ?? []) as ReviewDelivery[],
+    }
+  }
+
   const narrative = (draft?.narrative as NarrativeBlocks | null) ?? {}
   const aiOriginals = (draft?.ai_originals as NarrativeBlocks | null) ?? {}
   const authorNotes = (draft?.author_notes as string | null) ?? ''
@@ -56,8 +85,9 @@ export default async function PerformanceReportEditorPage({
         orgId={orgId}
         reviewId={id}
         title={review.title as string}
-        quarter={review.quarter as string}
+        quarter={formatPeriodLabel(review.quarter as string)}
         canEdit={canEdit}
+        distribution={distribution}
       />
 
       {draft ? (
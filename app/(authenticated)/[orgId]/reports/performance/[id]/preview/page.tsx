@@ -7,7 +7,7 @@ import { isInternalUser } from '@/lib/permissions'
 import { UserRole } from '@/lib/enums'
 import { Button } from '@/components/ui/button'
 import { EmptyState } from '@/components/ui/empty-state'
-import { formatQuarterLabel, periodsForQuarter } from '@/lib/reviews/period'
+import { formatPeriodLabel, periodsFor } from '@/lib/reviews/period'
 import type { NarrativeBlocks, SnapshotData } from '@/lib/reviews/types'
 import { PreviewClient } from './preview-client'
 
@@ -84,8 +84,8 @@ export default async function PerformanceReportPreviewPage({
 
   const narrative = (draft.narrative as NarrativeBlocks | null) ?? {}
   const data = (draft.data as SnapshotData | null) ?? {}
-  const quarterLabel = formatQuarterLabel(review.quarter as string)
-  const periods = periodsForQuarter(review.quarter as string)
+  const quarterLabel = formatPeriodLabel(review.quarter as string)
+  const periods = periodsFor(review.quarter as string)
 
   return (
     <PreviewClient
@@ -99,6 +99,7 @@ export default async function PerformanceReportPreviewPage({
       quarter={quarterLabel}
       periodStart={periods.main.start}
       periodEnd={periods.main.end}
+      periodType={periods.type}
       narrative={narrative}
       data={data}
     />
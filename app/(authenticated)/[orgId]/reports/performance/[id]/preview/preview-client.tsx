@@ -8,6 +8,7 @@ import { ReviewDeck } from '@/components/reviews/review-deck'
 import { publishReview } from '@/lib/reviews/actions'
 import { showError, showSuccess } from '@/components/ui/sonner'
 import type { NarrativeBlocks, SnapshotData } from '@/lib/reviews/types'
+import type { ReviewPeriodType } from '@/lib/enums'
 
 export interface PreviewClientProps {
   reviewId: string
@@ -20,6 +21,7 @@ export interface PreviewClientProps {
   quarter: string
   periodStart: string
   periodEnd: string
+  periodType: ReviewPeriodType
   narrative: NarrativeBlocks
   data: SnapshotData
 }
@@ -37,6 +39,7 @@ export function PreviewClient({
   quarter,
   periodStart,
   periodEnd,
+  periodType,
   narrative,
   data,
 }: PreviewClientProps) {
@@ -102,6 +105,7 @@ export function PreviewClient({
             quarter={quarter}
             periodStart={periodStart}
             periodEnd={periodEnd}
+            periodType={periodType}
             narrative={narrative}
             data={data}
           />
@@ -5,8 +5,10 @@ import { isInternalUser } from '@/lib/permissions'
 import { UserRole } from '@/lib/enums'
 import { ReviewDeck } from '@/components/reviews/review-deck'
 import { PrintButton } from '@/components/reviews/print-button'
+import { ExportPptxButton } from '@/components/reviews/export-pptx-button'
+import { ExportPdfButton } from '@/components/reviews/export-pdf-button'
 import { ReviewBreadcrumb } from '@/components/reviews/review-breadcrumb'
-import { formatQuarterLabel } from '@/lib/reviews/period'
+import { formatPeriodLabel, getPeriodType } from '@/lib/reviews/period'
 import { resolvePublisherNames } from '@/lib/reviews/publishers'
 import type { NarrativeBlocks, SnapshotData } from '@/lib/reviews/types'
 import { SnapshotShareButton } from './snapshot-client'
@@ -80,7 +82,7 @@ export default async function PerformanceReportSnapshotDetailPage({
   const publisherName = publishedBy ? (publisherNames.get(publishedBy) ?? null) : null
 
   const quarter = review.quarter as string
-  const quarterLabel = formatQuarterLabel(quarter)
+  const quarterLabel = formatPeriodLabel(quarter)
   const version = snapshot.version as number
   const narrative = (snapshot.narrative as NarrativeBlocks | null) ?? {}
   const data = (snapshot.data as SnapshotData | null) ?? {}
@@ -121,6 +123,8 @@ export default async function PerformanceReportSnapshotDetailPage({
         </div>
         <div className="flex items-center gap-2">
           <PrintButton />
+          <ExportPptxButton reviewId={reviewId} snapshotId={snapshot.id as string} />
+          <ExportPdfButton organizationId={orgId} snapshotId={snapshot.id as string} />
           <SnapshotShareButton snapshotId={snapshot.id as string} />
         </div>
       </div>
@@ -135,6 +139,7 @@ export default async function PerformanceReportSnapshotDetailPage({
           quarter={quarterLabel}
           periodStart={periodStart}
           periodEnd={periodEnd}
+          periodType={getPeriodType(quarter)}
           narrative={narrative}
           data={data}
         />
@@ -2,7 +2,7 @@ import { notFound, redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
 import { getAuthUser } from '@/lib/auth/cached'
 import { ReviewBreadcrumb } from '@/components/reviews/review-breadcrumb'
-import { formatQuarterLabel } from '@/lib/reviews/period'
+import { formatPeriodLabel } from '@/lib/reviews/period'
 import { resolvePublisherNames } from '@/lib/reviews/publishers'
 import { SnapshotsTable, type SnapshotListItem } from './snapshots-client'
 
@@ -59,7 +59,7 @@ export default async function PerformanceReportSnapshotsListPage({
 
   const quarter = review.quarter as string
   const title = (review.title as string | null) ?? null
-  const quarterLabel = formatQuarterLabel(quarter)
+  const quarterLabel = formatPeriodLabel(quarter)
 
   const editorHref = `/${orgId}/reports/performance/${reviewId}`
   const basePath = `${editorHref}/snapshots`
@@ -16,9 +16,10 @@ interface NewReviewDialogProps {
   orgId: string
   quarters: string[]
   defaultQuarter: string
+  months: string[]
 }
 
-export function NewReviewDialog({ orgId, quarters, defaultQuarter }: NewReviewDialogProps) {
+export function NewReviewDialog({ orgId, quarters, defaultQuarter, months }: NewReviewDialogProps) {
   const [open, setOpen] = useState(false)
 
   return (
@@ -30,11 +31,16 @@ export function NewReviewDialog({ orgId, quarters, defaultQuarter }: NewReviewDi
         <DialogHeader>
           <DialogTitle>New Performance Report</DialogTitle>
           <DialogDescription>
-            Pick a quarter. We&apos;ll seed a draft with the latest data from your connected
-            platforms.
+            Pick a quarter, month or date range. We&apos;ll seed a draft with the latest data from
+            your connected platforms.
           </DialogDescription>
         </DialogHeader>
-        <NewReviewForm orgId={orgId} quarters={quarters} defaultQuarter={defaultQuarter} />
+        <NewReviewForm
+          orgId={orgId}
+          quarters={quarters}
+          defaultQuarter={defaultQuarter}
+          months={months}
+        />
       </DialogContent>
     </Dialog>
   )
@@ -3,6 +3,7 @@
 import { useState, useTransition } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import {
   Select,
@@ -22,16 +23,29 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import { checkReviewExists, createReview } from '@/lib/reviews/actions'
+import { ReviewPeriodType } from '@/lib/enums'
+import { buildCustomPeriodKey, formatPeriodLabel } from '@/lib/reviews/period'
+
+const PERIOD_TYPE_LABELS: Record<ReviewPeriodType, string> = {
+  [ReviewPeriodType.Quarter]: 'Quarter',
+  [ReviewPeriodType.Month]: 'Month',
+  [ReviewPeriodType.Custom]: 'Custom range',
+}
 
 interface Props {
   orgId: string
   quarters: string[]
   defaultQuarter: string
+  months: string[]
 }
 
-export function NewReviewForm({ orgId, quarters, defaultQuarter }: Props) {
+export function NewReviewForm({ orgId, quarters, defaultQuarter, months }: Props) {
   const router = useRouter()
+  const [periodType, setPeriodType] = useState<ReviewPeriodType>(ReviewPeriodType.Quarter)
   const [quarter, setQuarter] = useState(defaultQuarter)
+  const [month, setMonth] = useState(months[0] ?? '')
+  const [customStart, setCustomStart] = useState('')
+  const [customEnd, setCustomEnd] = useState('')
   const [authorNotes, setAuthorNotes] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [isPending, startTransition] = useTransition()
@@ -40,11 +54,25 @@ export function NewReviewForm({ orgId, quarters, defaultQuarter }: Props) {
     hasPublishedSnapshots: boolean
   }>({ open: false, hasPublishedSnapshots: false })
 
+  // The stored period key: '2026-Q1', '2026-03' or '2026-01-15..2026-02-14'
+  const resolvePeriod = (): string | null => {
+    if (periodType === ReviewPeriodType.Quarter) return quarter
+    if (periodType === ReviewPeriodType.Month) return month || null
+    try {
+      return buildCustomPeriodKey(customStart, customEnd)
+    } catch {
+      return null
+    }
+  }
+  const period = resolvePeriod()
+  const periodLabel = period ? formatPeriodLabel(period) : ''
+
   const runCreate = (overwrite: boolean) => {
+    if (!period) return
     startTransition(async () => {
       const result = await createReview({
         organizationId: orgId,
-        quarter,
+        quarter: period,
         overwrite,
         authorNotes,
       })
@@ -60,8 +88,12 @@ export function NewReviewForm({ orgId, quarters, defaultQuarter }: Props) {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     setError(null)
+    if (!period) {
+      setError('Choose a start date on or before the end date')
+      return
+    }
     startTransition(async () => {
-      const check = await checkReviewExists(orgId, quarter)
+      const check = await checkReviewExists(orgId, period)
       if ('success' in check && !check.success) {
         setError(check.error)
         return
@@ -78,27 +110,115 @@ export function NewReviewForm({ orgId, quarters, defaultQuarter }: Props) {
     <>
       <form onSubmit={handleSubmit} className="space-y-6" data-testid="new-review-form">
         <div className="space-y-2">
-          <label htmlFor="quarter" className="text-sm font-medium">
-            Quarter
+          <label htmlFor="period-type" className="text-sm font-medium">
+            Period
           </label>
-          <Select value={quarter} onValueChange={setQuarter}>
+          <Select
+            value={periodType}
+            onValueChange={(value) => setPeriodType(value as ReviewPeriodType)}
+          >
             <SelectTrigger
-              id="quarter"
+              id="period-type"
               className="w-full max-w-xs"
-              data-testid="new-review-quarter-select"
+              data-testid="new-review-period-type-select"
             >
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {quarters.map((q) => (
-                <SelectItem key={q} value={q}>
-                  {q}
+              {Object.values(ReviewPeriodType).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {PERIOD_TYPE_LABELS[type]}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
         </div>
 
+        {periodType === ReviewPeriodType.Quarter && (
+          <div className="space-y-2">
+            <label htmlFor="quarter" className="text-sm font-medium">
+              Quarter
+            </label>
+            <Select value={quarter} onValueChange={setQuarter}>
+              <SelectTrigger
+                id="quarter"
+                className="w-full max-w-xs"
+                data-testid="new-review-quarter-select"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {quarters.map((q) => (
+                  <SelectItem key={q} value={q}>
+                    {q}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {periodType === ReviewPeriodType.Month && (
+          <div className="space-y-2">
+            <label htmlFor="month" className="text-sm font-medium">
+              Month
+            </label>
+            <Select value={month} onValueChange={setMonth}>
+              <SelectTrigger
+                id="month"
+                className="w-full max-w-xs"
+                data-testid="new-review-month-select"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {months.map((m) => (
+                  <SelectItem key={m} value={m}>
+                    {formatPeriodLabel(m)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {periodType === ReviewPeriodType.Custom && (
+          <div className="space-y-2">
+            <div className="flex max-w-md gap-3">
+              <div className="flex-1 space-y-2">
+                <label htmlFor="period-start" className="text-sm font-medium">
+                  Start date
+                </label>
+                <Input
+                  id="period-start"
+                  type="date"
+                  value={customStart}
+                  max={customEnd || undefined}
+                  onChange={(e) => setCustomStart(e.target.value)}
+                  data-testid="new-review-custom-start"
+                />
+              </div>
+              <div className="flex-1 space-y-2">
+                <label htmlFor="period-end" className="text-sm font-medium">
+                  End date
+                </label>
+                <Input
+                  id="period-end"
+                  type="date"
+                  value={customEnd}
+                  min={customStart || undefined}
+                  onChange={(e) => setCustomEnd(e.target.value)}
+                  data-testid="new-review-custom-end"
+                />
+              </div>
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Compared against the same number of days immediately before, and the same dates last
+              year.
+            </p>
+          </div>
+        )}
+
         <div className="space-y-2">
           <label htmlFor="author-notes" className="text-sm font-medium">
             Context for the AI <span className="text-muted-foreground">(optional)</span>
@@ -107,7 +227,7 @@ export function NewReviewForm({ orgId, quarters, defaultQuarter }: Props) {
             id="author-notes"
             value={authorNotes}
             onChange={(e) => setAuthorNotes(e.target.value)}
-            placeholder="Notes about this quarter the AI should consider — campaigns run, team changes, product launches, reasons for big movements, etc."
+            placeholder="Notes about this period the AI should consider — campaigns run, team changes, product launches, reasons for big movements, etc."
             rows={4}
             data-testid="new-review-author-notes"
           />
@@ -137,11 +257,11 @@ export function NewReviewForm({ orgId, quarters, defaultQuarter }: Props) {
       >
         <AlertDialogContent data-testid="new-review-confirm-dialog">
           <AlertDialogHeader>
-            <AlertDialogTitle>Replace existing report for {quarter}?</AlertDialogTitle>
+            <AlertDialogTitle>Replace existing report for {periodLabel}?</AlertDialogTitle>
             <AlertDialogDescription>
               {confirmState.hasPublishedSnapshots
-                ? `A report for ${quarter} already exists and has published snapshots. Creating a new report will permanently delete the existing report, its draft, and all published snapshots.`
-                : `A draft report for ${quarter} already exists. Creating a new report will permanently delete the existing draft.`}
+                ? `A report for ${periodLabel} already exists and has published snapshots. Creating a new report will permanently delete the existing report, its draft, and all published snapshots.`
+                : `A draft report for ${periodLabel} already exists. Creating a new report will permanently delete the existing draft.`}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
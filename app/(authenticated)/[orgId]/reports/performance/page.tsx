@@ -16,7 +16,7 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { formatDate } from '@/lib/utils'
-import { buildQuarterOptions } from '@/lib/reviews/period'
+import { buildMonthOptions, buildQuarterOptions, formatPeriodLabel } from '@/lib/reviews/period'
 import { NewReviewDialog } from './new-review-dialog'
 import { PerformanceReportRowActions } from './report-row-actions'
 
@@ -53,13 +53,16 @@ export default async function PerformanceReportsListPage({
 
   const reviews = (data ?? []) as unknown as ReviewRow[]
   const quarterOptions = buildQuarterOptions(new Date())
+  const monthOptions = buildMonthOptions(new Date())
 
   return (
     <div className="p-8" data-testid="performance-reports-list">
       <div className="mb-6 flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-semibold">Performance Reports</h1>
-          <p className="text-muted-foreground text-sm">Quarterly marketing performance reviews.</p>
+          <p className="text-muted-foreground text-sm">
+            Quarterly, monthly and custom-period marketing performance reviews.
+          </p>
         </div>
         {canCreate && (
           <div className="flex items-center gap-2">
@@ -78,6 +81,7 @@ export default async function PerformanceReportsListPage({
               orgId={orgId}
               quarters={quarterOptions}
               defaultQuarter={quarterOptions[0]}
+              months={monthOptions}
             />
           </div>
         )}
@@ -100,7 +104,7 @@ export default async function PerformanceReportsListPage({
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Quarter</TableHead>
+                <TableHead>Period</TableHead>
                 <TableHead>Title</TableHead>
                 <TableHead>Latest snapshot</TableHead>
                 <TableHead>Status</TableHead>
@@ -110,7 +114,7 @@ export default async function PerformanceReportsListPage({
             <TableBody>
               {reviews.map((r) => (
                 <TableRow key={r.id} data-testid={`performance-report-row-${r.id}`}>
-                  <TableCell className="font-medium">{r.quarter}</TableCell>
+                  <TableCell className="font-medium">{formatPeriodLabel(r.quarter)}</TableCell>
                   <TableCell>{r.title}</TableCell>
                   <TableCell>
                     {r.latest_snapshot ? formatDate(r.latest_snapshot.published_at, false) : '—'}
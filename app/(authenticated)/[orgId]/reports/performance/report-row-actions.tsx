@@ -16,6 +16,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import { deleteReview } from '@/lib/reviews/actions'
+import { formatPeriodLabel } from '@/lib/reviews/period'
 
 interface PerformanceReportRowActionsProps {
   orgId: string
@@ -106,9 +107,9 @@ export function PerformanceReportRowActions({
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Report</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete the <span className="font-medium">{quarter}</span>{' '}
-              performance report? This removes the draft and any published snapshots. This action
-              cannot be undone.
+              Are you sure you want to delete the{' '}
+              <span className="font-medium">{formatPeriodLabel(quarter)}</span> performance report?
+              This removes the draft and any published snapshots. This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           {error && (
@@ -1,7 +1,7 @@
 import { History } from 'lucide-react'
 import { createClient } from '@/lib/supabase/server'
 import { EmptyState } from '@/components/ui/empty-state'
-import { formatQuarterLabel } from '@/lib/reviews/period'
+import { formatPeriodLabel } from '@/lib/reviews/period'
 import { toMemoHistoryRow, type MemoVersionDbRow } from '@/lib/reviews/narrative/memo-history-types'
 import type { Tables } from '@/lib/supabase/database.types'
 import { StyleMemoHistoryRow } from './style-memo-history-row'
@@ -150,7 +150,7 @@ export async function StyleMemoHistoryTimeline({ orgId }: { orgId: string }) {
               row={row}
               adminName={adminName}
               reviewId={snapshotEntry?.reviewId ?? null}
-              quarterLabel={snapshotEntry ? formatQuarterLabel(snapshotEntry.quarter) : null}
+              quarterLabel={snapshotEntry ? formatPeriodLabel(snapshotEntry.quarter) : null}
               orgId={orgId}
               index={index}
             />
@@ -5,13 +5,47 @@ import { paginateQuery } from '@/lib/supabase/paginate'
 import { notFound } from 'next/navigation'
 import { getAuthUser, getUserRecord } from '@/lib/auth/cached'
 import { canAccessAllAudits, canAccessOrg } from '@/lib/permissions'
-import { ScoreDimension } from '@/lib/enums'
+import {
+  CheckPriority,
+  CheckStatus,
+  PlatformType,
+  RemediationStatus,
+  ScoreDimension,
+  SearchConsoleDimension,
+  TicketGrouping,
+  TicketStatus,
+  UserRole,
+  type IssueTracker,
+} from '@/lib/enums'
 import { fetchPage } from '@/lib/audit/fetcher'
-import { getCheckByName } from '@/lib/unified-audit/checks'
+import { buildCustomCheck, getCheckByName, getCustomCheckName } from '@/lib/unified-audit/checks'
 import { buildCheckRecord, executeModules } from '@/lib/unified-audit/runner'
 import { getModule } from '@/lib/unified-audit/modules/registry'
-import type { CheckContext, AuditPage, PostCrawlContext } from '@/lib/unified-audit/types'
+import { loadScoreWeights } from '@/lib/unified-audit/score-weights'
+import { getSearchConsoleTopRows } from '@/lib/platforms/search-console/queries'
+import { fetchOrganizationPageTraffic } from '@/lib/platforms/google-analytics/page-traffic'
+import {
+  rankChecksByTraffic,
+  type TrafficImpactedFix,
+  type TrafficWeightedCheck,
+} from '@/lib/unified-audit/importance'
+import {
+  matchHighImpressionPages,
+  type FailedPageCheck,
+  type SearchConsoleAuditPage,
+} from '@/lib/platforms/search-console/audit-context'
+import type {
+  CheckContext,
+  AuditPage,
+  AuditCheckDefinition,
+  CustomCheck,
+  PostCrawlContext,
+} from '@/lib/unified-audit/types'
 import type { UnifiedAudit, AuditCheck, AuditAIAnalysis } from '@/lib/unified-audit/types'
+import { pushAuditChecksToTracker, type PushTicketsResult } from '@/lib/issue-trackers/tickets'
+import { getRemediationAssignees } from '@/lib/remediation/assignees'
+import { remediationUrl } from '@/lib/remediation/verify'
+import type { RemediationAssignee, RemediationItem } from '@/lib/remediation/types'
 import { revalidatePath } from 'next/cache'
 
 // =============================================================================
@@ -316,6 +350,131 @@ export async function getUnifiedAuditChecksByTab(
   }, supabase)
 }
 
+// =============================================================================
+// Search Console Context
+// =============================================================================
+
+// Search traffic window and page limits for the "high-impression pages" card
+const SEARCH_CONSOLE_LOOKBACK_DAYS = 28
+const SEARCH_CONSOLE_TOP_PAGES = 100
+const SEARCH_CONSOLE_MAX_MATCHES = 10
+
+/**
+ * Pages with the most Search Console impressions that fail critical checks in
+ * this audit. Returns an empty list when the organization has no Search
+ * Console connection, so the card simply doesn't render.
+ */
+export async function getSearchConsoleAuditContext(id: string): Promise<SearchConsoleAuditPage[]> {
+  const supabase = await createClient()
+
+  // RLS limits both lookups to audits and connections the user can see
+  const { data: audit } = await supabase
+    .from('audits')
+    .select('id, organization_id')
+    .eq('id', id)
+    .single()
+  if (!audit?.organization_id) return []
+
+  const { data: connections } = await supabase
+    .from('platform_connections')
+    .select('id')
+    .eq('organization_id', audit.organization_id)
+    .eq('platform_type', PlatformType.SearchConsole)
+    .eq('status', 'active')
+    .limit(1)
+  if (!connections || connections.length === 0) return []
+
+  const endDate = new Date()
+  endDate.setDate(endDate.getDate() - 1)
+  const startDate = new Date(endDate)
+  startDate.setDate(startDate.getDate() - SEARCH_CONSOLE_LOOKBACK_DAYS + 1)
+
+  try {
+    const [topPages, failedChecks] = await Promise.all([
+      getSearchConsoleTopRows(
+        supabase,
+        audit.organization_id,
+        SearchConsoleDimension.Page,
+        startDate,
+        endDate,
+        SEARCH_CONSOLE_TOP_PAGES
+      ),
+      paginateQuery<FailedPageCheck>(
+        (sb, range) =>
+          sb
+            .from('audit_checks')
+            .select('page_url, check_name, display_name' as '*')
+            .eq('audit_id', id)
+            .eq('status', CheckStatus.Failed)
+            .eq('priority', CheckPriority.Critical)
+            .not('page_url', 'is', null)
+            .order('created_at', { ascending: true })
+            .range(range.from, range.to),
+        supabase
+      ),
+    ])
+
+    return matchHighImpressionPages(topPages, failedChecks, SEARCH_CONSOLE_MAX_MATCHES)
+  } catch (err) {
+    console.error('[Search Console Audit Context Error]', {
+      type: 'fetch_failed',
+      auditId: id,
+      error: err,
+      timestamp: new Date().toISOString(),
+    })
+    return []
+  }
+}
+
+// =============================================================================
+// Traffic-Weighted Fixes
+// =============================================================================
+
+/**
+ * Failed checks ranked by the Google Analytics sessions of the pages they
+ * affect. Returns an empty list when GA isn't connected, so the audit page
+ * keeps its static priority ordering.
+ */
+export async function getTrafficWeightedFixes(id: string): Promise<TrafficImpactedFix[]> {
+  const supabase = await createClient()
+
+  // RLS limits the lookup to audits the user can see
+  const { data: audit } = await supabase
+    .from('audits')
+    .select('id, organization_id')
+    .eq('id', id)
+    .single()
+  if (!audit?.organization_id) return []
+
+  const pageTraffic = await fetchOrganizationPageTraffic(supabase, audit.organization_id)
+  if (pageTraffic.length === 0) return []
+
+  try {
+    const failedChecks = await paginateQuery<TrafficWeightedCheck>(
+      (sb, range) =>
+        sb
+          .from('audit_checks')
+          .select('check_name, display_name, priority, page_url' as '*')
+          .eq('audit_id', id)
+          .eq('status', CheckStatus.Failed)
+          .not('page_url', 'is', null)
+          .order('created_at', { ascending: true })
+          .range(range.from, range.to),
+      supabase
+    )
+
+    return rankChecksByTraffic(failedChecks, pageTraffic)
+  } catch (err) {
+    console.error('[Traffic Weighted Fixes Error]', {
+      type: 'fetch_failed',
+      auditId: id,
+      error: err,
+      timestamp: new Date().toISOString(),
+    })
+    return []
+  }
+}
+
 // =============================================================================
 // Re-run Check Action
 // =============================================================================
@@ -329,6 +488,22 @@ export interface RerunCheckResult {
   error?: string
 }
 
+async function findCustomCheck(
+  supabase: ReturnType<typeof createServiceClient>,
+  organizationId: string,
+  checkName: string
+): Promise<AuditCheckDefinition | undefined> {
+  const { data: customChecks } = await supabase
+    .from('custom_checks')
+    .select('*')
+    .eq('organization_id', organizationId)
+
+  const customCheck = ((customChecks as CustomCheck[]) ?? []).find(
+    (c) => getCustomCheckName(c.id) === checkName
+  )
+  return customCheck ? buildCustomCheck(customCheck) : undefined
+}
+
 export async function rerunCheck(
   auditId: string,
   checkName: string,
@@ -373,14 +548,18 @@ export async function rerunCheck(
     canAccessAllAudits(userRecord)
   if (!hasAccess) return { ...empty, error: 'Access denied' }
 
-  // Look up check definition
-  const checkDef = getCheckByName(checkName)
-  if (!checkDef) return { ...empty, error: 'Check not found' }
-  if (checkDef.isSiteWide) return { ...empty, error: 'Cannot re-run site-wide checks' }
-
   // Use service client for DB operations (bypasses RLS)
   const serviceClient = createServiceClient()
 
+  // Look up check definition, falling back to the audit org's custom checks
+  const checkDef =
+    getCheckByName(checkName) ??
+    (audit.organization_id
+      ? await findCustomCheck(serviceClient, audit.organization_id, checkName)
+      : undefined)
+  if (!checkDef) return { ...empty, error: 'Check not found' }
+  if (checkDef.isSiteWide) return { ...empty, error: 'Cannot re-run site-wide checks' }
+
   const newChecks: AuditCheck[] = []
   const BATCH_SIZE = 5
 
@@ -644,10 +823,12 @@ export async function rerunModule(
   scores[dimension] = moduleResult.score
 
   const { calculateOverallScore } = await import('@/lib/unified-audit/scoring')
+  const scoreWeights = await loadScoreWeights(serviceClient, audit.organization_id)
   const overallScore = calculateOverallScore(
     scores[ScoreDimension.SEO],
     scores[ScoreDimension.Performance],
-    scores[ScoreDimension.AIReadiness]
+    scores[ScoreDimension.AIReadiness],
+    scoreWeights
   )
 
   await serviceClient
@@ -666,3 +847,293 @@ export async function rerunModule(
 
   return { success: true }
 }
+
+// =============================================================================
+// Issue Tracker
+// =============================================================================
+
+export interface PushableCheck {
+  check_name: string
+  display_name: string
+  priority: CheckPriority
+  page_count: number
+  /** Open tracker issue for this check on this site, from a check-type push */
+  open_ticket: { key: string; url: string | null } | null
+}
+
+export interface IssueTrackerContext {
+  tracker: IssueTracker
+  checks: PushableCheck[]
+}
+
+/**
+ * Resolve the audit's organization when the current user may act on its
+ * checks (tracker pushes, remediation): anyone with access to the audit
+ * except client viewers.
+ */
+async function getMemberAudit(
+  auditId: string
+): Promise<{ organization_id: string; domain: string; url: string; userId: string } | null> {
+  const user = await getAuthUser()
+  if (!user) return null
+
+  const supabase = await createClient()
+  const { data: audit } = await supabase
+    .from('audits')
+    .select('id, organization_id, domain, url')
+    .eq('id', auditId)
+    .single()
+  if (!audit?.organization_id) return null
+
+  const userRecord = await getUserRecord(user.id)
+  if (!userRecord || !canAccessOrg(userRecord, audit.organization_id)) return null
+
+  const role = userRecord.memberships.find((m) => m.organization_id === audit.organization_id)?.role
+  if (!userRecord.is_internal && role === UserRole.ClientViewer) return null
+
+  return {
+    organization_id: audit.organization_id,
+    domain: audit.domain,
+    url: audit.url,
+    userId: user.id,
+  }
+}
+
+/**
+ * Failed checks that can be sent to the organization's issue tracker, one
+ * entry per check. Null when no tracker is configured or the user can't push.
+ */
+export async function getIssueTrackerContext(auditId: string): Promise<IssueTrackerContext | null> {
+  const audit = await getMemberAudit(auditId)
+  if (!audit) return null
+
+  // Tracker config is only readable with the service client (it holds credentials)
+  const serviceClient = createServiceClient()
+  const { data: config } = await serviceClient
+    .from('issue_tracker_configs')
+    .select('tracker')
+    .eq('organization_id', audit.organization_id)
+    .maybeSingle()
+  if (!config) return null
+
+  const [failedChecks, { data: openTickets }] = await Promise.all([
+    paginateQuery<Pick<AuditCheck, 'check_name' | 'display_name' | 'priority' | 'page_url'>>(
+      (sb, range) =>
+        sb
+          .from('audit_checks')
+          .select('check_name, display_name, priority, page_url' as '*')
+          .eq('audit_id', auditId)
+          .eq('status', CheckStatus.Failed)
+          .order('created_at', { ascending: true })
+          .range(range.from, range.to),
+      serviceClient
+    ),
+    serviceClient
+      .from('audit_check_tickets')
+      .select('check_name, external_key, external_url')
+      .eq('organization_id', audit.organization_id)
+      .eq('domain', audit.domain)
+      .eq('tracker', config.tracker)
+      .eq('grouping', TicketGrouping.CheckType)
+      .eq('status', TicketStatus.Open),
+  ])
+
+  const ticketsByCheck = new Map(
+    (openTickets ?? []).map((t) => [
+      t.check_name as string,
+      { key: t.external_key as string, url: t.external_url as string | null },
+    ])
+  )
+
+  const checks = new Map<string, PushableCheck>()
+  for (const check of failedChecks) {
+    const entry = checks.get(check.check_name) ?? {
+      check_name: check.check_name,
+      display_name: check.display_name,
+      priority: check.priority,
+      page_count: 0,
+      open_ticket: ticketsByCheck.get(check.check_name) ?? null,
+    }
+    if (check.page_url) entry.page_count++
+    checks.set(check.check_name, entry)
+  }
+
+  return { tracker: config.tracker as IssueTracker, checks: [...checks.values()] }
+}
+
+export async function pushChecksToTracker(
+  auditId: string,
+  grouping: TicketGrouping,
+  checkNames: string[]
+): Promise<{ success: true; result: PushTicketsResult } | { success: false; error: string }> {
+  const audit = await getMemberAudit(auditId)
+  if (!audit) return { success: false, error: 'Audit not found' }
+
+  if (!Object.values(TicketGrouping).includes(grouping)) {
+    return { success: false, error: 'Invalid grouping' }
+  }
+  if (checkNames.length === 0) {
+    return { success: false, error: 'Select at least one check' }
+  }
+
+  try {
+    const result = await pushAuditChecksToTracker({
+      auditId,
+      grouping,
+      checkNames,
+      userId: audit.userId,
+    })
+    return { success: true, result }
+  } catch (error) {
+    console.error('[Issue Tracker Error]', {
+      type: 'push_failed',
+      auditId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send checks to tracker',
+    }
+  }
+}
+
+// =============================================================================
+// Remediation
+// =============================================================================
+
+export interface RemediationContext {
+  assignees: RemediationAssignee[]
+}
+
+/** Team members failed checks can be assigned to. Null when the user can't assign. */
+export async function getRemediationContext(auditId: string): Promise<RemediationContext | null> {
+  const audit = await getMemberAudit(auditId)
+  if (!audit) return null
+
+  const assignees = await getRemediationAssignees(createServiceClient(), audit.organization_id)
+  return { assignees }
+}
+
+/**
+ * Create (or update) remediation items for a failed check: one per failing
+ * page, or a single site-wide item when `pageUrls` is empty. Items already in
+ * progress keep their status; verified items are reopened.
+ */
+export async function assignRemediationItems(
+  auditId: string,
+  checkName: string,
+  pageUrls: string[],
+  assignment: { assignedTo: string | null; dueDate: string | null }
+): Promise<{ success: true; count: number } | { success: false; error: string }> {
+  const audit = await getMemberAudit(auditId)
+  if (!audit) return { success: false, error: 'Audit not found' }
+
+  if (assignment.dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(assignment.dueDate)) {
+    return { success: false, error: 'Invalid due date' }
+  }
+
+  const serviceClient = createServiceClient()
+  if (assignment.assignedTo) {
+    const assignees = await getRemediationAssignees(serviceClient, audit.organization_id)
+    if (!assignees.some((a) => a.id === assignment.assignedTo)) {
+      return { success: false, error: 'Assignee is not a member of this organization' }
+    }
+  }
+
+  let query = serviceClient
+    .from('audit_checks')
+    .select('check_name, page_url, display_name, priority')
+    .eq('audit_id', auditId)
+    .eq('check_name', checkName)
+    .eq('status', CheckStatus.Failed)
+  query = pageUrls.length > 0 ? query.in('page_url', pageUrls) : query.is('page_url', null)
+  const { data: failedChecks } = await query
+
+  if (!failedChecks?.length) {
+    return { success: false, error: 'No failed results for this check' }
+  }
+
+  const checks = failedChecks as Pick<
+    AuditCheck,
+    'check_name' | 'page_url' | 'display_name' | 'priority'
+  >[]
+  const urls = [...new Set(checks.map((c) => remediationUrl(c.page_url, audit.url)))]
+
+  const { data: existing } = await serviceClient
+    .from('remediation_items')
+    .select('id, url, status')
+    .eq('organization_id', audit.organization_id)
+    .eq('check_name', checkName)
+    .in('url', urls)
+
+  const active = ((existing ?? []) as Pick<RemediationItem, 'id' | 'url' | 'status'>[]).filter(
+    (item) => item.status !== RemediationStatus.Verified
+  )
+  const activeUrls = new Set(active.map((item) => item.url))
+  const now = new Date().toISOString()
+
+  if (active.length > 0) {
+    const { error } = await serviceClient
+      .from('remediation_items')
+      .update({
+        assigned_to: assignment.assignedTo,
+        due_date: assignment.dueDate,
+        updated_at: now,
+      })
+      .in(
+        'id',
+        active.map((item) => item.id)
+      )
+    if (error) {
+      console.error('[Remediation Error]', {
+        type: 'assign_failed',
+        auditId,
+        checkName,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      })
+      return { success: false, error: 'Failed to assign check' }
+    }
+  }
+
+  const [check] = checks
+  const rows = urls
+    .filter((url) => !activeUrls.has(url))
+    .map((url) => ({
+      organization_id: audit.organization_id,
+      domain: audit.domain,
+      check_name: checkName,
+      url,
+      display_name: check.display_name,
+      priority: check.priority,
+      status: RemediationStatus.Open,
+      assigned_to: assignment.assignedTo,
+      due_date: assignment.dueDate,
+      created_from_audit_id: auditId,
+      last_checked_audit_id: auditId,
+      created_by: audit.userId,
+      updated_at: now,
+      fixed_at: null,
+      verified_at: null,
+    }))
+
+  if (rows.length > 0) {
+    const { error } = await serviceClient
+      .from('remediation_items')
+      .upsert(rows, { onConflict: 'organization_id,check_name,url' })
+    if (error) {
+      console.error('[Remediation Error]', {
+        type: 'assign_failed',
+        auditId,
+        checkName,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      })
+      return { success: false, error: 'Failed to assign check' }
+    }
+  }
+
+  revalidatePath(`/${audit.organization_id}/seo/remediation`)
+  return { success: true, count: urls.length }
+}
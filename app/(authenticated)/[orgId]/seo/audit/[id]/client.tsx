@@ -3,7 +3,7 @@
 import { useState, useMemo, useCallback, useEffect, useRef, useTransition } from 'react'
 import Link from 'next/link'
 import { useSearchParams, useRouter, usePathname } from 'next/navigation'
-import { AlertTriangle, ArrowLeft, ExternalLink, Share2, Search, X } from 'lucide-react'
+import { AlertTriangle, ArrowLeft, ExternalLink, Share2, Search, Ticket, X } from 'lucide-react'
 import { useBuildOrgHref } from '@/hooks/use-org-context'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -12,12 +12,23 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ShareModal } from '@/components/share/share-modal'
 import { UnifiedScoreCards } from '@/components/audit/unified-score-cards'
 import { UnifiedCheckList } from '@/components/audit/unified-check-list'
+import { SitemapCoverageReport } from '@/components/audit/sitemap-coverage-report'
+import { SearchConsoleAuditCard } from '@/components/audit/search-console-audit-card'
+import { TrafficFixesCard } from '@/components/audit/traffic-fixes-card'
+import { AuditExportMenu } from '@/components/audit/audit-export-menu'
+import { SendToTrackerDialog } from '@/components/audit/send-to-tracker-dialog'
+import {
+  AssignRemediationDialog,
+  type RemediationTarget,
+} from '@/components/audit/assign-remediation-dialog'
 import { EmptyState } from '@/components/ui/empty-state'
 import { getUnifiedAuditChecksByTab, rerunCheck, rerunModule } from './actions'
 import { SharedResourceType, UnifiedAuditStatus, ScoreDimension } from '@/lib/enums'
 import { formatDate, formatDuration, calculateDuration } from '@/lib/utils'
 import type { UnifiedAudit, AuditCheck } from '@/lib/unified-audit/types'
-import type { TabCounts } from './actions'
+import type { SearchConsoleAuditPage } from '@/lib/platforms/search-console/audit-context'
+import type { TrafficImpactedFix } from '@/lib/unified-audit/importance'
+import type { IssueTrackerContext, RemediationContext, TabCounts } from './actions'
 
 type TabActionKey = 'top_issues' | 'seo' | 'performance' | 'ai_readiness'
 type FetchChecksFn = (auditId: string, tab: TabActionKey) => Promise<AuditCheck[]>
@@ -28,6 +39,16 @@ interface UnifiedAuditDetailClientProps {
   fetchChecks?: FetchChecksFn
   backHref?: string
   backLabel?: string
+  /** High-impression Search Console pages failing critical checks (org audit page only) */
+  searchConsolePages?: SearchConsoleAuditPage[]
+  /** Failed checks ranked by Google Analytics traffic (org audit page only) */
+  trafficFixes?: TrafficImpactedFix[]
+  /** Show the CSV/XLSX export menu (org audit page only; shares render their own) */
+  showExport?: boolean
+  /** Failed checks that can be pushed to the organization's issue tracker (org audit page only) */
+  issueTracker?: IssueTrackerContext | null
+  /** Assignees for remediation items; null when the user can't assign (org audit page only) */
+  remediation?: RemediationContext | null
 }
 
 type StatusFilter = 'all' | 'failed' | 'warning' | 'passed'
@@ -69,12 +90,19 @@ export function UnifiedAuditDetailClient({
   fetchChecks,
   backHref,
   backLabel = 'Back to Audits',
+  searchConsolePages,
+  trafficFixes,
+  showExport = false,
+  issueTracker,
+  remediation,
 }: UnifiedAuditDetailClientProps) {
   const router = useRouter()
   const pathname = usePathname()
   const searchParams = useSearchParams()
   const buildOrgHref = useBuildOrgHref()
   const [shareModalOpen, setShareModalOpen] = useState(false)
+  const [trackerDialogOpen, setTrackerDialogOpen] = useState(false)
+  const [remediationTarget, setRemediationTarget] = useState<RemediationTarget | null>(null)
   const [activeFilter, setActiveFilter] = useState<StatusFilter>('all')
   const [searchQuery, setSearchQuery] = useState('')
   const [isRetrying, startRetry] = useTransition()
@@ -166,6 +194,19 @@ export function UnifiedAuditDetailClient({
   )
 
   const currentChecks = useMemo(() => checksByTab[currentTab] ?? [], [checksByTab, currentTab])
+
+  const handleAssignCheck = useCallback(
+    (checkName: string, pageUrls: string[]) => {
+      const check = currentChecks.find((c) => c.check_name === checkName)
+      setRemediationTarget({ checkName, displayName: check?.display_name ?? checkName, pageUrls })
+    },
+    [currentChecks]
+  )
+
+  const sitemapCoverageCheck =
+    currentTab === 'seo'
+      ? currentChecks.find((c) => c.check_name === 'sitemap_coverage' && !c.page_url)
+      : undefined
   const isLoading = loadingTab === currentTab
 
   // Filter checks by search query
@@ -202,10 +243,19 @@ export function UnifiedAuditDetailClient({
             <ArrowLeft className="h-4 w-4" />
             {backLabel}
           </Link>
-          <Button variant="outline" size="sm" onClick={() => setShareModalOpen(true)}>
-            <Share2 className="mr-2 h-4 w-4" />
-            Share
-          </Button>
+          <div className="flex items-center gap-2">
+            {issueTracker && (
+              <Button variant="outline" size="sm" onClick={() => setTrackerDialogOpen(true)}>
+                <Ticket className="mr-2 h-4 w-4" />
+                Send to Tracker
+              </Button>
+            )}
+            {showExport && <AuditExportMenu auditId={audit.id} />}
+            <Button variant="outline" size="sm" onClick={() => setShareModalOpen(true)}>
+              <Share2 className="mr-2 h-4 w-4" />
+              Share
+            </Button>
+          </div>
         </div>
 
         {/* Site Info */}
@@ -257,6 +307,10 @@ export function UnifiedAuditDetailClient({
           moduleStatuses={audit.module_statuses as Record<string, string> | undefined}
         />
 
+        {trafficFixes && <TrafficFixesCard fixes={trafficFixes} />}
+
+        {searchConsolePages && <SearchConsoleAuditCard pages={searchConsolePages} />}
+
         {/* Tabbed Content */}
         <Tabs value={currentTab} onValueChange={handleTabChange} data-testid="audit-tabs">
           <TabsList>
@@ -380,12 +434,18 @@ export function UnifiedAuditDetailClient({
                   {isLoading ? (
                     <CheckListSkeleton />
                   ) : (
-                    <UnifiedCheckList
-                      checks={statusFilteredChecks}
-                      groupBy={currentTab === 'top-issues' ? 'priority' : 'category'}
-                      totalPages={audit.pages_crawled}
-                      onRerunCheck={handleRerunCheck}
-                    />
+                    <>
+                      <UnifiedCheckList
+                        checks={statusFilteredChecks}
+                        groupBy={currentTab === 'top-issues' ? 'priority' : 'category'}
+                        totalPages={audit.pages_crawled}
+                        onRerunCheck={handleRerunCheck}
+                        onAssignCheck={remediation ? handleAssignCheck : undefined}
+                      />
+                      {sitemapCoverageCheck && (
+                        <SitemapCoverageReport check={sitemapCoverageCheck} />
+                      )}
+                    </>
                   )}
                 </>
               )
@@ -400,6 +460,22 @@ export function UnifiedAuditDetailClient({
         resourceType={SharedResourceType.UnifiedAudit}
         resourceId={audit.id}
       />
+      {issueTracker && (
+        <SendToTrackerDialog
+          open={trackerDialogOpen}
+          onOpenChange={setTrackerDialogOpen}
+          auditId={audit.id}
+          context={issueTracker}
+        />
+      )}
+      {remediation && (
+        <AssignRemediationDialog
+          auditId={audit.id}
+          assignees={remediation.assignees}
+          target={remediationTarget}
+          onClose={() => setRemediationTarget(null)}
+        />
+      )}
     </>
   )
 }
@@ -1,4 +1,10 @@
-import { getAuditOverview } from './actions'
+import {
+  getAuditOverview,
+  getIssueTrackerContext,
+  getRemediationContext,
+  getSearchConsoleAuditContext,
+  getTrafficWeightedFixes,
+} from './actions'
 import { UnifiedAuditDetailClient } from './client'
 import { UnifiedLiveProgress } from '@/components/audit/unified-live-progress'
 import { UnifiedAuditStatus } from '@/lib/enums'
@@ -24,5 +30,22 @@ export default async function UnifiedAuditDetailPage({ params }: PageProps) {
     return <UnifiedLiveProgress auditId={audit.id} initialStatus={audit.status} />
   }
 
-  return <UnifiedAuditDetailClient audit={audit} tabCounts={tabCounts} />
+  const [searchConsolePages, trafficFixes, issueTracker, remediation] = await Promise.all([
+    getSearchConsoleAuditContext(audit.id),
+    getTrafficWeightedFixes(audit.id),
+    getIssueTrackerContext(audit.id),
+    getRemediationContext(audit.id),
+  ])
+
+  return (
+    <UnifiedAuditDetailClient
+      audit={audit}
+      tabCounts={tabCounts}
+      searchConsolePages={searchConsolePages}
+      trafficFixes={trafficFixes}
+      showExport
+      issueTracker={issueTracker}
+      remediation={remediation}
+    />
+  )
 }
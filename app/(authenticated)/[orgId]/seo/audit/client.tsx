@@ -3,17 +3,21 @@
 import { useState, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { Search, FileSearch, Loader2, Trash2, Clock, RefreshCw } from 'lucide-react'
+import { Search, FileSearch, Loader2, Trash2, Clock, RefreshCw, GitCompare } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { LoadingButton } from '@/components/ui/loading-button'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
 import { Badge } from '@/components/ui/badge'
 import { EmptyState } from '@/components/ui/empty-state'
 import { ScoreTrendChart, type ScoreDataPoint } from '@/components/audit/score-trend-chart'
 import { notifyAuditStarted } from '@/hooks/use-active-audit'
 import { useBuildOrgHref } from '@/hooks/use-org-context'
 import { formatDuration, calculateDuration, formatAuditDate, getDomain } from '@/lib/utils'
+import { findPreviousComparableAudit } from '@/lib/unified-audit/diff'
+import { CrawlMode } from '@/lib/enums'
 import { deleteUnifiedAudit } from './actions'
 import type { UnifiedAudit } from '@/lib/unified-audit/types'
 import type { OrganizationForSelector } from '@/lib/organizations/types'
@@ -46,6 +50,8 @@ export function UnifiedAuditClient({
   const [searchQuery, setSearchQuery] = useState('')
   const [oneTimeUrl, setOneTimeUrl] = useState('')
   const [isStarting, setIsStarting] = useState(false)
+  const [renderJavaScript, setRenderJavaScript] = useState(false)
+  const [seedFromSitemap, setSeedFromSitemap] = useState(false)
   const [deletingAuditId, setDeletingAuditId] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
 
@@ -80,6 +86,8 @@ export function UnifiedAuditClient({
           url: normalizedUrl,
           organizationId:
             selectedTarget.type === 'organization' ? selectedTarget.organizationId : null,
+          crawlMode: renderJavaScript ? CrawlMode.Rendered : CrawlMode.Standard,
+          seedFromSitemap,
         }),
       })
 
@@ -129,6 +137,33 @@ export function UnifiedAuditClient({
     return result
   }, [audits, selectedTarget, searchQuery])
 
+  const crawlOptions = (
+    <div className="mt-3 flex flex-wrap items-center gap-x-6 gap-y-2">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="audit-render-js"
+          checked={renderJavaScript}
+          onCheckedChange={setRenderJavaScript}
+          disabled={isStarting}
+        />
+        <Label htmlFor="audit-render-js" className="text-muted-foreground text-sm font-normal">
+          Render JavaScript (slower; for client-rendered sites)
+        </Label>
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          id="audit-seed-sitemap"
+          checked={seedFromSitemap}
+          onCheckedChange={setSeedFromSitemap}
+          disabled={isStarting}
+        />
+        <Label htmlFor="audit-seed-sitemap" className="text-muted-foreground text-sm font-normal">
+          Crawl sitemap URLs (finds pages that aren&apos;t linked)
+        </Label>
+      </div>
+    </div>
+  )
+
   return (
     <div className="space-y-6">
       <div>
@@ -175,6 +210,7 @@ export function UnifiedAuditClient({
                 )}
               </Button>
             </div>
+            {crawlOptions}
             {error && <p className="text-destructive mt-2 text-sm">{error}</p>}
           </CardHeader>
         </Card>
@@ -217,6 +253,7 @@ export function UnifiedAuditClient({
                 </Button>
               </div>
             </div>
+            {crawlOptions}
             {error && <p className="text-destructive mt-2 text-sm">{error}</p>}
           </CardHeader>
         </Card>
@@ -355,6 +392,25 @@ export function UnifiedAuditClient({
                           })()}
                         </>
                       )}
+                    {(() => {
+                      const previous =
+                        audit.status === 'completed' || audit.status === 'completed_with_errors'
+                          ? findPreviousComparableAudit(audit, filteredAudits)
+                          : null
+                      return previous ? (
+                        <Button asChild variant="ghost" size="sm">
+                          <Link
+                            href={buildOrgHref(
+                              `/seo/audit/compare?from=${previous.id}&to=${audit.id}`
+                            )}
+                            aria-label="Compare with previous audit"
+                          >
+                            <GitCompare className="h-4 w-4" />
+                            Compare
+                          </Link>
+                        </Button>
+                      ) : null
+                    })()}
                     <Button asChild variant="outline" size="sm">
                       <Link href={buildOrgHref(`/seo/audit/${audit.id}`)}>View</Link>
                     </Button>
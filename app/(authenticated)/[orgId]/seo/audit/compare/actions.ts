@@ -0,0 +1,121 @@
+'use server'
+
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { paginateQuery } from '@/lib/supabase/paginate'
+import { getAuthUser, getUserRecord } from '@/lib/auth/cached'
+import { canAccessAllAudits, canAccessOrg } from '@/lib/permissions'
+import { diffAudits, type AuditDiff, type DiffCheck, type DiffPage } from '@/lib/unified-audit/diff'
+import type { UnifiedAudit } from '@/lib/unified-audit/types'
+
+const AUDIT_SELECT = `id, organization_id, created_by, domain, url, status,
+  seo_score, performance_score, ai_readiness_score, overall_score,
+  pages_crawled, passed_count, warning_count, failed_count,
+  started_at, completed_at, created_at` as '*'
+
+const DIFF_CHECK_SELECT =
+  'check_name, page_url, status, display_name, category, priority, created_at' as '*'
+
+const DIFF_PAGE_SELECT = 'url, is_resource, created_at' as '*'
+
+export interface UnifiedAuditComparisonData {
+  base: UnifiedAudit
+  compare: UnifiedAudit
+  diff: AuditDiff
+}
+
+/**
+ * Compare two unified audits of the same domain.
+ * The older audit is always treated as the base, regardless of argument order.
+ */
+export async function getUnifiedAuditComparison(
+  fromId: string,
+  toId: string
+): Promise<UnifiedAuditComparisonData | { error: string }> {
+  const supabase = await createClient()
+  const [user, { data: audits, error: auditsError }] = await Promise.all([
+    getAuthUser(),
+    supabase.from('audits').select(AUDIT_SELECT).in('id', [fromId, toId]),
+  ])
+
+  if (!user) notFound()
+  if (auditsError || !audits || audits.length !== 2) {
+    console.error('[Get Unified Audit Comparison Error]', {
+      type: 'audit_not_found',
+      fromId,
+      toId,
+      timestamp: new Date().toISOString(),
+    })
+    notFound()
+  }
+
+  const userRecord = await getUserRecord(user.id)
+  if (!userRecord) notFound()
+
+  for (const audit of audits as UnifiedAudit[]) {
+    const hasAccess =
+      (audit.organization_id && canAccessOrg(userRecord, audit.organization_id)) ||
+      (audit.organization_id === null && audit.created_by === user.id) ||
+      canAccessAllAudits(userRecord)
+    if (!hasAccess) notFound()
+  }
+
+  const [base, compare] = (audits as UnifiedAudit[]).sort(
+    (a, b) => new Date(a.created_at ?? 0).getTime() - new Date(b.created_at ?? 0).getTime()
+  )
+
+  if (base.domain !== compare.domain) {
+    return { error: 'Audits can only be compared for the same domain' }
+  }
+
+  const fetchChecks = (auditId: string) =>
+    paginateQuery<DiffCheck>(
+      (sb, range) =>
+        sb
+          .from('audit_checks')
+          .select(DIFF_CHECK_SELECT)
+          .eq('audit_id', auditId)
+          .order('created_at', { ascending: true })
+          .range(range.from, range.to),
+      supabase
+    )
+
+  const fetchPages = (auditId: string) =>
+    paginateQuery<DiffPage>(
+      (sb, range) =>
+        sb
+          .from('audit_pages')
+          .select(DIFF_PAGE_SELECT)
+          .eq('audit_id', auditId)
+          .order('created_at', { ascending: true })
+          .range(range.from, range.to),
+      supabase
+    )
+
+  try {
+    const [baseChecks, compareChecks, basePages, comparePages] = await Promise.all([
+      fetchChecks(base.id),
+      fetchChecks(compare.id),
+      fetchPages(base.id),
+      fetchPages(compare.id),
+    ])
+
+    return {
+      base,
+      compare,
+      diff: diffAudits(
+        { audit: base, checks: baseChecks, pages: basePages },
+        { audit: compare, checks: compareChecks, pages: comparePages }
+      ),
+    }
+  } catch (err) {
+    console.error('[Get Unified Audit Comparison Error]', {
+      type: 'paginated_fetch_failed',
+      fromId,
+      toId,
+      error: err,
+      timestamp: new Date().toISOString(),
+    })
+    return { error: 'Failed to load audit results' }
+  }
+}
@@ -0,0 +1,22 @@
+import { notFound } from 'next/navigation'
+import { getUnifiedAuditComparison } from './actions'
+import { AuditComparison } from '@/components/audit/audit-comparison'
+
+export const dynamic = 'force-dynamic'
+
+interface PageProps {
+  params: Promise<{ orgId: string }>
+  searchParams: Promise<{ from?: string; to?: string }>
+}
+
+export default async function UnifiedAuditComparePage({ searchParams }: PageProps) {
+  const { from, to } = await searchParams
+  if (!from || !to || from === to) notFound()
+
+  const result = await getUnifiedAuditComparison(from, to)
+  if ('error' in result) {
+    return <AuditComparison error={result.error} />
+  }
+
+  return <AuditComparison {...result} />
+}
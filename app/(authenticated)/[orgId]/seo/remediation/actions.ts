@@ -0,0 +1,168 @@
+'use server'
+
+import { notFound, redirect } from 'next/navigation'
+import { revalidatePath } from 'next/cache'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { getAuthUser, getUserRecord } from '@/lib/auth/cached'
+import { canAccessOrg, canManageRemediation, isInternalUser } from '@/lib/permissions'
+import { RemediationStatus } from '@/lib/enums'
+import { getRemediationAssignees } from '@/lib/remediation/assignees'
+import type { RemediationAssignee, RemediationItem } from '@/lib/remediation/types'
+
+export interface RemediationBoardData {
+  items: RemediationItem[]
+  assignees: RemediationAssignee[]
+  canEdit: boolean
+  currentUserId: string
+}
+
+export interface RemediationItemChanges {
+  status?: RemediationStatus
+  assignedTo?: string | null
+  /** YYYY-MM-DD, or null to clear */
+  dueDate?: string | null
+}
+
+/** Statuses the team sets by hand; only audits verify */
+const MANUAL_STATUSES = [
+  RemediationStatus.Open,
+  RemediationStatus.InProgress,
+  RemediationStatus.Fixed,
+]
+
+async function canEditOrganization(organizationId: string): Promise<string | null> {
+  const user = await getAuthUser()
+  if (!user) return null
+
+  const userRecord = await getUserRecord(user.id)
+  if (!userRecord || !canAccessOrg(userRecord, organizationId)) return null
+
+  const role = userRecord.memberships.find((m) => m.organization_id === organizationId)?.role
+  if (!isInternalUser(userRecord) && !canManageRemediation(role)) return null
+
+  return user.id
+}
+
+async function getEditableItem(
+  itemId: string
+): Promise<{ item: RemediationItem; userId: string } | null> {
+  const serviceClient = createServiceClient()
+  const { data: item } = await serviceClient
+    .from('remediation_items')
+    .select('*')
+    .eq('id', itemId)
+    .maybeSingle()
+  if (!item) return null
+
+  const userId = await canEditOrganization(item.organization_id)
+  return userId ? { item: item as RemediationItem, userId } : null
+}
+
+export async function getRemediationBoard(organizationId: string): Promise<RemediationBoardData> {
+  const user = await getAuthUser()
+  if (!user) redirect('/login')
+
+  const userRecord = await getUserRecord(user.id)
+  if (!userRecord) redirect('/login')
+  if (!canAccessOrg(userRecord, organizationId)) notFound()
+
+  const role = userRecord.memberships.find((m) => m.organization_id === organizationId)?.role
+  const supabase = await createClient()
+
+  const [{ data: items }, assignees] = await Promise.all([
+    supabase
+      .from('remediation_items')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('due_date', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: false }),
+    getRemediationAssignees(createServiceClient(), organizationId),
+  ])
+
+  return {
+    items: (items ?? []) as RemediationItem[],
+    assignees,
+    canEdit: isInternalUser(userRecord) || canManageRemediation(role),
+    currentUserId: user.id,
+  }
+}
+
+export async function updateRemediationItem(
+  itemId: string,
+  changes: RemediationItemChanges
+): Promise<{ success: true; item: RemediationItem } | { success: false; error: string }> {
+  const editable = await getEditableItem(itemId)
+  if (!editable) return { success: false, error: 'Item not found' }
+  const { item } = editable
+
+  const now = new Date().toISOString()
+  const update: Record<string, unknown> = { updated_at: now }
+
+  if (changes.status !== undefined && changes.status !== item.status) {
+    if (!MANUAL_STATUSES.includes(changes.status)) {
+      return { success: false, error: 'Invalid status' }
+    }
+    update.status = changes.status
+    update.fixed_at = changes.status === RemediationStatus.Fixed ? now : null
+    update.verified_at = null
+  }
+
+  if (changes.assignedTo !== undefined) {
+    if (changes.assignedTo) {
+      const assignees = await getRemediationAssignees(createServiceClient(), item.organization_id)
+      if (!assignees.some((a) => a.id === changes.assignedTo)) {
+        return { success: false, error: 'Assignee is not a member of this organization' }
+      }
+    }
+    update.assigned_to = changes.assignedTo
+  }
+
+  if (changes.dueDate !== undefined) {
+    if (changes.dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(changes.dueDate)) {
+      return { success: false, error: 'Invalid due date' }
+    }
+    update.due_date = changes.dueDate
+  }
+
+  const { data, error } = await createServiceClient()
+    .from('remediation_items')
+    .update(update)
+    .eq('id', itemId)
+    .select()
+    .single()
+
+  if (error || !data) {
+    console.error('[Remediation Error]', {
+      type: 'update_failed',
+      itemId,
+      error: error?.message,
+      timestamp: new Date().toISOString(),
+    })
+    return { success: false, error: 'Failed to update item' }
+  }
+
+  revalidatePath(`/${item.organization_id}/seo/remediation`)
+  return { success: true, item: data as RemediationItem }
+}
+
+export async function deleteRemediationItem(
+  itemId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  const editable = await getEditableItem(itemId)
+  if (!editable) return { success: false, error: 'Item not found' }
+
+  const { error } = await createServiceClient().from('remediation_items').delete().eq('id', itemId)
+
+  if (error) {
+    console.error('[Remediation Error]', {
+      type: 'delete_failed',
+      itemId,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    })
+    return { success: false, error: 'Failed to delete item' }
+  }
+
+  revalidatePath(`/${editable.item.organization_id}/seo/remediation`)
+  return { success: true }
+}
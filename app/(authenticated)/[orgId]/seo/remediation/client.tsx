@@ -0,0 +1,341 @@
+'use client'
+
+import { useMemo, useState, useTransition } from 'react'
+import Link from 'next/link'
+import { ClipboardCheck, ExternalLink, RotateCcw, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { EmptyState } from '@/components/ui/empty-state'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useBuildOrgHref } from '@/hooks/use-org-context'
+import { cn, formatDate } from '@/lib/utils'
+import { CheckPriority, RemediationStatus } from '@/lib/enums'
+import { deleteRemediationItem, updateRemediationItem } from './actions'
+import type { RemediationBoardData, RemediationItemChanges } from './actions'
+import type { RemediationItem } from '@/lib/remediation/types'
+
+const STATUS_LABELS: Record<RemediationStatus, string> = {
+  [RemediationStatus.Open]: 'Open',
+  [RemediationStatus.InProgress]: 'In Progress',
+  [RemediationStatus.Fixed]: 'Fixed',
+  [RemediationStatus.Verified]: 'Verified',
+}
+
+const STATUS_DESCRIPTIONS: Record<RemediationStatus, string> = {
+  [RemediationStatus.Open]: 'Assigned and waiting',
+  [RemediationStatus.InProgress]: 'Being worked on',
+  [RemediationStatus.Fixed]: 'Awaiting the next audit',
+  [RemediationStatus.Verified]: 'Passing in the latest audit',
+}
+
+const PRIORITY_LABELS: Record<CheckPriority, string> = {
+  [CheckPriority.Critical]: 'Critical',
+  [CheckPriority.Recommended]: 'Recommended',
+  [CheckPriority.Optional]: 'Optional',
+}
+
+const UNASSIGNED = 'unassigned'
+const EVERYONE = 'everyone'
+
+function formatItemUrl(url: string): string {
+  try {
+    const { host, pathname } = new URL(url)
+    return pathname === '/' ? host : `${host}${pathname}`
+  } catch {
+    return url
+  }
+}
+
+function isOverdue(item: RemediationItem): boolean {
+  if (!item.due_date) return false
+  if (item.status === RemediationStatus.Fixed || item.status === RemediationStatus.Verified) {
+    return false
+  }
+  return new Date(`${item.due_date}T23:59:59`) < new Date()
+}
+
+export function RemediationBoardClient({
+  items: initialItems,
+  assignees,
+  canEdit,
+  currentUserId,
+}: RemediationBoardData) {
+  const buildOrgHref = useBuildOrgHref()
+  const [items, setItems] = useState(initialItems)
+  const [isPending, startTransition] = useTransition()
+  const [assigneeFilter, setAssigneeFilter] = useState<string>(EVERYONE)
+  const [domainFilter, setDomainFilter] = useState<string>(EVERYONE)
+
+  const assigneeNames = useMemo(() => new Map(assignees.map((a) => [a.id, a.name])), [assignees])
+  const domains = useMemo(() => [...new Set(items.map((i) => i.domain))].sort(), [items])
+
+  const visibleItems = items.filter((item) => {
+    if (domainFilter !== EVERYONE && item.domain !== domainFilter) return false
+    if (assigneeFilter === UNASSIGNED) return !item.assigned_to
+    if (assigneeFilter !== EVERYONE) return item.assigned_to === assigneeFilter
+    return true
+  })
+
+  const handleUpdate = (itemId: string, changes: RemediationItemChanges) => {
+    startTransition(async () => {
+      const result = await updateRemediationItem(itemId, changes)
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
+      setItems((prev) => prev.map((i) => (i.id === itemId ? result.item : i)))
+    })
+  }
+
+  const handleDelete = (itemId: string) => {
+    startTransition(async () => {
+      const result = await deleteRemediationItem(itemId)
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
+      setItems((prev) => prev.filter((i) => i.id !== itemId))
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Remediation</h1>
+          <p className="text-muted-foreground mt-1">
+            Audit fixes assigned to your team. Fixed items are verified or reopened by the next
+            audit of the site.
+          </p>
+        </div>
+        {items.length > 0 && (
+          <div className="flex gap-2">
+            {domains.length > 1 && (
+              <Select value={domainFilter} onValueChange={setDomainFilter}>
+                <SelectTrigger className="w-48" aria-label="Filter by site">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={EVERYONE}>All sites</SelectItem>
+                  {domains.map((domain) => (
+                    <SelectItem key={domain} value={domain}>
+                      {domain}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+              <SelectTrigger className="w-48" aria-label="Filter by assignee">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={EVERYONE}>Everyone</SelectItem>
+                <SelectItem value={currentUserId}>Assigned to me</SelectItem>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {assignees
+                  .filter((a) => a.id !== currentUserId)
+                  .map((a) => (
+                    <SelectItem key={a.id} value={a.id}>
+                      {a.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <EmptyState
+          icon={ClipboardCheck}
+          title="No remediation items yet"
+          description="Assign failed checks from a site audit to track their fixes here."
+        >
+          <Button variant="outline" size="sm" className="mt-4" asChild>
+            <Link href={buildOrgHref('/seo/audit')}>View audits</Link>
+          </Button>
+        </EmptyState>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-4">
+          {Object.values(RemediationStatus).map((status) => {
+            const columnItems = visibleItems.filter((i) => i.status === status)
+            return (
+              <Card key={status} className="gap-3 bg-neutral-50">
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between text-sm">
+                    {STATUS_LABELS[status]}
+                    <span className="text-muted-foreground font-normal">{columnItems.length}</span>
+                  </CardTitle>
+                  <p className="text-muted-foreground text-xs">{STATUS_DESCRIPTIONS[status]}</p>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {columnItems.map((item) => (
+                    <RemediationCard
+                      key={item.id}
+                      item={item}
+                      assigneeName={item.assigned_to ? assigneeNames.get(item.assigned_to) : null}
+                      assignees={assignees}
+                      canEdit={canEdit}
+                      disabled={isPending}
+                      onUpdate={(changes) => handleUpdate(item.id, changes)}
+                      onDelete={() => handleDelete(item.id)}
+                      auditHref={
+                        item.last_checked_audit_id
+                          ? buildOrgHref(`/seo/audit/${item.last_checked_audit_id}`)
+                          : null
+                      }
+                    />
+                  ))}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// =============================================================================
+// Card
+// =============================================================================
+
+interface RemediationCardProps {
+  item: RemediationItem
+  assigneeName: string | null | undefined
+  assignees: RemediationBoardData['assignees']
+  canEdit: boolean
+  disabled: boolean
+  auditHref: string | null
+  onUpdate: (changes: RemediationItemChanges) => void
+  onDelete: () => void
+}
+
+function RemediationCard({
+  item,
+  assigneeName,
+  assignees,
+  canEdit,
+  disabled,
+  auditHref,
+  onUpdate,
+  onDelete,
+}: RemediationCardProps) {
+  const overdue = isOverdue(item)
+  // Verified is set by audits only; keep it selectable just to display the current value
+  const statusOptions = Object.values(RemediationStatus).filter(
+    (s) => s !== RemediationStatus.Verified || item.status === RemediationStatus.Verified
+  )
+
+  return (
+    <div className="space-y-2 rounded-md border bg-white p-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0 space-y-0.5">
+          <div className="text-sm font-medium">{item.display_name}</div>
+          <a
+            href={item.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-muted-foreground hover:text-foreground flex items-center gap-1 truncate text-xs"
+          >
+            <span className="truncate">{formatItemUrl(item.url)}</span>
+            <ExternalLink className="h-3 w-3 shrink-0" />
+          </a>
+        </div>
+        {canEdit && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onDelete}
+            disabled={disabled}
+            className="text-muted-foreground hover:text-destructive h-6 w-6 shrink-0 p-0"
+            aria-label="Delete remediation item"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <Badge variant="outline">{PRIORITY_LABELS[item.priority]}</Badge>
+        {item.reopen_count > 0 && (
+          <Badge variant="warning">
+            <RotateCcw />
+            Reopened{item.reopen_count > 1 ? ` ×${item.reopen_count}` : ''}
+          </Badge>
+        )}
+        {overdue && <Badge variant="destructive">Overdue</Badge>}
+      </div>
+
+      {canEdit ? (
+        <div className="space-y-2">
+          <Select
+            value={item.status}
+            onValueChange={(v) => onUpdate({ status: v as RemediationStatus })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-8 w-full text-xs" aria-label="Status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {statusOptions.map((s) => (
+                <SelectItem key={s} value={s} disabled={s === RemediationStatus.Verified}>
+                  {STATUS_LABELS[s]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={item.assigned_to ?? UNASSIGNED}
+            onValueChange={(v) => onUpdate({ assignedTo: v === UNASSIGNED ? null : v })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-8 w-full text-xs" aria-label="Assignee">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {assignees.map((a) => (
+                <SelectItem key={a.id} value={a.id}>
+                  {a.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            className={cn('h-8 text-xs', overdue && 'border-destructive')}
+            value={item.due_date ?? ''}
+            onChange={(e) => onUpdate({ dueDate: e.target.value || null })}
+            disabled={disabled}
+            aria-label="Due date"
+          />
+        </div>
+      ) : (
+        <div className="text-muted-foreground space-y-0.5 text-xs">
+          <div>{assigneeName ?? 'Unassigned'}</div>
+          {item.due_date && <div>Due {formatDate(`${item.due_date}T00:00:00`, false)}</div>}
+        </div>
+      )}
+
+      {item.status === RemediationStatus.Verified && item.verified_at && auditHref && (
+        <Link
+          href={auditHref}
+          className="text-muted-foreground hover:text-foreground block text-xs"
+        >
+          Verified {formatDate(item.verified_at, false)}
+        </Link>
+      )}
+    </div>
+  )
+}
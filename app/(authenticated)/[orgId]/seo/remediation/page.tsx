@@ -0,0 +1,14 @@
+import { getRemediationBoard } from './actions'
+import { RemediationBoardClient } from './client'
+
+export const dynamic = 'force-dynamic'
+
+interface PageProps {
+  params: Promise<{ orgId: string }>
+}
+
+export default async function RemediationPage({ params }: PageProps) {
+  const { orgId } = await params
+  const data = await getRemediationBoard(orgId)
+  return <RemediationBoardClient {...data} />
+}
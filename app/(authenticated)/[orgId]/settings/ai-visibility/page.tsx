@@ -25,7 +25,7 @@ export default async function AIVisibilitySettingsPage({ params }: PageProps) {
 
       const [config, availablePlatforms] = await Promise.all([
         getAIVisibilityConfig(supabase, organizationId),
-        getAvailablePlatforms(),
+        getAvailablePlatforms(organizationId),
       ])
 
       return { config, availablePlatforms }
@@ -0,0 +1,142 @@
+'use server'
+
+import { createServiceClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { withAdminAuth, type AuthContext } from '@/lib/actions/with-auth'
+import { CheckPriority, CustomCheckRuleType, ScoreDimension } from '@/lib/enums'
+import { validateCustomCheckPattern } from '@/lib/unified-audit/checks'
+import type { CustomCheck } from '@/lib/unified-audit/types'
+
+export interface CustomCheckInput {
+  displayName: string
+  description: string
+  ruleType: CustomCheckRuleType
+  pattern: string
+  urlScope: string
+  priority: CheckPriority
+  feedsScore: ScoreDimension
+  fixGuidance: string
+}
+
+function canManageOrgChecks(ctx: AuthContext, orgId: string): boolean {
+  return ctx.isInternal || ctx.organizationId === orgId
+}
+
+function validateInput(input: CustomCheckInput): string | null {
+  const displayName = input.displayName.trim()
+  if (!displayName) return 'Name is required'
+  if (displayName.length > 100) return 'Name must be less than 100 characters'
+
+  if (!Object.values(CustomCheckRuleType).includes(input.ruleType)) return 'Invalid rule type'
+  if (input.pattern.length > 500) return 'Pattern must be less than 500 characters'
+  const patternError = validateCustomCheckPattern(input.ruleType, input.pattern)
+  if (patternError) return patternError
+
+  const urlScope = input.urlScope.trim()
+  if (urlScope && !urlScope.startsWith('/')) return 'URL scope must start with /'
+
+  if (!Object.values(CheckPriority).includes(input.priority)) return 'Invalid priority'
+  if (!Object.values(ScoreDimension).includes(input.feedsScore)) return 'Invalid score'
+
+  return null
+}
+
+export async function createCustomCheck(orgId: string, input: CustomCheckInput) {
+  return withAdminAuth(async (ctx) => {
+    if (!canManageOrgChecks(ctx, orgId)) {
+      return { success: false as const, error: 'Organization not found' }
+    }
+
+    const validationError = validateInput(input)
+    if (validationError) return { success: false as const, error: validationError }
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('custom_checks')
+      .insert({
+        organization_id: orgId,
+        display_name: input.displayName.trim(),
+        description: input.description.trim() || null,
+        rule_type: input.ruleType,
+        pattern: input.pattern.trim(),
+        url_scope: input.urlScope.trim() || null,
+        priority: input.priority,
+        feeds_score: input.feedsScore,
+        fix_guidance: input.fixGuidance.trim() || null,
+        created_by: ctx.userId,
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      console.error('[Custom Checks]', {
+        type: 'create_failed',
+        organizationId: orgId,
+        error: error?.message,
+        timestamp: new Date().toISOString(),
+      })
+      return { success: false as const, error: 'Failed to create check' }
+    }
+
+    revalidatePath(`/${orgId}/settings/audit-checks`)
+    return { success: true as const, check: data as CustomCheck }
+  })
+}
+
+export async function setCustomCheckActive(orgId: string, checkId: string, isActive: boolean) {
+  return withAdminAuth(async (ctx) => {
+    if (!canManageOrgChecks(ctx, orgId)) {
+      return { success: false as const, error: 'Organization not found' }
+    }
+
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('custom_checks')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', checkId)
+      .eq('organization_id', orgId)
+
+    if (error) {
+      console.error('[Custom Checks]', {
+        type: 'update_failed',
+        organizationId: orgId,
+        checkId,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      })
+      return { success: false as const, error: 'Failed to update check' }
+    }
+
+    revalidatePath(`/${orgId}/settings/audit-checks`)
+    return { success: true as const }
+  })
+}
+
+export async function deleteCustomCheck(orgId: string, checkId: string) {
+  return withAdminAuth(async (ctx) => {
+    if (!canManageOrgChecks(ctx, orgId)) {
+      return { success: false as const, error: 'Organization not found' }
+    }
+
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('custom_checks')
+      .delete()
+      .eq('id', checkId)
+      .eq('organization_id', orgId)
+
+    if (error) {
+      console.error('[Custom Checks]', {
+        type: 'delete_failed',
+        organizationId: orgId,
+        checkId,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      })
+      return { success: false as const, error: 'Failed to delete check' }
+    }
+
+    revalidatePath(`/${orgId}/settings/audit-checks`)
+    return { success: true as const }
+  })
+}
@@ -0,0 +1,47 @@
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { CustomChecksManager } from '@/components/settings/custom-checks'
+import { canManageOrg } from '@/lib/permissions'
+import { withSettingsAuth } from '@/lib/auth/settings-auth'
+import type { CustomCheck } from '@/lib/unified-audit/types'
+
+export const dynamic = 'force-dynamic'
+
+interface PageProps {
+  params: Promise<{ orgId: string }>
+}
+
+export default async function AuditChecksSettingsPage({ params }: PageProps) {
+  const { orgId } = await params
+  const result = await withSettingsAuth(
+    orgId,
+    async (organizationId, { isInternal, userRecord }) => {
+      if (!isInternal && !canManageOrg(userRecord.role)) {
+        redirect('/settings/team')
+      }
+
+      const supabase = await createClient()
+
+      const { data: checks } = await supabase
+        .from('custom_checks')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: true })
+
+      return { checks: (checks ?? []) as CustomCheck[] }
+    }
+  )
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold">Audit Checks</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          Define organization-specific checks that run alongside the built-in site audit checks
+        </p>
+      </div>
+
+      <CustomChecksManager orgId={orgId} checks={result.data.checks} />
+    </div>
+  )
+}
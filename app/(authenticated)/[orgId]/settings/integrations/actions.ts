@@ -18,6 +18,7 @@ export async function connectPlatform(formData: FormData) {
     PlatformType.LinkedIn,
     PlatformType.Meta,
     PlatformType.Instagram,
+    PlatformType.SearchConsole,
   ]
 
   if (!platform_type || !validPlatforms.includes(platform_type as PlatformType)) {
@@ -39,6 +40,7 @@ export async function connectPlatform(formData: FormData) {
     linkedin: ['access_token', 'organization_id'],
     meta: ['access_token', 'page_id'],
     instagram: ['access_token', 'account_id'],
+    search_console: ['access_token', 'site_url'],
   }
 
   const required = requiredFields[platform_type as keyof typeof requiredFields]
@@ -19,7 +19,14 @@ interface IntegrationsPageContentProps {
   connectionsByPlatform: Record<string, Connection[]>
 }
 
-const platformOrder = ['linkedin', 'hubspot', 'google_analytics'] as const
+const platformOrder = [
+  'linkedin',
+  'hubspot',
+  'google_analytics',
+  'meta',
+  'instagram',
+  'search_console',
+] as const
 
 export function IntegrationsPageContent({ connectionsByPlatform }: IntegrationsPageContentProps) {
   const [dialogOpen, setDialogOpen] = useState(false)
@@ -32,7 +32,14 @@ export default async function IntegrationsPage({ params }: PageProps) {
       .eq('organization_id', organizationId)
       .order('created_at', { ascending: true })
 
-    const platforms = ['linkedin', 'hubspot', 'google_analytics'] as const
+    const platforms = [
+      'linkedin',
+      'hubspot',
+      'google_analytics',
+      'meta',
+      'instagram',
+      'search_console',
+    ] as const
     const allConnections = connections || []
 
     const connectionsByPlatform = platforms.reduce(
@@ -0,0 +1,187 @@
+'use server'
+
+import { createServiceClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { withAdminAuth, type AuthContext } from '@/lib/actions/with-auth'
+import { CheckPriority, IssueTracker } from '@/lib/enums'
+import { encryptCredentials } from '@/lib/utils/crypto'
+import { credentialTarget } from '@/lib/issue-trackers/mapping'
+import type {
+  GitHubSettings,
+  JiraSettings,
+  LinearSettings,
+  PriorityMapping,
+  TrackerCredentials,
+  TrackerSettings,
+} from '@/lib/issue-trackers/types'
+
+export interface IssueTrackerConfigInput {
+  tracker: IssueTracker
+  /** Leave empty to keep the stored token (same tracker and URL only) */
+  apiToken: string
+  email: string
+  settings: TrackerSettings
+  priorityMapping: Partial<PriorityMapping>
+  labels: string[]
+  autoClose: boolean
+}
+
+function canManageOrgTracker(ctx: AuthContext, orgId: string): boolean {
+  return ctx.isInternal || ctx.organizationId === orgId
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function normalizeSettings(
+  tracker: IssueTracker,
+  settings: TrackerSettings
+): TrackerSettings | string {
+  switch (tracker) {
+    case IssueTracker.Jira: {
+      const s = settings as JiraSettings
+      const baseUrl = (s.base_url ?? '').trim().replace(/\/+$/, '')
+      if (!isHttpsUrl(baseUrl)) return 'Jira site URL must be an https:// URL'
+      const projectKey = (s.project_key ?? '').trim().toUpperCase()
+      if (!projectKey) return 'Jira project key is required'
+      return {
+        base_url: baseUrl,
+        project_key: projectKey,
+        issue_type: (s.issue_type ?? '').trim() || 'Task',
+      }
+    }
+    case IssueTracker.Linear: {
+      const teamId = ((settings as LinearSettings).team_id ?? '').trim()
+      if (!teamId) return 'Linear team ID is required'
+      return { team_id: teamId }
+    }
+    case IssueTracker.GitHub: {
+      const s = settings as GitHubSettings
+      const owner = (s.owner ?? '').trim()
+      const repo = (s.repo ?? '').trim()
+      if (!owner || !repo) return 'GitHub owner and repository are required'
+      const apiBaseUrl = (s.api_base_url ?? '').trim().replace(/\/+$/, '')
+      if (apiBaseUrl && !isHttpsUrl(apiBaseUrl)) return 'GitHub API URL must be an https:// URL'
+      return apiBaseUrl ? { owner, repo, api_base_url: apiBaseUrl } : { owner, repo }
+    }
+    default:
+      return 'Invalid tracker'
+  }
+}
+
+export async function saveIssueTrackerConfig(orgId: string, input: IssueTrackerConfigInput) {
+  return withAdminAuth(async (ctx) => {
+    if (!canManageOrgTracker(ctx, orgId)) {
+      return { success: false as const, error: 'Organization not found' }
+    }
+
+    if (!Object.values(IssueTracker).includes(input.tracker)) {
+      return { success: false as const, error: 'Invalid tracker' }
+    }
+
+    const settings = normalizeSettings(input.tracker, input.settings)
+    if (typeof settings === 'string') return { success: false as const, error: settings }
+
+    const supabase = createServiceClient()
+    const { data: existing } = await supabase
+      .from('issue_tracker_configs')
+      .select('tracker, credentials, settings')
+      .eq('organization_id', orgId)
+      .maybeSingle()
+
+    let credentials: string
+    const apiToken = input.apiToken.trim()
+    if (apiToken) {
+      const email = input.email.trim()
+      if (input.tracker === IssueTracker.Jira && !email) {
+        return { success: false as const, error: 'Atlassian account email is required for Jira' }
+      }
+      const value: TrackerCredentials =
+        input.tracker === IssueTracker.Jira
+          ? { api_token: apiToken, email }
+          : { api_token: apiToken }
+      credentials = encryptCredentials({ ...value })
+    } else if (existing && existing.tracker === input.tracker) {
+      const sameTarget =
+        credentialTarget(input.tracker, existing.settings as TrackerSettings) ===
+        credentialTarget(input.tracker, settings)
+      if (!sameTarget) {
+        return {
+          success: false as const,
+          error: 'Enter the API token again to use it with a different URL',
+        }
+      }
+      credentials = existing.credentials as string
+    } else {
+      return { success: false as const, error: 'API token is required' }
+    }
+
+    const priorityMapping: Partial<PriorityMapping> = {}
+    for (const priority of Object.values(CheckPriority)) {
+      const value = input.priorityMapping[priority]?.trim()
+      if (value) priorityMapping[priority] = value
+    }
+
+    const labels = [...new Set(input.labels.map((l) => l.trim()).filter(Boolean))].slice(0, 10)
+
+    const { error } = await supabase.from('issue_tracker_configs').upsert(
+      {
+        organization_id: orgId,
+        tracker: input.tracker,
+        credentials,
+        settings,
+        priority_mapping: priorityMapping,
+        labels,
+        auto_close: input.autoClose,
+        created_by: ctx.userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'organization_id' }
+    )
+
+    if (error) {
+      console.error('[Issue Tracker Error]', {
+        type: 'save_config_failed',
+        organizationId: orgId,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      })
+      return { success: false as const, error: 'Failed to save issue tracker' }
+    }
+
+    revalidatePath(`/${orgId}/settings/issue-tracker`)
+    return { success: true as const }
+  })
+}
+
+export async function deleteIssueTrackerConfig(orgId: string) {
+  return withAdminAuth(async (ctx) => {
+    if (!canManageOrgTracker(ctx, orgId)) {
+      return { success: false as const, error: 'Organization not found' }
+    }
+
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('issue_tracker_configs')
+      .delete()
+      .eq('organization_id', orgId)
+
+    if (error) {
+      console.error('[Issue Tracker Error]', {
+        type: 'delete_config_failed',
+        organizationId: orgId,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      })
+      return { success: false as const, error: 'Failed to remove issue tracker' }
+    }
+
+    revalidatePath(`/${orgId}/settings/issue-tracker`)
+    return { success: true as const }
+  })
+}
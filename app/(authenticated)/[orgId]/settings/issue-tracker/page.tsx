@@ -0,0 +1,50 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { IssueTrackerForm } from '@/components/settings/issue-tracker-form'
+import { canManageOrg } from '@/lib/permissions'
+import { withSettingsAuth } from '@/lib/auth/settings-auth'
+import type { IssueTrackerConfigSummary } from '@/lib/issue-trackers/types'
+
+export const dynamic = 'force-dynamic'
+
+interface PageProps {
+  params: Promise<{ orgId: string }>
+}
+
+export default async function IssueTrackerSettingsPage({ params }: PageProps) {
+  const { orgId } = await params
+  const result = await withSettingsAuth(
+    orgId,
+    async (organizationId, { isInternal, userRecord }) => {
+      if (!isInternal && !canManageOrg(userRecord.role)) {
+        redirect('/settings/team')
+      }
+
+      // Service client: the table has no client policies because it stores credentials
+      const supabase = createServiceClient()
+
+      const { data: config } = await supabase
+        .from('issue_tracker_configs')
+        .select(
+          'id, organization_id, tracker, settings, priority_mapping, labels, auto_close, created_at, updated_at'
+        )
+        .eq('organization_id', organizationId)
+        .maybeSingle()
+
+      return { config: (config as IssueTrackerConfigSummary | null) ?? null }
+    }
+  )
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold">Issue Tracker</h2>
+        <p className="text-muted-foreground mt-1 text-sm">
+          Send failed site audit checks to Jira, Linear or GitHub Issues as tickets
+        </p>
+      </div>
+
+      <IssueTrackerForm orgId={orgId} config={result.data.config} />
+    </div>
+  )
+}
@@ -2,6 +2,7 @@ import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
 import { MonitoredSitesManager } from '@/components/settings/monitored-sites'
 import { UserRole } from '@/lib/enums'
+import type { AuditAlertRule } from '@/lib/unified-audit/types'
 
 interface PageProps {
   params: Promise<{ orgId: string }>
@@ -49,11 +50,15 @@ export default async function MonitoringSettingsPage({ params }: PageProps) {
     .eq('id', orgId)
     .single()
 
-  // Get monitored sites
-  const { data: sites } = await supabase
-    .from('monitored_sites')
-    .select('*')
-    .eq('organization_id', orgId)
+  // Get monitored sites and their regression alert rules
+  const [{ data: sites }, { data: alertRules }] = await Promise.all([
+    supabase.from('monitored_sites').select('*').eq('organization_id', orgId),
+    supabase
+      .from('audit_alert_rules')
+      .select('*')
+      .eq('organization_id', orgId)
+      .order('created_at', { ascending: true }),
+  ])
 
   return (
     <div className="space-y-6">
@@ -63,7 +68,11 @@ export default async function MonitoringSettingsPage({ params }: PageProps) {
           Configure automated monitoring for your website
         </p>
       </div>
-      <MonitoredSitesManager sites={sites ?? []} websiteUrl={org?.website_url ?? null} />
+      <MonitoredSitesManager
+        sites={sites ?? []}
+        websiteUrl={org?.website_url ?? null}
+        alertRules={(alertRules ?? []) as AuditAlertRule[]}
+      />
     </div>
   )
 }
@@ -1,9 +1,17 @@
 'use server'
 
-import { createClient } from '@/lib/supabase/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { paginateQuery } from '@/lib/supabase/paginate'
 import { revalidatePath } from 'next/cache'
 import { canManageOrg, isInternalUser } from '@/lib/permissions'
 import { validateFileSignature } from '@/lib/security/file-validation'
+import { withAdminAuth } from '@/lib/actions/with-auth'
+import { AIBillingModel, AIProvider, UnifiedAuditStatus } from '@/lib/enums'
+import { encryptCredentials } from '@/lib/utils/crypto'
+import { isOrganizationKeyProvider, verifyOrganizationAIKey } from '@/lib/ai/organization-key'
+import { calculateOverallScore } from '@/lib/unified-audit/scoring'
+import { loadScoreWeights, validateScoreWeights } from '@/lib/unified-audit/score-weights'
+import type { ScoreWeights } from '@/lib/unified-audit/types'
 
 export async function updateOrganization(
   formData: FormData
@@ -339,3 +347,189 @@ export async function removeLogo(): Promise<{ error?: string; success?: boolean
 
   return { success: true }
 }
+
+// Cast as '*' for Supabase type inference (see paginateQuery callers)
+const RECOMPUTE_AUDIT_SELECT =
+  'id, seo_score, performance_score, ai_readiness_score, overall_score' as '*'
+
+/**
+ * Save per-organization overall score weights. Pass null to reset to the defaults.
+ * Applies to new audits; use recomputeAuditScores to re-score past audits.
+ */
+export async function updateScoreWeights(orgId: string, weights: ScoreWeights | null) {
+  return withAdminAuth(async (ctx) => {
+    if (!ctx.isInternal && ctx.organizationId !== orgId) {
+      return { success: false as const, error: 'Organization not found' }
+    }
+
+    if (weights) {
+      const validationError = validateScoreWeights(weights)
+      if (validationError) return { success: false as const, error: validationError }
+    }
+
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('organizations')
+      .update({
+        score_weights: weights
+          ? {
+              seo: weights.seo,
+              performance: weights.performance,
+              ai_readiness: weights.ai_readiness,
+            }
+          : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', orgId)
+
+    if (error) {
+      console.error('[Organization Error]', {
+        type: 'update_score_weights',
+        organizationId: orgId,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      })
+      return { success: false as const, error: 'Failed to save score weights' }
+    }
+
+    revalidatePath(`/${orgId}/settings/organization`)
+    return { success: true as const }
+  })
+}
+
+/**
+ * Recompute the overall score of every finished unified audit for an organization
+ * under its current score weights. Dimension scores are left untouched.
+ */
+export async function recomputeAuditScores(orgId: string) {
+  return withAdminAuth(async (ctx) => {
+    if (!ctx.isInternal && ctx.organizationId !== orgId) {
+      return { success: false as const, error: 'Organization not found' }
+    }
+
+    const supabase = createServiceClient()
+    const weights = await loadScoreWeights(supabase, orgId)
+
+    const audits = await paginateQuery<{
+      id: string
+      seo_score: number | null
+      performance_score: number | null
+      ai_readiness_score: number | null
+      overall_score: number | null
+    }>(
+      (sb, range) =>
+        sb
+          .from('audits')
+          .select(RECOMPUTE_AUDIT_SELECT)
+          .eq('organization_id', orgId)
+          .in('status', [UnifiedAuditStatus.Completed, UnifiedAuditStatus.CompletedWithErrors])
+          .order('created_at', { ascending: true })
+          .range(range.from, range.to),
+      supabase
+    )
+
+    let updated = 0
+    for (const audit of audits) {
+      const overallScore = calculateOverallScore(
+        audit.seo_score,
+        audit.performance_score,
+        audit.ai_readiness_score,
+        weights
+      )
+      if (overallScore === audit.overall_score) continue
+
+      const { error } = await supabase
+        .from('audits')
+        .update({ overall_score: overallScore })
+        .eq('id', audit.id)
+
+      if (error) {
+        console.error('[Organization Error]', {
+          type: 'recompute_audit_score',
+          organizationId: orgId,
+          auditId: audit.id,
+          error: error.message,
+          timestamp: new Date().toISOString(),
+        })
+        return { success: false as const, error: 'Failed to recompute audit scores' }
+      }
+      updated++
+    }
+
+    revalidatePath(`/${orgId}/seo/audit`)
+    return { success: true as const, updated, total: audits.length }
+  })
+}
+
+export interface OrganizationAISettingsInput {
+  billingModel: AIBillingModel
+  provider: AIProvider
+  /** Leave empty to keep the stored key (same provider only) */
+  apiKey: string
+}
+
+/**
+ * Set how the organization's AI calls are billed. Bring-your-own-key
+ * organizations store their provider key encrypted as `{ api_key }`, after
+ * the provider accepts it; other billing models clear any stored key.
+ */
+export async function updateOrganizationAISettings(
+  orgId: string,
+  input: OrganizationAISettingsInput
+) {
+  return withAdminAuth(async (ctx) => {
+    if (!ctx.isInternal && ctx.organizationId !== orgId) {
+      return { success: false as const, error: 'Organization not found' }
+    }
+
+    if (!Object.values(AIBillingModel).includes(input.billingModel)) {
+      return { success: false as const, error: 'Invalid billing model' }
+    }
+
+    const supabase = createServiceClient()
+    const update: Record<string, unknown> = {
+      ai_billing_model: input.billingModel,
+      updated_at: new Date().toISOString(),
+    }
+
+    if (input.billingModel === AIBillingModel.BringOwnKey) {
+      if (!isOrganizationKeyProvider(input.provider)) {
+        return { success: false as const, error: 'Choose Anthropic or OpenAI for your own key' }
+      }
+
+      const apiKey = input.apiKey.trim()
+      if (apiKey) {
+        const keyError = await verifyOrganizationAIKey(input.provider, apiKey)
+        if (keyError) return { success: false as const, error: keyError }
+        update.ai_api_key = encryptCredentials({ api_key: apiKey })
+      } else {
+        const { data: current } = await supabase
+          .from('organizations')
+          .select('ai_provider, ai_api_key')
+          .eq('id', orgId)
+          .single()
+        if (!current?.ai_api_key || current.ai_provider !== input.provider) {
+          return { success: false as const, error: 'API key is required' }
+        }
+      }
+      update.ai_provider = input.provider
+    } else {
+      update.ai_api_key = null
+    }
+
+    const { error } = await supabase.from('organizations').update(update).eq('id', orgId)
+
+    if (error) {
+      console.error('[Organization Error]', {
+        type: 'update_ai_settings',
+        organizationId: orgId,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      })
+      return { success: false as const, error: 'Failed to save AI settings' }
+    }
+
+    revalidatePath(`/${orgId}/settings/organization`)
+    return { success: true as const }
+  })
+}
@@ -1,8 +1,12 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
 import { OrganizationForm } from '@/components/settings/organization-form'
+import { ScoreWeightsForm } from '@/components/settings/score-weights-form'
+import { AISettingsForm } from '@/components/settings/ai-settings-form'
 import { canManageOrg } from '@/lib/permissions'
 import { withSettingsAuth } from '@/lib/auth/settings-auth'
+import { resolveScoreWeights } from '@/lib/unified-audit/score-weights'
+import type { AIBillingModel, AIProvider } from '@/lib/enums'
 
 export const dynamic = 'force-dynamic'
 
@@ -26,7 +30,7 @@ export default async function OrganizationSettingsPage({ params }: PageProps) {
       const { data: org } = await supabase
         .from('organizations')
         .select(
-          'id, name, industry, logo_url, primary_color, secondary_color, accent_color, website_url, description, city, country, social_links'
+          'id, name, industry, logo_url, primary_color, secondary_color, accent_color, website_url, description, city, country, social_links, score_weights, ai_billing_model, ai_provider, ai_api_key'
         )
         .eq('id', organizationId)
         .single()
@@ -84,6 +88,18 @@ export default async function OrganizationSettingsPage({ params }: PageProps) {
         country={org.country || ''}
         socialLinks={org.social_links || []}
       />
+
+      <ScoreWeightsForm
+        orgId={org.id}
+        weights={org.score_weights ? resolveScoreWeights(org.score_weights) : null}
+      />
+
+      <AISettingsForm
+        orgId={org.id}
+        billingModel={org.ai_billing_model as AIBillingModel | null}
+        provider={org.ai_provider as AIProvider | null}
+        hasApiKey={Boolean(org.ai_api_key)}
+      />
     </div>
   )
 }
@@ -18,6 +18,8 @@ const CREDENTIAL_FIELD: Record<string, string> = {
   anthropic: 'api_key',
   openai: 'api_key',
   perplexity: 'api_key',
+  gemini: 'api_key',
+  serpapi: 'api_key',
   resend: 'api_key',
   pagespeed: 'api_key',
   cron_secret: 'secret',
@@ -63,6 +65,8 @@ export async function getAppSettings(): Promise<AppSettingDisplay[] | { error: s
     'anthropic',
     'openai',
     'perplexity',
+    'gemini',
+    'serpapi',
     'resend',
     'pagespeed',
     'cron_secret',
@@ -265,6 +269,29 @@ export async function testAppConnection(
         return { success: true, message: 'Connected successfully' }
       }
 
+      case 'gemini': {
+        const res = await fetch('https://generativelanguage.googleapis.com/v1beta/models', {
+          headers: { 'x-goog-api-key': credential },
+        })
+        if (!res.ok) {
+          const body = await res.text()
+          return {
+            success: false,
+            message: `API returned ${res.status}: ${body.slice(0, 200)}`,
+          }
+        }
+        return { success: true, message: 'Connected successfully' }
+      }
+
+      case 'serpapi': {
+        // The account endpoint doesn't consume search credits
+        const res = await fetch(`https://serpapi.com/account.json?api_key=${credential}`)
+        if (!res.ok) {
+          return { success: false, message: `API returned ${res.status}` }
+        }
+        return { success: true, message: 'Connected successfully' }
+      }
+
       case 'pagespeed': {
         const url = `https://www.googleapis.com/pagespeedonline/v5/runPagespeed?url=https://google.com&key=${credential}&category=performance&strategy=mobile`
         const res = await fetch(url)
@@ -71,6 +71,27 @@ const PROVIDERS = [
     docsUrl: 'https://docs.perplexity.ai/guides/getting-started',
     docsLabel: 'Get API Key',
   },
+  {
+    key: 'gemini',
+    name: 'Google Gemini',
+    description: 'Gemini API for AI Visibility monitoring',
+    placeholder: 'AIza...',
+    testable: true,
+    setupHint: 'Required for tracking how your brand appears in Gemini responses.',
+    docsUrl: 'https://aistudio.google.com/apikey',
+    docsLabel: 'Get API Key',
+  },
+  {
+    key: 'serpapi',
+    name: 'SerpApi',
+    description: 'Search answer engines for AI Visibility monitoring',
+    placeholder: '',
+    testable: true,
+    setupHint:
+      'Required for tracking how your brand appears in Google AI Overviews and Microsoft Copilot answers.',
+    docsUrl: 'https://serpapi.com/manage-api-key',
+    docsLabel: 'Get API Key',
+  },
   {
     key: 'resend',
     name: 'Resend',
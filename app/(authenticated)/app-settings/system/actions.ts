@@ -48,67 +48,100 @@ export async function getSystemHealth(): Promise<HealthStatus[] | { error: strin
   const configuredKeys = new Set((settings ?? []).map((s) => s.key))
 
   // Get last activity from usage_logs per service + cron/sync health in parallel
-  const apiServices = ['anthropic', 'openai', 'perplexity', 'resend', 'pagespeed'] as const
+  const apiServices = [
+    'anthropic',
+    'openai',
+    'perplexity',
+    'gemini',
+    'serpapi',
+    'resend',
+    'pagespeed',
+  ] as const
   const nameMap: Record<string, string> = {
     anthropic: 'Anthropic API',
     openai: 'OpenAI API',
     perplexity: 'Perplexity API',
+    gemini: 'Gemini API',
+    serpapi: 'SerpApi',
     resend: 'Email (Resend)',
     pagespeed: 'PageSpeed Insights',
   }
 
-  const [anthropicLog, openaiLog, perplexityLog, resendLog, pagespeedLog, lastCronAudit, lastSync] =
-    await Promise.all([
-      serviceClient
-        .from('usage_logs')
-        .select('created_at, event_type, metadata')
-        .eq('service', 'anthropic')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single(),
-      serviceClient
-        .from('usage_logs')
-        .select('created_at, event_type, metadata')
-        .eq('service', 'openai')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single(),
-      serviceClient
-        .from('usage_logs')
-        .select('created_at, event_type, metadata')
-        .eq('service', 'perplexity')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single(),
-      serviceClient
-        .from('usage_logs')
-        .select('created_at, event_type, metadata')
-        .eq('service', 'resend')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single(),
-      serviceClient
-        .from('usage_logs')
-        .select('created_at, event_type, metadata')
-        .eq('service', 'pagespeed')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single(),
-      serviceClient
-        .from('audits')
-        .select('created_at')
-        .is('created_by', null)
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single(),
-      serviceClient
-        .from('platform_connections')
-        .select('last_sync_at')
-        .not('last_sync_at', 'is', null)
-        .order('last_sync_at', { ascending: false })
-        .limit(1)
-        .single(),
-    ])
+  const [
+    anthropicLog,
+    openaiLog,
+    perplexityLog,
+    geminiLog,
+    serpapiLog,
+    resendLog,
+    pagespeedLog,
+    lastCronAudit,
+    lastSync,
+  ] = await Promise.all([
+    serviceClient
+      .from('usage_logs')
+      .select('created_at, event_type, metadata')
+      .eq('service', 'anthropic')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single(),
+    serviceClient
+      .from('usage_logs')
+      .select('created_at, event_type, metadata')
+      .eq('service', 'openai')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single(),
+    serviceClient
+      .from('usage_logs')
+      .select('created_at, event_type, metadata')
+      .eq('service', 'perplexity')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single(),
+    serviceClient
+      .from('usage_logs')
+      .select('created_at, event_type, metadata')
+      .eq('service', 'gemini')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single(),
+    serviceClient
+      .from('usage_logs')
+      .select('created_at, event_type, metadata')
+      .eq('service', 'serpapi')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single(),
+    serviceClient
+      .from('usage_logs')
+      .select('created_at, event_type, metadata')
+      .eq('service', 'resend')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single(),
+    serviceClient
+      .from('usage_logs')
+      .select('created_at, event_type, metadata')
+      .eq('service', 'pagespeed')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single(),
+    serviceClient
+      .from('audits')
+      .select('created_at')
+      .is('created_by', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single(),
+    serviceClient
+      .from('platform_connections')
+      .select('last_sync_at')
+      .not('last_sync_at', 'is', null)
+      .order('last_sync_at', { ascending: false })
+      .limit(1)
+      .single(),
+  ])
 
   const SERVICE_HINTS: Record<
     string,
@@ -138,6 +171,20 @@ export async function getSystemHealth(): Promise<HealthStatus[] | { error: strin
       actionLabel: 'Configure API Key',
       actionHref: '/app-settings/integrations',
     },
+    gemini: {
+      unconfigured: 'Add your Gemini API key to track brand visibility in Gemini.',
+      inactive: 'No Gemini queries in the last 7 days. Run an AI Visibility sync to activate.',
+      actionLabel: 'Configure API Key',
+      actionHref: '/app-settings/integrations',
+    },
+    serpapi: {
+      unconfigured:
+        'Add your SerpApi key to track brand visibility in Google AI Overviews and Copilot.',
+      inactive:
+        'No AI Overviews or Copilot queries in the last 7 days. Run an AI Visibility sync to activate.',
+      actionLabel: 'Configure API Key',
+      actionHref: '/app-settings/integrations',
+    },
     resend: {
       unconfigured: 'Add your Resend API key to enable email sending.',
       inactive:
@@ -167,7 +214,15 @@ export async function getSystemHealth(): Promise<HealthStatus[] | { error: strin
     },
   }
 
-  const logResults = [anthropicLog, openaiLog, perplexityLog, resendLog, pagespeedLog]
+  const logResults = [
+    anthropicLog,
+    openaiLog,
+    perplexityLog,
+    geminiLog,
+    serpapiLog,
+    resendLog,
+    pagespeedLog,
+  ]
   const healthResults: HealthStatus[] = apiServices.map((service, i) => {
     const isConfigured = configuredKeys.has(service) || !!process.env[ENV_VAR_MAP[service]]
     const lastLog = logResults[i].data
@@ -3,7 +3,16 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { Building2, Plus, Pencil, Trash2, RotateCcw, ExternalLink, Search } from 'lucide-react'
+import {
+  Building2,
+  Plus,
+  Pencil,
+  Trash2,
+  RotateCcw,
+  ExternalLink,
+  Search,
+  FileArchive,
+} from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -20,9 +29,11 @@ import { CreateOrganizationDialog } from '@/components/dashboard/create-organiza
 import { EditOrganizationDialog } from './edit-organization-dialog'
 import { DeleteOrganizationDialog } from './delete-organization-dialog'
 import { RestoreOrganizationDialog } from './restore-organization-dialog'
+import { ExportOrganizationDialog } from './export-organization-dialog'
 import { cn, getDomain } from '@/lib/utils'
 import { OrganizationStatus } from '@/lib/enums'
 import type { Industry } from '@/lib/organizations/types'
+import type { DataExportRecord } from '@/lib/organizations/data-export'
 
 interface Organization {
   id: string
@@ -34,6 +45,7 @@ interface Organization {
   logo_url: string | null
   created_at: string
   updated_at: string
+  data_export_history: DataExportRecord[] | null
 }
 
 interface OrganizationsClientProps {
@@ -62,6 +74,7 @@ export function OrganizationsClient({ organizations, industries }: Organizations
   const [editingOrg, setEditingOrg] = useState<Organization | null>(null)
   const [deletingOrg, setDeletingOrg] = useState<Organization | null>(null)
   const [restoringOrg, setRestoringOrg] = useState<Organization | null>(null)
+  const [exportingOrg, setExportingOrg] = useState<Organization | null>(null)
 
   const filteredOrgs = organizations.filter(
     (org) =>
@@ -170,7 +183,7 @@ export function OrganizationsClient({ organizations, industries }: Organizations
                 <TableHead>Status</TableHead>
                 <TableHead>Contact</TableHead>
                 <TableHead>Created</TableHead>
-                <TableHead className="w-[100px]">Actions</TableHead>
+                <TableHead className="w-[140px]">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -235,6 +248,15 @@ export function OrganizationsClient({ organizations, industries }: Organizations
                           <Pencil className="h-4 w-4" />
                           <span className="sr-only">Edit</span>
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setExportingOrg(org)}
+                          title="Export organization data"
+                        >
+                          <FileArchive className="h-4 w-4" />
+                          <span className="sr-only">Export data</span>
+                        </Button>
                         {org.status === OrganizationStatus.Inactive ? (
                           <Button
                             variant="ghost"
@@ -294,6 +316,15 @@ export function OrganizationsClient({ organizations, industries }: Organizations
         />
       )}
 
+      {exportingOrg && (
+        <ExportOrganizationDialog
+          organization={exportingOrg}
+          open={!!exportingOrg}
+          onOpenChange={(open) => !open && setExportingOrg(null)}
+          onSuccess={() => router.refresh()}
+        />
+      )}
+
       {restoringOrg && (
         <RestoreOrganizationDialog
           organization={restoringOrg}
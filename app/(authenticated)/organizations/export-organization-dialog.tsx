@@ -0,0 +1,168 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, FileArchive, Loader2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { DataExportStatus } from '@/lib/enums'
+import type { DataExportRecord } from '@/lib/organizations/data-export'
+
+interface Organization {
+  id: string
+  name: string
+  data_export_history: DataExportRecord[] | null
+}
+
+interface ExportOrganizationDialogProps {
+  organization: Organization
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess: () => void
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export function ExportOrganizationDialog({
+  organization,
+  open,
+  onOpenChange,
+  onSuccess,
+}: ExportOrganizationDialogProps) {
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [history, setHistory] = useState<DataExportRecord[]>(organization.data_export_history ?? [])
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/organizations/${organization.id}/exports`, {
+        method: 'POST',
+      })
+      const result = (await response.json()) as { export?: DataExportRecord; error?: string }
+
+      if (result.export) {
+        setHistory((prev) => [...prev, result.export!])
+      }
+      if (response.ok) {
+        onSuccess()
+      } else {
+        setError(result.error || 'Failed to export organization data')
+      }
+    } catch {
+      setError('Failed to export organization data')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setError(null)
+    }
+    onOpenChange(newOpen)
+  }
+
+  const exports = [...history].reverse()
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-neutral-100">
+              <FileArchive className="h-5 w-5 text-neutral-700" aria-hidden="true" />
+            </div>
+            <div>
+              <DialogTitle>Export Organization Data</DialogTitle>
+              <DialogDescription>
+                Download everything <strong>{organization.name}</strong> has in Selo.
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <p className="text-muted-foreground text-sm">
+            A zip of JSON and CSV files covering campaigns and their metrics, site audits with
+            checks and pages, AI visibility prompts and results, marketing review snapshots and
+            generated reports.
+          </p>
+
+          {exports.length > 0 ? (
+            <ul className="divide-y rounded-lg border" aria-label="Previous exports">
+              {exports.map((record) => (
+                <li key={record.id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{formatDateTime(record.requested_at)}</p>
+                    <p className="text-muted-foreground truncate text-xs">
+                      {record.status === DataExportStatus.Completed && record.size_bytes !== null
+                        ? formatSize(record.size_bytes)
+                        : record.error}
+                    </p>
+                  </div>
+                  {record.status === DataExportStatus.Completed && record.file_path ? (
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`/api/organizations/${organization.id}/exports/${record.id}`}>
+                        <Download className="mr-2 h-4 w-4" aria-hidden="true" />
+                        Download
+                      </a>
+                    </Button>
+                  ) : (
+                    <Badge variant="destructive">Failed</Badge>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-muted-foreground text-sm">No exports yet.</p>
+          )}
+
+          {error && (
+            <p className="text-destructive text-sm" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isExporting}>
+            Close
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                Exporting…
+              </>
+            ) : (
+              'Start Export'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
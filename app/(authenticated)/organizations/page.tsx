@@ -33,7 +33,8 @@ export default async function OrganizationsPage() {
       contact_email,
       logo_url,
       created_at,
-      updated_at
+      updated_at,
+      data_export_history
     `
     )
     .order('name', { ascending: true })
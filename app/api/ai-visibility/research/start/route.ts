@@ -2,6 +2,7 @@ import { NextResponse, after } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { canAccessOrg } from '@/lib/permissions'
 import { prepareResearch, executeResearch } from '@/lib/ai-visibility/research'
+import { AIDisabledError } from '@/lib/ai/provider'
 
 export async function POST(request: Request) {
   const supabase = await createClient()
@@ -82,6 +83,9 @@ export async function POST(request: Request) {
 
     return NextResponse.json(result)
   } catch (error) {
+    if (error instanceof AIDisabledError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error('[Research Start Error]', {
       type: 'research_start_failed',
       orgId,
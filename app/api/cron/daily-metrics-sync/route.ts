@@ -5,7 +5,11 @@ import {
   syncLinkedInPosts,
 } from '@/lib/platforms/linkedin/actions'
 import { syncMetricsForGoogleAnalyticsConnection } from '@/lib/platforms/google-analytics/actions'
+import { syncCampaignPerformanceForConnection } from '@/lib/platforms/google-analytics/campaign-performance'
 import { syncMetricsForHubSpotConnection } from '@/lib/platforms/hubspot/actions'
+import { syncMetricsForMetaConnection } from '@/lib/platforms/meta/actions'
+import { syncMetricsForInstagramConnection } from '@/lib/platforms/instagram/actions'
+import { syncMetricsForSearchConsoleConnection } from '@/lib/platforms/search-console/actions'
 
 /**
  * Generate array of dates between start and end (inclusive)
@@ -170,6 +174,23 @@ export async function POST(request: Request) {
           supabase,
           targetDate
         )
+        if (!isBackfill) {
+          try {
+            await syncCampaignPerformanceForConnection(
+              connection.id,
+              connection.organization_id,
+              connection.credentials,
+              supabase
+            )
+          } catch (err) {
+            console.error('[Cron Error]', {
+              type: 'sync_campaign_performance_failed',
+              connectionId: connection.id,
+              error: err instanceof Error ? err.message : 'unknown',
+              timestamp: new Date().toISOString(),
+            })
+          }
+        }
         break
       case 'hubspot':
         await syncMetricsForHubSpotConnection(
@@ -180,6 +201,33 @@ export async function POST(request: Request) {
           targetDate
         )
         break
+      case 'meta':
+        await syncMetricsForMetaConnection(
+          connection.id,
+          connection.organization_id,
+          connection.credentials,
+          supabase,
+          targetDate
+        )
+        break
+      case 'instagram':
+        await syncMetricsForInstagramConnection(
+          connection.id,
+          connection.organization_id,
+          connection.credentials,
+          supabase,
+          targetDate
+        )
+        break
+      case 'search_console':
+        await syncMetricsForSearchConsoleConnection(
+          connection.id,
+          connection.organization_id,
+          connection.credentials,
+          supabase,
+          targetDate
+        )
+        break
       default:
         // Skip unsupported platform types - don't count as synced
         return false
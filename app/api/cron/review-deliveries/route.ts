@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { ReviewDeliveryTrigger } from '@/lib/enums'
+import { deliverReviewSnapshot } from '@/lib/reviews/distribution'
+
+export const maxDuration = 60
+
+// Leave room for the review in progress to finish before maxDuration
+const CLAIM_DEADLINE_MS = 40_000
+
+/**
+ * Scheduled marketing review emails.
+ *
+ * Sends the latest published snapshot of every review whose
+ * `scheduled_send_at` has passed. Reviews scheduled before their first publish
+ * wait until a snapshot exists. The schedule is cleared before sending, so a
+ * crashed run never emails the same list twice. Reviews not claimed before the
+ * deadline stay due for the next run.
+ *
+ * Scheduled: hourly via vercel.json cron
+ */
+export async function POST(request: Request) {
+  const authHeader = request.headers.get('authorization')
+  if (!process.env.CRON_SECRET || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const deadline = Date.now() + CLAIM_DEADLINE_MS
+  const supabase = createServiceClient()
+  const results = { reviews: 0, sent: 0, failed: 0, suppressed: 0, errors: 0 }
+
+  const { data: due, error } = await supabase
+    .from('marketing_reviews')
+    .select('id, latest_snapshot_id, scheduled_send_at')
+    .lte('scheduled_send_at', new Date().toISOString())
+    .not('latest_snapshot_id', 'is', null)
+
+  if (error) {
+    console.error('[Cron Error]', {
+      type: 'review_deliveries_query_failed',
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  for (const review of due ?? []) {
+    if (Date.now() >= deadline) break
+
+    // Claim the schedule; a concurrent run that already cleared it updates no rows
+    const { data: claimed } = await supabase
+      .from('marketing_reviews')
+      .update({ scheduled_send_at: null })
+      .eq('id', review.id)
+      .eq('scheduled_send_at', review.scheduled_send_at)
+      .select('id')
+
+    if (!claimed?.length) continue
+
+    try {
+      const delivery = await deliverReviewSnapshot({
+        reviewId: review.id as string,
+        snapshotId: review.latest_snapshot_id as string,
+        trigger: ReviewDeliveryTrigger.Scheduled,
+      })
+      results.reviews++
+      results.sent += delivery.sent
+      results.failed += delivery.failed
+      results.suppressed += delivery.suppressed
+    } catch (err) {
+      results.errors++
+      console.error('[Cron Error]', {
+        type: 'review_delivery_failed',
+        reviewId: review.id,
+        error: err instanceof Error ? err.message : String(err),
+        timestamp: new Date().toISOString(),
+      })
+    }
+  }
+
+  console.error('[Cron Info]', {
+    type: 'review_deliveries_completed',
+    ...results,
+    timestamp: new Date().toISOString(),
+  })
+
+  return NextResponse.json({ success: true, ...results })
+}
@@ -2,10 +2,15 @@ import { NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase/server'
 import { sendEmail, FROM_EMAIL } from '@/lib/email/client'
 import WeeklySummaryEmail from '@/emails/weekly-summary-email'
+import {
+  sendCampaignWeeklyReports,
+  type CampaignWeeklyReportResult,
+} from '@/lib/campaigns/weekly-report'
 
 /**
  * Weekly marketing summary emails — sends a performance digest to
- * each organization's admin and team members.
+ * each organization's admin and team members, then a per-campaign report
+ * to each campaign's weekly_report_recipients.
  *
  * Scheduled: Monday 7 AM UTC via vercel.json cron
  */
@@ -225,11 +230,23 @@ export async function POST(request: Request) {
     }
   }
 
+  let campaignReports: CampaignWeeklyReportResult | null = null
+  try {
+    campaignReports = await sendCampaignWeeklyReports(supabase, currentWeekStart, currentWeekEnd)
+  } catch (err) {
+    console.error('[Weekly Summary]', {
+      type: 'campaign_reports_failed',
+      error: err instanceof Error ? err.message : String(err),
+      timestamp: new Date().toISOString(),
+    })
+  }
+
   console.error('[Weekly Summary]', {
     type: 'completed',
     ...results,
+    campaignReports,
     timestamp: new Date().toISOString(),
   })
 
-  return NextResponse.json(results)
+  return NextResponse.json({ ...results, campaignReports })
 }
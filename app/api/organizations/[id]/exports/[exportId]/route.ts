@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getAuthUser, getUserRecord } from '@/lib/auth/cached'
+import { isInternalUser } from '@/lib/permissions'
+import { DATA_EXPORT_BUCKET, type DataExportRecord } from '@/lib/organizations/data-export'
+
+const SIGNED_URL_TTL_SECONDS = 60
+
+/**
+ * Downloads a recorded organization export by redirecting to a short-lived
+ * signed URL, so the link in the export history keeps working. Internal users only.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; exportId: string }> }
+) {
+  const { id: organizationId, exportId } = await params
+
+  const user = await getAuthUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const userRecord = await getUserRecord(user.id)
+  if (!userRecord || !isInternalUser(userRecord)) {
+    return NextResponse.json({ error: 'Export not found' }, { status: 404 })
+  }
+
+  const supabase = createServiceClient()
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('name, data_export_history')
+    .eq('id', organizationId)
+    .maybeSingle()
+
+  const history = (organization?.data_export_history ?? []) as DataExportRecord[]
+  const record = Array.isArray(history) ? history.find((e) => e.id === exportId) : undefined
+  if (!record?.file_path) {
+    return NextResponse.json({ error: 'Export not found' }, { status: 404 })
+  }
+
+  const slug = (organization!.name as string)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+  const { data, error } = await supabase.storage
+    .from(DATA_EXPORT_BUCKET)
+    .createSignedUrl(record.file_path, SIGNED_URL_TTL_SECONDS, {
+      download: `${slug || 'organization'}-export-${record.requested_at.split('T')[0]}.zip`,
+    })
+
+  if (error || !data) {
+    console.error('[Data Export Error]', {
+      type: 'signed_url_failed',
+      organizationId,
+      exportId,
+      error: error?.message,
+      timestamp: new Date().toISOString(),
+    })
+    return NextResponse.json({ error: 'Failed to create download link' }, { status: 500 })
+  }
+
+  return NextResponse.redirect(data.signedUrl)
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getAuthUser, getUserRecord } from '@/lib/auth/cached'
+import { isInternalUser } from '@/lib/permissions'
+import { runOrganizationDataExport } from '@/lib/organizations/data-export'
+import { DataExportStatus } from '@/lib/enums'
+
+// Paging through every audit's checks and pages, then zipping, takes a while for large orgs
+export const maxDuration = 300
+
+/**
+ * Runs a full data export for an organization and records it in
+ * `data_export_history`. Internal users only.
+ */
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id: organizationId } = await params
+
+  const user = await getAuthUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const userRecord = await getUserRecord(user.id)
+  if (!userRecord || !isInternalUser(userRecord)) {
+    return NextResponse.json(
+      { error: 'Only internal users can export organization data' },
+      { status: 403 }
+    )
+  }
+
+  const supabase = createServiceClient()
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('id')
+    .eq('id', organizationId)
+    .maybeSingle()
+
+  if (!organization) {
+    return NextResponse.json({ error: 'Organization not found' }, { status: 404 })
+  }
+
+  const record = await runOrganizationDataExport(supabase, organizationId, user.id)
+  if (record.status === DataExportStatus.Failed) {
+    return NextResponse.json({ error: 'Export failed', export: record }, { status: 500 })
+  }
+
+  return NextResponse.json({ export: record })
+}
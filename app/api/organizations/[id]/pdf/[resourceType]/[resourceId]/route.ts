@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import { getAuthUser, getUserRecord } from '@/lib/auth/cached'
+import { canAccessOrg } from '@/lib/permissions'
+import { getResourcePdf, PDF_CONTENT_TYPE } from '@/lib/pdf/exports'
+import { isPdfResourceType } from '@/lib/pdf/types'
+
+// Headless Chromium cold start plus rendering every slide
+export const maxDuration = 60
+
+/**
+ * Downloads the PDF of one of the organization's generated reports, unified
+ * audits or review snapshots, for signed-in members of that organization.
+ * Resources owned by another organization are reported as not found.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; resourceType: string; resourceId: string }> }
+) {
+  const { id: organizationId, resourceType, resourceId } = await params
+
+  if (!isPdfResourceType(resourceType)) {
+    return NextResponse.json(
+      { error: 'PDF export is not available for this resource' },
+      { status: 400 }
+    )
+  }
+
+  const user = await getAuthUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const userRecord = await getUserRecord(user.id)
+  if (!userRecord || !canAccessOrg(userRecord, organizationId)) {
+    return NextResponse.json({ error: 'Resource not found' }, { status: 404 })
+  }
+
+  try {
+    const pdf = await getResourcePdf(resourceType, resourceId, { organizationId })
+    if (!pdf) {
+      return NextResponse.json({ error: 'Resource not found' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(pdf.content), {
+      headers: {
+        'Content-Type': PDF_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="${pdf.filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('[PDF Export Error]', {
+      type: 'pdf_render_failed',
+      organizationId,
+      resourceType,
+      resourceId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    return NextResponse.json({ error: 'Failed to generate PDF' }, { status: 500 })
+  }
+}
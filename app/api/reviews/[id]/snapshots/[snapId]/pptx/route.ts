@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAuthUser, getUserRecord } from '@/lib/auth/cached'
+import { canAccessOrg } from '@/lib/permissions'
+import { formatPeriodLabel, getPeriodType } from '@/lib/reviews/period'
+import { buildReviewPptx, PPTX_CONTENT_TYPE } from '@/lib/reviews/export/pptx'
+import type { NarrativeBlocks, SnapshotData } from '@/lib/reviews/types'
+
+// Thumbnail and logo downloads plus zip compression can take a few seconds
+export const maxDuration = 60
+
+function toFileName(title: string, version: number): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+  return `${slug || 'marketing-review'}-v${version}.pptx`
+}
+
+/**
+ * Downloads a published review snapshot as an editable PowerPoint deck.
+ * Snapshots are immutable, so the file always matches what was published.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; snapId: string }> }
+) {
+  const { id: reviewId, snapId } = await params
+
+  const user = await getAuthUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const userRecord = await getUserRecord(user.id)
+  if (!userRecord) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  const supabase = await createClient()
+
+  const { data: review } = await supabase
+    .from('marketing_reviews')
+    .select('id, title, quarter, organization_id')
+    .eq('id', reviewId)
+    .maybeSingle()
+
+  if (!review || !canAccessOrg(userRecord, review.organization_id as string)) {
+    return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+  }
+
+  const [snapshotRes, orgRes] = await Promise.all([
+    supabase
+      .from('marketing_review_snapshots')
+      .select('id, version, period_start, period_end, narrative, data')
+      .eq('id', snapId)
+      .eq('review_id', reviewId)
+      .maybeSingle(),
+    supabase
+      .from('organizations')
+      .select('name, logo_url, primary_color')
+      .eq('id', review.organization_id)
+      .maybeSingle(),
+  ])
+
+  const snapshot = snapshotRes.data
+  if (!snapshot) {
+    return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 })
+  }
+
+  const org = orgRes.data
+  const quarter = review.quarter as string
+  const title = review.title as string
+  const version = snapshot.version as number
+
+  try {
+    const buffer = await buildReviewPptx({
+      organization: {
+        name: (org?.name as string | undefined) ?? 'Organization',
+        logo_url: (org?.logo_url as string | null | undefined) ?? null,
+        primary_color: (org?.primary_color as string | null | undefined) ?? null,
+      },
+      title,
+      periodLabel: formatPeriodLabel(quarter),
+      periodType: getPeriodType(quarter),
+      periodStart: snapshot.period_start as string,
+      periodEnd: snapshot.period_end as string,
+      narrative: (snapshot.narrative as NarrativeBlocks | null) ?? {},
+      data: (snapshot.data as SnapshotData | null) ?? {},
+    })
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': PPTX_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="${toFileName(title, version)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('[Review PPTX Export Error]', {
+      type: 'pptx_render_failed',
+      reviewId,
+      snapshotId: snapId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    return NextResponse.json({ error: 'Failed to export presentation' }, { status: 500 })
+  }
+}
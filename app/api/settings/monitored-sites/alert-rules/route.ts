@@ -0,0 +1,190 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { AuditAlertRuleType, ScoreDimension } from '@/lib/enums'
+
+const VALID_DIMENSIONS: string[] = [
+  'overall',
+  ScoreDimension.SEO,
+  ScoreDimension.Performance,
+  ScoreDimension.AIReadiness,
+]
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+async function getUserOrganizationId(
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<{ userId: string; organizationId: string | null } | null> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: rawUser } = await supabase
+    .from('users')
+    .select('id, team_members(organization_id)')
+    .eq('id', user.id)
+    .single()
+
+  return {
+    userId: user.id,
+    organizationId:
+      (rawUser?.team_members as { organization_id: string }[] | undefined)?.[0]?.organization_id ??
+      null,
+  }
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient()
+  const auth = await getUserOrganizationId(supabase)
+
+  if (!auth) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!auth.organizationId) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const { monitored_site_id, rule_type, dimension, threshold, recipients } = body as {
+    monitored_site_id?: string
+    rule_type?: string
+    dimension?: string
+    threshold?: number
+    recipients?: string[]
+  }
+
+  if (!monitored_site_id) {
+    return NextResponse.json({ error: 'Site ID is required' }, { status: 400 })
+  }
+
+  if (!Object.values(AuditAlertRuleType).includes(rule_type as AuditAlertRuleType)) {
+    return NextResponse.json({ error: 'Invalid rule type' }, { status: 400 })
+  }
+
+  const isScoreDrop = rule_type === AuditAlertRuleType.ScoreDrop
+  if (isScoreDrop) {
+    if (!dimension || !VALID_DIMENSIONS.includes(dimension)) {
+      return NextResponse.json({ error: 'Invalid score dimension' }, { status: 400 })
+    }
+    if (!Number.isInteger(threshold) || (threshold as number) < 1 || (threshold as number) > 100) {
+      return NextResponse.json({ error: 'Threshold must be between 1 and 100' }, { status: 400 })
+    }
+  }
+
+  const cleanedRecipients = (recipients ?? []).map((r) => r.trim()).filter(Boolean)
+  if (cleanedRecipients.some((r) => !EMAIL_REGEX.test(r))) {
+    return NextResponse.json({ error: 'Invalid recipient email' }, { status: 400 })
+  }
+
+  // Verify the site belongs to the user's organization to prevent IDOR
+  const { data: site } = await supabase
+    .from('monitored_sites')
+    .select('id, organization_id')
+    .eq('id', monitored_site_id)
+    .eq('organization_id', auth.organizationId)
+    .maybeSingle()
+
+  if (!site) {
+    return NextResponse.json({ error: 'Site not found' }, { status: 404 })
+  }
+
+  const { data, error } = await supabase
+    .from('audit_alert_rules')
+    .insert({
+      organization_id: site.organization_id,
+      monitored_site_id: site.id,
+      rule_type,
+      dimension: isScoreDrop ? dimension : null,
+      threshold: isScoreDrop ? threshold : null,
+      recipients: cleanedRecipients,
+      created_by: auth.userId,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('[Audit Alert Rules Error]', {
+      type: 'insert_failed',
+      timestamp: new Date().toISOString(),
+      error: error.message,
+    })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json(data)
+}
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient()
+  const auth = await getUserOrganizationId(supabase)
+
+  if (!auth) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!auth.organizationId) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const { id, is_active } = body as { id?: string; is_active?: boolean }
+
+  if (!id) {
+    return NextResponse.json({ error: 'Rule ID is required' }, { status: 400 })
+  }
+  if (typeof is_active !== 'boolean') {
+    return NextResponse.json({ error: 'is_active must be a boolean' }, { status: 400 })
+  }
+
+  const { error } = await supabase
+    .from('audit_alert_rules')
+    .update({ is_active })
+    .eq('id', id)
+    .eq('organization_id', auth.organizationId)
+
+  if (error) {
+    console.error('[Audit Alert Rules Error]', {
+      type: 'update_failed',
+      timestamp: new Date().toISOString(),
+      error: error.message,
+    })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true })
+}
+
+export async function DELETE(request: Request) {
+  const supabase = await createClient()
+  const auth = await getUserOrganizationId(supabase)
+
+  if (!auth) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!auth.organizationId) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const id = searchParams.get('id')
+
+  if (!id) {
+    return NextResponse.json({ error: 'Rule ID is required' }, { status: 400 })
+  }
+
+  const { error } = await supabase
+    .from('audit_alert_rules')
+    .delete()
+    .eq('id', id)
+    .eq('organization_id', auth.organizationId)
+
+  if (error) {
+    console.error('[Audit Alert Rules Error]', {
+      type: 'delete_failed',
+      timestamp: new Date().toISOString(),
+      error: error.message,
+    })
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true })
+}
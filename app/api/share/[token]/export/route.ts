@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { authorizeSharedLinkDownload } from '@/lib/share/download-grant'
+import { getShareErrorMessage } from '@/lib/share/utils'
+import { buildAuditExport, parseAuditExportOptions } from '@/lib/unified-audit/export'
+import { ShareErrorCode, SharedResourceType } from '@/lib/enums'
+
+// Large audits have tens of thousands of checks to page through
+export const maxDuration = 60
+
+const ERROR_STATUS: Partial<Record<ShareErrorCode, number>> = {
+  [ShareErrorCode.DownloadGrantRequired]: 403,
+  [ShareErrorCode.Expired]: 410,
+}
+
+/**
+ * Downloads a shared unified audit's checks or pages as CSV or XLSX, when the
+ * link was created with data export allowed. Requires the download grant issued
+ * when the visitor opened the shared page, so the export is covered by that
+ * counted view. POST keeps the grant out of URLs and logs.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+
+  const body = (await request.json().catch(() => ({}))) as {
+    grant?: unknown
+    dataset?: unknown
+    format?: unknown
+  }
+  const grant = typeof body.grant === 'string' ? body.grant : undefined
+
+  const options = parseAuditExportOptions(body)
+  if (!options) {
+    return NextResponse.json({ error: 'Invalid dataset or format' }, { status: 400 })
+  }
+
+  const access = await authorizeSharedLinkDownload(token, grant)
+  if (!access.success) {
+    const errorCode = access.errorCode ?? ShareErrorCode.NotFound
+    return NextResponse.json(
+      { error: getShareErrorMessage(errorCode) },
+      { status: ERROR_STATUS[errorCode] ?? 404 }
+    )
+  }
+
+  if (access.resource_type !== SharedResourceType.UnifiedAudit || !access.allows_data_export) {
+    return NextResponse.json(
+      { error: 'Data export is not available for this link' },
+      { status: 403 }
+    )
+  }
+
+  const supabase = createServiceClient()
+
+  const { data: audit } = await supabase
+    .from('audits')
+    .select('id, domain, created_at')
+    .eq('id', access.resource_id!)
+    .single()
+
+  if (!audit) {
+    return NextResponse.json(
+      { error: getShareErrorMessage(ShareErrorCode.ResourceNotFound) },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const file = await buildAuditExport(supabase, audit, options.dataset, options.format)
+
+    return new NextResponse(new Uint8Array(file.content), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('[Share Audit Export Error]', {
+      type: 'export_failed',
+      auditId: access.resource_id,
+      dataset: options.dataset,
+      format: options.format,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    return NextResponse.json({ error: 'Failed to export audit' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server'
+import { authorizeSharedLinkDownload } from '@/lib/share/download-grant'
+import { getShareErrorMessage } from '@/lib/share/utils'
+import { getResourcePdf, PDF_CONTENT_TYPE } from '@/lib/pdf/exports'
+import { isPdfResourceType } from '@/lib/pdf/types'
+import { ShareErrorCode } from '@/lib/enums'
+
+// Headless Chromium cold start plus rendering every slide
+export const maxDuration = 60
+
+const ERROR_STATUS: Partial<Record<ShareErrorCode, number>> = {
+  [ShareErrorCode.DownloadGrantRequired]: 403,
+  [ShareErrorCode.Expired]: 410,
+}
+
+/**
+ * Downloads the PDF of a shared report, unified audit or review snapshot.
+ * Requires the download grant issued when the visitor opened the shared page,
+ * so the download is covered by that counted view. POST keeps the grant out of
+ * URLs and logs.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+
+  const body = (await request.json().catch(() => ({}))) as { grant?: unknown }
+  const grant = typeof body.grant === 'string' ? body.grant : undefined
+
+  const access = await authorizeSharedLinkDownload(token, grant)
+  if (!access.success) {
+    const errorCode = access.errorCode ?? ShareErrorCode.NotFound
+    return NextResponse.json(
+      { error: getShareErrorMessage(errorCode) },
+      { status: ERROR_STATUS[errorCode] ?? 404 }
+    )
+  }
+
+  if (!isPdfResourceType(access.resource_type)) {
+    return NextResponse.json(
+      { error: 'PDF export is not available for this resource' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const pdf = await getResourcePdf(access.resource_type, access.resource_id!)
+    if (!pdf) {
+      return NextResponse.json(
+        { error: getShareErrorMessage(ShareErrorCode.ResourceNotFound) },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(new Uint8Array(pdf.content), {
+      headers: {
+        'Content-Type': PDF_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="${pdf.filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('[Share PDF Export Error]', {
+      type: 'pdf_render_failed',
+      resourceType: access.resource_type,
+      resourceId: access.resource_id,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    return NextResponse.json({ error: 'Failed to generate PDF' }, { status: 500 })
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { canAccessAllAudits, canAccessOrg } from '@/lib/permissions'
+import { buildAuditExport, parseAuditExportOptions } from '@/lib/unified-audit/export'
+
+// Large audits have tens of thousands of checks to page through
+export const maxDuration = 60
+
+/**
+ * Downloads a unified audit's checks or crawled pages as CSV or XLSX.
+ * Query: ?dataset=checks|pages&format=csv|xlsx
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const { searchParams } = new URL(request.url)
+
+  const options = parseAuditExportOptions({
+    dataset: searchParams.get('dataset'),
+    format: searchParams.get('format'),
+  })
+  if (!options) {
+    return NextResponse.json({ error: 'Invalid dataset or format' }, { status: 400 })
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data: rawUser } = await supabase
+    .from('users')
+    .select('id, is_internal, team_members(organization_id, role)')
+    .eq('id', user.id)
+    .single()
+
+  const memberships = (rawUser?.team_members as { organization_id: string; role: string }[]) ?? []
+  const userRecord = rawUser
+    ? {
+        memberships,
+        role: memberships[0]?.role ?? 'client_viewer',
+        is_internal: rawUser.is_internal,
+      }
+    : null
+
+  if (!userRecord) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  const { data: audit, error: fetchError } = await supabase
+    .from('audits')
+    .select('id, domain, created_at, organization_id, created_by')
+    .eq('id', id)
+    .single()
+
+  if (fetchError || !audit) {
+    return NextResponse.json({ error: 'Audit not found' }, { status: 404 })
+  }
+
+  const hasAccess =
+    (audit.organization_id && canAccessOrg(userRecord, audit.organization_id)) ||
+    (audit.organization_id === null && audit.created_by === user.id) ||
+    canAccessAllAudits(userRecord)
+
+  if (!hasAccess) {
+    return NextResponse.json({ error: 'Audit not found' }, { status: 404 })
+  }
+
+  try {
+    const file = await buildAuditExport(supabase, audit, options.dataset, options.format)
+
+    return new NextResponse(new Uint8Array(file.content), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('[Unified Audit Export Error]', {
+      type: 'export_failed',
+      auditId: id,
+      dataset: options.dataset,
+      format: options.format,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    return NextResponse.json({ error: 'Failed to export audit' }, { status: 500 })
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse, after } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { canAccessOrg, isInternalUser } from '@/lib/permissions'
 import { runUnifiedAuditBatch } from '@/lib/unified-audit/runner'
+import { CrawlMode } from '@/lib/enums'
 
 // Extend function timeout for long-running audits
 export const maxDuration = 800
@@ -21,7 +22,8 @@ export async function POST(request: Request) {
   let body: {
     url?: string
     organizationId?: string
-    crawlMode?: 'standard' | 'exhaustive'
+    crawlMode?: CrawlMode
+    seedFromSitemap?: boolean
     maxPages?: number
   }
   try {
@@ -30,7 +32,17 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 })
   }
 
-  const { url, organizationId, crawlMode = 'standard', maxPages = 100 } = body
+  const {
+    url,
+    organizationId,
+    crawlMode = CrawlMode.Standard,
+    seedFromSitemap = false,
+    maxPages = 100,
+  } = body
+
+  if (!Object.values(CrawlMode).includes(crawlMode)) {
+    return NextResponse.json({ error: `Invalid crawl mode: ${crawlMode}` }, { status: 400 })
+  }
 
   // Get user record via team_members
   const { data: rawUser } = await supabase
@@ -125,6 +137,7 @@ export async function POST(request: Request) {
       status: 'pending',
       created_by: user.id,
       crawl_mode: crawlMode,
+      seed_from_sitemap: seedFromSitemap === true,
       max_pages: maxPages,
     })
     .select()
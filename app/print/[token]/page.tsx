@@ -0,0 +1,71 @@
+import { notFound } from 'next/navigation'
+import type { Metadata } from 'next'
+import { ReportPresentation } from '@/components/reports/report-presentation'
+import { UnifiedAuditDetailClient } from '@/app/(authenticated)/[orgId]/seo/audit/[id]/client'
+import { ReviewDeck } from '@/components/reviews/review-deck'
+import { verifyRenderToken } from '@/lib/pdf/render-token'
+import { SharedResourceType } from '@/lib/enums'
+import {
+  getSharedReportData,
+  getSharedUnifiedAuditData,
+  getSharedChecksByTab,
+  getSharedMarketingReviewData,
+} from '@/app/s/[token]/actions'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+}
+
+interface PageProps {
+  params: Promise<{ token: string }>
+}
+
+/**
+ * Print-only render target for server-side PDF export (see lib/pdf/exports.ts).
+ * Only reachable with a short-lived signed render token, so it skips share
+ * link checks and view counting.
+ */
+export default async function PrintResourcePage({ params }: PageProps) {
+  const { token } = await params
+
+  const payload = verifyRenderToken(token)
+  if (!payload) notFound()
+
+  switch (payload.resourceType) {
+    case SharedResourceType.Report: {
+      const data = await getSharedReportData(payload.resourceId)
+      if (!data) notFound()
+      return <ReportPresentation data={data} isPublic />
+    }
+    case SharedResourceType.UnifiedAudit: {
+      const data = await getSharedUnifiedAuditData(payload.resourceId)
+      if (!data) notFound()
+      return (
+        <div className="p-6">
+          <UnifiedAuditDetailClient
+            audit={data.audit}
+            tabCounts={data.tabCounts}
+            fetchChecks={getSharedChecksByTab}
+          />
+        </div>
+      )
+    }
+    case SharedResourceType.MarketingReview: {
+      const data = await getSharedMarketingReviewData(payload.resourceId)
+      if (!data) notFound()
+      return (
+        <ReviewDeck
+          organization={data.organization}
+          quarter={data.quarter}
+          periodStart={data.periodStart}
+          periodEnd={data.periodEnd}
+          periodType={data.periodType}
+          narrative={data.narrative}
+          data={data.data}
+        />
+      )
+    }
+  }
+}
@@ -2,7 +2,7 @@
 
 import { createServiceClient } from '@/lib/supabase/server'
 import { paginateQuery } from '@/lib/supabase/paginate'
-import { ScoreDimension } from '@/lib/enums'
+import { ReviewPeriodType, ScoreDimension } from '@/lib/enums'
 import type { SiteAuditCheck, SiteAuditPage, SiteAudit } from '@/lib/audit/types'
 import type { UnifiedAudit, AuditCheck } from '@/lib/unified-audit/types'
 import type { TabCounts } from '@/app/(authenticated)/[orgId]/seo/audit/[id]/actions'
@@ -13,7 +13,7 @@ import type {
   ReportAuditData,
 } from '@/app/(authenticated)/[orgId]/reports/audit/actions'
 import { fetchUnifiedAuditScores } from '@/lib/reports/unified-audit-fetch'
-import { formatQuarterLabel } from '@/lib/reviews/period'
+import { formatPeriodLabel, getPeriodType } from '@/lib/reviews/period'
 import type { NarrativeBlocks, SnapshotData } from '@/lib/reviews/types'
 
 // =============================================================================
@@ -73,6 +73,7 @@ export interface SharedMarketingReviewData {
   quarter: string
   periodStart: string
   periodEnd: string
+  periodType: ReviewPeriodType
   narrative: NarrativeBlocks
   data: SnapshotData
   version: number
@@ -390,9 +391,10 @@ export async function getSharedMarketingReviewData(
       logo_url: (org.logo_url as string | null) ?? null,
       primary_color: (org.primary_color as string | null) ?? null,
     },
-    quarter: formatQuarterLabel(quarter),
+    quarter: formatPeriodLabel(quarter),
     periodStart: snapshot.period_start as string,
     periodEnd: snapshot.period_end as string,
+    periodType: getPeriodType(quarter),
     narrative,
     data,
     version: snapshot.version as number,
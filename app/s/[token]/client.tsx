@@ -11,6 +11,8 @@ import { AuditReport } from '@/components/audit/audit-report'
 import { UnifiedAuditDetailClient } from '@/app/(authenticated)/[orgId]/seo/audit/[id]/client'
 import { ReviewDeck } from '@/components/reviews/review-deck'
 import { PrintButton } from '@/components/reviews/print-button'
+import { DownloadPdfButton } from '@/components/share/download-pdf-button'
+import { AuditExportMenu } from '@/components/audit/audit-export-menu'
 import { accessSharedLink } from '@/lib/share/actions'
 import {
   getSharedReportData,
@@ -32,6 +34,8 @@ interface SharedResourceClientProps {
   token: string
   resourceType: SharedResourceType
   requiresPassword: boolean
+  /** Share allows CSV/XLSX downloads of the audit's checks and pages */
+  allowsDataExport: boolean
 }
 
 type ResourceData =
@@ -44,13 +48,18 @@ export function SharedResourceClient({
   token,
   resourceType,
   requiresPassword,
+  allowsDataExport,
 }: SharedResourceClientProps) {
   const [password, setPassword] = useState('')
   const [isLoading, setIsLoading] = useState(!requiresPassword)
   const [error, setError] = useState<string | null>(null)
   const [resourceData, setResourceData] = useState<ResourceData | null>(null)
+  const [downloadGrant, setDownloadGrant] = useState<string | null>(null)
 
   const label = getResourceTypeLabel(resourceType)
+  const downloadButton = downloadGrant ? (
+    <DownloadPdfButton token={token} grant={downloadGrant} />
+  ) : null
 
   const loadResource = useCallback(
     async (providedPassword?: string) => {
@@ -69,6 +78,8 @@ export function SharedResourceClient({
           return
         }
 
+        setDownloadGrant(result.downloadGrant ?? null)
+
         // Fetch resource-specific data based on type
         switch (result.resource_type) {
           case SharedResourceType.Report: {
@@ -213,7 +224,7 @@ export function SharedResourceClient({
   if (resourceData) {
     switch (resourceData.type) {
       case 'report':
-        return <ReportPresentation data={resourceData.data} isPublic />
+        return <ReportPresentation data={resourceData.data} isPublic actions={downloadButton} />
       case 'site_audit':
         return (
           <div className="p-6">
@@ -228,6 +239,12 @@ export function SharedResourceClient({
       case 'unified_audit':
         return (
           <div className="p-6">
+            <div className="mb-4 flex justify-end gap-2 print:hidden">
+              {allowsDataExport && downloadGrant && (
+                <AuditExportMenu token={token} grant={downloadGrant} />
+              )}
+              {downloadButton}
+            </div>
             <UnifiedAuditDetailClient
               audit={resourceData.data.audit}
               tabCounts={resourceData.data.tabCounts}
@@ -241,7 +258,8 @@ export function SharedResourceClient({
             data-testid="shared-marketing-review"
             className="bg-background fixed inset-0 z-50 flex items-center justify-center overflow-hidden p-4 md:p-8"
           >
-            <div className="absolute top-4 right-4 z-10 print:hidden">
+            <div className="absolute top-4 right-4 z-10 flex items-center gap-2 print:hidden">
+              {downloadButton}
               <PrintButton />
             </div>
             <div className="flex h-full w-full max-w-[1600px] items-center justify-center">
@@ -250,6 +268,7 @@ export function SharedResourceClient({
                 quarter={resourceData.data.quarter}
                 periodStart={resourceData.data.periodStart}
                 periodEnd={resourceData.data.periodEnd}
+                periodType={resourceData.data.periodType}
                 narrative={resourceData.data.narrative}
                 data={resourceData.data.data}
               />
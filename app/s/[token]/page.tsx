@@ -23,6 +23,7 @@ export default async function SharedResourcePage({ params }: PageProps) {
       token={token}
       resourceType={validation.resource_type!}
       requiresPassword={validation.requires_password}
+      allowsDataExport={validation.allows_data_export}
     />
   )
 }
@@ -57,6 +58,10 @@ function ErrorPage({ errorCode }: { errorCode: ShareErrorCode | null }) {
       title: 'Resource Not Found',
       description: 'The resource associated with this link no longer exists.',
     },
+    [ShareErrorCode.DownloadGrantRequired]: {
+      title: 'Download Expired',
+      description: 'Reload the page to download again.',
+    },
   }
 
   const error = errorCode ? errorMessages[errorCode] : null
@@ -12,6 +12,9 @@ const PLATFORM_COLORS: Record<AIPlatform, string> = {
   [AIPlatform.ChatGPT]: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
   [AIPlatform.Claude]: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400',
   [AIPlatform.Perplexity]: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400',
+  [AIPlatform.Gemini]: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-400',
+  [AIPlatform.GoogleAIOverviews]: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+  [AIPlatform.Copilot]: 'bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-400',
 }
 
 export function PlatformBadge({ platform }: { platform: AIPlatform }) {
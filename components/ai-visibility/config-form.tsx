@@ -19,6 +19,7 @@ import { toast } from 'sonner'
 import { updateAIVisibilityConfig } from '@/app/(authenticated)/[orgId]/ai-visibility/actions'
 import { AIPlatform, SyncFrequency } from '@/lib/enums'
 import { PLATFORM_DISPLAY_NAMES } from '@/lib/ai-visibility/types'
+import { SAMPLE_COUNT_OPTIONS } from '@/lib/ai-visibility/sampling'
 import type { AIVisibilityConfig } from '@/lib/ai-visibility/types'
 
 interface ConfigFormProps {
@@ -40,6 +41,7 @@ export function AIVisibilityConfigForm({ orgId, config, availablePlatforms }: Co
   const [syncFrequency, setSyncFrequency] = useState<SyncFrequency>(
     (config?.sync_frequency as SyncFrequency) ?? SyncFrequency.Daily
   )
+  const [sampleCount, setSampleCount] = useState((config?.sample_count ?? 1).toString())
   const [budgetDollars, setBudgetDollars] = useState(
     ((config?.monthly_budget_cents ?? 10000) / 100).toString()
   )
@@ -80,6 +82,7 @@ export function AIVisibilityConfigForm({ orgId, config, availablePlatforms }: Co
         syncFrequency,
         monthlyBudgetCents: Math.round(parseFloat(budgetDollars || '0') * 100),
         budgetAlertThreshold: parseInt(alertThreshold || '90', 10),
+        sampleCount: parseInt(sampleCount, 10),
         competitors: competitors.filter((c) => c.name.trim()),
       })
 
@@ -147,6 +150,27 @@ export function AIVisibilityConfigForm({ orgId, config, availablePlatforms }: Co
             </Select>
           </div>
 
+          {/* Sampling */}
+          <div className="space-y-2">
+            <Label>Runs per Prompt</Label>
+            <Select value={sampleCount} onValueChange={setSampleCount}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SAMPLE_COUNT_OPTIONS.map((count) => (
+                  <SelectItem key={count} value={count.toString()}>
+                    {count === 1 ? '1 run' : `${count} runs`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-muted-foreground text-xs">
+              AI answers vary between runs. More runs give more reliable mention rates but multiply
+              query costs.
+            </p>
+          </div>
+
           {/* Budget */}
           <div className="grid gap-4 sm:grid-cols-2">
             <div className="space-y-2">
@@ -7,6 +7,7 @@ import { Card, CardContent } from '@/components/ui/card'
 import { EmptyState } from '@/components/ui/empty-state'
 import { PageHeader, SyncButton } from '@/components/ai-visibility/page-header'
 import { PlatformBreakdown } from '@/components/ai-visibility/platform-breakdown'
+import { ShareOfVoiceChart } from '@/components/ai-visibility/share-of-voice-chart'
 import Link from 'next/link'
 import { Eye, Settings, Plus, MessageSquarePlus } from 'lucide-react'
 import { Button } from '@/components/ui/button'
@@ -15,7 +16,7 @@ import { PLATFORM_DISPLAY_NAMES } from '@/lib/ai-visibility/types'
 import { ALL_PLATFORMS } from '@/lib/ai-visibility/types'
 import { getScoreStatus } from '@/lib/reports/types'
 import type { AIVisibilityScore, AIVisibilityConfig } from '@/lib/ai-visibility/types'
-import type { ScoreHistoryPoint } from '@/lib/ai-visibility/queries'
+import type { ScoreHistoryPoint, ShareOfVoiceHistoryPoint } from '@/lib/ai-visibility/queries'
 import type { TimeSeriesDataPoint } from '@/lib/metrics/types'
 
 const SCORE_STATUS_LABELS: Record<ScoreStatus, string> = {
@@ -29,6 +30,7 @@ interface OverviewDashboardProps {
   latestScore: AIVisibilityScore | null
   previousScore: AIVisibilityScore | null
   scoreHistory: ScoreHistoryPoint[]
+  shareOfVoiceHistory?: ShareOfVoiceHistoryPoint[]
   config: AIVisibilityConfig | null
   isInternal?: boolean
   availablePlatforms?: AIPlatform[]
@@ -40,6 +42,7 @@ export function OverviewDashboard({
   latestScore,
   previousScore,
   scoreHistory,
+  shareOfVoiceHistory = [],
   config,
   isInternal = false,
   availablePlatforms = [],
@@ -115,6 +118,14 @@ export function OverviewDashboard({
                     </span>
                   )}
                 </span>
+                {latestScore.score_lower !== null && latestScore.score_upper !== null && (
+                  <span
+                    className="text-muted-foreground text-xs"
+                    title={`95% confidence interval from ${latestScore.sample_count} run${latestScore.sample_count !== 1 ? 's' : ''} per prompt`}
+                  >
+                    Likely range {latestScore.score_lower}–{latestScore.score_upper}
+                  </span>
+                )}
               </div>
               <div className="flex-1">
                 <p className="text-muted-foreground mb-2 text-sm font-medium">Score Trend</p>
@@ -153,6 +164,11 @@ export function OverviewDashboard({
             breakdown={latestScore.platform_breakdown}
             configuredPlatforms={config?.platforms}
           />
+
+          {/* Share of Voice */}
+          {(config?.competitors.length ?? 0) > 0 && (
+            <ShareOfVoiceChart history={shareOfVoiceHistory} />
+          )}
         </>
       )}
     </div>
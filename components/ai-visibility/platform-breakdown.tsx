@@ -12,6 +12,9 @@ const PLATFORM_BAR_COLORS: Record<string, string> = {
   [AIPlatform.ChatGPT]: 'bg-green-500',
   [AIPlatform.Claude]: 'bg-orange-500',
   [AIPlatform.Perplexity]: 'bg-blue-500',
+  [AIPlatform.Gemini]: 'bg-indigo-500',
+  [AIPlatform.GoogleAIOverviews]: 'bg-red-500',
+  [AIPlatform.Copilot]: 'bg-teal-500',
 }
 
 export function PlatformBreakdown({ breakdown, configuredPlatforms }: PlatformBreakdownProps) {
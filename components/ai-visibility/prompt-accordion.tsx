@@ -14,7 +14,8 @@ import {
 } from '@/components/ai-visibility/badges'
 import { BrandSentiment, AIPlatform } from '@/lib/enums'
 import type { TopicWithPrompts, PromptWithResults } from '@/lib/ai-visibility/queries'
-import type { AIVisibilityResult } from '@/lib/ai-visibility/types'
+import { groupSamplesByPlatform } from '@/lib/ai-visibility/sampling'
+import type { AIVisibilityResult, SampleAggregate } from '@/lib/ai-visibility/types'
 
 interface PromptAccordionProps {
   topics: TopicWithPrompts[]
@@ -63,8 +64,11 @@ function TopicSection({ topic, defaultOpen }: { topic: TopicWithPrompts; default
 
 function PromptRow({ prompt }: { prompt: PromptWithResults }) {
   const [expanded, setExpanded] = useState(false)
+  const platformGroups = groupSamplesByPlatform(prompt.results)
+  const isSampled = platformGroups.some((g) => g.aggregate.samples > 1)
   const mentionedCount = prompt.results.filter((r) => r.brand_mentioned).length
   const totalPlatforms = prompt.results.length
+  const mentionRate = totalPlatforms > 0 ? Math.round((mentionedCount / totalPlatforms) * 100) : 0
   const sentiments = prompt.results.filter((r) => r.brand_mentioned).map((r) => r.brand_sentiment)
   const dominantSentiment = sentiments.length > 0 ? getDominantSentiment(sentiments) : null
 
@@ -80,7 +84,9 @@ function PromptRow({ prompt }: { prompt: PromptWithResults }) {
           {totalPlatforms > 0 && (
             <>
               <span className="text-muted-foreground text-xs">
-                {mentionedCount}/{totalPlatforms} mentioned
+                {isSampled
+                  ? `${mentionRate}% mention rate`
+                  : `${mentionedCount}/${totalPlatforms} mentioned`}
               </span>
               {dominantSentiment && <SentimentBadge sentiment={dominantSentiment} />}
             </>
@@ -91,8 +97,8 @@ function PromptRow({ prompt }: { prompt: PromptWithResults }) {
       {expanded && prompt.results.length > 0 && (
         <div className="bg-muted/20 border-t p-3">
           <div className="space-y-3">
-            {prompt.results.map((result) => (
-              <ResultDetail key={result.id} result={result} />
+            {platformGroups.map(({ platform, results, aggregate }) => (
+              <ResultDetail key={platform} result={results[0]} aggregate={aggregate} />
             ))}
           </div>
         </div>
@@ -106,7 +112,13 @@ function PromptRow({ prompt }: { prompt: PromptWithResults }) {
   )
 }
 
-function ResultDetail({ result }: { result: AIVisibilityResult }) {
+function ResultDetail({
+  result,
+  aggregate,
+}: {
+  result: AIVisibilityResult
+  aggregate: SampleAggregate
+}) {
   return (
     <div className="bg-background space-y-2 rounded-md p-3">
       <div className="flex items-center gap-2">
@@ -118,6 +130,12 @@ function ResultDetail({ result }: { result: AIVisibilityResult }) {
         <StatusChip positive={result.brand_mentioned} label="Mentioned" />
         <StatusChip positive={result.domain_cited} label="Cited" />
       </div>
+      {aggregate.samples > 1 && (
+        <p className="text-muted-foreground text-xs">
+          Mentioned in {aggregate.mentioned} of {aggregate.samples} runs · cited in{' '}
+          {aggregate.cited} of {aggregate.samples} runs
+        </p>
+      )}
       {result.competitor_mentions && <CompetitorPills competitors={result.competitor_mentions} />}
       <p className="text-muted-foreground line-clamp-3 text-xs">{result.response_text}</p>
     </div>
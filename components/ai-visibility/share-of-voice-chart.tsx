@@ -0,0 +1,146 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AIPlatform } from '@/lib/enums'
+import { PLATFORM_DISPLAY_NAMES } from '@/lib/ai-visibility/types'
+import { buildShareOfVoiceTrend } from '@/lib/ai-visibility/share-of-voice'
+import type { ShareOfVoiceHistoryPoint } from '@/lib/ai-visibility/queries'
+
+const ALL_PLATFORMS_VALUE = 'all'
+const SERIES_COLORS = [1, 2, 3, 4, 5].map((n) => `var(--chart-${n})`)
+
+interface ShareOfVoiceChartProps {
+  history: ShareOfVoiceHistoryPoint[]
+}
+
+export function ShareOfVoiceChart({ history }: ShareOfVoiceChartProps) {
+  const [platform, setPlatform] = useState<string>(ALL_PLATFORMS_VALUE)
+
+  // Platforms that appear in any period, in display order
+  const platforms = useMemo(() => {
+    const seen = new Set(history.flatMap((h) => Object.keys(h.share_of_voice?.platforms ?? {})))
+    return Object.values(AIPlatform).filter((p) => seen.has(p))
+  }, [history])
+
+  const { points, series } = useMemo(
+    () =>
+      buildShareOfVoiceTrend(
+        history,
+        platform === ALL_PLATFORMS_VALUE ? undefined : (platform as AIPlatform)
+      ),
+    [history, platform]
+  )
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    series.map((s, i) => [s.key, { label: s.name, color: SERIES_COLORS[i % SERIES_COLORS.length] }])
+  )
+
+  const formattedData = points.map((point) => ({
+    ...point,
+    formattedDate: new Date(point.date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+    }),
+  }))
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 pb-3">
+        <div className="space-y-1">
+          <CardTitle className="text-base font-medium">Share of Voice</CardTitle>
+          <CardDescription>
+            Share of AI responses that mention or cite your brand vs. competitors
+          </CardDescription>
+        </div>
+        {platforms.length > 1 && (
+          <Select value={platform} onValueChange={setPlatform}>
+            <SelectTrigger className="w-[160px]" aria-label="Platform">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_PLATFORMS_VALUE}>All platforms</SelectItem>
+              {platforms.map((p) => (
+                <SelectItem key={p} value={p}>
+                  {PLATFORM_DISPLAY_NAMES[p]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent>
+        {points.length < 2 ? (
+          <p className="text-muted-foreground flex h-[200px] items-center justify-center text-sm">
+            Share of voice trends appear after two or more syncs
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-[240px] w-full">
+            <LineChart data={formattedData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="formattedDate"
+                tickLine={false}
+                axisLine={false}
+                tick={{ fontSize: 10 }}
+                tickMargin={8}
+                minTickGap={32}
+              />
+              <YAxis
+                domain={[0, 100]}
+                tickLine={false}
+                axisLine={false}
+                tick={{ fontSize: 10 }}
+                tickFormatter={(value) => `${value}%`}
+                width={40}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(value) => value}
+                    formatter={(value, name) => (
+                      <div className="flex w-full items-center justify-between gap-4">
+                        <span className="text-muted-foreground">
+                          {chartConfig[String(name)]?.label ?? name}
+                        </span>
+                        <span className="font-mono font-medium">{Number(value)}%</span>
+                      </div>
+                    )}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              {series.map((s) => (
+                <Line
+                  key={s.key}
+                  type="monotone"
+                  dataKey={s.key}
+                  stroke={`var(--color-${s.key})`}
+                  strokeWidth={s.isBrand ? 3 : 2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
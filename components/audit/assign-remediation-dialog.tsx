@@ -0,0 +1,141 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useBuildOrgHref } from '@/hooks/use-org-context'
+import { assignRemediationItems } from '@/app/(authenticated)/[orgId]/seo/audit/[id]/actions'
+import type { RemediationAssignee } from '@/lib/remediation/types'
+
+export interface RemediationTarget {
+  checkName: string
+  displayName: string
+  /** Failing pages; empty for site-wide checks */
+  pageUrls: string[]
+}
+
+interface AssignRemediationDialogProps {
+  auditId: string
+  assignees: RemediationAssignee[]
+  /** Check being assigned; the dialog is open while set */
+  target: RemediationTarget | null
+  onClose: () => void
+}
+
+const UNASSIGNED = 'unassigned'
+
+export function AssignRemediationDialog({
+  auditId,
+  assignees,
+  target,
+  onClose,
+}: AssignRemediationDialogProps) {
+  const buildOrgHref = useBuildOrgHref()
+  const [isPending, startTransition] = useTransition()
+  const [assignedTo, setAssignedTo] = useState<string>(UNASSIGNED)
+  const [dueDate, setDueDate] = useState('')
+
+  const pageCount = target?.pageUrls.length ?? 0
+
+  const handleSubmit = () => {
+    if (!target) return
+    startTransition(async () => {
+      const result = await assignRemediationItems(auditId, target.checkName, target.pageUrls, {
+        assignedTo: assignedTo === UNASSIGNED ? null : assignedTo,
+        dueDate: dueDate || null,
+      })
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
+      toast.success(
+        `Added ${result.count} item${result.count === 1 ? '' : 's'} to the remediation board`
+      )
+      onClose()
+    })
+  }
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Assign Fix</DialogTitle>
+          <DialogDescription>
+            {target?.displayName} ·{' '}
+            {pageCount > 0 ? `${pageCount} failing page${pageCount === 1 ? '' : 's'}` : 'Site-wide'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Assignee</Label>
+            <Select value={assignedTo} onValueChange={setAssignedTo}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {assignees.map((a) => (
+                  <SelectItem key={a.id} value={a.id}>
+                    {a.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="remediation-due-date">Due date (optional)</Label>
+            <Input
+              id="remediation-due-date"
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+          <p className="text-muted-foreground text-xs">
+            Track progress on the{' '}
+            <Link href={buildOrgHref('/seo/remediation')} className="underline">
+              remediation board
+            </Link>
+            . Items marked fixed are verified by the next audit.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Assigning...
+              </>
+            ) : (
+              'Assign'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
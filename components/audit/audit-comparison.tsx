@@ -0,0 +1,231 @@
+'use client'
+
+import Link from 'next/link'
+import {
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle2,
+  FileMinus,
+  FilePlus,
+  GitCompare,
+  XCircle,
+} from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { EmptyState } from '@/components/ui/empty-state'
+import { ExpandableUrlList } from '@/components/ui/expandable-url-list'
+import { useBuildOrgHref } from '@/hooks/use-org-context'
+import { ScoreDimension } from '@/lib/enums'
+import { cn, formatDate } from '@/lib/utils'
+import type { AuditDiff, CheckChange, ScoreDelta, ScoreKey } from '@/lib/unified-audit/diff'
+import type { UnifiedAudit } from '@/lib/unified-audit/types'
+
+const SCORE_LABELS: Record<ScoreKey, string> = {
+  overall: 'Overall',
+  [ScoreDimension.SEO]: 'SEO',
+  [ScoreDimension.Performance]: 'Performance',
+  [ScoreDimension.AIReadiness]: 'AI Readiness',
+}
+
+type AuditComparisonProps =
+  | { base: UnifiedAudit; compare: UnifiedAudit; diff: AuditDiff; error?: never }
+  | { error: string; base?: never; compare?: never; diff?: never }
+
+interface GroupedChange {
+  checkName: string
+  displayName: string
+  priority: CheckChange['priority']
+  urls: string[]
+  siteWide: boolean
+}
+
+/**
+ * Collapse per-page changes into one row per check so large sites stay readable.
+ */
+function groupChanges(changes: CheckChange[]): GroupedChange[] {
+  const groups = new Map<string, GroupedChange>()
+  for (const change of changes) {
+    const group = groups.get(change.check_name) ?? {
+      checkName: change.check_name,
+      displayName: change.display_name,
+      priority: change.priority,
+      urls: [],
+      siteWide: false,
+    }
+    if (change.page_url) group.urls.push(change.page_url)
+    else group.siteWide = true
+    groups.set(change.check_name, group)
+  }
+  return [...groups.values()].sort((a, b) => b.urls.length - a.urls.length)
+}
+
+function ScoreDeltaCard({ delta }: { delta: ScoreDelta }) {
+  return (
+    <div className="flex flex-1 flex-col items-center rounded-lg border bg-gray-100 py-4">
+      <span className="text-muted-foreground text-sm font-medium">
+        {SCORE_LABELS[delta.dimension]}
+      </span>
+      <div className="mt-2 flex items-center gap-2 text-lg font-semibold tabular-nums">
+        <span>{delta.previous ?? '-'}</span>
+        <ArrowRight className="text-muted-foreground size-4" />
+        <span>{delta.current ?? '-'}</span>
+      </div>
+      <span
+        className={cn(
+          'mt-1 text-sm font-medium tabular-nums',
+          delta.delta === null || delta.delta === 0
+            ? 'text-muted-foreground'
+            : delta.delta > 0
+              ? 'text-green-700'
+              : 'text-red-600'
+        )}
+        data-testid={`score-delta-${delta.dimension}`}
+      >
+        {delta.delta === null ? 'n/a' : delta.delta > 0 ? `+${delta.delta}` : delta.delta}
+      </span>
+    </div>
+  )
+}
+
+function CheckChangeList({ changes, emptyTitle }: { changes: CheckChange[]; emptyTitle: string }) {
+  const groups = groupChanges(changes)
+
+  if (groups.length === 0) {
+    return <p className="text-muted-foreground text-sm">{emptyTitle}</p>
+  }
+
+  return (
+    <div className="divide-y">
+      {groups.map((group) => (
+        <div key={group.checkName} className="py-3 first:pt-0 last:pb-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">{group.displayName}</span>
+            <Badge variant="outline" className="text-xs capitalize">
+              {group.priority}
+            </Badge>
+            <span className="text-muted-foreground text-xs">
+              {group.siteWide
+                ? 'Site-wide'
+                : `${group.urls.length} page${group.urls.length !== 1 ? 's' : ''}`}
+            </span>
+          </div>
+          <ExpandableUrlList groups={[{ urls: group.urls }]} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function AuditComparison({ base, compare, diff, error }: AuditComparisonProps) {
+  const buildOrgHref = useBuildOrgHref()
+
+  const backLink = (
+    <Link
+      href={buildOrgHref('/seo/audit')}
+      className="text-muted-foreground hover:text-foreground flex items-center gap-2 text-sm transition-colors"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      Back to Audits
+    </Link>
+  )
+
+  if (error !== undefined) {
+    return (
+      <div className="mx-auto max-w-5xl space-y-6">
+        {backLink}
+        <EmptyState icon={GitCompare} title="Unable to compare audits" description={error} />
+      </div>
+    )
+  }
+
+  const displayUrl = compare.url.replace(/^https?:\/\//, '').replace(/\/$/, '')
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6" data-testid="audit-comparison">
+      {backLink}
+
+      <div>
+        <h1 className="text-2xl font-bold">Audit Comparison: {displayUrl}</h1>
+        <p className="text-muted-foreground text-sm">
+          <Link href={buildOrgHref(`/seo/audit/${base.id}`)} className="hover:underline">
+            {base.completed_at ? formatDate(base.completed_at, false) : 'Incomplete audit'}
+          </Link>{' '}
+          &rarr;{' '}
+          <Link href={buildOrgHref(`/seo/audit/${compare.id}`)} className="hover:underline">
+            {compare.completed_at ? formatDate(compare.completed_at, false) : 'Incomplete audit'}
+          </Link>
+        </p>
+      </div>
+
+      <div className="flex gap-4">
+        {diff.scoreDeltas.map((delta) => (
+          <ScoreDeltaCard key={delta.dimension} delta={delta} />
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <XCircle className="size-5 text-red-600" />
+            Newly Failing ({diff.newlyFailing.length})
+          </CardTitle>
+          <CardDescription>
+            Checks that fail now but did not fail in the earlier audit
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CheckChangeList changes={diff.newlyFailing} emptyTitle="No new failures." />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CheckCircle2 className="size-5 text-green-600" />
+            Fixed ({diff.fixed.length})
+          </CardTitle>
+          <CardDescription>Checks that failed or warned before and now pass</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CheckChangeList changes={diff.fixed} emptyTitle="No fixed checks." />
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FilePlus className="size-5" />
+              Pages Added ({diff.pagesAdded.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {diff.pagesAdded.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No new pages.</p>
+            ) : (
+              <ExpandableUrlList groups={[{ urls: diff.pagesAdded }]} label="View added pages" />
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileMinus className="size-5" />
+              Pages Removed ({diff.pagesRemoved.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {diff.pagesRemoved.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No removed pages.</p>
+            ) : (
+              <ExpandableUrlList
+                groups={[{ urls: diff.pagesRemoved }]}
+                label="View removed pages"
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
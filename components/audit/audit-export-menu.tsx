@@ -0,0 +1,118 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { FileSpreadsheet, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { AuditExportDataset, AuditExportFormat } from '@/lib/enums'
+
+type AuditExportMenuProps =
+  | { auditId: string; token?: never; grant?: never }
+  | {
+      /** Share token; exports go through the public share endpoint */
+      token: string
+      /** Download grant returned by accessSharedLink when the page was opened */
+      grant: string
+      auditId?: never
+    }
+
+const DATASETS: { value: AuditExportDataset; label: string }[] = [
+  { value: AuditExportDataset.Checks, label: 'Checks' },
+  { value: AuditExportDataset.Pages, label: 'Pages' },
+]
+
+const FORMATS: { value: AuditExportFormat; label: string }[] = [
+  { value: AuditExportFormat.XLSX, label: 'Excel (.xlsx)' },
+  { value: AuditExportFormat.CSV, label: 'CSV' },
+]
+
+function filenameFromDisposition(header: string | null, fallback: string): string {
+  return header?.match(/filename="([^"]+)"/)?.[1] ?? fallback
+}
+
+/**
+ * Downloads an audit's checks or crawled pages as a spreadsheet, either for an
+ * organization member or from a share link that allows data export.
+ */
+export function AuditExportMenu({ auditId, token, grant }: AuditExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false)
+
+  const handleExport = async (dataset: AuditExportDataset, format: AuditExportFormat) => {
+    setIsExporting(true)
+    try {
+      const response = token
+        ? await fetch(`/api/share/${token}/export`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ grant, dataset, format }),
+          })
+        : await fetch(
+            `/api/unified-audit/${auditId}/export?${new URLSearchParams({ dataset, format })}`
+          )
+
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as { error?: string } | null
+        toast.error(body?.error ?? 'Failed to export audit')
+        return
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filenameFromDisposition(
+        response.headers.get('Content-Disposition'),
+        `audit-${dataset}.${format}`
+      )
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch {
+      toast.error('Failed to export audit')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isExporting}
+          data-testid="audit-export-button"
+        >
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+          ) : (
+            <FileSpreadsheet className="mr-2 h-4 w-4" aria-hidden="true" />
+          )}
+          {isExporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {DATASETS.map((dataset, i) => (
+          <Fragment key={dataset.value}>
+            {i > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{dataset.label}</DropdownMenuLabel>
+            {FORMATS.map((format) => (
+              <DropdownMenuItem
+                key={format.value}
+                onSelect={() => handleExport(dataset.value, format.value)}
+              >
+                {format.label}
+              </DropdownMenuItem>
+            ))}
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
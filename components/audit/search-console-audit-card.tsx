@@ -0,0 +1,58 @@
+'use client'
+
+import { SearchConsoleIcon } from '@/components/icons/platform-icons'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { SearchConsoleAuditPage } from '@/lib/platforms/search-console/audit-context'
+
+interface SearchConsoleAuditCardProps {
+  pages: SearchConsoleAuditPage[]
+}
+
+export function SearchConsoleAuditCard({ pages }: SearchConsoleAuditCardProps) {
+  if (pages.length === 0) return null
+
+  return (
+    <Card data-testid="search-console-audit-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <SearchConsoleIcon className="size-4 text-[#458CF5]" />
+          High-impression pages with critical issues
+        </CardTitle>
+        <CardDescription>
+          Pages that appear most often in Google Search (last 28 days) and fail critical checks.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {pages.map((page) => (
+            <li key={page.url} className="space-y-1.5 py-3 first:pt-0 last:pb-0">
+              <div className="flex items-center justify-between gap-4">
+                <a
+                  href={page.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="truncate text-sm font-medium hover:underline"
+                  title={page.url}
+                >
+                  {page.url.replace(/^https?:\/\//, '')}
+                </a>
+                <span className="text-muted-foreground shrink-0 text-xs tabular-nums">
+                  {page.impressions.toLocaleString()} impr. · {page.clicks.toLocaleString()} clicks
+                  · pos. {page.position}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {page.failedChecks.map((check) => (
+                  <Badge key={check.check_name} variant="destructive" className="text-xs">
+                    {check.display_name}
+                  </Badge>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
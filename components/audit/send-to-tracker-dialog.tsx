@@ -0,0 +1,193 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { ExternalLink, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CheckPriority, TicketGrouping } from '@/lib/enums'
+import { TRACKER_LABELS } from '@/lib/issue-trackers/mapping'
+import { pushChecksToTracker } from '@/app/(authenticated)/[orgId]/seo/audit/[id]/actions'
+import type { IssueTrackerContext } from '@/app/(authenticated)/[orgId]/seo/audit/[id]/actions'
+
+interface SendToTrackerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  auditId: string
+  context: IssueTrackerContext
+}
+
+const PRIORITY_LABELS: Record<CheckPriority, string> = {
+  [CheckPriority.Critical]: 'Critical',
+  [CheckPriority.Recommended]: 'Recommended',
+  [CheckPriority.Optional]: 'Optional',
+}
+
+const GROUPING_LABELS: Record<TicketGrouping, string> = {
+  [TicketGrouping.CheckType]: 'One issue per check',
+  [TicketGrouping.Page]: 'One issue per page',
+}
+
+function defaultSelection(context: IssueTrackerContext): Set<string> {
+  return new Set(context.checks.filter((c) => !c.open_ticket).map((c) => c.check_name))
+}
+
+export function SendToTrackerDialog({
+  open,
+  onOpenChange,
+  auditId,
+  context,
+}: SendToTrackerDialogProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [grouping, setGrouping] = useState<TicketGrouping>(TicketGrouping.CheckType)
+  const [selected, setSelected] = useState<Set<string>>(() => defaultSelection(context))
+
+  const trackerLabel = TRACKER_LABELS[context.tracker]
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setSelected(defaultSelection(context))
+    onOpenChange(next)
+  }
+
+  const toggleCheck = (checkName: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(checkName)
+      else next.delete(checkName)
+      return next
+    })
+  }
+
+  const handleSubmit = () => {
+    startTransition(async () => {
+      const response = await pushChecksToTracker(auditId, grouping, [...selected])
+      if (!response.success) {
+        toast.error(response.error)
+        return
+      }
+
+      const { created, skipped, failed } = response.result
+      const parts = [`Created ${created.length} issue${created.length === 1 ? '' : 's'}`]
+      if (skipped > 0) parts.push(`${skipped} already open`)
+      if (failed.length > 0) parts.push(`${failed.length} failed`)
+
+      if (failed.length > 0 && created.length === 0) {
+        toast.error(`${parts.join(', ')}: ${failed[0].error}`)
+      } else {
+        toast.success(`${parts.join(', ')} in ${trackerLabel}`)
+        onOpenChange(false)
+      }
+      router.refresh()
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Send to {trackerLabel}</DialogTitle>
+          <DialogDescription>
+            Create issues for failed checks. Checks with an open issue are skipped, and issues are
+            updated once a later audit finds their checks passing.
+          </DialogDescription>
+        </DialogHeader>
+
+        {context.checks.length === 0 ? (
+          <p className="text-muted-foreground text-sm">This audit has no failed checks.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Grouping</Label>
+              <Select value={grouping} onValueChange={(v) => setGrouping(v as TicketGrouping)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GROUPING_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="max-h-80 divide-y overflow-y-auto rounded-md border">
+              {context.checks.map((check) => (
+                <div key={check.check_name} className="flex items-center gap-3 px-3 py-2">
+                  <Checkbox
+                    id={`tracker-check-${check.check_name}`}
+                    checked={selected.has(check.check_name)}
+                    onCheckedChange={(v) => toggleCheck(check.check_name, v === true)}
+                    disabled={isPending}
+                  />
+                  <Label
+                    htmlFor={`tracker-check-${check.check_name}`}
+                    className="min-w-0 flex-1 cursor-pointer font-normal"
+                  >
+                    <span className="block truncate text-sm">{check.display_name}</span>
+                    <span className="text-muted-foreground block text-xs">
+                      {PRIORITY_LABELS[check.priority]}
+                      {check.page_count > 0 &&
+                        ` · ${check.page_count} page${check.page_count === 1 ? '' : 's'}`}
+                    </span>
+                  </Label>
+                  {check.open_ticket &&
+                    (check.open_ticket.url ? (
+                      <a
+                        href={check.open_ticket.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-muted-foreground hover:text-foreground flex shrink-0 items-center gap-1 text-xs"
+                      >
+                        {check.open_ticket.key}
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    ) : (
+                      <span className="text-muted-foreground shrink-0 text-xs">
+                        {check.open_ticket.key}
+                      </span>
+                    ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isPending || selected.size === 0}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              `Create issues (${selected.size})`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
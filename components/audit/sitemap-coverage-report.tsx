@@ -0,0 +1,154 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+import type { AuditCheck } from '@/lib/unified-audit/types'
+
+interface CoverageGroup {
+  key: string
+  label: string
+  description: string
+  count: number
+  items: { url: string; note?: string }[]
+}
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+}
+
+function asNumber(value: unknown): number {
+  return typeof value === 'number' ? value : 0
+}
+
+function getCoverageGroups(details: Record<string, unknown>): CoverageGroup[] {
+  const nonOk = Array.isArray(details.nonOkUrls)
+    ? (details.nonOkUrls as { url: string; statusCode: number }[])
+    : []
+  // Audits from before crawlComplete was recorded only have orphans
+  const crawlIncomplete = details.crawlComplete === false
+
+  return [
+    {
+      key: 'non-ok',
+      label: 'Non-200 sitemap URLs',
+      description: 'Listed in the sitemap but redirect or return an error',
+      count: asNumber(details.nonOkCount),
+      items: nonOk.map((u) => ({ url: u.url, note: `HTTP ${u.statusCode}` })),
+    },
+    {
+      key: 'noindex',
+      label: 'Noindexed sitemap URLs',
+      description: 'Listed in the sitemap but tell search engines not to index them',
+      count: asNumber(details.noindexCount),
+      items: asStrings(details.noindexUrls).map((url) => ({ url })),
+    },
+    crawlIncomplete
+      ? {
+          key: 'unlinked',
+          label: 'Not linked from crawled pages',
+          description:
+            'Listed in the sitemap but not linked from the pages this crawl reached before it stopped',
+          count: asNumber(details.unlinkedCount),
+          items: asStrings(details.unlinkedUrls).map((url) => ({ url })),
+        }
+      : {
+          key: 'orphans',
+          label: 'Orphan URLs',
+          description: 'Listed in the sitemap but not linked from any crawled page',
+          count: asNumber(details.orphanCount),
+          items: asStrings(details.orphanUrls).map((url) => ({ url })),
+        },
+    {
+      key: 'missing',
+      label: 'Missing from sitemap',
+      description: 'Indexable, canonical pages found by the crawl but not in the sitemap',
+      count: asNumber(details.missingFromSitemapCount),
+      items: asStrings(details.missingFromSitemap).map((url) => ({ url })),
+    },
+  ]
+}
+
+interface SitemapCoverageReportProps {
+  /** The site-wide sitemap_coverage check result */
+  check: AuditCheck
+}
+
+export function SitemapCoverageReport({ check }: SitemapCoverageReportProps) {
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const details = check.details ?? {}
+  const sitemapUrlCount = asNumber(details.sitemapUrlCount)
+
+  if (sitemapUrlCount === 0) return null
+
+  const groups = getCoverageGroups(details)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sitemap Coverage</CardTitle>
+        <CardDescription>
+          {sitemapUrlCount} URL{sitemapUrlCount !== 1 ? 's' : ''} in the sitemap compared against
+          the crawl
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="divide-y rounded-md border p-0">
+        {groups.map((group) => {
+          const isOpen = expanded === group.key
+          const hiddenCount = group.count - group.items.length
+          return (
+            <div key={group.key}>
+              <button
+                className="flex w-full items-center gap-3 px-4 py-3 text-left hover:bg-gray-50/80"
+                onClick={() => setExpanded(isOpen ? null : group.key)}
+                disabled={group.count === 0}
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm font-medium">{group.label}</div>
+                  <div className="text-muted-foreground text-xs">{group.description}</div>
+                </div>
+                <span
+                  className={cn(
+                    'text-sm font-semibold tabular-nums',
+                    group.count === 0 ? 'text-muted-foreground' : 'text-foreground'
+                  )}
+                >
+                  {group.count}
+                </span>
+                {group.count > 0 && (
+                  <ChevronDown
+                    className={cn(
+                      'text-muted-foreground size-4 shrink-0 transition-transform',
+                      isOpen && 'rotate-180'
+                    )}
+                  />
+                )}
+              </button>
+              {isOpen && (
+                <ul className="bg-muted/30 space-y-1 px-4 py-3">
+                  {group.items.map((item) => (
+                    <li key={item.url} className="flex items-center gap-2 text-xs">
+                      <a
+                        href={item.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="truncate font-mono hover:underline"
+                      >
+                        {item.url}
+                      </a>
+                      {item.note && <span className="text-muted-foreground">{item.note}</span>}
+                    </li>
+                  ))}
+                  {hiddenCount > 0 && (
+                    <li className="text-muted-foreground text-xs">and {hiddenCount} more</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
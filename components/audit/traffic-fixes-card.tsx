@@ -0,0 +1,72 @@
+'use client'
+
+import { TrendingUp } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { CheckPriority } from '@/lib/enums'
+import type { TrafficImpactedFix } from '@/lib/unified-audit/importance'
+
+interface TrafficFixesCardProps {
+  fixes: TrafficImpactedFix[]
+}
+
+const PRIORITY_LABELS: Record<string, string> = {
+  [CheckPriority.Critical]: 'Critical',
+  [CheckPriority.Recommended]: 'Recommended',
+  [CheckPriority.Optional]: 'Optional',
+}
+
+export function TrafficFixesCard({ fixes }: TrafficFixesCardProps) {
+  if (fixes.length === 0) return null
+
+  return (
+    <Card data-testid="traffic-fixes-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <TrendingUp className="size-4" />
+          Fix these first
+        </CardTitle>
+        <CardDescription>
+          Failed checks ranked by Google Analytics sessions on the affected pages (last 28 days).
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ol className="divide-y">
+          {fixes.map((fix, index) => (
+            <li key={fix.checkName} className="flex gap-3 py-3 first:pt-0 last:pb-0">
+              <span className="text-muted-foreground w-5 shrink-0 text-sm font-semibold tabular-nums">
+                {index + 1}
+              </span>
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="text-sm font-medium">{fix.title}</span>
+                  <span className="text-muted-foreground shrink-0 text-xs tabular-nums">
+                    {fix.sessions.toLocaleString()} sessions · {fix.affectedPages} page
+                    {fix.affectedPages !== 1 ? 's' : ''}
+                  </span>
+                </div>
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <Badge
+                    variant={fix.priority === CheckPriority.Critical ? 'destructive' : 'secondary'}
+                    className="text-xs"
+                  >
+                    {PRIORITY_LABELS[fix.priority] ?? fix.priority}
+                  </Badge>
+                  {fix.topPages.map((page) => (
+                    <span
+                      key={page.url}
+                      className="text-muted-foreground max-w-xs truncate text-xs"
+                      title={page.url}
+                    >
+                      {page.url.replace(/^https?:\/\//, '')}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+}
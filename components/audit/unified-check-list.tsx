@@ -13,6 +13,7 @@ import {
   Flag,
   Loader2,
   RotateCw,
+  UserPlus,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip'
@@ -34,6 +35,8 @@ const categoryLabels: Record<string, string> = {
   [CheckCategory.Security]: 'Security',
   [CheckCategory.Performance]: 'Performance',
   [CheckCategory.AIVisibility]: 'AI Visibility',
+  [CheckCategory.International]: 'International',
+  [CheckCategory.Custom]: 'Custom',
 }
 
 // =============================================================================
@@ -227,9 +230,17 @@ interface GroupedCheckItemProps {
     checkName: string,
     pageUrls: string[]
   ) => Promise<{ passed: number; failed: number; warnings: number }>
+  /** Assign the failing pages (none for site-wide checks) to a team member */
+  onAssign?: (checkName: string, pageUrls: string[]) => void
 }
 
-function GroupedCheckItem({ group, totalPages, onDismiss, onRerun }: GroupedCheckItemProps) {
+function GroupedCheckItem({
+  group,
+  totalPages,
+  onDismiss,
+  onRerun,
+  onAssign,
+}: GroupedCheckItemProps) {
   const [expanded, setExpanded] = useState(false)
   const [isDismissing, setIsDismissing] = useState(false)
   const [isRerunning, setIsRerunning] = useState(false)
@@ -270,6 +281,14 @@ function GroupedCheckItem({ group, totalPages, onDismiss, onRerun }: GroupedChec
     }
   }
 
+  const handleAssign = () => {
+    if (!onAssign) return
+    const urls = instances
+      .filter((i) => i.page_url && i.status === CheckStatus.Failed)
+      .map((i) => i.page_url!)
+    onAssign(check.check_name, urls)
+  }
+
   // For page-specific grouped checks, collect affected pages with their detail snippets
   // For site-wide checks, extract URLs from details (e.g. duplicates)
   const pageEntries = useMemo(() => {
@@ -482,9 +501,10 @@ function GroupedCheckItem({ group, totalPages, onDismiss, onRerun }: GroupedChec
             </div>
           )}
 
-          {/* Footer with fix guidance + dismiss + re-run */}
+          {/* Footer with fix guidance + dismiss + assign + re-run */}
           {((check.fix_guidance && check.fix_guidance !== detailMessage) ||
             (onDismiss && worstStatus !== CheckStatus.Passed) ||
+            (onAssign && worstStatus === CheckStatus.Failed) ||
             (onRerun && affectedPageCount > 0 && worstStatus !== CheckStatus.Passed)) && (
             <div className="border-border/50 flex gap-3 border-t px-6 py-4">
               <span className="shrink-0 text-lg leading-none opacity-0" aria-hidden="true">
@@ -517,6 +537,21 @@ function GroupedCheckItem({ group, totalPages, onDismiss, onRerun }: GroupedChec
                       Dismiss
                     </Button>
                   )}
+                  {onAssign && worstStatus === CheckStatus.Failed && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-muted-foreground h-6 shrink-0 text-xs"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleAssign()
+                      }}
+                      disabled={isDismissing || isRerunning}
+                    >
+                      <UserPlus className="mr-1 size-3" />
+                      Assign
+                    </Button>
+                  )}
                 </div>
                 {onRerun && affectedPageCount > 0 && worstStatus !== CheckStatus.Passed && (
                   <Tooltip>
@@ -572,6 +607,7 @@ interface UnifiedCheckListProps {
     checkName: string,
     pageUrls: string[]
   ) => Promise<{ passed: number; failed: number; warnings: number }>
+  onAssignCheck?: (checkName: string, pageUrls: string[]) => void
 }
 
 export function UnifiedCheckList({
@@ -580,6 +616,7 @@ export function UnifiedCheckList({
   totalPages,
   onDismissCheck,
   onRerunCheck,
+  onAssignCheck,
 }: UnifiedCheckListProps) {
   if (checks.length === 0) {
     return <EmptyState icon={CheckCircle} title="No checks to display" />
@@ -596,6 +633,7 @@ export function UnifiedCheckList({
         totalPages={totalPages}
         onDismissCheck={onDismissCheck}
         onRerunCheck={onRerunCheck}
+        onAssignCheck={onAssignCheck}
       />
     )
   }
@@ -606,6 +644,7 @@ export function UnifiedCheckList({
       totalPages={totalPages}
       onDismissCheck={onDismissCheck}
       onRerunCheck={onRerunCheck}
+      onAssignCheck={onAssignCheck}
     />
   )
 }
@@ -621,6 +660,7 @@ function CategoryGroupedCheckList({
   totalPages,
   onDismissCheck,
   onRerunCheck,
+  onAssignCheck,
 }: {
   checks: AuditCheck[]
   totalPages?: number
@@ -629,6 +669,7 @@ function CategoryGroupedCheckList({
     checkName: string,
     pageUrls: string[]
   ) => Promise<{ passed: number; failed: number; warnings: number }>
+  onAssignCheck?: (checkName: string, pageUrls: string[]) => void
 }) {
   // Track which categories have been expanded to show all checks
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set())
@@ -722,6 +763,7 @@ function CategoryGroupedCheckList({
                       totalPages={totalPages}
                       onDismiss={onDismissCheck}
                       onRerun={onRerunCheck}
+                      onAssign={onAssignCheck}
                     />
                   ))}
                   {hiddenCheckCount > 0 && (
@@ -764,6 +806,7 @@ function PriorityGroupedCheckList({
   totalPages,
   onDismissCheck,
   onRerunCheck,
+  onAssignCheck,
 }: {
   checks: AuditCheck[]
   totalPages?: number
@@ -772,6 +815,7 @@ function PriorityGroupedCheckList({
     checkName: string,
     pageUrls: string[]
   ) => Promise<{ passed: number; failed: number; warnings: number }>
+  onAssignCheck?: (checkName: string, pageUrls: string[]) => void
 }) {
   const [expandedTiers, setExpandedTiers] = useState<Set<string>>(new Set())
 
@@ -869,6 +913,7 @@ function PriorityGroupedCheckList({
                       totalPages={totalPages}
                       onDismiss={onDismissCheck}
                       onRerun={onRerunCheck}
+                      onAssign={onAssignCheck}
                     />
                   ))}
                   {hiddenCheckCount > 0 && (
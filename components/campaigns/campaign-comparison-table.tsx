@@ -0,0 +1,83 @@
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatDate } from '@/lib/utils'
+import type { CampaignPerformance } from '@/lib/platforms/google-analytics/campaign-performance'
+
+export interface CampaignComparisonRow {
+  id: string
+  name: string
+  performance: CampaignPerformance
+}
+
+export function formatConversionRate(conversions: number, sessions: number): string {
+  if (sessions === 0) return '—'
+  return `${((conversions / sessions) * 100).toFixed(1)}%`
+}
+
+export function CampaignComparisonTable({ rows }: { rows: CampaignComparisonRow[] }) {
+  if (rows.length === 0) {
+    return null
+  }
+
+  const sorted = [...rows].sort((a, b) => b.performance.sessions - a.performance.sessions)
+
+  return (
+    <Card data-testid="campaign-comparison-table">
+      <CardHeader>
+        <CardTitle>Campaign Comparison</CardTitle>
+        <CardDescription>
+          Google Analytics traffic attributed to each campaign through its UTM parameters
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Campaign</TableHead>
+              <TableHead>Dates</TableHead>
+              <TableHead className="text-right">Sessions</TableHead>
+              <TableHead className="text-right">Users</TableHead>
+              <TableHead className="text-right">Conversions</TableHead>
+              <TableHead className="text-right">Conversion Rate</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map(({ id, name, performance }) => (
+              <TableRow key={id}>
+                <TableCell className="font-medium">
+                  <Link href={`/dashboard/campaigns/${id}`} className="hover:underline">
+                    {name}
+                  </Link>
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {formatDate(performance.start_date, false)} –{' '}
+                  {formatDate(performance.end_date, false)}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {performance.sessions.toLocaleString()}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {performance.users.toLocaleString()}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {performance.conversions.toLocaleString()}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {formatConversionRate(performance.conversions, performance.sessions)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { useState } from 'react'
+import { RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { showSuccess, showError } from '@/components/ui/sonner'
+import { formatDate } from '@/lib/utils'
+import { formatConversionRate } from '@/components/campaigns/campaign-comparison-table'
+import { refreshCampaignPerformance } from '@/app/(authenticated)/[orgId]/dashboard/campaigns/actions'
+import type { CampaignPerformance } from '@/lib/platforms/google-analytics/campaign-performance'
+
+interface CampaignPerformancePanelProps {
+  campaignId: string
+  performance: CampaignPerformance | null
+  canRefresh: boolean
+}
+
+export function CampaignPerformancePanel({
+  campaignId,
+  performance,
+  canRefresh,
+}: CampaignPerformancePanelProps) {
+  const [isLoading, setIsLoading] = useState(false)
+
+  async function handleRefresh() {
+    setIsLoading(true)
+    const result = await refreshCampaignPerformance(campaignId)
+
+    if ('error' in result) {
+      showError(result.error)
+    } else {
+      showSuccess('Campaign performance updated')
+    }
+    setIsLoading(false)
+  }
+
+  const stats = performance
+    ? [
+        { label: 'Sessions', value: performance.sessions.toLocaleString() },
+        { label: 'Users', value: performance.users.toLocaleString() },
+        { label: 'Conversions', value: performance.conversions.toLocaleString() },
+        {
+          label: 'Conversion Rate',
+          value: formatConversionRate(performance.conversions, performance.sessions),
+        },
+      ]
+    : []
+
+  return (
+    <Card data-testid="campaign-performance-panel">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Performance Metrics</CardTitle>
+          <CardDescription>
+            {performance
+              ? `Google Analytics traffic tagged with this campaign's UTM parameters, ${formatDate(performance.start_date, false)} – ${formatDate(performance.end_date, false)}`
+              : "Google Analytics traffic tagged with this campaign's UTM parameters"}
+          </CardDescription>
+        </div>
+        {canRefresh && (
+          <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isLoading}>
+            <RefreshCw className={isLoading ? 'animate-spin' : undefined} />
+            {isLoading ? 'Refreshing...' : 'Refresh'}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {performance ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {stats.map((stat) => (
+                <div key={stat.label}>
+                  <p className="text-muted-foreground text-sm font-medium">{stat.label}</p>
+                  <p className="text-2xl font-semibold tabular-nums">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Last updated {formatDate(performance.synced_at)}
+            </p>
+          </div>
+        ) : (
+          <p className="text-muted-foreground">
+            Metrics will appear here once Google Analytics is connected and the campaign has
+            started.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -15,6 +15,8 @@ import {
 import { updateUtmParameters } from '@/app/(authenticated)/[orgId]/dashboard/campaigns/actions'
 import { showSuccess, showError } from '@/components/ui/sonner'
 import { useRouter } from 'next/navigation'
+import { TrackedLinksTable } from '@/components/campaigns/tracked-links-table'
+import type { TrackedLink } from '@/lib/campaigns/tracked-links'
 
 const MEDIUM_OPTIONS = [
   { value: 'email', description: 'Email campaigns, newsletters' },
@@ -68,10 +70,17 @@ interface UtmValues {
 
 interface EditableUtmSectionProps {
   campaignId: string
+  campaignName: string
   initialValues: UtmValues
+  links: TrackedLink[]
 }
 
-export function EditableUtmSection({ campaignId, initialValues }: EditableUtmSectionProps) {
+export function EditableUtmSection({
+  campaignId,
+  campaignName,
+  initialValues,
+  links,
+}: EditableUtmSectionProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [values, setValues] = useState<UtmValues>(initialValues)
@@ -233,7 +242,17 @@ export function EditableUtmSection({ campaignId, initialValues }: EditableUtmSec
 
       <p className="text-muted-foreground mt-4 text-sm">
         Use these parameters when creating content in HubSpot, LinkedIn, and other platforms.
+        Tracked links inherit them as defaults.
       </p>
+
+      <div className="mt-8 border-t pt-6">
+        <TrackedLinksTable
+          campaignId={campaignId}
+          campaignName={campaignName}
+          links={links}
+          defaults={initialValues}
+        />
+      </div>
     </div>
   )
 }
@@ -0,0 +1,144 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { showSuccess, showError } from '@/components/ui/sonner'
+import {
+  createTrackedLink,
+  updateTrackedLink,
+} from '@/app/(authenticated)/[orgId]/dashboard/campaigns/actions'
+import {
+  validateTrackedLink,
+  type TrackedLink,
+  type TrackedLinkInput,
+} from '@/lib/campaigns/tracked-links'
+
+interface TrackedLinkDialogProps {
+  campaignId: string
+  /** Link being edited; omit to create a new one. Form state is set on mount. */
+  link?: TrackedLink
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const EMPTY_LINK: TrackedLinkInput = {
+  name: '',
+  destination_url: '',
+  utm_source: '',
+  utm_content: '',
+}
+
+export function TrackedLinkDialog({
+  campaignId,
+  link,
+  open,
+  onOpenChange,
+}: TrackedLinkDialogProps) {
+  const initialValues: TrackedLinkInput = link
+    ? {
+        name: link.name,
+        destination_url: link.destination_url,
+        utm_source: link.utm_source ?? '',
+        utm_content: link.utm_content ?? '',
+      }
+    : EMPTY_LINK
+  const [values, setValues] = useState<TrackedLinkInput>(initialValues)
+  const [isSaving, setIsSaving] = useState(false)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    const validationError = validateTrackedLink(values)
+    if (validationError) {
+      showError(validationError)
+      return
+    }
+
+    setIsSaving(true)
+    const result = link
+      ? await updateTrackedLink(link.id, values)
+      : await createTrackedLink(campaignId, values)
+    setIsSaving(false)
+
+    if ('error' in result) {
+      showError(result.error)
+    } else {
+      showSuccess(link ? 'Link updated' : 'Link added')
+      onOpenChange(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{link ? 'Edit Link' : 'Add Link'}</DialogTitle>
+          <DialogDescription>
+            Links use the campaign&apos;s UTM parameters. Set a source or content value to override
+            them for this link.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="link-name">Name</Label>
+            <Input
+              id="link-name"
+              placeholder="e.g., LinkedIn launch post…"
+              disabled={isSaving}
+              value={values.name}
+              onChange={(e) => setValues({ ...values, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="link-destination">Destination URL</Label>
+            <Input
+              id="link-destination"
+              type="url"
+              placeholder="https://example.com/landing-page"
+              disabled={isSaving}
+              value={values.destination_url}
+              onChange={(e) => setValues({ ...values, destination_url: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="link-source">utm_source</Label>
+              <Input
+                id="link-source"
+                className="font-mono"
+                placeholder="Campaign default"
+                disabled={isSaving}
+                value={values.utm_source}
+                onChange={(e) => setValues({ ...values, utm_source: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="link-content">utm_content</Label>
+              <Input
+                id="link-content"
+                className="font-mono"
+                placeholder="Campaign default"
+                disabled={isSaving}
+                value={values.utm_content}
+                onChange={(e) => setValues({ ...values, utm_content: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Checking destination…' : link ? 'Save Changes' : 'Add Link'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
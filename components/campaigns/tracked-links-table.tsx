@@ -0,0 +1,237 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Copy, Download, Link2, Pencil, Plus, RefreshCw, Trash2, Upload } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showSuccess, showError } from '@/components/ui/sonner'
+import { TrackedLinkDialog } from '@/components/campaigns/tracked-link-dialog'
+import {
+  checkTrackedLinks,
+  deleteTrackedLink,
+  importTrackedLinks,
+} from '@/app/(authenticated)/[orgId]/dashboard/campaigns/actions'
+import {
+  buildTrackedLinkUrl,
+  trackedLinksToCsv,
+  type CampaignUtmDefaults,
+  type TrackedLink,
+} from '@/lib/campaigns/tracked-links'
+
+interface TrackedLinksTableProps {
+  campaignId: string
+  campaignName: string
+  links: TrackedLink[]
+  defaults: CampaignUtmDefaults
+}
+
+function LinkStatusBadge({ status }: { status: number | null }) {
+  if (status === null) {
+    return <Badge variant="outline">Not checked</Badge>
+  }
+  if (status === 0) {
+    return <Badge variant="destructive">Unreachable</Badge>
+  }
+  if (status >= 400) {
+    return <Badge variant="destructive">{status}</Badge>
+  }
+  return <Badge variant="success">{status}</Badge>
+}
+
+export function TrackedLinksTable({
+  campaignId,
+  campaignName,
+  links,
+  defaults,
+}: TrackedLinksTableProps) {
+  const [dialogLink, setDialogLink] = useState<TrackedLink | 'new' | null>(null)
+  const [busyAction, setBusyAction] = useState<'import' | 'check' | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  async function handleCopy(url: string) {
+    await navigator.clipboard.writeText(url)
+    showSuccess('Link copied')
+  }
+
+  async function handleDelete(link: TrackedLink) {
+    const result = await deleteTrackedLink(link.id)
+    if ('error' in result) {
+      showError(result.error)
+    } else {
+      showSuccess(`Deleted "${link.name}"`)
+    }
+  }
+
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setBusyAction('import')
+    const result = await importTrackedLinks(campaignId, await file.text())
+    setBusyAction(null)
+
+    if ('error' in result) {
+      showError(result.error)
+    } else {
+      showSuccess(`Imported ${result.imported} link${result.imported === 1 ? '' : 's'}`)
+    }
+  }
+
+  function handleExport() {
+    const blob = new Blob([trackedLinksToCsv(links, defaults)], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const anchor = document.createElement('a')
+    anchor.href = url
+    anchor.download = `${campaignName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-links.csv`
+    anchor.click()
+    URL.revokeObjectURL(url)
+  }
+
+  async function handleCheck() {
+    setBusyAction('check')
+    const result = await checkTrackedLinks(campaignId)
+    setBusyAction(null)
+
+    if ('error' in result) {
+      showError(result.error)
+    } else if (result.broken > 0) {
+      showError(`${result.broken} of ${result.checked} destinations didn't resolve`)
+    } else {
+      showSuccess(`All ${result.checked} destinations resolved`)
+    }
+  }
+
+  return (
+    <div data-testid="tracked-links-table">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Tracked Links</h3>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busyAction !== null}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {busyAction === 'import' ? 'Importing…' : 'Import CSV'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={links.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCheck}
+            disabled={links.length === 0 || busyAction !== null}
+          >
+            <RefreshCw className={`mr-2 h-4 w-4 ${busyAction === 'check' ? 'animate-spin' : ''}`} />
+            Check Links
+          </Button>
+          <Button size="sm" onClick={() => setDialogLink('new')}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Link
+          </Button>
+        </div>
+      </div>
+
+      {links.length === 0 ? (
+        <div className="text-muted-foreground flex flex-col items-center gap-2 rounded-lg border-2 border-dashed border-neutral-300 p-8 text-center text-sm">
+          <Link2 className="h-5 w-5" aria-hidden="true" />
+          <p>
+            No tracked links yet. Add a link per channel, post or creative, or import a CSV with
+            name and destination_url columns.
+          </p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Tracked URL</TableHead>
+              <TableHead>Destination</TableHead>
+              <TableHead className="w-[1%]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {links.map((link) => {
+              const trackedUrl = buildTrackedLinkUrl(link, defaults)
+              return (
+                <TableRow key={link.id}>
+                  <TableCell className="font-medium">{link.name}</TableCell>
+                  <TableCell className="max-w-md">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate font-mono text-xs" title={trackedUrl}>
+                        {trackedUrl}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0"
+                        onClick={() => handleCopy(trackedUrl)}
+                        aria-label={`Copy ${link.name} link`}
+                      >
+                        <Copy className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <LinkStatusBadge status={link.last_status_code} />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => setDialogLink(link)}
+                        aria-label={`Edit ${link.name}`}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => handleDelete(link)}
+                        aria-label={`Delete ${link.name}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {dialogLink && (
+        <TrackedLinkDialog
+          key={dialogLink === 'new' ? 'new' : dialogLink.id}
+          campaignId={campaignId}
+          link={dialogLink === 'new' ? undefined : dialogLink}
+          open
+          onOpenChange={(open) => !open && setDialogLink(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { useState } from 'react'
+import { Mail } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { showSuccess, showError } from '@/components/ui/sonner'
+import { updateWeeklyReportRecipients } from '@/app/(authenticated)/[orgId]/dashboard/campaigns/actions'
+
+interface WeeklyReportRecipientsProps {
+  campaignId: string
+  recipients: string[]
+  /** Recipients on the email suppression list, who are skipped when sending */
+  suppressed: string[]
+  canEdit: boolean
+}
+
+export function WeeklyReportRecipients({
+  campaignId,
+  recipients,
+  suppressed,
+  canEdit,
+}: WeeklyReportRecipientsProps) {
+  const [value, setValue] = useState(recipients.join('\n'))
+  const [isSaving, setIsSaving] = useState(false)
+  const suppressedSet = new Set(suppressed)
+  const hasChanges = value.trim() !== recipients.join('\n')
+
+  async function handleSave() {
+    setIsSaving(true)
+    const result = await updateWeeklyReportRecipients(campaignId, value)
+    setIsSaving(false)
+
+    if ('error' in result) {
+      showError(result.error)
+    } else {
+      showSuccess('Weekly report recipients updated')
+    }
+  }
+
+  return (
+    <Card data-testid="weekly-report-recipients">
+      <CardHeader>
+        <CardTitle>Weekly Report</CardTitle>
+        <CardDescription>
+          Every Monday, recipients get this campaign&apos;s metrics for the past week compared with
+          the week before, its status and the days remaining.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recipients.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {recipients.map((email) => (
+              <Badge
+                key={email}
+                variant={suppressedSet.has(email) ? 'warning' : 'secondary'}
+                title={
+                  suppressedSet.has(email)
+                    ? 'This address bounced or reported spam, so reports are not sent to it'
+                    : undefined
+                }
+              >
+                <Mail className="h-3 w-3" aria-hidden="true" />
+                {email}
+                {suppressedSet.has(email) && ' (suppressed)'}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {canEdit ? (
+          <div className="space-y-2">
+            <Textarea
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="name@example.com, one per line or comma-separated…"
+              aria-label="Weekly report recipients"
+              disabled={isSaving}
+              rows={3}
+            />
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handleSave} disabled={!hasChanges || isSaving}>
+                {isSaving ? 'Saving…' : 'Save Recipients'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          recipients.length === 0 && (
+            <p className="text-muted-foreground text-sm">No one receives this report yet.</p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
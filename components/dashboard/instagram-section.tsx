@@ -0,0 +1,96 @@
+'use client'
+
+import { MetricCard } from './metric-card'
+import { InstagramIcon } from '@/components/icons/platform-icons'
+import { getInstagramMetrics } from '@/lib/platforms/instagram/actions'
+import { PlatformSection, formatChange } from './platform-section'
+import { Period } from '@/lib/enums'
+import type { MetricTimeSeries } from '@/lib/metrics/types'
+
+interface Metric {
+  label: string
+  value: number
+  change: number | null
+}
+
+type Connection = {
+  id: string
+  account_name: string | null
+  display_name: string | null
+}
+
+interface InstagramSectionProps {
+  connections: Connection[]
+  period: Period
+  refreshKey?: number
+}
+
+const INSTAGRAM_COLOR = '#E4405F'
+
+function formatMetricsForClipboard(
+  metrics: Metric[],
+  period: Period,
+  accountName?: string
+): string {
+  const periodLabel =
+    period === '7d' ? 'Last 7 days' : period === '30d' ? 'Last 30 days' : 'This quarter'
+  const header = accountName
+    ? `📊 Instagram Metrics - ${accountName} (${periodLabel})`
+    : `📊 Instagram Metrics (${periodLabel})`
+  const lines = [header, '']
+  for (const metric of metrics) {
+    lines.push(`• ${metric.label}: ${metric.value.toLocaleString()}${formatChange(metric.change)}`)
+  }
+  return lines.join('\n')
+}
+
+async function fetchInstagramMetrics(connectionId: string, period: Period) {
+  const result = await getInstagramMetrics(period, connectionId)
+  return {
+    metrics: 'metrics' in result ? result.metrics : undefined,
+    timeSeries: 'timeSeries' in result ? result.timeSeries : undefined,
+  }
+}
+
+function renderInstagramMetrics(metrics: Metric[], timeSeries: MetricTimeSeries[], period: Period) {
+  const getTimeSeriesForMetric = (label: string) => {
+    const series = timeSeries.find((s) => s.label === label)
+    return series?.data
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-4 md:grid-cols-3 lg:grid-cols-6">
+      {metrics.map((metric) => (
+        <MetricCard
+          key={metric.label}
+          label={metric.label}
+          value={metric.value}
+          change={metric.change}
+          period={period}
+          timeSeries={getTimeSeriesForMetric(metric.label)}
+          color={INSTAGRAM_COLOR}
+        />
+      ))}
+    </div>
+  )
+}
+
+export function InstagramSection({ connections, period, refreshKey }: InstagramSectionProps) {
+  return (
+    <PlatformSection<Metric[]>
+      connections={connections}
+      period={period}
+      refreshKey={refreshKey}
+      config={{
+        name: 'Instagram',
+        color: INSTAGRAM_COLOR,
+        icon: <InstagramIcon className="size-5 text-[#E4405F]" />,
+        connectHref: '/api/auth/oauth/instagram',
+        connectDescription: 'Connect Instagram to view account insights.',
+      }}
+      getMetrics={fetchInstagramMetrics}
+      formatMetricsForClipboard={formatMetricsForClipboard}
+      renderMetrics={renderInstagramMetrics}
+    />
+  )
+}
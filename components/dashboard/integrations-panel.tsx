@@ -14,9 +14,15 @@ import {
 import { LinkedInSection } from './linkedin-section'
 import { GoogleAnalyticsSection } from './google-analytics-section'
 import { HubSpotSection } from './hubspot-section'
+import { MetaSection } from './meta-section'
+import { InstagramSection } from './instagram-section'
+import { SearchConsoleSection } from './search-console-section'
 import { syncLinkedInMetrics } from '@/lib/platforms/linkedin/actions'
 import { syncGoogleAnalyticsMetrics } from '@/lib/platforms/google-analytics/actions'
 import { syncHubSpotMetrics } from '@/lib/platforms/hubspot/actions'
+import { syncMetaMetrics } from '@/lib/platforms/meta/actions'
+import { syncInstagramMetrics } from '@/lib/platforms/instagram/actions'
+import { syncSearchConsoleMetrics } from '@/lib/platforms/search-console/actions'
 import { showSuccess, showError } from '@/components/ui/sonner'
 import { invalidateAllCacheEntries } from '@/lib/metrics/client-cache'
 import { Period } from '@/lib/enums'
@@ -35,6 +41,9 @@ interface IntegrationsPanelProps {
   linkedInConnections: Connection[]
   googleAnalyticsConnections: Connection[]
   hubspotConnections: Connection[]
+  metaConnections: Connection[]
+  instagramConnections: Connection[]
+  searchConsoleConnections: Connection[]
 }
 
 function getMostRecentSync(connections: Connection[]): string | null {
@@ -52,6 +61,9 @@ export function IntegrationsPanel({
   linkedInConnections,
   googleAnalyticsConnections,
   hubspotConnections,
+  metaConnections,
+  instagramConnections,
+  searchConsoleConnections,
 }: IntegrationsPanelProps) {
   // Load period from localStorage on mount
   const [period, setPeriod] = useState<Period>(() => {
@@ -66,6 +78,9 @@ export function IntegrationsPanel({
     ...linkedInConnections,
     ...googleAnalyticsConnections,
     ...hubspotConnections,
+    ...metaConnections,
+    ...instagramConnections,
+    ...searchConsoleConnections,
   ]
   const [lastSyncAt, setLastSyncAt] = useState<string | null>(() =>
     getMostRecentSync(allConnections)
@@ -78,7 +93,7 @@ export function IntegrationsPanel({
 
   // Count unique platform types that have at least one connection
   const connectedPlatforms = new Set(allConnections.map((c) => c.platform_type)).size
-  const totalPlatforms = 3
+  const totalPlatforms = 6
 
   async function handleRefreshAll() {
     setIsRefreshing(true)
@@ -93,6 +108,15 @@ export function IntegrationsPanel({
       hubspotConnections.length > 0
         ? syncHubSpotMetrics(organizationId)
         : Promise.resolve({ skipped: true }),
+      metaConnections.length > 0
+        ? syncMetaMetrics(organizationId)
+        : Promise.resolve({ skipped: true }),
+      instagramConnections.length > 0
+        ? syncInstagramMetrics(organizationId)
+        : Promise.resolve({ skipped: true }),
+      searchConsoleConnections.length > 0
+        ? syncSearchConsoleMetrics(organizationId)
+        : Promise.resolve({ skipped: true }),
     ])
 
     const errors: string[] = []
@@ -176,6 +200,17 @@ export function IntegrationsPanel({
           refreshKey={refreshKey}
         />
         <HubSpotSection connections={hubspotConnections} period={period} refreshKey={refreshKey} />
+        <MetaSection connections={metaConnections} period={period} refreshKey={refreshKey} />
+        <InstagramSection
+          connections={instagramConnections}
+          period={period}
+          refreshKey={refreshKey}
+        />
+        <SearchConsoleSection
+          connections={searchConsoleConnections}
+          period={period}
+          refreshKey={refreshKey}
+        />
       </div>
     </div>
   )
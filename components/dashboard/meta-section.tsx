@@ -0,0 +1,96 @@
+'use client'
+
+import { MetricCard } from './metric-card'
+import { MetaIcon } from '@/components/icons/platform-icons'
+import { getMetaMetrics } from '@/lib/platforms/meta/actions'
+import { PlatformSection, formatChange } from './platform-section'
+import { Period } from '@/lib/enums'
+import type { MetricTimeSeries } from '@/lib/metrics/types'
+
+interface Metric {
+  label: string
+  value: number
+  change: number | null
+}
+
+type Connection = {
+  id: string
+  account_name: string | null
+  display_name: string | null
+}
+
+interface MetaSectionProps {
+  connections: Connection[]
+  period: Period
+  refreshKey?: number
+}
+
+const META_COLOR = '#0866FF'
+
+function formatMetricsForClipboard(
+  metrics: Metric[],
+  period: Period,
+  accountName?: string
+): string {
+  const periodLabel =
+    period === '7d' ? 'Last 7 days' : period === '30d' ? 'Last 30 days' : 'This quarter'
+  const header = accountName
+    ? `📊 Facebook Metrics - ${accountName} (${periodLabel})`
+    : `📊 Facebook Metrics (${periodLabel})`
+  const lines = [header, '']
+  for (const metric of metrics) {
+    lines.push(`• ${metric.label}: ${metric.value.toLocaleString()}${formatChange(metric.change)}`)
+  }
+  return lines.join('\n')
+}
+
+async function fetchMetaMetrics(connectionId: string, period: Period) {
+  const result = await getMetaMetrics(period, connectionId)
+  return {
+    metrics: 'metrics' in result ? result.metrics : undefined,
+    timeSeries: 'timeSeries' in result ? result.timeSeries : undefined,
+  }
+}
+
+function renderMetaMetrics(metrics: Metric[], timeSeries: MetricTimeSeries[], period: Period) {
+  const getTimeSeriesForMetric = (label: string) => {
+    const series = timeSeries.find((s) => s.label === label)
+    return series?.data
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-4 md:grid-cols-3 lg:grid-cols-5">
+      {metrics.map((metric) => (
+        <MetricCard
+          key={metric.label}
+          label={metric.label}
+          value={metric.value}
+          change={metric.change}
+          period={period}
+          timeSeries={getTimeSeriesForMetric(metric.label)}
+          color={META_COLOR}
+        />
+      ))}
+    </div>
+  )
+}
+
+export function MetaSection({ connections, period, refreshKey }: MetaSectionProps) {
+  return (
+    <PlatformSection<Metric[]>
+      connections={connections}
+      period={period}
+      refreshKey={refreshKey}
+      config={{
+        name: 'Facebook',
+        color: META_COLOR,
+        icon: <MetaIcon className="size-5 text-[#0866FF]" />,
+        connectHref: '/api/auth/oauth/meta',
+        connectDescription: 'Connect a Facebook Page to view page insights.',
+      }}
+      getMetrics={fetchMetaMetrics}
+      formatMetricsForClipboard={formatMetricsForClipboard}
+      renderMetrics={renderMetaMetrics}
+    />
+  )
+}
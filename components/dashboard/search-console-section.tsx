@@ -0,0 +1,152 @@
+'use client'
+
+import { MetricCard } from './metric-card'
+import { SearchConsoleIcon } from '@/components/icons/platform-icons'
+import { getSearchConsoleMetrics } from '@/lib/platforms/search-console/actions'
+import { PlatformSection, formatChange } from './platform-section'
+import { Period } from '@/lib/enums'
+import type { SearchConsoleTopRow } from '@/lib/platforms/search-console/types'
+import type { MetricTimeSeries } from '@/lib/metrics/types'
+
+interface Metric {
+  label: string
+  value: number
+  change: number | null
+}
+
+interface SearchConsoleMetrics {
+  metrics: Metric[]
+  topQueries: SearchConsoleTopRow[]
+  topPages: SearchConsoleTopRow[]
+}
+
+type Connection = {
+  id: string
+  account_name: string | null
+  display_name: string | null
+}
+
+interface SearchConsoleSectionProps {
+  connections: Connection[]
+  period: Period
+  refreshKey?: number
+}
+
+const SEARCH_CONSOLE_COLOR = '#458CF5'
+
+function formatMetricsForClipboard(
+  data: SearchConsoleMetrics,
+  period: Period,
+  accountName?: string
+): string {
+  const periodLabel =
+    period === '7d' ? 'Last 7 days' : period === '30d' ? 'Last 30 days' : 'This quarter'
+  const header = accountName
+    ? `🔎 Search Console - ${accountName} (${periodLabel})`
+    : `🔎 Search Console (${periodLabel})`
+  const lines = [header, '']
+  for (const metric of data.metrics) {
+    lines.push(`• ${metric.label}: ${metric.value.toLocaleString()}${formatChange(metric.change)}`)
+  }
+  if (data.topQueries.length > 0) {
+    lines.push('', '**Top Queries**')
+    for (const row of data.topQueries) {
+      lines.push(`• ${row.key}: ${row.clicks.toLocaleString()} clicks`)
+    }
+  }
+  return lines.join('\n')
+}
+
+async function fetchSearchConsoleMetrics(connectionId: string, period: Period) {
+  const result = await getSearchConsoleMetrics(period, connectionId)
+  return {
+    metrics: 'metrics' in result ? result.metrics : undefined,
+    timeSeries: 'timeSeries' in result ? result.timeSeries : undefined,
+  }
+}
+
+function TopRowsList({ title, rows }: { title: string; rows: SearchConsoleTopRow[] }) {
+  return (
+    <div className="rounded-lg border p-4">
+      <h4 className="mb-3 text-sm font-medium">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-muted-foreground text-sm">No data yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {rows.map((row) => (
+            <li key={row.key} className="flex items-center justify-between gap-4 text-sm">
+              <span className="truncate" title={row.key}>
+                {row.key}
+              </span>
+              <span className="text-muted-foreground shrink-0 tabular-nums">
+                {row.clicks.toLocaleString()} clicks · {row.impressions.toLocaleString()} impr.
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function renderSearchConsoleMetrics(
+  data: SearchConsoleMetrics,
+  timeSeries: MetricTimeSeries[],
+  period: Period
+) {
+  const getTimeSeriesForMetric = (label: string) => {
+    const series = timeSeries.find((s) => s.label === label)
+    return series?.data
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+        {data.metrics.map((metric) => (
+          <MetricCard
+            key={metric.label}
+            label={metric.label}
+            value={metric.value}
+            change={metric.change}
+            period={period}
+            timeSeries={getTimeSeriesForMetric(metric.label)}
+            color={SEARCH_CONSOLE_COLOR}
+            tooltip={
+              metric.label === 'Avg. Position'
+                ? 'Lower is better. The trend is positive when pages move up the results.'
+                : undefined
+            }
+          />
+        ))}
+      </div>
+      <div className="grid gap-4 md:grid-cols-2">
+        <TopRowsList title="Top Queries" rows={data.topQueries} />
+        <TopRowsList title="Top Pages" rows={data.topPages} />
+      </div>
+    </div>
+  )
+}
+
+export function SearchConsoleSection({
+  connections,
+  period,
+  refreshKey,
+}: SearchConsoleSectionProps) {
+  return (
+    <PlatformSection<SearchConsoleMetrics>
+      connections={connections}
+      period={period}
+      refreshKey={refreshKey}
+      config={{
+        name: 'Search Console',
+        color: SEARCH_CONSOLE_COLOR,
+        icon: <SearchConsoleIcon className="size-5 text-[#458CF5]" />,
+        connectHref: '/api/auth/oauth/search_console',
+        connectDescription: 'Connect Google Search Console to view search performance.',
+      }}
+      getMetrics={fetchSearchConsoleMetrics}
+      formatMetricsForClipboard={formatMetricsForClipboard}
+      renderMetrics={renderSearchConsoleMetrics}
+    />
+  )
+}
@@ -12,6 +12,7 @@ import {
   FileText,
   BarChart3,
   ClipboardCheck,
+  ListChecks,
   PanelLeftClose,
   Zap,
   Users,
@@ -48,7 +49,10 @@ const homeNavigation: NavigationGroup[] = [
   },
   {
     header: 'SEO',
-    items: [{ name: 'Full Site Audit', href: '/seo/audit', icon: ClipboardCheck }],
+    items: [
+      { name: 'Full Site Audit', href: '/seo/audit', icon: ClipboardCheck },
+      { name: 'Remediation', href: '/seo/remediation', icon: ListChecks },
+    ],
   },
   {
     header: 'AI Visibility',
@@ -1,6 +1,14 @@
 'use client'
 
-import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from 'react'
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type CSSProperties,
+  type ReactNode,
+} from 'react'
 import { useRouter } from 'next/navigation'
 import dynamic from 'next/dynamic'
 import { Printer, Share2, X } from 'lucide-react'
@@ -38,6 +46,8 @@ interface ReportPresentationProps {
   data: ReportPresentationData
   isPublic?: boolean
   onShare?: () => void
+  /** Extra toolbar buttons rendered before Print (e.g. PDF download on public shares) */
+  actions?: ReactNode
 }
 
 interface BuiltSlide {
@@ -100,7 +110,13 @@ function buildSlides(data: ReportPresentationData): BuiltSlide[] {
     slides.push({
       key: `opportunities-${page}`,
       heading: `Opportunities${opportunityPages > 1 ? ` (${page + 1})` : ''}`,
-      render: () => <OpportunitiesSlide opportunities={data.opportunities} page={page} />,
+      render: () => (
+        <OpportunitiesSlide
+          opportunities={data.opportunities}
+          page={page}
+          priorityFixes={data.priority_fixes}
+        />
+      ),
     })
   }
 
@@ -146,7 +162,12 @@ function buildSlides(data: ReportPresentationData): BuiltSlide[] {
   return slides
 }
 
-export function ReportPresentation({ data, isPublic = false, onShare }: ReportPresentationProps) {
+export function ReportPresentation({
+  data,
+  isPublic = false,
+  onShare,
+  actions,
+}: ReportPresentationProps) {
   const router = useRouter()
   const buildOrgHref = useBuildOrgHref()
   const deckRef = useRef<HTMLDivElement | null>(null)
@@ -252,6 +273,7 @@ export function ReportPresentation({ data, isPublic = false, onShare }: ReportPr
             Share
           </Button>
         )}
+        {actions}
         <Button variant="outline" size="sm" onClick={() => window.print()}>
           <Printer className="mr-2 h-4 w-4" />
           Print
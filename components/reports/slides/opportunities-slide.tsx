@@ -3,11 +3,12 @@
 import { SlideContainer } from '../slide-container'
 import { cn } from '@/lib/utils'
 import { ReportPriority, AuditSource } from '@/lib/enums'
-import type { ReportOpportunity } from '@/lib/reports/types'
+import type { ReportOpportunity, ReportPriorityFix } from '@/lib/reports/types'
 
 interface OpportunitiesSlideProps {
   opportunities: ReportOpportunity[]
   page: number // 0 or 1 for pagination
+  priorityFixes?: ReportPriorityFix[] // shown on the first page when GA is connected
 }
 
 const priorityConfig = {
@@ -70,6 +71,36 @@ function OpportunityCard({ opportunity }: { opportunity: ReportOpportunity }) {
   )
 }
 
+function PriorityFixes({ fixes }: { fixes: ReportPriorityFix[] }) {
+  return (
+    <div className="rounded-lg border border-red-200 p-5 dark:border-red-900">
+      <h3 className="font-semibold">Fix these first</h3>
+      <p className="text-muted-foreground mb-4 text-sm">
+        Ranked by website traffic on the affected pages
+      </p>
+      <ol className="space-y-2">
+        {fixes.map((fix, index) => (
+          <li key={fix.title} className="flex items-center gap-3 text-sm">
+            <span
+              className={cn(
+                'flex h-6 w-6 shrink-0 items-center justify-center rounded-full text-xs font-semibold text-white',
+                priorityConfig[fix.priority].accentColor
+              )}
+            >
+              {index + 1}
+            </span>
+            <span className="flex-1 font-medium">{fix.title}</span>
+            <span className="text-muted-foreground tabular-nums">
+              {fix.sessions.toLocaleString()} sessions across {fix.affected_pages} page
+              {fix.affected_pages !== 1 ? 's' : ''}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
 function PrioritySection({
   priority,
   opportunities,
@@ -99,7 +130,11 @@ function PrioritySection({
   )
 }
 
-export function OpportunitiesSlide({ opportunities, page }: OpportunitiesSlideProps) {
+export function OpportunitiesSlide({
+  opportunities,
+  page,
+  priorityFixes,
+}: OpportunitiesSlideProps) {
   // Split opportunities across two pages
   const itemsPerPage = 6
   const startIndex = page * itemsPerPage
@@ -125,6 +160,9 @@ export function OpportunitiesSlide({ opportunities, page }: OpportunitiesSlidePr
         </div>
 
         <div className="flex-1 space-y-8">
+          {page === 0 && priorityFixes && priorityFixes.length > 0 && (
+            <PriorityFixes fixes={priorityFixes} />
+          )}
           <PrioritySection priority={ReportPriority.High} opportunities={highPriority} />
           <PrioritySection priority={ReportPriority.Medium} opportunities={mediumPriority} />
           <PrioritySection priority={ReportPriority.Low} opportunities={lowPriority} />
@@ -0,0 +1,26 @@
+import { FileDown } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { SharedResourceType } from '@/lib/enums'
+
+interface ExportPdfButtonProps {
+  organizationId: string
+  snapshotId: string
+}
+
+/**
+ * Downloads the published snapshot as a PDF, rendered from the print layout
+ * (or reused from an earlier render). A plain link, like the PowerPoint export.
+ */
+export function ExportPdfButton({ organizationId, snapshotId }: ExportPdfButtonProps) {
+  return (
+    <Button variant="outline" size="sm" asChild data-testid="export-pdf-button">
+      <a
+        href={`/api/organizations/${organizationId}/pdf/${SharedResourceType.MarketingReview}/${snapshotId}`}
+        download
+      >
+        <FileDown className="mr-2 size-4" aria-hidden="true" />
+        PDF
+      </a>
+    </Button>
+  )
+}
@@ -0,0 +1,23 @@
+import { Presentation } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface ExportPptxButtonProps {
+  reviewId: string
+  snapshotId: string
+}
+
+/**
+ * Downloads the published snapshot as an editable PowerPoint deck. A plain
+ * link is enough: the API route streams the file with an attachment
+ * disposition, so the browser stays on the page.
+ */
+export function ExportPptxButton({ reviewId, snapshotId }: ExportPptxButtonProps) {
+  return (
+    <Button variant="outline" size="sm" asChild data-testid="export-pptx-button">
+      <a href={`/api/reviews/${reviewId}/snapshots/${snapshotId}/pptx`} download>
+        <Presentation className="mr-2 size-4" aria-hidden="true" />
+        PowerPoint
+      </a>
+    </Button>
+  )
+}
@@ -1,4 +1,6 @@
 import { format, parseISO } from 'date-fns'
+import { ReviewPeriodType } from '@/lib/enums'
+import { reviewTitleLabel } from '@/lib/reviews/period'
 
 export interface CoverSlideProps {
   organization: {
@@ -9,13 +11,16 @@ export interface CoverSlideProps {
   periodStart: string
   periodEnd: string
   subtitle?: string
+  /** Drives the deck title. Defaults to quarterly. */
+  periodType?: ReviewPeriodType
 }
 
 /**
  * Title slide for a performance review deck. Shows either the org logo or
- * the org name (logo wins if set), the static "Quarterly Performance Review"
- * label, the quarter string, a formatted period range, and optional
- * AI-generated subtitle.
+ * the org name (logo wins if set), the deck title for the period type
+ * ("Quarterly Performance Review", "Monthly Performance Review", or
+ * "Performance Review" for custom ranges), the period label, a formatted
+ * period range, and optional AI-generated subtitle.
  */
 export function CoverSlide({
   organization,
@@ -23,6 +28,7 @@ export function CoverSlide({
   periodStart,
   periodEnd,
   subtitle,
+  periodType = ReviewPeriodType.Quarter,
 }: CoverSlideProps) {
   const trimmedSubtitle = subtitle?.trim()
 
@@ -49,7 +55,7 @@ export function CoverSlide({
         className="text-base font-medium tracking-widest uppercase md:text-lg lg:text-xl"
         style={{ color: 'var(--deck-accent)' }}
       >
-        Quarterly Performance Review
+        {reviewTitleLabel(periodType)}
       </p>
 
       <p className="text-foreground text-xl font-semibold md:text-3xl lg:text-4xl">{quarter}</p>
@@ -2,15 +2,17 @@ import { GaMetricStrip } from './ga-metric-strip'
 import { GaMetricTable } from './ga-metric-table'
 import { SlideNarrative } from './slide-narrative'
 import type { GAData } from '@/lib/reviews/types'
+import type { ReviewPeriodType } from '@/lib/enums'
 
 export interface GaBodySlideProps {
   narrative: string
   data: GAData | undefined
   mode: 'screen' | 'print'
+  periodType?: ReviewPeriodType
 }
 
 /**
- * GA-specific body slide for the quarterly performance deck. Mirrors the
+ * GA-specific body slide for the performance deck. Mirrors the
  * structural markup of `BodySlide` (outer container, accent-coloured heading,
  * shared narrative block) but adds a metric slot between the heading and the
  * narrative.
@@ -19,7 +21,7 @@ export interface GaBodySlideProps {
  * print renders a compact table. ReviewDeck builds separate screen/print
  * subtrees, so rendering both here would duplicate the narrative DOM.
  */
-export function GaBodySlide({ narrative, data, mode }: GaBodySlideProps) {
+export function GaBodySlide({ narrative, data, mode, periodType }: GaBodySlideProps) {
   return (
     <div className="flex h-full w-full flex-col justify-center gap-6 px-8 py-12 md:px-16 lg:px-24">
       <h2
@@ -29,7 +31,11 @@ export function GaBodySlide({ narrative, data, mode }: GaBodySlideProps) {
         Google Analytics
       </h2>
 
-      {mode === 'screen' ? <GaMetricStrip data={data} /> : <GaMetricTable data={data} />}
+      {mode === 'screen' ? (
+        <GaMetricStrip data={data} />
+      ) : (
+        <GaMetricTable data={data} periodType={periodType} />
+      )}
 
       <SlideNarrative text={narrative} testId="ga-body-slide-content" />
     </div>
@@ -1,19 +1,22 @@
 import { GA_FEATURED_METRICS } from '@/lib/reviews/featured-metrics'
 import { formatMetricDelta, formatMetricValue } from '@/lib/reviews/format'
+import { previousPeriodLabel } from '@/lib/reviews/period'
+import { ReviewPeriodType } from '@/lib/enums'
 import type { GAData } from '@/lib/reviews/types'
 
 interface GaMetricTableProps {
   data: GAData | undefined
+  periodType?: ReviewPeriodType
 }
 
 /**
  * Print-mode fallback for the GA body slide. Renders a compact 4-column table
- * (Metric | Current | QoQ | YoY) showing the same featured GA metrics as the
+ * (Metric | Current | QoQ/MoM/PoP | YoY) showing the same featured GA metrics as the
  * on-screen strip, without sparklines. Hidden on screen (`print:table`), shown
  * only when printing. Returns null when data is absent or no featured metrics
  * are present.
  */
-export function GaMetricTable({ data }: GaMetricTableProps) {
+export function GaMetricTable({ data, periodType = ReviewPeriodType.Quarter }: GaMetricTableProps) {
   if (!data) return null
 
   const rows = GA_FEATURED_METRICS.map((meta) => ({ meta, triple: data[meta.key] })).filter(
@@ -36,7 +39,7 @@ export function GaMetricTable({ data }: GaMetricTableProps) {
         <tr className="border-b">
           <th className="py-1 pr-3 text-left font-medium">Metric</th>
           <th className="py-1 pr-3 text-right font-medium">Current</th>
-          <th className="py-1 pr-3 text-right font-medium">QoQ</th>
+          <th className="py-1 pr-3 text-right font-medium">{previousPeriodLabel(periodType)}</th>
           <th className="py-1 text-right font-medium">YoY</th>
         </tr>
       </thead>
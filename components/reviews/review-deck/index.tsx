@@ -3,6 +3,8 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react'
 import type { CSSProperties } from 'react'
 import type { NarrativeBlocks, SnapshotData } from '@/lib/reviews/types'
+import { ReviewPeriodType } from '@/lib/enums'
+import { reviewTitleLabel } from '@/lib/reviews/period'
 import { useDeckNavigation } from '@/components/deck/use-deck-navigation'
 import { Slide } from '@/components/deck/slide'
 import { DeckControls } from '@/components/deck/deck-controls'
@@ -25,6 +27,8 @@ export interface ReviewDeckProps {
   periodStart: string
   /** ISO date string, e.g. '2026-03-31' */
   periodEnd: string
+  /** Quarter, month or custom range; drives the cover title and comparison labels. Defaults to quarterly. */
+  periodType?: ReviewPeriodType
   narrative: NarrativeBlocks
   /** Snapshot metric data. `data.ga` powers the GA slide's strip/table; `data.linkedin` powers the LinkedIn slide's strip/table. */
   data: SnapshotData
@@ -87,6 +91,7 @@ export function ReviewDeck({
   quarter,
   periodStart,
   periodEnd,
+  periodType = ReviewPeriodType.Quarter,
   narrative,
   data,
 }: ReviewDeckProps) {
@@ -101,6 +106,7 @@ export function ReviewDeck({
         periodStart={periodStart}
         periodEnd={periodEnd}
         subtitle={narrative.cover_subtitle}
+        periodType={periodType}
       />
     )
 
@@ -111,7 +117,7 @@ export function ReviewDeck({
           key: section.key,
           ariaHeading: section.heading,
           render: (mode: 'screen' | 'print') => (
-            <GaBodySlide narrative={text} data={data?.ga} mode={mode} />
+            <GaBodySlide narrative={text} data={data?.ga} mode={mode} periodType={periodType} />
           ),
         }
       }
@@ -120,7 +126,12 @@ export function ReviewDeck({
           key: section.key,
           ariaHeading: section.heading,
           render: (mode: 'screen' | 'print') => (
-            <LinkedInBodySlide narrative={text} data={data?.linkedin} mode={mode} />
+            <LinkedInBodySlide
+              narrative={text}
+              data={data?.linkedin}
+              mode={mode}
+              periodType={periodType}
+            />
           ),
         }
       }
@@ -145,12 +156,12 @@ export function ReviewDeck({
     return [
       {
         key: 'cover',
-        ariaHeading: 'Quarterly Performance Review',
+        ariaHeading: reviewTitleLabel(periodType),
         render: () => coverRender,
       },
       ...bodySlides,
     ]
-  }, [organization, quarter, periodStart, periodEnd, narrative, data])
+  }, [organization, quarter, periodStart, periodEnd, periodType, narrative, data])
 
   const { currentIndex, next, prev, isFirst, isLast } = useDeckNavigation(slides.length)
 
@@ -2,20 +2,22 @@ import { LinkedInMetricStrip } from './linkedin-metric-strip'
 import { LinkedInMetricTable } from './linkedin-metric-table'
 import { SlideNarrative } from './slide-narrative'
 import type { LinkedInData } from '@/lib/reviews/types'
+import type { ReviewPeriodType } from '@/lib/enums'
 
 export interface LinkedInBodySlideProps {
   narrative: string
   data: LinkedInData | undefined
   mode: 'screen' | 'print'
+  periodType?: ReviewPeriodType
 }
 
 /**
- * LinkedIn-specific body slide for the quarterly performance deck. Mirrors
+ * LinkedIn-specific body slide for the performance deck. Mirrors
  * `GaBodySlide`: outer container, accent heading, metric slot between heading
  * and narrative. Screen mode renders the interactive strip; print mode renders
  * a compact table.
  */
-export function LinkedInBodySlide({ narrative, data, mode }: LinkedInBodySlideProps) {
+export function LinkedInBodySlide({ narrative, data, mode, periodType }: LinkedInBodySlideProps) {
   return (
     <div className="flex h-full w-full flex-col justify-center gap-6 px-8 py-12 md:px-16 lg:px-24">
       <h2
@@ -28,7 +30,7 @@ export function LinkedInBodySlide({ narrative, data, mode }: LinkedInBodySlidePr
       {mode === 'screen' ? (
         <LinkedInMetricStrip data={data} />
       ) : (
-        <LinkedInMetricTable data={data} />
+        <LinkedInMetricTable data={data} periodType={periodType} />
       )}
 
       <SlideNarrative text={narrative} testId="linkedin-body-slide-content" />
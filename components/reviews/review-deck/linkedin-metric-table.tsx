@@ -1,18 +1,24 @@
 import { LINKEDIN_FEATURED_METRICS } from '@/lib/reviews/linkedin-featured-metrics'
 import { formatMetricDelta, formatMetricValue } from '@/lib/reviews/format'
+import { previousPeriodLabel } from '@/lib/reviews/period'
+import { ReviewPeriodType } from '@/lib/enums'
 import type { LinkedInData } from '@/lib/reviews/types'
 
 interface LinkedInMetricTableProps {
   data: LinkedInData | undefined
+  periodType?: ReviewPeriodType
 }
 
 /**
  * Print-mode fallback for the LinkedIn body slide. Mirrors `GaMetricTable`:
- * compact 4-column table (Metric | Current | QoQ | YoY) showing featured
+ * compact 4-column table (Metric | Current | QoQ/MoM/PoP | YoY) showing featured
  * LinkedIn metrics. Hidden on screen, shown only when printing. Returns null
  * when data is absent or no featured metrics are present.
  */
-export function LinkedInMetricTable({ data }: LinkedInMetricTableProps) {
+export function LinkedInMetricTable({
+  data,
+  periodType = ReviewPeriodType.Quarter,
+}: LinkedInMetricTableProps) {
   if (!data) return null
 
   const rows = LINKEDIN_FEATURED_METRICS.map((meta) => ({
@@ -38,7 +44,7 @@ export function LinkedInMetricTable({ data }: LinkedInMetricTableProps) {
         <tr className="border-b">
           <th className="py-1 pr-3 text-left font-medium">Metric</th>
           <th className="py-1 pr-3 text-right font-medium">Current</th>
-          <th className="py-1 pr-3 text-right font-medium">QoQ</th>
+          <th className="py-1 pr-3 text-right font-medium">{previousPeriodLabel(periodType)}</th>
           <th className="py-1 text-right font-medium">YoY</th>
         </tr>
       </thead>
@@ -28,6 +28,9 @@ const platforms = [
   { value: 'linkedin', label: 'LinkedIn' },
   { value: 'hubspot', label: 'HubSpot' },
   { value: 'google_analytics', label: 'Google Analytics' },
+  { value: 'meta', label: 'Facebook' },
+  { value: 'instagram', label: 'Instagram' },
+  { value: 'search_console', label: 'Google Search Console' },
 ]
 
 export function AddIntegrationDialog({ open, onOpenChange }: AddIntegrationDialogProps) {
@@ -0,0 +1,130 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { updateOrganizationAISettings } from '@/app/(authenticated)/[orgId]/settings/organization/actions'
+import { AIBillingModel, AIProvider } from '@/lib/enums'
+
+const BILLING_MODEL_LABELS: Record<AIBillingModel, string> = {
+  [AIBillingModel.PlatformBilled]: 'Platform billed',
+  [AIBillingModel.BringOwnKey]: 'Bring your own key',
+  [AIBillingModel.Disabled]: 'Disabled',
+}
+
+interface AISettingsFormProps {
+  orgId: string
+  billingModel: AIBillingModel | null
+  provider: AIProvider | null
+  /** Whether an encrypted key is stored; the key itself never reaches the client */
+  hasApiKey: boolean
+}
+
+export function AISettingsForm({ orgId, billingModel, provider, hasApiKey }: AISettingsFormProps) {
+  const [isPending, startTransition] = useTransition()
+  const [model, setModel] = useState(billingModel ?? AIBillingModel.PlatformBilled)
+  const [keyProvider, setKeyProvider] = useState(
+    provider === AIProvider.OpenAI ? AIProvider.OpenAI : AIProvider.Anthropic
+  )
+  const [apiKey, setApiKey] = useState('')
+
+  const canKeepKey = hasApiKey && keyProvider === provider
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    startTransition(async () => {
+      const result = await updateOrganizationAISettings(orgId, {
+        billingModel: model,
+        provider: keyProvider,
+        apiKey,
+      })
+      if ('error' in result) {
+        toast.error(result.error)
+        return
+      }
+      setApiKey('')
+      toast.success('AI settings saved')
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI Usage</CardTitle>
+        <CardDescription>
+          How AI features are billed. With your own key, Anthropic or OpenAI calls use it instead of
+          the platform&apos;s; other providers stay platform billed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Billing</Label>
+              <Select value={model} onValueChange={(v) => setModel(v as AIBillingModel)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(AIBillingModel).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {BILLING_MODEL_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {model === AIBillingModel.BringOwnKey && (
+              <div className="space-y-2">
+                <Label>Provider</Label>
+                <Select value={keyProvider} onValueChange={(v) => setKeyProvider(v as AIProvider)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AIProvider.Anthropic}>Anthropic</SelectItem>
+                    <SelectItem value={AIProvider.OpenAI}>OpenAI</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          {model === AIBillingModel.BringOwnKey && (
+            <div className="space-y-2">
+              <Label htmlFor="ai-api-key">API key</Label>
+              <Input
+                id="ai-api-key"
+                type="password"
+                autoComplete="off"
+                value={apiKey}
+                placeholder={canKeepKey ? 'Leave blank to keep the stored key' : ''}
+                onChange={(e) => setApiKey(e.target.value)}
+              />
+              <p className="text-muted-foreground text-xs">
+                The key is checked with the provider before it&apos;s saved, and stored encrypted.
+              </p>
+            </div>
+          )}
+          <Button
+            type="submit"
+            disabled={
+              isPending || (model === AIBillingModel.BringOwnKey && !apiKey.trim() && !canKeepKey)
+            }
+          >
+            {isPending ? 'Saving...' : 'Save AI Settings'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
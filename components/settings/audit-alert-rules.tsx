@@ -0,0 +1,219 @@
+'use client'
+
+import { useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { LoadingButton } from '@/components/ui/loading-button'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AuditAlertRuleType, ScoreDimension } from '@/lib/enums'
+import type { AuditAlertRule } from '@/lib/unified-audit/types'
+
+const DIMENSION_LABELS: Record<string, string> = {
+  overall: 'Overall score',
+  [ScoreDimension.SEO]: 'SEO score',
+  [ScoreDimension.Performance]: 'Performance score',
+  [ScoreDimension.AIReadiness]: 'AI Readiness score',
+}
+
+function describeRule(rule: AuditAlertRule): string {
+  if (rule.rule_type === AuditAlertRuleType.ScoreDrop) {
+    return `${DIMENSION_LABELS[rule.dimension ?? 'overall']} drops by more than ${rule.threshold}`
+  }
+  return 'Any new critical check fails'
+}
+
+interface AuditAlertRulesProps {
+  siteId: string
+  rules: AuditAlertRule[]
+}
+
+export function AuditAlertRules({ siteId, rules: initialRules }: AuditAlertRulesProps) {
+  const [rules, setRules] = useState(initialRules)
+  const [ruleType, setRuleType] = useState<AuditAlertRuleType>(AuditAlertRuleType.ScoreDrop)
+  const [dimension, setDimension] = useState<string>('overall')
+  const [threshold, setThreshold] = useState('5')
+  const [recipients, setRecipients] = useState('')
+  const [isAdding, setIsAdding] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleAdd = async () => {
+    setIsAdding(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/settings/monitored-sites/alert-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          monitored_site_id: siteId,
+          rule_type: ruleType,
+          dimension,
+          threshold: Number(threshold),
+          recipients: recipients.split(','),
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to add alert rule')
+        return
+      }
+
+      setRules((prev) => [...prev, data])
+      setRecipients('')
+    } catch (err) {
+      console.error('Failed to add alert rule:', err)
+      setError('Failed to add alert rule')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleToggle = async (ruleId: string, isActive: boolean) => {
+    try {
+      await fetch('/api/settings/monitored-sites/alert-rules', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: ruleId, is_active: isActive }),
+      })
+
+      setRules((prev) => prev.map((r) => (r.id === ruleId ? { ...r, is_active: isActive } : r)))
+    } catch (err) {
+      console.error('Failed to update alert rule:', err)
+    }
+  }
+
+  const handleDelete = async (ruleId: string) => {
+    setDeletingId(ruleId)
+    try {
+      const response = await fetch(`/api/settings/monitored-sites/alert-rules?id=${ruleId}`, {
+        method: 'DELETE',
+      })
+      if (response.ok) {
+        setRules((prev) => prev.filter((r) => r.id !== ruleId))
+      }
+    } catch (err) {
+      console.error('Failed to delete alert rule:', err)
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div>
+        <div className="font-medium">Regression Alerts</div>
+        <p className="text-muted-foreground text-xs">
+          Email alerts when a weekly audit is worse than the previous one. Leave recipients empty to
+          notify the Selo team.
+        </p>
+      </div>
+
+      {rules.length > 0 && (
+        <div className="divide-y rounded-md border">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between gap-4 px-3 py-2">
+              <div className="flex flex-col">
+                <span className="text-sm">{describeRule(rule)}</span>
+                <span className="text-muted-foreground text-xs">
+                  {rule.recipients.length > 0 ? rule.recipients.join(', ') : 'Selo team'}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={rule.is_active}
+                  onCheckedChange={(v) => handleToggle(rule.id, v)}
+                  aria-label="Toggle alert rule"
+                />
+                <LoadingButton
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(rule.id)}
+                  loading={deletingId === rule.id}
+                  icon={<Trash2 />}
+                  className="text-muted-foreground hover:text-destructive"
+                  aria-label="Delete alert rule"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Alert when</Label>
+          <Select value={ruleType} onValueChange={(v) => setRuleType(v as AuditAlertRuleType)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AuditAlertRuleType.ScoreDrop}>Score drops</SelectItem>
+              <SelectItem value={AuditAlertRuleType.NewCriticalFailure}>
+                New critical failure
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {ruleType === AuditAlertRuleType.ScoreDrop && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs">Score</Label>
+              <Select value={dimension} onValueChange={setDimension}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DIMENSION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alert-threshold" className="text-xs">
+                By more than
+              </Label>
+              <Input
+                id="alert-threshold"
+                type="number"
+                min={1}
+                max={100}
+                className="w-20"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+              />
+            </div>
+          </>
+        )}
+        <div className="min-w-48 flex-1 space-y-1">
+          <Label htmlFor="alert-recipients" className="text-xs">
+            Recipients
+          </Label>
+          <Input
+            id="alert-recipients"
+            placeholder="name@client.com, ..."
+            value={recipients}
+            onChange={(e) => setRecipients(e.target.value)}
+          />
+        </div>
+        <Button onClick={handleAdd} disabled={isAdding}>
+          {isAdding ? 'Adding...' : 'Add Rule'}
+        </Button>
+      </div>
+      {error && <p className="text-destructive text-sm">{error}</p>}
+    </div>
+  )
+}
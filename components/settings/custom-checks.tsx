@@ -0,0 +1,307 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  createCustomCheck,
+  deleteCustomCheck,
+  setCustomCheckActive,
+} from '@/app/(authenticated)/[orgId]/settings/audit-checks/actions'
+import { CheckPriority, CustomCheckRuleType, ScoreDimension } from '@/lib/enums'
+import type { CustomCheck } from '@/lib/unified-audit/types'
+
+const RULE_TYPE_LABELS: Record<CustomCheckRuleType, string> = {
+  [CustomCheckRuleType.SelectorPresent]: 'Element must exist',
+  [CustomCheckRuleType.SelectorAbsent]: 'Element must not exist',
+  [CustomCheckRuleType.RegexMatch]: 'HTML must match',
+  [CustomCheckRuleType.RegexNoMatch]: 'HTML must not match',
+  [CustomCheckRuleType.JsonLdType]: 'Schema type required',
+}
+
+const PATTERN_PLACEHOLDERS: Record<CustomCheckRuleType, string> = {
+  [CustomCheckRuleType.SelectorPresent]: 'CSS selector, e.g. .product-price',
+  [CustomCheckRuleType.SelectorAbsent]: 'CSS selector, e.g. a[href*="staging.example.com"]',
+  [CustomCheckRuleType.RegexMatch]: 'Regular expression, e.g. ©\\s*20\\d\\d',
+  [CustomCheckRuleType.RegexNoMatch]: 'Regular expression, e.g. lorem ipsum',
+  [CustomCheckRuleType.JsonLdType]: 'Schema.org type, e.g. Product',
+}
+
+const PRIORITY_LABELS: Record<CheckPriority, string> = {
+  [CheckPriority.Critical]: 'Critical',
+  [CheckPriority.Recommended]: 'Recommended',
+  [CheckPriority.Optional]: 'Optional',
+}
+
+const SCORE_LABELS: Record<ScoreDimension, string> = {
+  [ScoreDimension.SEO]: 'SEO',
+  [ScoreDimension.Performance]: 'Performance',
+  [ScoreDimension.AIReadiness]: 'AI Readiness',
+}
+
+interface CustomChecksManagerProps {
+  orgId: string
+  checks: CustomCheck[]
+}
+
+export function CustomChecksManager({ orgId, checks: initialChecks }: CustomChecksManagerProps) {
+  const [checks, setChecks] = useState(initialChecks)
+  const [isPending, startTransition] = useTransition()
+  const [displayName, setDisplayName] = useState('')
+  const [description, setDescription] = useState('')
+  const [ruleType, setRuleType] = useState<CustomCheckRuleType>(CustomCheckRuleType.SelectorPresent)
+  const [pattern, setPattern] = useState('')
+  const [urlScope, setUrlScope] = useState('')
+  const [priority, setPriority] = useState<CheckPriority>(CheckPriority.Recommended)
+  const [feedsScore, setFeedsScore] = useState<ScoreDimension>(ScoreDimension.SEO)
+  const [fixGuidance, setFixGuidance] = useState('')
+
+  const resetForm = () => {
+    setDisplayName('')
+    setDescription('')
+    setPattern('')
+    setUrlScope('')
+    setFixGuidance('')
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    startTransition(async () => {
+      const result = await createCustomCheck(orgId, {
+        displayName,
+        description,
+        ruleType,
+        pattern,
+        urlScope,
+        priority,
+        feedsScore,
+        fixGuidance,
+      })
+
+      if ('error' in result) {
+        toast.error(result.error)
+        return
+      }
+
+      setChecks((prev) => [...prev, result.check])
+      resetForm()
+      toast.success('Custom check added. It will run on the next audit.')
+    })
+  }
+
+  const handleToggle = (checkId: string, isActive: boolean) => {
+    startTransition(async () => {
+      const result = await setCustomCheckActive(orgId, checkId, isActive)
+      if ('error' in result) {
+        toast.error(result.error)
+        return
+      }
+      setChecks((prev) => prev.map((c) => (c.id === checkId ? { ...c, is_active: isActive } : c)))
+    })
+  }
+
+  const handleDelete = (checkId: string) => {
+    startTransition(async () => {
+      const result = await deleteCustomCheck(orgId, checkId)
+      if ('error' in result) {
+        toast.error(result.error)
+        return
+      }
+      setChecks((prev) => prev.filter((c) => c.id !== checkId))
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Custom Checks</CardTitle>
+          <CardDescription>
+            House rules evaluated on every crawled page during site audits. Results appear in the
+            Custom category of the audit report.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {checks.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No custom checks yet.</p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {checks.map((check) => (
+                <div key={check.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="text-sm font-medium">{check.display_name}</div>
+                    <div className="text-muted-foreground truncate text-xs">
+                      {RULE_TYPE_LABELS[check.rule_type]}:{' '}
+                      <code className="font-mono">{check.pattern}</code>
+                      {check.url_scope && <> · pages matching {check.url_scope}</>}
+                    </div>
+                    <div className="text-muted-foreground text-xs">
+                      {PRIORITY_LABELS[check.priority]} · feeds {SCORE_LABELS[check.feeds_score]}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Switch
+                      checked={check.is_active}
+                      onCheckedChange={(v) => handleToggle(check.id, v)}
+                      disabled={isPending}
+                      aria-label="Toggle custom check"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(check.id)}
+                      disabled={isPending}
+                      className="text-muted-foreground hover:text-destructive"
+                      aria-label="Delete custom check"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Check</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="custom-check-name">Name</Label>
+                <Input
+                  id="custom-check-name"
+                  placeholder="Product pages have Product schema"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Rule</Label>
+                <Select
+                  value={ruleType}
+                  onValueChange={(v) => setRuleType(v as CustomCheckRuleType)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RULE_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="custom-check-pattern">Pattern</Label>
+              <Input
+                id="custom-check-pattern"
+                className="font-mono"
+                placeholder={PATTERN_PLACEHOLDERS[ruleType]}
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="custom-check-scope">URL scope (optional)</Label>
+              <Input
+                id="custom-check-scope"
+                className="font-mono"
+                placeholder="/products/*"
+                value={urlScope}
+                onChange={(e) => setUrlScope(e.target.value)}
+              />
+              <p className="text-muted-foreground text-xs">
+                Only check pages whose path starts with this pattern. Use * as a wildcard and end
+                with $ to match the full path. Leave empty to check every page.
+              </p>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={priority} onValueChange={(v) => setPriority(v as CheckPriority)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Feeds score</Label>
+                <Select
+                  value={feedsScore}
+                  onValueChange={(v) => setFeedsScore(v as ScoreDimension)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SCORE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="custom-check-description">Description (optional)</Label>
+              <Input
+                id="custom-check-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="custom-check-fix">How to fix (optional)</Label>
+              <Textarea
+                id="custom-check-fix"
+                rows={2}
+                value={fixGuidance}
+                onChange={(e) => setFixGuidance(e.target.value)}
+              />
+            </div>
+
+            <Button type="submit" disabled={isPending}>
+              {isPending ? 'Saving...' : 'Add Check'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,326 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  deleteIssueTrackerConfig,
+  saveIssueTrackerConfig,
+} from '@/app/(authenticated)/[orgId]/settings/issue-tracker/actions'
+import { CheckPriority, IssueTracker } from '@/lib/enums'
+import {
+  credentialTarget,
+  DEFAULT_PRIORITY_MAPPING,
+  TRACKER_LABELS,
+} from '@/lib/issue-trackers/mapping'
+import type {
+  GitHubSettings,
+  IssueTrackerConfigSummary,
+  JiraSettings,
+  LinearSettings,
+  PriorityMapping,
+  TrackerSettings,
+} from '@/lib/issue-trackers/types'
+
+const PRIORITY_LABELS: Record<CheckPriority, string> = {
+  [CheckPriority.Critical]: 'Critical',
+  [CheckPriority.Recommended]: 'Recommended',
+  [CheckPriority.Optional]: 'Optional',
+}
+
+const PRIORITY_HELP: Record<IssueTracker, string> = {
+  [IssueTracker.Jira]: 'Jira priority names. Leave empty to use the defaults shown.',
+  [IssueTracker.Linear]:
+    'Linear priority numbers (1 urgent, 2 high, 3 medium, 4 low). Leave empty to use the defaults shown.',
+  [IssueTracker.GitHub]:
+    'GitHub has no priority field, so this label is added instead. Leave empty to use the defaults shown.',
+}
+
+interface IssueTrackerFormProps {
+  orgId: string
+  config: IssueTrackerConfigSummary | null
+}
+
+export function IssueTrackerForm({ orgId, config }: IssueTrackerFormProps) {
+  const [isPending, startTransition] = useTransition()
+  const [savedTracker, setSavedTracker] = useState<IssueTracker | null>(config?.tracker ?? null)
+  const [savedTarget, setSavedTarget] = useState(
+    config ? credentialTarget(config.tracker, config.settings) : ''
+  )
+  const [tracker, setTracker] = useState<IssueTracker>(config?.tracker ?? IssueTracker.Jira)
+  const [apiToken, setApiToken] = useState('')
+  const [email, setEmail] = useState('')
+  const [settings, setSettings] = useState<Record<string, string>>(
+    () => ({ ...(config?.settings ?? {}) }) as Record<string, string>
+  )
+  const [priorityMapping, setPriorityMapping] = useState<Partial<PriorityMapping>>(
+    config?.priority_mapping ?? {}
+  )
+  const [labels, setLabels] = useState((config?.labels ?? ['seo-audit']).join(', '))
+  const [autoClose, setAutoClose] = useState(config?.auto_close ?? true)
+
+  // The stored token only applies to the tracker and URL it was saved for
+  const keepsToken =
+    savedTracker === tracker &&
+    savedTarget === credentialTarget(tracker, settings as unknown as TrackerSettings)
+
+  const setSetting = (key: string, value: string) => {
+    setSettings((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const handleTrackerChange = (value: IssueTracker) => {
+    setTracker(value)
+    setSettings(value === config?.tracker ? { ...(config.settings as object) } : {})
+    setPriorityMapping(value === config?.tracker ? config.priority_mapping : {})
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    startTransition(async () => {
+      const result = await saveIssueTrackerConfig(orgId, {
+        tracker,
+        apiToken,
+        email,
+        settings: settings as unknown as TrackerSettings,
+        priorityMapping,
+        labels: labels.split(','),
+        autoClose,
+      })
+
+      if ('error' in result) {
+        toast.error(result.error)
+        return
+      }
+
+      setSavedTracker(tracker)
+      setSavedTarget(credentialTarget(tracker, settings as unknown as TrackerSettings))
+      setApiToken('')
+      setEmail('')
+      toast.success(`${TRACKER_LABELS[tracker]} connected`)
+    })
+  }
+
+  const handleDelete = () => {
+    startTransition(async () => {
+      const result = await deleteIssueTrackerConfig(orgId)
+      if ('error' in result) {
+        toast.error(result.error)
+        return
+      }
+      setSavedTracker(null)
+      toast.success('Issue tracker removed')
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Tracker</CardTitle>
+          <CardDescription>
+            {savedTracker
+              ? `Failed checks can be sent to ${TRACKER_LABELS[savedTracker]} from any site audit.`
+              : 'Connect a tracker to send failed checks from site audits as issues.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Service</Label>
+            <Select value={tracker} onValueChange={(v) => handleTrackerChange(v as IssueTracker)}>
+              <SelectTrigger className="sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TRACKER_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {tracker === IssueTracker.Jira && (
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="jira-base-url">Site URL</Label>
+                <Input
+                  id="jira-base-url"
+                  placeholder="https://acme.atlassian.net"
+                  value={(settings as Partial<JiraSettings>).base_url ?? ''}
+                  onChange={(e) => setSetting('base_url', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="jira-project-key">Project key</Label>
+                <Input
+                  id="jira-project-key"
+                  placeholder="SEO"
+                  value={(settings as Partial<JiraSettings>).project_key ?? ''}
+                  onChange={(e) => setSetting('project_key', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="jira-issue-type">Issue type</Label>
+                <Input
+                  id="jira-issue-type"
+                  placeholder="Task"
+                  value={(settings as Partial<JiraSettings>).issue_type ?? ''}
+                  onChange={(e) => setSetting('issue_type', e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          {tracker === IssueTracker.Linear && (
+            <div className="space-y-2">
+              <Label htmlFor="linear-team-id">Team ID</Label>
+              <Input
+                id="linear-team-id"
+                className="font-mono sm:w-96"
+                value={(settings as Partial<LinearSettings>).team_id ?? ''}
+                onChange={(e) => setSetting('team_id', e.target.value)}
+              />
+            </div>
+          )}
+
+          {tracker === IssueTracker.GitHub && (
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="github-owner">Owner</Label>
+                <Input
+                  id="github-owner"
+                  placeholder="acme"
+                  value={(settings as Partial<GitHubSettings>).owner ?? ''}
+                  onChange={(e) => setSetting('owner', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="github-repo">Repository</Label>
+                <Input
+                  id="github-repo"
+                  placeholder="website"
+                  value={(settings as Partial<GitHubSettings>).repo ?? ''}
+                  onChange={(e) => setSetting('repo', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="github-api-url">API URL (Enterprise only)</Label>
+                <Input
+                  id="github-api-url"
+                  placeholder="https://api.github.com"
+                  value={(settings as Partial<GitHubSettings>).api_base_url ?? ''}
+                  onChange={(e) => setSetting('api_base_url', e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {tracker === IssueTracker.Jira && (
+              <div className="space-y-2">
+                <Label htmlFor="tracker-email">Atlassian account email</Label>
+                <Input
+                  id="tracker-email"
+                  type="email"
+                  placeholder={keepsToken ? 'Unchanged' : 'you@example.com'}
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="tracker-token">API token</Label>
+              <Input
+                id="tracker-token"
+                type="password"
+                autoComplete="off"
+                placeholder={keepsToken ? 'Leave empty to keep the current token' : ''}
+                value={apiToken}
+                onChange={(e) => setApiToken(e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Issues</CardTitle>
+          <CardDescription>{PRIORITY_HELP[tracker]}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            {Object.values(CheckPriority).map((priority) => (
+              <div key={priority} className="space-y-2">
+                <Label htmlFor={`priority-${priority}`}>{PRIORITY_LABELS[priority]} checks</Label>
+                <Input
+                  id={`priority-${priority}`}
+                  placeholder={DEFAULT_PRIORITY_MAPPING[tracker][priority]}
+                  value={priorityMapping[priority] ?? ''}
+                  onChange={(e) =>
+                    setPriorityMapping((prev) => ({ ...prev, [priority]: e.target.value }))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+
+          {tracker !== IssueTracker.Linear && (
+            <div className="space-y-2">
+              <Label htmlFor="tracker-labels">Labels</Label>
+              <Input
+                id="tracker-labels"
+                placeholder="seo-audit"
+                value={labels}
+                onChange={(e) => setLabels(e.target.value)}
+              />
+              <p className="text-muted-foreground text-xs">
+                Comma-separated labels added to every issue.
+              </p>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="tracker-auto-close">Close issues when checks pass</Label>
+              <p className="text-muted-foreground text-xs">
+                Issues always get a comment when a later audit finds their checks passing. Turn this
+                off to close them yourself.
+              </p>
+            </div>
+            <Switch id="tracker-auto-close" checked={autoClose} onCheckedChange={setAutoClose} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={isPending}>
+          {isPending ? 'Saving...' : 'Save'}
+        </Button>
+        {savedTracker && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleDelete}
+            disabled={isPending}
+            className="text-destructive"
+          >
+            Remove
+          </Button>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -5,17 +5,21 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button'
 import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
+import { AuditAlertRules } from '@/components/settings/audit-alert-rules'
 import type { MonitoredSite } from '@/lib/performance/types'
+import type { AuditAlertRule } from '@/lib/unified-audit/types'
 import { formatDate } from '@/lib/utils'
 
 interface MonitoredSitesManagerProps {
   sites: MonitoredSite[]
   websiteUrl: string | null
+  alertRules?: AuditAlertRule[]
 }
 
 export function MonitoredSitesManager({
   sites: initialSites,
   websiteUrl,
+  alertRules = [],
 }: MonitoredSitesManagerProps) {
   const [sites, setSites] = useState(initialSites)
   const [isAdding, setIsAdding] = useState(false)
@@ -125,6 +129,11 @@ export function MonitoredSitesManager({
                 onCheckedChange={(v) => handleToggle(currentSite.id, 'run_performance_audit', v)}
               />
             </div>
+
+            <AuditAlertRules
+              siteId={currentSite.id}
+              rules={alertRules.filter((r) => r.monitored_site_id === currentSite.id)}
+            />
           </div>
         )}
       </CardContent>
@@ -8,7 +8,14 @@ import { Pencil, Trash2 } from 'lucide-react'
 import { displayName } from '@/lib/utils'
 import { EditDisplayNameDialog } from './edit-display-name-dialog'
 import { DisconnectConfirmDialog } from './disconnect-confirm-dialog'
-import { LinkedInIcon, HubSpotIcon, GoogleAnalyticsIcon } from '@/components/icons/platform-icons'
+import {
+  LinkedInIcon,
+  HubSpotIcon,
+  GoogleAnalyticsIcon,
+  MetaIcon,
+  InstagramIcon,
+  SearchConsoleIcon,
+} from '@/components/icons/platform-icons'
 
 type Connection = {
   id: string
@@ -46,6 +53,24 @@ const platformInfo: Record<
     icon: LinkedInIcon,
     iconColor: 'text-[#0A66C2]',
   },
+  meta: {
+    name: 'Facebook',
+    description: 'Page views, post engagement, followers',
+    icon: MetaIcon,
+    iconColor: 'text-[#0866FF]',
+  },
+  instagram: {
+    name: 'Instagram',
+    description: 'Reach, views, profile visits, followers',
+    icon: InstagramIcon,
+    iconColor: 'text-[#E4405F]',
+  },
+  search_console: {
+    name: 'Search Console',
+    description: 'Search clicks, impressions, rankings',
+    icon: SearchConsoleIcon,
+    iconColor: 'text-[#458CF5]',
+  },
 }
 
 function formatLastSyncAt(lastSyncAt: string | null): string | null {
@@ -0,0 +1,125 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  recomputeAuditScores,
+  updateScoreWeights,
+} from '@/app/(authenticated)/[orgId]/settings/organization/actions'
+import { DEFAULT_SCORE_WEIGHTS, type ScoreWeights } from '@/lib/unified-audit/types'
+
+const DIMENSIONS: { key: keyof ScoreWeights; label: string }[] = [
+  { key: 'seo', label: 'SEO' },
+  { key: 'performance', label: 'Performance' },
+  { key: 'ai_readiness', label: 'AI Readiness' },
+]
+
+function toPercentages(weights: ScoreWeights): Record<keyof ScoreWeights, string> {
+  return {
+    seo: String(Math.round(weights.seo * 100)),
+    performance: String(Math.round(weights.performance * 100)),
+    ai_readiness: String(Math.round(weights.ai_readiness * 100)),
+  }
+}
+
+interface ScoreWeightsFormProps {
+  orgId: string
+  /** Stored override, or null when the organization uses the defaults */
+  weights: ScoreWeights | null
+}
+
+export function ScoreWeightsForm({ orgId, weights }: ScoreWeightsFormProps) {
+  const [isPending, startTransition] = useTransition()
+  const [values, setValues] = useState(toPercentages(weights ?? DEFAULT_SCORE_WEIGHTS))
+
+  const total = DIMENSIONS.reduce((sum, { key }) => sum + (parseInt(values[key], 10) || 0), 0)
+
+  const save = (next: ScoreWeights | null) => {
+    startTransition(async () => {
+      const result = await updateScoreWeights(orgId, next)
+      if ('error' in result) {
+        toast.error(result.error)
+        return
+      }
+      if (!next) setValues(toPercentages(DEFAULT_SCORE_WEIGHTS))
+      toast.success('Score weights saved. New audits will use these weights.')
+    })
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    save({
+      seo: (parseInt(values.seo, 10) || 0) / 100,
+      performance: (parseInt(values.performance, 10) || 0) / 100,
+      ai_readiness: (parseInt(values.ai_readiness, 10) || 0) / 100,
+    })
+  }
+
+  const handleRecompute = () => {
+    startTransition(async () => {
+      const result = await recomputeAuditScores(orgId)
+      if ('error' in result) {
+        toast.error(result.error)
+        return
+      }
+      toast.success(
+        `Recomputed ${result.total} audit${result.total === 1 ? '' : 's'} (${result.updated} changed)`
+      )
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Score Weights</CardTitle>
+        <CardDescription>
+          How much each dimension contributes to the overall site audit score.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            {DIMENSIONS.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`score-weight-${key}`}>{label} (%)</Label>
+                <Input
+                  id={`score-weight-${key}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={values[key]}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+          <p
+            className={total === 100 ? 'text-muted-foreground text-sm' : 'text-destructive text-sm'}
+          >
+            Total: {total}%{total !== 100 && ' — weights must add up to 100%'}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" disabled={isPending || total !== 100}>
+              {isPending ? 'Saving...' : 'Save Weights'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isPending || !weights}
+              onClick={() => save(null)}
+            >
+              Reset to Defaults
+            </Button>
+            <Button type="button" variant="ghost" disabled={isPending} onClick={handleRecompute}>
+              Recompute Past Audits
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
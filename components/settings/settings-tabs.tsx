@@ -17,6 +17,8 @@ const allSettingsTabs: SettingsTab[] = [
   { name: 'Team', href: '/settings/team' },
   { name: 'Integrations', href: '/settings/integrations' },
   { name: 'Monitoring', href: '/settings/monitoring' },
+  { name: 'Audit Checks', href: '/settings/audit-checks' },
+  { name: 'Issue Tracker', href: '/settings/issue-tracker' },
   { name: 'AI Visibility', href: '/settings/ai-visibility' },
 ]
 
@@ -24,6 +26,8 @@ function getVisibleTabs(userRole?: string, isInternal?: boolean): SettingsTab[]
   return allSettingsTabs.filter((tab) => {
     if (tab.href === '/settings/integrations') return isInternal || canManageIntegrations(userRole)
     if (tab.href === '/settings/monitoring') return userRole !== UserRole.ExternalDeveloper
+    if (tab.href === '/settings/audit-checks') return isInternal || canManageOrg(userRole)
+    if (tab.href === '/settings/issue-tracker') return isInternal || canManageOrg(userRole)
     if (tab.href === '/settings/ai-visibility') return isInternal || canManageOrg(userRole)
     return true
   })
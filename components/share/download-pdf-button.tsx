@@ -0,0 +1,70 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+
+interface DownloadPdfButtonProps {
+  token: string
+  /** Download grant returned by accessSharedLink when the page was opened */
+  grant: string
+}
+
+function filenameFromDisposition(header: string | null): string {
+  return header?.match(/filename="([^"]+)"/)?.[1] ?? 'download.pdf'
+}
+
+/**
+ * Downloads a server-rendered PDF of a shared resource. Rendering takes a few
+ * seconds, so the request runs in the background and the file is saved via an
+ * object URL once it arrives.
+ */
+export function DownloadPdfButton({ token, grant }: DownloadPdfButtonProps) {
+  const [isDownloading, setIsDownloading] = useState(false)
+
+  const handleDownload = async () => {
+    setIsDownloading(true)
+    try {
+      const response = await fetch(`/api/share/${token}/pdf`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grant }),
+      })
+
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as { error?: string } | null
+        toast.error(body?.error ?? 'Failed to generate PDF')
+        return
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filenameFromDisposition(response.headers.get('Content-Disposition'))
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch {
+      toast.error('Failed to generate PDF')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={handleDownload}
+      disabled={isDownloading}
+      data-testid="download-pdf-button"
+    >
+      {isDownloading ? (
+        <Loader2 className="mr-2 size-4 animate-spin" aria-hidden="true" />
+      ) : (
+        <Download className="mr-2 size-4" aria-hidden="true" />
+      )}
+      {isDownloading ? 'Preparing PDF...' : 'Download PDF'}
+    </Button>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { Copy, Check, Loader2, Link as LinkIcon, Lock, Eye } from 'lucide-react'
+import { Copy, Check, Loader2, Link as LinkIcon, Lock, Eye, FileSpreadsheet } from 'lucide-react'
 import {
   Dialog,
   DialogContent,
@@ -24,8 +24,7 @@ import { Calendar } from '@/components/ui/calendar'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { cn } from '@/lib/utils'
 import { format } from 'date-fns'
-import { ShareExpiration } from '@/lib/enums'
-import type { SharedResourceType } from '@/lib/enums'
+import { ShareExpiration, SharedResourceType } from '@/lib/enums'
 import { createSharedLink } from '@/lib/share/actions'
 import { getResourceTypeLabel } from '@/lib/share/utils'
 import type { SharedLink } from '@/lib/share/types'
@@ -43,12 +42,15 @@ export function ShareModal({ open, onOpenChange, resourceType, resourceId }: Sha
   const [maxViews, setMaxViews] = useState(50)
   const [passwordEnabled, setPasswordEnabled] = useState(false)
   const [password, setPassword] = useState('')
+  const [allowDataExport, setAllowDataExport] = useState(false)
   const [isCreating, setIsCreating] = useState(false)
   const [createdShare, setCreatedShare] = useState<{ share: SharedLink; url: string } | null>(null)
   const [copied, setCopied] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
   const label = getResourceTypeLabel(resourceType)
+  // Spreadsheet exports of checks and pages exist for unified audits only
+  const supportsDataExport = resourceType === SharedResourceType.UnifiedAudit
 
   const handleCreate = async () => {
     setIsCreating(true)
@@ -65,6 +67,7 @@ export function ShareModal({ open, onOpenChange, resourceType, resourceId }: Sha
             : undefined,
         password: passwordEnabled ? password : undefined,
         max_views: maxViews,
+        allow_data_export: supportsDataExport && allowDataExport,
       })
 
       if (result.success && result.share && result.shareUrl) {
@@ -108,6 +111,7 @@ export function ShareModal({ open, onOpenChange, resourceType, resourceId }: Sha
       setMaxViews(50)
       setPasswordEnabled(false)
       setPassword('')
+      setAllowDataExport(false)
     }, 200)
   }
 
@@ -208,6 +212,20 @@ export function ShareModal({ open, onOpenChange, resourceType, resourceId }: Sha
               )}
             </div>
 
+            {/* Spreadsheet downloads */}
+            {supportsDataExport && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="allowDataExport"
+                  checked={allowDataExport}
+                  onCheckedChange={(checked) => setAllowDataExport(checked === true)}
+                />
+                <Label htmlFor="allowDataExport" className="cursor-pointer">
+                  Allow CSV/Excel download of checks and pages
+                </Label>
+              </div>
+            )}
+
             {error && <p className="text-destructive text-sm">{error}</p>}
 
             <Button
@@ -257,6 +275,11 @@ export function ShareModal({ open, onOpenChange, resourceType, resourceId }: Sha
                   <Lock className="h-3 w-3" /> Password protected
                 </p>
               )}
+              {createdShare.share.allow_data_export && (
+                <p className="flex items-center gap-1">
+                  <FileSpreadsheet className="h-3 w-3" /> Spreadsheet downloads allowed
+                </p>
+              )}
             </div>
 
             <Button onClick={handleClose} variant="outline" className="w-full">
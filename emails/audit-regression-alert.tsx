@@ -0,0 +1,107 @@
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Preview,
+  Section,
+  Text,
+  Tailwind,
+} from '@react-email/components'
+
+interface ScoreDropSummary {
+  label: string
+  previous: number
+  current: number
+}
+
+interface CriticalFailureSummary {
+  displayName: string
+  pageCount: number
+  siteWide: boolean
+}
+
+interface AuditRegressionAlertProps {
+  orgName: string
+  siteUrl: string
+  comparisonLink: string
+  scoreDrops: ScoreDropSummary[]
+  criticalFailures: CriticalFailureSummary[]
+}
+
+export default function AuditRegressionAlert({
+  orgName = 'Acme Corp',
+  siteUrl = 'https://acme.com',
+  comparisonLink = 'https://app.selo.io',
+  scoreDrops = [{ label: 'Overall', previous: 82, current: 71 }],
+  criticalFailures = [{ displayName: 'Missing Title', pageCount: 4, siteWide: false }],
+}: AuditRegressionAlertProps) {
+  const previewText = `Audit regression detected for ${orgName}`
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Tailwind>
+        <Body className="bg-neutral-50 font-sans">
+          <Container className="mx-auto max-w-xl bg-white p-8">
+            <Heading className="text-xl font-semibold text-neutral-900">
+              Audit Regression Alert
+            </Heading>
+
+            <Section className="mt-4">
+              <Text className="text-sm text-neutral-700">
+                The latest weekly audit of {siteUrl} for {orgName} is worse than the previous one.
+              </Text>
+            </Section>
+
+            {scoreDrops.length > 0 && (
+              <Section className="mt-4 rounded-lg bg-neutral-50 p-4">
+                <Text className="m-0 text-sm font-medium text-neutral-900">Score drops</Text>
+                {scoreDrops.map((drop) => (
+                  <Text key={drop.label} className="my-1 text-sm text-neutral-600">
+                    {drop.label}: {drop.previous} → {drop.current} ({drop.current - drop.previous})
+                  </Text>
+                ))}
+              </Section>
+            )}
+
+            {criticalFailures.length > 0 && (
+              <Section className="mt-4 rounded-lg bg-neutral-50 p-4">
+                <Text className="m-0 text-sm font-medium text-neutral-900">
+                  New critical failures
+                </Text>
+                {criticalFailures.map((failure) => (
+                  <Text key={failure.displayName} className="my-1 text-sm text-neutral-600">
+                    {failure.displayName} —{' '}
+                    {failure.siteWide
+                      ? 'site-wide'
+                      : `${failure.pageCount} page${failure.pageCount === 1 ? '' : 's'}`}
+                  </Text>
+                ))}
+              </Section>
+            )}
+
+            <Section className="mt-6 text-center">
+              <Button
+                href={comparisonLink}
+                className="rounded-md bg-neutral-900 px-5 py-3 text-sm font-medium text-white"
+              >
+                Compare Audits
+              </Button>
+            </Section>
+
+            <Section className="mt-6 border-t border-neutral-200 pt-4">
+              <Text className="text-xs text-neutral-400">
+                This is an automated alert from Selo IO. To change alert rules, visit the Monitoring
+                settings for this organization.
+              </Text>
+            </Section>
+          </Container>
+        </Body>
+      </Tailwind>
+    </Html>
+  )
+}
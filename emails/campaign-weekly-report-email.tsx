@@ -0,0 +1,136 @@
+import {
+  Body,
+  Button,
+  Column,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Preview,
+  Row,
+  Section,
+  Text,
+  Tailwind,
+} from '@react-email/components'
+
+export interface CampaignReportMetric {
+  label: string
+  value: string
+  /** Formatted change vs the prior week, e.g. '+12.4%'; null when there is no comparison */
+  delta: string | null
+  direction: 'up' | 'down' | 'flat'
+}
+
+interface CampaignWeeklyReportEmailProps {
+  organizationName: string
+  campaignName: string
+  statusLabel: string
+  weekStartDate: string
+  /** e.g. '12 days remaining' or 'Ended Apr 30' */
+  scheduleLabel: string
+  /** Empty when GA isn't connected or the campaign has no utm_campaign */
+  metrics: CampaignReportMetric[]
+  campaignLink: string
+}
+
+const DELTA_COLORS: Record<CampaignReportMetric['direction'], string> = {
+  up: 'text-emerald-600',
+  down: 'text-red-600',
+  flat: 'text-neutral-500',
+}
+
+export default function CampaignWeeklyReportEmail({
+  organizationName = 'Acme Corp',
+  campaignName = 'Spring Launch',
+  statusLabel = 'Active',
+  weekStartDate = 'Apr 6',
+  scheduleLabel = '12 days remaining',
+  metrics = [
+    { label: 'Sessions', value: '1,240', delta: '+14.2%', direction: 'up' },
+    { label: 'Conversions', value: '31', delta: '-3.1%', direction: 'down' },
+  ],
+  campaignLink = 'https://app.selo.io/dashboard/campaigns/example',
+}: CampaignWeeklyReportEmailProps) {
+  return (
+    <Html>
+      <Head />
+      <Preview>
+        {campaignName} weekly report for the week of {weekStartDate}
+      </Preview>
+      <Tailwind>
+        <Body className="bg-neutral-50 font-sans">
+          <Container className="mx-auto max-w-xl bg-white p-8">
+            <Heading className="text-xl font-semibold text-neutral-900">{campaignName}</Heading>
+            <Text className="mt-0 text-sm text-neutral-600">
+              {organizationName} • Week of {weekStartDate}
+            </Text>
+
+            <Section className="mt-4 rounded-lg bg-neutral-50 p-4">
+              <Row>
+                <Column>
+                  <Text className="my-1 text-sm text-neutral-600">Status</Text>
+                </Column>
+                <Column align="right">
+                  <Text className="my-1 text-sm font-medium text-neutral-900">{statusLabel}</Text>
+                </Column>
+              </Row>
+              <Row>
+                <Column>
+                  <Text className="my-1 text-sm text-neutral-600">Schedule</Text>
+                </Column>
+                <Column align="right">
+                  <Text className="my-1 text-sm font-medium text-neutral-900">{scheduleLabel}</Text>
+                </Column>
+              </Row>
+            </Section>
+
+            {metrics.length > 0 ? (
+              <Section className="mt-4 rounded-lg bg-neutral-50 p-4">
+                {metrics.map((metric) => (
+                  <Row key={metric.label}>
+                    <Column>
+                      <Text className="my-1 text-sm text-neutral-600">{metric.label}</Text>
+                    </Column>
+                    <Column align="right">
+                      <Text className="my-1 text-sm font-medium text-neutral-900">
+                        {metric.value}
+                        {metric.delta && (
+                          <span className={`ml-2 ${DELTA_COLORS[metric.direction]}`}>
+                            {metric.delta}
+                          </span>
+                        )}
+                      </Text>
+                    </Column>
+                  </Row>
+                ))}
+                <Text className="mt-2 mb-0 text-xs text-neutral-500">
+                  Google Analytics traffic tagged with this campaign&apos;s UTM parameters. Changes
+                  shown vs the prior week.
+                </Text>
+              </Section>
+            ) : (
+              <Text className="mt-4 text-sm text-neutral-700">
+                Traffic metrics aren&apos;t available for this campaign. Connect Google Analytics
+                and set a utm_campaign value to include them.
+              </Text>
+            )}
+
+            <Section className="mt-6">
+              <Button
+                href={campaignLink}
+                className="rounded-md bg-neutral-900 px-6 py-3 font-medium text-white"
+              >
+                View Campaign
+              </Button>
+            </Section>
+
+            <Text className="mt-6 text-xs text-neutral-400">
+              You&apos;re receiving this because you&apos;re on this campaign&apos;s weekly report
+              list.
+            </Text>
+          </Container>
+        </Body>
+      </Tailwind>
+    </Html>
+  )
+}
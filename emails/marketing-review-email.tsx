@@ -0,0 +1,113 @@
+import {
+  Body,
+  Button,
+  Column,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Preview,
+  Row,
+  Section,
+  Text,
+  Tailwind,
+} from '@react-email/components'
+
+export interface ReviewEmailMetric {
+  label: string
+  value: string
+  /** Formatted change vs the previous period, e.g. '+12.4%'; null when there is no comparison */
+  delta: string | null
+  direction: 'up' | 'down' | 'flat'
+}
+
+interface MarketingReviewEmailProps {
+  organizationName: string
+  reviewTitle: string
+  periodLabel: string
+  /** e.g. 'vs previous quarter' */
+  comparisonLabel: string
+  metrics: ReviewEmailMetric[]
+  shareUrl: string
+  expiresOn: string
+}
+
+const DELTA_COLORS: Record<ReviewEmailMetric['direction'], string> = {
+  up: 'text-emerald-600',
+  down: 'text-red-600',
+  flat: 'text-neutral-500',
+}
+
+export default function MarketingReviewEmail({
+  organizationName = 'Acme Corp',
+  reviewTitle = 'Acme Corp Q1 2026 Review',
+  periodLabel = 'Q1 2026',
+  comparisonLabel = 'vs previous quarter',
+  metrics = [
+    { label: 'Sessions', value: '12,480', delta: '+14.2%', direction: 'up' },
+    { label: 'Impressions', value: '48,210', delta: '-3.1%', direction: 'down' },
+  ],
+  shareUrl = 'https://app.selo.io/s/example',
+  expiresOn = 'July 1, 2026',
+}: MarketingReviewEmailProps) {
+  return (
+    <Html>
+      <Head />
+      <Preview>
+        {organizationName} performance review for {periodLabel} is ready
+      </Preview>
+      <Tailwind>
+        <Body className="bg-neutral-50 font-sans">
+          <Container className="mx-auto max-w-xl bg-white p-8">
+            <Heading className="text-xl font-semibold text-neutral-900">{reviewTitle}</Heading>
+
+            <Section className="mt-4">
+              <Text className="text-sm text-neutral-700">
+                The {periodLabel} performance review for {organizationName} has been published. Here
+                are the headline numbers:
+              </Text>
+            </Section>
+
+            {metrics.length > 0 && (
+              <Section className="mt-4 rounded-lg bg-neutral-50 p-4">
+                {metrics.map((metric) => (
+                  <Row key={metric.label}>
+                    <Column>
+                      <Text className="my-1 text-sm text-neutral-600">{metric.label}</Text>
+                    </Column>
+                    <Column align="right">
+                      <Text className="my-1 text-sm font-medium text-neutral-900">
+                        {metric.value}
+                        {metric.delta && (
+                          <span className={`ml-2 ${DELTA_COLORS[metric.direction]}`}>
+                            {metric.delta}
+                          </span>
+                        )}
+                      </Text>
+                    </Column>
+                  </Row>
+                ))}
+                <Text className="mt-2 mb-0 text-xs text-neutral-500">
+                  Changes shown {comparisonLabel}.
+                </Text>
+              </Section>
+            )}
+
+            <Section className="mt-6">
+              <Button
+                href={shareUrl}
+                className="rounded-md bg-neutral-900 px-6 py-3 font-medium text-white"
+              >
+                View the full review
+              </Button>
+            </Section>
+
+            <Text className="mt-6 text-xs text-neutral-400">
+              This link expires on {expiresOn}. Reply to this email if you need a new one.
+            </Text>
+          </Container>
+        </Body>
+      </Tailwind>
+    </Html>
+  )
+}
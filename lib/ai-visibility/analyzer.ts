@@ -137,6 +137,8 @@ export function detectCompetitors(
 }
 
 export interface OrgContext {
+  /** Used to resolve the organization's AI billing model for sentiment and insight calls */
+  organizationId?: string | null
   brandName: string
   domain: string
   aliases?: string[]
@@ -174,7 +176,11 @@ export async function analyzeResponse(
   let sentiment: BrandSentiment = BrandSentiment.Neutral
   let sentimentCostCents = 0
   if (mention.mentioned) {
-    const sentimentResult = await analyzeSentiment(response.text, context.brandName)
+    const sentimentResult = await analyzeSentiment(
+      response.text,
+      context.brandName,
+      context.organizationId
+    )
     sentiment = sentimentResult.sentiment
     sentimentCostCents = sentimentResult.costCents
   }
@@ -1,13 +1,56 @@
 import { createServiceClient } from '@/lib/supabase/server'
 import { UsageFeature } from '@/lib/enums'
+import type { AIPlatform } from '@/lib/enums'
+import { PLATFORM_COSTS } from './platforms/types'
 
 /**
  * Check if sync can continue given current spend vs budget.
+ * When the cost of the next batch of queries is known, it must also fit in the remaining budget.
  * Budget of 0 means unlimited.
  */
-export function canContinueSync(currentSpendCents: number, budgetCents: number): boolean {
+export function canContinueSync(
+  currentSpendCents: number,
+  budgetCents: number,
+  projectedCostCents = 0
+): boolean {
   if (budgetCents === 0) return true
-  return currentSpendCents < budgetCents
+  if (currentSpendCents >= budgetCents) return false
+  return currentSpendCents + projectedCostCents <= budgetCents
+}
+
+interface PromptCostInput {
+  spentCents: number
+  queriesCompleted: number
+  platforms: AIPlatform[]
+  sampleCount: number
+}
+
+// Typical prompt and answer size, used to price queries before any has completed
+const TYPICAL_INPUT_TOKENS = 500
+const TYPICAL_OUTPUT_TOKENS = 1500
+
+function typicalQueryCostCents(platform: AIPlatform): number {
+  const costs = PLATFORM_COSTS[platform]
+  const dollars =
+    (TYPICAL_INPUT_TOKENS / 1_000_000) * costs.inputPerMillionTokens +
+    (TYPICAL_OUTPUT_TOKENS / 1_000_000) * costs.outputPerMillionTokens +
+    (costs.perQuery ?? 0)
+  return dollars * 100
+}
+
+/**
+ * Project the cost of syncing one more prompt. Each prompt is queried `sampleCount`
+ * times on every platform, so the average cost per query observed so far is multiplied
+ * accordingly. Before any query has completed, each platform's list price for a
+ * typical query stands in for the observed average.
+ */
+export function estimatePromptCostCents(input: PromptCostInput): number {
+  const { spentCents, queriesCompleted, platforms, sampleCount } = input
+  if (queriesCompleted === 0) {
+    const perRound = platforms.reduce((sum, p) => sum + typicalQueryCostCents(p), 0)
+    return perRound * sampleCount
+  }
+  return (spentCents / queriesCompleted) * platforms.length * sampleCount
 }
 
 interface ThresholdInput {
@@ -1,6 +1,7 @@
 import type { OrgContext } from './analyzer'
 
 interface OrgContextInput {
+  organizationId: string
   orgName: string
   websiteUrl: string | null
   competitors: { name: string; domain: string }[]
@@ -27,6 +28,7 @@ export function buildOrgContext(input: OrgContextInput): OrgContext {
   }
 
   return {
+    organizationId: input.organizationId,
     brandName: input.orgName,
     domain: parseDomain(input.websiteUrl),
     competitors: competitorNames,
@@ -83,7 +83,7 @@ export async function generateInsight(
   context: OrgContext
 ): Promise<{ insight: string; costCents: number } | null> {
   try {
-    const anthropic = await getAnthropicProvider()
+    const anthropic = await getAnthropicProvider(context.organizationId)
     const prompt = buildInsightPrompt(responseText, analysis, context)
 
     const result = await generateText({
@@ -7,10 +7,15 @@ import { AI_MODELS } from '../models'
 
 export class ChatGPTAdapter implements AIProviderAdapter {
   platform = AIPlatform.ChatGPT
+  private organizationId: string | null
+
+  constructor(organizationId: string | null = null) {
+    this.organizationId = organizationId
+  }
 
   async query(prompt: string): Promise<AIProviderResponse> {
     try {
-      const openai = await getOpenAIProvider()
+      const openai = await getOpenAIProvider(this.organizationId)
       const { text, usage } = await generateText({
         model: openai(AI_MODELS.chatgpt),
         prompt,
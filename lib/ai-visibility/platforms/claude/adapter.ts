@@ -7,10 +7,15 @@ import { AI_MODELS } from '../models'
 
 export class ClaudeAdapter implements AIProviderAdapter {
   platform = AIPlatform.Claude
+  private organizationId: string | null
+
+  constructor(organizationId: string | null = null) {
+    this.organizationId = organizationId
+  }
 
   async query(prompt: string): Promise<AIProviderResponse> {
     try {
-      const anthropic = await getAnthropicProvider()
+      const anthropic = await getAnthropicProvider(this.organizationId)
       const { text, usage } = await generateText({
         model: anthropic(AI_MODELS.claude),
         prompt,
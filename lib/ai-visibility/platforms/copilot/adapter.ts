@@ -0,0 +1,45 @@
+import { AIPlatform } from '@/lib/enums'
+import type { AIProviderAdapter, AIProviderResponse } from '../types'
+import { estimateCostCents } from '../types'
+import { AI_MODELS } from '../models'
+import {
+  flattenTextBlocks,
+  getReferenceLinks,
+  searchSerpApi,
+  type SerpApiReference,
+  type SerpApiTextBlock,
+} from '../serpapi/client'
+
+interface BingCopilotResponse {
+  header?: string
+  text_blocks?: SerpApiTextBlock[]
+  references?: SerpApiReference[]
+}
+
+/**
+ * Microsoft Copilot has no public answer API, so answers are fetched through
+ * SerpApi's Bing Copilot engine.
+ */
+export class CopilotAdapter implements AIProviderAdapter {
+  platform = AIPlatform.Copilot
+
+  async query(prompt: string): Promise<AIProviderResponse> {
+    try {
+      const data = await searchSerpApi<BingCopilotResponse>({ engine: 'bing_copilot', q: prompt })
+      const body = flattenTextBlocks(data.text_blocks)
+
+      return {
+        text: [data.header, body].filter(Boolean).join('\n'),
+        citations: getReferenceLinks(data.references),
+        model: AI_MODELS.copilot,
+        inputTokens: 0,
+        outputTokens: 0,
+        costCents: estimateCostCents(AIPlatform.Copilot, 0, 0),
+      }
+    } catch (error) {
+      throw new Error(
+        `Copilot query failed: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+}
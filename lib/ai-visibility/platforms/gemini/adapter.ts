@@ -0,0 +1,85 @@
+import { getAppCredential } from '@/lib/app-settings/credentials'
+import { AIPlatform } from '@/lib/enums'
+import type { AIProviderAdapter, AIProviderResponse } from '../types'
+import { estimateCostCents } from '../types'
+import { AI_MODELS } from '../models'
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models'
+const QUERY_TIMEOUT_MS = 60000
+
+interface GeminiGroundingChunk {
+  web?: { uri?: string; title?: string }
+}
+
+interface GeminiResponse {
+  candidates?: {
+    content?: { parts?: { text?: string }[] }
+    groundingMetadata?: { groundingChunks?: GeminiGroundingChunk[] }
+  }[]
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number }
+}
+
+/**
+ * Grounding chunks point at opaque vertexaisearch redirect URLs; the chunk title
+ * carries the source domain, which is what citation matching needs.
+ */
+function toCitationUrl(chunk: GeminiGroundingChunk): string | null {
+  const uri = chunk.web?.uri
+  const title = chunk.web?.title?.trim()
+  if (!uri) return null
+  if (uri.includes('grounding-api-redirect') && title && /^[\w-]+(\.[\w-]+)+$/.test(title)) {
+    return `https://${title}`
+  }
+  return uri
+}
+
+export class GeminiAdapter implements AIProviderAdapter {
+  platform = AIPlatform.Gemini
+
+  async query(prompt: string): Promise<AIProviderResponse> {
+    try {
+      const apiKey = await getAppCredential('gemini')
+      if (!apiKey) {
+        throw new Error('Gemini API key not configured. Set it in App Settings > Integrations.')
+      }
+
+      // Ground answers in Google Search so responses reflect what Gemini users see
+      const res = await fetch(`${GEMINI_API_URL}/${AI_MODELS.gemini}:generateContent`, {
+        method: 'POST',
+        headers: { 'x-goog-api-key': apiKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{ role: 'user', parts: [{ text: prompt }] }],
+          tools: [{ google_search: {} }],
+        }),
+        signal: AbortSignal.timeout(QUERY_TIMEOUT_MS),
+      })
+      if (!res.ok) {
+        const body = await res.text()
+        throw new Error(`API returned ${res.status}: ${body.slice(0, 200)}`)
+      }
+
+      const data = (await res.json()) as GeminiResponse
+      const candidate = data.candidates?.[0]
+      const text = (candidate?.content?.parts ?? []).map((p) => p.text ?? '').join('')
+      const citations = (candidate?.groundingMetadata?.groundingChunks ?? [])
+        .map(toCitationUrl)
+        .filter((url): url is string => Boolean(url))
+
+      const inputTokens = data.usageMetadata?.promptTokenCount ?? 0
+      const outputTokens = data.usageMetadata?.candidatesTokenCount ?? 0
+
+      return {
+        text,
+        citations: Array.from(new Set(citations)),
+        model: AI_MODELS.gemini,
+        inputTokens,
+        outputTokens,
+        costCents: estimateCostCents(AIPlatform.Gemini, inputTokens, outputTokens),
+      }
+    } catch (error) {
+      throw new Error(
+        `Gemini query failed: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { AIPlatform } from '@/lib/enums'
+import type { AIProviderAdapter, AIProviderResponse } from '../types'
+import { estimateCostCents } from '../types'
+import { AI_MODELS } from '../models'
+import {
+  flattenTextBlocks,
+  getReferenceLinks,
+  searchSerpApi,
+  type SerpApiReference,
+  type SerpApiTextBlock,
+} from '../serpapi/client'
+
+interface AIOverview {
+  text_blocks?: SerpApiTextBlock[]
+  references?: SerpApiReference[]
+  /** Set when the overview loads asynchronously and needs a follow-up request */
+  page_token?: string
+}
+
+interface GoogleSearchResponse {
+  ai_overview?: AIOverview
+}
+
+export class GoogleAIOverviewsAdapter implements AIProviderAdapter {
+  platform = AIPlatform.GoogleAIOverviews
+
+  async query(prompt: string): Promise<AIProviderResponse> {
+    try {
+      const search = await searchSerpApi<GoogleSearchResponse>({ engine: 'google', q: prompt })
+      let overview = search.ai_overview
+      let searches = 1
+
+      if (overview?.page_token && !overview.text_blocks) {
+        const followUp = await searchSerpApi<GoogleSearchResponse>({
+          engine: 'google_ai_overview',
+          page_token: overview.page_token,
+        })
+        overview = followUp.ai_overview
+        searches++
+      }
+
+      // Google doesn't show an overview for every query; that's a valid "not mentioned" result
+      return {
+        text: flattenTextBlocks(overview?.text_blocks),
+        citations: getReferenceLinks(overview?.references),
+        model: AI_MODELS.googleAIOverviews,
+        inputTokens: 0,
+        outputTokens: 0,
+        costCents: estimateCostCents(AIPlatform.GoogleAIOverviews, 0, 0) * searches,
+      }
+    } catch (error) {
+      throw new Error(
+        `Google AI Overviews query failed: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+}
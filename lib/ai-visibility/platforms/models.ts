@@ -6,6 +6,10 @@ export const AI_MODELS = {
   chatgpt: 'gpt-4o-mini',
   claude: 'claude-sonnet-4-20250514',
   perplexity: 'sonar',
+  gemini: 'gemini-2.5-flash',
+  /** SerpApi engines; these surfaces don't expose the underlying model */
+  googleAIOverviews: 'google-ai-overview',
+  copilot: 'bing-copilot',
   /** Used for sentiment analysis and insight generation */
   haiku: 'claude-haiku-4-5-20251001',
 } as const
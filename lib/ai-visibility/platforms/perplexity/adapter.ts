@@ -12,10 +12,15 @@ interface PerplexitySource {
 
 export class PerplexityAdapter implements AIProviderAdapter {
   platform = AIPlatform.Perplexity
+  private organizationId: string | null
+
+  constructor(organizationId: string | null = null) {
+    this.organizationId = organizationId
+  }
 
   async query(prompt: string): Promise<AIProviderResponse> {
     try {
-      const perplexity = await getPerplexityProvider()
+      const perplexity = await getPerplexityProvider(this.organizationId)
       const result = await generateText({
         model: perplexity(AI_MODELS.perplexity),
         prompt,
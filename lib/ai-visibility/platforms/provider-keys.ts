@@ -1,37 +1,74 @@
 import { AIPlatform } from '@/lib/enums'
 import { getAppCredential } from '@/lib/app-settings/credentials'
+import { resolveAICredential, type AIProviderKey } from '@/lib/ai/provider'
 import { ALL_PLATFORMS } from '@/lib/ai-visibility/types'
 
 /**
  * Map AI platform enum to the provider key used in usage logging.
- * ChatGPT uses the 'openai' provider key; others match their enum value.
+ * ChatGPT uses the 'openai' provider key; Google AI Overviews and Copilot are
+ * both queried through SerpApi; others match their enum value.
  */
 export const PLATFORM_PROVIDER_KEYS: Record<AIPlatform, string> = {
   [AIPlatform.ChatGPT]: 'openai',
   [AIPlatform.Claude]: 'anthropic',
   [AIPlatform.Perplexity]: 'perplexity',
+  [AIPlatform.Gemini]: 'gemini',
+  [AIPlatform.GoogleAIOverviews]: 'serpapi',
+  [AIPlatform.Copilot]: 'serpapi',
 }
 
 /**
  * Map AI platform enum to the credential key used in getAppCredential().
- * Claude uses the 'anthropic' credential; ChatGPT uses 'openai'.
+ * Claude uses the 'anthropic' credential; ChatGPT uses 'openai'; the search-engine
+ * answer platforms (Google AI Overviews, Copilot) share the 'serpapi' credential.
  */
 export const PLATFORM_CREDENTIAL_KEYS: Record<AIPlatform, string> = {
   [AIPlatform.ChatGPT]: 'openai',
   [AIPlatform.Claude]: 'anthropic',
   [AIPlatform.Perplexity]: 'perplexity',
+  [AIPlatform.Gemini]: 'gemini',
+  [AIPlatform.GoogleAIOverviews]: 'serpapi',
+  [AIPlatform.Copilot]: 'serpapi',
+}
+
+// Platforms whose adapters resolve their key through the organization's AI billing model
+const ORGANIZATION_BILLED_KEYS = new Set<string>(['anthropic', 'openai', 'perplexity'])
+
+/**
+ * Whether a platform can be queried for the organization. Anthropic, OpenAI
+ * and Perplexity follow the organization's billing model, so a
+ * bring-your-own-key organization can use them without an app credential;
+ * the rest need the app credential (DB or env var).
+ */
+export async function hasPlatformCredential(
+  platform: AIPlatform,
+  organizationId?: string | null
+): Promise<boolean> {
+  const credKey = PLATFORM_CREDENTIAL_KEYS[platform]
+  if (!ORGANIZATION_BILLED_KEYS.has(credKey)) {
+    return !!(await getAppCredential(credKey))
+  }
+  try {
+    await resolveAICredential(credKey as AIProviderKey, organizationId)
+    return true
+  } catch {
+    return false
+  }
 }
 
 /**
- * Check which AI platforms have credentials configured (DB or env var).
+ * Check which AI platforms have credentials configured for the organization.
  * Returns the list of platforms that are ready to use.
  */
-export async function getAvailablePlatforms(): Promise<AIPlatform[]> {
+export async function getAvailablePlatforms(
+  organizationId?: string | null,
+  platforms: AIPlatform[] = ALL_PLATFORMS
+): Promise<AIPlatform[]> {
   const checks = await Promise.all(
-    ALL_PLATFORMS.map(async (platform) => {
-      const credential = await getAppCredential(PLATFORM_CREDENTIAL_KEYS[platform])
-      return { platform, available: !!credential }
-    })
+    platforms.map(async (platform) => ({
+      platform,
+      available: await hasPlatformCredential(platform, organizationId),
+    }))
   )
   return checks.filter((c) => c.available).map((c) => c.platform)
 }
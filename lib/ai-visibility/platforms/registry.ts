@@ -3,21 +3,37 @@ import type { AIProviderAdapter } from './types'
 import { ChatGPTAdapter } from './chatgpt/adapter'
 import { ClaudeAdapter } from './claude/adapter'
 import { PerplexityAdapter } from './perplexity/adapter'
+import { GeminiAdapter } from './gemini/adapter'
+import { GoogleAIOverviewsAdapter } from './google-ai-overviews/adapter'
+import { CopilotAdapter } from './copilot/adapter'
 
-const adapters: Record<AIPlatform, () => AIProviderAdapter> = {
-  [AIPlatform.ChatGPT]: () => new ChatGPTAdapter(),
-  [AIPlatform.Claude]: () => new ClaudeAdapter(),
-  [AIPlatform.Perplexity]: () => new PerplexityAdapter(),
+const adapters: Record<AIPlatform, (organizationId: string | null) => AIProviderAdapter> = {
+  [AIPlatform.ChatGPT]: (organizationId) => new ChatGPTAdapter(organizationId),
+  [AIPlatform.Claude]: (organizationId) => new ClaudeAdapter(organizationId),
+  [AIPlatform.Perplexity]: (organizationId) => new PerplexityAdapter(organizationId),
+  [AIPlatform.Gemini]: () => new GeminiAdapter(),
+  [AIPlatform.GoogleAIOverviews]: () => new GoogleAIOverviewsAdapter(),
+  [AIPlatform.Copilot]: () => new CopilotAdapter(),
 }
 
-export function getAdapter(platform: AIPlatform): AIProviderAdapter {
+/**
+ * Adapter for a platform. Pass the organization being queried for so
+ * LLM-backed adapters use its AI billing model.
+ */
+export function getAdapter(
+  platform: AIPlatform,
+  organizationId: string | null = null
+): AIProviderAdapter {
   const factory = adapters[platform]
   if (!factory) {
     throw new Error(`No adapter for platform: ${platform}`)
   }
-  return factory()
+  return factory(organizationId)
 }
 
-export function getAdapters(platforms: AIPlatform[]): AIProviderAdapter[] {
-  return platforms.map(getAdapter)
+export function getAdapters(
+  platforms: AIPlatform[],
+  organizationId: string | null = null
+): AIProviderAdapter[] {
+  return platforms.map((platform) => getAdapter(platform, organizationId))
 }
@@ -0,0 +1,71 @@
+import { getAppCredential } from '@/lib/app-settings/credentials'
+
+const SERPAPI_URL = 'https://serpapi.com/search.json'
+const QUERY_TIMEOUT_MS = 60000
+
+/**
+ * A block of generated answer text as returned by SerpApi's AI answer engines
+ * (Google AI Overviews, Bing Copilot). Lists and expandable sections nest blocks.
+ */
+export interface SerpApiTextBlock {
+  type?: string
+  title?: string
+  snippet?: string
+  list?: SerpApiTextBlock[]
+  items?: SerpApiTextBlock[]
+  text_blocks?: SerpApiTextBlock[]
+}
+
+export interface SerpApiReference {
+  title?: string
+  link?: string
+  source?: string
+}
+
+/**
+ * Run a SerpApi search and return the parsed JSON body.
+ * Throws when the key is missing, the request fails, or SerpApi reports an error.
+ */
+export async function searchSerpApi<T>(params: Record<string, string>): Promise<T> {
+  const apiKey = await getAppCredential('serpapi')
+  if (!apiKey) {
+    throw new Error('SerpApi API key not configured. Set it in App Settings > Integrations.')
+  }
+
+  const url = `${SERPAPI_URL}?${new URLSearchParams({ ...params, api_key: apiKey })}`
+  const res = await fetch(url, { signal: AbortSignal.timeout(QUERY_TIMEOUT_MS) })
+  const data = (await res.json().catch(() => null)) as (T & { error?: string }) | null
+
+  if (!res.ok || !data) {
+    throw new Error(`API returned ${res.status}${data?.error ? `: ${data.error}` : ''}`)
+  }
+  if (data.error) throw new Error(data.error)
+
+  return data
+}
+
+/**
+ * Flatten answer text blocks into plain text, one block per line.
+ */
+export function flattenTextBlocks(blocks: SerpApiTextBlock[] | undefined): string {
+  const lines: string[] = []
+
+  const visit = (block: SerpApiTextBlock, prefix = '') => {
+    const text = [block.title, block.snippet].filter(Boolean).join(': ')
+    if (text) lines.push(`${prefix}${text}`)
+    for (const child of block.list ?? block.items ?? []) visit(child, '- ')
+    for (const child of block.text_blocks ?? []) visit(child)
+  }
+
+  for (const block of blocks ?? []) visit(block)
+  return lines.join('\n')
+}
+
+/**
+ * Unique reference links, in the order the answer cites them.
+ */
+export function getReferenceLinks(references: SerpApiReference[] | undefined): string[] {
+  return Array.from(
+    new Set((references ?? []).map((r) => r.link).filter((link): link is string => Boolean(link)))
+  )
+}
@@ -33,6 +33,7 @@ export interface AIProviderResponse {
 interface PlatformCost {
   inputPerMillionTokens: number // USD
   outputPerMillionTokens: number // USD
+  perQuery?: number // USD, for platforms billed per search rather than per token
 }
 
 export const PLATFORM_COSTS: Record<AIPlatform, PlatformCost> = {
@@ -48,10 +49,24 @@ export const PLATFORM_COSTS: Record<AIPlatform, PlatformCost> = {
     inputPerMillionTokens: 1, // Sonar
     outputPerMillionTokens: 1,
   },
+  [AIPlatform.Gemini]: {
+    inputPerMillionTokens: 0.3, // Gemini 2.5 Flash
+    outputPerMillionTokens: 2.5,
+  },
+  [AIPlatform.GoogleAIOverviews]: {
+    inputPerMillionTokens: 0,
+    outputPerMillionTokens: 0,
+    perQuery: 0.015, // SerpApi search
+  },
+  [AIPlatform.Copilot]: {
+    inputPerMillionTokens: 0,
+    outputPerMillionTokens: 0,
+    perQuery: 0.015, // SerpApi search
+  },
 }
 
 /**
- * Estimate cost in cents from token counts for a given platform.
+ * Estimate cost in cents from token counts (plus any per-query fee) for a given platform.
  */
 export function estimateCostCents(
   platform: AIPlatform,
@@ -61,6 +76,7 @@ export function estimateCostCents(
   const costs = PLATFORM_COSTS[platform]
   const dollars =
     (inputTokens / 1_000_000) * costs.inputPerMillionTokens +
-    (outputTokens / 1_000_000) * costs.outputPerMillionTokens
+    (outputTokens / 1_000_000) * costs.outputPerMillionTokens +
+    (costs.perQuery ?? 0)
   return Math.round(dollars * 100)
 }
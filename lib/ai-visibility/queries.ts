@@ -5,6 +5,7 @@ import type {
   AIVisibilityTopic,
   AIVisibilityPrompt,
   AIVisibilityResult,
+  ShareOfVoice,
 } from './types'
 
 // =============================================================================
@@ -19,6 +20,11 @@ export interface ScoreHistoryPoint {
   created_at: string
 }
 
+export interface ShareOfVoiceHistoryPoint {
+  share_of_voice: ShareOfVoice | null
+  created_at: string
+}
+
 export interface PromptWithResults extends AIVisibilityPrompt {
   results: AIVisibilityResult[]
 }
@@ -109,6 +115,25 @@ export async function getScoreHistory(
   return data ?? []
 }
 
+/**
+ * Most recent share-of-voice snapshots, oldest first for charting.
+ */
+export async function getShareOfVoiceHistory(
+  supabase: SupabaseClient,
+  orgId: string,
+  limit = 30
+): Promise<ShareOfVoiceHistoryPoint[]> {
+  const { data } = await supabase
+    .from('ai_visibility_scores')
+    .select('share_of_voice, created_at')
+    .eq('organization_id', orgId)
+    .not('share_of_voice', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  return (data ?? []).reverse()
+}
+
 export async function getAIVisibilityConfig(
   supabase: SupabaseClient,
   orgId: string
@@ -6,6 +6,7 @@ import { PLATFORM_PROVIDER_KEYS } from './platforms/provider-keys'
 import { analyzeResponse } from './analyzer'
 import { generateInsight } from './insights'
 import { logUsage } from '@/lib/app-settings/usage'
+import { AIDisabledError, isAIDisabledForOrganization } from '@/lib/ai/provider'
 import { UsageFeature } from '@/lib/enums'
 import type { AIPlatform, BrandSentiment } from '@/lib/enums'
 
@@ -20,10 +21,15 @@ export interface PrepareResearchResult {
 /**
  * Prepare a research query: check budget, load config, generate researchId.
  * Returns immediately — actual queries run in the background via API route.
+ * Throws AIDisabledError when the organization's AI billing model is disabled.
  */
 export async function prepareResearch(orgId: string): Promise<PrepareResearchResult> {
   const supabase = createServiceClient()
 
+  if (await isAIDisabledForOrganization(orgId)) {
+    throw new AIDisabledError()
+  }
+
   // Load config
   const { data: config } = await supabase
     .from('ai_visibility_configs')
@@ -64,13 +70,18 @@ export async function executeResearch(
   competitors: { name: string; domain: string }[]
 ): Promise<void> {
   const supabase = createServiceClient()
-  const orgContext = buildOrgContext({ orgName, websiteUrl, competitors })
+  const orgContext = buildOrgContext({
+    organizationId: orgId,
+    orgName,
+    websiteUrl,
+    competitors,
+  })
   const queriedAt = new Date().toISOString()
 
   await Promise.allSettled(
     platforms.map(async (platform) => {
       try {
-        const adapter = getAdapter(platform)
+        const adapter = getAdapter(platform, orgId)
         const response = await adapter.query(promptText)
         const analysis = await analyzeResponse(response, orgContext)
 
@@ -0,0 +1,48 @@
+import type { AIPlatform } from '@/lib/enums'
+import type { SampleAggregate } from './types'
+
+/** Sample counts offered in the config form */
+export const SAMPLE_COUNT_OPTIONS = [1, 3, 5] as const
+export const MAX_SAMPLE_COUNT = 5
+
+interface SampledResult {
+  brand_mentioned: boolean
+  domain_cited: boolean
+}
+
+/**
+ * Aggregate repeated runs of the same prompt into mention and citation probabilities.
+ */
+export function aggregateSamples(results: SampledResult[]): SampleAggregate {
+  const samples = results.length
+  const mentioned = results.filter((r) => r.brand_mentioned).length
+  const cited = results.filter((r) => r.domain_cited).length
+
+  return {
+    samples,
+    mentioned,
+    cited,
+    mention_probability: samples > 0 ? mentioned / samples : 0,
+    citation_probability: samples > 0 ? cited / samples : 0,
+  }
+}
+
+/**
+ * Group a prompt's results by platform, keeping each platform's runs together
+ * (in sample order) alongside their aggregate.
+ */
+export function groupSamplesByPlatform<
+  T extends SampledResult & { platform: AIPlatform; sample_index?: number },
+>(results: T[]): { platform: AIPlatform; results: T[]; aggregate: SampleAggregate }[] {
+  const byPlatform = new Map<AIPlatform, T[]>()
+  for (const result of results) {
+    const group = byPlatform.get(result.platform) ?? []
+    group.push(result)
+    byPlatform.set(result.platform, group)
+  }
+
+  return Array.from(byPlatform, ([platform, group]) => {
+    const sorted = [...group].sort((a, b) => (a.sample_index ?? 0) - (b.sample_index ?? 0))
+    return { platform, results: sorted, aggregate: aggregateSamples(sorted) }
+  })
+}
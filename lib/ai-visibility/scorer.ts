@@ -1,31 +1,70 @@
 import { BrandSentiment } from '@/lib/enums'
 
 interface ScoreInput {
+  /** Responses analyzed (prompts × platforms × samples) */
   totalPrompts: number
   mentionedCount: number
   citedCount: number
   sentiments: BrandSentiment[]
 }
 
+export interface VisibilityScore {
+  score: number
+  /** Bounds of the 95% confidence interval around the score */
+  lower: number
+  upper: number
+  /** Fraction of responses that mention the brand, 0-1 */
+  mentionProbability: number
+  /** Fraction of responses that cite the brand's domain, 0-1 */
+  citationProbability: number
+}
+
 const SENTIMENT_SCORES: Record<BrandSentiment, number> = {
   [BrandSentiment.Positive]: 100,
   [BrandSentiment.Neutral]: 50,
   [BrandSentiment.Negative]: 0,
 }
 
+// z for a two-sided 95% interval
+const Z_95 = 1.96
+
 /**
- * Calculate AI Visibility Score (0-100).
+ * Wilson score interval for a binomial proportion. Unlike the normal approximation
+ * it stays within [0, 1] and behaves well for small samples and rates near 0 or 1.
+ */
+export function wilsonInterval(successes: number, trials: number): [number, number] {
+  if (trials === 0) return [0, 0]
+  const p = successes / trials
+  const z2 = Z_95 * Z_95
+  const denominator = 1 + z2 / trials
+  const center = (p + z2 / (2 * trials)) / denominator
+  const margin =
+    (Z_95 * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator
+  return [Math.max(0, center - margin), Math.min(1, center + margin)]
+}
+
+function clampScore(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)))
+}
+
+/**
+ * Calculate AI Visibility Score (0-100) with a 95% confidence interval.
  *
  * Weighted composite:
  *   mentionRate * 40% + citationRate * 40% + sentimentScore * 20%
+ *
+ * Each sampled response is treated as a Bernoulli trial for mention and citation;
+ * the interval applies the Wilson bounds of both rates with sentiment held fixed.
  */
-export function calculateVisibilityScore(input: ScoreInput): number {
+export function calculateVisibilityScore(input: ScoreInput): VisibilityScore {
   const { totalPrompts, mentionedCount, citedCount, sentiments } = input
 
-  if (totalPrompts === 0) return 0
+  if (totalPrompts === 0) {
+    return { score: 0, lower: 0, upper: 0, mentionProbability: 0, citationProbability: 0 }
+  }
 
-  const mentionRate = (mentionedCount / totalPrompts) * 100
-  const citationRate = (citedCount / totalPrompts) * 100
+  const mentionProbability = mentionedCount / totalPrompts
+  const citationProbability = citedCount / totalPrompts
 
   let sentimentScore = 0
   if (sentiments.length > 0) {
@@ -33,7 +72,17 @@ export function calculateVisibilityScore(input: ScoreInput): number {
     sentimentScore = total / sentiments.length
   }
 
-  const score = mentionRate * 0.4 + citationRate * 0.4 + sentimentScore * 0.2
+  const composite = (mentionRate: number, citationRate: number) =>
+    mentionRate * 100 * 0.4 + citationRate * 100 * 0.4 + sentimentScore * 0.2
+
+  const [mentionLower, mentionUpper] = wilsonInterval(mentionedCount, totalPrompts)
+  const [citationLower, citationUpper] = wilsonInterval(citedCount, totalPrompts)
 
-  return Math.round(Math.min(100, Math.max(0, score)))
+  return {
+    score: clampScore(composite(mentionProbability, citationProbability)),
+    lower: clampScore(composite(mentionLower, citationLower)),
+    upper: clampScore(composite(mentionUpper, citationUpper)),
+    mentionProbability,
+    citationProbability,
+  }
 }
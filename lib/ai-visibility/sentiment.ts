@@ -32,10 +32,11 @@ function parseSentiment(text: string): BrandSentiment {
  */
 export async function analyzeSentiment(
   responseText: string,
-  brandName: string
+  brandName: string,
+  organizationId?: string | null
 ): Promise<SentimentResult> {
   try {
-    const anthropic = await getAnthropicProvider()
+    const anthropic = await getAnthropicProvider(organizationId)
     const { text, usage } = await generateText({
       model: anthropic(AI_MODELS.haiku),
       prompt: `Classify the sentiment toward "${brandName}" in the following text. Reply with exactly one word: positive, neutral, or negative.\n\nText: ${responseText}`,
@@ -62,14 +63,15 @@ export async function analyzeSentiment(
  * Falls back to neutral for all items on error.
  */
 export async function analyzeSentimentBatch(
-  items: { text: string; brandName: string }[]
+  items: { text: string; brandName: string }[],
+  organizationId?: string | null
 ): Promise<BatchSentimentResult> {
   if (items.length === 0) {
     return { sentiments: [], inputTokens: 0, outputTokens: 0, costCents: 0 }
   }
 
   try {
-    const anthropic = await getAnthropicProvider()
+    const anthropic = await getAnthropicProvider(organizationId)
     const itemList = items
       .map((item, i) => `[${i}] Brand: "${item.brandName}"\nText: ${item.text}`)
       .join('\n\n')
@@ -0,0 +1,155 @@
+import type { AIPlatform } from '@/lib/enums'
+import type {
+  CompetitorMention,
+  ShareOfVoice,
+  ShareOfVoiceBreakdown,
+  ShareOfVoiceEntity,
+} from './types'
+
+export interface ShareOfVoiceObservation {
+  platform: AIPlatform
+  brand_mentioned: boolean
+  domain_cited: boolean
+  competitor_mentions: CompetitorMention[] | null
+}
+
+interface EntityTally {
+  mentioned: number
+  cited: number
+  visible: number
+}
+
+export interface ShareOfVoiceTrendPoint {
+  date: string
+  /** Share (0-100) keyed by ShareOfVoiceTrendSeries.key */
+  [seriesKey: string]: string | number
+}
+
+export interface ShareOfVoiceTrendSeries {
+  /** Chart-safe key (entity names can contain spaces and dots) */
+  key: string
+  name: string
+  isBrand: boolean
+}
+
+function emptyTally(): EntityTally {
+  return { mentioned: 0, cited: 0, visible: 0 }
+}
+
+function addObservation(tally: EntityTally, mentioned: boolean, cited: boolean): void {
+  if (mentioned) tally.mentioned++
+  if (cited) tally.cited++
+  if (mentioned || cited) tally.visible++
+}
+
+function summarize(
+  total: number,
+  brandName: string,
+  brand: EntityTally,
+  competitors: Map<string, EntityTally>
+): ShareOfVoiceBreakdown {
+  const toEntity = (name: string, isBrand: boolean, tally: EntityTally): ShareOfVoiceEntity => ({
+    name,
+    is_brand: isBrand,
+    ...tally,
+    share: total > 0 ? tally.visible / total : 0,
+  })
+
+  return {
+    total_responses: total,
+    entities: [
+      toEntity(brandName, true, brand),
+      ...Array.from(competitors, ([name, tally]) => toEntity(name, false, tally)),
+    ],
+  }
+}
+
+/**
+ * Calculate share of voice for a sync period: the fraction of prompt responses in which
+ * the brand and each competitor is mentioned or cited, overall and per platform.
+ */
+export function calculateShareOfVoice(
+  observations: ShareOfVoiceObservation[],
+  brandName: string,
+  competitorNames: string[]
+): ShareOfVoice {
+  const newCompetitorTallies = () => new Map(competitorNames.map((name) => [name, emptyTally()]))
+
+  const brand = emptyTally()
+  const competitors = newCompetitorTallies()
+  const platforms = new Map<
+    AIPlatform,
+    { total: number; brand: EntityTally; competitors: Map<string, EntityTally> }
+  >()
+
+  for (const obs of observations) {
+    let platform = platforms.get(obs.platform)
+    if (!platform) {
+      platform = { total: 0, brand: emptyTally(), competitors: newCompetitorTallies() }
+      platforms.set(obs.platform, platform)
+    }
+    platform.total++
+
+    addObservation(brand, obs.brand_mentioned, obs.domain_cited)
+    addObservation(platform.brand, obs.brand_mentioned, obs.domain_cited)
+
+    for (const mention of obs.competitor_mentions ?? []) {
+      const overall = competitors.get(mention.name)
+      const perPlatform = platform.competitors.get(mention.name)
+      // Ignore mentions of competitors removed from the config since the response was analyzed
+      if (!overall || !perPlatform) continue
+      addObservation(overall, mention.mentioned, mention.cited)
+      addObservation(perPlatform, mention.mentioned, mention.cited)
+    }
+  }
+
+  const platformBreakdowns: ShareOfVoice['platforms'] = {}
+  for (const [name, platform] of platforms) {
+    platformBreakdowns[name] = summarize(
+      platform.total,
+      brandName,
+      platform.brand,
+      platform.competitors
+    )
+  }
+
+  return {
+    ...summarize(observations.length, brandName, brand, competitors),
+    platforms: platformBreakdowns,
+  }
+}
+
+/**
+ * Flatten share-of-voice history into chart rows (share as a 0-100 percentage per entity),
+ * optionally restricted to a single platform. Periods without data for the platform are skipped.
+ */
+export function buildShareOfVoiceTrend(
+  history: { created_at: string; share_of_voice: ShareOfVoice | null }[],
+  platform?: AIPlatform
+): { points: ShareOfVoiceTrendPoint[]; series: ShareOfVoiceTrendSeries[] } {
+  const keysByName = new Map<string, string>()
+  const series: ShareOfVoiceTrendSeries[] = []
+  const points: ShareOfVoiceTrendPoint[] = []
+
+  for (const row of history) {
+    const breakdown = platform ? row.share_of_voice?.platforms[platform] : row.share_of_voice
+    if (!breakdown || breakdown.total_responses === 0) continue
+
+    const point: ShareOfVoiceTrendPoint = { date: row.created_at }
+    for (const entity of breakdown.entities) {
+      let key = keysByName.get(entity.name)
+      if (!key) {
+        key = `entity${keysByName.size}`
+        keysByName.set(entity.name, key)
+        series.push({ key, name: entity.name, isBrand: entity.is_brand })
+      }
+      point[key] = Math.round(entity.share * 1000) / 10
+    }
+    points.push(point)
+  }
+
+  // Brand first so it gets the primary chart color
+  series.sort((a, b) => Number(b.isBrand) - Number(a.isBrand))
+
+  return { points, series }
+}
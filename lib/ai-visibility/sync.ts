@@ -1,13 +1,19 @@
 import { createServiceClient } from '@/lib/supabase/server'
 import { getAdapter } from './platforms/registry'
-import { PLATFORM_PROVIDER_KEYS, PLATFORM_CREDENTIAL_KEYS } from './platforms/provider-keys'
+import { PLATFORM_PROVIDER_KEYS, getAvailablePlatforms } from './platforms/provider-keys'
 import { analyzeResponse } from './analyzer'
 import { buildOrgContext } from './context'
-import { getCurrentMonthSpend, canContinueSync, checkBudgetThresholds } from './budget'
+import {
+  getCurrentMonthSpend,
+  canContinueSync,
+  checkBudgetThresholds,
+  estimatePromptCostCents,
+} from './budget'
 import { sendBudgetAlert } from './alerts'
 import { calculateVisibilityScore } from './scorer'
+import { calculateShareOfVoice, type ShareOfVoiceObservation } from './share-of-voice'
 import { logUsage } from '@/lib/app-settings/usage'
-import { getAppCredential } from '@/lib/app-settings/credentials'
+import { isAIDisabledForOrganization } from '@/lib/ai/provider'
 import { UsageFeature } from '@/lib/enums'
 import type { AIPlatform, BrandSentiment } from '@/lib/enums'
 import type { AIVisibilityConfig } from './types'
@@ -25,11 +31,14 @@ export interface SyncResult {
   budgetExceeded: boolean
   errors: { promptId: string; platform: string; error: string }[]
   skippedPlatforms: AIPlatform[]
+  /** The organization's AI billing model is disabled, so nothing was queried */
+  aiDisabled: boolean
 }
 
 /**
  * Sync AI visibility data for a single organization.
- * Queries each prompt on each platform, analyzes responses, stores results, and calculates score.
+ * Queries each prompt on each platform (`sample_count` times, since answers vary between runs),
+ * analyzes responses, stores results, and calculates score.
  */
 export async function syncOrganization(input: SyncInput): Promise<SyncResult> {
   const { organizationId, orgName, websiteUrl, config } = input
@@ -41,19 +50,17 @@ export async function syncOrganization(input: SyncInput): Promise<SyncResult> {
     budgetExceeded: false,
     errors: [],
     skippedPlatforms: [],
+    aiDisabled: false,
   }
 
-  // Filter to platforms that have credentials configured
-  const credentialChecks = await Promise.all(
-    config.platforms.map(async (platform) => {
-      const credKey = PLATFORM_CREDENTIAL_KEYS[platform]
-      const credential = await getAppCredential(credKey)
-      return { platform, hasCredential: !!credential }
-    })
-  )
+  if (await isAIDisabledForOrganization(organizationId)) {
+    result.aiDisabled = true
+    return result
+  }
 
-  const activePlatforms = credentialChecks.filter((c) => c.hasCredential).map((c) => c.platform)
-  result.skippedPlatforms = credentialChecks.filter((c) => !c.hasCredential).map((c) => c.platform)
+  // Filter to platforms with a credential for this organization (app or its own key)
+  const activePlatforms = await getAvailablePlatforms(organizationId, config.platforms)
+  result.skippedPlatforms = config.platforms.filter((p) => !activePlatforms.includes(p))
 
   if (activePlatforms.length === 0) {
     return result
@@ -86,39 +93,51 @@ export async function syncOrganization(input: SyncInput): Promise<SyncResult> {
   }
 
   const orgContext = buildOrgContext({
+    organizationId,
     orgName,
     websiteUrl,
     competitors: config.competitors,
   })
 
+  const sampleCount = Math.max(1, config.sample_count ?? 1)
   let runningSpend = currentSpend
   const allSentiments: BrandSentiment[] = []
   let mentionedCount = 0
   let citedCount = 0
   const platformBreakdown: Record<string, { mentions: number; citations: number }> = {}
   const allCitedUrls = new Set<string>()
+  const shareOfVoiceObservations: ShareOfVoiceObservation[] = []
   const queriedAt = new Date().toISOString()
 
   for (const prompt of prompts) {
-    if (!canContinueSync(runningSpend, config.monthly_budget_cents)) {
+    // Each prompt costs sampleCount queries per platform, so check the whole batch fits
+    const projectedCost = estimatePromptCostCents({
+      spentCents: result.totalCostCents,
+      queriesCompleted: result.queriesCompleted,
+      platforms: activePlatforms,
+      sampleCount,
+    })
+    if (!canContinueSync(runningSpend, config.monthly_budget_cents, projectedCost)) {
       result.budgetExceeded = true
       break
     }
 
     const platformResults = await Promise.allSettled(
-      activePlatforms.map(async (platform) => {
-        try {
-          const adapter = getAdapter(platform)
-          const response = await adapter.query(prompt.prompt_text)
-          const analysis = await analyzeResponse(response, orgContext)
-
-          const queryCost = response.costCents + analysis.sentiment_cost_cents
-
-          return { platform, response, analysis, queryCost }
-        } catch (err) {
-          throw { platform, error: err }
-        }
-      })
+      activePlatforms.flatMap((platform) =>
+        Array.from({ length: sampleCount }, async (_, sampleIndex) => {
+          try {
+            const adapter = getAdapter(platform, organizationId)
+            const response = await adapter.query(prompt.prompt_text)
+            const analysis = await analyzeResponse(response, orgContext)
+
+            const queryCost = response.costCents + analysis.sentiment_cost_cents
+
+            return { platform, sampleIndex, response, analysis, queryCost }
+          } catch (err) {
+            throw { platform, error: err }
+          }
+        })
+      )
     )
 
     for (const settled of platformResults) {
@@ -144,7 +163,7 @@ export async function syncOrganization(input: SyncInput): Promise<SyncResult> {
         continue
       }
 
-      const { platform, response, analysis, queryCost } = settled.value
+      const { platform, sampleIndex, response, analysis, queryCost } = settled.value
 
       runningSpend += queryCost
       result.totalCostCents += queryCost
@@ -165,6 +184,13 @@ export async function syncOrganization(input: SyncInput): Promise<SyncResult> {
       if (analysis.brand_mentioned) platformBreakdown[platform].mentions++
       if (analysis.domain_cited) platformBreakdown[platform].citations++
 
+      shareOfVoiceObservations.push({
+        platform,
+        brand_mentioned: analysis.brand_mentioned,
+        domain_cited: analysis.domain_cited,
+        competitor_mentions: analysis.competitor_mentions,
+      })
+
       const { error: insertError } = await supabase.from('ai_visibility_results').insert({
         prompt_id: prompt.id,
         organization_id: organizationId,
@@ -179,6 +205,7 @@ export async function syncOrganization(input: SyncInput): Promise<SyncResult> {
         tokens_used: response.inputTokens + response.outputTokens,
         cost_cents: queryCost,
         queried_at: queriedAt,
+        sample_index: sampleIndex,
         raw_response: null,
       })
 
@@ -199,20 +226,35 @@ export async function syncOrganization(input: SyncInput): Promise<SyncResult> {
         tokensInput: response.inputTokens,
         tokensOutput: response.outputTokens,
         cost: queryCost,
-        metadata: { promptId: prompt.id, platform },
+        metadata: { promptId: prompt.id, platform, sampleIndex },
       })
     }
   }
 
   if (result.queriesCompleted > 0) {
-    const totalPromptPlatformPairs = prompts.length * activePlatforms.length
-    const score = calculateVisibilityScore({
-      totalPrompts: totalPromptPlatformPairs,
+    const totalResponses = prompts.length * activePlatforms.length * sampleCount
+    const visibility = calculateVisibilityScore({
+      totalPrompts: totalResponses,
       mentionedCount,
       citedCount,
       sentiments: allSentiments,
     })
 
+    // Counts are averaged per sample so trends stay comparable when the sample count changes
+    const perSample = (count: number) => Math.round(count / sampleCount)
+    const responsesPerPlatform = prompts.length * sampleCount
+    const sampledBreakdown = Object.fromEntries(
+      Object.entries(platformBreakdown).map(([platform, counts]) => [
+        platform,
+        {
+          mentions: perSample(counts.mentions),
+          citations: perSample(counts.citations),
+          mention_probability: counts.mentions / responsesPerPlatform,
+          citation_probability: counts.citations / responsesPerPlatform,
+        },
+      ])
+    )
+
     const now = new Date()
     const periodStart = new Date(now)
     periodStart.setHours(0, 0, 0, 0)
@@ -221,11 +263,21 @@ export async function syncOrganization(input: SyncInput): Promise<SyncResult> {
 
     await supabase.from('ai_visibility_scores').insert({
       organization_id: organizationId,
-      score,
-      mentions_count: mentionedCount,
-      citations_count: citedCount,
+      score: visibility.score,
+      score_lower: visibility.lower,
+      score_upper: visibility.upper,
+      mention_probability: visibility.mentionProbability,
+      citation_probability: visibility.citationProbability,
+      sample_count: sampleCount,
+      mentions_count: perSample(mentionedCount),
+      citations_count: perSample(citedCount),
       cited_pages_count: allCitedUrls.size,
-      platform_breakdown: platformBreakdown,
+      platform_breakdown: sampledBreakdown,
+      share_of_voice: calculateShareOfVoice(
+        shareOfVoiceObservations,
+        orgName,
+        config.competitors.map((c) => c.name)
+      ),
       period_start: periodStart.toISOString(),
       period_end: periodEnd.toISOString(),
     })
@@ -260,6 +312,7 @@ export async function syncOrganization(input: SyncInput): Promise<SyncResult> {
 /**
  * Run analysis for a single prompt across all active platforms.
  * Used to immediately analyze a newly added prompt without waiting for a full sync.
+ * Skipped when the prompt's queries would not fit in the monthly budget.
  */
 export async function syncSinglePrompt(input: {
   organizationId: string
@@ -272,29 +325,49 @@ export async function syncSinglePrompt(input: {
   const { organizationId, orgName, websiteUrl, config, promptId, promptText } = input
   const supabase = createServiceClient()
 
-  // Filter to platforms with credentials
-  const credentialChecks = await Promise.all(
-    config.platforms.map(async (platform) => {
-      const credential = await getAppCredential(PLATFORM_CREDENTIAL_KEYS[platform])
-      return { platform, hasCredential: !!credential }
-    })
-  )
-  const activePlatforms = credentialChecks.filter((c) => c.hasCredential).map((c) => c.platform)
+  if (await isAIDisabledForOrganization(organizationId)) return
+
+  // Filter to platforms with a credential for this organization
+  const activePlatforms = await getAvailablePlatforms(organizationId, config.platforms)
 
   if (activePlatforms.length === 0) return
 
+  const sampleCount = Math.max(1, config.sample_count ?? 1)
+  const currentSpend = await getCurrentMonthSpend(organizationId)
+  const projectedCost = estimatePromptCostCents({
+    spentCents: 0,
+    queriesCompleted: 0,
+    platforms: activePlatforms,
+    sampleCount,
+  })
+  if (!canContinueSync(currentSpend, config.monthly_budget_cents, projectedCost)) {
+    console.error('[AI Visibility Sync]', {
+      type: 'single_prompt_budget_exceeded',
+      organizationId,
+      promptId,
+      currentSpendCents: currentSpend,
+      budgetCents: config.monthly_budget_cents,
+      timestamp: new Date().toISOString(),
+    })
+    return
+  }
+
   const orgContext = buildOrgContext({
+    organizationId,
     orgName,
     websiteUrl,
     competitors: config.competitors,
   })
 
   const queriedAt = new Date().toISOString()
+  const runs = activePlatforms.flatMap((platform) =>
+    Array.from({ length: sampleCount }, (_, sampleIndex) => ({ platform, sampleIndex }))
+  )
 
   await Promise.allSettled(
-    activePlatforms.map(async (platform) => {
+    runs.map(async ({ platform, sampleIndex }) => {
       try {
-        const adapter = getAdapter(platform)
+        const adapter = getAdapter(platform, organizationId)
         const response = await adapter.query(promptText)
         const analysis = await analyzeResponse(response, orgContext)
         const queryCost = response.costCents + analysis.sentiment_cost_cents
@@ -313,6 +386,7 @@ export async function syncSinglePrompt(input: {
           tokens_used: response.inputTokens + response.outputTokens,
           cost_cents: queryCost,
           queried_at: queriedAt,
+          sample_index: sampleIndex,
           raw_response: null,
         })
 
@@ -322,7 +396,7 @@ export async function syncSinglePrompt(input: {
           tokensInput: response.inputTokens,
           tokensOutput: response.outputTokens,
           cost: queryCost,
-          metadata: { promptId, platform },
+          metadata: { promptId, platform, sampleIndex },
         })
       } catch (error) {
         console.error('[AI Visibility Sync]', {
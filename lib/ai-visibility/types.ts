@@ -11,6 +11,9 @@ export const PLATFORM_DISPLAY_NAMES: Record<AIPlatform, string> = {
   [AIPlatform.ChatGPT]: 'ChatGPT',
   [AIPlatform.Claude]: 'Claude',
   [AIPlatform.Perplexity]: 'Perplexity',
+  [AIPlatform.Gemini]: 'Gemini',
+  [AIPlatform.GoogleAIOverviews]: 'Google AI Overviews',
+  [AIPlatform.Copilot]: 'Copilot',
 }
 
 export const SENTIMENT_DISPLAY_NAMES: Record<BrandSentiment, string> = {
@@ -23,6 +26,9 @@ export const ALL_PLATFORMS: AIPlatform[] = [
   AIPlatform.ChatGPT,
   AIPlatform.Claude,
   AIPlatform.Perplexity,
+  AIPlatform.Gemini,
+  AIPlatform.GoogleAIOverviews,
+  AIPlatform.Copilot,
 ]
 
 // =============================================================================
@@ -37,6 +43,8 @@ export interface AIVisibilityConfig {
   is_active: boolean
   monthly_budget_cents: number
   budget_alert_threshold: number
+  /** Times each prompt is queried per platform per sync; answers vary run to run */
+  sample_count: number
   competitors: { name: string; domain: string }[]
   last_alert_sent_at: string | null
   last_alert_type: string | null
@@ -88,6 +96,8 @@ export interface AIVisibilityResult {
   tokens_used: number | null
   cost_cents: number | null
   queried_at: string
+  /** 0-based run number when a prompt is sampled more than once in a sync */
+  sample_index: number
   raw_response: Record<string, unknown> | null
   research_id: string | null
   source: 'sync' | 'research'
@@ -99,9 +109,45 @@ export interface PlatformBreakdown {
   [platform: string]: {
     mentions: number
     citations: number
+    /** Absent on scores recorded before repeat sampling */
+    mention_probability?: number
+    citation_probability?: number
   }
 }
 
+export interface SampleAggregate {
+  samples: number
+  mentioned: number
+  cited: number
+  /** Fraction of sampled responses that mention the brand, 0-1 */
+  mention_probability: number
+  /** Fraction of sampled responses that cite the brand's domain, 0-1 */
+  citation_probability: number
+}
+
+export interface ShareOfVoiceEntity {
+  name: string
+  is_brand: boolean
+  /** Responses that mention the entity by name */
+  mentioned: number
+  /** Responses that cite the entity's domain */
+  cited: number
+  /** Responses that mention or cite the entity */
+  visible: number
+  /** visible / total_responses, 0-1 */
+  share: number
+}
+
+export interface ShareOfVoiceBreakdown {
+  /** Prompt responses analyzed (one per prompt per platform) */
+  total_responses: number
+  entities: ShareOfVoiceEntity[]
+}
+
+export interface ShareOfVoice extends ShareOfVoiceBreakdown {
+  platforms: Partial<Record<AIPlatform, ShareOfVoiceBreakdown>>
+}
+
 export interface AIVisibilityScore {
   id: string
   organization_id: string
@@ -110,6 +156,14 @@ export interface AIVisibilityScore {
   citations_count: number
   cited_pages_count: number
   platform_breakdown: PlatformBreakdown | null
+  /** 95% confidence interval bounds; null on scores recorded before repeat sampling */
+  score_lower: number | null
+  score_upper: number | null
+  mention_probability: number | null
+  citation_probability: number | null
+  sample_count: number
+  /** Brand vs. competitor visibility for the sync period; null before competitor tracking */
+  share_of_voice: ShareOfVoice | null
   period_start: string
   period_end: string
   created_at: string
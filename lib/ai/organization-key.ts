@@ -0,0 +1,49 @@
+import { AIProvider } from '@/lib/enums'
+
+/** Providers an organization can bring its own key for */
+export type OrganizationKeyProvider = AIProvider.Anthropic | AIProvider.OpenAI
+
+const VERIFY_TIMEOUT_MS = 10_000
+
+export function isOrganizationKeyProvider(
+  provider: AIProvider | null | undefined
+): provider is OrganizationKeyProvider {
+  return provider === AIProvider.Anthropic || provider === AIProvider.OpenAI
+}
+
+/**
+ * Check an organization's API key against the provider's models endpoint,
+ * which doesn't consume tokens. Returns an error message, or null when the
+ * provider accepts the key.
+ */
+export async function verifyOrganizationAIKey(
+  provider: OrganizationKeyProvider,
+  apiKey: string
+): Promise<string | null> {
+  const request: { url: string; headers: Record<string, string> } =
+    provider === AIProvider.Anthropic
+      ? {
+          url: 'https://api.anthropic.com/v1/models',
+          headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+        }
+      : {
+          url: 'https://api.openai.com/v1/models',
+          headers: { Authorization: `Bearer ${apiKey}` },
+        }
+
+  try {
+    const res = await fetch(request.url, {
+      headers: request.headers,
+      signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS),
+    })
+    if (res.status === 401 || res.status === 403) {
+      return 'The provider rejected this API key'
+    }
+    if (!res.ok) {
+      return `Could not verify the API key (provider returned ${res.status})`
+    }
+    return null
+  } catch {
+    return 'Could not reach the provider to verify the API key'
+  }
+}
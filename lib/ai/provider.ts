@@ -2,41 +2,165 @@ import { createAnthropic } from '@ai-sdk/anthropic'
 import { createOpenAI } from '@ai-sdk/openai'
 import { createPerplexity } from '@ai-sdk/perplexity'
 import { getAppCredential } from '@/lib/app-settings/credentials'
+import { createServiceClient } from '@/lib/supabase/server'
+import { decryptCredentials } from '@/lib/utils/crypto'
+import { AIBillingModel, AIProvider } from '@/lib/enums'
+
+/** Providers the platform holds app credentials for */
+export type AIProviderKey = 'anthropic' | 'openai' | 'perplexity'
+
+const PROVIDER_NAMES: Record<AIProviderKey, string> = {
+  anthropic: 'Anthropic',
+  openai: 'OpenAI',
+  perplexity: 'Perplexity',
+}
 
 /**
- * Create an Anthropic provider with a key resolved from the database
- * (encrypted app_settings) first, falling back to the ANTHROPIC_API_KEY env var.
- *
- * Must be called per-request since credential resolution is async.
+ * Thrown when an organization's AI billing model is `disabled`. Callers should
+ * skip the AI step (or fall back to non-AI output) rather than report a failure.
  */
-export async function getAnthropicProvider() {
-  const apiKey = await getAppCredential('anthropic')
-  if (!apiKey) {
-    throw new Error('Anthropic API key not configured. Set it in App Settings > Integrations.')
+export class AIDisabledError extends Error {
+  constructor() {
+    super('AI features are disabled for this organization.')
+    this.name = 'AIDisabledError'
   }
-  return createAnthropic({ apiKey })
+}
+
+export interface OrganizationAISettings {
+  ai_provider: AIProvider | null
+  ai_billing_model: AIBillingModel | null
+  /** Encrypted `{ api_key }`, set for bring-your-own-key organizations */
+  ai_api_key: string | null
+}
+
+export interface ResolvedAICredential {
+  apiKey: string
+  billingModel: AIBillingModel
+}
+
+async function getOrganizationAISettings(
+  organizationId: string
+): Promise<OrganizationAISettings | null> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('ai_provider, ai_billing_model, ai_api_key')
+    .eq('id', organizationId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load organization AI settings: ${error.message}`)
+  }
+
+  return data as OrganizationAISettings | null
 }
 
 /**
- * Create an OpenAI provider with a key resolved from the database
- * (encrypted app_settings) first, falling back to the OPENAI_API_KEY env var.
+ * Which billing model pays for a call to `provider`. A bring-your-own-key
+ * organization's key only covers the provider it was issued for; calls to
+ * other providers (e.g. Perplexity for AI visibility) stay platform-billed,
+ * as do non-AI services such as PageSpeed.
  */
-export async function getOpenAIProvider() {
-  const apiKey = await getAppCredential('openai')
-  if (!apiKey) {
-    throw new Error('OpenAI API key not configured. Set it in App Settings > Integrations.')
+export function getBillingModelForProvider(
+  settings: OrganizationAISettings | null,
+  provider: string
+): AIBillingModel {
+  if (!(provider in PROVIDER_NAMES)) return AIBillingModel.PlatformBilled
+
+  const billingModel = settings?.ai_billing_model ?? AIBillingModel.PlatformBilled
+  if (billingModel === AIBillingModel.BringOwnKey && settings?.ai_provider !== provider) {
+    return AIBillingModel.PlatformBilled
   }
-  return createOpenAI({ apiKey })
+  return billingModel
+}
+
+/**
+ * Billing model for an organization's calls to `service`. Organizations
+ * without AI settings, and calls made outside an organization, are
+ * platform-billed.
+ */
+export async function getOrganizationBillingModel(
+  organizationId: string | null | undefined,
+  service: string
+): Promise<AIBillingModel> {
+  if (!organizationId) return AIBillingModel.PlatformBilled
+  const settings = await getOrganizationAISettings(organizationId)
+  return getBillingModelForProvider(settings, service)
+}
+
+/**
+ * Whether the organization has opted out of AI features entirely. Lets
+ * pipelines skip AI steps up front instead of failing per call.
+ */
+export async function isAIDisabledForOrganization(
+  organizationId: string | null | undefined
+): Promise<boolean> {
+  if (!organizationId) return false
+  const settings = await getOrganizationAISettings(organizationId)
+  return settings?.ai_billing_model === AIBillingModel.Disabled
 }
 
 /**
- * Create a Perplexity provider with a key resolved from the database
- * (encrypted app_settings) first, falling back to the PERPLEXITY_API_KEY env var.
+ * Resolve the API key for a provider call. Without an organization, or for a
+ * platform-billed one, this is the app credential (encrypted app_settings
+ * first, falling back to the env var). Bring-your-own-key organizations use
+ * their own decrypted key, and `disabled` organizations throw AIDisabledError.
  */
-export async function getPerplexityProvider() {
-  const apiKey = await getAppCredential('perplexity')
+export async function resolveAICredential(
+  provider: AIProviderKey,
+  organizationId?: string | null
+): Promise<ResolvedAICredential> {
+  const settings = organizationId ? await getOrganizationAISettings(organizationId) : null
+  const billingModel = getBillingModelForProvider(settings, provider)
+
+  if (billingModel === AIBillingModel.Disabled) {
+    throw new AIDisabledError()
+  }
+
+  if (billingModel === AIBillingModel.BringOwnKey) {
+    const apiKey = settings?.ai_api_key
+      ? decryptCredentials<{ api_key?: string }>(settings.ai_api_key).api_key
+      : null
+    if (!apiKey) {
+      throw new Error(
+        `${PROVIDER_NAMES[provider]} API key not configured for this organization. Add it in the organization's AI settings.`
+      )
+    }
+    return { apiKey, billingModel }
+  }
+
+  const apiKey = await getAppCredential(provider)
   if (!apiKey) {
-    throw new Error('Perplexity API key not configured. Set it in App Settings > Integrations.')
+    throw new Error(
+      `${PROVIDER_NAMES[provider]} API key not configured. Set it in App Settings > Integrations.`
+    )
   }
+  return { apiKey, billingModel }
+}
+
+/**
+ * Create an Anthropic provider. Pass the organization the call is made for so
+ * its billing model applies; see resolveAICredential.
+ *
+ * Must be called per-request since credential resolution is async.
+ */
+export async function getAnthropicProvider(organizationId?: string | null) {
+  const { apiKey } = await resolveAICredential('anthropic', organizationId)
+  return createAnthropic({ apiKey })
+}
+
+/**
+ * Create an OpenAI provider for the organization; see resolveAICredential.
+ */
+export async function getOpenAIProvider(organizationId?: string | null) {
+  const { apiKey } = await resolveAICredential('openai', organizationId)
+  return createOpenAI({ apiKey })
+}
+
+/**
+ * Create a Perplexity provider for the organization; see resolveAICredential.
+ */
+export async function getPerplexityProvider(organizationId?: string | null) {
+  const { apiKey } = await resolveAICredential('perplexity', organizationId)
   return createPerplexity({ apiKey })
 }
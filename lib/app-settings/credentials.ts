@@ -5,6 +5,8 @@ export const ENV_VAR_MAP: Record<string, string> = {
   anthropic: 'ANTHROPIC_API_KEY',
   openai: 'OPENAI_API_KEY',
   perplexity: 'PERPLEXITY_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+  serpapi: 'SERPAPI_API_KEY',
   resend: 'RESEND_API_KEY',
   pagespeed: 'PAGESPEED_API_KEY',
   cron_secret: 'CRON_SECRET',
@@ -15,6 +17,8 @@ const CREDENTIAL_FIELD: Record<string, string> = {
   anthropic: 'api_key',
   openai: 'api_key',
   perplexity: 'api_key',
+  gemini: 'api_key',
+  serpapi: 'api_key',
   resend: 'api_key',
   pagespeed: 'api_key',
   cron_secret: 'secret',
@@ -1,6 +1,7 @@
 'use server'
 
 import { createServiceClient } from '@/lib/supabase/server'
+import { getOrganizationBillingModel } from '@/lib/ai/provider'
 
 interface UsageOptions {
   organizationId?: string | null
@@ -12,8 +13,8 @@ interface UsageOptions {
 }
 
 /**
- * Log a billable API call. Fire-and-forget — never throws.
- * Uses service client to bypass RLS.
+ * Log a billable API call, recording which billing model paid for it.
+ * Fire-and-forget — never throws. Uses service client to bypass RLS.
  */
 export async function logUsage(
   service: string,
@@ -22,6 +23,7 @@ export async function logUsage(
 ): Promise<void> {
   try {
     const supabase = createServiceClient()
+    const billingModel = await getOrganizationBillingModel(opts.organizationId, service)
     const { error } = await supabase.from('usage_logs').insert({
       service,
       event_type: eventType,
@@ -31,6 +33,7 @@ export async function logUsage(
       tokens_output: opts.tokensOutput ?? null,
       cost: opts.cost ?? null,
       metadata: opts.metadata ?? null,
+      billing_model: billingModel,
     })
 
     if (error) {
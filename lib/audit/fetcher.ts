@@ -219,3 +219,58 @@ export function extractLinks(html: string, baseUrl: string, finalUrl?: string):
 
   return Array.from(links)
 }
+
+export interface HreflangLink {
+  /** Value of the hreflang attribute as written, e.g. "en-GB" or "x-default" */
+  hreflang: string
+  /** Absolute alternate URL */
+  href: string
+}
+
+/**
+ * Extract `<link rel="alternate" hreflang>` annotations from HTML.
+ * Relative hrefs are resolved against the page URL; malformed hrefs are skipped.
+ */
+export function extractHreflangLinks(html: string, pageUrl: string): HreflangLink[] {
+  const $ = cheerio.load(html)
+  const links: HreflangLink[] = []
+
+  $('link[rel="alternate"][hreflang]').each((_, element) => {
+    const hreflang = $(element).attr('hreflang')?.trim()
+    const href = $(element).attr('href')?.trim()
+    if (!hreflang || !href) return
+
+    try {
+      links.push({ hreflang, href: new URL(href, pageUrl).href })
+    } catch {
+      // Invalid URL, skip
+    }
+  })
+
+  return links
+}
+
+/**
+ * Extract the absolute canonical URL from HTML, or null when absent or malformed.
+ */
+export function extractCanonicalUrl(html: string, pageUrl: string): string | null {
+  const $ = cheerio.load(html)
+  const canonical = $('link[rel="canonical"]').attr('href')?.trim()
+  if (!canonical) return null
+
+  try {
+    return new URL(canonical, pageUrl).href
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether the page opts out of indexing via a robots or googlebot meta tag.
+ */
+export function hasNoindexDirective(html: string): boolean {
+  const $ = cheerio.load(html)
+  const metaRobots = $('meta[name="robots"]').attr('content')?.toLowerCase() ?? ''
+  const metaGooglebot = $('meta[name="googlebot"]').attr('content')?.toLowerCase() ?? ''
+  return metaRobots.includes('noindex') || metaGooglebot.includes('noindex')
+}
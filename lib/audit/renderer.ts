@@ -0,0 +1,60 @@
+// lib/audit/renderer.ts
+import type { Browser, BrowserContext } from 'playwright-core'
+import { createSharedBrowser } from '@/lib/utils/chromium'
+
+export interface RenderResult {
+  html: string
+  error?: string
+}
+
+// Rendering budget per page (navigation + network idle)
+const RENDER_TIMEOUT_MS = 30000
+
+// Extra settle time for client-side frameworks that hydrate after network idle
+const POST_LOAD_SETTLE_MS = 500
+
+const USER_AGENT = 'SeloBot/1.0 (Site Audit; +https://selo.io/bot)'
+
+const sharedBrowser = createSharedBrowser()
+
+/**
+ * Render a page in headless Chromium and return the serialized DOM after JavaScript runs.
+ * Never throws: failures are returned as `error` so callers can fall back to raw HTML.
+ */
+export async function renderPage(url: string): Promise<RenderResult> {
+  let browser: Browser
+  try {
+    browser = await sharedBrowser.get()
+  } catch (error) {
+    return {
+      html: '',
+      error: `Headless browser unavailable: ${error instanceof Error ? error.message : String(error)}`,
+    }
+  }
+
+  let context: BrowserContext | null = null
+  try {
+    context = await browser.newContext({ userAgent: USER_AGENT, ignoreHTTPSErrors: true })
+    const page = await context.newPage()
+    await page.goto(url, { waitUntil: 'networkidle', timeout: RENDER_TIMEOUT_MS })
+    await page.waitForTimeout(POST_LOAD_SETTLE_MS)
+    return { html: await page.content() }
+  } catch (error) {
+    // A browser that can't open a context has crashed or disconnected; relaunch on the next page
+    if (!context) await closeRenderer()
+    return {
+      html: '',
+      error: error instanceof Error ? error.message : 'Unknown render error',
+    }
+  } finally {
+    await context?.close().catch(() => {})
+  }
+}
+
+/**
+ * Close the shared browser. Call once a crawl batch finishes so the
+ * Chromium process does not outlive the function invocation.
+ */
+export async function closeRenderer(): Promise<void> {
+  await sharedBrowser.close()
+}
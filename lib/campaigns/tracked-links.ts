@@ -0,0 +1,149 @@
+// lib/campaigns/tracked-links.ts
+import { buildUTMUrl } from '@/lib/utils/utm'
+import { parseCsv, toCsv } from '@/lib/utils/csv'
+
+// Row in campaign_links
+export interface TrackedLink {
+  id: string
+  campaign_id: string
+  name: string
+  destination_url: string
+  utm_source: string | null
+  utm_content: string | null
+  last_status_code: number | null
+  last_checked_at: string | null
+}
+
+// Editable fields of a tracked link, as entered in the form or a CSV row
+export interface TrackedLinkInput {
+  name: string
+  destination_url: string
+  utm_source: string
+  utm_content: string
+}
+
+// Campaign-level UTM defaults that every link inherits
+export interface CampaignUtmDefaults {
+  utm_source: string | null
+  utm_medium: string | null
+  utm_campaign: string | null
+  utm_term: string | null
+  utm_content: string | null
+}
+
+export const MAX_TRACKED_LINKS_PER_IMPORT = 500
+
+const CSV_COLUMNS = ['name', 'destination_url', 'utm_source', 'utm_content'] as const
+
+/**
+ * Destination URL with the campaign's UTM parameters applied, using the
+ * link's utm_source and utm_content in place of the campaign's when set.
+ */
+export function buildTrackedLinkUrl(
+  link: Pick<TrackedLink, 'destination_url' | 'utm_source' | 'utm_content'>,
+  defaults: CampaignUtmDefaults
+): string {
+  return buildUTMUrl(link.destination_url, {
+    utm_source: link.utm_source || defaults.utm_source || undefined,
+    utm_medium: defaults.utm_medium || undefined,
+    utm_campaign: defaults.utm_campaign || undefined,
+    utm_term: defaults.utm_term || undefined,
+    utm_content: link.utm_content || defaults.utm_content || undefined,
+  })
+}
+
+/**
+ * Validate a link's fields. Returns an error message, or null when valid.
+ */
+export function validateTrackedLink(input: TrackedLinkInput): string | null {
+  if (!input.name.trim()) {
+    return 'Link name is required'
+  }
+  if (input.name.length > 100) {
+    return 'Link name must be less than 100 characters'
+  }
+
+  try {
+    const url = new URL(input.destination_url.trim())
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'Destination must be an http or https URL'
+    }
+  } catch {
+    return 'Destination must be a valid URL'
+  }
+
+  return null
+}
+
+/**
+ * Parse an imported CSV into link inputs. The header row must include name
+ * and destination_url; utm_source and utm_content are optional and other
+ * columns (such as tracked_url from an export) are ignored. Errors reference
+ * spreadsheet row numbers, counting the header as row 1.
+ */
+export function parseTrackedLinksCsv(text: string): {
+  links: TrackedLinkInput[]
+  errors: string[]
+} {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) {
+    return { links: [], errors: ['The file is empty'] }
+  }
+
+  const columns = header.map((column) => column.trim().toLowerCase())
+  const index = Object.fromEntries(CSV_COLUMNS.map((column) => [column, columns.indexOf(column)]))
+  if (index.name === -1 || index.destination_url === -1) {
+    return { links: [], errors: ['The header row must include name and destination_url'] }
+  }
+
+  if (rows.length > MAX_TRACKED_LINKS_PER_IMPORT) {
+    return {
+      links: [],
+      errors: [`Import up to ${MAX_TRACKED_LINKS_PER_IMPORT} links at a time`],
+    }
+  }
+
+  const links: TrackedLinkInput[] = []
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  rows.forEach((row, i) => {
+    const read = (column: (typeof CSV_COLUMNS)[number]) =>
+      index[column] === -1 ? '' : (row[index[column]] ?? '').trim()
+
+    const link: TrackedLinkInput = {
+      name: read('name'),
+      destination_url: read('destination_url'),
+      utm_source: read('utm_source'),
+      utm_content: read('utm_content'),
+    }
+
+    const error = validateTrackedLink(link)
+    if (error) {
+      errors.push(`Row ${i + 2}: ${error}`)
+    } else if (seen.has(link.name.toLowerCase())) {
+      errors.push(`Row ${i + 2}: Duplicate link name "${link.name}"`)
+    } else {
+      seen.add(link.name.toLowerCase())
+      links.push(link)
+    }
+  })
+
+  return { links, errors }
+}
+
+/**
+ * Serialize links to CSV in the import format, plus the full tracked URL.
+ */
+export function trackedLinksToCsv(links: TrackedLink[], defaults: CampaignUtmDefaults): string {
+  return toCsv([
+    [...CSV_COLUMNS, 'tracked_url'],
+    ...links.map((link) => [
+      link.name,
+      link.destination_url,
+      link.utm_source,
+      link.utm_content,
+      buildTrackedLinkUrl(link, defaults),
+    ]),
+  ])
+}
@@ -0,0 +1,220 @@
+// lib/campaigns/weekly-report.ts
+import { sendEmail, isSuppressed, FROM_EMAIL } from '@/lib/email/client'
+import CampaignWeeklyReportEmail, {
+  type CampaignReportMetric,
+} from '@/emails/campaign-weekly-report-email'
+import { CampaignStatus } from '@/lib/enums'
+import { displayName } from '@/lib/utils'
+import { formatMetricDelta } from '@/lib/reviews/format'
+import {
+  ATTRIBUTABLE_CAMPAIGN_COLUMNS,
+  getOrganizationAnalyticsClient,
+  type AttributableCampaign,
+} from '@/lib/platforms/google-analytics/campaign-performance'
+import type { GoogleAnalyticsClient } from '@/lib/platforms/google-analytics/client'
+import type { GoogleAnalyticsCampaignPerformance } from '@/lib/platforms/google-analytics/types'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const MAX_WEEKLY_REPORT_RECIPIENTS = 50
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const REPORT_METRICS: Array<{ key: keyof GoogleAnalyticsCampaignPerformance; label: string }> = [
+  { key: 'sessions', label: 'Sessions' },
+  { key: 'users', label: 'Users' },
+  { key: 'conversions', label: 'Conversions' },
+]
+
+export interface CampaignWeeklyReportResult {
+  campaigns: number
+  sent: number
+  failed: number
+  suppressed: number
+}
+
+type ReportCampaign = AttributableCampaign & {
+  name: string
+  status: CampaignStatus
+  weekly_report_recipients: string[] | null
+  organizations: { name: string } | { name: string }[] | null
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Days from `now` until the campaign's end date: 0 on the last day, negative
+ * once it has ended, null when it has no end date.
+ */
+export function getDaysRemaining(endDate: string | null, now: Date = new Date()): number | null {
+  if (!endDate) return null
+  const today = Date.parse(toDateKey(now))
+  return Math.round((Date.parse(endDate) - today) / DAY_MS)
+}
+
+export function formatScheduleLabel(endDate: string | null, now: Date = new Date()): string {
+  const days = getDaysRemaining(endDate, now)
+  if (days === null) return 'No end date'
+  if (days > 0) return `${days} day${days === 1 ? '' : 's'} remaining`
+  if (days === 0) return 'Ends today'
+  const ended = new Date(endDate!).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+  return `Ended ${ended}`
+}
+
+/**
+ * Week-over-week rows for the email. Change is omitted when the prior week
+ * had no traffic, since a percentage from zero isn't meaningful.
+ */
+export function buildReportMetrics(
+  current: GoogleAnalyticsCampaignPerformance,
+  previous: GoogleAnalyticsCampaignPerformance
+): CampaignReportMetric[] {
+  return REPORT_METRICS.map(({ key, label }) => {
+    const delta = previous[key] > 0 ? ((current[key] - previous[key]) / previous[key]) * 100 : null
+    return {
+      label,
+      value: current[key].toLocaleString('en-US'),
+      delta: delta === null ? null : formatMetricDelta(delta),
+      direction: delta === null || delta === 0 ? 'flat' : delta > 0 ? 'up' : 'down',
+    }
+  })
+}
+
+async function fetchWeeklyMetrics(
+  client: GoogleAnalyticsClient,
+  campaign: ReportCampaign,
+  weekStart: Date,
+  weekEnd: Date
+): Promise<CampaignReportMetric[]> {
+  if (!campaign.utm_campaign) return []
+
+  const previousStart = new Date(weekStart.getTime() - 7 * DAY_MS)
+  const previousEnd = new Date(weekStart.getTime() - DAY_MS)
+  const filter = {
+    utmCampaign: campaign.utm_campaign,
+    utmSource: campaign.utm_source,
+    utmMedium: campaign.utm_medium,
+  }
+
+  const [current, previous] = await Promise.all([
+    client.fetchCampaignPerformance(weekStart, weekEnd, filter),
+    client.fetchCampaignPerformance(previousStart, previousEnd, filter),
+  ])
+  return buildReportMetrics(current, previous)
+}
+
+/**
+ * Email each campaign's weekly report to its `weekly_report_recipients`.
+ *
+ * Covers active campaigns, plus completed ones that ended during the week so
+ * recipients get a final report. Recipients on the suppression list are
+ * skipped. Metrics are left out when the organization has no GA connection
+ * or the GA report fails; the status and schedule are still sent.
+ */
+export async function sendCampaignWeeklyReports(
+  supabase: SupabaseClient,
+  weekStart: Date,
+  weekEnd: Date
+): Promise<CampaignWeeklyReportResult> {
+  const result: CampaignWeeklyReportResult = { campaigns: 0, sent: 0, failed: 0, suppressed: 0 }
+
+  const { data, error } = await supabase
+    .from('campaigns')
+    .select(
+      `${ATTRIBUTABLE_CAMPAIGN_COLUMNS}, name, status, weekly_report_recipients, organizations!inner(name)`
+    )
+    .or(
+      `status.eq.${CampaignStatus.Active},and(status.eq.${CampaignStatus.Completed},end_date.gte.${toDateKey(weekStart)})`
+    )
+    .not('weekly_report_recipients', 'is', null)
+
+  if (error) {
+    throw new Error(`Failed to fetch campaigns: ${error.message}`)
+  }
+
+  const campaigns = ((data ?? []) as unknown as ReportCampaign[]).filter(
+    (c) => (c.weekly_report_recipients?.length ?? 0) > 0
+  )
+  const clients = new Map<string, GoogleAnalyticsClient | null>()
+  const weekKey = toDateKey(weekStart)
+
+  for (const campaign of campaigns) {
+    if (!clients.has(campaign.organization_id)) {
+      clients.set(
+        campaign.organization_id,
+        await getOrganizationAnalyticsClient(supabase, campaign.organization_id)
+      )
+    }
+    const client = clients.get(campaign.organization_id)
+
+    let metrics: CampaignReportMetric[] = []
+    if (client) {
+      try {
+        metrics = await fetchWeeklyMetrics(client, campaign, weekStart, weekEnd)
+      } catch (err) {
+        console.error('[Campaign Weekly Report]', {
+          type: 'fetch_metrics_failed',
+          campaignId: campaign.id,
+          error: err instanceof Error ? err.message : String(err),
+          timestamp: new Date().toISOString(),
+        })
+      }
+    }
+
+    const orgField = campaign.organizations
+    const organizationName =
+      (Array.isArray(orgField) ? orgField[0]?.name : orgField?.name) ?? 'Organization'
+
+    const react = CampaignWeeklyReportEmail({
+      organizationName,
+      campaignName: campaign.name,
+      statusLabel: displayName(campaign.status),
+      weekStartDate: weekStart.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        timeZone: 'UTC',
+      }),
+      scheduleLabel: formatScheduleLabel(campaign.end_date),
+      metrics,
+      campaignLink: `${process.env.NEXT_PUBLIC_SITE_URL}/${campaign.organization_id}/dashboard/campaigns/${campaign.id}`,
+    })
+
+    result.campaigns++
+    for (const email of campaign.weekly_report_recipients ?? []) {
+      if (await isSuppressed(email)) {
+        result.suppressed++
+        continue
+      }
+
+      try {
+        const { error: sendError } = await sendEmail({
+          from: FROM_EMAIL,
+          to: email,
+          subject: `Weekly Campaign Report — ${campaign.name}`,
+          react,
+          idempotencyKey: `campaign-weekly-report-${campaign.id}-${weekKey}-${email}`,
+          headers: {
+            'List-Unsubscribe': `<mailto:${FROM_EMAIL}?subject=unsubscribe>`,
+          },
+        })
+        if (sendError) throw new Error(sendError.message)
+        result.sent++
+      } catch (err) {
+        result.failed++
+        console.error('[Campaign Weekly Report]', {
+          type: 'send_failed',
+          campaignId: campaign.id,
+          error: err instanceof Error ? err.message : String(err),
+          timestamp: new Date().toISOString(),
+        })
+      }
+    }
+  }
+
+  return result
+}
@@ -31,6 +31,11 @@ const mailpitTransport = nodemailer.createTransport({
   secure: false,
 })
 
+export interface EmailAttachment {
+  filename: string
+  content: Buffer
+}
+
 interface SendEmailOptions {
   from: string
   to: string
@@ -40,6 +45,8 @@ interface SendEmailOptions {
   idempotencyKey?: string
   /** Additional headers (e.g. List-Unsubscribe) */
   headers?: Record<string, string>
+  /** Files to attach (e.g. a resource PDF from `getResourcePdfAttachment`) */
+  attachments?: EmailAttachment[]
 }
 
 interface SendEmailResult {
@@ -51,7 +58,7 @@ interface SendEmailResult {
  * Check if an email address is on the suppression list (hard bounce or complaint).
  * Uses the service client to bypass RLS.
  */
-async function isSuppressed(email: string): Promise<boolean> {
+export async function isSuppressed(email: string): Promise<boolean> {
   try {
     const supabase = createServiceClient()
     const { count } = await supabase
@@ -68,7 +75,7 @@ async function isSuppressed(email: string): Promise<boolean> {
 }
 
 export async function sendEmail(options: SendEmailOptions): Promise<SendEmailResult> {
-  const { from, to, subject, react, idempotencyKey, headers } = options
+  const { from, to, subject, react, idempotencyKey, headers, attachments } = options
 
   // Check suppression list before sending
   if (await isSuppressed(to)) {
@@ -89,6 +96,7 @@ export async function sendEmail(options: SendEmailOptions): Promise<SendEmailRes
         subject,
         html,
         headers: headers || undefined,
+        attachments: attachments || undefined,
       })
       if (process.env.NODE_ENV === 'development') {
         console.error('[Email] Sent via Mailpit:', info.messageId)
@@ -111,6 +119,7 @@ export async function sendEmail(options: SendEmailOptions): Promise<SendEmailRes
     subject,
     react,
     headers: headers || undefined,
+    attachments: attachments || undefined,
     ...(idempotencyKey && {
       headers: {
         ...headers,
@@ -0,0 +1,16 @@
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Split free-form recipient input (commas, semicolons or newlines) into
+ * lowercased, de-duplicated addresses plus anything that is not an email.
+ */
+export function parseRecipients(input: string): { emails: string[]; invalid: string[] } {
+  const entries = input
+    .split(/[\s,;]+/)
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean)
+
+  const emails = Array.from(new Set(entries.filter((e) => EMAIL_REGEX.test(e))))
+  const invalid = entries.filter((e) => !EMAIL_REGEX.test(e))
+  return { emails, invalid }
+}
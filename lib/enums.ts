@@ -87,6 +87,23 @@ export enum OrganizationStatus {
   Inactive = 'inactive',
 }
 
+export enum DataExportStatus {
+  Completed = 'completed',
+  Failed = 'failed',
+}
+
+export enum AIProvider {
+  Anthropic = 'anthropic',
+  OpenAI = 'openai',
+  None = 'none',
+}
+
+export enum AIBillingModel {
+  BringOwnKey = 'bring_own_key',
+  PlatformBilled = 'platform_billed',
+  Disabled = 'disabled',
+}
+
 // =============================================================================
 // User & Permissions Enums
 // =============================================================================
@@ -124,6 +141,12 @@ export enum PlatformType {
   LinkedIn = 'linkedin',
   Meta = 'meta',
   Instagram = 'instagram',
+  SearchConsole = 'search_console',
+}
+
+export enum SearchConsoleDimension {
+  Page = 'page',
+  Query = 'query',
 }
 
 export enum ConnectionStatus {
@@ -179,6 +202,24 @@ export enum Period {
   Quarter = 'quarter',
 }
 
+export enum ReviewPeriodType {
+  Quarter = 'quarter',
+  Month = 'month',
+  Custom = 'custom',
+}
+
+export enum ReviewDeliveryTrigger {
+  Publish = 'publish',
+  Scheduled = 'scheduled',
+  Manual = 'manual',
+}
+
+export enum ReviewDeliveryStatus {
+  Sent = 'sent',
+  Failed = 'failed',
+  Suppressed = 'suppressed',
+}
+
 // =============================================================================
 // Metric Formatting Enums
 // =============================================================================
@@ -235,6 +276,7 @@ export enum ShareErrorCode {
   InvalidPassword = 'invalid_password',
   ReportNotFound = 'report_not_found',
   ResourceNotFound = 'resource_not_found',
+  DownloadGrantRequired = 'download_grant_required',
 }
 
 export enum SharedResourceType {
@@ -304,11 +346,30 @@ export enum CheckCategory {
   Security = 'security',
   Performance = 'performance',
   AIVisibility = 'ai_visibility',
+  International = 'international',
+  Custom = 'custom',
+}
+
+export enum CustomCheckRuleType {
+  SelectorPresent = 'selector_present',
+  SelectorAbsent = 'selector_absent',
+  RegexMatch = 'regex_match',
+  RegexNoMatch = 'regex_no_match',
+  JsonLdType = 'json_ld_type',
 }
 
 export enum CrawlMode {
   Standard = 'standard',
   Exhaustive = 'exhaustive',
+  /** Standard page limits, but pages are rendered in headless Chromium before checks run */
+  Rendered = 'rendered',
+}
+
+/** How a URL entered the unified audit crawl queue */
+export enum CrawlDiscoverySource {
+  Seed = 'seed',
+  Link = 'link',
+  Sitemap = 'sitemap',
 }
 
 export enum ScoreDimension {
@@ -317,6 +378,60 @@ export enum ScoreDimension {
   AIReadiness = 'ai_readiness',
 }
 
+/** Spreadsheet exports of a unified audit */
+export enum AuditExportDataset {
+  Checks = 'checks',
+  Pages = 'pages',
+}
+
+export enum AuditExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+export enum AuditAlertRuleType {
+  ScoreDrop = 'score_drop',
+  NewCriticalFailure = 'new_critical_failure',
+}
+
+// =============================================================================
+// Issue Tracker Enums
+// =============================================================================
+
+export enum IssueTracker {
+  Jira = 'jira',
+  Linear = 'linear',
+  GitHub = 'github',
+}
+
+/** How failed checks are split into tracker issues */
+export enum TicketGrouping {
+  /** One issue per check, listing every affected page */
+  CheckType = 'check_type',
+  /** One issue per page, listing every failed check on it */
+  Page = 'page',
+}
+
+export enum TicketStatus {
+  Open = 'open',
+  /** A later audit found every check on the ticket passing */
+  Resolved = 'resolved',
+}
+
+// =============================================================================
+// Remediation Enums
+// =============================================================================
+
+/** Lifecycle of an assigned audit fix */
+export enum RemediationStatus {
+  Open = 'open',
+  InProgress = 'in_progress',
+  /** Marked fixed by the team; awaiting the next audit */
+  Fixed = 'fixed',
+  /** The next audit found the check passing */
+  Verified = 'verified',
+}
+
 // =============================================================================
 // Usage Tracking Enums
 // =============================================================================
@@ -336,6 +451,9 @@ export enum AIPlatform {
   ChatGPT = 'chatgpt',
   Claude = 'claude',
   Perplexity = 'perplexity',
+  Gemini = 'gemini',
+  GoogleAIOverviews = 'google_ai_overviews',
+  Copilot = 'copilot',
 }
 
 export enum SyncFrequency {
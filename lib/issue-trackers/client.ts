@@ -0,0 +1,32 @@
+import { decryptCredentials } from '@/lib/utils/crypto'
+import { IssueTracker } from '@/lib/enums'
+import { GitHubClient } from './github'
+import { JiraClient } from './jira'
+import { LinearClient } from './linear'
+import type {
+  GitHubSettings,
+  IssueTrackerConfig,
+  JiraSettings,
+  LinearSettings,
+  TrackerClient,
+  TrackerCredentials,
+} from './types'
+
+/**
+ * Build the API client for an organization's configured tracker,
+ * decrypting its stored credentials.
+ */
+export function getTrackerClient(
+  config: Pick<IssueTrackerConfig, 'tracker' | 'credentials' | 'settings'>
+): TrackerClient {
+  const credentials = decryptCredentials<TrackerCredentials>(config.credentials)
+
+  switch (config.tracker) {
+    case IssueTracker.Jira:
+      return new JiraClient(credentials, config.settings as JiraSettings)
+    case IssueTracker.Linear:
+      return new LinearClient(credentials, config.settings as LinearSettings)
+    case IssueTracker.GitHub:
+      return new GitHubClient(credentials, config.settings as GitHubSettings)
+  }
+}
@@ -0,0 +1,62 @@
+import { trackerRequest } from './http'
+import type {
+  CreatedIssue,
+  GitHubSettings,
+  TrackerClient,
+  TrackerCredentials,
+  TrackerIssueInput,
+} from './types'
+
+const GITHUB_API_URL = 'https://api.github.com'
+
+/**
+ * GitHub Issues REST API client, authenticated with a personal access token
+ * or fine-grained token that has issue write access to the repository.
+ * GitHub has no priority field, so the mapped priority is added as a label.
+ */
+export class GitHubClient implements TrackerClient {
+  private repoUrl: string
+
+  constructor(
+    private credentials: TrackerCredentials,
+    settings: GitHubSettings
+  ) {
+    const apiBase = (settings.api_base_url || GITHUB_API_URL).replace(/\/+$/, '')
+    this.repoUrl = `${apiBase}/repos/${encodeURIComponent(settings.owner)}/${encodeURIComponent(settings.repo)}`
+  }
+
+  private request<T>(path: string, init: RequestInit): Promise<T> {
+    return trackerRequest<T>('GitHub', `${this.repoUrl}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${this.credentials.api_token}`,
+        Accept: 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    })
+  }
+
+  async createIssue(input: TrackerIssueInput): Promise<CreatedIssue> {
+    const labels = input.priority ? [...input.labels, input.priority] : input.labels
+    const issue = await this.request<{ number: number; html_url: string }>('/issues', {
+      method: 'POST',
+      body: JSON.stringify({ title: input.title, body: input.body, labels }),
+    })
+
+    return { id: String(issue.number), key: `#${issue.number}`, url: issue.html_url }
+  }
+
+  async addComment(issueId: string, body: string): Promise<void> {
+    await this.request(`/issues/${issueId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    })
+  }
+
+  async closeIssue(issueId: string): Promise<void> {
+    await this.request(`/issues/${issueId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ state: 'closed', state_reason: 'completed' }),
+    })
+  }
+}
@@ -0,0 +1,40 @@
+export class TrackerApiError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message)
+    this.name = 'TrackerApiError'
+  }
+}
+
+/**
+ * JSON request to a tracker API. Non-2xx responses throw a TrackerApiError
+ * carrying the status and the start of the response body.
+ */
+export async function trackerRequest<T>(
+  trackerName: string,
+  url: string,
+  init: RequestInit
+): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  })
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '')
+    throw new TrackerApiError(
+      `${trackerName} API error (${response.status}): ${body.slice(0, 300)}`,
+      response.status
+    )
+  }
+
+  // 204 No Content (e.g. Jira transitions)
+  const text = await response.text()
+  return (text ? JSON.parse(text) : null) as T
+}
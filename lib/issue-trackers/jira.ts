@@ -0,0 +1,145 @@
+import { trackerRequest } from './http'
+import type {
+  CreatedIssue,
+  JiraSettings,
+  TrackerClient,
+  TrackerCredentials,
+  TrackerIssueInput,
+} from './types'
+
+interface AdfNode {
+  type: string
+  content?: AdfNode[]
+  text?: string
+  marks?: { type: string; attrs?: Record<string, string> }[]
+  attrs?: Record<string, unknown>
+}
+
+const LINK_PATTERN = /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g
+
+function inlineNodes(line: string): AdfNode[] {
+  const nodes: AdfNode[] = []
+  let last = 0
+  for (const match of line.matchAll(LINK_PATTERN)) {
+    if (match.index > last) nodes.push({ type: 'text', text: line.slice(last, match.index) })
+    nodes.push({
+      type: 'text',
+      text: match[1],
+      marks: [{ type: 'link', attrs: { href: match[2] } }],
+    })
+    last = match.index + match[0].length
+  }
+  if (last < line.length) nodes.push({ type: 'text', text: line.slice(last) })
+  return nodes
+}
+
+/**
+ * Convert the Markdown subset used in ticket bodies (headings, bullet lists,
+ * links, paragraphs) to Atlassian Document Format, which Jira Cloud's v3 API
+ * requires for descriptions and comments.
+ */
+export function markdownToAdf(markdown: string): AdfNode {
+  const content: AdfNode[] = []
+  let list: AdfNode | null = null
+
+  for (const rawLine of markdown.split('\n')) {
+    const line = rawLine.trimEnd()
+    const bullet = line.match(/^[-*] (.*)$/)
+    if (bullet) {
+      list ??= { type: 'bulletList', content: [] }
+      list.content!.push({
+        type: 'listItem',
+        content: [{ type: 'paragraph', content: inlineNodes(bullet[1]) }],
+      })
+      continue
+    }
+    if (list) {
+      content.push(list)
+      list = null
+    }
+    if (!line) continue
+
+    const heading = line.match(/^(#{1,6}) (.*)$/)
+    if (heading) {
+      content.push({
+        type: 'heading',
+        attrs: { level: heading[1].length },
+        content: inlineNodes(heading[2]),
+      })
+    } else {
+      content.push({ type: 'paragraph', content: inlineNodes(line) })
+    }
+  }
+  if (list) content.push(list)
+
+  return { type: 'doc', attrs: { version: 1 }, content }
+}
+
+/**
+ * Jira Cloud REST API v3 client, authenticated with an Atlassian account
+ * email and API token.
+ */
+export class JiraClient implements TrackerClient {
+  private baseUrl: string
+  private authorization: string
+
+  constructor(
+    credentials: TrackerCredentials,
+    private settings: JiraSettings
+  ) {
+    this.baseUrl = settings.base_url.replace(/\/+$/, '')
+    const basic = Buffer.from(`${credentials.email ?? ''}:${credentials.api_token}`).toString(
+      'base64'
+    )
+    this.authorization = `Basic ${basic}`
+  }
+
+  private request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    return trackerRequest<T>('Jira', `${this.baseUrl}/rest/api/3${path}`, {
+      ...init,
+      headers: { Authorization: this.authorization },
+    })
+  }
+
+  async createIssue(input: TrackerIssueInput): Promise<CreatedIssue> {
+    const issue = await this.request<{ id: string; key: string }>('/issue', {
+      method: 'POST',
+      body: JSON.stringify({
+        fields: {
+          project: { key: this.settings.project_key },
+          issuetype: { name: this.settings.issue_type },
+          summary: input.title.slice(0, 255),
+          description: markdownToAdf(input.body),
+          labels: input.labels.map((label) => label.replace(/\s+/g, '-')),
+          ...(input.priority ? { priority: { name: input.priority } } : {}),
+        },
+      }),
+    })
+
+    return { id: issue.id, key: issue.key, url: `${this.baseUrl}/browse/${issue.key}` }
+  }
+
+  async addComment(issueId: string, body: string): Promise<void> {
+    await this.request(`/issue/${issueId}/comment`, {
+      method: 'POST',
+      body: JSON.stringify({ body: markdownToAdf(body) }),
+    })
+  }
+
+  /** Moves the issue through the first available transition into a Done-category status */
+  async closeIssue(issueId: string): Promise<void> {
+    const { transitions } = await this.request<{
+      transitions: { id: string; to: { statusCategory?: { key: string } } }[]
+    }>(`/issue/${issueId}/transitions`)
+
+    const done = transitions.find((t) => t.to.statusCategory?.key === 'done')
+    if (!done) {
+      throw new Error(`No transition to a done status is available for Jira issue ${issueId}`)
+    }
+
+    await this.request(`/issue/${issueId}/transitions`, {
+      method: 'POST',
+      body: JSON.stringify({ transition: { id: done.id } }),
+    })
+  }
+}
@@ -0,0 +1,96 @@
+import { trackerRequest } from './http'
+import type {
+  CreatedIssue,
+  LinearSettings,
+  TrackerClient,
+  TrackerCredentials,
+  TrackerIssueInput,
+} from './types'
+
+const LINEAR_API_URL = 'https://api.linear.app/graphql'
+
+const CREATE_ISSUE_MUTATION = `mutation CreateIssue($input: IssueCreateInput!) {
+  issueCreate(input: $input) { success issue { id identifier url } }
+}`
+
+const CREATE_COMMENT_MUTATION = `mutation CreateComment($input: CommentCreateInput!) {
+  commentCreate(input: $input) { success }
+}`
+
+const COMPLETED_STATES_QUERY = `query CompletedStates($issueId: String!) {
+  issue(id: $issueId) {
+    team { states(filter: { type: { eq: "completed" } }) { nodes { id position } } }
+  }
+}`
+
+const UPDATE_ISSUE_MUTATION = `mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) {
+  issueUpdate(id: $id, input: $input) { success }
+}`
+
+/**
+ * Linear GraphQL API client, authenticated with a personal API key.
+ * Linear takes Markdown descriptions natively; priorities are 0 (none)
+ * through 4 (low).
+ */
+export class LinearClient implements TrackerClient {
+  constructor(
+    private credentials: TrackerCredentials,
+    private settings: LinearSettings,
+    private endpoint: string = LINEAR_API_URL
+  ) {}
+
+  private async graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const result = await trackerRequest<{ data?: T; errors?: { message: string }[] }>(
+      'Linear',
+      this.endpoint,
+      {
+        method: 'POST',
+        headers: { Authorization: this.credentials.api_token },
+        body: JSON.stringify({ query, variables }),
+      }
+    )
+
+    // GraphQL reports failures with a 200 status
+    if (result.errors?.length || !result.data) {
+      throw new Error(
+        `Linear API error: ${result.errors?.map((e) => e.message).join('; ') ?? 'no data'}`
+      )
+    }
+    return result.data
+  }
+
+  async createIssue(input: TrackerIssueInput): Promise<CreatedIssue> {
+    const priority = input.priority ? Number(input.priority) : NaN
+    const data = await this.graphql<{
+      issueCreate: { success: boolean; issue: { id: string; identifier: string; url: string } }
+    }>(CREATE_ISSUE_MUTATION, {
+      input: {
+        teamId: this.settings.team_id,
+        title: input.title,
+        description: input.body,
+        ...(Number.isInteger(priority) ? { priority } : {}),
+      },
+    })
+
+    const { issue } = data.issueCreate
+    return { id: issue.id, key: issue.identifier, url: issue.url }
+  }
+
+  async addComment(issueId: string, body: string): Promise<void> {
+    await this.graphql(CREATE_COMMENT_MUTATION, { input: { issueId, body } })
+  }
+
+  /** Moves the issue to the team's first "completed" workflow state */
+  async closeIssue(issueId: string): Promise<void> {
+    const data = await this.graphql<{
+      issue: { team: { states: { nodes: { id: string; position: number }[] } } }
+    }>(COMPLETED_STATES_QUERY, { issueId })
+
+    const [state] = [...data.issue.team.states.nodes].sort((a, b) => a.position - b.position)
+    if (!state) {
+      throw new Error(`No completed workflow state found for Linear issue ${issueId}`)
+    }
+
+    await this.graphql(UPDATE_ISSUE_MUTATION, { id: issueId, input: { stateId: state.id } })
+  }
+}
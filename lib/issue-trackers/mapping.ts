@@ -0,0 +1,165 @@
+import { CheckPriority, IssueTracker, TicketGrouping } from '@/lib/enums'
+import type { AuditCheck } from '@/lib/unified-audit/types'
+import type {
+  GitHubSettings,
+  IssueTrackerConfig,
+  JiraSettings,
+  PriorityMapping,
+  TicketDraft,
+  TrackerIssueInput,
+  TrackerSettings,
+} from './types'
+
+export type TicketCheck = Pick<
+  AuditCheck,
+  | 'check_name'
+  | 'page_url'
+  | 'display_name'
+  | 'description'
+  | 'priority'
+  | 'fix_guidance'
+  | 'learn_more_url'
+>
+
+export const TRACKER_LABELS: Record<IssueTracker, string> = {
+  [IssueTracker.Jira]: 'Jira',
+  [IssueTracker.Linear]: 'Linear',
+  [IssueTracker.GitHub]: 'GitHub Issues',
+}
+
+/**
+ * The configurable URL a tracker's API token is sent to: the Jira site, or a
+ * GitHub Enterprise API root (empty for Linear and github.com). A stored token
+ * is only reused while this stays the same, so it can't be pointed at another host.
+ */
+export function credentialTarget(tracker: IssueTracker, settings: TrackerSettings): string {
+  const url =
+    tracker === IssueTracker.Jira
+      ? (settings as JiraSettings).base_url
+      : tracker === IssueTracker.GitHub
+        ? (settings as GitHubSettings).api_base_url
+        : ''
+  return (url ?? '').trim().replace(/\/+$/, '').toLowerCase()
+}
+
+/**
+ * Used for any check priority the organization has not mapped. Jira takes a
+ * priority name, Linear a number (1 urgent … 4 low), GitHub a label.
+ */
+export const DEFAULT_PRIORITY_MAPPING: Record<IssueTracker, PriorityMapping> = {
+  [IssueTracker.Jira]: {
+    [CheckPriority.Critical]: 'High',
+    [CheckPriority.Recommended]: 'Medium',
+    [CheckPriority.Optional]: 'Low',
+  },
+  [IssueTracker.Linear]: {
+    [CheckPriority.Critical]: '2',
+    [CheckPriority.Recommended]: '3',
+    [CheckPriority.Optional]: '4',
+  },
+  [IssueTracker.GitHub]: {
+    [CheckPriority.Critical]: 'priority: critical',
+    [CheckPriority.Recommended]: 'priority: recommended',
+    [CheckPriority.Optional]: 'priority: optional',
+  },
+}
+
+const PRIORITY_RANK: Record<CheckPriority, number> = {
+  [CheckPriority.Critical]: 0,
+  [CheckPriority.Recommended]: 1,
+  [CheckPriority.Optional]: 2,
+}
+
+// Keeps issue bodies well under tracker size limits on large sites
+const MAX_LISTED_PAGES = 50
+
+function highestPriority(checks: TicketCheck[]): CheckPriority {
+  return checks.reduce<CheckPriority>(
+    (best, c) => (PRIORITY_RANK[c.priority] < PRIORITY_RANK[best] ? c.priority : best),
+    CheckPriority.Optional
+  )
+}
+
+function pageLabel(pageUrl: string | null): string {
+  return pageUrl ?? 'Site-wide'
+}
+
+function checkTicketBody(checks: TicketCheck[], domain: string): string {
+  const [check] = checks
+  const pages = [...new Set(checks.map((c) => pageLabel(c.page_url)))]
+  const lines = [check.description, '', `## Affected pages on ${domain} (${pages.length})`]
+  lines.push(...pages.slice(0, MAX_LISTED_PAGES).map((page) => `- ${page}`))
+  if (pages.length > MAX_LISTED_PAGES) {
+    lines.push(`- …and ${pages.length - MAX_LISTED_PAGES} more`)
+  }
+  if (check.fix_guidance) lines.push('', '## How to fix', check.fix_guidance)
+  if (check.learn_more_url) lines.push('', `[Learn more](${check.learn_more_url})`)
+  return lines.join('\n')
+}
+
+function pageTicketBody(checks: TicketCheck[], pageUrl: string | null): string {
+  const lines = [`Failed audit checks for ${pageLabel(pageUrl)}:`]
+  for (const check of checks) {
+    lines.push('', `## ${check.display_name}`, check.description)
+    if (check.fix_guidance) lines.push('', `How to fix: ${check.fix_guidance}`)
+    if (check.learn_more_url) lines.push('', `[Learn more](${check.learn_more_url})`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Group failed checks into issue drafts: one per check (listing affected
+ * pages) or one per page (listing its failed checks). Site-wide checks have
+ * no page and form their own page group.
+ */
+export function buildTicketDrafts(
+  checks: TicketCheck[],
+  grouping: TicketGrouping,
+  domain: string
+): TicketDraft[] {
+  const groups = new Map<string, TicketCheck[]>()
+  for (const check of checks) {
+    const key = grouping === TicketGrouping.CheckType ? check.check_name : (check.page_url ?? '')
+    groups.set(key, [...(groups.get(key) ?? []), check])
+  }
+
+  return [...groups.values()]
+    .map((group): TicketDraft => {
+      const [first] = group
+      const checkNames = [...new Set(group.map((c) => c.check_name))]
+
+      if (grouping === TicketGrouping.CheckType) {
+        return {
+          grouping,
+          check_name: first.check_name,
+          page_url: null,
+          check_names: checkNames,
+          title: `${first.display_name} (${domain})`,
+          body: checkTicketBody(group, domain),
+          priority: highestPriority(group),
+        }
+      }
+
+      return {
+        grouping,
+        check_name: null,
+        page_url: first.page_url,
+        check_names: checkNames,
+        title: `Fix ${checkNames.length} audit issue${checkNames.length === 1 ? '' : 's'} on ${pageLabel(first.page_url)}`,
+        body: pageTicketBody(group, first.page_url),
+        priority: highestPriority(group),
+      }
+    })
+    .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority])
+}
+
+/** Apply the organization's priority mapping and labels to a draft */
+export function toIssueInput(
+  draft: TicketDraft,
+  config: Pick<IssueTrackerConfig, 'tracker' | 'priority_mapping' | 'labels'>
+): TrackerIssueInput {
+  const priority =
+    config.priority_mapping[draft.priority] ||
+    DEFAULT_PRIORITY_MAPPING[config.tracker][draft.priority]
+  return { title: draft.title, body: draft.body, priority: priority || null, labels: config.labels }
+}
@@ -0,0 +1,292 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { paginateQuery } from '@/lib/supabase/paginate'
+import { CheckStatus, TicketGrouping, TicketStatus, UnifiedAuditStatus } from '@/lib/enums'
+import { getTrackerClient } from './client'
+import { buildTicketDrafts, toIssueInput, type TicketCheck } from './mapping'
+import type { AuditCheckTicket, IssueTrackerConfig, TicketDraft, TrackerClient } from './types'
+
+const COMPLETED_STATUSES = [UnifiedAuditStatus.Completed, UnifiedAuditStatus.CompletedWithErrors]
+
+const TICKET_CHECK_SELECT = `check_name, page_url, display_name, description, priority,
+  fix_guidance, learn_more_url` as '*'
+
+export interface PushTicketsResult {
+  created: AuditCheckTicket[]
+  /** Drafts that already have an open ticket for the site */
+  skipped: number
+  failed: { title: string; error: string }[]
+}
+
+type CheckResult = Pick<TicketCheck, 'check_name' | 'page_url'> & { status: CheckStatus }
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function getIssueTrackerConfig(organizationId: string): Promise<IssueTrackerConfig | null> {
+  const supabase = createServiceClient()
+  const { data } = await supabase
+    .from('issue_tracker_configs')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .maybeSingle()
+  return (data as IssueTrackerConfig | null) ?? null
+}
+
+function fetchFailedChecks<T>(auditId: string, select: string): Promise<T[]> {
+  const supabase = createServiceClient()
+  return paginateQuery<T>(
+    (sb, range) =>
+      sb
+        .from('audit_checks')
+        .select(select as '*')
+        .eq('audit_id', auditId)
+        .eq('status', CheckStatus.Failed)
+        .order('created_at', { ascending: true })
+        .range(range.from, range.to),
+    supabase
+  )
+}
+
+function fetchCheckResults(auditId: string, checkNames: string[]): Promise<CheckResult[]> {
+  const supabase = createServiceClient()
+  return paginateQuery<CheckResult>(
+    (sb, range) =>
+      sb
+        .from('audit_checks')
+        .select('check_name, page_url, status' as '*')
+        .eq('audit_id', auditId)
+        .in('check_name', checkNames)
+        .order('created_at', { ascending: true })
+        .range(range.from, range.to),
+    supabase
+  )
+}
+
+function ticketIdentity(ticket: Pick<TicketDraft, 'grouping' | 'check_name' | 'page_url'>): string {
+  return ticket.grouping === TicketGrouping.CheckType
+    ? `check:${ticket.check_name}`
+    : `page:${ticket.page_url ?? ''}`
+}
+
+/**
+ * Whether the audit shows every check covered by the ticket passing: each
+ * must have a passed result and no failed one. A check the audit didn't run
+ * (page not crawled, module errored) keeps the ticket open. Page tickets only
+ * follow the checks they were created for, on their page.
+ */
+export function isTicketResolved(
+  ticket: Pick<AuditCheckTicket, 'grouping' | 'page_url' | 'check_names'>,
+  results: CheckResult[]
+): boolean {
+  return ticket.check_names.every((checkName) => {
+    const matching = results.filter(
+      (r) =>
+        r.check_name === checkName &&
+        (ticket.grouping === TicketGrouping.CheckType || r.page_url === ticket.page_url)
+    )
+    return (
+      matching.some((r) => r.status === CheckStatus.Passed) &&
+      !matching.some((r) => r.status === CheckStatus.Failed)
+    )
+  })
+}
+
+// =============================================================================
+// Push
+// =============================================================================
+
+/**
+ * Create tracker issues for an audit's failed checks. Checks that already
+ * have an open ticket for the same site are skipped, so pushing twice does
+ * not duplicate issues. The caller is responsible for access checks.
+ */
+export async function pushAuditChecksToTracker(input: {
+  auditId: string
+  grouping: TicketGrouping
+  /** Limit to these checks; all failed checks when omitted */
+  checkNames?: string[]
+  userId: string
+}): Promise<PushTicketsResult> {
+  const supabase = createServiceClient()
+
+  const { data: audit } = await supabase
+    .from('audits')
+    .select('id, organization_id, domain')
+    .eq('id', input.auditId)
+    .single()
+
+  if (!audit?.organization_id) {
+    throw new Error('Audit not found')
+  }
+
+  const config = await getIssueTrackerConfig(audit.organization_id)
+  if (!config) {
+    throw new Error('No issue tracker is configured for this organization')
+  }
+
+  const checks = await fetchFailedChecks<TicketCheck>(input.auditId, TICKET_CHECK_SELECT)
+  const selected = input.checkNames
+    ? checks.filter((c) => input.checkNames!.includes(c.check_name))
+    : checks
+  const drafts = buildTicketDrafts(selected, input.grouping, audit.domain)
+
+  const { data: openTickets } = await supabase
+    .from('audit_check_tickets')
+    .select('grouping, check_name, page_url')
+    .eq('organization_id', audit.organization_id)
+    .eq('domain', audit.domain)
+    .eq('tracker', config.tracker)
+    .eq('status', TicketStatus.Open)
+
+  const existing = new Set(
+    ((openTickets ?? []) as Pick<TicketDraft, 'grouping' | 'check_name' | 'page_url'>[]).map(
+      ticketIdentity
+    )
+  )
+  const toCreate = drafts.filter((draft) => !existing.has(ticketIdentity(draft)))
+
+  const client = getTrackerClient(config)
+  const result: PushTicketsResult = {
+    created: [],
+    skipped: drafts.length - toCreate.length,
+    failed: [],
+  }
+
+  // Sequential to stay inside tracker rate limits
+  for (const draft of toCreate) {
+    try {
+      const issue = await client.createIssue(toIssueInput(draft, config))
+
+      const { data: ticket, error } = await supabase
+        .from('audit_check_tickets')
+        .insert({
+          organization_id: audit.organization_id,
+          domain: audit.domain,
+          tracker: config.tracker,
+          grouping: draft.grouping,
+          check_name: draft.check_name,
+          page_url: draft.page_url,
+          check_names: draft.check_names,
+          external_id: issue.id,
+          external_key: issue.key,
+          external_url: issue.url,
+          created_from_audit_id: input.auditId,
+          last_synced_audit_id: input.auditId,
+          created_by: input.userId,
+        })
+        .select()
+        .single()
+
+      if (error || !ticket) {
+        throw new Error(`Created ${issue.key} but failed to record it: ${error?.message}`)
+      }
+      result.created.push(ticket as AuditCheckTicket)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error('[Issue Tracker Error]', {
+        type: 'create_issue_failed',
+        auditId: input.auditId,
+        tracker: config.tracker,
+        title: draft.title,
+        error: message,
+        timestamp: new Date().toISOString(),
+      })
+      result.failed.push({ title: draft.title, error: message })
+    }
+  }
+
+  return result
+}
+
+// =============================================================================
+// Runner Hook
+// =============================================================================
+
+async function resolveTicket(
+  client: TrackerClient,
+  ticket: AuditCheckTicket,
+  config: IssueTrackerConfig,
+  auditLink: string
+): Promise<void> {
+  await client.addComment(
+    ticket.external_id,
+    `All checks on this issue passed in the latest site audit of ${ticket.domain}.\n\n[View audit](${auditLink})`
+  )
+  if (config.auto_close) {
+    await client.closeIssue(ticket.external_id)
+  }
+}
+
+/**
+ * After a unified audit finishes, comment on (and, when the organization has
+ * auto-close on, close) open tracker issues whose checks now pass, then mark
+ * them resolved. Fire-and-forget: never throws.
+ */
+export async function syncAuditCheckTickets(auditId: string): Promise<void> {
+  try {
+    const supabase = createServiceClient()
+
+    const { data: audit } = await supabase
+      .from('audits')
+      .select('id, organization_id, domain, status')
+      .eq('id', auditId)
+      .single()
+
+    if (!audit?.organization_id || !COMPLETED_STATUSES.includes(audit.status)) return
+
+    const config = await getIssueTrackerConfig(audit.organization_id)
+    if (!config) return
+
+    const { data: openTickets } = await supabase
+      .from('audit_check_tickets')
+      .select('*')
+      .eq('organization_id', audit.organization_id)
+      .eq('domain', audit.domain)
+      .eq('tracker', config.tracker)
+      .eq('status', TicketStatus.Open)
+
+    if (!openTickets?.length) return
+
+    const tickets = openTickets as AuditCheckTicket[]
+    const checkNames = [...new Set(tickets.flatMap((t) => t.check_names))]
+    const results = await fetchCheckResults(auditId, checkNames)
+    const resolved = tickets.filter((ticket) => isTicketResolved(ticket, results))
+    if (resolved.length === 0) return
+
+    const client = getTrackerClient(config)
+    const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://app.selo.io'
+    const auditLink = `${baseUrl}/${audit.organization_id}/seo/audit/${auditId}`
+
+    for (const ticket of resolved) {
+      try {
+        await resolveTicket(client, ticket, config, auditLink)
+        await supabase
+          .from('audit_check_tickets')
+          .update({
+            status: TicketStatus.Resolved,
+            resolved_at: new Date().toISOString(),
+            last_synced_audit_id: auditId,
+          })
+          .eq('id', ticket.id)
+      } catch (error) {
+        // Left open so the next audit retries
+        console.error('[Issue Tracker Error]', {
+          type: 'resolve_ticket_failed',
+          auditId,
+          ticketId: ticket.id,
+          externalKey: ticket.external_key,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        })
+      }
+    }
+  } catch (error) {
+    console.error('[Issue Tracker Error]', {
+      type: 'sync_failed',
+      auditId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+  }
+}
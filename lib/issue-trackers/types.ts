@@ -0,0 +1,116 @@
+import type { CheckPriority, IssueTracker, TicketGrouping, TicketStatus } from '@/lib/enums'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface JiraSettings {
+  /** Site URL, e.g. https://acme.atlassian.net */
+  base_url: string
+  project_key: string
+  issue_type: string
+}
+
+export interface LinearSettings {
+  team_id: string
+}
+
+export interface GitHubSettings {
+  owner: string
+  repo: string
+  /** GitHub Enterprise API root; defaults to https://api.github.com */
+  api_base_url?: string
+}
+
+export type TrackerSettings = JiraSettings | LinearSettings | GitHubSettings
+
+/** Decrypted `issue_tracker_configs.credentials` */
+export interface TrackerCredentials {
+  api_token: string
+  /** Atlassian account email; Jira only */
+  email?: string
+}
+
+/** Tracker priority name (Jira), priority number (Linear) or label (GitHub) */
+export type PriorityMapping = Record<CheckPriority, string>
+
+export interface IssueTrackerConfig {
+  id: string
+  organization_id: string
+  tracker: IssueTracker
+  /** Encrypted TrackerCredentials */
+  credentials: string
+  settings: TrackerSettings
+  priority_mapping: Partial<PriorityMapping>
+  labels: string[]
+  auto_close: boolean
+  created_at: string
+  updated_at: string
+}
+
+/** Config as shown in settings, without the stored credentials */
+export type IssueTrackerConfigSummary = Omit<IssueTrackerConfig, 'credentials'>
+
+// =============================================================================
+// Tickets
+// =============================================================================
+
+export interface AuditCheckTicket {
+  id: string
+  organization_id: string
+  domain: string
+  tracker: IssueTracker
+  grouping: TicketGrouping
+  check_name: string | null
+  page_url: string | null
+  check_names: string[]
+  external_id: string
+  external_key: string
+  external_url: string | null
+  status: TicketStatus
+  created_from_audit_id: string | null
+  last_synced_audit_id: string | null
+  created_by: string | null
+  created_at: string
+  resolved_at: string | null
+}
+
+/** Issue content before it is sent to a tracker */
+export interface TicketDraft {
+  grouping: TicketGrouping
+  check_name: string | null
+  page_url: string | null
+  check_names: string[]
+  title: string
+  /** Markdown */
+  body: string
+  /** Highest priority among the grouped checks */
+  priority: CheckPriority
+}
+
+// =============================================================================
+// Tracker API
+// =============================================================================
+
+export interface TrackerIssueInput {
+  title: string
+  /** Markdown; converted for trackers that need another format */
+  body: string
+  /** Mapped tracker priority, if any */
+  priority: string | null
+  labels: string[]
+}
+
+export interface CreatedIssue {
+  /** ID used for later API calls */
+  id: string
+  /** Human-readable reference, e.g. SEO-12, ENG-34 or #56 */
+  key: string
+  url: string | null
+}
+
+export interface TrackerClient {
+  createIssue(input: TrackerIssueInput): Promise<CreatedIssue>
+  addComment(issueId: string, body: string): Promise<void>
+  closeIssue(issueId: string): Promise<void>
+}
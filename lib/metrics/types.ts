@@ -62,3 +62,27 @@ export const HUBSPOT_METRICS = [
   { metricType: 'hubspot_deals_lost', label: 'Deals Lost' },
   { metricType: 'hubspot_form_submissions', label: 'Form Submissions' },
 ] as const
+
+export const META_METRICS = [
+  { metricType: 'meta_followers', label: 'Followers' },
+  { metricType: 'meta_new_followers', label: 'New Followers' },
+  { metricType: 'meta_views', label: 'Views' },
+  { metricType: 'meta_page_visits', label: 'Page Visits' },
+  { metricType: 'meta_post_engagements', label: 'Post Engagements' },
+] as const
+
+export const INSTAGRAM_METRICS = [
+  { metricType: 'instagram_followers', label: 'Followers' },
+  { metricType: 'instagram_new_followers', label: 'New Followers' },
+  { metricType: 'instagram_views', label: 'Views' },
+  { metricType: 'instagram_reach', label: 'Reach' },
+  { metricType: 'instagram_profile_views', label: 'Profile Views' },
+  { metricType: 'instagram_interactions', label: 'Interactions' },
+] as const
+
+export const SEARCH_CONSOLE_METRICS = [
+  { metricType: 'gsc_clicks', label: 'Clicks' },
+  { metricType: 'gsc_impressions', label: 'Impressions' },
+  { metricType: 'gsc_ctr', label: 'CTR (%)' },
+  { metricType: 'gsc_position', label: 'Avg. Position' },
+] as const
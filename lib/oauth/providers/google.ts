@@ -3,9 +3,10 @@ import { OAuthProvider } from '../base'
 import { Platform, TokenResponse, Account } from '../types'
 
 export class GoogleOAuthProvider extends OAuthProvider {
-  platform = Platform.GOOGLE_ANALYTICS
-  private clientId: string
-  private clientSecret: string
+  platform: Platform = Platform.GOOGLE_ANALYTICS
+  protected scope = 'https://www.googleapis.com/auth/analytics.readonly'
+  protected clientId: string
+  protected clientSecret: string
 
   constructor() {
     super()
@@ -29,7 +30,7 @@ export class GoogleOAuthProvider extends OAuthProvider {
       client_id: this.clientId,
       redirect_uri: redirectUri,
       state: state,
-      scope: 'https://www.googleapis.com/auth/analytics.readonly',
+      scope: this.scope,
       access_type: 'offline', // Required to get refresh token
       prompt: 'consent', // Force consent screen to get refresh token
     })
@@ -40,7 +41,7 @@ export class GoogleOAuthProvider extends OAuthProvider {
       console.error('[Google OAuth] Authorization URL generated:', {
         state,
         redirectUri,
-        scopes: 'analytics.readonly',
+        scopes: this.scope,
         fullUrl: url,
       })
     }
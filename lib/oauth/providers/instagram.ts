@@ -0,0 +1,49 @@
+// lib/oauth/providers/instagram.ts
+import { Platform, Account } from '../types'
+import { MetaOAuthProvider } from './meta'
+
+interface PageWithInstagram {
+  id: string
+  name: string
+  instagram_business_account?: { id: string; username?: string }
+}
+
+/**
+ * Instagram professional accounts connect through Facebook Login: each one is
+ * linked to a Facebook Page, so the token flow is the same as Meta and only
+ * the scopes and the account list differ.
+ */
+export class InstagramOAuthProvider extends MetaOAuthProvider {
+  platform: Platform = Platform.INSTAGRAM
+  protected scopes = [
+    'pages_show_list',
+    'pages_read_engagement',
+    'instagram_basic',
+    'instagram_manage_insights',
+  ]
+
+  async fetchUserAccounts(accessToken: string): Promise<Account[]> {
+    const pages = await this.fetchPages<PageWithInstagram>(
+      accessToken,
+      'id,name,instagram_business_account{id,username}'
+    )
+
+    const seen = new Set<string>()
+    const accounts: Account[] = []
+    for (const page of pages) {
+      const ig = page.instagram_business_account
+      if (!ig || seen.has(ig.id)) continue
+      seen.add(ig.id)
+      accounts.push({ id: ig.id, name: ig.username ? `@${ig.username}` : page.name })
+    }
+
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Instagram OAuth] Accounts fetched:', {
+        count: accounts.length,
+        accounts,
+      })
+    }
+
+    return accounts
+  }
+}
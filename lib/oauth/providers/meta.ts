@@ -0,0 +1,183 @@
+// lib/oauth/providers/meta.ts
+import { OAuthProvider } from '../base'
+import { Platform, TokenResponse, Account } from '../types'
+
+export const META_GRAPH_API_BASE = 'https://graph.facebook.com/v23.0'
+
+// Meta does not return expires_in for some long-lived tokens; they last ~60 days
+const DEFAULT_LONG_LIVED_EXPIRES_IN = 60 * 24 * 60 * 60
+
+/**
+ * Facebook Login for Facebook Pages.
+ *
+ * Meta has no refresh tokens: the short-lived code token is swapped for a
+ * long-lived (~60 day) user token, which is stored as both the access and the
+ * refresh token. "Refreshing" exchanges the still-valid long-lived token for a
+ * new one, so connections keep working as long as the daily sync runs.
+ */
+export class MetaOAuthProvider extends OAuthProvider {
+  platform: Platform = Platform.META
+  protected scopes = ['pages_show_list', 'pages_read_engagement', 'read_insights']
+  protected appId: string
+  protected appSecret: string
+
+  constructor() {
+    super()
+    this.validateConfig()
+    this.appId = process.env.META_APP_ID!
+    this.appSecret = process.env.META_APP_SECRET!
+  }
+
+  private validateConfig(): void {
+    if (!process.env.META_APP_ID || !process.env.META_APP_SECRET) {
+      throw new Error(
+        'Missing required Meta OAuth environment variables. ' +
+          'Please set META_APP_ID and META_APP_SECRET in .env.local'
+      )
+    }
+  }
+
+  getAuthorizationUrl(state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.appId,
+      redirect_uri: redirectUri,
+      state: state,
+      scope: this.scopes.join(','),
+    })
+
+    const url = `https://www.facebook.com/v23.0/dialog/oauth?${params}`
+
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Meta OAuth] Authorization URL generated:', {
+        platform: this.platform,
+        state,
+        redirectUri,
+        scopes: this.scopes.join(','),
+        fullUrl: url,
+      })
+    }
+
+    return url
+  }
+
+  async exchangeCodeForTokens(code: string, redirectUri: string): Promise<TokenResponse> {
+    const params = new URLSearchParams({
+      client_id: this.appId,
+      client_secret: this.appSecret,
+      redirect_uri: redirectUri,
+      code,
+    })
+
+    const response = await fetch(`${META_GRAPH_API_BASE}/oauth/access_token?${params}`)
+
+    if (!response.ok) {
+      let error
+      try {
+        error = await response.json()
+      } catch {
+        error = await response.text()
+      }
+      console.error('[Meta OAuth] Token exchange failed:', {
+        status: response.status,
+        error,
+        timestamp: new Date().toISOString(),
+      })
+      throw new Error(`Token exchange failed: ${response.status}`)
+    }
+
+    const data = await response.json()
+
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Meta OAuth] Token exchange response:', {
+        hasAccessToken: !!data.access_token,
+        expiresIn: data.expires_in,
+      })
+    }
+
+    return this.exchangeForLongLivedToken(data.access_token)
+  }
+
+  async refreshAccessToken(refreshToken: string): Promise<TokenResponse> {
+    return this.exchangeForLongLivedToken(refreshToken)
+  }
+
+  private async exchangeForLongLivedToken(accessToken: string): Promise<TokenResponse> {
+    const params = new URLSearchParams({
+      grant_type: 'fb_exchange_token',
+      client_id: this.appId,
+      client_secret: this.appSecret,
+      fb_exchange_token: accessToken,
+    })
+
+    const response = await fetch(`${META_GRAPH_API_BASE}/oauth/access_token?${params}`)
+
+    if (!response.ok) {
+      let error
+      try {
+        error = await response.json()
+      } catch {
+        error = await response.text()
+      }
+      console.error('[Meta OAuth] Long-lived token exchange failed:', {
+        status: response.status,
+        error,
+        timestamp: new Date().toISOString(),
+      })
+      throw new Error(`Token refresh failed: ${response.status}`)
+    }
+
+    const data = await response.json()
+
+    return {
+      access_token: data.access_token,
+      refresh_token: data.access_token,
+      expires_in: data.expires_in ?? DEFAULT_LONG_LIVED_EXPIRES_IN,
+      scopes: this.scopes,
+    }
+  }
+
+  async fetchUserAccounts(accessToken: string): Promise<Account[]> {
+    const pages = await this.fetchPages<{ id: string; name: string }>(accessToken, 'id,name')
+
+    const accounts = pages.map((page) => ({ id: page.id, name: page.name }))
+
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Meta OAuth] Pages fetched:', {
+        count: accounts.length,
+        accounts,
+      })
+    }
+
+    return accounts
+  }
+
+  /**
+   * List every Facebook Page the user manages, following pagination.
+   */
+  protected async fetchPages<T>(accessToken: string, fields: string): Promise<T[]> {
+    const pages: T[] = []
+    let url: string | null =
+      `${META_GRAPH_API_BASE}/me/accounts?${new URLSearchParams({ fields, limit: '100' })}`
+
+    while (url) {
+      const response: Response = await fetch(url, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      })
+
+      if (!response.ok) {
+        console.error('[Meta OAuth] Fetch pages failed:', {
+          status: response.status,
+          timestamp: new Date().toISOString(),
+        })
+        throw new Error(`Failed to fetch Facebook Pages: ${response.status}`)
+      }
+
+      const data: { data?: T[]; paging?: { next?: string } } = await response.json()
+      pages.push(...(data.data ?? []))
+      url = data.paging?.next ?? null
+    }
+
+    return pages
+  }
+}
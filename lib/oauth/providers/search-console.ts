@@ -0,0 +1,59 @@
+// lib/oauth/providers/search-console.ts
+import { Platform, Account } from '../types'
+import { GoogleOAuthProvider } from './google'
+
+interface SiteEntry {
+  siteUrl: string
+  permissionLevel: string
+}
+
+/**
+ * Search Console uses the same Google OAuth client as Google Analytics, with
+ * its own read-only scope. Accounts are the verified properties (URL-prefix or
+ * domain) the user can see, identified by their siteUrl.
+ */
+export class SearchConsoleOAuthProvider extends GoogleOAuthProvider {
+  platform: Platform = Platform.SEARCH_CONSOLE
+  protected scope = 'https://www.googleapis.com/auth/webmasters.readonly'
+
+  async fetchUserAccounts(accessToken: string): Promise<Account[]> {
+    const response = await fetch('https://www.googleapis.com/webmasters/v3/sites', {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    })
+
+    if (!response.ok) {
+      let errorBody
+      try {
+        errorBody = await response.json()
+      } catch {
+        errorBody = await response.text()
+      }
+      console.error('[Search Console OAuth] Fetch sites failed:', {
+        status: response.status,
+        error: errorBody,
+        timestamp: new Date().toISOString(),
+      })
+      throw new Error(
+        `Failed to fetch Search Console sites: ${response.status} - ${JSON.stringify(errorBody)}`
+      )
+    }
+
+    const data: { siteEntry?: SiteEntry[] } = await response.json()
+
+    // Unverified users can list a property but can't query its analytics
+    const accounts: Account[] = (data.siteEntry || [])
+      .filter((site) => site.permissionLevel !== 'siteUnverifiedUser')
+      .map((site) => ({ id: site.siteUrl, name: site.siteUrl }))
+
+    if (process.env.NODE_ENV === 'development') {
+      console.error('[Search Console OAuth] Sites fetched:', {
+        count: accounts.length,
+        accounts,
+      })
+    }
+
+    return accounts
+  }
+}
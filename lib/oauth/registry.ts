@@ -4,11 +4,17 @@ import { OAuthProvider } from './base'
 import { LinkedInOAuthProvider } from './providers/linkedin'
 import { GoogleOAuthProvider } from './providers/google'
 import { HubSpotOAuthProvider } from './providers/hubspot'
+import { MetaOAuthProvider } from './providers/meta'
+import { InstagramOAuthProvider } from './providers/instagram'
+import { SearchConsoleOAuthProvider } from './providers/search-console'
 
 const providers = {
   [Platform.LINKEDIN]: LinkedInOAuthProvider,
   [Platform.GOOGLE_ANALYTICS]: GoogleOAuthProvider,
   [Platform.HUBSPOT]: HubSpotOAuthProvider,
+  [Platform.META]: MetaOAuthProvider,
+  [Platform.INSTAGRAM]: InstagramOAuthProvider,
+  [Platform.SEARCH_CONSOLE]: SearchConsoleOAuthProvider,
 } as const
 
 export function getOAuthProvider(platform: Platform): OAuthProvider {
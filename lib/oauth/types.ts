@@ -6,6 +6,7 @@ export enum Platform {
   INSTAGRAM = 'instagram',
   HUBSPOT = 'hubspot',
   META = 'meta',
+  SEARCH_CONSOLE = 'search_console',
 }
 
 export type PlatformType = `${Platform}`
@@ -5,8 +5,9 @@ export function getPlatformDisplayName(platform: Platform | string): string {
     [Platform.LINKEDIN]: 'LinkedIn',
     [Platform.GOOGLE_ANALYTICS]: 'Google Analytics',
     [Platform.INSTAGRAM]: 'Instagram',
-    [Platform.META]: 'Meta',
+    [Platform.META]: 'Facebook',
     [Platform.HUBSPOT]: 'HubSpot',
+    [Platform.SEARCH_CONSOLE]: 'Search Console',
   }
 
   return displayNames[platform as Platform] || platform
@@ -0,0 +1,297 @@
+import { Transform } from 'stream'
+import JSZip from 'jszip'
+import { paginateQuery } from '@/lib/supabase/paginate'
+import { toCsv } from '@/lib/utils/csv'
+import { DataExportStatus } from '@/lib/enums'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const DATA_EXPORT_BUCKET = 'organization-exports'
+
+export const DATA_EXPORT_CONTENT_TYPE = 'application/zip'
+
+// Entry in organizations.data_export_history
+export interface DataExportRecord {
+  id: string
+  status: DataExportStatus
+  requested_by: string
+  requested_at: string
+  completed_at: string
+  /** Storage path in the organization-exports bucket; null when the export failed */
+  file_path: string | null
+  size_bytes: number | null
+  /** Rows exported per dataset, keyed by file path without extension (per-audit files are summed) */
+  row_counts: Record<string, number>
+  error?: string
+}
+
+type Row = Record<string, unknown>
+
+// Secrets and export bookkeeping are left out of organization.json
+const EXCLUDED_ORGANIZATION_COLUMNS = ['ai_api_key', 'data_export_history']
+
+// Stored raw/rendered HTML is left out: it can be hundreds of KB per page
+const AUDIT_PAGE_COLUMNS = `id, audit_id, url, title, meta_description, status_code, last_modified,
+  is_resource, resource_type, depth, canonical_url, hreflang, is_noindex, created_at`
+
+function fetchByOrganization(
+  supabase: SupabaseClient,
+  table: string,
+  organizationId: string
+): Promise<Row[]> {
+  return paginateQuery<Row>(
+    (sb, range) =>
+      sb
+        .from(table)
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('id', { ascending: true })
+        .range(range.from, range.to),
+    supabase
+  )
+}
+
+function fetchByParent(
+  supabase: SupabaseClient,
+  table: string,
+  column: string,
+  parentId: string,
+  select = '*'
+): Promise<Row[]> {
+  return paginateQuery<Row>(
+    (sb, range) =>
+      sb
+        .from(table)
+        .select(select as '*')
+        .eq(column, parentId)
+        .order('id', { ascending: true })
+        .range(range.from, range.to),
+    supabase
+  )
+}
+
+function formatCsvValue(value: unknown): string | number | null {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'number') return value
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Serialize rows to CSV with a header row. Columns are the union of every
+ * row's keys; nested values (JSON columns, arrays) are written as JSON.
+ */
+export function rowsToCsv(rows: Row[]): string {
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))))
+  return toCsv([columns, ...rows.map((row) => columns.map((c) => formatCsvValue(row[c])))])
+}
+
+/**
+ * Bundle everything an organization has produced into a zip: campaigns and
+ * their metrics, unified audits with checks and pages (one folder per audit,
+ * without stored HTML), AI visibility prompts and results, marketing reviews
+ * with their published snapshots, and generated reports. Each dataset is
+ * written as JSON; flat tables also get a CSV copy for spreadsheets. The zip
+ * is returned as a stream, compressed as it is read. Requires a service-role
+ * client.
+ */
+export async function buildOrganizationExport(
+  supabase: SupabaseClient,
+  organizationId: string,
+  exportedAt: Date = new Date()
+): Promise<{ stream: NodeJS.ReadableStream; rowCounts: Record<string, number> }> {
+  const { data: organization, error } = await supabase
+    .from('organizations')
+    .select('*')
+    .eq('id', organizationId)
+    .single()
+
+  if (error || !organization) {
+    throw new Error(`Failed to fetch organization: ${error?.message ?? 'not found'}`)
+  }
+
+  const zip = new JSZip()
+  const rowCounts: Record<string, number> = {}
+
+  const organizationRow = Object.fromEntries(
+    Object.entries(organization as Row).filter(
+      ([key]) => !EXCLUDED_ORGANIZATION_COLUMNS.includes(key)
+    )
+  )
+  zip.file('organization.json', JSON.stringify(organizationRow, null, 2))
+
+  const addDataset = (
+    path: string,
+    rows: Row[],
+    options: { csv?: boolean; countAs?: string } = {}
+  ) => {
+    const countKey = options.countAs ?? path
+    rowCounts[countKey] = (rowCounts[countKey] ?? 0) + rows.length
+    zip.file(`${path}.json`, JSON.stringify(rows, null, 2))
+    if (options.csv !== false) zip.file(`${path}.csv`, rowsToCsv(rows))
+  }
+
+  // Datasets are fetched one at a time and added to the zip as serialized text,
+  // so only one table's parsed rows are held at once; the zip keeps the text
+  // until it is streamed out
+  const organizationDatasets: Array<{ table: string; path: string }> = [
+    { table: 'campaigns', path: 'campaigns/campaigns' },
+    { table: 'campaign_metrics', path: 'campaigns/campaign_metrics' },
+    { table: 'ai_visibility_prompts', path: 'ai-visibility/prompts' },
+    { table: 'ai_visibility_results', path: 'ai-visibility/results' },
+    { table: 'generated_reports', path: 'reports/generated_reports' },
+  ]
+  for (const { table, path } of organizationDatasets) {
+    addDataset(path, await fetchByOrganization(supabase, table, organizationId))
+  }
+
+  const audits = await fetchByOrganization(supabase, 'audits', organizationId)
+  addDataset('audits/audits', audits)
+  rowCounts['audits/audit_checks'] = 0
+  rowCounts['audits/audit_pages'] = 0
+
+  // Checks and pages get a file per audit rather than one file across audits
+  for (const audit of audits) {
+    const auditId = audit.id as string
+    addDataset(
+      `audits/${auditId}/audit_checks`,
+      await fetchByParent(supabase, 'audit_checks', 'audit_id', auditId),
+      { countAs: 'audits/audit_checks' }
+    )
+    addDataset(
+      `audits/${auditId}/audit_pages`,
+      await fetchByParent(supabase, 'audit_pages', 'audit_id', auditId, AUDIT_PAGE_COLUMNS),
+      { countAs: 'audits/audit_pages' }
+    )
+  }
+
+  const reviews = await fetchByOrganization(supabase, 'marketing_reviews', organizationId)
+  addDataset('marketing-reviews/reviews', reviews)
+
+  const snapshots: Row[] = []
+  for (const review of reviews) {
+    snapshots.push(
+      ...(await fetchByParent(
+        supabase,
+        'marketing_review_snapshots',
+        'review_id',
+        review.id as string
+      ))
+    )
+  }
+  // Snapshot data and narratives are deeply nested, so JSON only
+  addDataset('marketing-reviews/snapshots', snapshots, { csv: false })
+
+  zip.file(
+    'manifest.json',
+    JSON.stringify(
+      {
+        organization: { id: organizationId, name: organization.name },
+        exported_at: exportedAt.toISOString(),
+        row_counts: rowCounts,
+      },
+      null,
+      2
+    )
+  )
+
+  // streamFiles writes each entry as it is compressed instead of buffering the whole archive
+  const stream = zip.generateNodeStream({
+    type: 'nodebuffer',
+    compression: 'DEFLATE',
+    streamFiles: true,
+  })
+  return { stream, rowCounts }
+}
+
+// Appended in one UPDATE (jsonb ||) so concurrent exports don't drop each other's records
+async function appendExportHistory(
+  supabase: SupabaseClient,
+  organizationId: string,
+  record: DataExportRecord
+): Promise<void> {
+  const { error } = await supabase.rpc('append_data_export_history', {
+    p_organization_id: organizationId,
+    p_record: record,
+  })
+
+  if (error) {
+    throw new Error(`Failed to record data export: ${error.message}`)
+  }
+}
+
+/**
+ * Build the organization's export, store it in the organization-exports
+ * bucket and record the run in `data_export_history`. Failed runs are
+ * recorded too, with the error, and returned rather than thrown.
+ */
+export async function runOrganizationDataExport(
+  supabase: SupabaseClient,
+  organizationId: string,
+  requestedBy: string
+): Promise<DataExportRecord> {
+  const id = crypto.randomUUID()
+  const requestedAt = new Date()
+  let record: DataExportRecord
+
+  try {
+    const { stream, rowCounts } = await buildOrganizationExport(
+      supabase,
+      organizationId,
+      requestedAt
+    )
+    const filePath = `${organizationId}/${id}.zip`
+
+    // Count bytes on the way to storage, since the zip is never held whole
+    let sizeBytes = 0
+    const counted = stream.pipe(
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          sizeBytes += chunk.length
+          callback(null, chunk)
+        },
+      })
+    )
+    stream.on('error', (err: Error) => counted.destroy(err))
+
+    const { error: uploadError } = await supabase.storage
+      .from(DATA_EXPORT_BUCKET)
+      .upload(filePath, counted, { contentType: DATA_EXPORT_CONTENT_TYPE })
+    if (uploadError) {
+      throw new Error(`Failed to upload export: ${uploadError.message}`)
+    }
+
+    record = {
+      id,
+      status: DataExportStatus.Completed,
+      requested_by: requestedBy,
+      requested_at: requestedAt.toISOString(),
+      completed_at: new Date().toISOString(),
+      file_path: filePath,
+      size_bytes: sizeBytes,
+      row_counts: rowCounts,
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    console.error('[Data Export Error]', {
+      type: 'export_failed',
+      organizationId,
+      exportId: id,
+      error: message,
+      timestamp: new Date().toISOString(),
+    })
+    record = {
+      id,
+      status: DataExportStatus.Failed,
+      requested_by: requestedBy,
+      requested_at: requestedAt.toISOString(),
+      completed_at: new Date().toISOString(),
+      file_path: null,
+      size_bytes: null,
+      row_counts: {},
+      error: message,
+    }
+  }
+
+  await appendExportHistory(supabase, organizationId, record)
+  return record
+}
@@ -0,0 +1,176 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { SharedResourceType } from '@/lib/enums'
+import { createRenderToken } from './render-token'
+import { closePdfRenderer, renderPdf } from './renderer'
+import type { PdfResourceType, ResourcePdf } from './types'
+
+const BUCKET = 'resource-pdfs'
+
+export const PDF_CONTENT_TYPE = 'application/pdf'
+
+interface PdfResourceInfo {
+  organizationId: string
+  filename: string
+  /** When the resource last changed; stored PDFs older than this are re-rendered */
+  changedAt: string
+}
+
+type ServiceClient = ReturnType<typeof createServiceClient>
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+function resolveBaseUrl(): string {
+  const baseUrl =
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : null)
+  if (!baseUrl) {
+    throw new Error('No base URL configured (missing NEXT_PUBLIC_SITE_URL and VERCEL_URL)')
+  }
+  return baseUrl.replace(/\/$/, '')
+}
+
+async function getResourceInfo(
+  supabase: ServiceClient,
+  resourceType: PdfResourceType,
+  resourceId: string
+): Promise<PdfResourceInfo | null> {
+  switch (resourceType) {
+    case SharedResourceType.Report: {
+      const { data } = await supabase
+        .from('generated_reports')
+        .select('organization_id, domain, updated_at')
+        .eq('id', resourceId)
+        .maybeSingle()
+      if (!data?.organization_id) return null
+      return {
+        organizationId: data.organization_id as string,
+        filename: `${slugify(data.domain as string) || 'report'}-report.pdf`,
+        changedAt: data.updated_at as string,
+      }
+    }
+    case SharedResourceType.UnifiedAudit: {
+      const { data } = await supabase
+        .from('audits')
+        .select('organization_id, domain, updated_at')
+        .eq('id', resourceId)
+        .maybeSingle()
+      if (!data?.organization_id) return null
+      return {
+        organizationId: data.organization_id as string,
+        filename: `${slugify((data.domain as string | null) ?? '') || 'site'}-audit.pdf`,
+        changedAt: data.updated_at as string,
+      }
+    }
+    case SharedResourceType.MarketingReview: {
+      const { data: snapshot } = await supabase
+        .from('marketing_review_snapshots')
+        .select('review_id, version, created_at')
+        .eq('id', resourceId)
+        .maybeSingle()
+      if (!snapshot) return null
+      const { data: review } = await supabase
+        .from('marketing_reviews')
+        .select('organization_id, title')
+        .eq('id', snapshot.review_id as string)
+        .maybeSingle()
+      if (!review?.organization_id) return null
+      return {
+        organizationId: review.organization_id as string,
+        filename: `${slugify(review.title as string) || 'marketing-review'}-v${snapshot.version}.pdf`,
+        // Snapshots are immutable once published
+        changedAt: snapshot.created_at as string,
+      }
+    }
+  }
+}
+
+/**
+ * Returns a stored PDF when it was rendered after the resource last changed.
+ */
+async function downloadStoredPdf(
+  supabase: ServiceClient,
+  folder: string,
+  name: string,
+  changedAt: string
+): Promise<Buffer | null> {
+  const { data: files } = await supabase.storage.from(BUCKET).list(folder, { search: name })
+  const stored = files?.find((f) => f.name === name)
+  const storedAt = stored?.updated_at ?? stored?.created_at
+  if (!storedAt || new Date(storedAt) < new Date(changedAt)) return null
+
+  const { data: blob } = await supabase.storage.from(BUCKET).download(`${folder}/${name}`)
+  return blob ? Buffer.from(await blob.arrayBuffer()) : null
+}
+
+/**
+ * Produce the PDF for a generated report, unified audit or marketing review
+ * snapshot. The resource is rendered by headless Chromium from the internal
+ * `/print/[token]` page (so decks use their existing print layout) and stored in
+ * the `resource-pdfs` bucket; later calls reuse the stored file until the
+ * resource changes. Returns null if the resource does not exist (or does not
+ * belong to `organizationId`, when given), or with `storedOnly` when no current
+ * PDF is stored yet; throws if rendering fails.
+ */
+export async function getResourcePdf(
+  resourceType: PdfResourceType,
+  resourceId: string,
+  { storedOnly = false, organizationId }: { storedOnly?: boolean; organizationId?: string } = {}
+): Promise<ResourcePdf | null> {
+  const supabase = createServiceClient()
+
+  const info = await getResourceInfo(supabase, resourceType, resourceId)
+  if (!info) return null
+  if (organizationId && info.organizationId !== organizationId) return null
+
+  const folder = `${info.organizationId}/${resourceType}`
+  const name = `${resourceId}.pdf`
+  const path = `${folder}/${name}`
+
+  const stored = await downloadStoredPdf(supabase, folder, name, info.changedAt)
+  if (stored) {
+    return { path, filename: info.filename, content: stored }
+  }
+  if (storedOnly) return null
+
+  const token = createRenderToken(resourceType, resourceId)
+  let content: Buffer
+  try {
+    content = await renderPdf(`${resolveBaseUrl()}/print/${token}`)
+  } finally {
+    await closePdfRenderer()
+  }
+
+  const { error: uploadError } = await supabase.storage.from(BUCKET).upload(path, content, {
+    contentType: PDF_CONTENT_TYPE,
+    upsert: true,
+  })
+  if (uploadError) {
+    // The PDF is still usable; the next request simply renders it again
+    console.error('[PDF Export Error]', {
+      type: 'pdf_upload_failed',
+      resourceType,
+      resourceId,
+      error: uploadError.message,
+      timestamp: new Date().toISOString(),
+    })
+  }
+
+  return { path, filename: info.filename, content }
+}
+
+/**
+ * Email attachment for an already stored resource PDF, in the shape accepted by
+ * `sendEmail`. Never renders, so sends don't wait on Chromium.
+ */
+export async function getResourcePdfAttachment(
+  resourceType: PdfResourceType,
+  resourceId: string
+): Promise<{ filename: string; content: Buffer } | null> {
+  const pdf = await getResourcePdf(resourceType, resourceId, { storedOnly: true })
+  return pdf ? { filename: pdf.filename, content: pdf.content } : null
+}
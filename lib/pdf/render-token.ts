@@ -0,0 +1,60 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { PdfResourceType } from './types'
+
+// Long enough for a cold-start render, short enough that a leaked URL is useless
+const DEFAULT_TTL_MS = 5 * 60 * 1000
+
+export interface RenderTokenPayload {
+  resourceType: PdfResourceType
+  resourceId: string
+  /** Expiry as epoch milliseconds */
+  exp: number
+}
+
+function getSecret(): string {
+  const secret = process.env.PDF_RENDER_SECRET
+  if (!secret) {
+    throw new Error('PDF_RENDER_SECRET environment variable is required')
+  }
+  return secret
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', getSecret()).update(encodedPayload).digest('base64url')
+}
+
+/**
+ * Create a short-lived signed token authorizing the headless browser to load
+ * `/print/[token]` for a single resource. The print page has no session, so the
+ * token is its only access check.
+ */
+export function createRenderToken(
+  resourceType: PdfResourceType,
+  resourceId: string,
+  ttlMs: number = DEFAULT_TTL_MS
+): string {
+  const payload: RenderTokenPayload = { resourceType, resourceId, exp: Date.now() + ttlMs }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${encoded}.${sign(encoded)}`
+}
+
+/**
+ * Verify a render token's signature and expiry. Returns null for anything
+ * malformed, tampered with or expired.
+ */
+export function verifyRenderToken(token: string): RenderTokenPayload | null {
+  const [encoded, signature] = token.split('.')
+  if (!encoded || !signature) return null
+
+  const expected = Buffer.from(sign(encoded))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as RenderTokenPayload
+    if (typeof payload.exp !== 'number' || payload.exp < Date.now()) return null
+    return payload
+  } catch {
+    return null
+  }
+}
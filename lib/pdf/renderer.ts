@@ -0,0 +1,41 @@
+// lib/pdf/renderer.ts
+import { createSharedBrowser } from '@/lib/utils/chromium'
+
+// Navigation + network idle budget; decks with many thumbnails can be slow to settle
+const RENDER_TIMEOUT_MS = 45000
+
+// Extra settle time for client components that fetch after hydration (e.g. audit check tabs)
+const POST_LOAD_SETTLE_MS = 750
+
+const sharedBrowser = createSharedBrowser()
+
+/**
+ * Print a page to PDF with print media emulation. Page size comes from the
+ * page's own `@page` rule when it has one (decks use A4 landscape via
+ * DeckPrintStyles); anything else falls back to A4 portrait.
+ * Throws on navigation or print failures.
+ */
+export async function renderPdf(url: string): Promise<Buffer> {
+  const browser = await sharedBrowser.get()
+  const context = await browser.newContext({ viewport: { width: 1600, height: 900 } })
+  try {
+    const page = await context.newPage()
+    await page.emulateMedia({ media: 'print' })
+    const response = await page.goto(url, { waitUntil: 'networkidle', timeout: RENDER_TIMEOUT_MS })
+    if (response && !response.ok()) {
+      throw new Error(`Print page responded with HTTP ${response.status()}`)
+    }
+    await page.waitForTimeout(POST_LOAD_SETTLE_MS)
+    return await page.pdf({ format: 'A4', preferCSSPageSize: true, printBackground: true })
+  } finally {
+    await context.close().catch(() => {})
+  }
+}
+
+/**
+ * Close the shared browser. Call after each render so the Chromium process
+ * does not outlive the function invocation.
+ */
+export async function closePdfRenderer(): Promise<void> {
+  await sharedBrowser.close()
+}
@@ -0,0 +1,21 @@
+import { SharedResourceType } from '@/lib/enums'
+
+/** Resources that can be exported as a PDF (slide decks and unified audits) */
+export const PDF_RESOURCE_TYPES = [
+  SharedResourceType.Report,
+  SharedResourceType.UnifiedAudit,
+  SharedResourceType.MarketingReview,
+] as const
+
+export type PdfResourceType = (typeof PDF_RESOURCE_TYPES)[number]
+
+export function isPdfResourceType(type: string | null | undefined): type is PdfResourceType {
+  return PDF_RESOURCE_TYPES.includes(type as PdfResourceType)
+}
+
+export interface ResourcePdf {
+  /** Object path in the `resource-pdfs` bucket: `{organization_id}/{resource_type}/{resource_id}.pdf` */
+  path: string
+  filename: string
+  content: Buffer
+}
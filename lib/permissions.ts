@@ -143,6 +143,15 @@ export function canViewCampaigns(role: string | undefined): boolean {
   return hasPermission(role, 'campaigns:create')
 }
 
+/**
+ * Check if user can assign and update audit remediation items.
+ * Everyone on the team except client viewers, who only see the board.
+ */
+export function canManageRemediation(role: string | undefined): boolean {
+  if (!role) return false
+  return role !== UserRole.ClientViewer
+}
+
 /**
  * Check if user is an internal Selo employee.
  * This is separate from role-based permissions - internal users can access all organizations.
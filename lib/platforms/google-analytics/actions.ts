@@ -3,42 +3,15 @@
 import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
 import { GoogleAnalyticsAdapter } from './adapter'
-import { decryptCredentials } from '@/lib/utils/crypto'
+import { getCredentials, type StoredCredentials } from './credentials'
 import { getYesterdayRange, getSyncDateRange } from '@/lib/utils/date-ranges'
 import { getMetricsFromDb, isCacheValid, upsertMetricsAndUpdateSync } from '@/lib/metrics/queries'
 import { calculateTrendFromDb, buildTimeSeriesArray } from '@/lib/metrics/helpers'
 import { GA_METRICS } from '@/lib/metrics/types'
-import type { GoogleAnalyticsCredentials, TrafficAcquisition } from './types'
+import type { TrafficAcquisition } from './types'
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type { Period, MetricTimeSeries } from '@/lib/metrics/types'
 
-interface StoredCredentials {
-  encrypted?: string
-  access_token?: string
-  refresh_token?: string
-  expires_at?: string
-  // OAuth callback stores these as organization_id/name (generic)
-  // but GA needs property_id/name
-  property_id?: string
-  property_name?: string
-  organization_id?: string
-  organization_name?: string
-}
-
-function getCredentials(stored: StoredCredentials): GoogleAnalyticsCredentials {
-  if (stored.encrypted) {
-    return decryptCredentials<GoogleAnalyticsCredentials>(stored.encrypted)
-  }
-  // Map organization_id to property_id (OAuth callback uses generic field names)
-  return {
-    access_token: stored.access_token || '',
-    refresh_token: stored.refresh_token || '',
-    expires_at: stored.expires_at || '',
-    property_id: stored.property_id || stored.organization_id || '',
-    property_name: stored.property_name || stored.organization_name || '',
-  }
-}
-
 /**
  * Service-level sync function for use by cron jobs (no user auth required).
  * Fetches daily metrics from Google Analytics API and stores them in the database.
@@ -0,0 +1,165 @@
+// lib/platforms/google-analytics/campaign-performance.ts
+import { GoogleAnalyticsClient } from './client'
+import { getCredentials, type StoredCredentials } from './credentials'
+import { CampaignStatus, PlatformType } from '@/lib/enums'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Row in campaign_performance
+export interface CampaignPerformance {
+  campaign_id: string
+  organization_id: string
+  start_date: string
+  end_date: string
+  sessions: number
+  users: number
+  conversions: number
+  synced_at: string
+}
+
+// Campaign fields needed to attribute GA traffic to it
+export interface AttributableCampaign {
+  id: string
+  organization_id: string
+  start_date: string | null
+  end_date: string | null
+  created_at: string
+  utm_source: string | null
+  utm_medium: string | null
+  utm_campaign: string | null
+}
+
+export const ATTRIBUTABLE_CAMPAIGN_COLUMNS =
+  'id, organization_id, start_date, end_date, created_at, utm_source, utm_medium, utm_campaign'
+
+/**
+ * Date range to attribute traffic over: the campaign's start (or creation)
+ * date up to its end date, capped at yesterday since GA data for today is
+ * incomplete. Returns null when the campaign hasn't started yet.
+ */
+export function getCampaignDateRange(
+  campaign: Pick<AttributableCampaign, 'start_date' | 'end_date' | 'created_at'>,
+  now: Date = new Date()
+): { start: Date; end: Date } | null {
+  const yesterday = new Date(now)
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1)
+  yesterday.setUTCHours(0, 0, 0, 0)
+
+  const start = new Date(campaign.start_date ?? campaign.created_at.split('T')[0])
+  const end = campaign.end_date ? new Date(campaign.end_date) : yesterday
+  if (end > yesterday) end.setTime(yesterday.getTime())
+
+  if (isNaN(start.getTime()) || start > end) return null
+  return { start, end }
+}
+
+async function fetchAndStoreCampaignPerformance(
+  client: GoogleAnalyticsClient,
+  campaign: AttributableCampaign,
+  supabase: SupabaseClient
+): Promise<CampaignPerformance | null> {
+  const range = getCampaignDateRange(campaign)
+  if (!range || !campaign.utm_campaign) return null
+
+  const totals = await client.fetchCampaignPerformance(range.start, range.end, {
+    utmCampaign: campaign.utm_campaign,
+    utmSource: campaign.utm_source,
+    utmMedium: campaign.utm_medium,
+  })
+
+  const record: CampaignPerformance = {
+    campaign_id: campaign.id,
+    organization_id: campaign.organization_id,
+    start_date: range.start.toISOString().split('T')[0],
+    end_date: range.end.toISOString().split('T')[0],
+    ...totals,
+    synced_at: new Date().toISOString(),
+  }
+
+  const { error } = await supabase
+    .from('campaign_performance')
+    .upsert(record, { onConflict: 'campaign_id' })
+
+  if (error) {
+    throw new Error(`Failed to store campaign performance: ${error.message}`)
+  }
+
+  return record
+}
+
+/**
+ * Refresh one campaign's GA attribution. Returns null when the organization
+ * has no active GA connection or the campaign has nothing to attribute yet.
+ * Requires a service-role client, as campaign_performance has no write policies.
+ */
+export async function syncCampaignPerformance(
+  supabase: SupabaseClient,
+  campaign: AttributableCampaign
+): Promise<CampaignPerformance | null> {
+  const client = await getOrganizationAnalyticsClient(supabase, campaign.organization_id)
+  if (!client) return null
+  return fetchAndStoreCampaignPerformance(client, campaign, supabase)
+}
+
+/**
+ * GA client for the organization's active connection, or null when GA isn't connected.
+ */
+export async function getOrganizationAnalyticsClient(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<GoogleAnalyticsClient | null> {
+  const { data: connection } = await supabase
+    .from('platform_connections')
+    .select('id, credentials')
+    .eq('organization_id', organizationId)
+    .eq('platform_type', PlatformType.GoogleAnalytics)
+    .eq('status', 'active')
+    .limit(1)
+    .maybeSingle()
+
+  if (!connection) return null
+
+  const credentials = getCredentials(connection.credentials as StoredCredentials)
+  return new GoogleAnalyticsClient(credentials, connection.id, supabase)
+}
+
+/**
+ * Service-level sync for cron jobs: refreshes attribution for every active
+ * campaign in the organization. Failures are logged per campaign so one bad
+ * filter doesn't block the rest.
+ */
+export async function syncCampaignPerformanceForConnection(
+  connectionId: string,
+  organizationId: string,
+  storedCredentials: StoredCredentials,
+  supabase: SupabaseClient
+): Promise<void> {
+  const { data: campaigns, error } = await supabase
+    .from('campaigns')
+    .select(ATTRIBUTABLE_CAMPAIGN_COLUMNS)
+    .eq('organization_id', organizationId)
+    .eq('status', CampaignStatus.Active)
+    .not('utm_campaign', 'is', null)
+
+  if (error) {
+    throw new Error(`Failed to fetch campaigns: ${error.message}`)
+  }
+
+  if (!campaigns?.length) return
+
+  const credentials = getCredentials(storedCredentials)
+  const client = new GoogleAnalyticsClient(credentials, connectionId, supabase)
+
+  for (const campaign of campaigns as AttributableCampaign[]) {
+    try {
+      await fetchAndStoreCampaignPerformance(client, campaign, supabase)
+    } catch (err) {
+      console.error('[Campaign Performance Error]', {
+        type: 'sync_campaign_failed',
+        campaignId: campaign.id,
+        organizationId,
+        error: err instanceof Error ? err.message : String(err),
+        timestamp: new Date().toISOString(),
+      })
+    }
+  }
+}
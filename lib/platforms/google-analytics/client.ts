@@ -2,6 +2,9 @@ import type {
   GoogleAnalyticsCredentials,
   GoogleAnalyticsMetrics,
   GoogleAnalyticsDailyMetrics,
+  GoogleAnalyticsPageSessions,
+  GoogleAnalyticsCampaignFilter,
+  GoogleAnalyticsCampaignPerformance,
 } from './types'
 import { getOAuthProvider } from '@/lib/oauth/registry'
 import { Platform } from '@/lib/oauth/types'
@@ -365,4 +368,91 @@ export class GoogleAnalyticsClient {
       throw error
     }
   }
+
+  /**
+   * Fetch sessions per page (host + path) for a date range, busiest first.
+   * Used to weight audit issues by the traffic of the pages they affect.
+   */
+  async fetchPageSessions(
+    startDate: Date,
+    endDate: Date,
+    limit: number = 1000
+  ): Promise<GoogleAnalyticsPageSessions[]> {
+    const propertyPath = this.propertyId.startsWith('properties/')
+      ? this.propertyId
+      : `properties/${this.propertyId}`
+
+    const data = await this.fetch<{
+      rows?: Array<{
+        dimensionValues: Array<{ value: string }>
+        metricValues: Array<{ value: string }>
+      }>
+    }>(`/${propertyPath}:runReport`, {
+      dateRanges: [
+        {
+          startDate: this.formatDate(startDate),
+          endDate: this.formatDate(endDate),
+        },
+      ],
+      dimensions: [{ name: 'hostName' }, { name: 'pagePath' }],
+      metrics: [{ name: 'sessions' }],
+      orderBys: [{ metric: { metricName: 'sessions' }, desc: true }],
+      limit,
+    })
+
+    return (data.rows ?? []).map((row) => ({
+      hostName: row.dimensionValues[0]?.value || '',
+      pagePath: row.dimensionValues[1]?.value || '/',
+      sessions: Number(row.metricValues[0]?.value) || 0,
+    }))
+  }
+
+  /**
+   * Fetch sessions, users and conversions (key events) for traffic tagged with
+   * a campaign's UTM parameters. Source and medium only narrow the match when set.
+   */
+  async fetchCampaignPerformance(
+    startDate: Date,
+    endDate: Date,
+    filter: GoogleAnalyticsCampaignFilter
+  ): Promise<GoogleAnalyticsCampaignPerformance> {
+    const propertyPath = this.propertyId.startsWith('properties/')
+      ? this.propertyId
+      : `properties/${this.propertyId}`
+
+    const expressions = [
+      ['sessionCampaignName', filter.utmCampaign],
+      ['sessionSource', filter.utmSource],
+      ['sessionMedium', filter.utmMedium],
+    ]
+      .filter((entry): entry is [string, string] => Boolean(entry[1]))
+      .map(([fieldName, value]) => ({
+        filter: {
+          fieldName,
+          stringFilter: { matchType: 'EXACT', value, caseSensitive: false },
+        },
+      }))
+
+    const data = await this.fetch<{
+      rows?: Array<{
+        metricValues: Array<{ value: string }>
+      }>
+    }>(`/${propertyPath}:runReport`, {
+      dateRanges: [
+        {
+          startDate: this.formatDate(startDate),
+          endDate: this.formatDate(endDate),
+        },
+      ],
+      metrics: [{ name: 'sessions' }, { name: 'totalUsers' }, { name: 'keyEvents' }],
+      dimensionFilter: { andGroup: { expressions } },
+    })
+
+    const row = data.rows?.[0]
+    return {
+      sessions: row ? Number(row.metricValues[0]?.value) || 0 : 0,
+      users: row ? Number(row.metricValues[1]?.value) || 0 : 0,
+      conversions: row ? Number(row.metricValues[2]?.value) || 0 : 0,
+    }
+  }
 }
@@ -0,0 +1,53 @@
+// lib/platforms/google-analytics/page-traffic.ts
+import { GoogleAnalyticsClient } from './client'
+import { getCredentials, type StoredCredentials } from './credentials'
+import { PlatformType } from '@/lib/enums'
+import type { PageTraffic } from '@/lib/unified-audit/importance'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Window of traffic used to weight audit issues
+const PAGE_TRAFFIC_LOOKBACK_DAYS = 28
+
+/**
+ * Sessions per page over the last 28 days for an organization's GA property.
+ * Returns an empty list when GA isn't connected or the report fails, so
+ * callers can fall back to static prioritization.
+ */
+export async function fetchOrganizationPageTraffic(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<PageTraffic[]> {
+  const { data: connection } = await supabase
+    .from('platform_connections')
+    .select('id, credentials')
+    .eq('organization_id', organizationId)
+    .eq('platform_type', PlatformType.GoogleAnalytics)
+    .eq('status', 'active')
+    .limit(1)
+    .maybeSingle()
+
+  if (!connection) return []
+
+  const endDate = new Date()
+  endDate.setDate(endDate.getDate() - 1)
+  const startDate = new Date(endDate)
+  startDate.setDate(startDate.getDate() - PAGE_TRAFFIC_LOOKBACK_DAYS + 1)
+
+  try {
+    const credentials = getCredentials(connection.credentials as StoredCredentials)
+    const client = new GoogleAnalyticsClient(credentials, connection.id, supabase)
+    const pages = await client.fetchPageSessions(startDate, endDate)
+
+    return pages
+      .filter((page) => page.hostName && page.sessions > 0)
+      .map((page) => ({ url: `https://${page.hostName}${page.pagePath}`, sessions: page.sessions }))
+  } catch (error) {
+    console.error('[GA Page Traffic Error]', {
+      type: 'fetch_page_sessions_failed',
+      organizationId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    return []
+  }
+}
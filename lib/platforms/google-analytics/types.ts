@@ -25,6 +25,27 @@ export interface GoogleAnalyticsDailyMetrics {
   trafficAcquisition: TrafficAcquisition
 }
 
+// Sessions for a single page over a date range
+export interface GoogleAnalyticsPageSessions {
+  hostName: string // e.g., "www.example.com"
+  pagePath: string // e.g., "/pricing"
+  sessions: number
+}
+
+// UTM values a campaign's traffic is tagged with. Empty values match anything.
+export interface GoogleAnalyticsCampaignFilter {
+  utmCampaign: string
+  utmSource?: string | null
+  utmMedium?: string | null
+}
+
+// Totals for traffic matching a campaign's UTM parameters over a date range
+export interface GoogleAnalyticsCampaignPerformance {
+  sessions: number
+  users: number
+  conversions: number // GA4 key events
+}
+
 // Deprecated: Use GoogleAnalyticsDailyMetrics[] instead
 export interface GoogleAnalyticsMetrics {
   activeUsers: number
@@ -0,0 +1,191 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { InstagramAdapter } from './adapter'
+import { decryptCredentials } from '@/lib/utils/crypto'
+import { getYesterdayRange, getSyncDateRange } from '@/lib/utils/date-ranges'
+import { getMetricsFromDb, isCacheValid, upsertMetricsAndUpdateSync } from '@/lib/metrics/queries'
+import { calculateTrendFromDb, buildTimeSeriesArray } from '@/lib/metrics/helpers'
+import { INSTAGRAM_METRICS } from '@/lib/metrics/types'
+import type { InstagramCredentials } from './types'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Period, MetricTimeSeries } from '@/lib/metrics/types'
+
+interface StoredCredentials {
+  encrypted?: string
+  access_token?: string
+  refresh_token?: string
+  organization_id?: string
+}
+
+function getCredentials(stored: StoredCredentials): InstagramCredentials {
+  if (stored.encrypted) {
+    return decryptCredentials<InstagramCredentials>(stored.encrypted)
+  }
+  return stored as InstagramCredentials
+}
+
+/**
+ * Service-level sync function for use by cron jobs (no user auth required).
+ * Fetches Instagram account insights and stores them in the database.
+ * @param targetDate - Optional specific date to sync. Defaults to yesterday.
+ */
+export async function syncMetricsForInstagramConnection(
+  connectionId: string,
+  organizationId: string,
+  storedCredentials: StoredCredentials,
+  supabase: SupabaseClient,
+  targetDate?: Date
+): Promise<void> {
+  const credentials = getCredentials(storedCredentials)
+  const adapter = new InstagramAdapter(credentials, connectionId, supabase)
+
+  const { start: syncDate, end: endDate } = getSyncDateRange(targetDate)
+
+  const dailyMetrics = await adapter.fetchDailyMetrics(syncDate, endDate)
+  const records = adapter.normalizeDailyMetricsToDbRecords(dailyMetrics, organizationId)
+
+  await upsertMetricsAndUpdateSync(supabase, records, connectionId)
+}
+
+export async function syncInstagramMetrics(organizationId: string) {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  // RLS limits the lookup to connections in the user's organizations
+  const { data: connection } = await supabase
+    .from('platform_connections')
+    .select('id, credentials')
+    .eq('organization_id', organizationId)
+    .eq('platform_type', 'instagram')
+    .single()
+
+  if (!connection) {
+    return { error: 'Instagram not connected' }
+  }
+
+  try {
+    const credentials = getCredentials(connection.credentials as StoredCredentials)
+    const adapter = new InstagramAdapter(credentials, connection.id)
+
+    const { start: yesterday, end: endDate } = getYesterdayRange()
+
+    const dailyMetrics = await adapter.fetchDailyMetrics(yesterday, endDate)
+    const records = adapter.normalizeDailyMetricsToDbRecords(dailyMetrics, organizationId)
+
+    await upsertMetricsAndUpdateSync(supabase, records, connection.id)
+
+    revalidatePath('/dashboard')
+    return { success: true }
+  } catch (error) {
+    console.error('[Instagram Sync Error]', {
+      type: 'sync_failed',
+      organizationId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Failed to fetch Instagram metrics' }
+  }
+}
+
+/**
+ * Format DB metrics into the response shape expected by the UI.
+ */
+function formatInstagramMetricsFromDb(
+  cached: { metrics: Array<{ date: string; metric_type: string; value: number }> },
+  period: Period
+): {
+  metrics: Array<{ label: string; value: number; change: number | null }>
+  timeSeries: MetricTimeSeries[]
+} {
+  const followers = calculateTrendFromDb(cached.metrics, 'instagram_followers', period, true)
+  const newFollowers = calculateTrendFromDb(cached.metrics, 'instagram_new_followers', period)
+  const views = calculateTrendFromDb(cached.metrics, 'instagram_views', period)
+  const reach = calculateTrendFromDb(cached.metrics, 'instagram_reach', period)
+  const profileViews = calculateTrendFromDb(cached.metrics, 'instagram_profile_views', period)
+  const interactions = calculateTrendFromDb(cached.metrics, 'instagram_interactions', period)
+
+  return {
+    metrics: [
+      { label: 'Followers', value: followers.current, change: followers.change },
+      { label: 'New Followers', value: newFollowers.current, change: newFollowers.change },
+      { label: 'Views', value: views.current, change: views.change },
+      { label: 'Reach', value: reach.current, change: reach.change },
+      { label: 'Profile Views', value: profileViews.current, change: profileViews.change },
+      { label: 'Interactions', value: interactions.current, change: interactions.change },
+    ],
+    timeSeries: buildTimeSeriesArray(cached.metrics, INSTAGRAM_METRICS, period),
+  }
+}
+
+export async function getInstagramMetrics(period: Period, connectionId?: string) {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  if (!connectionId) {
+    return { error: 'Connection ID is required' }
+  }
+
+  // Query connection directly by ID — RLS ensures user can only access their org's connections
+  const { data: connection } = await supabase
+    .from('platform_connections')
+    .select('id, credentials, organization_id')
+    .eq('id', connectionId)
+    .eq('platform_type', 'instagram')
+    .single()
+
+  if (!connection) {
+    return { error: 'Instagram not connected' }
+  }
+
+  const orgId = connection.organization_id
+
+  try {
+    const cached = await getMetricsFromDb(supabase, orgId, 'instagram', period)
+
+    if (isCacheValid(cached)) {
+      return formatInstagramMetricsFromDb(cached, period)
+    }
+
+    // Cache is stale - sync yesterday's daily data
+    const credentials = getCredentials(connection.credentials as StoredCredentials)
+    const adapter = new InstagramAdapter(credentials, connection.id)
+
+    const { start: yesterday, end: endDate } = getYesterdayRange()
+
+    const dailyMetrics = await adapter.fetchDailyMetrics(yesterday, endDate)
+    const records = adapter.normalizeDailyMetricsToDbRecords(dailyMetrics, orgId)
+
+    await upsertMetricsAndUpdateSync(supabase, records, connection.id)
+
+    const updatedCache = await getMetricsFromDb(supabase, orgId, 'instagram', period)
+    return formatInstagramMetricsFromDb(updatedCache, period)
+  } catch (error) {
+    console.error('[Instagram Metrics Error]', {
+      type: 'fetch_metrics_failed',
+      connectionId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Failed to fetch Instagram metrics' }
+  }
+}
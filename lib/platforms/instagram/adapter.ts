@@ -0,0 +1,54 @@
+// lib/platforms/instagram/adapter.ts
+import { InstagramClient } from './client'
+import type { InstagramCredentials, InstagramDailyMetrics, InstagramMetricType } from './types'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+interface MetricRecord {
+  organization_id: string
+  campaign_id: null
+  platform_type: 'instagram'
+  date: string
+  metric_type: InstagramMetricType
+  value: number
+}
+
+const METRIC_FIELDS: Record<InstagramMetricType, keyof Omit<InstagramDailyMetrics, 'date'>> = {
+  instagram_followers: 'followers',
+  instagram_new_followers: 'newFollowers',
+  instagram_views: 'views',
+  instagram_reach: 'reach',
+  instagram_profile_views: 'profileViews',
+  instagram_interactions: 'interactions',
+}
+
+export class InstagramAdapter {
+  private client: InstagramClient
+
+  constructor(
+    credentials: InstagramCredentials,
+    connectionId?: string,
+    supabaseClient?: SupabaseClient
+  ) {
+    this.client = new InstagramClient(credentials, connectionId, supabaseClient)
+  }
+
+  async fetchDailyMetrics(startDate: Date, endDate: Date): Promise<InstagramDailyMetrics[]> {
+    return this.client.fetchDailyMetrics(startDate, endDate)
+  }
+
+  normalizeDailyMetricsToDbRecords(
+    dailyMetrics: InstagramDailyMetrics[],
+    organizationId: string
+  ): MetricRecord[] {
+    return dailyMetrics.flatMap((day) =>
+      (Object.keys(METRIC_FIELDS) as InstagramMetricType[]).map((metricType) => ({
+        organization_id: organizationId,
+        campaign_id: null,
+        platform_type: 'instagram' as const,
+        date: day.date,
+        metric_type: metricType,
+        value: day[METRIC_FIELDS[metricType]],
+      }))
+    )
+  }
+}
@@ -0,0 +1,232 @@
+// lib/platforms/instagram/client.ts
+import type {
+  InstagramCredentials,
+  InstagramDailyMetrics,
+  InstagramInsightsResponse,
+} from './types'
+import { getOAuthProvider } from '@/lib/oauth/registry'
+import { Platform } from '@/lib/oauth/types'
+import { META_GRAPH_API_BASE } from '@/lib/oauth/providers/meta'
+import type { OAuthProvider } from '@/lib/oauth/base'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Account insights requested as daily totals, mapped to InstagramDailyMetrics fields
+const TOTAL_VALUE_METRICS = {
+  views: 'views',
+  reach: 'reach',
+  profile_views: 'profileViews',
+  total_interactions: 'interactions',
+} as const
+
+type TotalValueField = (typeof TOTAL_VALUE_METRICS)[keyof typeof TOTAL_VALUE_METRICS]
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function toUnixSeconds(date: Date): string {
+  return Math.floor(date.getTime() / 1000).toString()
+}
+
+export class InstagramClient {
+  private accessToken: string
+  private accountId: string
+  private credentials: InstagramCredentials
+  private connectionId: string | null
+  private oauthProvider: OAuthProvider | null
+  private supabaseClient: SupabaseClient | undefined
+
+  constructor(
+    credentials: InstagramCredentials,
+    connectionId?: string,
+    supabaseClient?: SupabaseClient
+  ) {
+    this.credentials = credentials
+    this.accessToken = credentials.access_token
+    this.accountId = credentials.organization_id
+    this.connectionId = connectionId || null
+    this.oauthProvider =
+      connectionId && credentials.refresh_token ? getOAuthProvider(Platform.INSTAGRAM) : null
+    this.supabaseClient = supabaseClient
+  }
+
+  private async ensureFreshToken(): Promise<void> {
+    if (!this.oauthProvider || !this.connectionId) {
+      return
+    }
+
+    if (this.oauthProvider.shouldRefreshToken(this.credentials.expires_at)) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('[Instagram Client] Refreshing token', {
+          expiresAt: this.credentials.expires_at,
+          connectionId: this.connectionId,
+        })
+      }
+
+      try {
+        const newTokens = await this.oauthProvider.refreshAccessToken(
+          this.credentials.refresh_token
+        )
+        await this.oauthProvider.updateTokensInDatabase(
+          this.connectionId,
+          newTokens,
+          this.supabaseClient
+        )
+
+        this.credentials = {
+          ...this.credentials,
+          access_token: newTokens.access_token,
+          refresh_token: newTokens.refresh_token,
+          expires_at: this.oauthProvider.calculateExpiresAt(newTokens.expires_in),
+        }
+        this.accessToken = newTokens.access_token
+      } catch (error) {
+        console.error('[Instagram Client] Token refresh failed', {
+          type: 'token_refresh_error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString(),
+        })
+
+        // Mark connection as failed so user knows to reconnect
+        try {
+          const supabase =
+            this.supabaseClient ?? (await (await import('@/lib/supabase/server')).createClient())
+          await supabase
+            .from('platform_connections')
+            .update({ status: 'failed' })
+            .eq('id', this.connectionId)
+        } catch (updateError) {
+          console.error('[Instagram Client] Failed to update connection status', {
+            type: 'database_update_error',
+            error: updateError instanceof Error ? updateError.message : 'Unknown error',
+            timestamp: new Date().toISOString(),
+          })
+        }
+
+        throw error
+      }
+    }
+  }
+
+  private async fetch<T>(endpoint: string): Promise<T> {
+    await this.ensureFreshToken()
+
+    const response = await fetch(`${META_GRAPH_API_BASE}${endpoint}`, {
+      headers: { Authorization: `Bearer ${this.accessToken}` },
+    })
+
+    if (!response.ok) {
+      const errorBody = await response.text()
+      throw new Error(this.formatError(response.status, errorBody))
+    }
+
+    return response.json()
+  }
+
+  private formatError(status: number, body: string): string {
+    switch (status) {
+      case 401:
+        return 'Instagram token expired or invalid. Please reconnect your account.'
+      case 403:
+        return 'Instagram access denied. Your app may need additional permissions.'
+      case 404:
+        return 'Instagram account not found. Please check your account ID.'
+      case 429:
+        return 'Instagram rate limit exceeded. Please try again later.'
+      default:
+        try {
+          const parsed = JSON.parse(body)
+          return parsed.error?.message || `Instagram error: ${body}`
+        } catch {
+          return `Instagram error (${status}): ${body}`
+        }
+    }
+  }
+
+  async getFollowerCount(): Promise<number> {
+    const account = await this.fetch<{ followers_count?: number }>(
+      `/${this.accountId}?fields=followers_count`
+    )
+    return account.followers_count ?? 0
+  }
+
+  async getDailyInsights(date: Date): Promise<Record<TotalValueField, number>> {
+    const until = new Date(date)
+    until.setDate(until.getDate() + 1)
+
+    const params = new URLSearchParams({
+      metric: Object.keys(TOTAL_VALUE_METRICS).join(','),
+      metric_type: 'total_value',
+      period: 'day',
+      since: toUnixSeconds(date),
+      until: toUnixSeconds(until),
+    })
+
+    const response = await this.fetch<InstagramInsightsResponse>(
+      `/${this.accountId}/insights?${params}`
+    )
+
+    const insights: Record<TotalValueField, number> = {
+      views: 0,
+      reach: 0,
+      profileViews: 0,
+      interactions: 0,
+    }
+    for (const metric of response.data ?? []) {
+      const field = TOTAL_VALUE_METRICS[metric.name as keyof typeof TOTAL_VALUE_METRICS]
+      if (!field) continue
+      insights[field] = Number(metric.total_value?.value) || 0
+    }
+    return insights
+  }
+
+  /**
+   * New followers for a day. Instagram only reports this for the last 30 days
+   * and for accounts with 100+ followers, so failures count as zero.
+   */
+  async getNewFollowers(date: Date): Promise<number> {
+    const until = new Date(date)
+    until.setDate(until.getDate() + 1)
+
+    const params = new URLSearchParams({
+      metric: 'follower_count',
+      period: 'day',
+      since: toUnixSeconds(date),
+      until: toUnixSeconds(until),
+    })
+
+    try {
+      const response = await this.fetch<InstagramInsightsResponse>(
+        `/${this.accountId}/insights?${params}`
+      )
+      const values = response.data?.[0]?.values ?? []
+      return values.reduce((sum, v) => sum + (Number(v.value) || 0), 0)
+    } catch (error) {
+      console.error('[Instagram] Follower count error:', error)
+      return 0
+    }
+  }
+
+  /**
+   * Fetch daily metrics for a date range.
+   * Returns one InstagramDailyMetrics per day. The follower total is the
+   * account's current count, as the Graph API has no historical totals.
+   */
+  async fetchDailyMetrics(startDate: Date, endDate: Date): Promise<InstagramDailyMetrics[]> {
+    const followers = await this.getFollowerCount()
+    const dailyMetrics: InstagramDailyMetrics[] = []
+
+    const currentDate = new Date(startDate)
+    currentDate.setHours(0, 0, 0, 0)
+    while (currentDate <= endDate) {
+      const [insights, newFollowers] = await Promise.all([
+        this.getDailyInsights(currentDate),
+        this.getNewFollowers(currentDate),
+      ])
+      dailyMetrics.push({ date: toDateKey(currentDate), followers, newFollowers, ...insights })
+      currentDate.setDate(currentDate.getDate() + 1)
+    }
+
+    return dailyMetrics
+  }
+}
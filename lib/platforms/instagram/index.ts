@@ -0,0 +1,4 @@
+export { InstagramClient } from './client'
+export { InstagramAdapter } from './adapter'
+export * from './types'
+export { syncInstagramMetrics, getInstagramMetrics } from './actions'
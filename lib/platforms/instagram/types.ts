@@ -0,0 +1,49 @@
+// lib/platforms/instagram/types.ts
+
+export interface InstagramCredentials {
+  access_token: string
+  refresh_token: string
+  expires_at: string // ISO 8601 timestamp
+  organization_id: string // Instagram professional account ID
+  organization_name: string
+  scopes: string[]
+}
+
+// Graph API insights response (GET /{ig-user-id}/insights). Metrics requested
+// with metric_type=total_value return total_value; time series return values.
+export interface InstagramInsightsResponse {
+  data: Array<{
+    name: string
+    period: string
+    total_value?: { value: number }
+    values?: Array<{ value: number; end_time?: string }>
+  }>
+}
+
+// Single day's metrics for an Instagram professional account
+export interface InstagramDailyMetrics {
+  date: string // YYYY-MM-DD format
+  followers: number
+  newFollowers: number
+  views: number
+  reach: number
+  profileViews: number
+  interactions: number
+}
+
+export type InstagramMetricType =
+  | 'instagram_followers'
+  | 'instagram_new_followers'
+  | 'instagram_views'
+  | 'instagram_reach'
+  | 'instagram_profile_views'
+  | 'instagram_interactions'
+
+export const INSTAGRAM_METRIC_TYPES: InstagramMetricType[] = [
+  'instagram_followers',
+  'instagram_new_followers',
+  'instagram_views',
+  'instagram_reach',
+  'instagram_profile_views',
+  'instagram_interactions',
+]
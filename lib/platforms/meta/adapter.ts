@@ -0,0 +1,53 @@
+// lib/platforms/meta/adapter.ts
+import { MetaClient } from './client'
+import type { MetaCredentials, MetaDailyMetrics, MetaMetricType } from './types'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+interface MetricRecord {
+  organization_id: string
+  campaign_id: null
+  platform_type: 'meta'
+  date: string
+  metric_type: MetaMetricType
+  value: number
+}
+
+const METRIC_FIELDS: Record<MetaMetricType, keyof Omit<MetaDailyMetrics, 'date'>> = {
+  meta_followers: 'followers',
+  meta_new_followers: 'newFollowers',
+  meta_views: 'views',
+  meta_page_visits: 'pageVisits',
+  meta_post_engagements: 'postEngagements',
+}
+
+export class MetaAdapter {
+  private client: MetaClient
+
+  constructor(
+    credentials: MetaCredentials,
+    connectionId?: string,
+    supabaseClient?: SupabaseClient
+  ) {
+    this.client = new MetaClient(credentials, connectionId, supabaseClient)
+  }
+
+  async fetchDailyMetrics(startDate: Date, endDate: Date): Promise<MetaDailyMetrics[]> {
+    return this.client.fetchDailyMetrics(startDate, endDate)
+  }
+
+  normalizeDailyMetricsToDbRecords(
+    dailyMetrics: MetaDailyMetrics[],
+    organizationId: string
+  ): MetricRecord[] {
+    return dailyMetrics.flatMap((day) =>
+      (Object.keys(METRIC_FIELDS) as MetaMetricType[]).map((metricType) => ({
+        organization_id: organizationId,
+        campaign_id: null,
+        platform_type: 'meta' as const,
+        date: day.date,
+        metric_type: metricType,
+        value: day[METRIC_FIELDS[metricType]],
+      }))
+    )
+  }
+}
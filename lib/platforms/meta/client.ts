@@ -0,0 +1,208 @@
+// lib/platforms/meta/client.ts
+import type { MetaCredentials, MetaDailyMetrics, MetaInsightsResponse } from './types'
+import { getOAuthProvider } from '@/lib/oauth/registry'
+import { Platform } from '@/lib/oauth/types'
+import { META_GRAPH_API_BASE } from '@/lib/oauth/providers/meta'
+import type { OAuthProvider } from '@/lib/oauth/base'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Page insights metric names, mapped to the fields of MetaDailyMetrics
+const PAGE_INSIGHT_METRICS = {
+  page_media_view: 'views',
+  page_views_total: 'pageVisits',
+  page_post_engagements: 'postEngagements',
+  page_daily_follows_unique: 'newFollowers',
+} as const
+
+type PageInsightField = (typeof PAGE_INSIGHT_METRICS)[keyof typeof PAGE_INSIGHT_METRICS]
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+export class MetaClient {
+  private accessToken: string
+  private pageId: string
+  private credentials: MetaCredentials
+  private connectionId: string | null
+  private oauthProvider: OAuthProvider | null
+  private supabaseClient: SupabaseClient | undefined
+  // Page tokens are derived from the user token and don't change within a sync
+  private pageAccess: { accessToken: string; followers: number } | null = null
+
+  constructor(
+    credentials: MetaCredentials,
+    connectionId?: string,
+    supabaseClient?: SupabaseClient
+  ) {
+    this.credentials = credentials
+    this.accessToken = credentials.access_token
+    this.pageId = credentials.organization_id
+    this.connectionId = connectionId || null
+    this.oauthProvider =
+      connectionId && credentials.refresh_token ? getOAuthProvider(Platform.META) : null
+    this.supabaseClient = supabaseClient
+  }
+
+  private async ensureFreshToken(): Promise<void> {
+    if (!this.oauthProvider || !this.connectionId) {
+      return
+    }
+
+    if (this.oauthProvider.shouldRefreshToken(this.credentials.expires_at)) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('[Meta Client] Refreshing token', {
+          expiresAt: this.credentials.expires_at,
+          connectionId: this.connectionId,
+        })
+      }
+
+      try {
+        const newTokens = await this.oauthProvider.refreshAccessToken(
+          this.credentials.refresh_token
+        )
+        await this.oauthProvider.updateTokensInDatabase(
+          this.connectionId,
+          newTokens,
+          this.supabaseClient
+        )
+
+        this.credentials = {
+          ...this.credentials,
+          access_token: newTokens.access_token,
+          refresh_token: newTokens.refresh_token,
+          expires_at: this.oauthProvider.calculateExpiresAt(newTokens.expires_in),
+        }
+        this.accessToken = newTokens.access_token
+      } catch (error) {
+        console.error('[Meta Client] Token refresh failed', {
+          type: 'token_refresh_error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString(),
+        })
+
+        // Mark connection as failed so user knows to reconnect
+        try {
+          const supabase =
+            this.supabaseClient ?? (await (await import('@/lib/supabase/server')).createClient())
+          await supabase
+            .from('platform_connections')
+            .update({ status: 'failed' })
+            .eq('id', this.connectionId)
+        } catch (updateError) {
+          console.error('[Meta Client] Failed to update connection status', {
+            type: 'database_update_error',
+            error: updateError instanceof Error ? updateError.message : 'Unknown error',
+            timestamp: new Date().toISOString(),
+          })
+        }
+
+        throw error
+      }
+    }
+  }
+
+  private async fetch<T>(endpoint: string, accessToken?: string): Promise<T> {
+    await this.ensureFreshToken()
+
+    const response = await fetch(`${META_GRAPH_API_BASE}${endpoint}`, {
+      headers: { Authorization: `Bearer ${accessToken ?? this.accessToken}` },
+    })
+
+    if (!response.ok) {
+      const errorBody = await response.text()
+      throw new Error(this.formatError(response.status, errorBody))
+    }
+
+    return response.json()
+  }
+
+  private formatError(status: number, body: string): string {
+    switch (status) {
+      case 401:
+        return 'Meta token expired or invalid. Please reconnect your account.'
+      case 403:
+        return 'Meta access denied. Your app may need additional permissions.'
+      case 404:
+        return 'Facebook Page not found. Please check your page ID.'
+      case 429:
+        return 'Meta rate limit exceeded. Please try again later.'
+      default:
+        try {
+          const parsed = JSON.parse(body)
+          return parsed.error?.message || `Meta error: ${body}`
+        } catch {
+          return `Meta error (${status}): ${body}`
+        }
+    }
+  }
+
+  /**
+   * Page insights require a page access token, which the user token can read
+   * together with the page's current follower count.
+   */
+  private async getPageAccess(): Promise<{ accessToken: string; followers: number }> {
+    if (!this.pageAccess) {
+      const page = await this.fetch<{ access_token?: string; followers_count?: number }>(
+        `/${this.pageId}?fields=access_token,followers_count`
+      )
+      if (!page.access_token) {
+        throw new Error('Meta access denied. Your app may need additional permissions.')
+      }
+      this.pageAccess = { accessToken: page.access_token, followers: page.followers_count ?? 0 }
+    }
+    return this.pageAccess
+  }
+
+  async getDailyInsights(date: Date): Promise<Record<PageInsightField, number>> {
+    const { accessToken } = await this.getPageAccess()
+
+    const until = new Date(date)
+    until.setDate(until.getDate() + 1)
+
+    const params = new URLSearchParams({
+      metric: Object.keys(PAGE_INSIGHT_METRICS).join(','),
+      period: 'day',
+      since: toDateKey(date),
+      until: toDateKey(until),
+    })
+
+    const response = await this.fetch<MetaInsightsResponse>(
+      `/${this.pageId}/insights?${params}`,
+      accessToken
+    )
+
+    const insights: Record<PageInsightField, number> = {
+      views: 0,
+      pageVisits: 0,
+      postEngagements: 0,
+      newFollowers: 0,
+    }
+    for (const metric of response.data ?? []) {
+      const field = PAGE_INSIGHT_METRICS[metric.name as keyof typeof PAGE_INSIGHT_METRICS]
+      if (!field) continue
+      insights[field] = metric.values.reduce((sum, v) => sum + (Number(v.value) || 0), 0)
+    }
+    return insights
+  }
+
+  /**
+   * Fetch daily metrics for a date range.
+   * Returns one MetaDailyMetrics per day. The follower total is the page's
+   * current count, as the Graph API has no historical follower totals.
+   */
+  async fetchDailyMetrics(startDate: Date, endDate: Date): Promise<MetaDailyMetrics[]> {
+    const { followers } = await this.getPageAccess()
+    const dailyMetrics: MetaDailyMetrics[] = []
+
+    const currentDate = new Date(startDate)
+    currentDate.setHours(0, 0, 0, 0)
+    while (currentDate <= endDate) {
+      const insights = await this.getDailyInsights(currentDate)
+      dailyMetrics.push({ date: toDateKey(currentDate), followers, ...insights })
+      currentDate.setDate(currentDate.getDate() + 1)
+    }
+
+    return dailyMetrics
+  }
+}
@@ -0,0 +1,4 @@
+export { MetaClient } from './client'
+export { MetaAdapter } from './adapter'
+export * from './types'
+export { syncMetaMetrics, getMetaMetrics } from './actions'
@@ -0,0 +1,44 @@
+// lib/platforms/meta/types.ts
+
+export interface MetaCredentials {
+  access_token: string
+  refresh_token: string
+  expires_at: string // ISO 8601 timestamp
+  organization_id: string // Facebook Page ID
+  organization_name: string
+  scopes: string[]
+}
+
+// Graph API insights response (GET /{page-id}/insights)
+export interface MetaInsightsResponse {
+  data: Array<{
+    name: string
+    period: string
+    values: Array<{ value: number; end_time?: string }>
+  }>
+}
+
+// Single day's metrics for a Facebook Page
+export interface MetaDailyMetrics {
+  date: string // YYYY-MM-DD format
+  followers: number
+  newFollowers: number
+  views: number
+  pageVisits: number
+  postEngagements: number
+}
+
+export type MetaMetricType =
+  | 'meta_followers'
+  | 'meta_new_followers'
+  | 'meta_views'
+  | 'meta_page_visits'
+  | 'meta_post_engagements'
+
+export const META_METRIC_TYPES: MetaMetricType[] = [
+  'meta_followers',
+  'meta_new_followers',
+  'meta_views',
+  'meta_page_visits',
+  'meta_post_engagements',
+]
@@ -0,0 +1,275 @@
+'use server'
+
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { SearchConsoleAdapter } from './adapter'
+import { calculateSearchConsoleTrends } from './metrics'
+import { getSearchConsoleTopRows } from './queries'
+import { decryptCredentials } from '@/lib/utils/crypto'
+import { getSyncDateRange } from '@/lib/utils/date-ranges'
+import { getMetricsFromDb, isCacheValid, upsertMetricsAndUpdateSync } from '@/lib/metrics/queries'
+import { buildTimeSeriesArray, getDateRanges } from '@/lib/metrics/helpers'
+import { SEARCH_CONSOLE_METRICS } from '@/lib/metrics/types'
+import { SearchConsoleDimension } from '@/lib/enums'
+import type { SearchConsoleCredentials, SearchConsoleTopRow } from './types'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Period, MetricTimeSeries } from '@/lib/metrics/types'
+
+// Search Console data is typically finalised two to three days after the fact
+const SEARCH_CONSOLE_DATA_DELAY_DAYS = 3
+
+// Rows shown in the dashboard's top pages and queries lists
+const TOP_ROWS_LIMIT = 5
+
+interface StoredCredentials {
+  encrypted?: string
+  access_token?: string
+  refresh_token?: string
+  organization_id?: string
+}
+
+function getCredentials(stored: StoredCredentials): SearchConsoleCredentials {
+  if (stored.encrypted) {
+    return decryptCredentials<SearchConsoleCredentials>(stored.encrypted)
+  }
+  return stored as SearchConsoleCredentials
+}
+
+/**
+ * The most recent day Search Console has complete data for.
+ */
+function getLatestAvailableDate(): Date {
+  const date = new Date()
+  date.setDate(date.getDate() - SEARCH_CONSOLE_DATA_DELAY_DAYS)
+  return date
+}
+
+/**
+ * Fetch site totals and page/query breakdowns for one day and store them.
+ */
+async function syncSearchConsoleDay(
+  adapter: SearchConsoleAdapter,
+  supabase: SupabaseClient,
+  connectionId: string,
+  organizationId: string,
+  targetDate: Date
+): Promise<void> {
+  const { start: syncDate, end: endDate } = getSyncDateRange(targetDate)
+
+  const [dailyMetrics, dimensionRows] = await Promise.all([
+    adapter.fetchDailyMetrics(syncDate, endDate),
+    adapter.fetchDimensionRows(syncDate),
+  ])
+
+  const dimensionRecords = adapter.normalizeDimensionRowsToDbRecords(
+    dimensionRows,
+    organizationId,
+    connectionId
+  )
+  if (dimensionRecords.length > 0) {
+    const { error } = await supabase
+      .from('search_console_metrics')
+      .upsert(dimensionRecords, { onConflict: 'organization_id,date,dimension,key' })
+
+    if (error) {
+      throw new Error(`Failed to save Search Console rows: ${error.message}`)
+    }
+  }
+
+  const records = adapter.normalizeDailyMetricsToDbRecords(dailyMetrics, organizationId)
+  await upsertMetricsAndUpdateSync(supabase, records, connectionId)
+}
+
+/**
+ * Service-level sync function for use by cron jobs (no user auth required).
+ * Fetches Search Console performance data and stores it in the database.
+ * @param targetDate - Optional specific date to sync. Defaults to the latest
+ * day Search Console has finished processing.
+ */
+export async function syncMetricsForSearchConsoleConnection(
+  connectionId: string,
+  organizationId: string,
+  storedCredentials: StoredCredentials,
+  supabase: SupabaseClient,
+  targetDate?: Date
+): Promise<void> {
+  const credentials = getCredentials(storedCredentials)
+  const adapter = new SearchConsoleAdapter(credentials, connectionId, supabase)
+
+  await syncSearchConsoleDay(
+    adapter,
+    supabase,
+    connectionId,
+    organizationId,
+    targetDate ?? getLatestAvailableDate()
+  )
+}
+
+export async function syncSearchConsoleMetrics(organizationId: string) {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  // RLS limits the lookup to connections in the user's organizations
+  const { data: connection } = await supabase
+    .from('platform_connections')
+    .select('id, credentials')
+    .eq('organization_id', organizationId)
+    .eq('platform_type', 'search_console')
+    .single()
+
+  if (!connection) {
+    return { error: 'Search Console not connected' }
+  }
+
+  try {
+    const credentials = getCredentials(connection.credentials as StoredCredentials)
+    // search_console_metrics has no write policies, so rows are stored with the service role
+    const serviceClient = createServiceClient()
+    const adapter = new SearchConsoleAdapter(credentials, connection.id, serviceClient)
+
+    await syncSearchConsoleDay(
+      adapter,
+      serviceClient,
+      connection.id,
+      organizationId,
+      getLatestAvailableDate()
+    )
+
+    revalidatePath('/dashboard')
+    return { success: true }
+  } catch (error) {
+    console.error('[Search Console Sync Error]', {
+      type: 'sync_failed',
+      organizationId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Failed to fetch Search Console metrics' }
+  }
+}
+
+/**
+ * Format DB metrics into the response shape expected by the UI.
+ */
+async function formatSearchConsoleMetricsFromDb(
+  supabase: SupabaseClient,
+  organizationId: string,
+  cached: { metrics: Array<{ date: string; metric_type: string; value: number }> },
+  period: Period
+): Promise<{
+  metrics: {
+    metrics: Array<{ label: string; value: number; change: number | null }>
+    topQueries: SearchConsoleTopRow[]
+    topPages: SearchConsoleTopRow[]
+  }
+  timeSeries: MetricTimeSeries[]
+}> {
+  const { current, changes } = calculateSearchConsoleTrends(cached.metrics, period)
+  const { currentStart, currentEnd } = getDateRanges(period)
+
+  const [topQueries, topPages] = await Promise.all([
+    getSearchConsoleTopRows(
+      supabase,
+      organizationId,
+      SearchConsoleDimension.Query,
+      currentStart,
+      currentEnd,
+      TOP_ROWS_LIMIT
+    ),
+    getSearchConsoleTopRows(
+      supabase,
+      organizationId,
+      SearchConsoleDimension.Page,
+      currentStart,
+      currentEnd,
+      TOP_ROWS_LIMIT
+    ),
+  ])
+
+  return {
+    metrics: {
+      metrics: [
+        { label: 'Clicks', value: current.clicks, change: changes.clicks },
+        { label: 'Impressions', value: current.impressions, change: changes.impressions },
+        { label: 'CTR (%)', value: current.ctr, change: changes.ctr },
+        { label: 'Avg. Position', value: current.position, change: changes.position },
+      ],
+      topQueries,
+      topPages,
+    },
+    timeSeries: buildTimeSeriesArray(cached.metrics, SEARCH_CONSOLE_METRICS, period),
+  }
+}
+
+export async function getSearchConsoleMetrics(period: Period, connectionId?: string) {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+  if (!user) {
+    return { error: 'Not authenticated' }
+  }
+
+  if (!connectionId) {
+    return { error: 'Connection ID is required' }
+  }
+
+  // Query connection directly by ID — RLS ensures user can only access their org's connections
+  const { data: connection } = await supabase
+    .from('platform_connections')
+    .select('id, credentials, organization_id')
+    .eq('id', connectionId)
+    .eq('platform_type', 'search_console')
+    .single()
+
+  if (!connection) {
+    return { error: 'Search Console not connected' }
+  }
+
+  const orgId = connection.organization_id
+
+  try {
+    const cached = await getMetricsFromDb(supabase, orgId, 'search_console', period)
+
+    if (isCacheValid(cached)) {
+      return formatSearchConsoleMetricsFromDb(supabase, orgId, cached, period)
+    }
+
+    // Cache is stale - sync the latest finalised day
+    const credentials = getCredentials(connection.credentials as StoredCredentials)
+    const serviceClient = createServiceClient()
+    const adapter = new SearchConsoleAdapter(credentials, connection.id, serviceClient)
+
+    await syncSearchConsoleDay(
+      adapter,
+      serviceClient,
+      connection.id,
+      orgId,
+      getLatestAvailableDate()
+    )
+
+    const updatedCache = await getMetricsFromDb(supabase, orgId, 'search_console', period)
+    return formatSearchConsoleMetricsFromDb(supabase, orgId, updatedCache, period)
+  } catch (error) {
+    console.error('[Search Console Metrics Error]', {
+      type: 'fetch_metrics_failed',
+      connectionId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    if (error instanceof Error) {
+      return { error: error.message }
+    }
+    return { error: 'Failed to fetch Search Console metrics' }
+  }
+}
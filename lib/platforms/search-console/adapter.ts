@@ -0,0 +1,96 @@
+// lib/platforms/search-console/adapter.ts
+import { SearchConsoleClient } from './client'
+import { SearchConsoleDimension } from '@/lib/enums'
+import type {
+  SearchConsoleCredentials,
+  SearchConsoleDailyMetrics,
+  SearchConsoleDimensionRow,
+  SearchConsoleMetricType,
+} from './types'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+interface MetricRecord {
+  organization_id: string
+  campaign_id: null
+  platform_type: 'search_console'
+  date: string
+  metric_type: SearchConsoleMetricType
+  value: number
+}
+
+interface DimensionRecord {
+  organization_id: string
+  platform_connection_id: string | null
+  date: string
+  dimension: SearchConsoleDimension
+  key: string
+  clicks: number
+  impressions: number
+  ctr: number
+  position: number
+}
+
+const METRIC_FIELDS: Record<
+  SearchConsoleMetricType,
+  keyof Omit<SearchConsoleDailyMetrics, 'date'>
+> = {
+  gsc_clicks: 'clicks',
+  gsc_impressions: 'impressions',
+  gsc_ctr: 'ctr',
+  gsc_position: 'position',
+}
+
+export class SearchConsoleAdapter {
+  private client: SearchConsoleClient
+
+  constructor(
+    credentials: SearchConsoleCredentials,
+    connectionId?: string,
+    supabaseClient?: SupabaseClient
+  ) {
+    this.client = new SearchConsoleClient(credentials, connectionId, supabaseClient)
+  }
+
+  async fetchDailyMetrics(startDate: Date, endDate: Date): Promise<SearchConsoleDailyMetrics[]> {
+    return this.client.fetchDailyMetrics(startDate, endDate)
+  }
+
+  /**
+   * Fetch the page and query breakdowns for a single day.
+   */
+  async fetchDimensionRows(date: Date): Promise<SearchConsoleDimensionRow[]> {
+    const [pages, queries] = await Promise.all([
+      this.client.fetchDimensionRows(date, SearchConsoleDimension.Page),
+      this.client.fetchDimensionRows(date, SearchConsoleDimension.Query),
+    ])
+    return [...pages, ...queries]
+  }
+
+  normalizeDailyMetricsToDbRecords(
+    dailyMetrics: SearchConsoleDailyMetrics[],
+    organizationId: string
+  ): MetricRecord[] {
+    return dailyMetrics.flatMap((day) =>
+      (Object.keys(METRIC_FIELDS) as SearchConsoleMetricType[]).map((metricType) => ({
+        organization_id: organizationId,
+        campaign_id: null,
+        platform_type: 'search_console' as const,
+        date: day.date,
+        metric_type: metricType,
+        value: day[METRIC_FIELDS[metricType]],
+      }))
+    )
+  }
+
+  normalizeDimensionRowsToDbRecords(
+    rows: SearchConsoleDimensionRow[],
+    organizationId: string,
+    connectionId: string | null
+  ): DimensionRecord[] {
+    return rows.map((row) => ({
+      organization_id: organizationId,
+      platform_connection_id: connectionId,
+      ...row,
+    }))
+  }
+}
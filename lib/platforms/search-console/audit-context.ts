@@ -0,0 +1,55 @@
+// lib/platforms/search-console/audit-context.ts
+import { normalizePageUrl } from '@/lib/utils/url'
+import type { SearchConsoleTopRow } from './types'
+
+export interface FailedPageCheck {
+  page_url: string | null
+  check_name: string
+  display_name: string
+}
+
+export interface SearchConsoleAuditPage {
+  url: string
+  clicks: number
+  impressions: number
+  position: number
+  failedChecks: Array<{ check_name: string; display_name: string }>
+}
+
+/**
+ * Pages that get significant search impressions and also fail critical audit
+ * checks, in Search Console order (most impressions first).
+ */
+export function matchHighImpressionPages(
+  topPages: SearchConsoleTopRow[],
+  failedChecks: FailedPageCheck[],
+  limit: number
+): SearchConsoleAuditPage[] {
+  const checksByUrl = new Map<string, Map<string, string>>()
+  for (const check of failedChecks) {
+    if (!check.page_url) continue
+    const key = normalizePageUrl(check.page_url)
+    const checks = checksByUrl.get(key) ?? new Map<string, string>()
+    checks.set(check.check_name, check.display_name)
+    checksByUrl.set(key, checks)
+  }
+
+  const matches: SearchConsoleAuditPage[] = []
+  for (const page of topPages) {
+    if (page.impressions <= 0) continue
+    const checks = checksByUrl.get(normalizePageUrl(page.key))
+    if (!checks) continue
+    matches.push({
+      url: page.key,
+      clicks: page.clicks,
+      impressions: page.impressions,
+      position: page.position,
+      failedChecks: Array.from(checks, ([check_name, display_name]) => ({
+        check_name,
+        display_name,
+      })),
+    })
+    if (matches.length >= limit) break
+  }
+  return matches
+}
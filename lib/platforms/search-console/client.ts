@@ -0,0 +1,202 @@
+// lib/platforms/search-console/client.ts
+import type {
+  SearchConsoleCredentials,
+  SearchConsoleDailyMetrics,
+  SearchConsoleDimensionRow,
+  SearchAnalyticsResponse,
+  SearchAnalyticsRow,
+} from './types'
+import type { SearchConsoleDimension } from '@/lib/enums'
+import { getOAuthProvider } from '@/lib/oauth/registry'
+import { Platform } from '@/lib/oauth/types'
+import type { OAuthProvider } from '@/lib/oauth/base'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+const SEARCH_CONSOLE_API_BASE = 'https://searchconsole.googleapis.com/webmasters/v3'
+
+// Rows kept per day for the page and query breakdowns
+const DEFAULT_ROW_LIMIT = 250
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * The API reports CTR as a 0-1 ratio; everything we store uses percentages.
+ */
+function normalizeRow(row: SearchAnalyticsRow) {
+  return {
+    clicks: row.clicks ?? 0,
+    impressions: row.impressions ?? 0,
+    ctr: round((row.ctr ?? 0) * 100, 2),
+    position: round(row.position ?? 0, 2),
+  }
+}
+
+export class SearchConsoleClient {
+  private accessToken: string
+  private siteUrl: string
+  private credentials: SearchConsoleCredentials
+  private connectionId: string | null
+  private oauthProvider: OAuthProvider | null
+  private supabaseClient: SupabaseClient | undefined
+
+  constructor(
+    credentials: SearchConsoleCredentials,
+    connectionId?: string,
+    supabaseClient?: SupabaseClient
+  ) {
+    this.credentials = credentials
+    this.accessToken = credentials.access_token
+    this.siteUrl = credentials.organization_id
+    this.connectionId = connectionId || null
+    this.oauthProvider =
+      connectionId && credentials.refresh_token ? getOAuthProvider(Platform.SEARCH_CONSOLE) : null
+    this.supabaseClient = supabaseClient
+  }
+
+  private async ensureFreshToken(): Promise<void> {
+    if (!this.oauthProvider || !this.connectionId) {
+      return
+    }
+
+    if (this.oauthProvider.shouldRefreshToken(this.credentials.expires_at)) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('[Search Console Client] Refreshing token', {
+          expiresAt: this.credentials.expires_at,
+          connectionId: this.connectionId,
+        })
+      }
+
+      try {
+        const newTokens = await this.oauthProvider.refreshAccessToken(
+          this.credentials.refresh_token
+        )
+        await this.oauthProvider.updateTokensInDatabase(
+          this.connectionId,
+          newTokens,
+          this.supabaseClient
+        )
+
+        this.credentials = {
+          ...this.credentials,
+          access_token: newTokens.access_token,
+          refresh_token: newTokens.refresh_token,
+          expires_at: this.oauthProvider.calculateExpiresAt(newTokens.expires_in),
+        }
+        this.accessToken = newTokens.access_token
+      } catch (error) {
+        console.error('[Search Console Client] Token refresh failed', {
+          type: 'token_refresh_error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString(),
+        })
+
+        // Mark connection as failed so user knows to reconnect
+        try {
+          const supabase =
+            this.supabaseClient ?? (await (await import('@/lib/supabase/server')).createClient())
+          await supabase
+            .from('platform_connections')
+            .update({ status: 'failed' })
+            .eq('id', this.connectionId)
+        } catch (updateError) {
+          console.error('[Search Console Client] Failed to update connection status', {
+            type: 'database_update_error',
+            error: updateError instanceof Error ? updateError.message : 'Unknown error',
+            timestamp: new Date().toISOString(),
+          })
+        }
+
+        throw error
+      }
+    }
+  }
+
+  private async query(body: Record<string, unknown>): Promise<SearchAnalyticsRow[]> {
+    await this.ensureFreshToken()
+
+    const response = await fetch(
+      `${SEARCH_CONSOLE_API_BASE}/sites/${encodeURIComponent(this.siteUrl)}/searchAnalytics/query`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      }
+    )
+
+    if (!response.ok) {
+      const errorBody = await response.text()
+      throw new Error(this.formatError(response.status, errorBody))
+    }
+
+    const data: SearchAnalyticsResponse = await response.json()
+    return data.rows ?? []
+  }
+
+  private formatError(status: number, body: string): string {
+    switch (status) {
+      case 401:
+        return 'Search Console token expired or invalid. Please reconnect your account.'
+      case 403:
+        return 'Search Console access denied. Check that you still have access to this property.'
+      case 404:
+        return 'Search Console property not found. Please check your site URL.'
+      case 429:
+        return 'Search Console rate limit exceeded. Please try again later.'
+      default:
+        try {
+          const parsed = JSON.parse(body)
+          return parsed.error?.message || `Search Console error: ${body}`
+        } catch {
+          return `Search Console error (${status}): ${body}`
+        }
+    }
+  }
+
+  /**
+   * Fetch site-wide daily totals for a date range.
+   * Days Google hasn't finished processing are omitted rather than reported
+   * as zero, so a later sync can fill them in.
+   */
+  async fetchDailyMetrics(startDate: Date, endDate: Date): Promise<SearchConsoleDailyMetrics[]> {
+    const rows = await this.query({
+      startDate: toDateKey(startDate),
+      endDate: toDateKey(endDate),
+      dimensions: ['date'],
+    })
+
+    return rows
+      .filter((row) => row.keys?.[0])
+      .map((row) => ({ date: row.keys![0], ...normalizeRow(row) }))
+  }
+
+  /**
+   * Fetch the top pages or queries for a single day, ordered by clicks.
+   */
+  async fetchDimensionRows(
+    date: Date,
+    dimension: SearchConsoleDimension,
+    rowLimit: number = DEFAULT_ROW_LIMIT
+  ): Promise<SearchConsoleDimensionRow[]> {
+    const dateKey = toDateKey(date)
+    const rows = await this.query({
+      startDate: dateKey,
+      endDate: dateKey,
+      dimensions: [dimension],
+      rowLimit,
+    })
+
+    return rows
+      .filter((row) => row.keys?.[0])
+      .map((row) => ({ date: dateKey, dimension, key: row.keys![0], ...normalizeRow(row) }))
+  }
+}
@@ -0,0 +1,4 @@
+export { SearchConsoleClient } from './client'
+export { SearchConsoleAdapter } from './adapter'
+export * from './types'
+export { syncSearchConsoleMetrics, getSearchConsoleMetrics } from './actions'
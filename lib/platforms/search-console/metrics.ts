@@ -0,0 +1,82 @@
+// lib/platforms/search-console/metrics.ts
+import { calculateChange, formatDateString, getDateRanges } from '@/lib/metrics/helpers'
+import type { MetricRecord, Period } from '@/lib/metrics/types'
+
+export interface SearchConsoleTotals {
+  clicks: number
+  impressions: number
+  ctr: number // percentage, 0-100
+  position: number
+  hasData: boolean
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Aggregate daily Search Console records over a date range.
+ * Clicks and impressions are summed; CTR is recomputed from the sums and
+ * position is weighted by each day's impressions, since neither can be added
+ * up day by day.
+ */
+export function summarizeSearchConsoleMetrics(
+  metrics: MetricRecord[],
+  startDate: Date,
+  endDate: Date
+): SearchConsoleTotals {
+  const startStr = formatDateString(startDate)
+  const endStr = formatDateString(endDate)
+
+  const byDate = new Map<string, Partial<Record<string, number>>>()
+  for (const m of metrics) {
+    if (!m.metric_type.startsWith('gsc_') || m.date < startStr || m.date > endStr) continue
+    const day = byDate.get(m.date) ?? {}
+    day[m.metric_type] = Number(m.value) || 0
+    byDate.set(m.date, day)
+  }
+
+  let clicks = 0
+  let impressions = 0
+  let weightedPosition = 0
+  for (const day of byDate.values()) {
+    const dayImpressions = day.gsc_impressions ?? 0
+    clicks += day.gsc_clicks ?? 0
+    impressions += dayImpressions
+    weightedPosition += (day.gsc_position ?? 0) * dayImpressions
+  }
+
+  return {
+    clicks,
+    impressions,
+    ctr: impressions > 0 ? round((clicks / impressions) * 100, 2) : 0,
+    position: impressions > 0 ? round(weightedPosition / impressions, 1) : 0,
+    hasData: byDate.size > 0,
+  }
+}
+
+/**
+ * Current-period totals with changes against the previous period.
+ * A lower position is better, so its change is inverted to read as an
+ * improvement when the site moves up the results.
+ */
+export function calculateSearchConsoleTrends(metrics: MetricRecord[], period: Period) {
+  const { currentStart, currentEnd, previousStart, previousEnd } = getDateRanges(period)
+  const current = summarizeSearchConsoleMetrics(metrics, currentStart, currentEnd)
+  const previous = summarizeSearchConsoleMetrics(metrics, previousStart, previousEnd)
+
+  const change = (key: 'clicks' | 'impressions' | 'ctr' | 'position') =>
+    previous.hasData ? calculateChange(current[key], previous[key]) : null
+  const positionChange = change('position')
+
+  return {
+    current,
+    changes: {
+      clicks: change('clicks'),
+      impressions: change('impressions'),
+      ctr: change('ctr'),
+      position: positionChange === null || positionChange === 0 ? positionChange : -positionChange,
+    },
+  }
+}
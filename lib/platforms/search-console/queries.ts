@@ -0,0 +1,44 @@
+// lib/platforms/search-console/queries.ts
+import { formatDateString } from '@/lib/metrics/helpers'
+import type { SearchConsoleDimension } from '@/lib/enums'
+import type { SearchConsoleTopRow } from './types'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Top pages or queries for a date range, aggregated in the database.
+ */
+export async function getSearchConsoleTopRows(
+  supabase: SupabaseClient,
+  organizationId: string,
+  dimension: SearchConsoleDimension,
+  startDate: Date,
+  endDate: Date,
+  limit: number
+): Promise<SearchConsoleTopRow[]> {
+  const { data, error } = await supabase.rpc('search_console_top_rows', {
+    org_id: organizationId,
+    row_dimension: dimension,
+    start_date: formatDateString(startDate),
+    end_date: formatDateString(endDate),
+    max_rows: limit,
+  })
+
+  if (error) {
+    console.error('[Search Console Metrics Error]', {
+      type: 'fetch_top_rows_failed',
+      organizationId,
+      dimension,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    })
+    return []
+  }
+
+  return ((data as SearchConsoleTopRow[] | null) ?? []).map((row) => ({
+    key: row.key,
+    clicks: Number(row.clicks) || 0,
+    impressions: Number(row.impressions) || 0,
+    ctr: Number(row.ctr) || 0,
+    position: Number(row.position) || 0,
+  }))
+}
@@ -0,0 +1,64 @@
+// lib/platforms/search-console/types.ts
+import type { SearchConsoleDimension } from '@/lib/enums'
+
+export interface SearchConsoleCredentials {
+  access_token: string
+  refresh_token: string
+  expires_at: string // ISO 8601 timestamp
+  organization_id: string // Search Console property, e.g. "https://example.com/" or "sc-domain:example.com"
+  organization_name: string
+  scopes: string[]
+}
+
+// Search Analytics API row (POST /sites/{siteUrl}/searchAnalytics/query).
+// ctr is a 0-1 ratio and position is the average ranking position.
+export interface SearchAnalyticsRow {
+  keys?: string[]
+  clicks: number
+  impressions: number
+  ctr: number
+  position: number
+}
+
+export interface SearchAnalyticsResponse {
+  rows?: SearchAnalyticsRow[]
+  responseAggregationType?: string
+}
+
+// Single day's site-wide totals
+export interface SearchConsoleDailyMetrics {
+  date: string // YYYY-MM-DD format
+  clicks: number
+  impressions: number
+  ctr: number // percentage, 0-100
+  position: number
+}
+
+// Single day's totals for one page or query
+export interface SearchConsoleDimensionRow {
+  date: string // YYYY-MM-DD format
+  dimension: SearchConsoleDimension
+  key: string
+  clicks: number
+  impressions: number
+  ctr: number // percentage, 0-100
+  position: number
+}
+
+// Aggregated row returned by the search_console_top_rows database function
+export interface SearchConsoleTopRow {
+  key: string
+  clicks: number
+  impressions: number
+  ctr: number // percentage, 0-100
+  position: number
+}
+
+export type SearchConsoleMetricType = 'gsc_clicks' | 'gsc_impressions' | 'gsc_ctr' | 'gsc_position'
+
+export const SEARCH_CONSOLE_METRIC_TYPES: SearchConsoleMetricType[] = [
+  'gsc_clicks',
+  'gsc_impressions',
+  'gsc_ctr',
+  'gsc_position',
+]
@@ -1,4 +1,10 @@
-export type PlatformType = 'hubspot' | 'google_analytics' | 'linkedin' | 'meta' | 'instagram'
+export type PlatformType =
+  | 'hubspot'
+  | 'google_analytics'
+  | 'linkedin'
+  | 'meta'
+  | 'instagram'
+  | 'search_console'
 
 export type PlatformCredentials = {
   hubspot: {
@@ -0,0 +1,39 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { UserRole } from '@/lib/enums'
+import type { RemediationAssignee } from './types'
+
+/**
+ * Organization members who can be assigned fixes: everyone on the team
+ * except client viewers.
+ */
+export async function getRemediationAssignees(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<RemediationAssignee[]> {
+  const [{ data: memberships }, { data: userEmails }] = await Promise.all([
+    supabase.from('team_members').select('user_id, role').eq('organization_id', organizationId),
+    supabase.rpc('get_organization_user_emails', { org_id: organizationId }),
+  ])
+
+  const assignable = new Set(
+    (memberships ?? [])
+      .filter((m) => m.role !== UserRole.ClientViewer)
+      .map((m) => m.user_id as string)
+  )
+
+  return (
+    (userEmails ?? []) as {
+      user_id: string
+      email: string
+      first_name: string
+      last_name: string
+    }[]
+  )
+    .filter((u) => assignable.has(u.user_id))
+    .map((u) => ({
+      id: u.user_id,
+      name: `${u.first_name}${u.last_name ? ' ' + u.last_name : ''}`.trim() || u.email,
+      email: u.email,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
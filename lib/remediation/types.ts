@@ -0,0 +1,31 @@
+import type { CheckPriority, RemediationStatus } from '@/lib/enums'
+
+export interface RemediationItem {
+  id: string
+  organization_id: string
+  domain: string
+  check_name: string
+  /** Page URL, or the site origin for site-wide checks */
+  url: string
+  display_name: string
+  priority: CheckPriority
+  status: RemediationStatus
+  assigned_to: string | null
+  /** YYYY-MM-DD */
+  due_date: string | null
+  reopen_count: number
+  created_from_audit_id: string | null
+  last_checked_audit_id: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+  fixed_at: string | null
+  verified_at: string | null
+}
+
+/** Team member an item can be assigned to */
+export interface RemediationAssignee {
+  id: string
+  name: string
+  email: string
+}
@@ -0,0 +1,111 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { paginateQuery } from '@/lib/supabase/paginate'
+import { CheckStatus, RemediationStatus, UnifiedAuditStatus } from '@/lib/enums'
+import type { AuditCheck } from '@/lib/unified-audit/types'
+import type { RemediationItem } from './types'
+
+const COMPLETED_STATUSES = [UnifiedAuditStatus.Completed, UnifiedAuditStatus.CompletedWithErrors]
+
+type CheckResult = Pick<AuditCheck, 'check_name' | 'page_url' | 'status'>
+
+/**
+ * URL a remediation item is keyed on: the page, or the site origin for
+ * site-wide checks (matching how the runner keys dismissed checks).
+ */
+export function remediationUrl(pageUrl: string | null, siteUrl: string): string {
+  return pageUrl ?? new URL(siteUrl).origin
+}
+
+/**
+ * Outcome for a fixed item given the new audit's results for its check and
+ * URL: verified when it passes, reopened when it fails or warns, and null
+ * when the audit didn't run the check there (e.g. the page wasn't crawled).
+ */
+export function evaluateFixedItem(
+  results: Pick<CheckResult, 'status'>[]
+): RemediationStatus.Verified | RemediationStatus.Open | null {
+  if (results.length === 0) return null
+  return results.every((r) => r.status === CheckStatus.Passed)
+    ? RemediationStatus.Verified
+    : RemediationStatus.Open
+}
+
+/**
+ * After a unified audit finishes, verify or reopen the organization's fixed
+ * remediation items for the audited site. Fire-and-forget: never throws.
+ */
+export async function verifyRemediationItems(auditId: string): Promise<void> {
+  try {
+    const supabase = createServiceClient()
+
+    const { data: audit } = await supabase
+      .from('audits')
+      .select('id, organization_id, domain, url, status')
+      .eq('id', auditId)
+      .single()
+
+    if (!audit?.organization_id || !COMPLETED_STATUSES.includes(audit.status)) return
+
+    const { data: fixedItems } = await supabase
+      .from('remediation_items')
+      .select('*')
+      .eq('organization_id', audit.organization_id)
+      .eq('domain', audit.domain)
+      .eq('status', RemediationStatus.Fixed)
+
+    if (!fixedItems?.length) return
+    const items = fixedItems as RemediationItem[]
+
+    const checkNames = [...new Set(items.map((item) => item.check_name))]
+    const results = await paginateQuery<CheckResult>(
+      (sb, range) =>
+        sb
+          .from('audit_checks')
+          .select('check_name, page_url, status' as '*')
+          .eq('audit_id', auditId)
+          .in('check_name', checkNames)
+          .order('created_at', { ascending: true })
+          .range(range.from, range.to),
+      supabase
+    )
+
+    const resultsByKey = new Map<string, CheckResult[]>()
+    for (const result of results) {
+      const key = `${result.check_name}|${remediationUrl(result.page_url, audit.url)}`
+      resultsByKey.set(key, [...(resultsByKey.get(key) ?? []), result])
+    }
+
+    const now = new Date().toISOString()
+    for (const item of items) {
+      const outcome = evaluateFixedItem(resultsByKey.get(`${item.check_name}|${item.url}`) ?? [])
+      if (!outcome) continue
+
+      const update =
+        outcome === RemediationStatus.Verified
+          ? { status: outcome, verified_at: now }
+          : { status: outcome, fixed_at: null, reopen_count: item.reopen_count + 1 }
+
+      const { error } = await supabase
+        .from('remediation_items')
+        .update({ ...update, last_checked_audit_id: auditId, updated_at: now })
+        .eq('id', item.id)
+
+      if (error) {
+        console.error('[Remediation Error]', {
+          type: 'verify_item_failed',
+          auditId,
+          itemId: item.id,
+          error: error.message,
+          timestamp: new Date().toISOString(),
+        })
+      }
+    }
+  } catch (error) {
+    console.error('[Remediation Error]', {
+      type: 'verify_failed',
+      auditId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+  }
+}
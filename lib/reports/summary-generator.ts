@@ -1,5 +1,5 @@
 import { generateText } from 'ai'
-import { getAnthropicProvider } from '@/lib/ai/provider'
+import { AIDisabledError, getAnthropicProvider } from '@/lib/ai/provider'
 import type { SiteAudit, SiteAuditCheck } from '@/lib/audit/types'
 import type { PerformanceAuditResult } from '@/lib/performance/types'
 import type { AIOAudit, AIOCheck } from '@/lib/aio/types'
@@ -169,7 +169,7 @@ Write 3 short paragraphs in plain text (NO markdown, NO bullet points, NO specia
 Maximum 150 words. Warm, confident, consultative tone — like a trusted advisor, not a scorecard. Plain text only — no asterisks, no hashes, no formatting symbols.`
 
   try {
-    const anthropic = await getAnthropicProvider()
+    const anthropic = await getAnthropicProvider(input.organizationId)
     const { text, usage } = await generateText({
       model: anthropic('claude-sonnet-4-20250514'),
       prompt,
@@ -187,6 +187,10 @@ Maximum 150 words. Warm, confident, consultative tone — like a trusted advisor
 
     return text.trim()
   } catch (error) {
+    if (error instanceof AIDisabledError) {
+      return generateFallbackReportSummary(input)
+    }
+
     console.error('[Generate Report Summary Error]', {
       type: 'ai_generation_failed',
       domain,
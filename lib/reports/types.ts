@@ -213,6 +213,9 @@ export interface ReportPresentationData {
   // Opportunities (issues)
   opportunities: ReportOpportunity[]
 
+  // Failed checks ranked by Google Analytics traffic (absent without GA)
+  priority_fixes?: ReportPriorityFix[]
+
   // Business impact projections
   projections: ReportProjection[]
 
@@ -230,6 +233,13 @@ export interface ReportOpportunity {
   source: AuditSource
 }
 
+export interface ReportPriorityFix {
+  title: string
+  priority: ReportPriority
+  affected_pages: number
+  sessions: number
+}
+
 export interface ReportProjection {
   area: string
   current_value: string
@@ -313,5 +323,7 @@ export function getShareErrorMessage(error: ShareErrorCode): string {
       return 'The report could not be found.'
     case ShareErrorCode.ResourceNotFound:
       return 'The shared resource could not be found.'
+    case ShareErrorCode.DownloadGrantRequired:
+      return 'This download has expired. Reload the page to download again.'
   }
 }
@@ -6,14 +6,21 @@ import { nanoid } from 'nanoid'
 import { createClient } from '@/lib/supabase/server'
 import { getAuthUser, getUserRecord } from '@/lib/auth/cached'
 import { isInternalUser } from '@/lib/permissions'
-import { UserRole } from '@/lib/enums'
-import { periodsForQuarter } from '@/lib/reviews/period'
+import { ReviewDeliveryTrigger, UserRole } from '@/lib/enums'
+import { formatPeriodLabel, periodsFor, type ReviewPeriods } from '@/lib/reviews/period'
 import { fetchAllData } from '@/lib/reviews/fetchers'
 import {
   generateNarrativeBlocks,
   NarrativeGenerationError,
 } from '@/lib/reviews/narrative/generator'
 import { runStyleMemoLearner } from '@/lib/reviews/narrative/learn'
+import {
+  deliverReviewSnapshot,
+  MAX_REVIEW_RECIPIENTS,
+  parseRecipients,
+  prerenderSnapshotPdf,
+  type ReviewDeliveryResult,
+} from '@/lib/reviews/distribution'
 import type { NarrativeBlocks, SnapshotData } from '@/lib/reviews/types'
 
 type ActionOk = { success: true }
@@ -76,8 +83,15 @@ export async function createReview(input: {
   const auth = await authorizeAdminOrInternal(input.organizationId)
   if (!auth.ok) return { success: false, error: auth.error }
 
+  let periods: ReviewPeriods
+  try {
+    periods = periodsFor(input.quarter)
+  } catch {
+    return { success: false, error: `Invalid review period: ${input.quarter}` }
+  }
+
   const supabase = await createClient()
-  const title = input.title ?? `${input.quarter} Marketing Review`
+  const title = input.title ?? `${formatPeriodLabel(input.quarter)} Marketing Review`
   const normalizedNotes = input.authorNotes?.trim() ?? ''
   const authorNotes = normalizedNotes.length > 0 ? normalizedNotes : null
 
@@ -107,7 +121,6 @@ export async function createReview(input: {
     return { success: false, error: reviewError?.message ?? 'Failed to create review' }
   }
 
-  const periods = periodsForQuarter(input.quarter)
   const data = await fetchAllData(input.organizationId, periods)
 
   const { data: org } = await supabase
@@ -122,6 +135,7 @@ export async function createReview(input: {
       organizationId: input.organizationId,
       organizationName: (org?.name as string | undefined) ?? 'the organization',
       quarter: input.quarter,
+      periodType: periods.type,
       periodStart: periods.main.start,
       periodEnd: periods.main.end,
       data,
@@ -193,7 +207,7 @@ export async function refreshDraftData(reviewId: string): Promise<ActionOk | Act
   if (!auth.ok) return { success: false, error: auth.error }
 
   const supabase = await createClient()
-  const periods = periodsForQuarter(review.quarter)
+  const periods = periodsFor(review.quarter)
   const data = await fetchAllData(review.organization_id, periods)
 
   // narrative + ai_originals intentionally untouched — edits are preserved
@@ -326,7 +340,7 @@ export async function publishReview(
     .maybeSingle()
 
   const nextVersion = ((lastSnapshot?.version as number | undefined) ?? 0) + 1
-  const periods = periodsForQuarter(review.quarter)
+  const periods = periodsFor(review.quarter)
 
   const { data: snapshot, error: insertError } = await supabase
     .from('marketing_review_snapshots')
@@ -362,6 +376,25 @@ export async function publishReview(
 
   revalidatePath(`/${review.organization_id}/reports/performance/${reviewId}`)
 
+  const { data: distribution } = await supabase
+    .from('marketing_reviews')
+    .select('send_on_publish')
+    .eq('id', reviewId)
+    .maybeSingle()
+
+  // Render the PDF first so every send of this snapshot can attach it
+  after(async () => {
+    await prerenderSnapshotPdf(snapshot.id as string)
+    if (distribution?.send_on_publish) {
+      await sendSnapshotToRecipients(
+        reviewId,
+        snapshot.id as string,
+        ReviewDeliveryTrigger.Publish,
+        auth.userId
+      )
+    }
+  })
+
   after(async () => {
     await runStyleMemoLearner({
       organizationId: review.organization_id,
@@ -376,3 +409,120 @@ export async function publishReview(
 
   return { success: true, snapshotId: snapshot.id as string, version: nextVersion }
 }
+
+async function sendSnapshotToRecipients(
+  reviewId: string,
+  snapshotId: string,
+  trigger: ReviewDeliveryTrigger,
+  userId: string
+): Promise<(ActionOk & ReviewDeliveryResult) | ActionErr> {
+  try {
+    const result = await deliverReviewSnapshot({
+      reviewId,
+      snapshotId,
+      trigger,
+      triggeredBy: userId,
+    })
+    return { success: true, ...result }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    console.error('[Review Delivery Error]', {
+      type: 'delivery_failed',
+      reviewId,
+      snapshotId,
+      trigger,
+      error: message,
+      timestamp: new Date().toISOString(),
+    })
+    return { success: false, error: message }
+  }
+}
+
+export async function updateReviewDistribution(
+  reviewId: string,
+  input: { recipients: string; sendOnPublish: boolean; scheduledSendAt: string | null }
+): Promise<ActionOk | ActionErr> {
+  const review = await loadReviewForAuth(reviewId)
+  if (!review) return { success: false, error: 'Review not found' }
+
+  const auth = await authorizeAdminOrInternal(review.organization_id)
+  if (!auth.ok) return { success: false, error: auth.error }
+
+  const { emails, invalid } = parseRecipients(input.recipients)
+  if (invalid.length > 0) {
+    return { success: false, error: `Invalid email address: ${invalid[0]}` }
+  }
+  if (emails.length > MAX_REVIEW_RECIPIENTS) {
+    return { success: false, error: `At most ${MAX_REVIEW_RECIPIENTS} recipients are allowed` }
+  }
+
+  let scheduledSendAt: string | null = null
+  if (input.scheduledSendAt) {
+    const scheduled = new Date(input.scheduledSendAt)
+    if (Number.isNaN(scheduled.getTime())) {
+      return { success: false, error: 'Invalid scheduled send time' }
+    }
+    if (scheduled.getTime() <= Date.now()) {
+      return { success: false, error: 'Scheduled send time must be in the future' }
+    }
+    scheduledSendAt = scheduled.toISOString()
+  }
+
+  if ((input.sendOnPublish || scheduledSendAt) && emails.length === 0) {
+    return { success: false, error: 'Add at least one recipient before enabling delivery' }
+  }
+
+  const supabase = await createClient()
+
+  const { error: updateError } = await supabase
+    .from('marketing_reviews')
+    .update({ send_on_publish: input.sendOnPublish, scheduled_send_at: scheduledSendAt })
+    .eq('id', reviewId)
+  if (updateError) return { success: false, error: updateError.message }
+
+  const { error: deleteError } = await supabase
+    .from('marketing_review_recipients')
+    .delete()
+    .eq('review_id', reviewId)
+  if (deleteError) return { success: false, error: deleteError.message }
+
+  if (emails.length > 0) {
+    const { error: insertError } = await supabase
+      .from('marketing_review_recipients')
+      .insert(emails.map((email) => ({ review_id: reviewId, email, created_by: auth.userId })))
+    if (insertError) return { success: false, error: insertError.message }
+  }
+
+  revalidatePath(`/${review.organization_id}/reports/performance/${reviewId}`)
+  return { success: true }
+}
+
+export async function sendLatestSnapshot(
+  reviewId: string
+): Promise<(ActionOk & ReviewDeliveryResult) | ActionErr> {
+  const review = await loadReviewForAuth(reviewId)
+  if (!review) return { success: false, error: 'Review not found' }
+
+  const auth = await authorizeAdminOrInternal(review.organization_id)
+  if (!auth.ok) return { success: false, error: auth.error }
+
+  const supabase = await createClient()
+  const { data } = await supabase
+    .from('marketing_reviews')
+    .select('latest_snapshot_id')
+    .eq('id', reviewId)
+    .maybeSingle()
+
+  const snapshotId = data?.latest_snapshot_id as string | null | undefined
+  if (!snapshotId) return { success: false, error: 'Publish the review before sending it' }
+
+  const result = await sendSnapshotToRecipients(
+    reviewId,
+    snapshotId,
+    ReviewDeliveryTrigger.Manual,
+    auth.userId
+  )
+
+  revalidatePath(`/${review.organization_id}/reports/performance/${reviewId}`)
+  return result
+}
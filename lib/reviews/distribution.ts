@@ -0,0 +1,257 @@
+import { nanoid } from 'nanoid'
+import { createServiceClient } from '@/lib/supabase/server'
+import { sendEmail, isSuppressed, FROM_EMAIL, type EmailAttachment } from '@/lib/email/client'
+import { getResourcePdf, getResourcePdfAttachment } from '@/lib/pdf/exports'
+import MarketingReviewEmail, { type ReviewEmailMetric } from '@/emails/marketing-review-email'
+import {
+  ReviewDeliveryStatus,
+  ReviewDeliveryTrigger,
+  SharedResourceType,
+  ShareExpiration,
+} from '@/lib/enums'
+import { getExpirationDays } from '@/lib/reports/types'
+import { GA_FEATURED_METRICS } from '@/lib/reviews/featured-metrics'
+import { LINKEDIN_FEATURED_METRICS } from '@/lib/reviews/linkedin-featured-metrics'
+import { formatMetricDelta, formatMetricValue } from '@/lib/reviews/format'
+import { formatPeriodLabel, getPeriodType, periodNoun } from '@/lib/reviews/period'
+import type { MetricTriple, SnapshotData } from '@/lib/reviews/types'
+
+export { parseRecipients } from '@/lib/email/recipients'
+
+export const MAX_REVIEW_RECIPIENTS = 50
+
+// Emailed links stay valid for a full quarter so clients can revisit the review
+const LINK_EXPIRATION = ShareExpiration.NinetyDays
+
+// Clients forward the email internally, so allow a few views per recipient
+const VIEWS_PER_RECIPIENT = 10
+
+export interface ReviewDeliveryResult {
+  sent: number
+  failed: number
+  suppressed: number
+}
+
+function toEmailMetric(label: string, triple: MetricTriple, value: string): ReviewEmailMetric {
+  const delta = triple.qoq_delta_pct
+  return {
+    label,
+    value,
+    delta: delta === null ? null : formatMetricDelta(delta),
+    direction: delta === null || delta === 0 ? 'flat' : delta > 0 ? 'up' : 'down',
+  }
+}
+
+/**
+ * Headline metrics for the review email: the featured GA and LinkedIn metrics
+ * with their change vs the previous period, skipping platforms with no data.
+ */
+export function buildEmailMetrics(data: SnapshotData): ReviewEmailMetric[] {
+  const metrics: ReviewEmailMetric[] = []
+
+  for (const m of GA_FEATURED_METRICS) {
+    const triple = data.ga?.[m.key]
+    if (triple) {
+      metrics.push(toEmailMetric(m.label, triple, formatMetricValue(triple.current, m.format)))
+    }
+  }
+
+  for (const m of LINKEDIN_FEATURED_METRICS) {
+    const triple = data.linkedin?.metrics[m.key]
+    if (triple) {
+      metrics.push(
+        toEmailMetric(
+          `LinkedIn ${m.label.toLowerCase()}`,
+          triple,
+          formatMetricValue(triple.current, m.format)
+        )
+      )
+    }
+  }
+
+  return metrics
+}
+
+/**
+ * Email a published snapshot to the review's distribution list.
+ *
+ * Creates one share link for the batch, attaches the snapshot PDF when one was
+ * pre-rendered, skips recipients on the suppression list and records every attempt in `marketing_review_deliveries`. Uses the
+ * service client so it can run from `after()` and cron without a session.
+ * Throws if the review or snapshot cannot be loaded or the link cannot be created.
+ */
+export async function deliverReviewSnapshot({
+  reviewId,
+  snapshotId,
+  trigger,
+  triggeredBy = null,
+}: {
+  reviewId: string
+  snapshotId: string
+  trigger: ReviewDeliveryTrigger
+  triggeredBy?: string | null
+}): Promise<ReviewDeliveryResult> {
+  const supabase = createServiceClient()
+  const result: ReviewDeliveryResult = { sent: 0, failed: 0, suppressed: 0 }
+
+  const { data: review, error: reviewError } = await supabase
+    .from('marketing_reviews')
+    .select('id, title, quarter, organization_id, organizations!inner(name)')
+    .eq('id', reviewId)
+    .maybeSingle()
+  if (reviewError || !review) {
+    throw new Error(reviewError?.message ?? 'Review not found')
+  }
+
+  const { data: snapshot, error: snapshotError } = await supabase
+    .from('marketing_review_snapshots')
+    .select('id, data')
+    .eq('id', snapshotId)
+    .eq('review_id', reviewId)
+    .maybeSingle()
+  if (snapshotError || !snapshot) {
+    throw new Error(snapshotError?.message ?? 'Snapshot not found')
+  }
+
+  const { data: recipientRows } = await supabase
+    .from('marketing_review_recipients')
+    .select('email')
+    .eq('review_id', reviewId)
+  const recipients = (recipientRows ?? []).map((r) => r.email as string)
+  if (recipients.length === 0) return result
+
+  const organizationId = review.organization_id as string
+  const orgField = review.organizations as { name: string } | { name: string }[] | null
+  const organizationName =
+    (Array.isArray(orgField) ? orgField[0]?.name : orgField?.name) ?? 'Organization'
+
+  const expiresAt = new Date()
+  expiresAt.setDate(expiresAt.getDate() + getExpirationDays(LINK_EXPIRATION))
+
+  const { data: link, error: linkError } = await supabase
+    .from('shared_links')
+    .insert({
+      resource_type: SharedResourceType.MarketingReview,
+      resource_id: snapshotId,
+      token: nanoid(21),
+      expires_at: expiresAt.toISOString(),
+      max_views: recipients.length * VIEWS_PER_RECIPIENT,
+      created_by: triggeredBy,
+      organization_id: organizationId,
+    })
+    .select('id, token')
+    .single()
+  if (linkError || !link) {
+    throw new Error(linkError?.message ?? 'Failed to create share link')
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.NEXT_PUBLIC_SITE_URL || ''
+  const quarter = review.quarter as string
+  const periodLabel = formatPeriodLabel(quarter)
+  const reviewTitle = review.title as string
+
+  const react = MarketingReviewEmail({
+    organizationName,
+    reviewTitle,
+    periodLabel,
+    comparisonLabel: `vs previous ${periodNoun(getPeriodType(quarter))}`,
+    metrics: buildEmailMetrics((snapshot.data as SnapshotData | null) ?? {}),
+    shareUrl: `${baseUrl}/s/${link.token}`,
+    expiresOn: expiresAt.toLocaleDateString('en-US', {
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric',
+    }),
+  })
+
+  // Only a PDF pre-rendered at publish is attached; sends never wait on Chromium
+  let attachments: EmailAttachment[] | undefined
+  try {
+    const pdf = await getResourcePdfAttachment(SharedResourceType.MarketingReview, snapshotId)
+    attachments = pdf ? [pdf] : undefined
+  } catch (err) {
+    console.error('[Review Delivery Error]', {
+      type: 'pdf_attachment_failed',
+      reviewId,
+      snapshotId,
+      error: err instanceof Error ? err.message : String(err),
+      timestamp: new Date().toISOString(),
+    })
+  }
+
+  // Record each attempt as it happens, so a run cut off mid-list still logs what went out
+  const recordDelivery = async (row: Record<string, unknown>) => {
+    const { error: logError } = await supabase.from('marketing_review_deliveries').insert(row)
+    if (logError) {
+      console.error('[Review Delivery Error]', {
+        type: 'delivery_log_failed',
+        reviewId,
+        snapshotId,
+        recipient: row.recipient_email,
+        error: logError.message,
+        timestamp: new Date().toISOString(),
+      })
+    }
+  }
+
+  for (const email of recipients) {
+    const delivery = {
+      review_id: reviewId,
+      snapshot_id: snapshotId,
+      recipient_email: email,
+      trigger,
+      shared_link_id: link.id,
+    }
+
+    if (await isSuppressed(email)) {
+      result.suppressed++
+      await recordDelivery({ ...delivery, status: ReviewDeliveryStatus.Suppressed })
+      continue
+    }
+
+    try {
+      const { data, error } = await sendEmail({
+        from: FROM_EMAIL,
+        to: email,
+        subject: `${reviewTitle} is ready`,
+        react,
+        idempotencyKey: `review-delivery-${link.id}-${email}`,
+        attachments,
+      })
+      if (error) throw new Error(error.message)
+      result.sent++
+      await recordDelivery({
+        ...delivery,
+        status: ReviewDeliveryStatus.Sent,
+        message_id: data?.id,
+      })
+    } catch (err) {
+      result.failed++
+      await recordDelivery({
+        ...delivery,
+        status: ReviewDeliveryStatus.Failed,
+        error: err instanceof Error ? err.message : String(err),
+      })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Render and store a published snapshot's PDF so later sends (on publish,
+ * manual or scheduled) can attach it without launching Chromium. Failures are
+ * logged; emails then go out with the share link only.
+ */
+export async function prerenderSnapshotPdf(snapshotId: string): Promise<void> {
+  try {
+    await getResourcePdf(SharedResourceType.MarketingReview, snapshotId)
+  } catch (err) {
+    console.error('[Review Delivery Error]', {
+      type: 'pdf_prerender_failed',
+      snapshotId,
+      error: err instanceof Error ? err.message : String(err),
+      timestamp: new Date().toISOString(),
+    })
+  }
+}
@@ -0,0 +1,479 @@
+import PptxGenJS from 'pptxgenjs'
+import { format, parseISO } from 'date-fns'
+import { ReviewPeriodType } from '@/lib/enums'
+import { GA_FEATURED_METRICS } from '@/lib/reviews/featured-metrics'
+import { LINKEDIN_FEATURED_METRICS } from '@/lib/reviews/linkedin-featured-metrics'
+import { formatMetricDelta, formatMetricValue } from '@/lib/reviews/format'
+import { previousPeriodLabel, reviewTitleLabel } from '@/lib/reviews/period'
+import { parseBodyNarrative } from '@/components/reviews/review-deck/parse-body-narrative'
+import type {
+  LinkedInTopPost,
+  MetricTriple,
+  NarrativeBlocks,
+  SnapshotData,
+} from '@/lib/reviews/types'
+import type { MetricFormat } from '@/lib/enums'
+
+export const PPTX_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+
+export interface ReviewPptxInput {
+  organization: {
+    name: string
+    logo_url: string | null
+    primary_color: string | null
+  }
+  title: string
+  /** Display label, e.g. 'Q1 2026' */
+  periodLabel: string
+  periodType: ReviewPeriodType
+  periodStart: string
+  periodEnd: string
+  narrative: NarrativeBlocks
+  data: SnapshotData
+}
+
+// LAYOUT_WIDE is 13.33" x 7.5"
+const SLIDE_W = 13.33
+const MARGIN = 0.6
+const CONTENT_W = SLIDE_W - MARGIN * 2
+
+const FONT = 'Arial'
+const TEXT_COLOR = '111827'
+const MUTED_COLOR = '6B7280'
+const BORDER_COLOR = 'E5E7EB'
+const DEFAULT_ACCENT = '111827'
+
+const IMAGE_FETCH_TIMEOUT_MS = 5000
+const EMPTY_NARRATIVE_PLACEHOLDER = 'No narrative available for this section'
+const SECTION_HEADINGS = new Set(['Going well', 'To improve'])
+
+interface FeaturedMetricRow {
+  label: string
+  format: MetricFormat
+  triple: MetricTriple
+}
+
+/**
+ * Normalizes an org brand color to the 6-digit hex PowerPoint expects.
+ * Anything that isn't a hex color falls back to the default accent.
+ */
+export function toPptxColor(color: string | null): string {
+  const hex = color?.trim().replace(/^#/, '') ?? ''
+  if (/^[0-9a-f]{6}$/i.test(hex)) return hex.toUpperCase()
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    return hex
+      .split('')
+      .map((c) => c + c)
+      .join('')
+      .toUpperCase()
+  }
+  return DEFAULT_ACCENT
+}
+
+/**
+ * Converts plain-text narrative into PowerPoint text runs: bullet lines become
+ * bulleted paragraphs and "Going well" / "To improve" headings are bolded,
+ * mirroring `SlideNarrative`.
+ */
+export function narrativeToTextRuns(text: string | undefined): PptxGenJS.TextProps[] {
+  const trimmed = text?.trim() ?? ''
+  if (trimmed.length === 0) {
+    return [
+      {
+        text: EMPTY_NARRATIVE_PLACEHOLDER,
+        options: { italic: true, color: MUTED_COLOR },
+      },
+    ]
+  }
+
+  const runs: PptxGenJS.TextProps[] = []
+  for (const node of parseBodyNarrative(trimmed)) {
+    if (node.kind === 'list') {
+      for (const item of node.content) {
+        runs.push({ text: item, options: { bullet: true, breakLine: true } })
+      }
+    } else {
+      runs.push({
+        text: node.content,
+        options: {
+          bold: SECTION_HEADINGS.has(node.content),
+          breakLine: true,
+          paraSpaceBefore: runs.length > 0 ? 6 : 0,
+        },
+      })
+    }
+  }
+  return runs
+}
+
+/**
+ * Fetches a remote image and returns it in the base64 form pptxgenjs embeds.
+ * Returns null when the image is unreachable so the slide can fall back to text.
+ */
+async function fetchImageData(url: string | null): Promise<string | null> {
+  if (!url) return null
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) })
+    if (!response.ok) return null
+    const contentType = response.headers.get('content-type')?.split(';')[0] ?? 'image/png'
+    if (!contentType.startsWith('image/')) return null
+    const buffer = Buffer.from(await response.arrayBuffer())
+    return `${contentType};base64,${buffer.toString('base64')}`
+  } catch {
+    return null
+  }
+}
+
+function formatPeriodRange(startIso: string, endIso: string): string {
+  const start = parseISO(startIso)
+  const end = parseISO(endIso)
+  if (start.getFullYear() === end.getFullYear()) {
+    return `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`
+  }
+  return `${format(start, 'MMM d, yyyy')} – ${format(end, 'MMM d, yyyy')}`
+}
+
+function addHeading(slide: PptxGenJS.Slide, text: string, accent: string): void {
+  slide.addText(text, {
+    x: MARGIN,
+    y: 0.4,
+    w: CONTENT_W,
+    h: 0.8,
+    fontFace: FONT,
+    fontSize: 32,
+    bold: true,
+    color: accent,
+  })
+}
+
+function addNarrative(slide: PptxGenJS.Slide, text: string | undefined, y: number, h: number) {
+  slide.addText(narrativeToTextRuns(text), {
+    x: MARGIN,
+    y,
+    w: CONTENT_W,
+    h,
+    fontFace: FONT,
+    fontSize: 16,
+    color: TEXT_COLOR,
+    valign: 'top',
+    fit: 'shrink',
+  })
+}
+
+/**
+ * Metric strip: one card per featured metric with the current value and a
+ * line chart of the current period's daily series (the deck's sparkline).
+ */
+function addMetricStrip(
+  pptx: PptxGenJS,
+  slide: PptxGenJS.Slide,
+  rows: FeaturedMetricRow[],
+  accent: string
+): void {
+  const gap = 0.3
+  const cardW = (CONTENT_W - gap * (rows.length - 1)) / rows.length
+
+  rows.forEach((row, i) => {
+    const x = MARGIN + i * (cardW + gap)
+    slide.addText(row.label, {
+      x,
+      y: 1.3,
+      w: cardW,
+      h: 0.4,
+      fontFace: FONT,
+      fontSize: 14,
+      color: MUTED_COLOR,
+    })
+    slide.addText(formatMetricValue(row.triple.current, row.format), {
+      x,
+      y: 1.7,
+      w: cardW * 0.55,
+      h: 0.8,
+      fontFace: FONT,
+      fontSize: 36,
+      bold: true,
+      color: TEXT_COLOR,
+    })
+
+    const series = row.triple.timeseries?.current ?? []
+    if (series.length > 1) {
+      slide.addChart(
+        pptx.ChartType.line,
+        [
+          {
+            name: row.label,
+            labels: series.map((p) => p.date),
+            values: series.map((p) => p.value),
+          },
+        ],
+        {
+          x: x + cardW * 0.55,
+          y: 1.4,
+          w: cardW * 0.45,
+          h: 1.1,
+          chartColors: [accent],
+          lineSize: 2,
+          lineDataSymbol: 'none',
+          catAxisHidden: true,
+          valAxisHidden: true,
+          valGridLine: { style: 'none' },
+          catGridLine: { style: 'none' },
+          showLegend: false,
+        }
+      )
+    }
+  })
+}
+
+/** Current / previous-period / year-over-year table, mirroring the print-mode metric tables. */
+function addMetricTable(
+  slide: PptxGenJS.Slide,
+  rows: FeaturedMetricRow[],
+  periodType: ReviewPeriodType,
+  y: number
+): void {
+  const header = ['Metric', 'Current', previousPeriodLabel(periodType), 'YoY'].map((text, i) => ({
+    text,
+    options: { bold: true, align: i === 0 ? 'left' : 'right' } as PptxGenJS.TableCellProps,
+  }))
+  const body = rows.map((row) => [
+    { text: row.label },
+    { text: formatMetricValue(row.triple.current, row.format), options: { align: 'right' } },
+    { text: formatMetricDelta(row.triple.qoq_delta_pct), options: { align: 'right' } },
+    { text: formatMetricDelta(row.triple.yoy_delta_pct), options: { align: 'right' } },
+  ]) as PptxGenJS.TableRow[]
+
+  slide.addTable([header, ...body], {
+    x: MARGIN,
+    y,
+    w: CONTENT_W,
+    colW: [CONTENT_W * 0.4, CONTENT_W * 0.2, CONTENT_W * 0.2, CONTENT_W * 0.2],
+    fontFace: FONT,
+    fontSize: 12,
+    color: TEXT_COLOR,
+    border: { type: 'solid', pt: 0.5, color: BORDER_COLOR },
+    rowH: 0.3,
+  })
+}
+
+function featuredRows(
+  metrics: readonly { key: string; label: string; format: MetricFormat }[],
+  data: Record<string, MetricTriple> | undefined
+): FeaturedMetricRow[] {
+  if (!data) return []
+  return metrics.flatMap((meta) => {
+    const triple = data[meta.key]
+    return triple ? [{ label: meta.label, format: meta.format, triple }] : []
+  })
+}
+
+function addMetricSlide(
+  pptx: PptxGenJS,
+  heading: string,
+  rows: FeaturedMetricRow[],
+  narrative: string | undefined,
+  periodType: ReviewPeriodType,
+  accent: string
+): void {
+  const slide = pptx.addSlide()
+  addHeading(slide, heading, accent)
+
+  if (rows.length === 0) {
+    addNarrative(slide, narrative, 1.4, 5.6)
+    return
+  }
+
+  addMetricStrip(pptx, slide, rows, accent)
+  const tableY = 2.8
+  addMetricTable(slide, rows, periodType, tableY)
+  const narrativeY = tableY + 0.3 * (rows.length + 1) + 0.3
+  addNarrative(slide, narrative, narrativeY, 7.1 - narrativeY)
+}
+
+async function addTopPostsSlide(
+  pptx: PptxGenJS,
+  posts: LinkedInTopPost[],
+  narrative: string | undefined,
+  accent: string
+): Promise<void> {
+  const slide = pptx.addSlide()
+  addHeading(slide, 'What Resonated', accent)
+
+  const thumbnails = await Promise.all(posts.map((post) => fetchImageData(post.thumbnail_url)))
+  const gap = 0.3
+  const cardW = (CONTENT_W - gap * 3) / 4
+  const thumbH = cardW * 0.75
+
+  posts.forEach((post, i) => {
+    const x = MARGIN + i * (cardW + gap)
+    const thumbnail = thumbnails[i]
+    if (thumbnail) {
+      slide.addImage({
+        data: thumbnail,
+        x,
+        y: 1.3,
+        w: cardW,
+        h: thumbH,
+        sizing: { type: 'cover', w: cardW, h: thumbH },
+        ...(post.url && { hyperlink: { url: post.url } }),
+      })
+    } else {
+      slide.addShape(pptx.ShapeType.rect, {
+        x,
+        y: 1.3,
+        w: cardW,
+        h: thumbH,
+        fill: { color: 'F3F4F6' },
+        line: { color: BORDER_COLOR },
+      })
+    }
+
+    const totalEngagements = post.reactions + post.comments + post.shares
+    slide.addText(
+      [
+        {
+          text: post.caption ?? '',
+          options: { fontSize: 11, color: TEXT_COLOR, breakLine: true },
+        },
+        {
+          text: `${(post.engagement_rate * 100).toFixed(1)}%`,
+          options: { fontSize: 24, bold: true, color: accent, breakLine: true },
+        },
+        {
+          text: `${post.impressions.toLocaleString()} · ${totalEngagements.toLocaleString()}`,
+          options: { fontSize: 10, color: MUTED_COLOR },
+        },
+      ],
+      {
+        x,
+        y: 1.4 + thumbH,
+        w: cardW,
+        h: 1.6,
+        fontFace: FONT,
+        valign: 'top',
+        fit: 'shrink',
+        ...(post.url && { hyperlink: { url: post.url } }),
+      }
+    )
+  })
+
+  const narrativeY = 1.4 + thumbH + 1.8
+  addNarrative(slide, narrative, narrativeY, 7.1 - narrativeY)
+}
+
+async function addCoverSlide(
+  pptx: PptxGenJS,
+  input: ReviewPptxInput,
+  accent: string
+): Promise<void> {
+  const slide = pptx.addSlide()
+  const logo = await fetchImageData(input.organization.logo_url)
+
+  if (logo) {
+    slide.addImage({
+      data: logo,
+      x: SLIDE_W / 2 - 1.5,
+      y: 1.2,
+      w: 3,
+      h: 1,
+      sizing: { type: 'contain', w: 3, h: 1 },
+    })
+  } else {
+    slide.addText(input.organization.name, {
+      x: MARGIN,
+      y: 1.2,
+      w: CONTENT_W,
+      h: 1,
+      align: 'center',
+      fontFace: FONT,
+      fontSize: 44,
+      bold: true,
+      color: TEXT_COLOR,
+    })
+  }
+
+  const subtitle = input.narrative.cover_subtitle?.trim()
+  slide.addText(
+    [
+      {
+        text: reviewTitleLabel(input.periodType).toUpperCase(),
+        options: { fontSize: 18, bold: true, color: accent, charSpacing: 4, breakLine: true },
+      },
+      {
+        text: input.periodLabel,
+        options: { fontSize: 32, bold: true, color: TEXT_COLOR, breakLine: true },
+      },
+      {
+        text: formatPeriodRange(input.periodStart, input.periodEnd),
+        options: { fontSize: 18, color: MUTED_COLOR, breakLine: Boolean(subtitle) },
+      },
+      ...(subtitle
+        ? [{ text: subtitle, options: { fontSize: 18, color: TEXT_COLOR, paraSpaceBefore: 18 } }]
+        : []),
+    ],
+    {
+      x: MARGIN,
+      y: 2.5,
+      w: CONTENT_W,
+      h: 3.5,
+      align: 'center',
+      valign: 'top',
+      fontFace: FONT,
+    }
+  )
+}
+
+/**
+ * Renders a marketing review into an editable PowerPoint deck with the same
+ * slide sequence as `<ReviewDeck>`: cover, Google Analytics, LinkedIn, What
+ * Resonated (only when there are top posts), Initiatives, Takeaways and
+ * Planning Ahead. Metric slides carry the featured-metric strip (values plus
+ * native line charts for sparklines) and the current / previous / YoY table.
+ */
+export async function buildReviewPptx(input: ReviewPptxInput): Promise<Buffer> {
+  const accent = toPptxColor(input.organization.primary_color)
+
+  const pptx = new PptxGenJS()
+  pptx.layout = 'LAYOUT_WIDE'
+  pptx.title = input.title
+  pptx.company = input.organization.name
+  pptx.subject = `${reviewTitleLabel(input.periodType)} — ${input.periodLabel}`
+
+  await addCoverSlide(pptx, input, accent)
+
+  addMetricSlide(
+    pptx,
+    'Google Analytics',
+    featuredRows(GA_FEATURED_METRICS, input.data.ga),
+    input.narrative.ga_summary,
+    input.periodType,
+    accent
+  )
+  addMetricSlide(
+    pptx,
+    'LinkedIn',
+    featuredRows(LINKEDIN_FEATURED_METRICS, input.data.linkedin?.metrics),
+    input.narrative.linkedin_insights,
+    input.periodType,
+    accent
+  )
+
+  const posts = input.data.linkedin?.top_posts ?? []
+  if (posts.length > 0) {
+    await addTopPostsSlide(pptx, posts.slice(0, 4), input.narrative.content_highlights, accent)
+  }
+
+  const bodySections = [
+    { heading: 'Initiatives', text: input.narrative.initiatives },
+    { heading: 'Takeaways', text: input.narrative.takeaways },
+    { heading: 'Planning Ahead', text: input.narrative.planning },
+  ]
+  for (const section of bodySections) {
+    const slide = pptx.addSlide()
+    addHeading(slide, section.heading, accent)
+    addNarrative(slide, section.text, 1.4, 5.6)
+  }
+
+  return (await pptx.write({ outputType: 'nodebuffer' })) as Buffer
+}
@@ -1,4 +1,4 @@
-import type { QuarterPeriods } from '@/lib/reviews/period'
+import type { ReviewPeriods } from '@/lib/reviews/period'
 import type { GAData } from '@/lib/reviews/types'
 import { buildMetricTriple } from '@/lib/reviews/metric-triple'
 import { isFeaturedGaMetric } from '@/lib/reviews/featured-metrics'
@@ -20,7 +20,7 @@ export type GaMetricKey = (typeof GA_METRICS)[number]
 
 export async function fetchGAData(
   organizationId: string,
-  periods: QuarterPeriods
+  periods: ReviewPeriods
 ): Promise<GAData | undefined> {
   const supabase = createServiceClient()
 
@@ -1,4 +1,4 @@
-import type { QuarterPeriods } from '@/lib/reviews/period'
+import type { ReviewPeriods } from '@/lib/reviews/period'
 import type { HubSpotData, EmailData } from '@/lib/reviews/types'
 import { buildMetricTriple } from '@/lib/reviews/metric-triple'
 import { createServiceClient } from '@/lib/supabase/server'
@@ -22,7 +22,7 @@ const CUMULATIVE_METRICS = new Set<string>([
 
 export async function fetchHubSpotData(
   organizationId: string,
-  periods: QuarterPeriods
+  periods: ReviewPeriods
 ): Promise<HubSpotData> {
   const supabase = createServiceClient()
 
@@ -68,7 +68,7 @@ export async function fetchHubSpotData(
 // this slide.
 export async function fetchEmailData(
   organizationId: string,
-  periods: QuarterPeriods
+  periods: ReviewPeriods
 ): Promise<EmailData> {
   void organizationId
   void periods
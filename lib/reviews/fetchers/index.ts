@@ -1,22 +1,36 @@
-import type { QuarterPeriods } from '@/lib/reviews/period'
+import type { ReviewPeriods } from '@/lib/reviews/period'
 import type { SnapshotData } from '@/lib/reviews/types'
 import { fetchGAData } from './ga'
 import { fetchLinkedInData } from './linkedin'
 import { fetchHubSpotData, fetchEmailData } from './hubspot'
 import { fetchAuditData } from './audit'
+import { fetchMetaData, fetchInstagramData } from './meta'
+import { fetchSearchConsoleData } from './search-console'
 
-export { fetchGAData, fetchLinkedInData, fetchHubSpotData, fetchEmailData, fetchAuditData }
+export {
+  fetchGAData,
+  fetchLinkedInData,
+  fetchHubSpotData,
+  fetchEmailData,
+  fetchAuditData,
+  fetchMetaData,
+  fetchInstagramData,
+  fetchSearchConsoleData,
+}
 
 export async function fetchAllData(
   organizationId: string,
-  periods: QuarterPeriods
+  periods: ReviewPeriods
 ): Promise<SnapshotData> {
-  const [ga, linkedin, hubspot, email, audit] = await Promise.all([
+  const [ga, linkedin, hubspot, email, audit, meta, instagram, searchConsole] = await Promise.all([
     fetchGAData(organizationId, periods).catch(() => undefined),
     fetchLinkedInData(organizationId, periods).catch(() => undefined),
     fetchHubSpotData(organizationId, periods).catch(() => undefined),
     fetchEmailData(organizationId, periods).catch(() => undefined),
     fetchAuditData(organizationId).catch(() => undefined),
+    fetchMetaData(organizationId, periods).catch(() => undefined),
+    fetchInstagramData(organizationId, periods).catch(() => undefined),
+    fetchSearchConsoleData(organizationId, periods).catch(() => undefined),
   ])
   return {
     ...(ga && { ga }),
@@ -24,5 +38,8 @@ export async function fetchAllData(
     ...(hubspot && { hubspot }),
     ...(email && { email }),
     ...(audit && { audit }),
+    ...(meta && { meta }),
+    ...(instagram && { instagram }),
+    ...(searchConsole && { search_console: searchConsole }),
   }
 }
@@ -1,4 +1,4 @@
-import type { QuarterPeriods } from '@/lib/reviews/period'
+import type { ReviewPeriods } from '@/lib/reviews/period'
 import type { LinkedInData, LinkedInTopPost, MetricTriple } from '@/lib/reviews/types'
 import { buildMetricTriple } from '@/lib/reviews/metric-triple'
 import { isFeaturedLinkedInMetric } from '@/lib/reviews/linkedin-featured-metrics'
@@ -22,7 +22,7 @@ const CUMULATIVE_METRICS = new Set<string>(['linkedin_followers'])
 
 export async function fetchLinkedInData(
   organizationId: string,
-  periods: QuarterPeriods
+  periods: ReviewPeriods
 ): Promise<LinkedInData | undefined> {
   const supabase = createServiceClient()
 
@@ -0,0 +1,88 @@
+import type { ReviewPeriods } from '@/lib/reviews/period'
+import type { InstagramData, MetaData, MetricTriple } from '@/lib/reviews/types'
+import { buildMetricTriple } from '@/lib/reviews/metric-triple'
+import { createServiceClient } from '@/lib/supabase/server'
+import { PlatformType } from '@/lib/enums'
+import { META_METRIC_TYPES } from '@/lib/platforms/meta/types'
+import { INSTAGRAM_METRIC_TYPES } from '@/lib/platforms/instagram/types'
+
+const CUMULATIVE_METRICS = new Set<string>(['meta_followers', 'instagram_followers'])
+
+/**
+ * Build QoQ/YoY triples for a Meta-family platform from `campaign_metrics`.
+ * Returns undefined when the org has no active connection for the platform,
+ * so the review omits the section instead of showing zeros.
+ */
+async function fetchPlatformTriples(
+  organizationId: string,
+  periods: ReviewPeriods,
+  platformType: PlatformType.Meta | PlatformType.Instagram,
+  metricTypes: readonly string[]
+): Promise<Record<string, MetricTriple> | undefined> {
+  const supabase = createServiceClient()
+
+  const { data: connections } = await supabase
+    .from('platform_connections')
+    .select('id')
+    .eq('organization_id', organizationId)
+    .eq('platform_type', platformType)
+    .eq('status', 'active')
+    .limit(1)
+
+  if (!connections || connections.length === 0) return undefined
+
+  const fetchSeries = async (start: string, end: string) => {
+    const { data } = await supabase
+      .from('campaign_metrics')
+      .select('metric_type, date, value')
+      .eq('organization_id', organizationId)
+      .eq('platform_type', platformType)
+      .in('metric_type', metricTypes as string[])
+      .gte('date', start)
+      .lte('date', end)
+      .order('date', { ascending: true })
+    return data ?? []
+  }
+
+  const [main, qoq, yoy] = await Promise.all([
+    fetchSeries(periods.main.start, periods.main.end),
+    fetchSeries(periods.qoq.start, periods.qoq.end),
+    fetchSeries(periods.yoy.start, periods.yoy.end),
+  ])
+
+  const result: Record<string, MetricTriple> = {}
+  for (const metric of metricTypes) {
+    const seriesFor = (rows: typeof main) => {
+      const filtered = rows.filter((r) => r.metric_type === metric).map((r) => Number(r.value))
+      if (CUMULATIVE_METRICS.has(metric)) {
+        return filtered.length > 0 ? [filtered[filtered.length - 1]] : []
+      }
+      return filtered
+    }
+    result[metric] = buildMetricTriple({
+      current: seriesFor(main),
+      qoq: seriesFor(qoq),
+      yoy: seriesFor(yoy),
+    })
+  }
+  return result
+}
+
+export async function fetchMetaData(
+  organizationId: string,
+  periods: ReviewPeriods
+): Promise<MetaData | undefined> {
+  return fetchPlatformTriples(organizationId, periods, PlatformType.Meta, META_METRIC_TYPES)
+}
+
+export async function fetchInstagramData(
+  organizationId: string,
+  periods: ReviewPeriods
+): Promise<InstagramData | undefined> {
+  return fetchPlatformTriples(
+    organizationId,
+    periods,
+    PlatformType.Instagram,
+    INSTAGRAM_METRIC_TYPES
+  )
+}
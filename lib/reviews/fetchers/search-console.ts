@@ -0,0 +1,98 @@
+import type { ReviewPeriods } from '@/lib/reviews/period'
+import type { MetricTriple, SearchConsoleData } from '@/lib/reviews/types'
+import { buildMetricTriple } from '@/lib/reviews/metric-triple'
+import { createServiceClient } from '@/lib/supabase/server'
+import { PlatformType, SearchConsoleDimension } from '@/lib/enums'
+import { SEARCH_CONSOLE_METRIC_TYPES } from '@/lib/platforms/search-console/types'
+import {
+  summarizeSearchConsoleMetrics,
+  type SearchConsoleTotals,
+} from '@/lib/platforms/search-console/metrics'
+import { getSearchConsoleTopRows } from '@/lib/platforms/search-console/queries'
+
+const TOP_ROWS_LIMIT = 10
+
+const TOTAL_FIELDS: Record<string, keyof Omit<SearchConsoleTotals, 'hasData'>> = {
+  gsc_clicks: 'clicks',
+  gsc_impressions: 'impressions',
+  gsc_ctr: 'ctr',
+  gsc_position: 'position',
+}
+
+/**
+ * Build QoQ/YoY triples and the top queries/pages from Search Console data.
+ * Each triple holds one aggregated value per window, because CTR and average
+ * position can't be summed across days like clicks can.
+ */
+export async function fetchSearchConsoleData(
+  organizationId: string,
+  periods: ReviewPeriods
+): Promise<SearchConsoleData | undefined> {
+  const supabase = createServiceClient()
+
+  const { data: connections } = await supabase
+    .from('platform_connections')
+    .select('id')
+    .eq('organization_id', organizationId)
+    .eq('platform_type', PlatformType.SearchConsole)
+    .eq('status', 'active')
+    .limit(1)
+
+  if (!connections || connections.length === 0) return undefined
+
+  const summarize = async (start: string, end: string) => {
+    const { data } = await supabase
+      .from('campaign_metrics')
+      .select('metric_type, date, value')
+      .eq('organization_id', organizationId)
+      .eq('platform_type', PlatformType.SearchConsole)
+      .in('metric_type', SEARCH_CONSOLE_METRIC_TYPES)
+      .gte('date', start)
+      .lte('date', end)
+      .order('date', { ascending: true })
+    return summarizeSearchConsoleMetrics(data ?? [], new Date(start), new Date(end))
+  }
+
+  const mainStart = new Date(periods.main.start)
+  const mainEnd = new Date(periods.main.end)
+
+  const [main, qoq, yoy, topQueries, topPages] = await Promise.all([
+    summarize(periods.main.start, periods.main.end),
+    summarize(periods.qoq.start, periods.qoq.end),
+    summarize(periods.yoy.start, periods.yoy.end),
+    getSearchConsoleTopRows(
+      supabase,
+      organizationId,
+      SearchConsoleDimension.Query,
+      mainStart,
+      mainEnd,
+      TOP_ROWS_LIMIT
+    ),
+    getSearchConsoleTopRows(
+      supabase,
+      organizationId,
+      SearchConsoleDimension.Page,
+      mainStart,
+      mainEnd,
+      TOP_ROWS_LIMIT
+    ),
+  ])
+
+  const valueFor = (totals: SearchConsoleTotals, metric: string) =>
+    totals.hasData ? [totals[TOTAL_FIELDS[metric]]] : []
+
+  const metrics: Record<string, MetricTriple> = {}
+  for (const metric of SEARCH_CONSOLE_METRIC_TYPES) {
+    metrics[metric] = buildMetricTriple({
+      current: valueFor(main, metric),
+      qoq: valueFor(qoq, metric),
+      yoy: valueFor(yoy, metric),
+    })
+  }
+
+  return {
+    metrics,
+    ...(topQueries.length > 0 && { top_queries: topQueries }),
+    ...(topPages.length > 0 && { top_pages: topPages }),
+  }
+}
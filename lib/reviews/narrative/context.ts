@@ -1,4 +1,5 @@
 import type { LinkedInTopPost, MetricTriple, SnapshotData } from '@/lib/reviews/types'
+import type { SearchConsoleTopRow } from '@/lib/platforms/search-console/types'
 
 type CompactMetricTriple = Omit<MetricTriple, 'timeseries'>
 
@@ -24,6 +25,13 @@ export interface CompactSnapshotPayload {
   hubspot?: Record<string, CompactMetricTriple>
   email?: Record<string, CompactMetricTriple>
   audit?: SnapshotData['audit']
+  meta?: Record<string, CompactMetricTriple>
+  instagram?: Record<string, CompactMetricTriple>
+  search_console?: {
+    metrics: Record<string, CompactMetricTriple>
+    top_queries?: SearchConsoleTopRow[]
+    top_pages?: SearchConsoleTopRow[]
+  }
 }
 
 const CAPTION_MAX = 160
@@ -96,5 +104,19 @@ export function buildPromptContextPayload(data: SnapshotData): CompactSnapshotPa
 
   if (data.audit) payload.audit = data.audit
 
+  const meta = compactTripleMap(data.meta)
+  if (meta) payload.meta = meta
+
+  const instagram = compactTripleMap(data.instagram)
+  if (instagram) payload.instagram = instagram
+
+  if (data.search_console) {
+    payload.search_console = {
+      metrics: compactTripleMap(data.search_console.metrics) ?? {},
+      ...(data.search_console.top_queries && { top_queries: data.search_console.top_queries }),
+      ...(data.search_console.top_pages && { top_pages: data.search_console.top_pages }),
+    }
+  }
+
   return payload
 }
@@ -1,8 +1,8 @@
 import { generateObject } from 'ai'
 import { z } from 'zod'
-import { getAnthropicProvider } from '@/lib/ai/provider'
+import { AIDisabledError, getAnthropicProvider } from '@/lib/ai/provider'
 import { logUsage } from '@/lib/app-settings/usage'
-import { UsageFeature } from '@/lib/enums'
+import { UsageFeature, type ReviewPeriodType } from '@/lib/enums'
 import type { NarrativeBlocks, SnapshotData } from '@/lib/reviews/types'
 import { loadPromptOverrides, type PromptOverrides } from './overrides'
 import {
@@ -12,6 +12,7 @@ import {
   initiativesPrompt,
   linkedinInsightsPrompt,
   planningPrompt,
+  reportDescription,
   takeawaysPrompt,
   type PromptContext,
 } from './prompts'
@@ -33,6 +34,7 @@ export interface GenerateNarrativeInput {
   organizationId: string
   organizationName: string
   quarter: string
+  periodType: ReviewPeriodType
   periodStart: string
   periodEnd: string
   data: SnapshotData
@@ -49,7 +51,7 @@ export class NarrativeGenerationError extends Error {
 
 function buildMasterPrompt(ctx: PromptContext, overrides: PromptOverrides): string {
   return [
-    'You are generating seven narrative blocks for a quarterly marketing performance report.',
+    `You are generating seven narrative blocks for a ${reportDescription(ctx.periodType)}.`,
     'Return one string per block, following each block’s specific instructions below.',
     '',
     '=== Block: cover_subtitle ===',
@@ -87,6 +89,7 @@ export async function generateNarrativeBlocks(
     const ctx: PromptContext = {
       organizationName: input.organizationName,
       quarter: input.quarter,
+      periodType: input.periodType,
       periodStart: input.periodStart,
       periodEnd: input.periodEnd,
       data: input.data,
@@ -94,7 +97,7 @@ export async function generateNarrativeBlocks(
       styleMemo: styleMemo.length > 0 ? styleMemo : undefined,
     }
 
-    const anthropic = await getAnthropicProvider()
+    const anthropic = await getAnthropicProvider(input.organizationId)
     const { object, usage } = await generateObject({
       model: anthropic(MODEL_ID),
       schema: NarrativeSchema,
@@ -111,6 +114,9 @@ export async function generateNarrativeBlocks(
 
     return object
   } catch (error) {
+    // Not a generation failure — the caller surfaces the message as-is
+    if (error instanceof AIDisabledError) throw error
+
     const errorMessage = error instanceof Error ? error.message : String(error)
     console.error('[Review Narrative Generation Error]', {
       type: 'ai_generation_failed',
@@ -1,6 +1,6 @@
 import { generateObject } from 'ai'
 import { createServiceClient } from '@/lib/supabase/server'
-import { getAnthropicProvider } from '@/lib/ai/provider'
+import { AIDisabledError, getAnthropicProvider } from '@/lib/ai/provider'
 import { buildLearnerDiff, loadStyleMemo, truncateMemo } from './style-memo'
 import { buildLearnerPrompt } from './learner-prompts'
 import { learnerOutputSchema, truncateRationale } from './memo-history-types'
@@ -52,7 +52,7 @@ export async function runStyleMemoLearner(
       diff,
     })
 
-    const anthropic = await getAnthropicProvider()
+    const anthropic = await getAnthropicProvider(input.organizationId)
 
     let object: { memo: string; rationale: string }
     try {
@@ -153,6 +153,8 @@ export async function runStyleMemoLearner(
 
     return { status: 'updated', memo, rationale }
   } catch (err) {
+    if (err instanceof AIDisabledError) return { status: 'skipped' }
+
     console.error('[Style Memo Error]', {
       type: 'unknown',
       orgId: input.organizationId,
@@ -1,5 +1,7 @@
 import type { NarrativeBlocks, SnapshotData } from '@/lib/reviews/types'
 import { GA_FEATURED_METRICS } from '@/lib/reviews/featured-metrics'
+import { ReviewPeriodType } from '@/lib/enums'
+import { periodNoun } from '@/lib/reviews/period'
 import { buildPromptContextPayload } from './context'
 
 export type NarrativeBlockKey = keyof NarrativeBlocks
@@ -17,6 +19,7 @@ export const NARRATIVE_BLOCK_KEYS: readonly NarrativeBlockKey[] = [
 export interface PromptContext {
   organizationName: string
   quarter: string
+  periodType: ReviewPeriodType
   periodStart: string
   periodEnd: string
   data: SnapshotData
@@ -48,14 +51,43 @@ const FOOTER = [
   'If author notes are present, use them to contextualise specific movements (e.g. a prior-quarter campaign explaining a drop). Never contradict the notes. If the notes are empty or absent, ignore this rule.',
 ].join('\n')
 
+const PERIOD_HEADINGS: Record<ReviewPeriodType, string> = {
+  [ReviewPeriodType.Quarter]: 'Quarter',
+  [ReviewPeriodType.Month]: 'Month',
+  [ReviewPeriodType.Custom]: 'Period',
+}
+
+const COMPARISON_NOTES: Record<ReviewPeriodType, string | null> = {
+  [ReviewPeriodType.Quarter]: null,
+  [ReviewPeriodType.Month]:
+    'This is a monthly report. "qoq" fields compare against the previous month; "yoy" against the same month last year. Where instructions say "quarter", read "month".',
+  [ReviewPeriodType.Custom]:
+    'This report covers a custom date range. "qoq" fields compare against the same number of days immediately before it; "yoy" against the same dates last year. Where instructions say "quarter", read "period".',
+}
+
+/** Describes the report for the model, e.g. "quarterly marketing performance report". */
+export function reportDescription(periodType: ReviewPeriodType): string {
+  switch (periodType) {
+    case ReviewPeriodType.Quarter:
+      return 'quarterly marketing performance report'
+    case ReviewPeriodType.Month:
+      return 'monthly marketing performance report'
+    case ReviewPeriodType.Custom:
+      return 'marketing performance report covering a custom date range'
+  }
+}
+
 export function header(ctx: PromptContext): string {
   const lines = [
     `Organization: ${ctx.organizationName}`,
-    `Quarter: ${ctx.quarter} (${ctx.periodStart} → ${ctx.periodEnd})`,
+    `${PERIOD_HEADINGS[ctx.periodType]}: ${ctx.quarter} (${ctx.periodStart} → ${ctx.periodEnd})`,
     'Data (current / qoq / yoy / qoq_delta_pct / yoy_delta_pct; nulls mean missing):',
     JSON.stringify(buildPromptContextPayload(ctx.data)),
   ]
 
+  const comparisonNote = COMPARISON_NOTES[ctx.periodType]
+  if (comparisonNote) lines.splice(2, 0, comparisonNote)
+
   const notes = ctx.authorNotes?.trim()
   if (notes && notes.length > 0) {
     lines.push(
@@ -69,7 +101,7 @@ export function header(ctx: PromptContext): string {
   if (memo && memo.length > 0) {
     lines.push(
       '',
-      'LEARNED STYLE (durable preferences from previous reports; author notes for this quarter override):',
+      'LEARNED STYLE (durable preferences from previous reports; author notes for this report override):',
       memo
     )
   }
@@ -86,20 +118,25 @@ function resolve(template: string | undefined, fallback: string): string {
   return trimmed && trimmed.length > 0 ? trimmed : fallback
 }
 
-export function defaultTemplateCoverSubtitle(): string {
+export function defaultTemplateCoverSubtitle(
+  periodType: ReviewPeriodType = ReviewPeriodType.Quarter
+): string {
   return [
-    'Write a cover subtitle for the quarterly performance report.',
-    'One sentence, 20 words or fewer, capturing the quarter’s headline story.',
+    `Write a cover subtitle for the ${reportDescription(periodType)}.`,
+    `One sentence, 20 words or fewer, capturing the ${periodNoun(periodType)}’s headline story.`,
     'Lead with the single most notable delta across GA, LinkedIn, HubSpot, email, or audit — whichever moved most.',
   ].join(' ')
 }
 
-export function defaultTemplateGaSummary(): string {
+export function defaultTemplateGaSummary(
+  periodType: ReviewPeriodType = ReviewPeriodType.Quarter
+): string {
+  const noun = periodNoun(periodType)
   const featured = GA_FEATURED_METRICS.map((m) => m.label).join(', ')
   return [
     `The slide displays metric cards for: ${featured}. Anchor the "Going well" and "To improve" bullets in these metrics first, so the bullets visibly match the numbers on the cards above. Secondary metrics can be referenced only when they add context the featured three cannot.`,
     '',
-    'Google Analytics highlights for this quarter, split into what is going well and what to improve.',
+    `Google Analytics highlights for this ${noun}, split into what is going well and what to improve.`,
     '',
     'Format exactly like this (plain text, no markdown):',
     'Going well',
@@ -112,17 +149,20 @@ export function defaultTemplateGaSummary(): string {
     '',
     'Rules:',
     '- Each bullet 12 words or fewer. Lead with the number or delta, then the implication.',
-    '- Aim for 2 bullets per section. 3 is acceptable if the quarter warrants it.',
+    `- Aim for 2 bullets per section. 3 is acceptable if the ${noun} warrants it.`,
     '- Prioritise the largest qoq or yoy deltas in sessions, users, and engagement.',
     '- A metric that held steady (≤5% movement) counts as "going well" — audience stability is a win.',
-    '- If the quarter truly only has wins or only has concerns, show just one section with 2–3 bullets. Do not fabricate the other side.',
-    '- If GA data is missing, output just: "Going well\n- Analytics data unavailable this quarter".',
+    `- If the ${noun} truly only has wins or only has concerns, show just one section with 2–3 bullets. Do not fabricate the other side.`,
+    `- If GA data is missing, output just: "Going well\n- Analytics data unavailable this ${noun}".`,
   ].join('\n')
 }
 
-export function defaultTemplateLinkedinInsights(): string {
+export function defaultTemplateLinkedinInsights(
+  periodType: ReviewPeriodType = ReviewPeriodType.Quarter
+): string {
+  const noun = periodNoun(periodType)
   return [
-    'LinkedIn highlights for this quarter, split into what is going well and what to improve.',
+    `LinkedIn highlights for this ${noun}, split into what is going well and what to improve.`,
     '',
     'Format exactly like this (plain text, no markdown):',
     'Going well',
@@ -135,17 +175,20 @@ export function defaultTemplateLinkedinInsights(): string {
     '',
     'Rules:',
     '- Each bullet 12 words or fewer. Lead with the number or delta, then the implication.',
-    '- Aim for 2 bullets per section. 3 is acceptable if the quarter warrants it.',
+    `- Aim for 2 bullets per section. 3 is acceptable if the ${noun} warrants it.`,
     '- Cover follower growth, impression/engagement deltas, and top post themes where present.',
     '- A metric that held steady (≤5% movement) counts as "going well".',
-    '- If the quarter truly only has wins or only has concerns, show just one section with 2–3 bullets. Do not fabricate the other side.',
+    `- If the ${noun} truly only has wins or only has concerns, show just one section with 2–3 bullets. Do not fabricate the other side.`,
     '- If LinkedIn data is missing, output just: "To improve\n- LinkedIn not connected or no activity".',
   ].join('\n')
 }
 
-export function defaultTemplateInitiatives(): string {
+export function defaultTemplateInitiatives(
+  periodType: ReviewPeriodType = ReviewPeriodType.Quarter
+): string {
+  const noun = periodNoun(periodType)
   return [
-    'What the marketing team shipped this quarter.',
+    `What the marketing team shipped this ${noun}.`,
     'Output 2 to 3 bullet lines, each prefixed with "- ".',
     'Each bullet: 12 words or fewer. Name the initiative, then the result in numbers.',
     'Infer initiatives from metric deltas (SEO work implied by organic traffic growth, social investment by LinkedIn growth, etc.).',
@@ -153,18 +196,24 @@ export function defaultTemplateInitiatives(): string {
   ].join(' ')
 }
 
-export function defaultTemplateTakeaways(): string {
+export function defaultTemplateTakeaways(
+  periodType: ReviewPeriodType = ReviewPeriodType.Quarter
+): string {
+  const noun = periodNoun(periodType)
   return [
-    'Key takeaways from this quarter.',
+    `Key takeaways from this ${noun}.`,
     'Output 2 to 3 bullet lines, each prefixed with "- ".',
     'Each bullet: 15 words or fewer. Tie a specific metric movement to an actionable insight.',
     'No intro paragraph, no closing sentence — bullets only.',
   ].join(' ')
 }
 
-export function defaultTemplatePlanning(): string {
+export function defaultTemplatePlanning(
+  periodType: ReviewPeriodType = ReviewPeriodType.Quarter
+): string {
+  const noun = periodNoun(periodType)
   return [
-    'What to double down on next quarter.',
+    `What to double down on next ${noun}.`,
     'Output 2 to 3 bullet lines, each prefixed with "- ".',
     'Each bullet: 15 words or fewer. Name the opportunity and the signal that supports it.',
     'Forward-looking and opportunity-framed, not problem-framed.',
@@ -172,19 +221,25 @@ export function defaultTemplatePlanning(): string {
   ].join(' ')
 }
 
-export function defaultTemplateContentHighlights(): string {
+export function defaultTemplateContentHighlights(
+  periodType: ReviewPeriodType = ReviewPeriodType.Quarter
+): string {
+  const noun = periodNoun(periodType)
   return [
-    'The "What Resonated" slide shows the four LinkedIn posts with the highest engagement rate this quarter.',
+    `The "What Resonated" slide shows the four LinkedIn posts with the highest engagement rate this ${noun}.`,
     'Write a 1-2 sentence summary of what resonated: the theme, tone, or format that unites these posts.',
     'Plain text only. Warm, confident, consultative tone. No markdown.',
     'Lead with the pattern, not the metrics — the cards above already show the numbers.',
     '',
     'If fewer than 2 posts are provided, focus on that single post instead of a pattern.',
-    'If no posts are provided, output: "No posts met the threshold for analysis this quarter."',
+    `If no posts are provided, output: "No posts met the threshold for analysis this ${noun}."`,
   ].join('\n')
 }
 
-export const defaultTemplates: Record<NarrativeBlockKey, () => string> = {
+export const defaultTemplates: Record<
+  NarrativeBlockKey,
+  (periodType?: ReviewPeriodType) => string
+> = {
   cover_subtitle: defaultTemplateCoverSubtitle,
   ga_summary: defaultTemplateGaSummary,
   linkedin_insights: defaultTemplateLinkedinInsights,
@@ -195,29 +250,29 @@ export const defaultTemplates: Record<NarrativeBlockKey, () => string> = {
 }
 
 export function coverSubtitlePrompt(ctx: PromptContext, template?: string): string {
-  return wrap(ctx, resolve(template, defaultTemplateCoverSubtitle()))
+  return wrap(ctx, resolve(template, defaultTemplateCoverSubtitle(ctx.periodType)))
 }
 
 export function gaSummaryPrompt(ctx: PromptContext, template?: string): string {
-  return wrap(ctx, resolve(template, defaultTemplateGaSummary()))
+  return wrap(ctx, resolve(template, defaultTemplateGaSummary(ctx.periodType)))
 }
 
 export function linkedinInsightsPrompt(ctx: PromptContext, template?: string): string {
-  return wrap(ctx, resolve(template, defaultTemplateLinkedinInsights()))
+  return wrap(ctx, resolve(template, defaultTemplateLinkedinInsights(ctx.periodType)))
 }
 
 export function initiativesPrompt(ctx: PromptContext, template?: string): string {
-  return wrap(ctx, resolve(template, defaultTemplateInitiatives()))
+  return wrap(ctx, resolve(template, defaultTemplateInitiatives(ctx.periodType)))
 }
 
 export function takeawaysPrompt(ctx: PromptContext, template?: string): string {
-  return wrap(ctx, resolve(template, defaultTemplateTakeaways()))
+  return wrap(ctx, resolve(template, defaultTemplateTakeaways(ctx.periodType)))
 }
 
 export function planningPrompt(ctx: PromptContext, template?: string): string {
-  return wrap(ctx, resolve(template, defaultTemplatePlanning()))
+  return wrap(ctx, resolve(template, defaultTemplatePlanning(ctx.periodType)))
 }
 
 export function contentHighlightsPrompt(ctx: PromptContext, template?: string): string {
-  return wrap(ctx, resolve(template, defaultTemplateContentHighlights()))
+  return wrap(ctx, resolve(template, defaultTemplateContentHighlights(ctx.periodType)))
 }
@@ -1,3 +1,5 @@
+import { ReviewPeriodType } from '@/lib/enums'
+
 export interface DateRange {
   start: string
   end: string
@@ -9,6 +11,45 @@ export interface QuarterPeriods {
   yoy: DateRange
 }
 
+/**
+ * Comparison windows for any review period. `qoq` is the immediately
+ * preceding window (previous quarter, previous month, or the equal-length
+ * window before a custom range); the name is kept because snapshot data and
+ * metric triples persist their deltas under it.
+ */
+export interface ReviewPeriods extends QuarterPeriods {
+  type: ReviewPeriodType
+}
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function parseIsoDate(input: string): Date | null {
+  const m = input.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (!m) return null
+  const date = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])))
+  // Reject dates that roll over (e.g. 2026-02-30)
+  return toIsoDate(date) === input ? date : null
+}
+
 export function parseQuarter(input: string): { year: number; quarter: number } {
   const m = input.match(/^(\d{4})-Q([1-4])$/)
   if (!m) throw new Error(`Invalid quarter: ${input}`)
@@ -35,12 +76,104 @@ export function periodsForQuarter(quarter: string): QuarterPeriods {
   return { main, qoq, yoy }
 }
 
+export function parseMonth(input: string): { year: number; month: number } {
+  const m = input.match(/^(\d{4})-(0[1-9]|1[0-2])$/)
+  if (!m) throw new Error(`Invalid month: ${input}`)
+  return { year: Number(m[1]), month: Number(m[2]) }
+}
+
+function monthRange(year: number, month: number): DateRange {
+  return {
+    start: toIsoDate(new Date(Date.UTC(year, month - 1, 1))),
+    end: toIsoDate(new Date(Date.UTC(year, month, 0))),
+  }
+}
+
+export function periodsForMonth(month: string): QuarterPeriods {
+  const { year, month: m } = parseMonth(month)
+  const main = monthRange(year, m)
+  const qoq = m === 1 ? monthRange(year - 1, 12) : monthRange(year, m - 1)
+  const yoy = monthRange(year - 1, m)
+  return { main, qoq, yoy }
+}
+
+/**
+ * Parses a custom period identifier (`'2026-01-15..2026-02-14'`). Both dates
+ * are inclusive and the range must not run backwards.
+ */
+export function parseCustomPeriod(input: string): DateRange {
+  const [start, end, ...rest] = input.split('..')
+  const startDate = start ? parseIsoDate(start) : null
+  const endDate = end ? parseIsoDate(end) : null
+  if (rest.length > 0 || !startDate || !endDate || startDate > endDate) {
+    throw new Error(`Invalid custom period: ${input}`)
+  }
+  return { start, end }
+}
+
+export function buildCustomPeriodKey(start: string, end: string): string {
+  const key = `${start}..${end}`
+  parseCustomPeriod(key)
+  return key
+}
+
+// Same calendar dates one year earlier; Feb 29 falls back to Feb 28
+function shiftYearBack(iso: string): string {
+  const [year, month, day] = iso.split('-').map(Number)
+  const lastDay = new Date(Date.UTC(year - 1, month, 0)).getUTCDate()
+  return toIsoDate(new Date(Date.UTC(year - 1, month - 1, Math.min(day, lastDay))))
+}
+
+/**
+ * A custom range compares against the equal-length window that ends the day
+ * before it starts, and against the same calendar dates a year earlier.
+ */
+export function periodsForCustomRange(period: string): QuarterPeriods {
+  const main = parseCustomPeriod(period)
+  const start = parseIsoDate(main.start)!.getTime()
+  const end = parseIsoDate(main.end)!.getTime()
+  const qoq = {
+    start: toIsoDate(new Date(start - (end - start) - DAY_MS)),
+    end: toIsoDate(new Date(start - DAY_MS)),
+  }
+  const yoy = { start: shiftYearBack(main.start), end: shiftYearBack(main.end) }
+  return { main, qoq, yoy }
+}
+
+/**
+ * Identifies the period type of a stored review period key: `'2026-Q1'`,
+ * `'2026-03'` or `'2026-01-15..2026-02-14'`. Throws on anything else.
+ */
+export function getPeriodType(period: string): ReviewPeriodType {
+  if (/^\d{4}-Q[1-4]$/.test(period)) return ReviewPeriodType.Quarter
+  if (/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) return ReviewPeriodType.Month
+  parseCustomPeriod(period)
+  return ReviewPeriodType.Custom
+}
+
+export function periodsFor(period: string): ReviewPeriods {
+  const type = getPeriodType(period)
+  switch (type) {
+    case ReviewPeriodType.Quarter:
+      return { type, ...periodsForQuarter(period) }
+    case ReviewPeriodType.Month:
+      return { type, ...periodsForMonth(period) }
+    case ReviewPeriodType.Custom:
+      return { type, ...periodsForCustomRange(period) }
+  }
+}
+
 export function currentQuarter(date: Date): string {
   const year = date.getUTCFullYear()
   const q = Math.floor(date.getUTCMonth() / 3) + 1
   return `${year}-Q${q}`
 }
 
+export function currentMonth(date: Date): string {
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0')
+  return `${date.getUTCFullYear()}-${month}`
+}
+
 /**
  * Formats a stored quarter identifier (`'2026-Q1'`) as a display label
  * (`'Q1 2026'`). Used across the editor, preview, snapshot detail, and
@@ -68,3 +201,81 @@ export function buildQuarterOptions(now: Date, lookbackYears = 2): string[] {
   }
   return options
 }
+
+/**
+ * Builds the list of month identifiers offered when starting a new monthly
+ * review, newest first, mirroring `buildQuarterOptions`.
+ */
+export function buildMonthOptions(now: Date, lookbackYears = 2): string[] {
+  const { year, month } = parseMonth(currentMonth(now))
+  const options: string[] = []
+  for (let yOffset = 0; yOffset <= lookbackYears; yOffset++) {
+    for (let m = 12; m >= 1; m--) {
+      if (yOffset === 0 && m > month) continue
+      options.push(`${year - yOffset}-${String(m).padStart(2, '0')}`)
+    }
+  }
+  return options
+}
+
+function formatShortDate(iso: string, withYear: boolean): string {
+  const [year, month, day] = iso.split('-').map(Number)
+  const label = `${MONTH_NAMES[month - 1].slice(0, 3)} ${day}`
+  return withYear ? `${label}, ${year}` : label
+}
+
+/**
+ * Formats any stored period key as a display label: `'Q1 2026'`,
+ * `'March 2026'`, or `'Jan 15 – Feb 14, 2026'` for custom ranges.
+ */
+export function formatPeriodLabel(period: string): string {
+  switch (getPeriodType(period)) {
+    case ReviewPeriodType.Quarter:
+      return formatQuarterLabel(period)
+    case ReviewPeriodType.Month: {
+      const { year, month } = parseMonth(period)
+      return `${MONTH_NAMES[month - 1]} ${year}`
+    }
+    case ReviewPeriodType.Custom: {
+      const { start, end } = parseCustomPeriod(period)
+      const sameYear = start.slice(0, 4) === end.slice(0, 4)
+      return `${formatShortDate(start, !sameYear)} – ${formatShortDate(end, true)}`
+    }
+  }
+}
+
+/** Lowercase noun for the period, for prose ("this quarter", "last month"). */
+export function periodNoun(type: ReviewPeriodType): string {
+  switch (type) {
+    case ReviewPeriodType.Quarter:
+      return 'quarter'
+    case ReviewPeriodType.Month:
+      return 'month'
+    case ReviewPeriodType.Custom:
+      return 'period'
+  }
+}
+
+/** Column header for the previous-period delta (`QoQ`, `MoM`, `PoP`). */
+export function previousPeriodLabel(type: ReviewPeriodType): string {
+  switch (type) {
+    case ReviewPeriodType.Quarter:
+      return 'QoQ'
+    case ReviewPeriodType.Month:
+      return 'MoM'
+    case ReviewPeriodType.Custom:
+      return 'PoP'
+  }
+}
+
+/** Deck title shown on the cover slide. */
+export function reviewTitleLabel(type: ReviewPeriodType): string {
+  switch (type) {
+    case ReviewPeriodType.Quarter:
+      return 'Quarterly Performance Review'
+    case ReviewPeriodType.Month:
+      return 'Monthly Performance Review'
+    case ReviewPeriodType.Custom:
+      return 'Performance Review'
+  }
+}
@@ -1,9 +1,13 @@
+import type { SearchConsoleTopRow } from '@/lib/platforms/search-console/types'
+
 export interface MarketingReview {
   id: string
   organization_id: string
   title: string
   quarter: string
   latest_snapshot_id: string | null
+  send_on_publish: boolean
+  scheduled_send_at: string | null
   created_by: string
   created_at: string
   updated_at: string
@@ -43,6 +47,9 @@ export interface SnapshotData {
   hubspot?: HubSpotData
   email?: EmailData
   audit?: AuditInputData
+  meta?: MetaData
+  instagram?: InstagramData
+  search_console?: SearchConsoleData
 }
 
 export interface NarrativeBlocks {
@@ -66,6 +73,16 @@ export type HubSpotData = Record<string, MetricTriple>
 
 export type EmailData = Record<string, MetricTriple>
 
+export type MetaData = Record<string, MetricTriple>
+
+export type InstagramData = Record<string, MetricTriple>
+
+export interface SearchConsoleData {
+  metrics: Record<string, MetricTriple>
+  top_queries?: SearchConsoleTopRow[]
+  top_pages?: SearchConsoleTopRow[]
+}
+
 export interface AuditInputData {
   audit_id: string
   seo_score: number | null
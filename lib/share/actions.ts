@@ -6,6 +6,7 @@ import { headers } from 'next/headers'
 import { nanoid } from 'nanoid'
 import { ShareExpiration, ShareErrorCode, SharedResourceType } from '@/lib/enums'
 import { getExpirationDays } from '@/lib/reports/types'
+import { createDownloadGrant } from './download-grant'
 import type {
   SharedLink,
   CreateSharedLinkInput,
@@ -21,6 +22,7 @@ interface SharedLinkRow {
   token: string
   expires_at: string
   password_hash: string | null
+  allow_data_export: boolean
   max_views: number
   view_count: number
   last_viewed_at: string | null
@@ -37,6 +39,7 @@ function toClientSharedLink(row: SharedLinkRow): SharedLink {
     token: row.token,
     expires_at: row.expires_at,
     has_password: row.password_hash !== null,
+    allow_data_export: row.allow_data_export,
     max_views: row.max_views,
     view_count: row.view_count,
     last_viewed_at: row.last_viewed_at,
@@ -151,6 +154,7 @@ export async function createSharedLink(
       expires_at: expiresAt.toISOString(),
       password_hash: passwordHash,
       max_views: input.max_views ?? 50,
+      allow_data_export: input.allow_data_export ?? false,
       created_by: user.id,
       organization_id: membership?.organization_id ?? null,
     })
@@ -194,7 +198,7 @@ export async function getSharedLinksForResource(
   const { data, error } = await supabase
     .from('shared_links')
     .select(
-      'id, resource_type, resource_id, token, expires_at, password_hash, max_views, view_count, last_viewed_at, created_by, organization_id, created_at'
+      'id, resource_type, resource_id, token, expires_at, password_hash, allow_data_export, max_views, view_count, last_viewed_at, created_by, organization_id, created_at'
     )
     .eq('resource_type', resourceType)
     .eq('resource_id', resourceId)
@@ -267,6 +271,7 @@ export async function validateSharedLinkToken(token: string): Promise<SharedLink
       resource_id: null,
       is_valid: false,
       requires_password: false,
+      allows_data_export: false,
       error_code: ShareErrorCode.NotFound,
     }
   }
@@ -278,6 +283,7 @@ export async function validateSharedLinkToken(token: string): Promise<SharedLink
       resource_id: null,
       is_valid: false,
       requires_password: false,
+      allows_data_export: false,
       error_code: ShareErrorCode.NotFound,
     }
   }
@@ -287,6 +293,7 @@ export async function validateSharedLinkToken(token: string): Promise<SharedLink
     resource_id: result.resource_id,
     is_valid: result.is_valid,
     requires_password: result.requires_password,
+    allows_data_export: result.allows_data_export ?? false,
     error_code: result.error_code as ShareErrorCode | null,
   }
 }
@@ -329,9 +336,22 @@ export async function accessSharedLink(
     }
   }
 
+  // Without a grant the page still opens; only the download buttons are hidden
+  let downloadGrant: string | undefined
+  try {
+    downloadGrant = createDownloadGrant(token)
+  } catch (grantError) {
+    console.error('[Access Shared Link Error]', {
+      type: 'download_grant_failed',
+      error: grantError instanceof Error ? grantError.message : String(grantError),
+      timestamp: new Date().toISOString(),
+    })
+  }
+
   return {
     success: true,
     resource_type: result.resource_type as SharedResourceType,
     resource_id: result.resource_id,
+    downloadGrant,
   }
 }
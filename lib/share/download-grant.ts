@@ -0,0 +1,92 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { createServiceClient } from '@/lib/supabase/server'
+import { ShareErrorCode, SharedResourceType } from '@/lib/enums'
+import type { AccessSharedLinkResult } from './types'
+
+// Visitors download from a page they have open; after this they reload, which counts a new view
+const GRANT_TTL_MS = 60 * 60 * 1000
+
+interface DownloadGrantPayload {
+  /** Share token the grant was issued for */
+  token: string
+  /** Expiry as epoch milliseconds */
+  exp: number
+}
+
+function getSecret(): string {
+  const secret = process.env.SHARE_DOWNLOAD_SECRET
+  if (!secret) {
+    throw new Error('SHARE_DOWNLOAD_SECRET environment variable is required')
+  }
+  return secret
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', getSecret()).update(encodedPayload).digest('base64url')
+}
+
+/**
+ * Create a short-lived signed grant for PDF and data downloads from a share
+ * link. Issued only by `accessSharedLink`, after it has counted the view, so
+ * downloads ride on that view instead of re-checking the view limit.
+ */
+export function createDownloadGrant(token: string, ttlMs: number = GRANT_TTL_MS): string {
+  const payload: DownloadGrantPayload = { token, exp: Date.now() + ttlMs }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${encoded}.${sign(encoded)}`
+}
+
+/**
+ * Check that a grant was issued for this share token and has not expired.
+ */
+export function verifyDownloadGrant(grant: string, token: string): boolean {
+  const [encoded, signature] = grant.split('.')
+  if (!encoded || !signature) return false
+
+  const expected = Buffer.from(sign(encoded))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return false
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as DownloadGrantPayload
+    return payload.token === token && typeof payload.exp === 'number' && payload.exp >= Date.now()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Authorize a download from a share link. Requires a grant from a counted page
+ * view, then re-reads the link so a deleted or expired link stops downloads
+ * straight away. Returns `DownloadGrantRequired` when the grant is missing,
+ * forged or stale.
+ */
+export async function authorizeSharedLinkDownload(
+  token: string,
+  grant: string | undefined
+): Promise<AccessSharedLinkResult> {
+  if (!grant || !verifyDownloadGrant(grant, token)) {
+    return { success: false, errorCode: ShareErrorCode.DownloadGrantRequired }
+  }
+
+  const supabase = createServiceClient()
+  const { data: link } = await supabase
+    .from('shared_links')
+    .select('resource_type, resource_id, expires_at, allow_data_export')
+    .eq('token', token)
+    .maybeSingle()
+
+  if (!link) {
+    return { success: false, errorCode: ShareErrorCode.NotFound }
+  }
+  if (new Date(link.expires_at as string) < new Date()) {
+    return { success: false, errorCode: ShareErrorCode.Expired }
+  }
+
+  return {
+    success: true,
+    resource_type: link.resource_type as SharedResourceType,
+    resource_id: link.resource_id as string,
+    allows_data_export: link.allow_data_export as boolean,
+  }
+}
@@ -10,6 +10,8 @@ export interface SharedLink {
   token: string
   expires_at: string
   has_password: boolean
+  /** Visitors may download the shared audit's checks and pages as CSV/XLSX */
+  allow_data_export: boolean
   max_views: number
   view_count: number
   last_viewed_at: string | null
@@ -23,6 +25,7 @@ export interface CreateSharedLinkInput {
   custom_expiration?: string
   password?: string
   max_views?: number
+  allow_data_export?: boolean
 }
 
 export interface SharedLinkValidation {
@@ -30,6 +33,7 @@ export interface SharedLinkValidation {
   resource_id: string | null
   is_valid: boolean
   requires_password: boolean
+  allows_data_export: boolean
   error_code: ShareErrorCode | null
 }
 
@@ -37,5 +41,9 @@ export interface AccessSharedLinkResult {
   success: boolean
   resource_type?: SharedResourceType
   resource_id?: string
+  /** Only set by authorizeSharedLinkDownload (lib/share/download-grant) */
+  allows_data_export?: boolean
+  /** Signed grant for PDF and data downloads; only set by accessSharedLink */
+  downloadGrant?: string
   errorCode?: ShareErrorCode
 }
@@ -60,5 +60,7 @@ export function getShareErrorMessage(error: ShareErrorCode): string {
       return 'The report could not be found.'
     case ShareErrorCode.ResourceNotFound:
       return 'The shared resource could not be found.'
+    case ShareErrorCode.DownloadGrantRequired:
+      return 'This download has expired. Reload the page to download again.'
   }
 }
@@ -63,6 +63,8 @@ export interface BatchAnalysisResult {
 }
 
 export interface AIAuditorOptions {
+  /** Organization the audit belongs to, so its AI billing model applies */
+  organizationId?: string | null
   onBatchComplete?: (
     analyses: AIOPageAnalysis[],
     tokens: { promptTokens: number; completionTokens: number },
@@ -116,7 +118,10 @@ function chunkPages(pages: PageContent[], batchSize: number = 3): PageContent[][
  * Analyze a batch of pages with Claude Opus 4.5
  * Returns validated AIO analysis for each page
  */
-async function analyzeBatch(batch: PageContent[]): Promise<{
+async function analyzeBatch(
+  batch: PageContent[],
+  organizationId?: string | null
+): Promise<{
   analyses: AIOPageAnalysis[]
   inputTokens: number
   outputTokens: number
@@ -156,7 +161,7 @@ Return ONLY the JSON object, no explanation text before or after.`
 
   try {
     // Use generateText with JSON mode for better control over parsing
-    const anthropic = await getAnthropicProvider()
+    const anthropic = await getAnthropicProvider(organizationId)
     const result = await generateText({
       model: anthropic(MODEL),
       prompt,
@@ -227,7 +232,7 @@ export async function runAIAnalysis(
   pages: PageContent[],
   options: AIAuditorOptions = {}
 ): Promise<BatchAnalysisResult> {
-  const { onBatchComplete } = options
+  const { onBatchComplete, organizationId } = options
 
   if (pages.length === 0) {
     return {
@@ -248,7 +253,7 @@ export async function runAIAnalysis(
   const batches = chunkPages(pages, 3)
 
   for (const batch of batches) {
-    const { analyses, inputTokens, outputTokens } = await analyzeBatch(batch)
+    const { analyses, inputTokens, outputTokens } = await analyzeBatch(batch, organizationId)
 
     // Accumulate results
     allAnalyses.push(...analyses)
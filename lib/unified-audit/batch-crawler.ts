@@ -1,19 +1,28 @@
 import { createServiceClient } from '@/lib/supabase/server'
-import { fetchPage, extractLinks } from '@/lib/audit/fetcher'
+import {
+  fetchPage,
+  extractLinks,
+  extractCanonicalUrl,
+  extractHreflangLinks,
+  hasNoindexDirective,
+} from '@/lib/audit/fetcher'
+import { renderPage, closeRenderer } from '@/lib/audit/renderer'
 import { pageSpecificChecks } from './checks'
-import { UnifiedAuditStatus } from '@/lib/enums'
-import type { AuditPage, AuditCheck, CheckContext } from './types'
+import { CrawlDiscoverySource, CrawlMode, UnifiedAuditStatus } from '@/lib/enums'
+import type { AuditPage, AuditCheck, AuditCheckDefinition, CheckContext } from './types'
 import {
   fetchRobotsTxt,
   resolveRobotsTxtRules,
   isPathAllowed,
   type ResolvedRobotsTxtRules,
 } from './robots-txt'
+import { fetchSitemapUrls } from './sitemap'
 
 const BATCH_SIZE = 50
 const MAX_BATCH_DURATION_MS = 240_000 // 4 minutes (leave 1 min buffer for DB ops)
 const DEFAULT_CRAWL_DELAY_MS = 500
 const MAX_CRAWL_DELAY_MS = 2000
+const SITEMAP_INSERT_CHUNK_SIZE = 1000
 
 // Resource file extensions grouped by type
 const RESOURCE_EXTENSIONS: Record<string, string[]> = {
@@ -54,6 +63,15 @@ function normalizeUrl(url: string): string {
   return parsed.href.replace(/\/$/, '')
 }
 
+function isSameSite(url: string, siteUrl: string): boolean {
+  try {
+    const strip = (hostname: string) => hostname.replace(/^www\./, '')
+    return strip(new URL(url).hostname) === strip(new URL(siteUrl).hostname)
+  } catch {
+    return false
+  }
+}
+
 function isDismissed(dismissedChecks: DismissedCheck[], checkName: string, url: string): boolean {
   return dismissedChecks.some((d) => d.check_name === checkName && d.url === url)
 }
@@ -83,16 +101,29 @@ export interface BatchResult {
 
 export interface BatchCrawlOptions {
   dismissedChecks: DismissedCheck[]
+  /** Org-defined checks to run alongside the built-in page checks */
+  customChecks?: AuditCheckDefinition[]
   /** Override max batch duration (used by runner to pass remaining function time budget) */
   timeBudgetMs?: number
 }
 
+export interface InitializeCrawlQueueOptions {
+  /** Queue every sitemap URL up front instead of relying on link discovery alone */
+  seedFromSitemap?: boolean
+}
+
 /**
  * Initialize the crawl queue with the start URL (first batch only).
  * Fetches robots.txt, resolves rules for SeloIOBot, and stores as JSON
  * on the audit record for efficient reuse across batch continuations.
+ * Sitemap URLs are always recorded for the coverage check, and queued
+ * as well when seedFromSitemap is set.
  */
-export async function initializeCrawlQueue(auditId: string, startUrl: string): Promise<void> {
+export async function initializeCrawlQueue(
+  auditId: string,
+  startUrl: string,
+  options: InitializeCrawlQueueOptions = {}
+): Promise<void> {
   const supabase = createServiceClient()
 
   const normalizedUrl = normalizeUrl(startUrl)
@@ -101,21 +132,68 @@ export async function initializeCrawlQueue(auditId: string, startUrl: string): P
   const robotsTxt = await fetchRobotsTxt(startUrl)
   const resolvedRules = robotsTxt ? resolveRobotsTxtRules(robotsTxt) : null
 
+  const sitemapEntries = (await fetchSitemapUrls(startUrl, robotsTxt)).flatMap((entry) => {
+    if (!isSameSite(entry.url, startUrl)) return []
+    return [{ url: normalizeUrl(entry.url), lastmod: entry.lastmod }]
+  })
+
+  for (let i = 0; i < sitemapEntries.length; i += SITEMAP_INSERT_CHUNK_SIZE) {
+    const { error } = await supabase.from('audit_sitemap_urls').upsert(
+      sitemapEntries
+        .slice(i, i + SITEMAP_INSERT_CHUNK_SIZE)
+        .map((entry) => ({ audit_id: auditId, ...entry })),
+      { onConflict: 'audit_id,url', ignoreDuplicates: true }
+    )
+    if (error) {
+      console.error('[Batch Crawler]', {
+        type: 'sitemap_urls_insert_failed',
+        auditId,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      })
+      break
+    }
+  }
+
+  const seededUrls = options.seedFromSitemap
+    ? sitemapEntries
+        .map((entry) => entry.url)
+        .filter((url) => {
+          if (url === normalizedUrl) return false
+          if (!resolvedRules) return true
+          return isPathAllowed(resolvedRules, new URL(url).pathname)
+        })
+    : []
+
   // Store resolved rules on the audit record and seed the queue in parallel
   await Promise.all([
     supabase
       .from('audits')
-      .update({ urls_discovered: 1, robots_txt_rules: resolvedRules })
+      .update({ urls_discovered: 1 + seededUrls.length, robots_txt_rules: resolvedRules })
       .eq('id', auditId),
     supabase.from('audit_crawl_queue').upsert(
       {
         audit_id: auditId,
         url: normalizedUrl,
         depth: 0,
+        discovered_via: CrawlDiscoverySource.Seed,
       },
       { onConflict: 'audit_id,url' }
     ),
   ])
+
+  // Sitemap URLs sit one level below the start URL so the homepage is still crawled first
+  for (let i = 0; i < seededUrls.length; i += SITEMAP_INSERT_CHUNK_SIZE) {
+    await supabase.from('audit_crawl_queue').upsert(
+      seededUrls.slice(i, i + SITEMAP_INSERT_CHUNK_SIZE).map((url) => ({
+        audit_id: auditId,
+        url,
+        depth: 1,
+        discovered_via: CrawlDiscoverySource.Sitemap,
+      })),
+      { onConflict: 'audit_id,url', ignoreDuplicates: true }
+    )
+  }
 }
 
 /**
@@ -128,7 +206,8 @@ export async function crawlBatch(
 ): Promise<BatchResult> {
   const supabase = createServiceClient()
   const startTime = Date.now()
-  const { dismissedChecks, timeBudgetMs } = options
+  const { dismissedChecks, customChecks = [], timeBudgetMs } = options
+  const pageChecks = [...pageSpecificChecks, ...customChecks]
   const effectiveBudget = timeBudgetMs
     ? Math.min(MAX_BATCH_DURATION_MS, timeBudgetMs)
     : MAX_BATCH_DURATION_MS
@@ -139,10 +218,12 @@ export async function crawlBatch(
   // Load pre-resolved robots.txt rules from audit record (stored at queue initialization as JSONB)
   const { data: auditRecord } = await supabase
     .from('audits')
-    .select('robots_txt_rules')
+    .select('robots_txt_rules, crawl_mode, seed_from_sitemap')
     .eq('id', auditId)
     .single()
 
+  const isRenderedMode = auditRecord?.crawl_mode === CrawlMode.Rendered
+
   const robotsRules: ResolvedRobotsTxtRules | null =
     (auditRecord?.robots_txt_rules as ResolvedRobotsTxtRules) ?? null
 
@@ -156,7 +237,7 @@ export async function crawlBatch(
   const { data: existingPages } = await supabase
     .from('audit_pages')
     .select(
-      'url, title, meta_description, status_code, last_modified, is_resource, resource_type, depth'
+      'url, title, meta_description, status_code, last_modified, is_resource, resource_type, depth, canonical_url, hreflang, is_noindex'
     )
     .eq('audit_id', auditId)
 
@@ -301,10 +382,35 @@ export async function crawlBatch(
       }
     }
 
+    // Rendered mode: run JavaScript in headless Chromium so checks and link discovery
+    // see the hydrated DOM, keeping the server HTML for raw-vs-rendered comparison
+    let rawHtml: string | null = null
+    let renderedHtml: string | null = null
+    if (
+      isRenderedMode &&
+      !wasRedirected &&
+      statusCode === 200 &&
+      !getResourceType(url).isResource
+    ) {
+      const rendered = await renderPage(finalUrl ?? url)
+      if (rendered.error) {
+        console.error(`[Batch Crawler] Failed to render ${url}: ${rendered.error}`)
+      } else {
+        rawHtml = html
+        renderedHtml = rendered.html
+        html = rendered.html
+      }
+    }
+
     // Always extract and queue links (even from redirected pages) to ensure crawl discovery
     if (statusCode === 200) {
       const links = extractLinks(html, url, finalUrl)
-      const newUrls: Array<{ audit_id: string; url: string; depth: number }> = []
+      const newUrls: Array<{
+        audit_id: string
+        url: string
+        depth: number
+        discovered_via: CrawlDiscoverySource
+      }> = []
 
       for (const link of links) {
         const normalized = normalizeUrl(link)
@@ -323,6 +429,7 @@ export async function crawlBatch(
           audit_id: auditId,
           url: normalized,
           depth: queueItem.depth + 1,
+          discovered_via: CrawlDiscoverySource.Link,
         })
       }
 
@@ -332,6 +439,19 @@ export async function crawlBatch(
           .from('audit_crawl_queue')
           .upsert(newUrls, { onConflict: 'audit_id,url', ignoreDuplicates: true })
 
+        // Sitemap-seeded URLs that turn out to be linked are not orphans
+        if (auditRecord?.seed_from_sitemap) {
+          await supabase
+            .from('audit_crawl_queue')
+            .update({ discovered_via: CrawlDiscoverySource.Link })
+            .eq('audit_id', auditId)
+            .eq('discovered_via', CrawlDiscoverySource.Sitemap)
+            .in(
+              'url',
+              newUrls.map((u) => u.url)
+            )
+        }
+
         // Update urls_discovered count
         const { count } = await supabase
           .from('audit_crawl_queue')
@@ -396,11 +516,20 @@ export async function crawlBatch(
       is_resource: isResource,
       resource_type: resourceType,
       depth: queueItem.depth,
+      ...(!isResource && {
+        canonical_url: extractCanonicalUrl(html, url),
+        hreflang: extractHreflangLinks(html, url),
+        is_noindex: hasNoindexDirective(html),
+      }),
       created_at: new Date().toISOString(),
     }
 
-    // Insert page into database
-    await supabase.from('audit_pages').insert(page)
+    // Insert page into database; rendered mode also stores both HTML snapshots
+    await supabase
+      .from('audit_pages')
+      .insert(
+        renderedHtml !== null ? { ...page, raw_html: rawHtml, rendered_html: renderedHtml } : page
+      )
     allPages.push(page)
     pagesProcessed++
 
@@ -409,6 +538,7 @@ export async function crawlBatch(
       const context: CheckContext = {
         url: page.url,
         html,
+        ...(rawHtml !== null && { rawHtml }),
         title: page.title ?? undefined,
         statusCode: page.status_code ?? 200,
         allPages: allPages.map((p) => ({
@@ -420,8 +550,10 @@ export async function crawlBatch(
         })),
       }
 
-      const checksToRun = pageSpecificChecks.filter(
-        (check) => !isDismissed(dismissedChecks, check.name, page.url)
+      const checksToRun = pageChecks.filter(
+        (check) =>
+          (!check.appliesTo || check.appliesTo(page.url)) &&
+          !isDismissed(dismissedChecks, check.name, page.url)
       )
 
       const checkPromises = checksToRun.map(async (check) => {
@@ -463,6 +595,10 @@ export async function crawlBatch(
     await new Promise((resolve) => setTimeout(resolve, crawlDelayMs))
   }
 
+  if (isRenderedMode) {
+    await closeRenderer()
+  }
+
   // Update pages_crawled count once at end of batch
   if (pagesProcessed > 0) {
     await supabase
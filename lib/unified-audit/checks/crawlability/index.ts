@@ -3,6 +3,7 @@ import { robotsTxtValidation } from './robots-txt-validation'
 import { robotsTxtSkippedPaths } from './robots-txt-skipped-paths'
 import { aiCrawlerAccess } from './ai-crawler-access'
 import { sitemapDetection } from './sitemap-detection'
+import { sitemapCoverage } from './sitemap-coverage'
 import { noindexDetection } from './noindex-detection'
 import { httpToHttpsRedirect } from './http-to-https-redirect'
 import { llmsTxt } from './llms-txt'
@@ -13,6 +14,7 @@ export const crawlabilityChecks: AuditCheckDefinition[] = [
   robotsTxtSkippedPaths,
   aiCrawlerAccess,
   sitemapDetection,
+  sitemapCoverage,
   noindexDetection,
   httpToHttpsRedirect,
   llmsTxt,
@@ -24,6 +26,7 @@ export {
   robotsTxtSkippedPaths,
   aiCrawlerAccess,
   sitemapDetection,
+  sitemapCoverage,
   noindexDetection,
   httpToHttpsRedirect,
   llmsTxt,
@@ -18,6 +18,11 @@ export const jsRendering: AuditCheckDefinition = {
   feedsScores: [ScoreDimension.AIReadiness],
 
   async run(context: CheckContext): Promise<CheckResult> {
+    // Rendered crawl mode: compare server HTML against the DOM after JavaScript ran
+    if (context.rawHtml !== undefined) {
+      return compareRawAndRendered(context.rawHtml, context.html)
+    }
+
     const $ = cheerio.load(context.html)
     const $original = cheerio.load(context.html)
 
@@ -162,3 +167,91 @@ function detectFrameworks(html: string, $: cheerio.CheerioAPI): string[] {
 
   return detected
 }
+
+interface ContentSnapshot {
+  wordCount: number
+  headingCount: number
+  linkCount: number
+  hasTitle: boolean
+  hasH1: boolean
+  hasMetaDescription: boolean
+}
+
+function snapshotContent(html: string): ContentSnapshot {
+  const $ = cheerio.load(html)
+  const hasTitle = $('title').text().trim().length > 0
+  const hasMetaDescription = ($('meta[name="description"]').attr('content') ?? '').trim().length > 0
+  const headingCount = $('h1, h2, h3, h4, h5, h6').length
+  const hasH1 = $('h1').text().trim().length > 0
+  const linkCount = $('a[href]').length
+
+  $('script, style, noscript, nav, header, footer').remove()
+  const bodyText = $('body').text().replace(/\s+/g, ' ').trim()
+  const wordCount = bodyText.split(/\s+/).filter((w) => w.length > 0).length
+
+  return { wordCount, headingCount, linkCount, hasTitle, hasH1, hasMetaDescription }
+}
+
+/**
+ * Report content that only appears after JavaScript runs, using the raw and
+ * rendered HTML captured by the rendered crawl mode.
+ */
+export function compareRawAndRendered(rawHtml: string, renderedHtml: string): CheckResult {
+  const raw = snapshotContent(rawHtml)
+  const rendered = snapshotContent(renderedHtml)
+
+  const jsOnlyElements: string[] = []
+  if (!raw.hasTitle && rendered.hasTitle) jsOnlyElements.push('title')
+  if (!raw.hasMetaDescription && rendered.hasMetaDescription) {
+    jsOnlyElements.push('meta description')
+  }
+  if (!raw.hasH1 && rendered.hasH1) jsOnlyElements.push('H1')
+
+  const jsOnlyWords = Math.max(0, rendered.wordCount - raw.wordCount)
+  const rawCoverage = rendered.wordCount > 0 ? raw.wordCount / rendered.wordCount : 1
+  const jsOnlyLinks = Math.max(0, rendered.linkCount - raw.linkCount)
+
+  const details = {
+    rawWordCount: raw.wordCount,
+    renderedWordCount: rendered.wordCount,
+    jsOnlyWords,
+    rawHeadingCount: raw.headingCount,
+    renderedHeadingCount: rendered.headingCount,
+    jsOnlyLinks,
+    jsOnlyElements,
+  }
+
+  if (jsOnlyElements.length > 0 || (rawCoverage < 0.5 && jsOnlyWords >= 50)) {
+    const parts = [
+      ...(jsOnlyElements.length > 0 ? [`${jsOnlyElements.join(', ')} only set by JavaScript`] : []),
+      ...(jsOnlyWords > 0
+        ? [`${jsOnlyWords} of ${rendered.wordCount} words only appear after JavaScript runs`]
+        : []),
+    ]
+    return {
+      status: CheckStatus.Failed,
+      details: {
+        message: `${parts.join('; ')}. AI crawlers that do not execute JavaScript will miss this content. Implement server-side rendering (SSR) or static site generation (SSG).`,
+        ...details,
+      },
+    }
+  }
+
+  if ((rawCoverage < 0.8 && jsOnlyWords >= 50) || jsOnlyLinks >= 10) {
+    return {
+      status: CheckStatus.Warning,
+      details: {
+        message: `Some content is added by JavaScript (${jsOnlyWords} words, ${jsOnlyLinks} links). Verify important content is in the initial HTML.`,
+        ...details,
+      },
+    }
+  }
+
+  return {
+    status: CheckStatus.Passed,
+    details: {
+      message: `Initial HTML contains ${raw.wordCount} of ${rendered.wordCount} rendered words`,
+      ...details,
+    },
+  }
+}
@@ -0,0 +1,161 @@
+import { CheckCategory, CheckPriority, CheckStatus, ScoreDimension } from '@/lib/enums'
+import type { AuditCheckDefinition, CheckContext, CheckResult } from '../../types'
+
+// Lists in check details are capped; counts always reflect the full totals
+const MAX_LISTED_URLS = 100
+
+// Sitemap URLs the crawl never reached are probed with HEAD requests; cap them to keep the check fast
+const MAX_PROBED_URLS = 25
+const PROBE_TIMEOUT_MS = 5000
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    parsed.hash = ''
+    return parsed.href.replace(/\/$/, '')
+  } catch {
+    return url
+  }
+}
+
+export const sitemapCoverage: AuditCheckDefinition = {
+  name: 'sitemap_coverage',
+  category: CheckCategory.Crawlability,
+  priority: CheckPriority.Recommended,
+  description:
+    'The XML sitemap should list every indexable page, and only pages that return 200 and are linked from the site',
+  displayName: 'Sitemap Coverage Gaps',
+  displayNamePassed: 'Sitemap Matches Crawl',
+  learnMoreUrl:
+    'https://developers.google.com/search/docs/crawling-indexing/sitemaps/build-sitemap',
+  isSiteWide: true,
+  fixGuidance:
+    'Remove redirected, broken and noindexed URLs from the sitemap, add indexable pages that are missing from it, and link orphan pages from relevant pages or navigation.',
+  feedsScores: [ScoreDimension.SEO],
+
+  async run(context: CheckContext): Promise<CheckResult> {
+    const coverage = context.sitemapCoverage
+    if (!coverage || coverage.sitemapUrls.length === 0) {
+      return {
+        status: CheckStatus.Passed,
+        details: { message: 'No sitemap URLs found (handled by sitemap detection check)' },
+      }
+    }
+
+    const sitemapUrls = new Set(coverage.sitemapUrls.map(normalizeUrl))
+    const linkedUrls = new Set(coverage.linkedUrls.map(normalizeUrl))
+    const pagesByUrl = new Map((context.allPages ?? []).map((p) => [normalizeUrl(p.url), p]))
+
+    // Sitemap URLs no crawled page links to. They're only orphans when the crawl
+    // followed every link; a capped or stopped crawl may not have reached the
+    // pages that link to them, so then they're reported but don't count as an issue
+    const unlinkedUrls: string[] = []
+    const nonOkUrls: { url: string; statusCode: number }[] = []
+    const noindexUrls: string[] = []
+    const unreached: string[] = []
+
+    for (const url of sitemapUrls) {
+      if (!linkedUrls.has(url)) unlinkedUrls.push(url)
+
+      const page = pagesByUrl.get(url)
+      if (!page) {
+        unreached.push(url)
+        continue
+      }
+      const statusCode = page.statusCode ?? 200
+      if (statusCode !== 200) nonOkUrls.push({ url, statusCode })
+      else if (page.isNoindex) noindexUrls.push(url)
+    }
+
+    // Redirected URLs are never stored as pages, so probe sitemap URLs the crawl didn't reach
+    const probed = unreached.slice(0, MAX_PROBED_URLS)
+    const probeResults = await Promise.all(probed.map(probeStatus))
+    probed.forEach((url, i) => {
+      const statusCode = probeResults[i]
+      if (statusCode !== null && statusCode !== 200) nonOkUrls.push({ url, statusCode })
+    })
+
+    const missingFromSitemap = (context.allPages ?? [])
+      .filter((p) => {
+        if (p.isResource || p.isNoindex || (p.statusCode ?? 200) !== 200) return false
+        const url = normalizeUrl(p.url)
+        if (p.canonicalUrl && normalizeUrl(p.canonicalUrl) !== url) return false
+        return !sitemapUrls.has(url)
+      })
+      .map((p) => p.url)
+
+    const { crawlComplete } = coverage
+    const details = {
+      sitemapUrlCount: sitemapUrls.size,
+      crawlComplete,
+      ...(crawlComplete
+        ? {
+            orphanCount: unlinkedUrls.length,
+            orphanUrls: unlinkedUrls.slice(0, MAX_LISTED_URLS),
+          }
+        : {
+            unlinkedCount: unlinkedUrls.length,
+            unlinkedUrls: unlinkedUrls.slice(0, MAX_LISTED_URLS),
+          }),
+      missingFromSitemapCount: missingFromSitemap.length,
+      nonOkCount: nonOkUrls.length,
+      noindexCount: noindexUrls.length,
+      unverifiedCount: unreached.length - probed.length,
+      missingFromSitemap: missingFromSitemap.slice(0, MAX_LISTED_URLS),
+      nonOkUrls: nonOkUrls.slice(0, MAX_LISTED_URLS),
+      noindexUrls: noindexUrls.slice(0, MAX_LISTED_URLS),
+    }
+
+    const issues = [
+      nonOkUrls.length > 0 && `${nonOkUrls.length} sitemap URL(s) do not return 200`,
+      noindexUrls.length > 0 && `${noindexUrls.length} sitemap URL(s) are noindexed`,
+      crawlComplete &&
+        unlinkedUrls.length > 0 &&
+        `${unlinkedUrls.length} sitemap URL(s) are not linked internally`,
+      missingFromSitemap.length > 0 &&
+        `${missingFromSitemap.length} indexable page(s) are missing from the sitemap`,
+    ].filter((issue): issue is string => Boolean(issue))
+
+    const unlinkedNote =
+      !crawlComplete && unlinkedUrls.length > 0
+        ? `${unlinkedUrls.length} sitemap URL(s) are not linked from crawled pages (the crawl ended before following every link)`
+        : null
+
+    if (issues.length === 0) {
+      return {
+        status: CheckStatus.Passed,
+        details: {
+          message: unlinkedNote
+            ? `No sitemap coverage issues found. ${unlinkedNote}.`
+            : `All ${sitemapUrls.size} sitemap URLs are linked, indexable and return 200`,
+          ...details,
+        },
+      }
+    }
+
+    // Broken or noindexed sitemap entries waste crawl budget; coverage gaps are softer signals
+    const status =
+      nonOkUrls.length > 0 || noindexUrls.length > 0 ? CheckStatus.Failed : CheckStatus.Warning
+
+    return {
+      status,
+      details: { message: `${[...issues, unlinkedNote].filter(Boolean).join('. ')}.`, ...details },
+    }
+  },
+}
+
+/**
+ * HEAD a URL without following redirects. Returns null when unreachable.
+ */
+async function probeStatus(url: string): Promise<number | null> {
+  try {
+    const response = await fetch(url, {
+      method: 'HEAD',
+      redirect: 'manual',
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    })
+    return response.status
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,246 @@
+import { runInNewContext } from 'vm'
+import * as cheerio from 'cheerio'
+import { CheckCategory, CheckStatus, CustomCheckRuleType } from '@/lib/enums'
+import type { AuditCheckDefinition, CheckContext, CheckResult, CustomCheck } from '../../types'
+
+const MAX_REGEX_PATTERN_LENGTH = 500
+// Regex rules only see the first ~1 MB of HTML
+const MAX_REGEX_INPUT_LENGTH = 1_000_000
+const REGEX_TIMEOUT_MS = 1000
+
+/**
+ * Check name for an org-defined check. Keyed on the row ID so renaming a
+ * custom check keeps its history, dismissals and audit diffs intact.
+ */
+export function getCustomCheckName(customCheckId: string): string {
+  return `custom_${customCheckId}`
+}
+
+/**
+ * Robots.txt-style path matching: the scope matches as a prefix of the URL path,
+ * with `*` matching any sequence of characters and a trailing `$` anchoring the end.
+ */
+export function matchesUrlScope(scope: string | null, url: string): boolean {
+  if (!scope) return true
+
+  let path: string
+  try {
+    const parsed = new URL(url)
+    path = parsed.pathname + parsed.search
+  } catch {
+    return false
+  }
+
+  const anchored = scope.endsWith('$')
+  const body = anchored ? scope.slice(0, -1) : scope
+  const source = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path)
+}
+
+/**
+ * Whether a regex can backtrack exponentially: a repeated group that itself
+ * repeats, like `(a+)+` or `(\w*\s?)*`, or a backreference.
+ */
+export function isUnsafeRegex(pattern: string): boolean {
+  // For each open group, whether it contains a quantifier
+  const groups: boolean[] = []
+  let inClass = false
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? '')) return true
+      i++
+    } else if (inClass) {
+      if (char === ']') inClass = false
+    } else if (char === '[') {
+      inClass = true
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      const repeatsInside = groups.pop() ?? false
+      const repeated = /[*+{]/.test(pattern[i + 1] ?? '')
+      if (repeated && repeatsInside) return true
+      if ((repeated || repeatsInside) && groups.length > 0) groups[groups.length - 1] = true
+    } else if ((char === '*' || char === '+' || char === '{') && groups.length > 0) {
+      groups[groups.length - 1] = true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Match an org-supplied regex against page HTML in a VM with a time budget,
+ * so a pattern that backtracks badly errors this check instead of stalling
+ * the audit batch.
+ */
+function matchWithTimeout(pattern: string, html: string): RegExpMatchArray | null {
+  try {
+    return runInNewContext(
+      'input.match(new RegExp(pattern, "i"))',
+      { pattern, input: html.slice(0, MAX_REGEX_INPUT_LENGTH) },
+      { timeout: REGEX_TIMEOUT_MS }
+    )
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new Error(`Pattern /${pattern}/ took longer than ${REGEX_TIMEOUT_MS}ms to evaluate`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Validate a custom check pattern for its rule type.
+ * Returns an error message, or null when the pattern is usable.
+ */
+export function validateCustomCheckPattern(
+  ruleType: CustomCheckRuleType,
+  pattern: string
+): string | null {
+  if (!pattern.trim()) return 'Pattern is required'
+
+  switch (ruleType) {
+    case CustomCheckRuleType.SelectorPresent:
+    case CustomCheckRuleType.SelectorAbsent:
+      try {
+        cheerio.load('<html></html>')(pattern)
+        return null
+      } catch {
+        return 'Invalid CSS selector'
+      }
+    case CustomCheckRuleType.RegexMatch:
+    case CustomCheckRuleType.RegexNoMatch:
+      try {
+        new RegExp(pattern, 'i')
+      } catch {
+        return 'Invalid regular expression'
+      }
+      if (pattern.length > MAX_REGEX_PATTERN_LENGTH) {
+        return `Regular expression must be at most ${MAX_REGEX_PATTERN_LENGTH} characters`
+      }
+      return isUnsafeRegex(pattern)
+        ? 'Regular expression has nested repetition or backreferences, which can hang audits'
+        : null
+    case CustomCheckRuleType.JsonLdType:
+      return /^[A-Za-z][A-Za-z0-9]*$/.test(pattern.trim()) ? null : 'Invalid schema type'
+    default:
+      return 'Invalid rule type'
+  }
+}
+
+/**
+ * Collect every JSON-LD @type on the page, including @graph entries and arrays.
+ */
+function extractJsonLdTypes(html: string): string[] {
+  const $ = cheerio.load(html)
+  const types: string[] = []
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      const content = $(el).html()
+      if (!content) return
+
+      const data = JSON.parse(content)
+      const roots = Array.isArray(data) ? data : [data]
+
+      for (const root of roots) {
+        const items = root?.['@graph'] ? root['@graph'] : [root]
+        for (const item of items) {
+          const type = item?.['@type']
+          if (Array.isArray(type)) types.push(...type)
+          else if (typeof type === 'string') types.push(type)
+        }
+      }
+    } catch {
+      // Invalid JSON, skip
+    }
+  })
+
+  return types
+}
+
+function evaluateRule(customCheck: CustomCheck, html: string): CheckResult {
+  const { rule_type, pattern } = customCheck
+
+  switch (rule_type) {
+    case CustomCheckRuleType.SelectorPresent:
+    case CustomCheckRuleType.SelectorAbsent: {
+      const count = cheerio.load(html)(pattern).length
+      const wantsPresent = rule_type === CustomCheckRuleType.SelectorPresent
+      const passed = wantsPresent ? count > 0 : count === 0
+      return {
+        status: passed ? CheckStatus.Passed : CheckStatus.Failed,
+        details: {
+          message: wantsPresent
+            ? passed
+              ? `Found ${count} element${count === 1 ? '' : 's'} matching "${pattern}"`
+              : `No element matches "${pattern}"`
+            : passed
+              ? `No element matches "${pattern}"`
+              : `Found ${count} element${count === 1 ? '' : 's'} matching "${pattern}"`,
+          matchCount: count,
+        },
+      }
+    }
+
+    case CustomCheckRuleType.RegexMatch:
+    case CustomCheckRuleType.RegexNoMatch: {
+      const match = matchWithTimeout(pattern, html)
+      const wantsMatch = rule_type === CustomCheckRuleType.RegexMatch
+      const passed = wantsMatch ? match !== null : match === null
+      return {
+        status: passed ? CheckStatus.Passed : CheckStatus.Failed,
+        details: {
+          message: match
+            ? `HTML matches /${pattern}/: "${match[0].slice(0, 100)}"`
+            : `HTML does not match /${pattern}/`,
+          ...(match ? { matchedText: match[0].slice(0, 200) } : {}),
+        },
+      }
+    }
+
+    case CustomCheckRuleType.JsonLdType: {
+      const types = extractJsonLdTypes(html)
+      const passed = types.some((t) => t.toLowerCase() === pattern.toLowerCase())
+      return {
+        status: passed ? CheckStatus.Passed : CheckStatus.Failed,
+        details: {
+          message: passed
+            ? `${pattern} schema found`
+            : `No ${pattern} schema found${types.length > 0 ? ` (found: ${types.join(', ')})` : ''}`,
+          foundTypes: types,
+        },
+      }
+    }
+
+    default:
+      throw new Error(`Unknown custom check rule type: ${rule_type}`)
+  }
+}
+
+/**
+ * Build a page-specific check definition from an org's custom check row.
+ * Custom checks run alongside the built-ins and feed the chosen score dimension.
+ */
+export function buildCustomCheck(customCheck: CustomCheck): AuditCheckDefinition {
+  return {
+    name: getCustomCheckName(customCheck.id),
+    category: CheckCategory.Custom,
+    priority: customCheck.priority,
+    description: customCheck.description || customCheck.display_name,
+    displayName: customCheck.display_name,
+    isSiteWide: false,
+    fixGuidance: customCheck.fix_guidance,
+    feedsScores: [customCheck.feeds_score],
+    appliesTo: (url: string) => matchesUrlScope(customCheck.url_scope, url),
+
+    async run(context: CheckContext): Promise<CheckResult> {
+      return evaluateRule(customCheck, context.html)
+    },
+  }
+}
@@ -11,6 +11,13 @@ import { structuredDataChecks } from './structured-data'
 import { securityChecks } from './security'
 import { performanceChecks } from './performance'
 import { aiVisibilityChecks } from './ai-visibility'
+import { internationalChecks } from './international'
+import {
+  buildCustomCheck,
+  getCustomCheckName,
+  matchesUrlScope,
+  validateCustomCheckPattern,
+} from './custom'
 
 export const allChecks: AuditCheckDefinition[] = [
   ...crawlabilityChecks,
@@ -23,6 +30,7 @@ export const allChecks: AuditCheckDefinition[] = [
   ...securityChecks,
   ...performanceChecks,
   ...aiVisibilityChecks,
+  ...internationalChecks,
 ]
 
 export function getChecksByCategory(category: CheckCategory): AuditCheckDefinition[] {
@@ -52,4 +60,8 @@ export {
   securityChecks,
   performanceChecks,
   aiVisibilityChecks,
+  internationalChecks,
 }
+
+// Org-defined checks are built at audit time from the custom_checks table
+export { buildCustomCheck, getCustomCheckName, matchesUrlScope, validateCustomCheckPattern }
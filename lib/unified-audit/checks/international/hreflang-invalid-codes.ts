@@ -0,0 +1,78 @@
+import type { AuditCheckDefinition, CheckContext, CheckResult } from '@/lib/unified-audit/types'
+import { CheckCategory, CheckPriority, CheckStatus, ScoreDimension } from '@/lib/enums'
+import { getPagesWithHreflang, summarizeExamples, validateHreflangCode } from './hreflang-utils'
+
+export const hreflangInvalidCodes: AuditCheckDefinition = {
+  name: 'hreflang_invalid_codes',
+  category: CheckCategory.International,
+  feedsScores: [ScoreDimension.SEO],
+  priority: CheckPriority.Critical,
+  description:
+    'Hreflang values must be ISO 639-1 language codes, optionally followed by an ISO 3166-1 region',
+  displayName: 'Invalid Hreflang Codes',
+  displayNamePassed: 'Valid Hreflang Codes',
+  learnMoreUrl:
+    'https://developers.google.com/search/docs/specialty/international/localized-versions#language-codes',
+  isSiteWide: true,
+  fixGuidance:
+    'Use a language code like "en", or language plus region like "en-GB". Region codes are countries (GB, not UK), and subtags are separated by hyphens, not underscores.',
+
+  async run(context: CheckContext): Promise<CheckResult> {
+    const pages = getPagesWithHreflang(context.allPages)
+    if (pages.length === 0) {
+      return { status: CheckStatus.Passed, details: { message: 'No hreflang annotations found' } }
+    }
+
+    // Group by code so one bad template value isn't reported once per page
+    const invalid = new Map<string, { reason: string; pages: string[] }>()
+    const duplicates: { url: string; hreflang: string }[] = []
+
+    for (const page of pages) {
+      const seen = new Map<string, string>()
+
+      for (const link of page.hreflang) {
+        const reason = validateHreflangCode(link.hreflang)
+        if (reason) {
+          const entry = invalid.get(link.hreflang) ?? { reason, pages: [] }
+          entry.pages.push(page.url)
+          invalid.set(link.hreflang, entry)
+        }
+
+        const key = link.hreflang.toLowerCase()
+        const previous = seen.get(key)
+        if (previous !== undefined && previous !== link.href) {
+          duplicates.push({ url: page.url, hreflang: link.hreflang })
+        }
+        seen.set(key, link.href)
+      }
+    }
+
+    if (invalid.size === 0 && duplicates.length === 0) {
+      return {
+        status: CheckStatus.Passed,
+        details: { message: 'All hreflang codes are valid', pagesWithHreflang: pages.length },
+      }
+    }
+
+    const invalidCodes = Array.from(invalid.entries()).map(([code, entry]) => ({
+      code,
+      reason: entry.reason,
+      pageCount: entry.pages.length,
+      examplePages: entry.pages.slice(0, 5),
+    }))
+
+    const issues = [
+      ...invalidCodes.map((c) => c.reason),
+      ...duplicates.map((d) => `"${d.hreflang}" points to multiple URLs on ${d.url}`),
+    ]
+
+    return {
+      status: CheckStatus.Failed,
+      details: {
+        message: `Found ${issues.length} hreflang code problem${issues.length === 1 ? '' : 's'}: ${summarizeExamples(issues)}.`,
+        invalidCodes,
+        conflictingDuplicates: duplicates.slice(0, 50),
+      },
+    }
+  },
+}
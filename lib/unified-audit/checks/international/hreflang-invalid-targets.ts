@@ -0,0 +1,139 @@
+import type { AuditCheckDefinition, CheckContext, CheckResult } from '@/lib/unified-audit/types'
+import { CheckCategory, CheckPriority, CheckStatus, ScoreDimension } from '@/lib/enums'
+import {
+  getPagesWithHreflang,
+  indexPagesByUrl,
+  normalizeHreflangUrl,
+  summarizeExamples,
+} from './hreflang-utils'
+
+// Uncrawled targets are probed with HEAD requests; cap them to keep the check fast
+const MAX_PROBED_TARGETS = 25
+const PROBE_TIMEOUT_MS = 5000
+
+interface InvalidTarget {
+  target: string
+  reason: 'non_200' | 'non_canonical'
+  statusCode?: number
+  canonicalUrl?: string
+  referencedBy: string[]
+}
+
+export const hreflangInvalidTargets: AuditCheckDefinition = {
+  name: 'hreflang_invalid_targets',
+  category: CheckCategory.International,
+  feedsScores: [ScoreDimension.SEO],
+  priority: CheckPriority.Critical,
+  description:
+    'Hreflang alternates must point at indexable, canonical URLs that return 200; redirects and canonicalized pages are ignored',
+  displayName: 'Invalid Hreflang Targets',
+  displayNamePassed: 'Valid Hreflang Targets',
+  learnMoreUrl:
+    'https://developers.google.com/search/docs/specialty/international/localized-versions',
+  isSiteWide: true,
+  fixGuidance:
+    'Point each hreflang alternate at the final, canonical URL of the localized page. Update links to redirected or removed pages, and avoid targets whose canonical points elsewhere.',
+
+  async run(context: CheckContext): Promise<CheckResult> {
+    const pages = getPagesWithHreflang(context.allPages)
+    if (pages.length === 0) {
+      return { status: CheckStatus.Passed, details: { message: 'No hreflang annotations found' } }
+    }
+
+    const pagesByUrl = indexPagesByUrl(context.allPages)
+
+    // Target URL -> pages referencing it
+    const targets = new Map<string, { href: string; referencedBy: Set<string> }>()
+    for (const page of pages) {
+      for (const link of page.hreflang) {
+        const key = normalizeHreflangUrl(link.href)
+        const entry = targets.get(key) ?? { href: link.href, referencedBy: new Set<string>() }
+        entry.referencedBy.add(page.url)
+        targets.set(key, entry)
+      }
+    }
+
+    const invalid: InvalidTarget[] = []
+    const uncrawled: { key: string; href: string; referencedBy: Set<string> }[] = []
+
+    for (const [key, entry] of targets) {
+      const crawled = pagesByUrl.get(key)
+      if (!crawled) {
+        uncrawled.push({ key, ...entry })
+        continue
+      }
+
+      const referencedBy = Array.from(entry.referencedBy)
+      const statusCode = crawled.statusCode ?? 200
+      if (statusCode !== 200) {
+        invalid.push({ target: crawled.url, reason: 'non_200', statusCode, referencedBy })
+      } else if (crawled.canonicalUrl && normalizeHreflangUrl(crawled.canonicalUrl) !== key) {
+        invalid.push({
+          target: crawled.url,
+          reason: 'non_canonical',
+          canonicalUrl: crawled.canonicalUrl,
+          referencedBy,
+        })
+      }
+    }
+
+    // Redirected URLs are never stored as pages, so probe targets the crawl didn't reach
+    const probed = uncrawled.slice(0, MAX_PROBED_TARGETS)
+    const probeResults = await Promise.all(probed.map((t) => probeStatus(t.href)))
+    probed.forEach((target, i) => {
+      const statusCode = probeResults[i]
+      if (statusCode !== null && statusCode !== 200) {
+        invalid.push({
+          target: target.href,
+          reason: 'non_200',
+          statusCode,
+          referencedBy: Array.from(target.referencedBy),
+        })
+      }
+    })
+
+    const details = {
+      targetsChecked: targets.size - uncrawled.length + probed.length,
+      targetsSkipped: uncrawled.length - probed.length,
+      invalidCount: invalid.length,
+      invalidTargets: invalid.slice(0, 50),
+    }
+
+    if (invalid.length === 0) {
+      return {
+        status: CheckStatus.Passed,
+        details: { message: 'All hreflang targets are canonical and return 200', ...details },
+      }
+    }
+
+    const examples = invalid.map((t) =>
+      t.reason === 'non_canonical'
+        ? `${t.target} (canonical is ${t.canonicalUrl})`
+        : `${t.target} (HTTP ${t.statusCode})`
+    )
+
+    return {
+      status: CheckStatus.Failed,
+      details: {
+        message: `${invalid.length} hreflang target${invalid.length === 1 ? ' is' : 's are'} not a canonical 200 page. Examples: ${summarizeExamples(examples)}.`,
+        ...details,
+      },
+    }
+  },
+}
+
+/**
+ * HEAD a target without following redirects. Returns null when unreachable.
+ */
+async function probeStatus(url: string): Promise<number | null> {
+  try {
+    const response = await fetch(url, {
+      method: 'HEAD',
+      redirect: 'manual',
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    })
+    return response.status
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,50 @@
+import type { AuditCheckDefinition, CheckContext, CheckResult } from '@/lib/unified-audit/types'
+import { CheckCategory, CheckPriority, CheckStatus, ScoreDimension } from '@/lib/enums'
+import { getPagesWithHreflang, summarizeExamples, X_DEFAULT } from './hreflang-utils'
+
+export const hreflangMissingXDefault: AuditCheckDefinition = {
+  name: 'hreflang_missing_x_default',
+  category: CheckCategory.International,
+  feedsScores: [ScoreDimension.SEO],
+  priority: CheckPriority.Recommended,
+  description:
+    'An x-default hreflang tells search engines which page to show users whose language is not targeted',
+  displayName: 'Missing x-default Hreflang',
+  displayNamePassed: 'x-default Hreflang Present',
+  learnMoreUrl:
+    'https://developers.google.com/search/docs/specialty/international/localized-versions#xdefault',
+  isSiteWide: true,
+  fixGuidance:
+    'Add <link rel="alternate" hreflang="x-default" href="..."> to every localized page, pointing at your language selector or default-language page.',
+
+  async run(context: CheckContext): Promise<CheckResult> {
+    const pages = getPagesWithHreflang(context.allPages)
+    if (pages.length === 0) {
+      return { status: CheckStatus.Passed, details: { message: 'No hreflang annotations found' } }
+    }
+
+    const missing = pages
+      .filter((p) => !p.hreflang.some((l) => l.hreflang.toLowerCase() === X_DEFAULT))
+      .map((p) => p.url)
+
+    if (missing.length === 0) {
+      return {
+        status: CheckStatus.Passed,
+        details: {
+          message: 'All pages with hreflang declare an x-default',
+          pagesWithHreflang: pages.length,
+        },
+      }
+    }
+
+    return {
+      status: CheckStatus.Warning,
+      details: {
+        message: `${missing.length} of ${pages.length} page${pages.length === 1 ? '' : 's'} with hreflang have no x-default. Examples: ${summarizeExamples(missing)}.`,
+        pagesWithHreflang: pages.length,
+        missingCount: missing.length,
+        pages: missing.slice(0, 50),
+      },
+    }
+  },
+}
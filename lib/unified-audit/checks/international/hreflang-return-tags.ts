@@ -0,0 +1,96 @@
+import type { AuditCheckDefinition, CheckContext, CheckResult } from '@/lib/unified-audit/types'
+import { CheckCategory, CheckPriority, CheckStatus, ScoreDimension } from '@/lib/enums'
+import {
+  getPagesWithHreflang,
+  indexPagesByUrl,
+  normalizeHreflangUrl,
+  summarizeExamples,
+} from './hreflang-utils'
+
+export const hreflangReturnTags: AuditCheckDefinition = {
+  name: 'hreflang_return_tags',
+  category: CheckCategory.International,
+  feedsScores: [ScoreDimension.SEO],
+  priority: CheckPriority.Critical,
+  description:
+    'Hreflang annotations must be reciprocal: every alternate page has to link back, or search engines ignore the pair',
+  displayName: 'Missing Hreflang Return Tags',
+  displayNamePassed: 'Reciprocal Hreflang Tags',
+  learnMoreUrl:
+    'https://developers.google.com/search/docs/specialty/international/localized-versions',
+  isSiteWide: true,
+  fixGuidance:
+    'Make sure each localized page lists every alternate version, including itself, and that every alternate links back with the same set of hreflang tags.',
+
+  async run(context: CheckContext): Promise<CheckResult> {
+    const pages = getPagesWithHreflang(context.allPages)
+    if (pages.length === 0) {
+      return { status: CheckStatus.Passed, details: { message: 'No hreflang annotations found' } }
+    }
+
+    const pagesByUrl = indexPagesByUrl(context.allPages)
+    const missingReturn: { from: string; to: string; hreflang: string }[] = []
+    const missingSelf: string[] = []
+
+    for (const page of pages) {
+      const pageUrl = normalizeHreflangUrl(page.url)
+      let hasSelf = false
+
+      for (const link of page.hreflang) {
+        const targetUrl = normalizeHreflangUrl(link.href)
+        if (targetUrl === pageUrl) {
+          hasSelf = true
+          continue
+        }
+
+        // Only verify targets we crawled; uncrawled targets are covered by hreflang_invalid_targets
+        const target = pagesByUrl.get(targetUrl)
+        if (!target || target.isResource || (target.statusCode ?? 200) >= 400) continue
+
+        const linksBack = (target.hreflang ?? []).some(
+          (l) => normalizeHreflangUrl(l.href) === pageUrl
+        )
+        if (!linksBack) {
+          missingReturn.push({ from: page.url, to: target.url, hreflang: link.hreflang })
+        }
+      }
+
+      if (!hasSelf) missingSelf.push(page.url)
+    }
+
+    const details = {
+      pagesWithHreflang: pages.length,
+      missingReturnCount: missingReturn.length,
+      missingReturn: missingReturn.slice(0, 50),
+      missingSelfReference: missingSelf.slice(0, 50),
+    }
+
+    if (missingReturn.length > 0) {
+      return {
+        status: CheckStatus.Failed,
+        details: {
+          message: `${missingReturn.length} hreflang link${missingReturn.length === 1 ? ' is' : 's are'} not reciprocated. Examples: ${summarizeExamples(missingReturn.map((m) => `${m.to} does not link back to ${m.from}`))}.`,
+          ...details,
+        },
+      }
+    }
+
+    if (missingSelf.length > 0) {
+      return {
+        status: CheckStatus.Warning,
+        details: {
+          message: `${missingSelf.length} page${missingSelf.length === 1 ? '' : 's'} with hreflang do not reference themselves. Examples: ${summarizeExamples(missingSelf)}.`,
+          ...details,
+        },
+      }
+    }
+
+    return {
+      status: CheckStatus.Passed,
+      details: {
+        message: `Hreflang annotations on ${pages.length} page${pages.length === 1 ? '' : 's'} are reciprocal`,
+        ...details,
+      },
+    }
+  },
+}
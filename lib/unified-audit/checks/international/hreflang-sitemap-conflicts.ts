@@ -0,0 +1,113 @@
+import type {
+  AuditCheckDefinition,
+  CheckContext,
+  CheckResult,
+  HreflangLink,
+} from '@/lib/unified-audit/types'
+import { CheckCategory, CheckPriority, CheckStatus, ScoreDimension } from '@/lib/enums'
+import {
+  fetchSitemapHreflang,
+  getPagesWithHreflang,
+  normalizeHreflangUrl,
+  summarizeExamples,
+} from './hreflang-utils'
+
+function toAlternateMap(links: HreflangLink[]): Map<string, string> {
+  return new Map(links.map((l) => [l.hreflang.toLowerCase(), normalizeHreflangUrl(l.href)]))
+}
+
+export const hreflangSitemapConflicts: AuditCheckDefinition = {
+  name: 'hreflang_sitemap_conflicts',
+  category: CheckCategory.International,
+  feedsScores: [ScoreDimension.SEO],
+  priority: CheckPriority.Recommended,
+  description:
+    'Hreflang declared in both HTML and the XML sitemap must agree, or search engines may ignore both',
+  displayName: 'Conflicting Hreflang in Sitemap',
+  displayNamePassed: 'Consistent Hreflang Sources',
+  learnMoreUrl:
+    'https://developers.google.com/search/docs/specialty/international/localized-versions#sitemap',
+  isSiteWide: true,
+  fixGuidance:
+    'Declare hreflang in one place (HTML or sitemap), or generate both from the same source so language codes and URLs match exactly.',
+
+  async run(context: CheckContext): Promise<CheckResult> {
+    const pages = getPagesWithHreflang(context.allPages)
+    if (pages.length === 0) {
+      return { status: CheckStatus.Passed, details: { message: 'No hreflang annotations found' } }
+    }
+
+    const sitemapAlternates = await fetchSitemapHreflang(context.url, context.robotsTxt)
+    if (sitemapAlternates.size === 0) {
+      return {
+        status: CheckStatus.Passed,
+        details: { message: 'Hreflang is declared in HTML only; no sitemap alternates found' },
+      }
+    }
+
+    const conflicts: {
+      url: string
+      hreflang: string
+      html: string | null
+      sitemap: string | null
+    }[] = []
+    let pagesCompared = 0
+
+    for (const page of pages) {
+      const sitemapLinks = sitemapAlternates.get(normalizeHreflangUrl(page.url))
+      if (!sitemapLinks) continue
+      pagesCompared++
+
+      const html = toAlternateMap(page.hreflang)
+      const sitemap = toAlternateMap(sitemapLinks)
+      const codes = new Set([...html.keys(), ...sitemap.keys()])
+
+      for (const code of codes) {
+        const htmlTarget = html.get(code) ?? null
+        const sitemapTarget = sitemap.get(code) ?? null
+        if (htmlTarget !== sitemapTarget) {
+          conflicts.push({
+            url: page.url,
+            hreflang: code,
+            html: htmlTarget,
+            sitemap: sitemapTarget,
+          })
+        }
+      }
+    }
+
+    const details = {
+      pagesCompared,
+      conflictCount: conflicts.length,
+      conflicts: conflicts.slice(0, 50),
+    }
+
+    if (conflicts.length === 0) {
+      return {
+        status: CheckStatus.Passed,
+        details: {
+          message:
+            pagesCompared > 0
+              ? `HTML and sitemap hreflang agree on ${pagesCompared} page${pagesCompared === 1 ? '' : 's'}`
+              : 'No crawled pages have hreflang in both HTML and sitemap',
+          ...details,
+        },
+      }
+    }
+
+    const affectedPages = new Set(conflicts.map((c) => c.url))
+    const examples = conflicts.map((c) =>
+      c.html && c.sitemap
+        ? `${c.url} "${c.hreflang}" (HTML: ${c.html}, sitemap: ${c.sitemap})`
+        : `${c.url} "${c.hreflang}" only in ${c.html ? 'HTML' : 'sitemap'}`
+    )
+
+    return {
+      status: CheckStatus.Failed,
+      details: {
+        message: `Hreflang in HTML and sitemap disagree on ${affectedPages.size} page${affectedPages.size === 1 ? '' : 's'}. Examples: ${summarizeExamples(examples)}.`,
+        ...details,
+      },
+    }
+  },
+}
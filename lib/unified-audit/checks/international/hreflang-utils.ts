@@ -0,0 +1,151 @@
+import * as cheerio from 'cheerio'
+import type { CheckContext, HreflangLink } from '@/lib/unified-audit/types'
+import { fetchSitemapDocuments } from '@/lib/unified-audit/sitemap'
+
+type ContextPage = NonNullable<CheckContext['allPages']>[number]
+
+// ISO 639-1 language codes
+const LANGUAGE_CODES = new Set(
+  (
+    'aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy ' +
+    'da de dv dz ee el en eo es et eu fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu ' +
+    'hy hz ia id ie ig ii ik io is it iu ja jv ka kg ki kj kk kl km kn ko kr ks ku kv kw ky la lb ' +
+    'lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn no nr nv ny oc oj om ' +
+    'or os pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so sq sr ss st su sv sw ' +
+    'ta te tg th ti tk tl tn to tr ts tt tw ty ug uk ur uz ve vi vo wa wo xh yi yo za zh zu'
+  ).split(' ')
+)
+
+// ISO 3166-1 alpha-2 region codes
+const REGION_CODES = new Set(
+  (
+    'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR ' +
+    'BS BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ ' +
+    'EC EE EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW ' +
+    'GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY ' +
+    'KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV ' +
+    'MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY ' +
+    'QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG ' +
+    'TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW'
+  ).split(' ')
+)
+
+// Common mistakes worth calling out with a suggested fix
+const REGION_CORRECTIONS: Record<string, string> = { UK: 'GB', EU: 'a country code' }
+
+export const X_DEFAULT = 'x-default'
+
+/**
+ * Validate an hreflang value: `x-default`, or an ISO 639-1 language optionally
+ * followed by an ISO 15924 script and/or ISO 3166-1 alpha-2 region (e.g. `zh-Hant-TW`).
+ * Returns an error message, or null when the code is valid.
+ */
+export function validateHreflangCode(code: string): string | null {
+  if (code.toLowerCase() === X_DEFAULT) return null
+
+  if (code.includes('_')) return `"${code}" uses an underscore; use a hyphen instead`
+
+  const parts = code.split('-')
+  const language = parts[0].toLowerCase()
+  if (!LANGUAGE_CODES.has(language)) return `"${parts[0]}" is not an ISO 639-1 language code`
+
+  let rest = parts.slice(1)
+  if (rest.length > 0 && /^[a-z]{4}$/i.test(rest[0])) rest = rest.slice(1) // Script subtag
+  if (rest.length > 1) return `"${code}" has too many subtags`
+
+  if (rest.length === 1) {
+    const region = rest[0].toUpperCase()
+    if (REGION_CORRECTIONS[region]) {
+      return `"${rest[0]}" is not a valid region code; use ${REGION_CORRECTIONS[region]}`
+    }
+    if (!REGION_CODES.has(region)) return `"${rest[0]}" is not an ISO 3166-1 region code`
+  }
+
+  return null
+}
+
+/**
+ * Normalize a URL for comparison: drop the fragment and any trailing slash,
+ * matching how the crawler stores discovered links.
+ */
+export function normalizeHreflangUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    parsed.hash = ''
+    return parsed.href.replace(/\/$/, '')
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Crawled HTML pages that declare at least one hreflang annotation.
+ */
+export function getPagesWithHreflang(
+  allPages: CheckContext['allPages']
+): (ContextPage & { hreflang: HreflangLink[] })[] {
+  return (allPages ?? []).filter(
+    (p): p is ContextPage & { hreflang: HreflangLink[] } =>
+      !p.isResource && (p.statusCode ?? 200) < 400 && (p.hreflang?.length ?? 0) > 0
+  )
+}
+
+/**
+ * Build a lookup of crawled pages keyed by normalized URL.
+ */
+export function indexPagesByUrl(allPages: CheckContext['allPages']): Map<string, ContextPage> {
+  const index = new Map<string, ContextPage>()
+  for (const page of allPages ?? []) {
+    index.set(normalizeHreflangUrl(page.url), page)
+  }
+  return index
+}
+
+/**
+ * Truncate a list of examples for check messages.
+ */
+export function summarizeExamples(examples: string[], limit = 3): string {
+  const shown = examples.slice(0, limit).join(', ')
+  return examples.length > limit ? `${shown} and ${examples.length - limit} more` : shown
+}
+
+/**
+ * Hreflang alternates declared in the site's XML sitemaps, keyed by normalized page URL.
+ * Returns an empty map when no sitemap is reachable.
+ */
+export async function fetchSitemapHreflang(
+  siteUrl: string,
+  robotsTxt?: string
+): Promise<Map<string, HreflangLink[]>> {
+  const alternates = new Map<string, HreflangLink[]>()
+  for (const xml of await fetchSitemapDocuments(siteUrl, robotsTxt)) {
+    collectSitemapAlternates(xml, alternates)
+  }
+  return alternates
+}
+
+/**
+ * Parse `<xhtml:link rel="alternate" hreflang>` entries from a urlset sitemap.
+ */
+export function collectSitemapAlternates(xml: string, into: Map<string, HreflangLink[]>): void {
+  const $ = cheerio.load(xml, { xml: true })
+
+  $('url').each((_, urlEl) => {
+    const loc = $(urlEl).children('loc').first().text().trim()
+    if (!loc) return
+
+    const links: HreflangLink[] = []
+    $(urlEl)
+      .children()
+      .filter((_, el) => el.type === 'tag' && /(^|:)link$/.test(el.name))
+      .each((_, linkEl) => {
+        const hreflang = $(linkEl).attr('hreflang')?.trim()
+        const href = $(linkEl).attr('href')?.trim()
+        if ($(linkEl).attr('rel') === 'alternate' && hreflang && href) {
+          links.push({ hreflang, href })
+        }
+      })
+
+    if (links.length > 0) into.set(normalizeHreflangUrl(loc), links)
+  })
+}
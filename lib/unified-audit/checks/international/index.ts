@@ -0,0 +1,23 @@
+import type { AuditCheckDefinition } from '../../types'
+
+import { hreflangReturnTags } from './hreflang-return-tags'
+import { hreflangInvalidCodes } from './hreflang-invalid-codes'
+import { hreflangMissingXDefault } from './hreflang-missing-x-default'
+import { hreflangInvalidTargets } from './hreflang-invalid-targets'
+import { hreflangSitemapConflicts } from './hreflang-sitemap-conflicts'
+
+export {
+  hreflangReturnTags,
+  hreflangInvalidCodes,
+  hreflangMissingXDefault,
+  hreflangInvalidTargets,
+  hreflangSitemapConflicts,
+}
+
+export const internationalChecks: AuditCheckDefinition[] = [
+  hreflangReturnTags,
+  hreflangInvalidCodes,
+  hreflangMissingXDefault,
+  hreflangInvalidTargets,
+  hreflangSitemapConflicts,
+]
@@ -0,0 +1,176 @@
+import { CheckStatus, ScoreDimension, UnifiedAuditStatus } from '@/lib/enums'
+import type { AuditCheck, AuditPage, UnifiedAudit } from './types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DiffCheck = Pick<
+  AuditCheck,
+  'check_name' | 'page_url' | 'status' | 'display_name' | 'category' | 'priority'
+>
+
+export type DiffPage = Pick<AuditPage, 'url' | 'is_resource'>
+
+export type DiffAudit = Pick<
+  UnifiedAudit,
+  'id' | 'seo_score' | 'performance_score' | 'ai_readiness_score' | 'overall_score'
+>
+
+export interface CheckChange {
+  check_name: string
+  page_url: string | null
+  display_name: string
+  category: AuditCheck['category']
+  priority: AuditCheck['priority']
+  /** Status in the base audit, or null when the check did not exist there */
+  previous_status: CheckStatus | null
+  status: CheckStatus
+}
+
+export type ScoreKey = ScoreDimension | 'overall'
+
+export interface ScoreDelta {
+  dimension: ScoreKey
+  previous: number | null
+  current: number | null
+  /** current - previous, or null when either side has no score */
+  delta: number | null
+}
+
+export interface AuditDiff {
+  baseAuditId: string
+  compareAuditId: string
+  newlyFailing: CheckChange[]
+  fixed: CheckChange[]
+  pagesAdded: string[]
+  pagesRemoved: string[]
+  scoreDeltas: ScoreDelta[]
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const ACTIONABLE_STATUSES: string[] = [CheckStatus.Failed, CheckStatus.Warning]
+
+const COMPARABLE_STATUSES: string[] = [
+  UnifiedAuditStatus.Completed,
+  UnifiedAuditStatus.CompletedWithErrors,
+]
+
+/**
+ * Identity of a check across audits. Site-wide checks have no page_url,
+ * so they are keyed by check_name alone.
+ */
+export function getCheckKey(check: Pick<AuditCheck, 'check_name' | 'page_url'>): string {
+  return `${check.check_name}::${check.page_url ?? ''}`
+}
+
+function toChange(check: DiffCheck, previousStatus: CheckStatus | null): CheckChange {
+  return {
+    check_name: check.check_name,
+    page_url: check.page_url,
+    display_name: check.display_name,
+    category: check.category,
+    priority: check.priority,
+    previous_status: previousStatus,
+    status: check.status,
+  }
+}
+
+function scoreDelta(
+  dimension: ScoreKey,
+  previous: number | null,
+  current: number | null
+): ScoreDelta {
+  return {
+    dimension,
+    previous,
+    current,
+    delta: previous !== null && current !== null ? current - previous : null,
+  }
+}
+
+function pageUrls(pages: DiffPage[]): Set<string> {
+  return new Set(pages.filter((p) => !p.is_resource).map((p) => p.url))
+}
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+/**
+ * Compare two unified audits of the same domain.
+ *
+ * - Newly failing: failed in `compare`, and not failed (or absent) in `base`
+ * - Fixed: failed or warning in `base`, passed in `compare`
+ * - Pages added/removed: HTML pages (resources excluded) present in only one audit
+ *
+ * Checks that disappear along with their page are not counted as fixed.
+ */
+export function diffAudits(
+  base: { audit: DiffAudit; checks: DiffCheck[]; pages: DiffPage[] },
+  compare: { audit: DiffAudit; checks: DiffCheck[]; pages: DiffPage[] }
+): AuditDiff {
+  const baseByKey = new Map(base.checks.map((c) => [getCheckKey(c), c]))
+
+  const newlyFailing: CheckChange[] = []
+  const fixed: CheckChange[] = []
+
+  for (const check of compare.checks) {
+    const previous = baseByKey.get(getCheckKey(check))
+
+    if (check.status === CheckStatus.Failed && previous?.status !== CheckStatus.Failed) {
+      newlyFailing.push(toChange(check, previous?.status ?? null))
+    } else if (
+      check.status === CheckStatus.Passed &&
+      previous &&
+      ACTIONABLE_STATUSES.includes(previous.status)
+    ) {
+      fixed.push(toChange(check, previous.status))
+    }
+  }
+
+  const basePages = pageUrls(base.pages)
+  const comparePages = pageUrls(compare.pages)
+
+  return {
+    baseAuditId: base.audit.id,
+    compareAuditId: compare.audit.id,
+    newlyFailing,
+    fixed,
+    pagesAdded: [...comparePages].filter((url) => !basePages.has(url)).sort(),
+    pagesRemoved: [...basePages].filter((url) => !comparePages.has(url)).sort(),
+    scoreDeltas: [
+      scoreDelta('overall', base.audit.overall_score, compare.audit.overall_score),
+      scoreDelta(ScoreDimension.SEO, base.audit.seo_score, compare.audit.seo_score),
+      scoreDelta(
+        ScoreDimension.Performance,
+        base.audit.performance_score,
+        compare.audit.performance_score
+      ),
+      scoreDelta(
+        ScoreDimension.AIReadiness,
+        base.audit.ai_readiness_score,
+        compare.audit.ai_readiness_score
+      ),
+    ],
+  }
+}
+
+/**
+ * Find the most recent completed audit of the same domain created before `audit`.
+ * Expects `audits` sorted newest first, as returned by the audit list.
+ */
+export function findPreviousComparableAudit<
+  T extends Pick<UnifiedAudit, 'id' | 'domain' | 'status' | 'created_at'>,
+>(audit: T, audits: T[]): T | null {
+  const index = audits.findIndex((a) => a.id === audit.id)
+  if (index === -1) return null
+  return (
+    audits
+      .slice(index + 1)
+      .find((a) => a.domain === audit.domain && COMPARABLE_STATUSES.includes(a.status)) ?? null
+  )
+}
@@ -0,0 +1,254 @@
+import { paginateQuery } from '@/lib/supabase/paginate'
+import { toCsv } from '@/lib/utils/csv'
+import { toXlsx, XLSX_CONTENT_TYPE } from '@/lib/utils/xlsx'
+import { AuditExportDataset, AuditExportFormat, CheckStatus } from '@/lib/enums'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuditCheck, AuditPage, UnifiedAudit } from './types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type Cell = string | number | null
+
+export type ExportCheck = Pick<
+  AuditCheck,
+  | 'page_url'
+  | 'category'
+  | 'check_name'
+  | 'priority'
+  | 'status'
+  | 'display_name'
+  | 'display_name_passed'
+  | 'description'
+  | 'fix_guidance'
+  | 'learn_more_url'
+  | 'details'
+>
+
+export type ExportPage = Pick<
+  AuditPage,
+  | 'url'
+  | 'status_code'
+  | 'title'
+  | 'meta_description'
+  | 'depth'
+  | 'canonical_url'
+  | 'is_noindex'
+  | 'is_resource'
+  | 'resource_type'
+  | 'last_modified'
+>
+
+export interface AuditExportFile {
+  content: Buffer
+  filename: string
+  contentType: string
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const EXPORT_CHECK_SELECT = `page_url, category, check_name, priority, status,
+  display_name, display_name_passed, description, fix_guidance,
+  learn_more_url, details` as '*'
+
+const EXPORT_PAGE_SELECT = `url, status_code, title, meta_description, depth,
+  canonical_url, is_noindex, is_resource, resource_type, last_modified` as '*'
+
+const CHECK_COLUMNS = [
+  'page_url',
+  'category',
+  'check_name',
+  'display_name',
+  'priority',
+  'status',
+  'description',
+  'fix_guidance',
+  'learn_more_url',
+] as const
+
+const PAGE_COLUMNS = [
+  'url',
+  'status_code',
+  'title',
+  'meta_description',
+  'depth',
+  'canonical_url',
+  'is_noindex',
+  'is_resource',
+  'resource_type',
+  'last_modified',
+] as const
+
+const CSV_CONTENT_TYPE = 'text/csv; charset=utf-8'
+
+const SHEET_NAMES: Record<AuditExportDataset, string> = {
+  [AuditExportDataset.Checks]: 'Checks',
+  [AuditExportDataset.Pages]: 'Pages',
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toCell(value: unknown): Cell {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 'true' : 'false'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Flatten check details into dotted columns (`details.meta.length`). Arrays of
+ * primitives are joined with ", "; arrays of objects are written as JSON.
+ */
+export function flattenDetails(
+  details: Record<string, unknown> | null,
+  prefix = 'details'
+): Record<string, Cell> {
+  const flat: Record<string, Cell> = {}
+  if (!details) return flat
+
+  for (const [key, value] of Object.entries(details)) {
+    const column = `${prefix}.${key}`
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(flat, flattenDetails(value as Record<string, unknown>, column))
+    } else if (
+      Array.isArray(value) &&
+      value.every((item) => item === null || typeof item !== 'object')
+    ) {
+      flat[column] = value.map((item) => String(item ?? '')).join(', ')
+    } else {
+      flat[column] = toCell(value)
+    }
+  }
+  return flat
+}
+
+/**
+ * Spreadsheet apps evaluate CSV fields starting with =, +, - or @ as formulas.
+ * Page titles and URLs come from crawled sites, so prefix those with a quote.
+ */
+function neutralizeFormula(value: Cell): Cell {
+  return typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : value
+}
+
+// =============================================================================
+// Rows
+// =============================================================================
+
+/**
+ * One row per check with the fixed columns first, then every flattened
+ * details key found across the checks, in alphabetical order.
+ */
+export function checksToRows(checks: ExportCheck[]): Cell[][] {
+  const flattened = checks.map((check) => flattenDetails(check.details))
+  const detailColumns = Array.from(new Set(flattened.flatMap((d) => Object.keys(d)))).sort()
+
+  const rows = checks.map((check, i) => [
+    ...CHECK_COLUMNS.map((column) =>
+      column === 'display_name' && check.status === CheckStatus.Passed
+        ? check.display_name_passed || check.display_name
+        : toCell(check[column])
+    ),
+    ...detailColumns.map((column) => flattened[i][column] ?? null),
+  ])
+
+  return [[...CHECK_COLUMNS, ...detailColumns], ...rows]
+}
+
+export function pagesToRows(pages: ExportPage[]): Cell[][] {
+  return [
+    [...PAGE_COLUMNS],
+    ...pages.map((page) => PAGE_COLUMNS.map((column) => toCell(page[column]))),
+  ]
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+async function fetchExportRows(
+  supabase: SupabaseClient,
+  auditId: string,
+  dataset: AuditExportDataset
+): Promise<Cell[][]> {
+  if (dataset === AuditExportDataset.Pages) {
+    const pages = await paginateQuery<ExportPage>(
+      (sb, range) =>
+        sb
+          .from('audit_pages')
+          .select(EXPORT_PAGE_SELECT)
+          .eq('audit_id', auditId)
+          .order('depth', { ascending: true })
+          .order('url', { ascending: true })
+          .order('id', { ascending: true })
+          .range(range.from, range.to),
+      supabase
+    )
+    return pagesToRows(pages)
+  }
+
+  const checks = await paginateQuery<ExportCheck>(
+    (sb, range) =>
+      sb
+        .from('audit_checks')
+        .select(EXPORT_CHECK_SELECT)
+        .eq('audit_id', auditId)
+        .order('created_at', { ascending: true })
+        // Checks are inserted in batches that share a created_at; the id keeps pages stable
+        .order('id', { ascending: true })
+        .range(range.from, range.to),
+    supabase
+  )
+  return checksToRows(checks)
+}
+
+/**
+ * Build a CSV or XLSX file of a unified audit's checks or crawled pages.
+ * The caller is responsible for access checks; pass a service client when
+ * serving a share link.
+ */
+export async function buildAuditExport(
+  supabase: SupabaseClient,
+  audit: Pick<UnifiedAudit, 'id' | 'created_at'> & { domain: string | null },
+  dataset: AuditExportDataset,
+  format: AuditExportFormat
+): Promise<AuditExportFile> {
+  const rows = await fetchExportRows(supabase, audit.id, dataset)
+  const date = (audit.created_at ?? new Date().toISOString()).slice(0, 10)
+  // The domain column is nullable; name those files by id rather than "null"
+  const basename = `${audit.domain ?? audit.id}-audit-${dataset}-${date}`
+
+  if (format === AuditExportFormat.XLSX) {
+    return {
+      content: await toXlsx(rows, SHEET_NAMES[dataset]),
+      filename: `${basename}.xlsx`,
+      contentType: XLSX_CONTENT_TYPE,
+    }
+  }
+
+  // Leading byte order mark so Excel opens the file as UTF-8
+  const csv = '\uFEFF' + toCsv(rows.map((row) => row.map(neutralizeFormula)))
+  return {
+    content: Buffer.from(csv, 'utf-8'),
+    filename: `${basename}.csv`,
+    contentType: CSV_CONTENT_TYPE,
+  }
+}
+
+export function parseAuditExportOptions(input: {
+  dataset?: unknown
+  format?: unknown
+}): { dataset: AuditExportDataset; format: AuditExportFormat } | null {
+  const datasets: unknown[] = Object.values(AuditExportDataset)
+  const formats: unknown[] = Object.values(AuditExportFormat)
+  if (!datasets.includes(input.dataset) || !formats.includes(input.format)) return null
+  return {
+    dataset: input.dataset as AuditExportDataset,
+    format: input.format as AuditExportFormat,
+  }
+}
@@ -1,4 +1,6 @@
 import type { SiteAuditPage } from '@/lib/audit/types'
+import { CheckPriority } from '@/lib/enums'
+import { normalizePageUrl } from '@/lib/utils/url'
 
 export interface PageImportance {
   url: string
@@ -188,3 +190,91 @@ export function getAverageImportance(pages: SiteAuditPage[], baseUrl: string): n
 
   return sum / importance.length
 }
+
+export interface PageTraffic {
+  url: string
+  sessions: number
+}
+
+export interface TrafficWeightedCheck {
+  check_name: string
+  display_name: string | null
+  priority: string
+  page_url: string | null
+}
+
+export interface TrafficImpactedFix {
+  checkName: string
+  title: string
+  priority: CheckPriority
+  affectedPages: number
+  sessions: number
+  topPages: PageTraffic[]
+}
+
+const PRIORITY_RANK: Record<string, number> = {
+  [CheckPriority.Critical]: 0,
+  [CheckPriority.Recommended]: 1,
+  [CheckPriority.Optional]: 2,
+}
+
+/**
+ * Rank failed page-level checks by the sessions of the pages they affect,
+ * so the issues touching the most visited pages come first. Site-wide checks
+ * (no page URL) and checks on pages with no recorded traffic are left out,
+ * since there's no traffic to attribute to them. Ties fall back to check
+ * priority, then to the number of affected pages.
+ */
+export function rankChecksByTraffic(
+  checks: TrafficWeightedCheck[],
+  pageTraffic: PageTraffic[],
+  limit: number = 5
+): TrafficImpactedFix[] {
+  if (pageTraffic.length === 0) return []
+
+  const sessionsByUrl = new Map<string, number>()
+  for (const page of pageTraffic) {
+    const key = normalizePageUrl(page.url)
+    sessionsByUrl.set(key, (sessionsByUrl.get(key) ?? 0) + page.sessions)
+  }
+
+  const byCheck = new Map<string, TrafficImpactedFix>()
+  const seenPages = new Set<string>()
+  for (const check of checks) {
+    if (!check.page_url) continue
+    const pageKey = normalizePageUrl(check.page_url)
+    const sessions = sessionsByUrl.get(pageKey)
+    if (!sessions) continue
+
+    // The same page can be reported more than once for a check (e.g. re-runs)
+    const seenKey = `${check.check_name}|${pageKey}`
+    if (seenPages.has(seenKey)) continue
+    seenPages.add(seenKey)
+
+    const fix = byCheck.get(check.check_name) ?? {
+      checkName: check.check_name,
+      title: check.display_name || check.check_name.replace(/[_-]/g, ' '),
+      priority: check.priority as CheckPriority,
+      affectedPages: 0,
+      sessions: 0,
+      topPages: [],
+    }
+    fix.affectedPages++
+    fix.sessions += sessions
+    fix.topPages.push({ url: check.page_url, sessions })
+    byCheck.set(check.check_name, fix)
+  }
+
+  return Array.from(byCheck.values())
+    .map((fix) => ({
+      ...fix,
+      topPages: fix.topPages.sort((a, b) => b.sessions - a.sessions).slice(0, 3),
+    }))
+    .sort(
+      (a, b) =>
+        b.sessions - a.sessions ||
+        (PRIORITY_RANK[a.priority] ?? 3) - (PRIORITY_RANK[b.priority] ?? 3) ||
+        b.affectedPages - a.affectedPages
+    )
+    .slice(0, limit)
+}
@@ -6,6 +6,7 @@ import { fetchPage } from '@/lib/audit/fetcher'
 import type { AuditPage, AuditAIAnalysis, PostCrawlContext, PostCrawlResult } from '../../types'
 import type { SiteAuditPage } from '@/lib/audit/types'
 import { logUsage } from '@/lib/app-settings/usage'
+import { isAIDisabledForOrganization } from '@/lib/ai/provider'
 import { UsageFeature } from '@/lib/enums'
 
 /**
@@ -30,7 +31,8 @@ function toSiteAuditPage(page: AuditPage): SiteAuditPage {
  * Run Claude AI analysis on top pages and store results in audit_ai_analyses.
  * Returns the strategic score for blending into the AI readiness score.
  *
- * Skips entirely if ai_analysis_enabled is false on the audit.
+ * Skips entirely if ai_analysis_enabled is false on the audit or the
+ * organization's AI billing model is disabled.
  */
 export async function runAIPhase(context: PostCrawlContext): Promise<PostCrawlResult> {
   const { auditId, url, allPages, sampleSize, organizationId } = context
@@ -55,6 +57,17 @@ export async function runAIPhase(context: PostCrawlContext): Promise<PostCrawlRe
     }
   }
 
+  if (await isAIDisabledForOrganization(organizationId)) {
+    console.error('[AI Phase] Skipping — AI is disabled for this organization')
+    return {
+      strategicScore: null,
+      pagesAnalyzed: 0,
+      totalInputTokens: 0,
+      totalOutputTokens: 0,
+      totalCost: 0,
+    }
+  }
+
   // Filter to HTML pages only
   const htmlPages = allPages.filter(
     (p) => !p.is_resource && (!p.status_code || p.status_code < 400)
@@ -101,7 +114,7 @@ export async function runAIPhase(context: PostCrawlContext): Promise<PostCrawlRe
   console.error(`[AI Phase] Analyzing ${pageContents.length} pages with Claude`)
 
   const startTime = Date.now()
-  const batchResult = await runAIAnalysis(pageContents)
+  const batchResult = await runAIAnalysis(pageContents, { organizationId })
   const executionTimeMs = Date.now() - startTime
 
   await logUsage('anthropic', 'ai_analysis', {
@@ -0,0 +1,272 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { paginateQuery } from '@/lib/supabase/paginate'
+import { sendEmail, FROM_EMAIL } from '@/lib/email/client'
+import AuditRegressionAlert from '@/emails/audit-regression-alert'
+import { AuditAlertRuleType, CheckPriority, ScoreDimension, UnifiedAuditStatus } from '@/lib/enums'
+import { diffAudits, type AuditDiff, type CheckChange, type DiffCheck, type ScoreKey } from './diff'
+import type { AuditAlertRule, UnifiedAudit } from './types'
+
+const SCORE_LABELS: Record<ScoreKey, string> = {
+  overall: 'Overall',
+  [ScoreDimension.SEO]: 'SEO',
+  [ScoreDimension.Performance]: 'Performance',
+  [ScoreDimension.AIReadiness]: 'AI Readiness',
+}
+
+const COMPLETED_STATUSES = [UnifiedAuditStatus.Completed, UnifiedAuditStatus.CompletedWithErrors]
+
+const DIFF_CHECK_SELECT =
+  'check_name, page_url, status, display_name, category, priority, created_at' as '*'
+
+export type RegressionTrigger =
+  | {
+      ruleId: string
+      type: AuditAlertRuleType.ScoreDrop
+      dimension: ScoreKey
+      previous: number
+      current: number
+    }
+  | {
+      ruleId: string
+      type: AuditAlertRuleType.NewCriticalFailure
+      failures: CheckChange[]
+    }
+
+// =============================================================================
+// Rule Evaluation
+// =============================================================================
+
+/**
+ * Evaluate a single alert rule against an audit diff.
+ * Returns the trigger, or null when the rule does not fire.
+ * Deduplicates: a rule never fires twice for the same audit.
+ */
+export function evaluateAlertRule(
+  rule: Pick<
+    AuditAlertRule,
+    'id' | 'rule_type' | 'dimension' | 'threshold' | 'is_active' | 'last_triggered_audit_id'
+  >,
+  diff: AuditDiff
+): RegressionTrigger | null {
+  if (!rule.is_active) return null
+  if (rule.last_triggered_audit_id === diff.compareAuditId) return null
+
+  if (rule.rule_type === AuditAlertRuleType.ScoreDrop) {
+    if (!rule.dimension || !rule.threshold) return null
+    const delta = diff.scoreDeltas.find((d) => d.dimension === rule.dimension)
+    if (!delta || delta.delta === null || delta.previous === null || delta.current === null) {
+      return null
+    }
+    if (-delta.delta <= rule.threshold) return null
+    return {
+      ruleId: rule.id,
+      type: AuditAlertRuleType.ScoreDrop,
+      dimension: rule.dimension,
+      previous: delta.previous,
+      current: delta.current,
+    }
+  }
+
+  if (rule.rule_type === AuditAlertRuleType.NewCriticalFailure) {
+    const failures = diff.newlyFailing.filter((c) => c.priority === CheckPriority.Critical)
+    if (failures.length === 0) return null
+    return { ruleId: rule.id, type: AuditAlertRuleType.NewCriticalFailure, failures }
+  }
+
+  return null
+}
+
+// =============================================================================
+// Runner Hook
+// =============================================================================
+
+/**
+ * Evaluate regression alert rules for a finished unified audit of a monitored site
+ * and email the rule recipients. Fire-and-forget: never throws.
+ */
+export async function evaluateRegressionAlerts(auditId: string): Promise<void> {
+  try {
+    const supabase = createServiceClient()
+
+    const { data: audit } = await supabase
+      .from('audits')
+      .select(
+        'id, organization_id, domain, url, status, created_at, seo_score, performance_score, ai_readiness_score, overall_score'
+      )
+      .eq('id', auditId)
+      .single()
+
+    if (!audit?.organization_id || !COMPLETED_STATUSES.includes(audit.status)) return
+
+    const { data: site } = await supabase
+      .from('monitored_sites')
+      .select('id, url')
+      .eq('organization_id', audit.organization_id)
+      .eq('url', audit.url)
+      .maybeSingle()
+
+    if (!site) return
+
+    const { data: rules } = await supabase
+      .from('audit_alert_rules')
+      .select('*')
+      .eq('monitored_site_id', site.id)
+      .eq('is_active', true)
+
+    if (!rules?.length) return
+
+    const { data: previous } = await supabase
+      .from('audits')
+      .select('id, seo_score, performance_score, ai_readiness_score, overall_score')
+      .eq('organization_id', audit.organization_id)
+      .eq('domain', audit.domain)
+      .in('status', COMPLETED_STATUSES)
+      .lt('created_at', audit.created_at)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!previous) return
+
+    const fetchChecks = (id: string) =>
+      paginateQuery<DiffCheck>(
+        (sb, range) =>
+          sb
+            .from('audit_checks')
+            .select(DIFF_CHECK_SELECT)
+            .eq('audit_id', id)
+            .order('created_at', { ascending: true })
+            .range(range.from, range.to),
+        supabase
+      )
+
+    const [previousChecks, currentChecks] = await Promise.all([
+      fetchChecks(previous.id),
+      fetchChecks(audit.id),
+    ])
+
+    const diff = diffAudits(
+      { audit: previous, checks: previousChecks, pages: [] },
+      { audit, checks: currentChecks, pages: [] }
+    )
+
+    const fired = (rules as AuditAlertRule[])
+      .map((rule) => ({ rule, trigger: evaluateAlertRule(rule, diff) }))
+      .filter((r): r is { rule: AuditAlertRule; trigger: RegressionTrigger } => r.trigger !== null)
+
+    if (fired.length === 0) return
+
+    await sendRegressionAlert({
+      audit: audit as UnifiedAudit,
+      previousAuditId: previous.id,
+      fired,
+    })
+
+    await supabase
+      .from('audit_alert_rules')
+      .update({ last_triggered_audit_id: audit.id, last_triggered_at: new Date().toISOString() })
+      .in(
+        'id',
+        fired.map((f) => f.rule.id)
+      )
+  } catch (error) {
+    console.error('[Audit Regression Alert]', {
+      type: 'evaluation_failed',
+      auditId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+  }
+}
+
+async function sendRegressionAlert(input: {
+  audit: UnifiedAudit
+  previousAuditId: string
+  fired: { rule: AuditAlertRule; trigger: RegressionTrigger }[]
+}): Promise<void> {
+  const { audit, previousAuditId, fired } = input
+  const supabase = createServiceClient()
+  const organizationId = audit.organization_id as string
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('name')
+    .eq('id', organizationId)
+    .single()
+  const orgName = org?.name ?? audit.domain
+
+  // Rules without explicit recipients notify every internal user
+  const recipients = new Set<string>()
+  const needsInternal = fired.some((f) => f.rule.recipients.length === 0)
+  for (const { rule } of fired) {
+    rule.recipients.forEach((email) => recipients.add(email.toLowerCase()))
+  }
+  if (needsInternal) {
+    const { data: internalUsers } = await supabase
+      .from('users')
+      .select('email')
+      .eq('is_internal', true)
+    internalUsers?.forEach((u) => u.email && recipients.add(u.email.toLowerCase()))
+  }
+
+  if (recipients.size === 0) {
+    console.error('[Audit Regression Alert]', {
+      type: 'no_recipients',
+      auditId: audit.id,
+      timestamp: new Date().toISOString(),
+    })
+    return
+  }
+
+  const scoreDrops = fired.flatMap(({ trigger }) =>
+    trigger.type === AuditAlertRuleType.ScoreDrop
+      ? [
+          {
+            label: SCORE_LABELS[trigger.dimension],
+            previous: trigger.previous,
+            current: trigger.current,
+          },
+        ]
+      : []
+  )
+
+  // Group new critical failures by check so the email lists each check once
+  const failuresByCheck = new Map<
+    string,
+    { displayName: string; pageCount: number; siteWide: boolean }
+  >()
+  for (const { trigger } of fired) {
+    if (trigger.type !== AuditAlertRuleType.NewCriticalFailure) continue
+    for (const failure of trigger.failures) {
+      const entry = failuresByCheck.get(failure.check_name) ?? {
+        displayName: failure.display_name,
+        pageCount: 0,
+        siteWide: false,
+      }
+      if (failure.page_url) entry.pageCount++
+      else entry.siteWide = true
+      failuresByCheck.set(failure.check_name, entry)
+    }
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://app.selo.io'
+  const comparisonLink = `${baseUrl}/${organizationId}/seo/audit/compare?from=${previousAuditId}&to=${audit.id}`
+
+  await Promise.all(
+    [...recipients].map((email) =>
+      sendEmail({
+        from: FROM_EMAIL,
+        to: email,
+        subject: `Audit regression: ${audit.domain}`,
+        react: AuditRegressionAlert({
+          orgName,
+          siteUrl: audit.url,
+          comparisonLink,
+          scoreDrops,
+          criticalFailures: [...failuresByCheck.values()],
+        }),
+        idempotencyKey: `audit-regression-${audit.id}-${email}`,
+      })
+    )
+  )
+}
@@ -2,12 +2,34 @@ import { createServiceClient } from '@/lib/supabase/server'
 import { paginateQuery } from '@/lib/supabase/paginate'
 import { crawlSite } from '@/lib/audit/crawler'
 import { initializeCrawlQueue, crawlBatch } from './batch-crawler'
-import { fetchPage } from '@/lib/audit/fetcher'
-import { siteWideChecks, pageSpecificChecks } from './checks'
+import {
+  fetchPage,
+  extractCanonicalUrl,
+  extractHreflangLinks,
+  hasNoindexDirective,
+} from '@/lib/audit/fetcher'
+import { renderPage, closeRenderer } from '@/lib/audit/renderer'
+import { siteWideChecks, pageSpecificChecks, buildCustomCheck } from './checks'
 import { triggerAuditContinuation } from './trigger-continuation'
+import { evaluateRegressionAlerts } from './regression-alerts'
+import { syncAuditCheckTickets } from '@/lib/issue-trackers/tickets'
+import { verifyRemediationItems } from '@/lib/remediation/verify'
 import { notifyAuditContinuationFailure } from '@/lib/alerts/notify-audit-failure'
-import { UnifiedAuditStatus, CheckStatus, ScoreDimension } from '@/lib/enums'
-import type { AuditPage, AuditCheck, CheckContext, AuditCheckDefinition } from './types'
+import {
+  UnifiedAuditStatus,
+  CheckStatus,
+  CrawlDiscoverySource,
+  CrawlMode,
+  ScoreDimension,
+} from '@/lib/enums'
+import type {
+  AuditPage,
+  AuditCheck,
+  CheckContext,
+  AuditCheckDefinition,
+  CustomCheck,
+  HreflangLink,
+} from './types'
 import type {
   AuditModule,
   ModuleStatus,
@@ -15,7 +37,8 @@ import type {
   PostCrawlContext,
   PostCrawlResult,
 } from './types'
-import { DEFAULT_SCORE_WEIGHTS } from './types'
+import { DEFAULT_SCORE_WEIGHTS, type ScoreWeights } from './types'
+import { loadScoreWeights } from './score-weights'
 import { auditModules } from './modules/registry'
 
 // Budget for starting new batches: 800s max function timeout minus 300s buffer
@@ -34,20 +57,25 @@ const AUDIT_CHECK_SELECT = `id, audit_id, page_url, category, check_name, priori
   learn_more_url, details, feeds_scores, created_at` as '*'
 
 const AUDIT_PAGE_SELECT = `id, audit_id, url, title, meta_description, status_code,
-  last_modified, is_resource, resource_type, depth, created_at` as '*'
+  last_modified, is_resource, resource_type, depth, canonical_url, hreflang, is_noindex, created_at` as '*'
+
+const URL_SELECT = 'url' as '*'
 
 // =============================================================================
 // Partial Overall Score
 // =============================================================================
 
-function calculatePartialOverallScore(moduleResults: ModuleResult[]): number | null {
+function calculatePartialOverallScore(
+  moduleResults: ModuleResult[],
+  weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS
+): number | null {
   const completed = moduleResults.filter((r) => r.status === 'completed' && r.score !== null)
   if (completed.length === 0) return null
 
   const weightMap: Record<string, number> = {
-    [ScoreDimension.SEO]: DEFAULT_SCORE_WEIGHTS.seo,
-    [ScoreDimension.Performance]: DEFAULT_SCORE_WEIGHTS.performance,
-    [ScoreDimension.AIReadiness]: DEFAULT_SCORE_WEIGHTS.ai_readiness,
+    [ScoreDimension.SEO]: weights.seo,
+    [ScoreDimension.Performance]: weights.performance,
+    [ScoreDimension.AIReadiness]: weights.ai_readiness,
   }
 
   let totalWeight = 0
@@ -86,6 +114,10 @@ function isDismissed(dismissedChecks: DismissedCheck[], checkName: string, url:
   return dismissedChecks.some((d) => d.check_name === checkName && d.url === url)
 }
 
+function appliesToPage(check: AuditCheckDefinition, url: string): boolean {
+  return !check.appliesTo || check.appliesTo(url)
+}
+
 /**
  * Map AuditPage[] to the allPages format expected by CheckContext.
  */
@@ -96,6 +128,9 @@ function toCheckContextPages(pages: AuditPage[]): NonNullable<CheckContext['allP
     statusCode: p.status_code,
     metaDescription: p.meta_description,
     isResource: p.is_resource,
+    canonicalUrl: p.canonical_url ?? null,
+    hreflang: p.hreflang ?? null,
+    isNoindex: p.is_noindex ?? false,
   }))
 }
 
@@ -235,6 +270,21 @@ async function loadDismissedChecks(
   return (dismissed as DismissedCheck[]) ?? []
 }
 
+async function loadCustomChecks(
+  supabase: ReturnType<typeof createServiceClient>,
+  organizationId: string | null
+): Promise<AuditCheckDefinition[]> {
+  if (!organizationId) return []
+
+  const { data: customChecks } = await supabase
+    .from('custom_checks')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('is_active', true)
+
+  return ((customChecks as CustomCheck[]) ?? []).map(buildCustomCheck)
+}
+
 // =============================================================================
 // Core Runner (non-batched, for small sites)
 // =============================================================================
@@ -258,7 +308,11 @@ export async function runUnifiedAudit(auditId: string, url: string): Promise<voi
       throw new Error('Audit not found')
     }
 
-    const dismissedChecks = await loadDismissedChecks(supabase, audit.organization_id)
+    const [dismissedChecks, customChecks] = await Promise.all([
+      loadDismissedChecks(supabase, audit.organization_id),
+      loadCustomChecks(supabase, audit.organization_id),
+    ])
+    const pageChecks = [...pageSpecificChecks, ...customChecks]
 
     // Phase 1: Crawl
     await supabase
@@ -289,6 +343,11 @@ export async function runUnifiedAudit(auditId: string, url: string): Promise<voi
           is_resource: crawledPage.is_resource ?? false,
           resource_type: crawledPage.resource_type ?? null,
           depth: 0,
+          ...(!crawledPage.is_resource && {
+            canonical_url: extractCanonicalUrl(html, crawledPage.url),
+            hreflang: extractHreflangLinks(html, crawledPage.url),
+            is_noindex: hasNoindexDirective(html),
+          }),
           created_at: new Date().toISOString(),
         }
 
@@ -315,8 +374,9 @@ export async function runUnifiedAudit(auditId: string, url: string): Promise<voi
           allPages: toCheckContextPages(allPages),
         }
 
-        const checksToRun = pageSpecificChecks.filter(
-          (check) => !isDismissed(dismissedChecks, check.name, page.url)
+        const checksToRun = pageChecks.filter(
+          (check) =>
+            appliesToPage(check, page.url) && !isDismissed(dismissedChecks, check.name, page.url)
         )
 
         const checkPromises = checksToRun.map(async (check) => {
@@ -439,7 +499,7 @@ export async function runUnifiedAuditBatch(
     const { data: audit } = await supabase
       .from('audits')
       .select(
-        'id, organization_id, current_batch, max_pages, crawl_mode, sample_size, ai_analysis_enabled'
+        'id, organization_id, current_batch, max_pages, crawl_mode, seed_from_sitemap, sample_size, ai_analysis_enabled'
       )
       .eq('id', auditId)
       .single()
@@ -449,7 +509,10 @@ export async function runUnifiedAuditBatch(
     }
 
     let currentBatch = audit.current_batch || 0
-    const dismissedChecks = await loadDismissedChecks(supabase, audit.organization_id)
+    const [dismissedChecks, customChecks] = await Promise.all([
+      loadDismissedChecks(supabase, audit.organization_id),
+      loadCustomChecks(supabase, audit.organization_id),
+    ])
 
     // First batch: initialize queue
     if (currentBatch === 0) {
@@ -462,7 +525,7 @@ export async function runUnifiedAuditBatch(
         })
         .eq('id', auditId)
 
-      await initializeCrawlQueue(auditId, url)
+      await initializeCrawlQueue(auditId, url, { seedFromSitemap: audit.seed_from_sitemap })
       currentBatch = 1
     }
 
@@ -517,7 +580,11 @@ export async function runUnifiedAuditBatch(
 
       // Run the batch crawl — pass remaining time so batch doesn't overrun function budget
       const remainingMs = MAX_FUNCTION_DURATION_MS - (Date.now() - functionStartTime)
-      const result = await crawlBatch(auditId, { dismissedChecks, timeBudgetMs: remainingMs })
+      const result = await crawlBatch(auditId, {
+        dismissedChecks,
+        customChecks,
+        timeBudgetMs: remainingMs,
+      })
 
       console.error('[Unified Audit Batch]', {
         type: 'batch_complete',
@@ -559,8 +626,12 @@ export async function runUnifiedAuditBatch(
         currentBatch++
         continue
       } else {
-        // No more pages — finish
+        // No more pages — finish, notify on regressions for monitored sites,
+        // and follow up on tracker issues and remediation items marked fixed
         await finishUnifiedAudit(auditId, url, dismissedChecks, false)
+        await evaluateRegressionAlerts(auditId)
+        await syncAuditCheckTickets(auditId)
+        await verifyRemediationItems(auditId)
         return
       }
     }
@@ -590,6 +661,62 @@ export async function runUnifiedAuditBatch(
 // Site-wide Checks
 // =============================================================================
 
+/**
+ * Load sitemap URLs recorded at queue initialization and every URL discovered
+ * through an internal link (or the start URL), for the sitemap coverage check.
+ * Pending queue items mean the crawl stopped early (page cap, stop request).
+ */
+async function loadSitemapCoverage(
+  supabase: ReturnType<typeof createServiceClient>,
+  auditId: string
+): Promise<CheckContext['sitemapCoverage']> {
+  try {
+    const [sitemapRows, linkedRows, { count: pendingCount }] = await Promise.all([
+      paginateQuery<{ url: string }>(
+        (sb, range) =>
+          sb
+            .from('audit_sitemap_urls')
+            .select(URL_SELECT)
+            .eq('audit_id', auditId)
+            .order('url', { ascending: true })
+            .range(range.from, range.to),
+        supabase
+      ),
+      paginateQuery<{ url: string }>(
+        (sb, range) =>
+          sb
+            .from('audit_crawl_queue')
+            .select(URL_SELECT)
+            .eq('audit_id', auditId)
+            .in('discovered_via', [CrawlDiscoverySource.Seed, CrawlDiscoverySource.Link])
+            .order('url', { ascending: true })
+            .range(range.from, range.to),
+        supabase
+      ),
+      supabase
+        .from('audit_crawl_queue')
+        .select('*', { count: 'exact', head: true })
+        .eq('audit_id', auditId)
+        .eq('status', 'pending'),
+    ])
+
+    return {
+      sitemapUrls: sitemapRows.map((r) => r.url),
+      linkedUrls: linkedRows.map((r) => r.url),
+      // Audits crawled without the queue have no link data to judge orphans by
+      crawlComplete: linkedRows.length > 0 && pendingCount === 0,
+    }
+  } catch (error) {
+    console.error('[Unified Audit]', {
+      type: 'sitemap_coverage_load_failed',
+      auditId,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString(),
+    })
+    return undefined
+  }
+}
+
 async function runSiteWideChecks(
   auditId: string,
   url: string,
@@ -604,7 +731,7 @@ async function runSiteWideChecks(
   // Load resolved robots.txt rules from audit record for the skipped paths check
   const { data: auditRecord } = await supabase
     .from('audits')
-    .select('robots_txt_rules')
+    .select('robots_txt_rules, crawl_mode')
     .eq('id', auditId)
     .single()
 
@@ -615,15 +742,30 @@ async function runSiteWideChecks(
       return pageUrl.pathname === '/' || pageUrl.pathname === ''
     }) || allPages[0]
 
-  // Fetch homepage HTML fresh for site-wide checks
-  const { html: homepageHtml } = await fetchPage(homepage.url)
+  // Fetch homepage HTML fresh for site-wide checks (rendered in rendered crawl mode)
+  const { html: fetchedHtml } = await fetchPage(homepage.url)
+  let homepageHtml = fetchedHtml
+  let homepageRawHtml: string | undefined
+  if (auditRecord?.crawl_mode === CrawlMode.Rendered) {
+    const rendered = await renderPage(homepage.url)
+    await closeRenderer()
+    if (!rendered.error) {
+      homepageRawHtml = fetchedHtml
+      homepageHtml = rendered.html
+    }
+  }
+
+  const sitemapCoverage = await loadSitemapCoverage(supabase, auditId)
+
   const siteWideContext: CheckContext = {
     url: homepage.url,
     html: homepageHtml,
+    rawHtml: homepageRawHtml,
     title: homepage.title ?? undefined,
     statusCode: homepage.status_code ?? 200,
     allPages: toCheckContextPages(allPages),
     robotsTxtRules: auditRecord?.robots_txt_rules ?? undefined,
+    sitemapCoverage,
   }
 
   const baseUrl = new URL(url).origin
@@ -733,7 +875,9 @@ async function completeAuditScoring(
     moduleResults.find((r) => r.dimension === ScoreDimension.AIReadiness)?.score ?? null
 
   // Calculate overall score using partial weighting (handles failed modules gracefully)
-  const overallScore = calculatePartialOverallScore(moduleResults)
+  // with the organization's weight overrides, if any
+  const scoreWeights = await loadScoreWeights(supabase, organizationId)
+  const overallScore = calculatePartialOverallScore(moduleResults, scoreWeights)
 
   // Determine final audit status
   const failedModuleCount = moduleResults.filter((r) => r.status === 'failed').length
@@ -827,6 +971,9 @@ async function finishUnifiedAudit(
     is_resource: (p.is_resource as boolean) ?? false,
     resource_type: (p.resource_type as string | null) ?? null,
     depth: (p.depth as number) ?? 0,
+    canonical_url: (p.canonical_url as string | null) ?? null,
+    hreflang: (p.hreflang as HreflangLink[] | null) ?? null,
+    is_noindex: (p.is_noindex as boolean) ?? false,
     created_at: (p.created_at as string) ?? new Date().toISOString(),
   }))
 
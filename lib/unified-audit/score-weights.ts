@@ -0,0 +1,59 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { DEFAULT_SCORE_WEIGHTS, type ScoreWeights } from './types'
+
+const WEIGHT_KEYS: (keyof ScoreWeights)[] = ['seo', 'performance', 'ai_readiness']
+
+/**
+ * Validate an organization's score weight override.
+ * Weights are fractions of the overall score and must sum to 1.
+ * Returns an error message, or null when the weights are usable.
+ */
+export function validateScoreWeights(weights: ScoreWeights): string | null {
+  for (const key of WEIGHT_KEYS) {
+    const value = weights[key]
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+      return 'Each weight must be between 0% and 100%'
+    }
+  }
+
+  const total = WEIGHT_KEYS.reduce((sum, key) => sum + weights[key], 0)
+  if (Math.abs(total - 1) > 0.001) return 'Weights must add up to 100%'
+
+  return null
+}
+
+/**
+ * Resolve the stored organizations.score_weights value, falling back to
+ * DEFAULT_SCORE_WEIGHTS when unset or malformed.
+ */
+export function resolveScoreWeights(stored: unknown): ScoreWeights {
+  if (!stored || typeof stored !== 'object') return DEFAULT_SCORE_WEIGHTS
+
+  const candidate = stored as Record<string, unknown>
+  const weights = {
+    seo: candidate.seo,
+    performance: candidate.performance,
+    ai_readiness: candidate.ai_readiness,
+  } as ScoreWeights
+
+  return validateScoreWeights(weights) === null ? weights : DEFAULT_SCORE_WEIGHTS
+}
+
+/**
+ * Load the overall score weights for an organization.
+ * One-time audits (no organization) always use the defaults.
+ */
+export async function loadScoreWeights(
+  supabase: SupabaseClient,
+  organizationId: string | null
+): Promise<ScoreWeights> {
+  if (!organizationId) return DEFAULT_SCORE_WEIGHTS
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('score_weights')
+    .eq('id', organizationId)
+    .maybeSingle()
+
+  return resolveScoreWeights(org?.score_weights)
+}
@@ -68,9 +68,10 @@ export function calculateOverallScore(
   if (performance !== null) scores.push({ value: performance, weight: weights.performance })
   if (aiReadiness !== null) scores.push({ value: aiReadiness, weight: weights.ai_readiness })
 
-  if (scores.length === 0) return null
-
   const totalWeight = scores.reduce((sum, s) => sum + s.weight, 0)
+  // Custom weights may zero out every dimension that has a score
+  if (totalWeight === 0) return null
+
   const weightedSum = scores.reduce((sum, s) => sum + s.value * s.weight, 0)
 
   return Math.round(weightedSum / totalWeight)
@@ -0,0 +1,167 @@
+import * as cheerio from 'cheerio'
+import { gunzipSync } from 'zlib'
+
+const SITEMAP_FETCH_TIMEOUT_MS = 10000
+
+// Discovery runs before any crawling, so it gets a fixed share of the function's time
+const SITEMAP_DISCOVERY_BUDGET_MS = 30000
+
+// Sitemap protocol limits: 50,000 URLs and 50MB (uncompressed) per file; indexes can nest
+// but rarely go deeper than one level
+const MAX_SITEMAP_URLS = 50000
+const MAX_SITEMAP_FILES = 50
+const MAX_INDEX_DEPTH = 2
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024
+
+// Every urlset document is held in memory until parsed
+const MAX_TOTAL_SITEMAP_BYTES = 100 * 1024 * 1024
+
+export interface SitemapEntry {
+  url: string
+  lastmod: string | null
+}
+
+/**
+ * Candidate sitemap locations: every `Sitemap:` directive in robots.txt,
+ * falling back to /sitemap.xml at the site root.
+ */
+export function getSitemapCandidates(siteUrl: string, robotsTxt?: string | null): string[] {
+  const origin = new URL(siteUrl).origin
+  const declared = Array.from((robotsTxt ?? '').matchAll(/^Sitemap:\s*(\S+)\s*$/gim)).map((m) =>
+    m[1].trim()
+  )
+  return declared.length > 0 ? Array.from(new Set(declared)) : [`${origin}/sitemap.xml`]
+}
+
+/**
+ * Fetch every urlset document reachable from the site's sitemaps, following
+ * sitemap indexes and decompressing gzip sitemaps. Unreachable or oversized
+ * files are skipped, and discovery stops with what it has once `timeBudgetMs`
+ * runs out.
+ */
+export async function fetchSitemapDocuments(
+  siteUrl: string,
+  robotsTxt?: string | null,
+  timeBudgetMs: number = SITEMAP_DISCOVERY_BUDGET_MS
+): Promise<string[]> {
+  const deadline = Date.now() + timeBudgetMs
+  const documents: string[] = []
+  const visited = new Set<string>()
+  let totalBytes = 0
+  let queue = getSitemapCandidates(siteUrl, robotsTxt)
+
+  for (let depth = 0; depth <= MAX_INDEX_DEPTH && queue.length > 0; depth++) {
+    const next: string[] = []
+
+    for (const sitemapUrl of queue) {
+      if (visited.has(sitemapUrl) || visited.size >= MAX_SITEMAP_FILES) continue
+      const remainingMs = deadline - Date.now()
+      if (remainingMs <= 0 || totalBytes >= MAX_TOTAL_SITEMAP_BYTES) return documents
+      visited.add(sitemapUrl)
+
+      const xml = await fetchSitemapXml(sitemapUrl, Math.min(SITEMAP_FETCH_TIMEOUT_MS, remainingMs))
+      if (!xml) continue
+      totalBytes += xml.length
+
+      const $ = cheerio.load(xml, { xml: true })
+      if ($('sitemapindex').length > 0) {
+        $('sitemapindex > sitemap > loc').each((_, el) => {
+          const loc = $(el).text().trim()
+          if (loc) next.push(loc)
+        })
+      } else {
+        documents.push(xml)
+      }
+    }
+
+    queue = next
+  }
+
+  return documents
+}
+
+/**
+ * Parse `<url><loc>` entries from a urlset document.
+ */
+export function parseSitemapEntries(xml: string): SitemapEntry[] {
+  const $ = cheerio.load(xml, { xml: true })
+  const entries: SitemapEntry[] = []
+
+  $('urlset > url').each((_, el) => {
+    const loc = $(el).children('loc').first().text().trim()
+    if (!loc) return
+    const lastmod = $(el).children('lastmod').first().text().trim()
+    entries.push({ url: loc, lastmod: lastmod || null })
+  })
+
+  return entries
+}
+
+/**
+ * All unique page URLs listed in the site's sitemaps (capped at the protocol's 50,000 URLs).
+ */
+export async function fetchSitemapUrls(
+  siteUrl: string,
+  robotsTxt?: string | null,
+  timeBudgetMs?: number
+): Promise<SitemapEntry[]> {
+  const documents = await fetchSitemapDocuments(siteUrl, robotsTxt, timeBudgetMs)
+  const byUrl = new Map<string, SitemapEntry>()
+
+  for (const xml of documents) {
+    for (const entry of parseSitemapEntries(xml)) {
+      if (byUrl.size >= MAX_SITEMAP_URLS) break
+      if (!byUrl.has(entry.url)) byUrl.set(entry.url, entry)
+    }
+  }
+
+  return Array.from(byUrl.values())
+}
+
+/**
+ * Read a response body, giving up (null) once it passes `maxBytes` instead of
+ * buffering whatever the server sends.
+ */
+async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Buffer | null> {
+  if (Number(response.headers.get('content-length')) > maxBytes) return null
+  if (!response.body) return Buffer.alloc(0)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.length
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => {})
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Fetch a sitemap file as text, transparently gunzipping `.xml.gz` sitemaps
+ * (detected by the gzip magic bytes rather than the extension or content type).
+ * Files over the protocol's 50MB, compressed or not, are skipped.
+ */
+async function fetchSitemapXml(url: string, timeoutMs: number): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'SeloBot/1.0 (Site Audit; +https://selo.io/bot)' },
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+    if (!response.ok) return null
+
+    const buffer = await readBodyWithLimit(response, MAX_SITEMAP_BYTES)
+    if (!buffer) return null
+    const isGzip = buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b
+    // gunzipSync throws a RangeError past maxOutputLength, which skips the file
+    const xml = isGzip ? gunzipSync(buffer, { maxOutputLength: MAX_SITEMAP_BYTES }) : buffer
+    return xml.toString('utf-8')
+  } catch {
+    return null
+  }
+}
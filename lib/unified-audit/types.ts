@@ -1,14 +1,27 @@
 import {
+  AuditAlertRuleType,
   CheckCategory,
   CheckPriority,
   CheckStatus,
   CrawlMode,
+  CustomCheckRuleType,
   ScoreDimension,
   UnifiedAuditStatus,
 } from '@/lib/enums'
+import type { HreflangLink } from '@/lib/audit/fetcher'
 
 // Re-export enums for convenience
-export { CheckCategory, CheckPriority, CheckStatus, CrawlMode, ScoreDimension, UnifiedAuditStatus }
+export {
+  AuditAlertRuleType,
+  CheckCategory,
+  CheckPriority,
+  CheckStatus,
+  CrawlMode,
+  CustomCheckRuleType,
+  ScoreDimension,
+  UnifiedAuditStatus,
+}
+export type { HreflangLink }
 
 // =============================================================================
 // Database Row Types
@@ -31,6 +44,8 @@ export interface UnifiedAudit {
   // Crawl metadata
   pages_crawled: number
   crawl_mode: CrawlMode
+  /** Queue every sitemap URL at the start of the crawl, not just the start URL */
+  seed_from_sitemap: boolean
   max_pages: number
   soft_cap_reached: boolean
 
@@ -76,6 +91,16 @@ export interface AuditPage {
   is_resource: boolean
   resource_type: string | null
   depth: number
+  /** Absolute canonical URL declared by the page, if any */
+  canonical_url?: string | null
+  /** `<link rel="alternate" hreflang>` annotations declared by the page */
+  hreflang?: HreflangLink[] | null
+  /** Page carries a robots/googlebot noindex meta tag */
+  is_noindex?: boolean
+  /** Server HTML as fetched; stored in rendered crawl mode only */
+  raw_html?: string | null
+  /** DOM after JavaScript ran in headless Chromium; stored in rendered crawl mode only */
+  rendered_html?: string | null
   created_at: string
 }
 
@@ -127,6 +152,43 @@ export interface AuditAIAnalysis {
   created_at: string
 }
 
+export interface AuditAlertRule {
+  id: string
+  organization_id: string
+  monitored_site_id: string
+  rule_type: AuditAlertRuleType
+  /** Score dimension watched by score_drop rules */
+  dimension: ScoreDimension | 'overall' | null
+  /** Minimum drop in points that triggers a score_drop rule */
+  threshold: number | null
+  /** Email recipients; empty means all internal users */
+  recipients: string[]
+  is_active: boolean
+  last_triggered_audit_id: string | null
+  last_triggered_at: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export interface CustomCheck {
+  id: string
+  organization_id: string
+  display_name: string
+  description: string | null
+  rule_type: CustomCheckRuleType
+  /** CSS selector, regular expression, or JSON-LD @type depending on rule_type */
+  pattern: string
+  /** Path pattern limiting the pages checked (e.g. /products/*); null checks every page */
+  url_scope: string | null
+  priority: CheckPriority
+  feeds_score: ScoreDimension
+  fix_guidance: string | null
+  is_active: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
 // =============================================================================
 // Check System Types
 // =============================================================================
@@ -142,12 +204,17 @@ export interface AuditCheckDefinition {
   isSiteWide?: boolean
   fixGuidance?: string | null
   feedsScores: ScoreDimension[]
+  /** Limits a page-specific check to matching URLs; runs on every page when omitted */
+  appliesTo?: (url: string) => boolean
   run: (context: CheckContext) => Promise<CheckResult>
 }
 
 export interface CheckContext {
   url: string
+  /** Page HTML; the rendered DOM when the audit uses the rendered crawl mode */
   html: string
+  /** Server HTML before JavaScript ran; only set in rendered crawl mode */
+  rawHtml?: string
   title?: string
   statusCode?: number
   allPages?: {
@@ -156,7 +223,17 @@ export interface CheckContext {
     statusCode: number | null
     metaDescription?: string | null
     isResource?: boolean
+    canonicalUrl?: string | null
+    hreflang?: HreflangLink[] | null
+    isNoindex?: boolean
   }[]
+  /** Sitemap URLs and link-discovered URLs for the sitemap coverage check (site-wide only) */
+  sitemapCoverage?: {
+    sitemapUrls: string[]
+    linkedUrls: string[]
+    /** The crawl emptied its queue, so every link on the site was followed */
+    crawlComplete: boolean
+  }
   robotsTxt?: string
   /** Pre-resolved robots.txt rules for our bot (loaded from audits.robots_txt_rules) */
   robotsTxtRules?: { rules: { type: string; path: string }[]; crawlDelayMs: number | null }
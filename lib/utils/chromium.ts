@@ -0,0 +1,48 @@
+import { chromium, type Browser } from 'playwright-core'
+
+export interface SharedBrowser {
+  /** Launch the browser on first use, then reuse it */
+  get: () => Promise<Browser>
+  /** Close the browser so the Chromium process does not outlive the function invocation */
+  close: () => Promise<void>
+}
+
+/**
+ * A lazily launched local headless Chromium. Each caller keeps its own
+ * instance so closing one (e.g. after a PDF render) can't cut off another
+ * (e.g. a crawl batch) running in the same process.
+ * CHROMIUM_EXECUTABLE_PATH overrides the browser binary, e.g. for serverless Chromium builds.
+ */
+export function createSharedBrowser(): SharedBrowser {
+  let browserPromise: Promise<Browser> | null = null
+
+  return {
+    get() {
+      if (!browserPromise) {
+        browserPromise = chromium
+          .launch({
+            headless: true,
+            executablePath: process.env.CHROMIUM_EXECUTABLE_PATH || undefined,
+            args: ['--no-sandbox', '--disable-dev-shm-usage'],
+          })
+          .catch((error) => {
+            browserPromise = null
+            throw error
+          })
+      }
+      return browserPromise
+    },
+
+    async close() {
+      if (!browserPromise) return
+      const pending = browserPromise
+      browserPromise = null
+      try {
+        const browser = await pending
+        await browser.close()
+      } catch {
+        // Browser never launched or already closed
+      }
+    },
+  }
+}
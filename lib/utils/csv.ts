@@ -0,0 +1,60 @@
+/**
+ * Parse CSV text into rows of fields. Handles quoted fields containing
+ * commas, newlines and escaped quotes (""), and both \n and \r\n line endings.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      if (row.some((value) => value !== '')) rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  row.push(field)
+  if (row.some((value) => value !== '')) rows.push(row)
+
+  return rows
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Serialize rows to CSV, quoting only the fields that need it.
+ */
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows
+    .map((row) => row.map((value) => escapeCsvField(String(value ?? ''))).join(','))
+    .join('\n')
+}
@@ -0,0 +1,65 @@
+import { lookup } from 'dns/promises'
+import { isIP } from 'net'
+
+/**
+ * Whether an IP address is loopback, private, link-local (including cloud
+ * metadata endpoints), carrier-grade NAT, multicast or otherwise not a public
+ * internet address. IPv4-mapped IPv6 addresses are checked as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '')
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateAddress(mapped[1])
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number)
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    )
+  }
+
+  if (isIP(ip) === 6) {
+    return (
+      ip === '::' ||
+      ip === '::1' ||
+      /^f[cd]/.test(ip) || // unique local fc00::/7
+      /^fe[89ab]/.test(ip) || // link-local fe80::/10
+      ip.startsWith('ff') // multicast
+    )
+  }
+
+  return true
+}
+
+/**
+ * Whether a URL is http(s) and its host resolves only to public addresses, so
+ * server-side requests to it can't reach internal services. Check every
+ * redirect hop too, since a public URL can redirect inward.
+ */
+export async function isPublicHttpUrl(url: string): Promise<boolean> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return false
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  if (isIP(host)) return !isPrivateAddress(host)
+
+  try {
+    const addresses = await lookup(host, { all: true })
+    return addresses.length > 0 && addresses.every((a) => !isPrivateAddress(a.address))
+  } catch {
+    return false
+  }
+}
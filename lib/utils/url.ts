@@ -0,0 +1,15 @@
+/**
+ * Normalize a page URL so URLs from different sources (crawler, Search
+ * Console, Google Analytics) compare equal: host lowercased without "www.",
+ * no query string or fragment, and no trailing slash except on the root path.
+ */
+export function normalizePageUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '')
+    const path = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/+$/, '') : '/'
+    return `${host}${path}`
+  } catch {
+    return url.trim().toLowerCase()
+  }
+}
@@ -0,0 +1,93 @@
+import JSZip from 'jszip'
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+// Excel rejects longer cell text and sheet names
+const MAX_CELL_LENGTH = 32767
+const MAX_SHEET_NAME_LENGTH = 31
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+</Types>`
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+
+const WORKBOOK_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+</Relationships>`
+
+function escapeXml(value: string): string {
+  return (
+    value
+      // Control characters other than tab and newlines are not allowed in XML
+      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  )
+}
+
+/** Column letters for a zero-based index: 0 → A, 25 → Z, 26 → AA */
+export function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+function toCell(value: string | number | null | undefined, ref: string): string {
+  if (value === null || value === undefined || value === '') return ''
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`
+  }
+  const text = escapeXml(String(value).slice(0, MAX_CELL_LENGTH))
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`
+}
+
+/**
+ * Serialize rows to a single-sheet .xlsx workbook. Strings are written inline
+ * (no shared string table) and numbers as numeric cells; the first row is
+ * frozen so it can be used as a header.
+ */
+export async function toXlsx(
+  rows: Array<Array<string | number | null | undefined>>,
+  sheetName = 'Sheet1'
+): Promise<Buffer> {
+  const sheetRows = rows
+    .map((row, r) => {
+      const cells = row.map((value, c) => toCell(value, `${columnName(c)}${r + 1}`)).join('')
+      return `<row r="${r + 1}">${cells}</row>`
+    })
+    .join('')
+
+  const worksheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<sheetData>${sheetRows}</sheetData>
+</worksheet>`
+
+  const name = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, MAX_SHEET_NAME_LENGTH))
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`
+
+  const zip = new JSZip()
+  zip.file('[Content_Types].xml', CONTENT_TYPES_XML)
+  zip.file('_rels/.rels', ROOT_RELS_XML)
+  zip.file('xl/workbook.xml', workbook)
+  zip.file('xl/_rels/workbook.xml.rels', WORKBOOK_RELS_XML)
+  zip.file('xl/worksheets/sheet1.xml', worksheet)
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
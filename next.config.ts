@@ -1,6 +1,8 @@
 import type { NextConfig } from 'next'
 
 const nextConfig: NextConfig = {
+  // pptxgenjs probes for Node built-ins at runtime; bundling it breaks the detection
+  serverExternalPackages: ['pptxgenjs'],
   experimental: {
     optimizePackageImports: ['lucide-react'],
   },
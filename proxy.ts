@@ -19,6 +19,7 @@ const NON_ORG_PREFIXES = [
   '/api',
   '/s/',
   '/r/',
+  '/print/',
   '/_next',
   '/favicon',
 ]
@@ -0,0 +1,47 @@
+-- Regression alert rules for monitored sites
+--
+-- Each rule is evaluated when a weekly unified audit of the monitored site
+-- finishes, against the previous completed audit of the same domain.
+-- last_triggered_audit_id de-duplicates alerts so a re-run of the completion
+-- step never emails twice for the same audit.
+
+create table public.audit_alert_rules (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  monitored_site_id uuid not null references public.monitored_sites(id) on delete cascade,
+  rule_type text not null check (rule_type in ('score_drop', 'new_critical_failure')),
+  -- Score dimension for score_drop rules ('overall', 'seo', 'performance', 'ai_readiness')
+  dimension text check (dimension in ('overall', 'seo', 'performance', 'ai_readiness')),
+  -- Minimum drop in points for score_drop rules
+  threshold integer check (threshold is null or threshold > 0),
+  -- Empty means all internal users are notified
+  recipients text[] not null default '{}',
+  is_active boolean not null default true,
+  last_triggered_audit_id uuid references public.audits(id) on delete set null,
+  last_triggered_at timestamptz,
+  created_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  check (rule_type <> 'score_drop' or (dimension is not null and threshold is not null))
+);
+
+create index audit_alert_rules_site_idx on public.audit_alert_rules(monitored_site_id);
+create index audit_alert_rules_org_idx on public.audit_alert_rules(organization_id);
+
+alter table public.audit_alert_rules enable row level security;
+
+-- Same access model as monitored_sites: org members manage their own rules.
+-- Evaluation runs from the audit runner with the service client.
+create policy "Users can access their organization's audit alert rules"
+  on public.audit_alert_rules
+  for all
+  to authenticated
+  using (
+    organization_id in (select public.get_user_organization_ids())
+    or (select public.is_internal_user())
+  )
+  with check (
+    organization_id in (select public.get_user_organization_ids())
+    or (select public.is_internal_user())
+  );
+
+grant select, insert, update, delete on public.audit_alert_rules to authenticated;
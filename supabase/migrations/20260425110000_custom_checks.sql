@@ -0,0 +1,43 @@
+-- Org-defined audit checks
+--
+-- Declarative rules evaluated against each crawled page's HTML alongside the
+-- built-in unified audit checks. Results are stored in audit_checks with
+-- category 'custom' and check_name 'custom_<id>'.
+
+create table public.custom_checks (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  display_name text not null check (char_length(display_name) between 1 and 100),
+  description text,
+  rule_type text not null check (
+    rule_type in ('selector_present', 'selector_absent', 'regex_match', 'regex_no_match', 'json_ld_type')
+  ),
+  -- CSS selector, regular expression, or JSON-LD @type depending on rule_type
+  pattern text not null check (char_length(pattern) between 1 and 500),
+  -- Robots.txt-style path pattern (e.g. /products/*); null checks every page
+  url_scope text,
+  priority text not null default 'recommended' check (priority in ('critical', 'recommended', 'optional')),
+  feeds_score text not null default 'seo' check (feeds_score in ('seo', 'performance', 'ai_readiness')),
+  fix_guidance text,
+  is_active boolean not null default true,
+  created_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index custom_checks_org_idx on public.custom_checks(organization_id) where is_active;
+
+alter table public.custom_checks enable row level security;
+
+-- Org members can read their checks; writes go through server actions
+-- that enforce admin permissions. The audit runner uses the service client.
+create policy "Users can view their organization's custom checks"
+  on public.custom_checks
+  for select
+  to authenticated
+  using (
+    organization_id in (select public.get_user_organization_ids())
+    or (select public.is_internal_user())
+  );
+
+grant select on public.custom_checks to authenticated;
@@ -0,0 +1,12 @@
+-- Per-organization overall score weights
+--
+-- Overrides DEFAULT_SCORE_WEIGHTS for the unified audit overall score.
+-- Shape: { "seo": 0.4, "performance": 0.3, "ai_readiness": 0.3 } (fractions summing to 1).
+-- NULL means the organization uses the defaults.
+
+alter table public.organizations
+  add column score_weights jsonb
+  check (score_weights is null or jsonb_typeof(score_weights) = 'object');
+
+comment on column public.organizations.score_weights is
+  'Overall audit score weights per dimension (seo, performance, ai_readiness); NULL uses defaults';
@@ -0,0 +1,17 @@
+-- Rendered crawl mode
+--
+-- In rendered mode the crawler loads each page in headless Chromium so checks
+-- see the DOM after JavaScript runs. Both versions are kept so the raw vs.
+-- rendered comparison can be inspected later. NULL for standard/exhaustive crawls.
+
+alter table public.audit_pages
+  add column raw_html text,
+  add column rendered_html text;
+
+comment on column public.audit_pages.raw_html is
+  'Server HTML before JavaScript ran (rendered crawl mode only)';
+comment on column public.audit_pages.rendered_html is
+  'Serialized DOM after headless rendering (rendered crawl mode only)';
+
+comment on column public.audits.crawl_mode is
+  'standard (respect soft cap), exhaustive (crawl all discoverable pages) or rendered (standard limits, pages rendered in headless Chromium)';
@@ -0,0 +1,15 @@
+-- Hreflang and canonical data per crawled page
+--
+-- Captured during the crawl so site-wide international checks can verify
+-- return tags and hreflang targets without refetching every page.
+-- hreflang shape: [{ "hreflang": "en-GB", "href": "https://example.com/uk/" }, ...]
+
+alter table public.audit_pages
+  add column canonical_url text,
+  add column hreflang jsonb
+  check (hreflang is null or jsonb_typeof(hreflang) = 'array');
+
+comment on column public.audit_pages.canonical_url is
+  'Absolute canonical URL declared by the page';
+comment on column public.audit_pages.hreflang is
+  'rel="alternate" hreflang annotations declared in the page HTML';
@@ -0,0 +1,45 @@
+-- Sitemap-seeded crawling and sitemap coverage
+--
+-- audit_sitemap_urls records every same-site URL listed in the sitemap(s) at
+-- queue initialization. The sitemap_coverage check compares it against the
+-- crawl: orphans (listed but never linked), indexable pages missing from the
+-- sitemap, and sitemap entries that are non-200 or noindexed.
+
+alter table public.audits
+  add column seed_from_sitemap boolean not null default false;
+
+comment on column public.audits.seed_from_sitemap is
+  'Queue all sitemap URLs at the start of the crawl instead of relying on link discovery alone';
+
+alter table public.audit_crawl_queue
+  add column discovered_via text not null default 'link'
+  check (discovered_via in ('seed', 'link', 'sitemap'));
+
+comment on column public.audit_crawl_queue.discovered_via is
+  'seed (start URL), link (found on a crawled page) or sitemap (seeded from the sitemap and not yet found via a link)';
+
+alter table public.audit_pages
+  add column is_noindex boolean not null default false;
+
+create table public.audit_sitemap_urls (
+  id uuid primary key default gen_random_uuid(),
+  audit_id uuid not null references public.audits(id) on delete cascade,
+  url text not null,
+  lastmod text,
+  created_at timestamptz not null default now(),
+  unique (audit_id, url)
+);
+
+alter table public.audit_sitemap_urls enable row level security;
+
+-- Written by the crawler with the service client; readable wherever the audit is
+create policy "Users can view audit sitemap urls" on public.audit_sitemap_urls
+  for select to public
+  using (
+    audit_id in (
+      select a.id from public.audits a
+      where a.organization_id in (select public.get_user_organization_ids())
+        or (a.organization_id is null and a.created_by = (select auth.uid()))
+        or public.is_internal_user()
+    )
+  );
@@ -0,0 +1,7 @@
+-- Share of voice: per sync period, the fraction of prompt responses mentioning or
+-- citing the brand vs. each configured competitor, overall and per platform.
+ALTER TABLE ai_visibility_scores
+  ADD COLUMN share_of_voice jsonb;
+
+COMMENT ON COLUMN ai_visibility_scores.share_of_voice IS
+  'ShareOfVoice snapshot: {total_responses, entities[{name, is_brand, mentioned, cited, visible, share}], platforms{<platform>: {total_responses, entities}}}';
@@ -0,0 +1,20 @@
+-- Repeat sampling: LLM answers vary run to run, so each prompt can be queried
+-- several times per platform per sync and aggregated into probabilities.
+ALTER TABLE ai_visibility_configs
+  ADD COLUMN sample_count INTEGER NOT NULL DEFAULT 1
+    CHECK (sample_count BETWEEN 1 AND 5);
+
+ALTER TABLE ai_visibility_results
+  ADD COLUMN sample_index INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE ai_visibility_scores
+  ADD COLUMN score_lower INTEGER,
+  ADD COLUMN score_upper INTEGER,
+  ADD COLUMN mention_probability REAL,
+  ADD COLUMN citation_probability REAL,
+  ADD COLUMN sample_count INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN ai_visibility_scores.score_lower IS
+  'Lower bound of the 95% confidence interval around score (Wilson bounds on mention and citation rates)';
+COMMENT ON COLUMN ai_visibility_scores.score_upper IS
+  'Upper bound of the 95% confidence interval around score';
@@ -0,0 +1,18 @@
+-- Marketing reviews can cover a month or a custom date range, not just a quarter.
+-- The period key stays in the quarter column so existing reviews, the
+-- (organization_id, quarter) uniqueness and snapshot compare_qoq_* columns
+-- (now "previous period") keep working unchanged.
+ALTER TABLE public.marketing_reviews
+  ADD CONSTRAINT marketing_reviews_period_format CHECK (
+    quarter ~ '^\d{4}-Q[1-4]$'
+    OR quarter ~ '^\d{4}-(0[1-9]|1[0-2])$'
+    OR (
+      quarter ~ '^\d{4}-\d{2}-\d{2}\.\.\d{4}-\d{2}-\d{2}$'
+      AND split_part(quarter, '..', 1) <= split_part(quarter, '..', 2)
+    )
+  );
+
+COMMENT ON COLUMN public.marketing_reviews.quarter IS
+  'Review period key: quarter (2026-Q1), month (2026-03) or custom range (2026-01-15..2026-02-14)';
+COMMENT ON COLUMN public.marketing_review_snapshots.compare_qoq_start IS
+  'Start of the previous-period comparison window (previous quarter, month, or equal-length window)';
@@ -0,0 +1,135 @@
+-- Migration: Email distribution for published marketing reviews
+--
+-- Each review gets a distribution list of client recipients. A published
+-- snapshot can be emailed automatically on publish, at a scheduled time
+-- (picked up by the review-deliveries cron) or manually. Every attempt is
+-- recorded in marketing_review_deliveries, including recipients skipped
+-- because they are on email_suppressions.
+
+alter table public.marketing_reviews
+  add column send_on_publish boolean not null default false,
+  add column scheduled_send_at timestamptz;
+
+comment on column public.marketing_reviews.send_on_publish is
+  'Email the distribution list every time a new snapshot is published';
+comment on column public.marketing_reviews.scheduled_send_at is
+  'One-off send of the latest snapshot; cleared by the review-deliveries cron once sent';
+
+create index marketing_reviews_scheduled_send_idx
+  on public.marketing_reviews(scheduled_send_at)
+  where scheduled_send_at is not null;
+
+-- ============================================================
+-- Recipients
+-- ============================================================
+
+create table public.marketing_review_recipients (
+  id uuid primary key default gen_random_uuid(),
+  review_id uuid not null references public.marketing_reviews(id) on delete cascade,
+  email text not null,  -- stored lowercased
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (review_id, email)
+);
+
+create index marketing_review_recipients_review_idx
+  on public.marketing_review_recipients(review_id);
+
+alter table public.marketing_review_recipients enable row level security;
+
+create policy "Org members can view marketing review recipients"
+  on public.marketing_review_recipients
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from marketing_reviews mr
+      join team_members tm on tm.organization_id = mr.organization_id
+      where mr.id = marketing_review_recipients.review_id
+        and tm.user_id = (select auth.uid())
+    )
+    or exists (
+      select 1 from users u
+      where u.id = (select auth.uid())
+        and u.is_internal = true
+    )
+  );
+
+create policy "Org admins and internal users can insert marketing review recipients"
+  on public.marketing_review_recipients
+  for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from marketing_reviews mr
+      join team_members tm on tm.organization_id = mr.organization_id
+      where mr.id = marketing_review_recipients.review_id
+        and tm.user_id = (select auth.uid())
+        and tm.role = 'admin'
+    )
+    or exists (
+      select 1 from users u where u.id = (select auth.uid()) and u.is_internal = true
+    )
+  );
+
+create policy "Org admins and internal users can delete marketing review recipients"
+  on public.marketing_review_recipients
+  for delete
+  to authenticated
+  using (
+    exists (
+      select 1 from marketing_reviews mr
+      join team_members tm on tm.organization_id = mr.organization_id
+      where mr.id = marketing_review_recipients.review_id
+        and tm.user_id = (select auth.uid())
+        and tm.role = 'admin'
+    )
+    or exists (
+      select 1 from users u where u.id = (select auth.uid()) and u.is_internal = true
+    )
+  );
+
+grant select, insert, delete on public.marketing_review_recipients to authenticated;
+
+-- ============================================================
+-- Delivery log
+-- ============================================================
+
+create table public.marketing_review_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  review_id uuid not null references public.marketing_reviews(id) on delete cascade,
+  snapshot_id uuid not null references public.marketing_review_snapshots(id) on delete cascade,
+  recipient_email text not null,
+  trigger text not null check (trigger in ('publish', 'scheduled', 'manual')),
+  status text not null check (status in ('sent', 'failed', 'suppressed')),
+  shared_link_id uuid references public.shared_links(id) on delete set null,
+  message_id text,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index marketing_review_deliveries_review_idx
+  on public.marketing_review_deliveries(review_id, created_at desc);
+
+alter table public.marketing_review_deliveries enable row level security;
+
+create policy "Org members can view marketing review deliveries"
+  on public.marketing_review_deliveries
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from marketing_reviews mr
+      join team_members tm on tm.organization_id = mr.organization_id
+      where mr.id = marketing_review_deliveries.review_id
+        and tm.user_id = (select auth.uid())
+    )
+    or exists (
+      select 1 from users u
+      where u.id = (select auth.uid())
+        and u.is_internal = true
+    )
+  );
+
+-- No INSERT/UPDATE/DELETE policies: deliveries are written by the service client.
+grant select on public.marketing_review_deliveries to authenticated;
@@ -0,0 +1,95 @@
+-- Migration: Google Search Console integration
+--
+-- Site-level daily totals (clicks, impressions, CTR, position) go into
+-- campaign_metrics like every other platform. Per-page and per-query rows
+-- don't fit that shape, so they live in search_console_metrics, written by
+-- the daily-metrics-sync cron with the service role.
+
+alter type platform_type add value if not exists 'search_console';
+
+create table public.search_console_metrics (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  platform_connection_id uuid references public.platform_connections(id) on delete set null,
+  date date not null,
+  dimension text not null check (dimension in ('page', 'query')),
+  key text not null,  -- page URL or search query
+  clicks integer not null default 0,
+  impressions integer not null default 0,
+  ctr numeric not null default 0,       -- percentage, 0-100
+  position numeric not null default 0,  -- average ranking position
+  created_at timestamptz not null default now(),
+  unique (organization_id, date, dimension, key)
+);
+
+create index search_console_metrics_org_dimension_date_idx
+  on public.search_console_metrics(organization_id, dimension, date);
+
+alter table public.search_console_metrics enable row level security;
+
+create policy "Org members can view search console metrics"
+  on public.search_console_metrics
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from team_members tm
+      where tm.organization_id = search_console_metrics.organization_id
+        and tm.user_id = (select auth.uid())
+    )
+    or exists (
+      select 1 from users u
+      where u.id = (select auth.uid())
+        and u.is_internal = true
+    )
+  );
+
+-- ============================================================
+-- Aggregation
+-- ============================================================
+
+-- Top pages or queries for a date range. CTR is recomputed from the summed
+-- clicks and impressions, and position is impression-weighted, so rows from
+-- busy days count for more than rows from quiet ones.
+create or replace function public.search_console_top_rows(
+  org_id uuid,
+  row_dimension text,
+  start_date date,
+  end_date date,
+  max_rows integer default 10
+)
+returns table (
+  key text,
+  clicks bigint,
+  impressions bigint,
+  ctr numeric,
+  "position" numeric
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    m.key,
+    sum(m.clicks)::bigint as clicks,
+    sum(m.impressions)::bigint as impressions,
+    case when sum(m.impressions) > 0
+      then round(sum(m.clicks)::numeric * 100 / sum(m.impressions), 2)
+      else 0
+    end as ctr,
+    case when sum(m.impressions) > 0
+      then round(sum(m.position * m.impressions) / sum(m.impressions), 1)
+      else 0
+    end as "position"
+  from search_console_metrics m
+  where m.organization_id = org_id
+    and m.dimension = row_dimension
+    and m.date between start_date and end_date
+  group by m.key
+  order by sum(m.impressions) desc, sum(m.clicks) desc
+  limit greatest(max_rows, 1);
+$$;
+
+grant execute on function public.search_console_top_rows(uuid, text, date, date, integer)
+  to authenticated, service_role;
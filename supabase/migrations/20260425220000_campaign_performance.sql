@@ -0,0 +1,42 @@
+-- Migration: Campaign performance attribution
+--
+-- Google Analytics sessions, users and conversions for traffic tagged with a
+-- campaign's UTM parameters, over the campaign's date range. Users are
+-- distinct across the range and can't be summed from daily rows, so this
+-- stores one set of totals per campaign, refreshed by the
+-- daily-metrics-sync cron and on demand from the campaign page.
+
+create table public.campaign_performance (
+  campaign_id uuid primary key references public.campaigns(id) on delete cascade,
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  start_date date not null,
+  end_date date not null,
+  sessions integer not null default 0,
+  users integer not null default 0,
+  conversions integer not null default 0,
+  synced_at timestamptz not null default now()
+);
+
+create index campaign_performance_org_idx
+  on public.campaign_performance(organization_id);
+
+alter table public.campaign_performance enable row level security;
+
+-- Writes go through the service role after the caller's campaign
+-- permissions have been checked, so only a select policy is needed.
+create policy "Org members can view campaign performance"
+  on public.campaign_performance
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from team_members tm
+      where tm.organization_id = campaign_performance.organization_id
+        and tm.user_id = (select auth.uid())
+    )
+    or exists (
+      select 1 from users u
+      where u.id = (select auth.uid())
+        and u.is_internal = true
+    )
+  );
@@ -0,0 +1,57 @@
+-- Migration: Tracked links per campaign
+--
+-- A campaign's UTM fields are its defaults. Each tracked link points at its
+-- own destination and can override utm_source and utm_content, so one
+-- campaign can carry per-channel, per-post and per-creative links.
+
+create table public.campaign_links (
+  id uuid primary key default gen_random_uuid(),
+  campaign_id uuid not null references public.campaigns(id) on delete cascade,
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  name text not null,
+  destination_url text not null,
+  utm_source text,   -- overrides the campaign's utm_source when set
+  utm_content text,  -- overrides the campaign's utm_content when set
+  last_status_code integer,  -- 0 when the destination couldn't be reached
+  last_checked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (campaign_id, name)
+);
+
+create index campaign_links_campaign_idx on public.campaign_links(campaign_id);
+
+alter table public.campaign_links enable row level security;
+
+create policy "Users can view campaign links in their organization"
+  on public.campaign_links
+  for select
+  to authenticated
+  using (organization_id in (select public.get_user_organization_ids()));
+
+create policy "Admins and team members can insert campaign links"
+  on public.campaign_links
+  for insert
+  to authenticated
+  with check (
+    organization_id in (select public.get_user_organization_ids())
+    and (select public.get_user_role()) in ('admin', 'team_member')
+  );
+
+create policy "Admins and team members can update campaign links"
+  on public.campaign_links
+  for update
+  to authenticated
+  using (
+    organization_id in (select public.get_user_organization_ids())
+    and (select public.get_user_role()) in ('admin', 'team_member')
+  );
+
+create policy "Admins and team members can delete campaign links"
+  on public.campaign_links
+  for delete
+  to authenticated
+  using (
+    organization_id in (select public.get_user_organization_ids())
+    and (select public.get_user_role()) in ('admin', 'team_member')
+  );
@@ -0,0 +1,7 @@
+-- Record which AI billing model paid for each logged call.
+-- Bring-your-own-key calls run on the organization's key; everything else is platform-billed.
+ALTER TABLE usage_logs
+  ADD COLUMN billing_model ai_billing_model NOT NULL DEFAULT 'platform_billed';
+
+CREATE INDEX idx_usage_logs_billing_model_created
+  ON usage_logs (billing_model, created_at DESC);
@@ -0,0 +1,21 @@
+-- Full organization data exports, requested by internal users and recorded in
+-- organizations.data_export_history.
+
+-- Private bucket for export zips.
+-- Path pattern: {organization_id}/{export_id}.zip
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('organization-exports', 'organization-exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Exports are only downloadable by internal Selo users; the download route
+-- hands out short-lived signed URLs.
+CREATE POLICY "organization_exports_select_internal"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'organization-exports'
+    AND (SELECT public.is_internal_user())
+  );
+
+-- No INSERT/UPDATE/DELETE policies: writes happen via service client.
@@ -0,0 +1,65 @@
+-- Spreadsheet (CSV/XLSX) exports of unified audit checks and pages from share links.
+-- Off by default: the creator opts in per link.
+
+ALTER TABLE shared_links
+  ADD COLUMN allow_data_export boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN shared_links.allow_data_export IS 'Whether visitors may download the shared audit checks and pages as CSV/XLSX';
+
+-- ============================================================
+-- Return the export permission from validate_shared_link
+-- ============================================================
+
+-- The return type changes, so the function has to be dropped first.
+DROP FUNCTION IF EXISTS validate_shared_link(text);
+
+-- Validate a shared link token (check expiry, view limit, password requirement)
+CREATE FUNCTION validate_shared_link(share_token text)
+RETURNS TABLE (
+  resource_type text,
+  resource_id uuid,
+  is_valid boolean,
+  requires_password boolean,
+  allows_data_export boolean,
+  error_code text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link_record shared_links%ROWTYPE;
+BEGIN
+  SELECT * INTO link_record
+  FROM shared_links
+  WHERE token = share_token;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT NULL::text, NULL::uuid, false, false, false, 'not_found'::text;
+    RETURN;
+  END IF;
+
+  IF link_record.expires_at < now() THEN
+    RETURN QUERY SELECT link_record.resource_type, link_record.resource_id, false, false, false, 'expired'::text;
+    RETURN;
+  END IF;
+
+  IF link_record.view_count >= link_record.max_views THEN
+    RETURN QUERY SELECT link_record.resource_type, link_record.resource_id, false, false, false, 'view_limit_exceeded'::text;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT
+    link_record.resource_type,
+    link_record.resource_id,
+    true,
+    link_record.password_hash IS NOT NULL,
+    link_record.allow_data_export,
+    NULL::text;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION validate_shared_link(text) TO anon, authenticated;
+
+COMMENT ON FUNCTION validate_shared_link IS 'Validates a share token without incrementing view count (for checking password requirement)';
@@ -0,0 +1,79 @@
+-- Issue tracker integration for unified audit checks
+--
+-- Failed checks can be pushed to an organization's Jira, Linear or GitHub
+-- Issues project. Each pushed issue is recorded in audit_check_tickets so later
+-- audits of the same site can comment on and close it once the check passes.
+
+create table public.issue_tracker_configs (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null unique references public.organizations(id) on delete cascade,
+  tracker text not null check (tracker in ('jira', 'linear', 'github')),
+  -- Encrypted API token (and Jira account email)
+  credentials text not null,
+  -- Tracker-specific target: Jira site URL / project key / issue type,
+  -- Linear team ID, or GitHub owner / repo
+  settings jsonb not null default '{}'::jsonb,
+  -- Tracker priority (Jira, Linear) or label (GitHub) per check priority
+  priority_mapping jsonb not null default '{}'::jsonb,
+  labels text[] not null default '{}',
+  -- Close tickets automatically when a later audit finds the check passing
+  auto_close boolean not null default true,
+  created_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.issue_tracker_configs enable row level security;
+
+-- No client policies: credentials are only read and written with the service
+-- client, behind server actions that enforce admin permissions.
+
+create table public.audit_check_tickets (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  -- Tickets follow a site across audits, not a single audit
+  domain text not null,
+  tracker text not null check (tracker in ('jira', 'linear', 'github')),
+  grouping text not null check (grouping in ('check_type', 'page')),
+  -- Set for check_type grouping
+  check_name text,
+  -- Set for page grouping; null groups the site-wide checks
+  page_url text,
+  -- Checks covered by the ticket when it was created
+  check_names text[] not null default '{}',
+  external_id text not null,
+  external_key text not null,
+  external_url text,
+  -- 'resolved' once a later audit finds every covered check passing; the
+  -- tracker issue itself is only closed when the config has auto_close
+  status text not null default 'open' check (status in ('open', 'resolved')),
+  created_from_audit_id uuid references public.audits(id) on delete set null,
+  last_synced_audit_id uuid references public.audits(id) on delete set null,
+  created_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz
+);
+
+-- One open ticket per check (or page) per site
+create unique index audit_check_tickets_open_unique_idx
+  on public.audit_check_tickets (
+    organization_id, domain, tracker, grouping, coalesce(check_name, ''), coalesce(page_url, '')
+  )
+  where status = 'open';
+
+create index audit_check_tickets_org_domain_idx
+  on public.audit_check_tickets(organization_id, domain)
+  where status = 'open';
+
+alter table public.audit_check_tickets enable row level security;
+
+create policy "Users can view their organization's audit check tickets"
+  on public.audit_check_tickets
+  for select
+  to authenticated
+  using (
+    organization_id in (select public.get_user_organization_ids())
+    or (select public.is_internal_user())
+  );
+
+grant select on public.audit_check_tickets to authenticated;
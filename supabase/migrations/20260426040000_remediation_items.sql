@@ -0,0 +1,56 @@
+-- Remediation workflow for unified audit checks
+--
+-- A failed check on a page (check_name + url, keyed like dismissed_checks) can
+-- be assigned to a team member with a due date and moved through open,
+-- in_progress and fixed. When the next audit of the site finishes, fixed items
+-- are verified if the check now passes or reopened if it still fails.
+
+create table public.remediation_items (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  -- Site the item belongs to, so audits of other sites leave it alone
+  domain text not null,
+  check_name text not null,
+  -- Page URL, or the site origin for site-wide checks (as in dismissed_checks)
+  url text not null,
+  -- Copied from the check so the board doesn't need the audit
+  display_name text not null,
+  priority text not null check (priority in ('critical', 'recommended', 'optional')),
+  status text not null default 'open' check (status in ('open', 'in_progress', 'fixed', 'verified')),
+  assigned_to uuid references public.users(id) on delete set null,
+  due_date date,
+  -- Times a later audit found a fixed item still failing
+  reopen_count integer not null default 0,
+  created_from_audit_id uuid references public.audits(id) on delete set null,
+  last_checked_audit_id uuid references public.audits(id) on delete set null,
+  created_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  fixed_at timestamptz,
+  verified_at timestamptz,
+
+  -- One item per check per URL per org; verified items are reopened on reassignment
+  unique (organization_id, check_name, url)
+);
+
+create index remediation_items_org_status_idx
+  on public.remediation_items(organization_id, status);
+
+create index remediation_items_fixed_idx
+  on public.remediation_items(organization_id, domain)
+  where status = 'fixed';
+
+alter table public.remediation_items enable row level security;
+
+-- Org members can read their items; writes go through server actions that
+-- check membership. The audit runner uses the service client.
+create policy "Users can view their organization's remediation items"
+  on public.remediation_items
+  for select
+  to authenticated
+  using (
+    organization_id in (select public.get_user_organization_ids())
+    or (select public.is_internal_user())
+  );
+
+grant select on public.remediation_items to authenticated;
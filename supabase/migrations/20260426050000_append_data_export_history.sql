@@ -0,0 +1,20 @@
+-- Append one run to organizations.data_export_history in a single UPDATE, so
+-- concurrent exports for the same organization can't overwrite each other's
+-- records (a read-then-write from the app loses whichever finished first).
+
+CREATE OR REPLACE FUNCTION public.append_data_export_history(
+  p_organization_id uuid,
+  p_record jsonb
+)
+  RETURNS void
+  LANGUAGE sql
+  SET search_path TO ''
+AS $$
+  UPDATE public.organizations
+  SET data_export_history = COALESCE(data_export_history, '[]'::jsonb) || jsonb_build_array(p_record)
+  WHERE id = p_organization_id;
+$$;
+
+-- Exports run via the service client only
+REVOKE EXECUTE ON FUNCTION public.append_data_export_history(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.append_data_export_history(uuid, jsonb) TO service_role;
@@ -0,0 +1,66 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+// Local HTTP stand-in for third-party APIs. Tests point a client at
+// `stub.url`, answer each request from the handler and assert on the
+// recorded requests — exercising real fetch calls, headers and bodies
+// instead of mocking fetch. Test files using it need
+// `// @vitest-environment node`: happy-dom's fetch enforces CORS.
+
+export interface RecordedRequest {
+  method: string
+  path: string
+  headers: IncomingMessage['headers']
+  /** Parsed JSON body, or null when empty */
+  body: unknown
+}
+
+export interface StubReply {
+  status?: number
+  /** Serialized as JSON; omit for an empty body */
+  body?: unknown
+}
+
+export interface HttpStub {
+  url: string
+  requests: RecordedRequest[]
+  close: () => Promise<void>
+}
+
+export async function startHttpStub(
+  handler: (request: RecordedRequest) => StubReply | Promise<StubReply>
+): Promise<HttpStub> {
+  const requests: RecordedRequest[] = []
+
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) chunks.push(chunk as Buffer)
+    const raw = Buffer.concat(chunks).toString('utf8')
+
+    const request: RecordedRequest = {
+      method: req.method ?? 'GET',
+      path: req.url ?? '/',
+      headers: req.headers,
+      body: raw ? JSON.parse(raw) : null,
+    }
+    requests.push(request)
+
+    const reply = await handler(request)
+    res.statusCode = reply.status ?? 200
+    if (reply.body === undefined) {
+      res.end()
+      return
+    }
+    res.setHeader('Content-Type', 'application/json')
+    res.end(JSON.stringify(reply.body))
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
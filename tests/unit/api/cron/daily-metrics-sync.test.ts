@@ -5,7 +5,11 @@ const mocks = vi.hoisted(() => ({
   syncMetricsForLinkedInConnection: vi.fn(async () => {}),
   syncLinkedInPosts: vi.fn(async () => {}),
   syncMetricsForGoogleAnalyticsConnection: vi.fn(async () => {}),
+  syncCampaignPerformanceForConnection: vi.fn(async () => {}),
   syncMetricsForHubSpotConnection: vi.fn(async () => {}),
+  syncMetricsForMetaConnection: vi.fn(async () => {}),
+  syncMetricsForInstagramConnection: vi.fn(async () => {}),
+  syncMetricsForSearchConsoleConnection: vi.fn(async () => {}),
   createServiceClient: vi.fn(),
 }))
 
@@ -18,10 +22,26 @@ vi.mock('@/lib/platforms/google-analytics/actions', () => ({
   syncMetricsForGoogleAnalyticsConnection: mocks.syncMetricsForGoogleAnalyticsConnection,
 }))
 
+vi.mock('@/lib/platforms/google-analytics/campaign-performance', () => ({
+  syncCampaignPerformanceForConnection: mocks.syncCampaignPerformanceForConnection,
+}))
+
 vi.mock('@/lib/platforms/hubspot/actions', () => ({
   syncMetricsForHubSpotConnection: mocks.syncMetricsForHubSpotConnection,
 }))
 
+vi.mock('@/lib/platforms/meta/actions', () => ({
+  syncMetricsForMetaConnection: mocks.syncMetricsForMetaConnection,
+}))
+
+vi.mock('@/lib/platforms/instagram/actions', () => ({
+  syncMetricsForInstagramConnection: mocks.syncMetricsForInstagramConnection,
+}))
+
+vi.mock('@/lib/platforms/search-console/actions', () => ({
+  syncMetricsForSearchConsoleConnection: mocks.syncMetricsForSearchConsoleConnection,
+}))
+
 vi.mock('@/lib/supabase/server', () => ({
   createServiceClient: () => mocks.createServiceClient(),
 }))
@@ -29,7 +49,13 @@ vi.mock('@/lib/supabase/server', () => ({
 interface FakeConnection {
   id: string
   organization_id: string
-  platform_type: 'linkedin' | 'google_analytics' | 'hubspot'
+  platform_type:
+    | 'linkedin'
+    | 'google_analytics'
+    | 'hubspot'
+    | 'meta'
+    | 'instagram'
+    | 'search_console'
   credentials: Record<string, unknown>
   status: 'active'
 }
@@ -111,6 +137,30 @@ const gaConnection: FakeConnection = {
   status: 'active',
 }
 
+const metaConnection: FakeConnection = {
+  id: 'conn-meta-1',
+  organization_id: 'org-1',
+  platform_type: 'meta',
+  credentials: { access_token: 'meta' },
+  status: 'active',
+}
+
+const instagramConnection: FakeConnection = {
+  id: 'conn-instagram-1',
+  organization_id: 'org-1',
+  platform_type: 'instagram',
+  credentials: { access_token: 'ig' },
+  status: 'active',
+}
+
+const searchConsoleConnection: FakeConnection = {
+  id: 'conn-gsc-1',
+  organization_id: 'org-1',
+  platform_type: 'search_console',
+  credentials: { access_token: 'gsc' },
+  status: 'active',
+}
+
 describe('POST /api/cron/daily-metrics-sync', () => {
   beforeAll(() => {
     process.env.CRON_SECRET = 'test-secret'
@@ -167,6 +217,66 @@ describe('POST /api/cron/daily-metrics-sync', () => {
     expect(mocks.syncLinkedInPosts).not.toHaveBeenCalled()
   })
 
+  test('syncs Meta and Instagram connections', async () => {
+    const supabase = makeFakeSupabase([metaConnection, instagramConnection])
+    mocks.createServiceClient.mockReturnValueOnce(supabase)
+
+    const { POST } = await import('@/app/api/cron/daily-metrics-sync/route')
+    const res = await POST(makeRequest())
+    const body = (await res.json()) as { synced: number }
+
+    expect(res.status).toBe(200)
+    expect(body.synced).toBe(2)
+    expect(mocks.syncMetricsForMetaConnection).toHaveBeenCalledWith(
+      metaConnection.id,
+      metaConnection.organization_id,
+      metaConnection.credentials,
+      supabase,
+      undefined
+    )
+    expect(mocks.syncMetricsForInstagramConnection).toHaveBeenCalledTimes(1)
+  })
+
+  test('syncs Search Console connections for each backfill date', async () => {
+    const supabase = makeFakeSupabase([searchConsoleConnection])
+    mocks.createServiceClient.mockReturnValueOnce(supabase)
+
+    const { POST } = await import('@/app/api/cron/daily-metrics-sync/route')
+    const res = await POST(makeRequest({ startDate: '2026-01-01', endDate: '2026-01-02' }))
+
+    expect(res.status).toBe(200)
+    expect(mocks.syncMetricsForSearchConsoleConnection).toHaveBeenCalledTimes(2)
+    expect(mocks.syncMetricsForSearchConsoleConnection).toHaveBeenCalledWith(
+      searchConsoleConnection.id,
+      searchConsoleConnection.organization_id,
+      searchConsoleConnection.credentials,
+      supabase,
+      expect.any(Date)
+    )
+  })
+
+  test('refreshes campaign attribution for Google Analytics connections outside backfills', async () => {
+    const supabase = makeFakeSupabase([gaConnection])
+    mocks.createServiceClient.mockReturnValueOnce(supabase)
+
+    const { POST } = await import('@/app/api/cron/daily-metrics-sync/route')
+    await POST(makeRequest())
+
+    expect(mocks.syncCampaignPerformanceForConnection).toHaveBeenCalledWith(
+      gaConnection.id,
+      gaConnection.organization_id,
+      gaConnection.credentials,
+      supabase
+    )
+
+    const backfillSupabase = makeFakeSupabase([gaConnection])
+    mocks.createServiceClient.mockReturnValueOnce(backfillSupabase)
+    mocks.syncCampaignPerformanceForConnection.mockClear()
+
+    await POST(makeRequest({ startDate: '2026-01-01', endDate: '2026-01-02' }))
+    expect(mocks.syncCampaignPerformanceForConnection).not.toHaveBeenCalled()
+  })
+
   test('swallows syncLinkedInPosts errors without failing the whole cron run', async () => {
     const supabase = makeFakeSupabase([linkedinConnection])
     mocks.createServiceClient.mockReturnValueOnce(supabase)
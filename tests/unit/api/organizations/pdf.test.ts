@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/auth/cached', () => ({
+  getAuthUser: vi.fn(),
+  getUserRecord: vi.fn(),
+}))
+
+vi.mock('@/lib/pdf/exports', () => ({
+  getResourcePdf: vi.fn(),
+  PDF_CONTENT_TYPE: 'application/pdf',
+}))
+
+import { GET } from '@/app/api/organizations/[id]/pdf/[resourceType]/[resourceId]/route'
+import { getAuthUser, getUserRecord } from '@/lib/auth/cached'
+import { getResourcePdf } from '@/lib/pdf/exports'
+import { SharedResourceType } from '@/lib/enums'
+
+function download(resourceType: string, resourceId = 'audit-1', organizationId = 'org-1') {
+  return GET(new Request('https://app.example.com/api/organizations/org-1/pdf'), {
+    params: Promise.resolve({ id: organizationId, resourceType, resourceId }),
+  })
+}
+
+describe('GET /api/organizations/[id]/pdf/[resourceType]/[resourceId]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getAuthUser).mockResolvedValue({ id: 'user-1' } as never)
+    vi.mocked(getUserRecord).mockResolvedValue({
+      id: 'user-1',
+      is_internal: false,
+      memberships: [{ organization_id: 'org-1', role: 'team_member' }],
+    } as never)
+    vi.mocked(getResourcePdf).mockResolvedValue({
+      path: 'org-1/unified_audit/audit-1.pdf',
+      filename: 'acme-com-audit.pdf',
+      content: Buffer.from('%PDF'),
+    })
+  })
+
+  it("downloads a PDF of the organization's resource", async () => {
+    const response = await download(SharedResourceType.UnifiedAudit)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Disposition')).toBe(
+      'attachment; filename="acme-com-audit.pdf"'
+    )
+    expect(getResourcePdf).toHaveBeenCalledWith(SharedResourceType.UnifiedAudit, 'audit-1', {
+      organizationId: 'org-1',
+    })
+  })
+
+  it('returns 404 when the resource belongs to another organization', async () => {
+    vi.mocked(getResourcePdf).mockResolvedValue(null)
+
+    const response = await download(SharedResourceType.UnifiedAudit, 'other-org-audit')
+
+    expect(response.status).toBe(404)
+  })
+
+  it('refuses users outside the organization', async () => {
+    const response = await download(SharedResourceType.UnifiedAudit, 'audit-2', 'org-2')
+
+    expect(response.status).toBe(404)
+    expect(getResourcePdf).not.toHaveBeenCalled()
+  })
+
+  it('requires a signed-in user', async () => {
+    vi.mocked(getAuthUser).mockResolvedValue(null)
+
+    const response = await download(SharedResourceType.Report)
+
+    expect(response.status).toBe(401)
+    expect(getResourcePdf).not.toHaveBeenCalled()
+  })
+
+  it('rejects resource types without a PDF', async () => {
+    const response = await download('campaign')
+
+    expect(response.status).toBe(400)
+  })
+})
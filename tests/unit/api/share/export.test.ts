@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: vi.fn(),
+}))
+
+vi.mock('@/lib/unified-audit/export', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/unified-audit/export')>()),
+  buildAuditExport: vi.fn(),
+}))
+
+import { POST } from '@/app/api/share/[token]/export/route'
+import { createDownloadGrant } from '@/lib/share/download-grant'
+import { buildAuditExport } from '@/lib/unified-audit/export'
+import { createServiceClient } from '@/lib/supabase/server'
+import { makeChain } from '@/tests/helpers/supabase-mocks'
+import { AuditExportDataset, AuditExportFormat, SharedResourceType } from '@/lib/enums'
+
+function mockLink(allowDataExport: boolean) {
+  vi.mocked(createServiceClient).mockReturnValue({
+    from: vi.fn((table: string) =>
+      table === 'shared_links'
+        ? makeChain({
+            // The page view that issued the grant used the link's last view
+            maybeSingle: vi.fn(async () => ({
+              data: {
+                resource_type: SharedResourceType.UnifiedAudit,
+                resource_id: 'audit-1',
+                expires_at: new Date(Date.now() + 60_000).toISOString(),
+                allow_data_export: allowDataExport,
+                view_count: 1,
+                max_views: 1,
+              },
+              error: null,
+            })),
+          })
+        : makeChain({
+            single: vi.fn(async () => ({
+              data: { id: 'audit-1', domain: 'acme.com', created_at: '2026-04-01T00:00:00Z' },
+              error: null,
+            })),
+          })
+    ),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } as any)
+}
+
+function exportData(body: Record<string, unknown>) {
+  return POST(
+    new Request('https://app.example.com/api/share/share-a/export', {
+      method: 'POST',
+      body: JSON.stringify({
+        dataset: AuditExportDataset.Checks,
+        format: AuditExportFormat.CSV,
+        ...body,
+      }),
+    }),
+    { params: Promise.resolve({ token: 'share-a' }) }
+  )
+}
+
+describe('POST /api/share/[token]/export', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('SHARE_DOWNLOAD_SECRET', 'test-secret')
+    vi.mocked(buildAuditExport).mockResolvedValue({
+      filename: 'acme-com-audit-checks.csv',
+      contentType: 'text/csv',
+      content: Buffer.from('check_name\n'),
+    })
+  })
+
+  it('exports for the visitor who used the last view', async () => {
+    mockLink(true)
+
+    const response = await exportData({ grant: createDownloadGrant('share-a') })
+
+    expect(response.status).toBe(200)
+    expect(buildAuditExport).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ id: 'audit-1' }),
+      AuditExportDataset.Checks,
+      AuditExportFormat.CSV
+    )
+  })
+
+  it('refuses direct exports that did not open the page', async () => {
+    mockLink(true)
+
+    const response = await exportData({ password: 'secret' })
+
+    expect(response.status).toBe(403)
+    expect(buildAuditExport).not.toHaveBeenCalled()
+  })
+
+  it('refuses links without data export', async () => {
+    mockLink(false)
+
+    const response = await exportData({ grant: createDownloadGrant('share-a') })
+
+    expect(response.status).toBe(403)
+    expect(buildAuditExport).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: vi.fn(),
+}))
+
+vi.mock('@/lib/pdf/exports', () => ({
+  getResourcePdf: vi.fn(),
+  PDF_CONTENT_TYPE: 'application/pdf',
+}))
+
+import { POST } from '@/app/api/share/[token]/pdf/route'
+import { createDownloadGrant } from '@/lib/share/download-grant'
+import { getResourcePdf } from '@/lib/pdf/exports'
+import { createServiceClient } from '@/lib/supabase/server'
+import { makeChain } from '@/tests/helpers/supabase-mocks'
+import { SharedResourceType } from '@/lib/enums'
+
+function download(body: Record<string, unknown>) {
+  return POST(
+    new Request('https://app.example.com/api/share/share-a/pdf', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ token: 'share-a' }) }
+  )
+}
+
+describe('POST /api/share/[token]/pdf', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('SHARE_DOWNLOAD_SECRET', 'test-secret')
+    vi.mocked(createServiceClient).mockReturnValue({
+      from: vi.fn(() =>
+        makeChain({
+          // The page view that issued the grant used the link's last view
+          maybeSingle: vi.fn(async () => ({
+            data: {
+              resource_type: SharedResourceType.MarketingReview,
+              resource_id: 'snap-1',
+              expires_at: new Date(Date.now() + 60_000).toISOString(),
+              view_count: 1,
+              max_views: 1,
+            },
+            error: null,
+          })),
+        })
+      ),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any)
+    vi.mocked(getResourcePdf).mockResolvedValue({
+      path: 'org-1/marketing_review/snap-1.pdf',
+      filename: 'review.pdf',
+      content: Buffer.from('pdf'),
+    })
+  })
+
+  it('serves the PDF to the visitor who used the last view', async () => {
+    const response = await download({ grant: createDownloadGrant('share-a') })
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="review.pdf"')
+    expect(getResourcePdf).toHaveBeenCalledWith(SharedResourceType.MarketingReview, 'snap-1')
+  })
+
+  it('refuses direct downloads that did not open the page', async () => {
+    const withoutGrant = await download({ password: 'secret' })
+    const otherLinkGrant = await download({ grant: createDownloadGrant('share-b') })
+
+    expect(withoutGrant.status).toBe(403)
+    expect(otherLinkGrant.status).toBe(403)
+    expect(getResourcePdf).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const ctx = vi.hoisted(() => ({ supabase: null as unknown }))
+const afterCallbacks = vi.hoisted(() => [] as Array<() => Promise<void>>)
+
+vi.mock('@/lib/actions/with-auth', () => ({
+  withCampaignAuth: vi.fn((handler: (c: unknown) => unknown) => handler(ctx)),
+}))
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: vi.fn(() => ctx.supabase),
+}))
+
+vi.mock('@/lib/platforms/google-analytics/campaign-performance', () => ({
+  ATTRIBUTABLE_CAMPAIGN_COLUMNS: '',
+  getCampaignDateRange: vi.fn(),
+  syncCampaignPerformance: vi.fn(),
+}))
+
+vi.mock('@/lib/utils/public-url', () => ({
+  isPublicHttpUrl: vi.fn(async (url: string) => !new URL(url).hostname.startsWith('169.254.')),
+}))
+
+vi.mock('next/cache', () => ({ revalidatePath: vi.fn() }))
+
+vi.mock('next/server', () => ({
+  after: (callback: () => Promise<void>) => {
+    afterCallbacks.push(callback)
+  },
+}))
+
+import {
+  checkTrackedLinks,
+  importTrackedLinks,
+} from '@/app/(authenticated)/[orgId]/dashboard/campaigns/actions'
+import { makeChain } from '@/tests/helpers/supabase-mocks'
+
+const fetchMock = vi.fn()
+
+function mockLinks(links: { id: string; destination_url: string }[]) {
+  const update = vi.fn(() => makeChain())
+  const upsert = vi.fn(() =>
+    makeChain({ select: vi.fn(async () => ({ data: links, error: null })) })
+  )
+  ctx.supabase = {
+    from: vi.fn((table: string) =>
+      table === 'campaigns'
+        ? makeChain({
+            single: vi.fn(async () => ({
+              data: { id: 'campaign-1', organization_id: 'org-1' },
+              error: null,
+            })),
+          })
+        : makeChain({
+            eq: vi.fn(async () => ({ data: links, error: null })),
+            update,
+            upsert,
+          })
+    ),
+  }
+  return { update, upsert }
+}
+
+function redirectTo(location: string) {
+  return new Response(null, { status: 301, headers: { location } })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  afterCallbacks.length = 0
+  vi.stubGlobal('fetch', fetchMock)
+})
+
+describe('checkTrackedLinks', () => {
+  it('follows redirects between public hosts', async () => {
+    const { update } = mockLinks([{ id: 'link-1', destination_url: 'https://example.com/a' }])
+    fetchMock
+      .mockResolvedValueOnce(redirectTo('/b'))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }))
+
+    const result = await checkTrackedLinks('campaign-1')
+
+    expect(result).toEqual({ success: true, checked: 1, broken: 0 })
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      'https://example.com/b',
+      expect.objectContaining({ redirect: 'manual' })
+    )
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ last_status_code: 200 }))
+  })
+
+  it('stops at a redirect to a link-local host without requesting it', async () => {
+    const { update } = mockLinks([{ id: 'link-1', destination_url: 'https://example.com/a' }])
+    fetchMock.mockResolvedValueOnce(redirectTo('http://169.254.169.254/latest/meta-data'))
+
+    const result = await checkTrackedLinks('campaign-1')
+
+    expect(result).toEqual({ success: true, checked: 1, broken: 1 })
+    expect(fetchMock).toHaveBeenCalledOnce()
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ last_status_code: 0 }))
+  })
+})
+
+describe('importTrackedLinks', () => {
+  it('checks imported destinations after responding', async () => {
+    const { update, upsert } = mockLinks([
+      { id: 'link-1', destination_url: 'http://169.254.169.254/' },
+    ])
+
+    const result = await importTrackedLinks(
+      'campaign-1',
+      'name,destination_url,utm_source,utm_content\nMeta,http://169.254.169.254/,,'
+    )
+
+    expect(result).toEqual({ success: true, imported: 1 })
+    expect(upsert).toHaveBeenCalledWith(
+      [expect.objectContaining({ last_status_code: null, last_checked_at: null })],
+      { onConflict: 'campaign_id,name' }
+    )
+
+    await Promise.all(afterCallbacks.map((callback) => callback()))
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ last_status_code: 0 }))
+  })
+})
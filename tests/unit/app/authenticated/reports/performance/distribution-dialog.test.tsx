@@ -0,0 +1,118 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { DistributionDialog } from '@/app/(authenticated)/[orgId]/reports/performance/[id]/distribution-dialog'
+import { ReviewDeliveryStatus } from '@/lib/enums'
+
+const routerRefresh = vi.fn()
+const updateReviewDistribution = vi.fn()
+const sendLatestSnapshot = vi.fn()
+const showSuccess = vi.fn()
+const showError = vi.fn()
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: vi.fn(), refresh: routerRefresh, back: vi.fn() }),
+}))
+
+vi.mock('@/lib/reviews/actions', () => ({
+  updateReviewDistribution: (...args: unknown[]) => updateReviewDistribution(...args),
+  sendLatestSnapshot: (...args: unknown[]) => sendLatestSnapshot(...args),
+}))
+
+vi.mock('@/components/ui/sonner', () => ({
+  showSuccess: (...args: unknown[]) => showSuccess(...args),
+  showError: (...args: unknown[]) => showError(...args),
+}))
+
+const REVIEW_ID = '22222222-2222-2222-2222-222222222222'
+
+const baseProps = {
+  reviewId: REVIEW_ID,
+  recipients: ['client@example.com'],
+  sendOnPublish: false,
+  scheduledSendAt: null,
+  hasPublishedSnapshot: true,
+  recentDeliveries: [
+    {
+      id: 'd-1',
+      recipient_email: 'client@example.com',
+      status: ReviewDeliveryStatus.Suppressed,
+      created_at: '2026-04-02T10:00:00Z',
+    },
+  ],
+}
+
+function openDialog() {
+  fireEvent.click(screen.getByTestId('performance-reports-editor-distribution-button'))
+}
+
+describe('DistributionDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  test('lists recent deliveries with their status', () => {
+    render(<DistributionDialog {...baseProps} />)
+    openDialog()
+
+    const deliveries = screen.getByTestId('performance-reports-recent-deliveries')
+    expect(deliveries).toHaveTextContent('client@example.com')
+    expect(deliveries).toHaveTextContent('suppressed')
+  })
+
+  test('saves recipients and the send-on-publish flag', async () => {
+    updateReviewDistribution.mockResolvedValueOnce({ success: true })
+    render(<DistributionDialog {...baseProps} />)
+    openDialog()
+
+    fireEvent.change(screen.getByLabelText('Recipients'), {
+      target: { value: 'client@example.com\nboss@example.com' },
+    })
+    fireEvent.click(screen.getByLabelText('Send automatically when a new version is published'))
+    fireEvent.click(screen.getByTestId('performance-reports-distribution-save-button'))
+
+    await waitFor(() => {
+      expect(updateReviewDistribution).toHaveBeenCalledWith(REVIEW_ID, {
+        recipients: 'client@example.com\nboss@example.com',
+        sendOnPublish: true,
+        scheduledSendAt: null,
+      })
+    })
+    expect(showSuccess).toHaveBeenCalledWith('Distribution settings saved')
+    expect(routerRefresh).toHaveBeenCalled()
+  })
+
+  test('surfaces validation errors from the server', async () => {
+    updateReviewDistribution.mockResolvedValueOnce({
+      success: false,
+      error: 'Invalid email address: nope',
+    })
+    render(<DistributionDialog {...baseProps} />)
+    openDialog()
+
+    fireEvent.click(screen.getByTestId('performance-reports-distribution-save-button'))
+
+    await waitFor(() => {
+      expect(showError).toHaveBeenCalledWith('Invalid email address: nope')
+    })
+  })
+
+  test('sends the latest snapshot and reports skipped recipients', async () => {
+    sendLatestSnapshot.mockResolvedValueOnce({ success: true, sent: 2, failed: 0, suppressed: 1 })
+    render(<DistributionDialog {...baseProps} />)
+    openDialog()
+
+    fireEvent.click(screen.getByTestId('performance-reports-send-now-button'))
+
+    await waitFor(() => {
+      expect(showSuccess).toHaveBeenCalledWith('Sent to 2 recipient(s), 1 skipped')
+    })
+    expect(sendLatestSnapshot).toHaveBeenCalledWith(REVIEW_ID)
+  })
+
+  test('disables sending until a snapshot is published', () => {
+    render(<DistributionDialog {...baseProps} hasPublishedSnapshot={false} />)
+    openDialog()
+
+    expect(screen.getByTestId('performance-reports-send-now-button')).toBeDisabled()
+  })
+})
@@ -143,4 +143,22 @@ describe('EditorHeader', () => {
       )
     })
   })
+
+  test('shows the distribution button for editors when settings are loaded', () => {
+    const distribution = {
+      recipients: [],
+      sendOnPublish: false,
+      scheduledSendAt: null,
+      hasPublishedSnapshot: false,
+      recentDeliveries: [],
+    }
+
+    const { rerender } = render(<EditorHeader {...baseProps} distribution={distribution} />)
+    expect(screen.getByTestId('performance-reports-editor-distribution-button')).toBeInTheDocument()
+
+    rerender(<EditorHeader {...baseProps} canEdit={false} distribution={distribution} />)
+    expect(
+      screen.queryByTestId('performance-reports-editor-distribution-button')
+    ).not.toBeInTheDocument()
+  })
 })
@@ -17,6 +17,7 @@ import { NewReviewDialog } from '@/app/(authenticated)/[orgId]/reports/performan
 
 const ORG_ID = '11111111-1111-1111-1111-111111111111'
 const QUARTERS = ['2026-Q2', '2026-Q1', '2025-Q4']
+const MONTHS = ['2026-04', '2026-03', '2026-02']
 
 describe('NewReviewDialog', () => {
   beforeEach(() => {
@@ -25,13 +26,27 @@ describe('NewReviewDialog', () => {
   })
 
   test('does not render the form until the trigger is clicked', () => {
-    render(<NewReviewDialog orgId={ORG_ID} quarters={QUARTERS} defaultQuarter="2026-Q2" />)
+    render(
+      <NewReviewDialog
+        orgId={ORG_ID}
+        quarters={QUARTERS}
+        defaultQuarter="2026-Q2"
+        months={MONTHS}
+      />
+    )
     expect(screen.queryByTestId('new-review-form')).toBeNull()
     expect(screen.getByTestId('performance-reports-new-button')).toBeInTheDocument()
   })
 
   test('renders the form inside the dialog when the trigger is clicked', async () => {
-    render(<NewReviewDialog orgId={ORG_ID} quarters={QUARTERS} defaultQuarter="2026-Q2" />)
+    render(
+      <NewReviewDialog
+        orgId={ORG_ID}
+        quarters={QUARTERS}
+        defaultQuarter="2026-Q2"
+        months={MONTHS}
+      />
+    )
     fireEvent.click(screen.getByTestId('performance-reports-new-button'))
 
     const form = await screen.findByTestId('new-review-form')
@@ -43,7 +58,14 @@ describe('NewReviewDialog', () => {
     checkReviewExists.mockResolvedValueOnce({ exists: false })
     createReview.mockResolvedValueOnce({ success: true, reviewId: 'review-abc' })
 
-    render(<NewReviewDialog orgId={ORG_ID} quarters={QUARTERS} defaultQuarter="2026-Q2" />)
+    render(
+      <NewReviewDialog
+        orgId={ORG_ID}
+        quarters={QUARTERS}
+        defaultQuarter="2026-Q2"
+        months={MONTHS}
+      />
+    )
     fireEvent.click(screen.getByTestId('performance-reports-new-button'))
     await screen.findByTestId('new-review-form')
     fireEvent.click(screen.getByTestId('new-review-submit'))
@@ -24,6 +24,7 @@ import { NewReviewForm } from '@/app/(authenticated)/[orgId]/reports/performance
 const ORG_ID = '11111111-1111-1111-1111-111111111111'
 const QUARTERS = ['2026-Q1', '2026-Q2', '2026-Q3']
 const DEFAULT_QUARTER = '2026-Q2'
+const MONTHS = ['2026-04', '2026-03', '2026-02']
 
 function renderForm(overrides: Partial<Parameters<typeof NewReviewForm>[0]> = {}) {
   return render(
@@ -31,6 +32,7 @@ function renderForm(overrides: Partial<Parameters<typeof NewReviewForm>[0]> = {}
       orgId={ORG_ID}
       quarters={QUARTERS}
       defaultQuarter={DEFAULT_QUARTER}
+      months={MONTHS}
       {...overrides}
     />
   )
@@ -80,7 +82,7 @@ describe('NewReviewForm', () => {
     fireEvent.click(screen.getByTestId('new-review-submit'))
 
     const dialog = await screen.findByTestId('new-review-confirm-dialog')
-    expect(dialog).toHaveTextContent(/draft report for 2026-Q2 already exists/i)
+    expect(dialog).toHaveTextContent(/draft report for Q2 2026 already exists/i)
     expect(dialog).not.toHaveTextContent(/published snapshots/i)
     expect(createReview).not.toHaveBeenCalled()
   })
@@ -2,6 +2,7 @@ import { describe, test, expect, vi, beforeEach } from 'vitest'
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { PreviewClient } from '@/app/(authenticated)/[orgId]/reports/performance/[id]/preview/preview-client'
 import type { NarrativeBlocks, SnapshotData } from '@/lib/reviews/types'
+import { ReviewPeriodType } from '@/lib/enums'
 
 // Captured refs so individual tests can inspect/override behaviour.
 const routerPush = vi.fn()
@@ -40,6 +41,7 @@ const defaultProps = {
   quarter: 'Q1 2026',
   periodStart: '2026-01-01',
   periodEnd: '2026-03-31',
+  periodType: ReviewPeriodType.Quarter,
   narrative: {
     cover_subtitle: 'Strong start',
     ga_summary: 'Traffic grew 18%.',
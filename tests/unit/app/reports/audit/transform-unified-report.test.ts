@@ -95,4 +95,50 @@ describe('transformToPresentation — unified audit reports', () => {
     expect(result.scores.aio.score).toBe(81)
     expect(result.stats.pages_analyzed).toBe(23)
   })
+
+  test('ranks failed checks by page traffic when GA data is provided', () => {
+    const check = (id: string, name: string, pageUrl: string, priority = 'critical') => ({
+      id,
+      check_name: name,
+      status: 'failed',
+      priority,
+      display_name: name.replace(/_/g, ' '),
+      description: null,
+      fix_guidance: null,
+      page_url: pageUrl,
+    })
+
+    const result = transformToPresentation({
+      report: buildReport(),
+      audit: null,
+      auditData: {
+        ...emptyAuditData,
+        siteChecks: [
+          check('c1', 'missing_meta_description', 'https://example.com/about', 'recommended'),
+          check('c2', 'missing_title', 'https://example.com/blog/post'),
+          check('c3', 'missing_meta_description', 'https://example.com/', 'recommended'),
+        ],
+      },
+      pageTraffic: [
+        { url: 'https://www.example.com/', sessions: 900 },
+        { url: 'https://www.example.com/about', sessions: 300 },
+        { url: 'https://www.example.com/blog/post', sessions: 50 },
+      ],
+    })
+
+    expect(result.priority_fixes).toEqual([
+      { title: 'missing meta description', priority: 'medium', affected_pages: 2, sessions: 1200 },
+      { title: 'missing title', priority: 'high', affected_pages: 1, sessions: 50 },
+    ])
+  })
+
+  test('omits priority fixes without GA data', () => {
+    const result = transformToPresentation({
+      report: buildReport(),
+      audit: null,
+      auditData: emptyAuditData,
+    })
+
+    expect(result.priority_fixes).toBeUndefined()
+  })
 })
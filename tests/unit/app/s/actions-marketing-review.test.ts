@@ -6,6 +6,7 @@ vi.mock('@/lib/supabase/server', () => ({
 
 import { getSharedMarketingReviewData } from '@/app/s/[token]/actions'
 import { createServiceClient } from '@/lib/supabase/server'
+import { ReviewPeriodType } from '@/lib/enums'
 
 type MaybeSingleResult<T> = { data: T | null; error: { message: string } | null }
 
@@ -186,6 +187,7 @@ describe('getSharedMarketingReviewData', () => {
       quarter: 'Q1 2026',
       periodStart: '2026-01-01',
       periodEnd: '2026-03-31',
+      periodType: ReviewPeriodType.Quarter,
       narrative,
       data,
       version: 3,
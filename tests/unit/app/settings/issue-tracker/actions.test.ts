@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+  createServiceClient: vi.fn(),
+}))
+
+vi.mock('@/lib/actions/with-auth', () => ({
+  withAdminAuth: vi.fn((handler: (ctx: unknown) => unknown) =>
+    handler({ isInternal: false, organizationId: 'org-1', userId: 'user-1' })
+  ),
+}))
+
+vi.mock('next/cache', () => ({ revalidatePath: vi.fn() }))
+
+import {
+  saveIssueTrackerConfig,
+  type IssueTrackerConfigInput,
+} from '@/app/(authenticated)/[orgId]/settings/issue-tracker/actions'
+import { createServiceClient } from '@/lib/supabase/server'
+import { makeChain } from '@/tests/helpers/supabase-mocks'
+import { IssueTracker } from '@/lib/enums'
+
+const originalKey = process.env.CREDENTIALS_ENCRYPTION_KEY
+
+const STORED_JIRA = {
+  tracker: IssueTracker.Jira,
+  credentials: 'encrypted-token',
+  settings: { base_url: 'https://acme.atlassian.net', project_key: 'SEO', issue_type: 'Task' },
+}
+
+function mockConfig(existing: Record<string, unknown> | null) {
+  const upsert = vi.fn(async () => ({ error: null }))
+  vi.mocked(createServiceClient).mockReturnValue({
+    from: vi.fn(() =>
+      makeChain({
+        upsert,
+        maybeSingle: vi.fn(async () => ({ data: existing, error: null })),
+      })
+    ),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } as any)
+  return { upsert }
+}
+
+function jiraInput(overrides: Partial<IssueTrackerConfigInput> = {}): IssueTrackerConfigInput {
+  return {
+    tracker: IssueTracker.Jira,
+    apiToken: '',
+    email: '',
+    settings: { base_url: 'https://acme.atlassian.net/', project_key: 'seo', issue_type: '' },
+    priorityMapping: {},
+    labels: ['seo-audit'],
+    autoClose: true,
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  process.env.CREDENTIALS_ENCRYPTION_KEY = 'test-encryption-key-for-unit-tests'
+})
+
+afterEach(() => {
+  process.env.CREDENTIALS_ENCRYPTION_KEY = originalKey
+})
+
+describe('saveIssueTrackerConfig', () => {
+  it('keeps the stored token when the tracker URL is unchanged', async () => {
+    const { upsert } = mockConfig(STORED_JIRA)
+
+    const result = await saveIssueTrackerConfig('org-1', jiraInput())
+
+    expect(result).toEqual({ success: true })
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ credentials: 'encrypted-token' }),
+      { onConflict: 'organization_id' }
+    )
+  })
+
+  it('requires the token again when the tracker URL changes', async () => {
+    const { upsert } = mockConfig(STORED_JIRA)
+
+    const result = await saveIssueTrackerConfig(
+      'org-1',
+      jiraInput({
+        settings: { base_url: 'https://attacker.example', project_key: 'SEO', issue_type: 'Task' },
+      })
+    )
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Enter the API token again to use it with a different URL',
+    })
+    expect(upsert).not.toHaveBeenCalled()
+  })
+
+  it('requires the token again when a GitHub API URL is added', async () => {
+    const { upsert } = mockConfig({
+      tracker: IssueTracker.GitHub,
+      credentials: 'encrypted-token',
+      settings: { owner: 'acme', repo: 'site' },
+    })
+
+    const result = await saveIssueTrackerConfig('org-1', {
+      ...jiraInput(),
+      tracker: IssueTracker.GitHub,
+      settings: { owner: 'acme', repo: 'site', api_base_url: 'https://169.254.169.254' },
+    })
+
+    expect(result).toMatchObject({ success: false })
+    expect(upsert).not.toHaveBeenCalled()
+  })
+
+  it('saves a newly entered token for a new URL', async () => {
+    const { upsert } = mockConfig(STORED_JIRA)
+
+    const result = await saveIssueTrackerConfig(
+      'org-1',
+      jiraInput({
+        apiToken: 'new-token',
+        email: 'admin@acme.com',
+        settings: {
+          base_url: 'https://acme-eu.atlassian.net',
+          project_key: 'SEO',
+          issue_type: 'Task',
+        },
+      })
+    )
+
+    expect(result).toEqual({ success: true })
+    const saved = (upsert.mock.calls[0] as unknown[])[0] as Record<string, unknown>
+    expect(saved.credentials).not.toBe('encrypted-token')
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(),
+  createServiceClient: vi.fn(),
+}))
+
+vi.mock('@/lib/actions/with-auth', () => ({
+  withAdminAuth: vi.fn((handler: (ctx: unknown) => unknown) =>
+    handler({ isInternal: false, organizationId: 'org-1' })
+  ),
+}))
+
+vi.mock('next/cache', () => ({ revalidatePath: vi.fn() }))
+
+import { updateOrganizationAISettings } from '@/app/(authenticated)/[orgId]/settings/organization/actions'
+import { resolveAICredential } from '@/lib/ai/provider'
+import { createServiceClient } from '@/lib/supabase/server'
+import { makeChain } from '@/tests/helpers/supabase-mocks'
+import { AIBillingModel, AIProvider } from '@/lib/enums'
+
+const mockFetch = vi.fn()
+vi.stubGlobal('fetch', mockFetch)
+
+const originalKey = process.env.CREDENTIALS_ENCRYPTION_KEY
+
+function mockOrganization(stored: Record<string, unknown> | null = null) {
+  const update = vi.fn(() => makeChain({ eq: vi.fn(async () => ({ error: null })) }))
+  vi.mocked(createServiceClient).mockReturnValue({
+    from: vi.fn(() =>
+      makeChain({
+        update,
+        single: vi.fn(async () => ({ data: stored, error: null })),
+        maybeSingle: vi.fn(async () => ({ data: stored, error: null })),
+      })
+    ),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } as any)
+  return { update }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  process.env.CREDENTIALS_ENCRYPTION_KEY = 'test-encryption-key-for-unit-tests'
+})
+
+afterEach(() => {
+  process.env.CREDENTIALS_ENCRYPTION_KEY = originalKey
+})
+
+describe('updateOrganizationAISettings', () => {
+  it('stores a verified key that resolveAICredential can use', async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 200 })
+    const { update } = mockOrganization()
+
+    const result = await updateOrganizationAISettings('org-1', {
+      billingModel: AIBillingModel.BringOwnKey,
+      provider: AIProvider.Anthropic,
+      apiKey: ' sk-ant-org-key ',
+    })
+
+    expect(result).toEqual({ success: true })
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.anthropic.com/v1/models',
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'x-api-key': 'sk-ant-org-key' }),
+      })
+    )
+
+    const stored = (update.mock.calls[0] as unknown[])[0] as Record<string, string>
+    expect(stored.ai_api_key).not.toContain('sk-ant-org-key')
+
+    mockOrganization(stored)
+    await expect(resolveAICredential('anthropic', 'org-1')).resolves.toEqual({
+      apiKey: 'sk-ant-org-key',
+      billingModel: AIBillingModel.BringOwnKey,
+    })
+  })
+
+  it('rejects a key the provider does not accept', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 401 })
+    const { update } = mockOrganization()
+
+    const result = await updateOrganizationAISettings('org-1', {
+      billingModel: AIBillingModel.BringOwnKey,
+      provider: AIProvider.OpenAI,
+      apiKey: 'sk-bad',
+    })
+
+    expect(result).toEqual({ success: false, error: 'The provider rejected this API key' })
+    expect(update).not.toHaveBeenCalled()
+  })
+
+  it('keeps the stored key when left blank for the same provider', async () => {
+    const { update } = mockOrganization({ ai_provider: AIProvider.OpenAI, ai_api_key: 'encrypted' })
+
+    const result = await updateOrganizationAISettings('org-1', {
+      billingModel: AIBillingModel.BringOwnKey,
+      provider: AIProvider.OpenAI,
+      apiKey: '',
+    })
+
+    expect(result).toEqual({ success: true })
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(update).toHaveBeenCalledWith(
+      expect.not.objectContaining({ ai_api_key: expect.anything() })
+    )
+  })
+
+  it('clears the key when switching away from bring-your-own-key', async () => {
+    const { update } = mockOrganization()
+
+    await updateOrganizationAISettings('org-1', {
+      billingModel: AIBillingModel.PlatformBilled,
+      provider: AIProvider.Anthropic,
+      apiKey: '',
+    })
+
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ ai_billing_model: AIBillingModel.PlatformBilled, ai_api_key: null })
+    )
+  })
+})
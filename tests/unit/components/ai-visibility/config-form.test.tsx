@@ -16,6 +16,7 @@ function makeConfig(overrides: Partial<AIVisibilityConfig> = {}): AIVisibilityCo
     platforms: [AIPlatform.Claude],
     monthly_budget_cents: 10000,
     budget_alert_threshold: 90,
+    sample_count: 1,
     last_alert_type: null,
     last_alert_sent_at: null,
     competitors: [],
@@ -20,6 +20,7 @@ const baseMention: MentionResult = {
   cost_cents: 5,
   tokens_used: 100,
   queried_at: '2026-04-10T12:00:00Z',
+  sample_index: 0,
   prompt_text: 'Best marketing tools',
   research_id: null,
   source: 'sync',
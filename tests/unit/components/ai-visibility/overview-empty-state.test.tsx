@@ -2,7 +2,7 @@ import { describe, test, expect, vi } from 'vitest'
 import { render, screen } from '@testing-library/react'
 import { AIPlatform } from '@/lib/enums'
 import { AIVisibilityEmptyState } from '@/components/ai-visibility/overview-dashboard'
-import type { AIVisibilityConfig } from '@/lib/ai-visibility/types'
+import { ALL_PLATFORMS, type AIVisibilityConfig } from '@/lib/ai-visibility/types'
 
 // Mock next/navigation for SyncButton (uses useRouter/useTransition)
 vi.mock('next/navigation', () => ({
@@ -21,6 +21,7 @@ function makeConfig(overrides: Partial<AIVisibilityConfig> = {}): AIVisibilityCo
     platforms: [AIPlatform.ChatGPT, AIPlatform.Claude, AIPlatform.Perplexity],
     monthly_budget_cents: 10000,
     budget_alert_threshold: 90,
+    sample_count: 1,
     last_alert_type: null,
     last_alert_sent_at: null,
     competitors: [],
@@ -145,7 +146,7 @@ describe('AIVisibilityEmptyState', () => {
           orgId={orgId}
           config={makeConfig()}
           isInternal={true}
-          availablePlatforms={[AIPlatform.ChatGPT, AIPlatform.Claude, AIPlatform.Perplexity]}
+          availablePlatforms={ALL_PLATFORMS}
         />
       )
 
@@ -303,7 +304,7 @@ describe('AIVisibilityEmptyState', () => {
           orgId={orgId}
           config={null}
           isInternal={true}
-          availablePlatforms={[AIPlatform.ChatGPT, AIPlatform.Claude, AIPlatform.Perplexity]}
+          availablePlatforms={ALL_PLATFORMS}
         />
       )
 
@@ -2,6 +2,7 @@ import { describe, test, expect } from 'vitest'
 import { render, screen, within } from '@testing-library/react'
 import { GaMetricTable } from '@/components/reviews/review-deck/ga-metric-table'
 import type { GAData, MetricTriple } from '@/lib/reviews/types'
+import { ReviewPeriodType } from '@/lib/enums'
 
 function makeTriple(overrides: Partial<MetricTriple> = {}): MetricTriple {
   return {
@@ -37,6 +38,15 @@ describe('GaMetricTable', () => {
     expect(headers.map((h) => h.textContent)).toEqual(['Metric', 'Current', 'QoQ', 'YoY'])
   })
 
+  test('labels the previous-period column for monthly reviews', () => {
+    render(
+      <GaMetricTable data={{ ga_sessions: makeTriple() }} periodType={ReviewPeriodType.Month} />
+    )
+
+    const headers = within(screen.getByTestId('ga-metric-table')).getAllByRole('columnheader')
+    expect(headers.map((h) => h.textContent)).toEqual(['Metric', 'Current', 'MoM', 'YoY'])
+  })
+
   test('renders one row per present featured metric in featured order', () => {
     const data: GAData = {
       ga_new_users: makeTriple({ current: 1500 }),
@@ -8,6 +8,7 @@ import type {
   LinkedInData,
   MetricTriple,
 } from '@/lib/reviews/types'
+import { ReviewPeriodType } from '@/lib/enums'
 
 const baseOrg = {
   name: 'Acme Corp',
@@ -410,4 +411,13 @@ describe('ReviewDeck GA slide routing', () => {
       expect(node.getAttribute('data-narrative')).toBe(fullNarrative.linkedin_insights)
     }
   })
+
+  test('titles the cover for the review period type', () => {
+    renderDeck({ quarter: 'March 2026', periodType: ReviewPeriodType.Month })
+
+    expect(screen.getAllByText('Monthly Performance Review').length).toBeGreaterThan(0)
+    expect(screen.getByTestId('review-deck-live-region').textContent).toBe(
+      'Slide 1 of 6: Monthly Performance Review'
+    )
+  })
 })
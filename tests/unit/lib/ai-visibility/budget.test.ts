@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest'
-import { canContinueSync, checkBudgetThresholds } from '@/lib/ai-visibility/budget'
+import {
+  canContinueSync,
+  checkBudgetThresholds,
+  estimatePromptCostCents,
+} from '@/lib/ai-visibility/budget'
+import { AIPlatform } from '@/lib/enums'
 
 describe('canContinueSync', () => {
   it('returns true when spend is under budget', () => {
@@ -17,6 +22,47 @@ describe('canContinueSync', () => {
   it('returns true when budget is 0 (unlimited)', () => {
     expect(canContinueSync(5000, 0)).toBe(true)
   })
+
+  it('returns false when the projected cost would exceed the budget', () => {
+    expect(canContinueSync(9000, 10000, 1500)).toBe(false)
+    expect(canContinueSync(9000, 10000, 1000)).toBe(true)
+  })
+})
+
+describe('estimatePromptCostCents', () => {
+  it('multiplies the average query cost by platforms and samples', () => {
+    expect(
+      estimatePromptCostCents({
+        spentCents: 40,
+        queriesCompleted: 10,
+        platforms: [AIPlatform.ChatGPT, AIPlatform.Claude, AIPlatform.Gemini],
+        sampleCount: 5,
+      })
+    ).toBe(60)
+  })
+
+  it('prices the first prompt from platform list prices', () => {
+    // Two SerpApi searches at 1.5 cents each, three samples
+    expect(
+      estimatePromptCostCents({
+        spentCents: 0,
+        queriesCompleted: 0,
+        platforms: [AIPlatform.GoogleAIOverviews, AIPlatform.Copilot],
+        sampleCount: 3,
+      })
+    ).toBeCloseTo(9)
+  })
+
+  it('projects a nonzero cost for token-billed platforms before any query', () => {
+    expect(
+      estimatePromptCostCents({
+        spentCents: 0,
+        queriesCompleted: 0,
+        platforms: [AIPlatform.ChatGPT],
+        sampleCount: 1,
+      })
+    ).toBeGreaterThan(0)
+  })
 })
 
 describe('checkBudgetThresholds', () => {
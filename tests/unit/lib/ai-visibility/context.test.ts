@@ -4,10 +4,12 @@ import { buildOrgContext } from '@/lib/ai-visibility/context'
 describe('buildOrgContext', () => {
   it('builds context from org name and website URL', () => {
     const context = buildOrgContext({
+      organizationId: 'org-1',
       orgName: 'Warby Parker',
       websiteUrl: 'https://www.warbyparker.com',
       competitors: [],
     })
+    expect(context.organizationId).toBe('org-1')
     expect(context.brandName).toBe('Warby Parker')
     expect(context.domain).toBe('warbyparker.com')
     expect(context.competitors).toEqual([])
@@ -16,6 +18,7 @@ describe('buildOrgContext', () => {
 
   it('strips www from domain', () => {
     const context = buildOrgContext({
+      organizationId: 'org-1',
       orgName: 'Test',
       websiteUrl: 'https://www.example.com/about',
       competitors: [],
@@ -25,6 +28,7 @@ describe('buildOrgContext', () => {
 
   it('handles URL without www', () => {
     const context = buildOrgContext({
+      organizationId: 'org-1',
       orgName: 'Test',
       websiteUrl: 'https://example.com',
       competitors: [],
@@ -34,6 +38,7 @@ describe('buildOrgContext', () => {
 
   it('maps competitors to names and domain lookup', () => {
     const context = buildOrgContext({
+      organizationId: 'org-1',
       orgName: 'Warby Parker',
       websiteUrl: 'https://warbyparker.com',
       competitors: [
@@ -50,6 +55,7 @@ describe('buildOrgContext', () => {
 
   it('handles missing website URL gracefully', () => {
     const context = buildOrgContext({
+      organizationId: 'org-1',
       orgName: 'Test Co',
       websiteUrl: null,
       competitors: [],
@@ -59,6 +65,7 @@ describe('buildOrgContext', () => {
 
   it('handles malformed URL gracefully', () => {
     const context = buildOrgContext({
+      organizationId: 'org-1',
       orgName: 'Test Co',
       websiteUrl: 'not-a-url',
       competitors: [],
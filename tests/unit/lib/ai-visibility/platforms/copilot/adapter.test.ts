@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AIPlatform } from '@/lib/enums'
+
+vi.mock('@/lib/app-settings/credentials', () => ({
+  getAppCredential: vi.fn().mockResolvedValue('test-serpapi-key'),
+}))
+
+import { CopilotAdapter } from '@/lib/ai-visibility/platforms/copilot/adapter'
+
+const mockFetch = vi.fn()
+vi.stubGlobal('fetch', mockFetch)
+
+function jsonResponse(body: unknown, status = 200) {
+  return { ok: status >= 200 && status < 300, status, json: () => Promise.resolve(body) }
+}
+
+describe('CopilotAdapter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('has platform set to Copilot', () => {
+    const adapter = new CopilotAdapter()
+    expect(adapter.platform).toBe(AIPlatform.Copilot)
+  })
+
+  it('returns the Copilot answer with its references', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({
+        header: 'Here are some options:',
+        text_blocks: [
+          { type: 'paragraph', snippet: 'Warby Parker offers home try-on.' },
+          { type: 'list', items: [{ snippet: 'Affordable' }, { snippet: 'Stylish' }] },
+        ],
+        references: [
+          { title: 'Warby Parker', link: 'https://warbyparker.com' },
+          { title: 'Warby Parker', link: 'https://warbyparker.com' },
+        ],
+      })
+    )
+
+    const adapter = new CopilotAdapter()
+    const result = await adapter.query('Tell me about Warby Parker')
+
+    const url = new URL(mockFetch.mock.calls[0][0])
+    expect(url.searchParams.get('engine')).toBe('bing_copilot')
+    expect(result.text).toBe(
+      'Here are some options:\nWarby Parker offers home try-on.\n- Affordable\n- Stylish'
+    )
+    expect(result.citations).toEqual(['https://warbyparker.com'])
+    expect(result.model).toBe('bing-copilot')
+  })
+
+  it('surfaces errors reported in a successful response', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: "Copilot hasn't returned any results." }))
+
+    const adapter = new CopilotAdapter()
+    await expect(adapter.query('test')).rejects.toThrow(
+      "Copilot query failed: Copilot hasn't returned any results."
+    )
+  })
+})
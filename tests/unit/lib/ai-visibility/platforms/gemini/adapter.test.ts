@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AIPlatform } from '@/lib/enums'
+
+vi.mock('@/lib/app-settings/credentials', () => ({
+  getAppCredential: vi.fn().mockResolvedValue('test-gemini-key'),
+}))
+
+import { GeminiAdapter } from '@/lib/ai-visibility/platforms/gemini/adapter'
+import { getAppCredential } from '@/lib/app-settings/credentials'
+
+const mockFetch = vi.fn()
+vi.stubGlobal('fetch', mockFetch)
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  }
+}
+
+describe('GeminiAdapter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('has platform set to Gemini', () => {
+    const adapter = new GeminiAdapter()
+    expect(adapter.platform).toBe(AIPlatform.Gemini)
+  })
+
+  it('queries with Google Search grounding and returns a standardized response', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({
+        candidates: [
+          {
+            content: {
+              parts: [{ text: 'Warby Parker is a popular ' }, { text: 'eyewear brand.' }],
+            },
+            groundingMetadata: {
+              groundingChunks: [
+                {
+                  web: {
+                    uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/abc',
+                    title: 'warbyparker.com',
+                  },
+                },
+                { web: { uri: 'https://example.com/review', title: 'Review' } },
+              ],
+            },
+          },
+        ],
+        usageMetadata: { promptTokenCount: 25, candidatesTokenCount: 75 },
+      })
+    )
+
+    const adapter = new GeminiAdapter()
+    const result = await adapter.query('Tell me about Warby Parker')
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toContain('gemini-2.5-flash:generateContent')
+    expect(init.headers['x-goog-api-key']).toBe('test-gemini-key')
+    expect(JSON.parse(init.body).tools).toEqual([{ google_search: {} }])
+
+    expect(result.text).toBe('Warby Parker is a popular eyewear brand.')
+    expect(result.citations).toEqual(['https://warbyparker.com', 'https://example.com/review'])
+    expect(result.inputTokens).toBe(25)
+    expect(result.outputTokens).toBe(75)
+  })
+
+  it('handles responses without grounding metadata', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({ candidates: [{ content: { parts: [{ text: 'No sources.' }] } }] })
+    )
+
+    const adapter = new GeminiAdapter()
+    const result = await adapter.query('test')
+
+    expect(result.citations).toEqual([])
+    expect(result.inputTokens).toBe(0)
+  })
+
+  it('throws when the API returns an error status', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: { message: 'quota' } }, 429))
+
+    const adapter = new GeminiAdapter()
+    await expect(adapter.query('test')).rejects.toThrow('Gemini query failed: API returned 429')
+  })
+
+  it('throws when no API key is configured', async () => {
+    vi.mocked(getAppCredential).mockResolvedValueOnce(null)
+
+    const adapter = new GeminiAdapter()
+    await expect(adapter.query('test')).rejects.toThrow('Gemini API key not configured')
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
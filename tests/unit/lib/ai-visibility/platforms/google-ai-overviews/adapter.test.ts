@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AIPlatform } from '@/lib/enums'
+
+vi.mock('@/lib/app-settings/credentials', () => ({
+  getAppCredential: vi.fn().mockResolvedValue('test-serpapi-key'),
+}))
+
+import { GoogleAIOverviewsAdapter } from '@/lib/ai-visibility/platforms/google-ai-overviews/adapter'
+
+const mockFetch = vi.fn()
+vi.stubGlobal('fetch', mockFetch)
+
+function jsonResponse(body: unknown, status = 200) {
+  return { ok: status >= 200 && status < 300, status, json: () => Promise.resolve(body) }
+}
+
+const overview = {
+  text_blocks: [
+    { type: 'paragraph', snippet: 'Popular online eyewear retailers include:' },
+    {
+      type: 'list',
+      list: [
+        { title: 'Warby Parker', snippet: 'Affordable designer frames.' },
+        { title: 'Zenni', snippet: 'Budget glasses.' },
+      ],
+    },
+  ],
+  references: [
+    { title: 'Warby Parker', link: 'https://warbyparker.com', source: 'Warby Parker' },
+    { title: 'Zenni', link: 'https://zennioptical.com', source: 'Zenni' },
+  ],
+}
+
+describe('GoogleAIOverviewsAdapter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('has platform set to Google AI Overviews', () => {
+    const adapter = new GoogleAIOverviewsAdapter()
+    expect(adapter.platform).toBe(AIPlatform.GoogleAIOverviews)
+  })
+
+  it('flattens the overview text and references', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ ai_overview: overview }))
+
+    const adapter = new GoogleAIOverviewsAdapter()
+    const result = await adapter.query('best online glasses')
+
+    const url = new URL(mockFetch.mock.calls[0][0])
+    expect(url.searchParams.get('engine')).toBe('google')
+    expect(url.searchParams.get('q')).toBe('best online glasses')
+    expect(url.searchParams.get('api_key')).toBe('test-serpapi-key')
+
+    expect(result.text).toBe(
+      'Popular online eyewear retailers include:\n' +
+        '- Warby Parker: Affordable designer frames.\n' +
+        '- Zenni: Budget glasses.'
+    )
+    expect(result.citations).toEqual(['https://warbyparker.com', 'https://zennioptical.com'])
+    expect(result.costCents).toBe(2)
+  })
+
+  it('follows up with a page token when the overview loads asynchronously', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ ai_overview: { page_token: 'token-1' } }))
+      .mockResolvedValueOnce(jsonResponse({ ai_overview: overview }))
+
+    const adapter = new GoogleAIOverviewsAdapter()
+    const result = await adapter.query('best online glasses')
+
+    const followUp = new URL(mockFetch.mock.calls[1][0])
+    expect(followUp.searchParams.get('engine')).toBe('google_ai_overview')
+    expect(followUp.searchParams.get('page_token')).toBe('token-1')
+    expect(result.citations).toHaveLength(2)
+    expect(result.costCents).toBe(4)
+  })
+
+  it('returns an empty answer when Google shows no overview', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ organic_results: [] }))
+
+    const adapter = new GoogleAIOverviewsAdapter()
+    const result = await adapter.query('test')
+
+    expect(result.text).toBe('')
+    expect(result.citations).toEqual([])
+  })
+
+  it('surfaces SerpApi errors', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: 'Invalid API key.' }, 401))
+
+    const adapter = new GoogleAIOverviewsAdapter()
+    await expect(adapter.query('test')).rejects.toThrow(
+      'Google AI Overviews query failed: API returned 401: Invalid API key.'
+    )
+  })
+})
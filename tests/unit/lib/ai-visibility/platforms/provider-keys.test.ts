@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/app-settings/credentials', () => ({
+  getAppCredential: vi.fn(),
+}))
+
+vi.mock('@/lib/ai/provider', () => ({
+  resolveAICredential: vi.fn(),
+}))
+
+import {
+  getAvailablePlatforms,
+  hasPlatformCredential,
+} from '@/lib/ai-visibility/platforms/provider-keys'
+import { getAppCredential } from '@/lib/app-settings/credentials'
+import { resolveAICredential } from '@/lib/ai/provider'
+import { AIBillingModel, AIPlatform } from '@/lib/enums'
+
+describe('hasPlatformCredential', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    // No app credentials at all
+    vi.mocked(getAppCredential).mockResolvedValue(null)
+  })
+
+  it("counts a bring-your-own-key organization's key", async () => {
+    vi.mocked(resolveAICredential).mockResolvedValue({
+      apiKey: 'org-key',
+      billingModel: AIBillingModel.BringOwnKey,
+    })
+
+    expect(await hasPlatformCredential(AIPlatform.Claude, 'org-1')).toBe(true)
+    expect(resolveAICredential).toHaveBeenCalledWith('anthropic', 'org-1')
+  })
+
+  it('reports unavailable when no key resolves for the organization', async () => {
+    vi.mocked(resolveAICredential).mockRejectedValue(new Error('OpenAI API key not configured'))
+
+    expect(await hasPlatformCredential(AIPlatform.ChatGPT, 'org-1')).toBe(false)
+  })
+
+  it('uses the app credential for platforms outside the billing model', async () => {
+    vi.mocked(getAppCredential).mockImplementation(async (key) =>
+      key === 'serpapi' ? 'serp-key' : null
+    )
+
+    expect(await hasPlatformCredential(AIPlatform.Copilot, 'org-1')).toBe(true)
+    expect(await hasPlatformCredential(AIPlatform.Gemini, 'org-1')).toBe(false)
+    expect(resolveAICredential).not.toHaveBeenCalled()
+  })
+})
+
+describe('getAvailablePlatforms', () => {
+  it('checks only the given platforms', async () => {
+    vi.mocked(resolveAICredential).mockImplementation(async (provider) => {
+      if (provider === 'openai') return { apiKey: 'key', billingModel: AIBillingModel.BringOwnKey }
+      throw new Error('not configured')
+    })
+
+    const available = await getAvailablePlatforms('org-1', [AIPlatform.ChatGPT, AIPlatform.Claude])
+
+    expect(available).toEqual([AIPlatform.ChatGPT])
+  })
+})
@@ -18,6 +18,12 @@ describe('Adapter registry', () => {
     expect(adapter.platform).toBe(AIPlatform.Perplexity)
   })
 
+  it('returns adapters for Gemini, Google AI Overviews and Copilot', () => {
+    for (const platform of [AIPlatform.Gemini, AIPlatform.GoogleAIOverviews, AIPlatform.Copilot]) {
+      expect(getAdapter(platform).platform).toBe(platform)
+    }
+  })
+
   it('returns multiple adapters for a list of platforms', () => {
     const adapters = getAdapters([AIPlatform.ChatGPT, AIPlatform.Perplexity])
     expect(adapters).toHaveLength(2)
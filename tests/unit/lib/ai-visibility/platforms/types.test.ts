@@ -24,6 +24,10 @@ describe('AI Provider platform types', () => {
     expect(estimateCostCents(AIPlatform.ChatGPT, 0, 0)).toBe(0)
   })
 
+  it('estimateCostCents includes per-query fees for search-based platforms', () => {
+    expect(estimateCostCents(AIPlatform.Copilot, 0, 0)).toBe(2)
+  })
+
   it('type-checks AIProviderResponse', () => {
     const response: AIProviderResponse = {
       text: 'Warby Parker is a great eyewear brand...',
@@ -27,6 +27,7 @@ function makeResult(overrides: Partial<AIVisibilityResult> = {}): AIVisibilityRe
     tokens_used: 100,
     cost_cents: 1,
     queried_at: '2026-04-09T04:00:00Z',
+    sample_index: 0,
     raw_response: null,
     created_at: '2026-04-09T04:00:00Z',
     research_id: null,
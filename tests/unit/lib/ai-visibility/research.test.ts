@@ -29,6 +29,11 @@ vi.mock('@/lib/app-settings/usage', () => ({
   logUsage: vi.fn(),
 }))
 
+vi.mock('@/lib/ai/provider', () => ({
+  isAIDisabledForOrganization: vi.fn(),
+  AIDisabledError: class AIDisabledError extends Error {},
+}))
+
 import { prepareResearch, executeResearch, getResearchResults } from '@/lib/ai-visibility/research'
 import { getCurrentMonthSpend } from '@/lib/ai-visibility/budget'
 import { buildOrgContext } from '@/lib/ai-visibility/context'
@@ -37,6 +42,7 @@ import { analyzeResponse } from '@/lib/ai-visibility/analyzer'
 import { generateInsight } from '@/lib/ai-visibility/insights'
 import { logUsage } from '@/lib/app-settings/usage'
 import { createServiceClient } from '@/lib/supabase/server'
+import { AIDisabledError, isAIDisabledForOrganization } from '@/lib/ai/provider'
 
 describe('prepareResearch', () => {
   const mockMaybeSingle = vi.fn()
@@ -44,6 +50,7 @@ describe('prepareResearch', () => {
   beforeEach(() => {
     vi.clearAllMocks()
 
+    vi.mocked(isAIDisabledForOrganization).mockResolvedValue(false)
     vi.mocked(getCurrentMonthSpend).mockResolvedValue(5000) // $50.00
 
     mockMaybeSingle.mockResolvedValue({
@@ -71,6 +78,13 @@ describe('prepareResearch', () => {
     } as any)
   })
 
+  test('throws AIDisabledError when AI is disabled for the organization', async () => {
+    vi.mocked(isAIDisabledForOrganization).mockResolvedValue(true)
+
+    await expect(prepareResearch('org-1')).rejects.toBeInstanceOf(AIDisabledError)
+    expect(getCurrentMonthSpend).not.toHaveBeenCalled()
+  })
+
   test('returns research config with platforms and budget status', async () => {
     const result = await prepareResearch('org-1')
 
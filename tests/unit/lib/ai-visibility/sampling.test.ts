@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { AIPlatform } from '@/lib/enums'
+import { aggregateSamples, groupSamplesByPlatform } from '@/lib/ai-visibility/sampling'
+
+function run(platform: AIPlatform, sampleIndex: number, mentioned: boolean, cited = false) {
+  return { platform, sample_index: sampleIndex, brand_mentioned: mentioned, domain_cited: cited }
+}
+
+describe('aggregateSamples', () => {
+  it('computes mention and citation probabilities across runs', () => {
+    const aggregate = aggregateSamples([
+      run(AIPlatform.ChatGPT, 0, true, true),
+      run(AIPlatform.ChatGPT, 1, true),
+      run(AIPlatform.ChatGPT, 2, false),
+      run(AIPlatform.ChatGPT, 3, true),
+    ])
+
+    expect(aggregate).toEqual({
+      samples: 4,
+      mentioned: 3,
+      cited: 1,
+      mention_probability: 0.75,
+      citation_probability: 0.25,
+    })
+  })
+
+  it('returns zero probabilities with no runs', () => {
+    expect(aggregateSamples([])).toMatchObject({ mention_probability: 0, citation_probability: 0 })
+  })
+})
+
+describe('groupSamplesByPlatform', () => {
+  it('groups runs by platform in sample order', () => {
+    const groups = groupSamplesByPlatform([
+      run(AIPlatform.Claude, 1, false),
+      run(AIPlatform.ChatGPT, 0, true),
+      run(AIPlatform.Claude, 0, true),
+    ])
+
+    expect(groups.map((g) => g.platform)).toEqual([AIPlatform.Claude, AIPlatform.ChatGPT])
+    expect(groups[0].results.map((r) => r.sample_index)).toEqual([0, 1])
+    expect(groups[0].aggregate.mention_probability).toBe(0.5)
+    expect(groups[1].aggregate.samples).toBe(1)
+  })
+})
@@ -1,10 +1,10 @@
 import { describe, it, expect } from 'vitest'
 import { BrandSentiment } from '@/lib/enums'
-import { calculateVisibilityScore } from '@/lib/ai-visibility/scorer'
+import { calculateVisibilityScore, wilsonInterval } from '@/lib/ai-visibility/scorer'
 
 describe('calculateVisibilityScore', () => {
   it('returns 100 when all prompts are mentioned, cited, and positive', () => {
-    const score = calculateVisibilityScore({
+    const { score } = calculateVisibilityScore({
       totalPrompts: 10,
       mentionedCount: 10,
       citedCount: 10,
@@ -14,7 +14,7 @@ describe('calculateVisibilityScore', () => {
   })
 
   it('returns 0 when no mentions, no citations, no positive sentiment', () => {
-    const score = calculateVisibilityScore({
+    const { score } = calculateVisibilityScore({
       totalPrompts: 10,
       mentionedCount: 0,
       citedCount: 0,
@@ -24,7 +24,7 @@ describe('calculateVisibilityScore', () => {
   })
 
   it('returns 0 for zero prompts', () => {
-    const score = calculateVisibilityScore({
+    const { score } = calculateVisibilityScore({
       totalPrompts: 0,
       mentionedCount: 0,
       citedCount: 0,
@@ -37,7 +37,7 @@ describe('calculateVisibilityScore', () => {
     // 50% mention rate (40% weight) = 20
     // 50% citation rate (40% weight) = 20
     // all neutral sentiment (50 pts, 20% weight) = 10
-    const score = calculateVisibilityScore({
+    const { score } = calculateVisibilityScore({
       totalPrompts: 10,
       mentionedCount: 5,
       citedCount: 5,
@@ -50,7 +50,7 @@ describe('calculateVisibilityScore', () => {
     // 100% mention = 40
     // 0% citation = 0
     // 3 positive (100) + 2 negative (0) = avg 60, * 0.2 = 12
-    const score = calculateVisibilityScore({
+    const { score } = calculateVisibilityScore({
       totalPrompts: 5,
       mentionedCount: 5,
       citedCount: 0,
@@ -66,7 +66,7 @@ describe('calculateVisibilityScore', () => {
   })
 
   it('clamps score between 0 and 100', () => {
-    const score = calculateVisibilityScore({
+    const { score } = calculateVisibilityScore({
       totalPrompts: 1,
       mentionedCount: 1,
       citedCount: 1,
@@ -75,4 +75,59 @@ describe('calculateVisibilityScore', () => {
     expect(score).toBeGreaterThanOrEqual(0)
     expect(score).toBeLessThanOrEqual(100)
   })
+
+  it('reports mention and citation probabilities', () => {
+    const result = calculateVisibilityScore({
+      totalPrompts: 10,
+      mentionedCount: 6,
+      citedCount: 2,
+      sentiments: [],
+    })
+    expect(result.mentionProbability).toBe(0.6)
+    expect(result.citationProbability).toBe(0.2)
+  })
+
+  it('brackets the score with a confidence interval that narrows with more samples', () => {
+    const input = { mentionedCount: 5, citedCount: 5, sentiments: [] }
+    const few = calculateVisibilityScore({ ...input, totalPrompts: 10 })
+    const many = calculateVisibilityScore({
+      ...input,
+      totalPrompts: 100,
+      mentionedCount: 50,
+      citedCount: 50,
+    })
+
+    expect(few.lower).toBeLessThan(few.score)
+    expect(few.upper).toBeGreaterThan(few.score)
+    expect(many.score).toBe(few.score)
+    expect(many.upper - many.lower).toBeLessThan(few.upper - few.lower)
+  })
+
+  it('returns a zero-width interval for zero prompts', () => {
+    const result = calculateVisibilityScore({
+      totalPrompts: 0,
+      mentionedCount: 0,
+      citedCount: 0,
+      sentiments: [],
+    })
+    expect(result).toMatchObject({ score: 0, lower: 0, upper: 0 })
+  })
+})
+
+describe('wilsonInterval', () => {
+  it('stays within [0, 1] at the extremes', () => {
+    const [lowerAll, upperAll] = wilsonInterval(5, 5)
+    expect(upperAll).toBe(1)
+    expect(lowerAll).toBeGreaterThan(0.5)
+
+    const [lowerNone, upperNone] = wilsonInterval(0, 5)
+    expect(lowerNone).toBe(0)
+    expect(upperNone).toBeLessThan(0.5)
+  })
+
+  it('matches the textbook interval for 50%', () => {
+    const [lower, upper] = wilsonInterval(50, 100)
+    expect(lower).toBeCloseTo(0.404, 3)
+    expect(upper).toBeCloseTo(0.596, 3)
+  })
 })
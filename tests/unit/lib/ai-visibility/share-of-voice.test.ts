@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { AIPlatform } from '@/lib/enums'
+import {
+  buildShareOfVoiceTrend,
+  calculateShareOfVoice,
+  type ShareOfVoiceObservation,
+} from '@/lib/ai-visibility/share-of-voice'
+
+function observation(
+  platform: AIPlatform,
+  brand: { mentioned?: boolean; cited?: boolean },
+  competitors: { name: string; mentioned?: boolean; cited?: boolean }[] = []
+): ShareOfVoiceObservation {
+  return {
+    platform,
+    brand_mentioned: brand.mentioned ?? false,
+    domain_cited: brand.cited ?? false,
+    competitor_mentions: competitors.map((c) => ({
+      name: c.name,
+      mentioned: c.mentioned ?? false,
+      cited: c.cited ?? false,
+    })),
+  }
+}
+
+describe('calculateShareOfVoice', () => {
+  const observations = [
+    observation(AIPlatform.ChatGPT, { mentioned: true, cited: true }, [
+      { name: 'Acme', mentioned: true },
+    ]),
+    observation(AIPlatform.ChatGPT, {}, [{ name: 'Acme', cited: true }]),
+    observation(AIPlatform.Claude, { mentioned: true }, [{ name: 'Globex', mentioned: true }]),
+    observation(AIPlatform.Claude, {}, []),
+  ]
+
+  it('computes the fraction of responses mentioning or citing each entity', () => {
+    const sov = calculateShareOfVoice(observations, 'Brand', ['Acme', 'Globex'])
+
+    expect(sov.total_responses).toBe(4)
+    expect(sov.entities).toEqual([
+      { name: 'Brand', is_brand: true, mentioned: 2, cited: 1, visible: 2, share: 0.5 },
+      { name: 'Acme', is_brand: false, mentioned: 1, cited: 1, visible: 2, share: 0.5 },
+      { name: 'Globex', is_brand: false, mentioned: 1, cited: 0, visible: 1, share: 0.25 },
+    ])
+  })
+
+  it('breaks down share of voice per platform', () => {
+    const sov = calculateShareOfVoice(observations, 'Brand', ['Acme', 'Globex'])
+
+    expect(sov.platforms[AIPlatform.ChatGPT]?.total_responses).toBe(2)
+    expect(sov.platforms[AIPlatform.ChatGPT]?.entities.map((e) => e.share)).toEqual([0.5, 1, 0])
+    expect(sov.platforms[AIPlatform.Claude]?.entities.map((e) => e.share)).toEqual([0.5, 0, 0.5])
+    expect(sov.platforms[AIPlatform.Perplexity]).toBeUndefined()
+  })
+
+  it('ignores competitors that are no longer configured', () => {
+    const sov = calculateShareOfVoice(observations, 'Brand', ['Acme'])
+    expect(sov.entities.map((e) => e.name)).toEqual(['Brand', 'Acme'])
+  })
+
+  it('returns zero shares when there are no responses', () => {
+    const sov = calculateShareOfVoice([], 'Brand', ['Acme'])
+    expect(sov.total_responses).toBe(0)
+    expect(sov.entities.every((e) => e.share === 0)).toBe(true)
+    expect(sov.platforms).toEqual({})
+  })
+})
+
+describe('buildShareOfVoiceTrend', () => {
+  const first = calculateShareOfVoice(
+    [observation(AIPlatform.ChatGPT, { mentioned: true }, [{ name: 'Acme Inc.' }])],
+    'Brand',
+    ['Acme Inc.']
+  )
+  const second = calculateShareOfVoice(
+    [
+      observation(AIPlatform.Claude, {}, [{ name: 'Acme Inc.', mentioned: true }]),
+      observation(AIPlatform.Claude, { cited: true }, [{ name: 'Acme Inc.' }]),
+      observation(AIPlatform.Claude, {}, [{ name: 'Acme Inc.' }]),
+    ],
+    'Brand',
+    ['Acme Inc.']
+  )
+  const history = [
+    { created_at: '2026-04-01T00:00:00Z', share_of_voice: first },
+    { created_at: '2026-04-02T00:00:00Z', share_of_voice: null },
+    { created_at: '2026-04-03T00:00:00Z', share_of_voice: second },
+  ]
+
+  it('maps entities to chart-safe keys with percentage values', () => {
+    const { points, series } = buildShareOfVoiceTrend(history)
+
+    expect(series).toEqual([
+      { key: 'entity0', name: 'Brand', isBrand: true },
+      { key: 'entity1', name: 'Acme Inc.', isBrand: false },
+    ])
+    expect(points).toEqual([
+      { date: '2026-04-01T00:00:00Z', entity0: 100, entity1: 0 },
+      { date: '2026-04-03T00:00:00Z', entity0: 33.3, entity1: 33.3 },
+    ])
+  })
+
+  it('filters to a single platform', () => {
+    const { points } = buildShareOfVoiceTrend(history, AIPlatform.Claude)
+    expect(points.map((p) => p.date)).toEqual(['2026-04-03T00:00:00Z'])
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { AIPlatform, BrandSentiment } from '@/lib/enums'
+import { AIBillingModel, AIPlatform, BrandSentiment, SyncFrequency } from '@/lib/enums'
 
 vi.mock('@/lib/supabase/server', () => ({
   createServiceClient: vi.fn(),
@@ -17,6 +17,7 @@ vi.mock('@/lib/ai-visibility/budget', () => ({
   getCurrentMonthSpend: vi.fn(),
   canContinueSync: vi.fn(),
   checkBudgetThresholds: vi.fn(),
+  estimatePromptCostCents: vi.fn(),
 }))
 
 vi.mock('@/lib/ai-visibility/alerts', () => ({
@@ -39,18 +40,26 @@ vi.mock('@/lib/app-settings/credentials', () => ({
   getAppCredential: vi.fn().mockResolvedValue('test-api-key'),
 }))
 
-import { syncOrganization } from '@/lib/ai-visibility/sync'
+vi.mock('@/lib/ai/provider', () => ({
+  isAIDisabledForOrganization: vi.fn(),
+  resolveAICredential: vi.fn(),
+}))
+
+import { syncOrganization, syncSinglePrompt } from '@/lib/ai-visibility/sync'
 import { getAdapter } from '@/lib/ai-visibility/platforms/registry'
 import { analyzeResponse } from '@/lib/ai-visibility/analyzer'
 import {
   getCurrentMonthSpend,
   canContinueSync,
   checkBudgetThresholds,
+  estimatePromptCostCents,
 } from '@/lib/ai-visibility/budget'
 import { sendBudgetAlert } from '@/lib/ai-visibility/alerts'
 import { calculateVisibilityScore } from '@/lib/ai-visibility/scorer'
 import { buildOrgContext } from '@/lib/ai-visibility/context'
 import { createServiceClient } from '@/lib/supabase/server'
+import { isAIDisabledForOrganization, resolveAICredential } from '@/lib/ai/provider'
+import { getAppCredential } from '@/lib/app-settings/credentials'
 
 describe('syncOrganization', () => {
   const mockInsert = vi.fn()
@@ -63,10 +72,11 @@ describe('syncOrganization', () => {
     platforms: [AIPlatform.ChatGPT] as AIPlatform[],
     monthly_budget_cents: 10000,
     budget_alert_threshold: 90,
+    sample_count: 1,
     last_alert_type: null,
     last_alert_sent_at: null,
     competitors: [],
-    sync_frequency: 'daily' as const,
+    sync_frequency: SyncFrequency.Daily,
     is_active: true,
     last_sync_at: null,
     created_at: '',
@@ -77,9 +87,15 @@ describe('syncOrganization', () => {
   beforeEach(() => {
     vi.clearAllMocks()
 
+    vi.mocked(isAIDisabledForOrganization).mockResolvedValue(false)
+    vi.mocked(resolveAICredential).mockResolvedValue({
+      apiKey: 'test-api-key',
+      billingModel: AIBillingModel.PlatformBilled,
+    })
     vi.mocked(getCurrentMonthSpend).mockResolvedValue(1000)
     vi.mocked(canContinueSync).mockReturnValue(true)
     vi.mocked(checkBudgetThresholds).mockReturnValue(null)
+    vi.mocked(estimatePromptCostCents).mockReturnValue(0)
 
     const mockAdapter = {
       platform: AIPlatform.ChatGPT,
@@ -110,7 +126,13 @@ describe('syncOrganization', () => {
       competitors: [],
     })
 
-    vi.mocked(calculateVisibilityScore).mockReturnValue(75)
+    vi.mocked(calculateVisibilityScore).mockReturnValue({
+      score: 75,
+      lower: 60,
+      upper: 88,
+      mentionProbability: 1,
+      citationProbability: 0,
+    })
 
     mockInsert.mockResolvedValue({ error: null })
     mockUpdate.mockReturnValue({
@@ -157,6 +179,75 @@ describe('syncOrganization', () => {
     expect(result.budgetExceeded).toBe(false)
   })
 
+  it('stores share of voice for the brand and configured competitors', async () => {
+    await syncOrganization({
+      organizationId: 'org-1',
+      orgName: 'Test Brand',
+      websiteUrl: 'https://testbrand.com',
+      config: makeConfig({ competitors: [{ name: 'Rival', domain: 'rival.com' }] }),
+    })
+
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        score: 75,
+        share_of_voice: expect.objectContaining({
+          total_responses: 2,
+          entities: [
+            expect.objectContaining({ name: 'Test Brand', is_brand: true, share: 1 }),
+            expect.objectContaining({ name: 'Rival', is_brand: false, share: 0 }),
+          ],
+        }),
+      })
+    )
+  })
+
+  it('queries each prompt sample_count times per platform and stores sample indexes', async () => {
+    const result = await syncOrganization({
+      organizationId: 'org-1',
+      orgName: 'Test Brand',
+      websiteUrl: 'https://testbrand.com',
+      config: makeConfig({ sample_count: 3 }),
+    })
+
+    expect(result.queriesCompleted).toBe(6)
+    const resultRows = mockInsert.mock.calls
+      .map(([row]) => row)
+      .filter((row) => 'sample_index' in row)
+    expect(resultRows.map((row) => row.sample_index).sort()).toEqual([0, 0, 1, 1, 2, 2])
+    expect(calculateVisibilityScore).toHaveBeenCalledWith(
+      expect.objectContaining({ totalPrompts: 6, mentionedCount: 6 })
+    )
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        score_lower: 60,
+        score_upper: 88,
+        sample_count: 3,
+        mentions_count: 2,
+        platform_breakdown: {
+          [AIPlatform.ChatGPT]: expect.objectContaining({ mentions: 2, mention_probability: 1 }),
+        },
+      })
+    )
+  })
+
+  it('checks the budget against the cost of every sample of the next prompt', async () => {
+    await syncOrganization({
+      organizationId: 'org-1',
+      orgName: 'Test Brand',
+      websiteUrl: 'https://testbrand.com',
+      config: makeConfig({ sample_count: 3 }),
+    })
+
+    // Before the second prompt: 3 runs at 4 cents each have completed
+    expect(estimatePromptCostCents).toHaveBeenLastCalledWith({
+      spentCents: 12,
+      queriesCompleted: 3,
+      platforms: [AIPlatform.ChatGPT],
+      sampleCount: 3,
+    })
+    expect(canContinueSync).toHaveBeenLastCalledWith(1012, 10000, 0)
+  })
+
   it('stops syncing when budget is exceeded mid-run', async () => {
     vi.mocked(canContinueSync)
       .mockReturnValueOnce(true)
@@ -281,10 +372,10 @@ describe('syncOrganization', () => {
   })
 
   it('reports skipped platforms that have no credentials', async () => {
-    const { getAppCredential } = await import('@/lib/app-settings/credentials')
-    vi.mocked(getAppCredential).mockImplementation(async (key) => {
-      if (key === 'openai') return 'test-key'
-      return null // anthropic has no key
+    vi.mocked(resolveAICredential).mockImplementation(async (provider) => {
+      if (provider === 'openai')
+        return { apiKey: 'test-key', billingModel: AIBillingModel.PlatformBilled }
+      throw new Error('Anthropic API key not configured') // anthropic has no key
     })
 
     const config = makeConfig({ platforms: [AIPlatform.ChatGPT, AIPlatform.Claude] })
@@ -304,4 +395,130 @@ describe('syncOrganization', () => {
     expect(result.skippedPlatforms).toEqual([AIPlatform.Claude])
     expect(result.queriesCompleted).toBe(1) // Only ChatGPT ran
   })
+
+  it("checks platform keys against the organization's own AI key", async () => {
+    vi.mocked(getAppCredential).mockResolvedValue(null)
+    vi.mocked(resolveAICredential).mockResolvedValue({
+      apiKey: 'org-key',
+      billingModel: AIBillingModel.BringOwnKey,
+    })
+
+    const result = await syncOrganization({
+      organizationId: 'org-1',
+      orgName: 'Test Brand',
+      websiteUrl: 'https://testbrand.com',
+      config: makeConfig(),
+    })
+
+    expect(resolveAICredential).toHaveBeenCalledWith('openai', 'org-1')
+    expect(result.skippedPlatforms).toEqual([])
+    expect(result.queriesCompleted).toBe(2)
+  })
+  it('queries nothing when AI is disabled for the organization', async () => {
+    vi.mocked(isAIDisabledForOrganization).mockResolvedValue(true)
+
+    const result = await syncOrganization({
+      organizationId: 'org-1',
+      orgName: 'Test Brand',
+      websiteUrl: 'https://testbrand.com',
+      config: makeConfig(),
+    })
+
+    expect(result.aiDisabled).toBe(true)
+    expect(result.queriesCompleted).toBe(0)
+    expect(getAdapter).not.toHaveBeenCalled()
+  })
+})
+
+describe('syncSinglePrompt', () => {
+  const mockInsert = vi.fn()
+
+  const config = {
+    id: 'config-1',
+    organization_id: 'org-1',
+    platforms: [AIPlatform.ChatGPT, AIPlatform.Claude] as AIPlatform[],
+    monthly_budget_cents: 1000,
+    budget_alert_threshold: 90,
+    sample_count: 3,
+    last_alert_type: null,
+    last_alert_sent_at: null,
+    competitors: [],
+    sync_frequency: SyncFrequency.Daily,
+    is_active: true,
+    last_sync_at: null,
+    created_at: '',
+    updated_at: '',
+  }
+
+  const input = {
+    organizationId: 'org-1',
+    orgName: 'Test Brand',
+    websiteUrl: 'https://testbrand.com',
+    config,
+    promptId: 'prompt-1',
+    promptText: 'Tell me about Test Brand',
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    vi.mocked(isAIDisabledForOrganization).mockResolvedValue(false)
+    vi.mocked(resolveAICredential).mockResolvedValue({
+      apiKey: 'test-api-key',
+      billingModel: AIBillingModel.PlatformBilled,
+    })
+    vi.mocked(getCurrentMonthSpend).mockResolvedValue(990)
+    vi.mocked(estimatePromptCostCents).mockReturnValue(30)
+    vi.mocked(getAdapter).mockReturnValue({
+      platform: AIPlatform.ChatGPT,
+      query: vi.fn().mockResolvedValue({
+        text: 'Brand X is great.',
+        citations: [],
+        model: 'gpt-4o-mini',
+        inputTokens: 100,
+        outputTokens: 200,
+        costCents: 3,
+      }),
+    })
+    vi.mocked(analyzeResponse).mockResolvedValue({
+      brand_mentioned: true,
+      brand_sentiment: BrandSentiment.Positive,
+      brand_position: 1,
+      domain_cited: false,
+      cited_urls: [],
+      competitor_mentions: null,
+      sentiment_cost_cents: 1,
+    })
+    mockInsert.mockResolvedValue({ error: null })
+    vi.mocked(createServiceClient).mockReturnValue({
+      from: vi.fn(() => ({ insert: mockInsert })),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } as any)
+  })
+
+  it('queries nothing when the prompt would go over the monthly budget', async () => {
+    vi.mocked(canContinueSync).mockReturnValue(false)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await syncSinglePrompt(input)
+
+    expect(estimatePromptCostCents).toHaveBeenCalledWith({
+      spentCents: 0,
+      queriesCompleted: 0,
+      platforms: [AIPlatform.ChatGPT, AIPlatform.Claude],
+      sampleCount: 3,
+    })
+    expect(canContinueSync).toHaveBeenCalledWith(990, 1000, 30)
+    expect(getAdapter).not.toHaveBeenCalled()
+    expect(mockInsert).not.toHaveBeenCalled()
+  })
+
+  it('queries every sample on every platform when the budget allows', async () => {
+    vi.mocked(canContinueSync).mockReturnValue(true)
+
+    await syncSinglePrompt(input)
+
+    expect(getAdapter).toHaveBeenCalledTimes(6)
+    expect(mockInsert).toHaveBeenCalledTimes(6)
+  })
 })
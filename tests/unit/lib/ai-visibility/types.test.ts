@@ -22,7 +22,14 @@ describe('AI Visibility types', () => {
   })
 
   it('ALL_PLATFORMS contains all platform values', () => {
-    expect(ALL_PLATFORMS).toEqual([AIPlatform.ChatGPT, AIPlatform.Claude, AIPlatform.Perplexity])
+    expect(ALL_PLATFORMS).toEqual([
+      AIPlatform.ChatGPT,
+      AIPlatform.Claude,
+      AIPlatform.Perplexity,
+      AIPlatform.Gemini,
+      AIPlatform.GoogleAIOverviews,
+      AIPlatform.Copilot,
+    ])
   })
 
   it('type-checks a config object', () => {
@@ -34,6 +41,7 @@ describe('AI Visibility types', () => {
       is_active: true,
       monthly_budget_cents: 10000,
       budget_alert_threshold: 90,
+      sample_count: 1,
       last_alert_sent_at: null,
       last_alert_type: null,
       last_sync_at: null,
@@ -59,6 +67,7 @@ describe('AI Visibility types', () => {
       tokens_used: 500,
       cost_cents: 2,
       queried_at: '2026-04-09T00:00:00Z',
+      sample_index: 0,
       raw_response: null,
       created_at: '2026-04-09T00:00:00Z',
     }
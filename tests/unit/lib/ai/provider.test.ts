@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: vi.fn(),
+}))
+
+vi.mock('@/lib/utils/crypto', () => ({
+  decryptCredentials: vi.fn(),
+}))
+
+vi.mock('@/lib/app-settings/credentials', () => ({
+  getAppCredential: vi.fn(),
+}))
+
+import {
+  AIDisabledError,
+  getBillingModelForProvider,
+  isAIDisabledForOrganization,
+  resolveAICredential,
+} from '@/lib/ai/provider'
+import { createServiceClient } from '@/lib/supabase/server'
+import { decryptCredentials } from '@/lib/utils/crypto'
+import { getAppCredential } from '@/lib/app-settings/credentials'
+import { AIBillingModel, AIProvider } from '@/lib/enums'
+
+function mockOrganization(data: Record<string, unknown> | null) {
+  const maybeSingle = vi.fn().mockResolvedValue({ data, error: null })
+  vi.mocked(createServiceClient).mockReturnValue({
+    from: vi.fn(() => ({
+      select: vi.fn(() => ({ eq: vi.fn(() => ({ maybeSingle })) })),
+    })),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } as any)
+}
+
+describe('getBillingModelForProvider', () => {
+  const byok = {
+    ai_provider: AIProvider.Anthropic,
+    ai_billing_model: AIBillingModel.BringOwnKey,
+    ai_api_key: 'encrypted',
+  }
+
+  it('defaults to platform-billed without organization settings', () => {
+    expect(getBillingModelForProvider(null, 'anthropic')).toBe(AIBillingModel.PlatformBilled)
+  })
+
+  it("uses bring-your-own-key only for the organization's provider", () => {
+    expect(getBillingModelForProvider(byok, 'anthropic')).toBe(AIBillingModel.BringOwnKey)
+    expect(getBillingModelForProvider(byok, 'perplexity')).toBe(AIBillingModel.PlatformBilled)
+  })
+
+  it('treats non-AI services as platform-billed', () => {
+    const disabled = { ...byok, ai_billing_model: AIBillingModel.Disabled }
+    expect(getBillingModelForProvider(disabled, 'pagespeed')).toBe(AIBillingModel.PlatformBilled)
+    expect(getBillingModelForProvider(disabled, 'anthropic')).toBe(AIBillingModel.Disabled)
+  })
+})
+
+describe('resolveAICredential', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getAppCredential).mockResolvedValue('platform-key')
+  })
+
+  it('uses the app credential when called without an organization', async () => {
+    const result = await resolveAICredential('anthropic')
+
+    expect(result).toEqual({ apiKey: 'platform-key', billingModel: AIBillingModel.PlatformBilled })
+    expect(createServiceClient).not.toHaveBeenCalled()
+  })
+
+  it("uses a bring-your-own-key organization's decrypted key", async () => {
+    mockOrganization({
+      ai_provider: AIProvider.Anthropic,
+      ai_billing_model: AIBillingModel.BringOwnKey,
+      ai_api_key: 'encrypted',
+    })
+    vi.mocked(decryptCredentials).mockReturnValue({ api_key: 'org-key' })
+
+    const result = await resolveAICredential('anthropic', 'org-1')
+
+    expect(result).toEqual({ apiKey: 'org-key', billingModel: AIBillingModel.BringOwnKey })
+    expect(decryptCredentials).toHaveBeenCalledWith('encrypted')
+    expect(getAppCredential).not.toHaveBeenCalled()
+  })
+
+  it('throws when a bring-your-own-key organization has no key stored', async () => {
+    mockOrganization({
+      ai_provider: AIProvider.Anthropic,
+      ai_billing_model: AIBillingModel.BringOwnKey,
+      ai_api_key: null,
+    })
+
+    await expect(resolveAICredential('anthropic', 'org-1')).rejects.toThrow(
+      'Anthropic API key not configured for this organization'
+    )
+    expect(getAppCredential).not.toHaveBeenCalled()
+  })
+
+  it('throws AIDisabledError for disabled organizations', async () => {
+    mockOrganization({
+      ai_provider: AIProvider.Anthropic,
+      ai_billing_model: AIBillingModel.Disabled,
+      ai_api_key: null,
+    })
+
+    await expect(resolveAICredential('openai', 'org-1')).rejects.toBeInstanceOf(AIDisabledError)
+  })
+})
+
+describe('isAIDisabledForOrganization', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('is false without an organization', async () => {
+    expect(await isAIDisabledForOrganization(null)).toBe(false)
+    expect(createServiceClient).not.toHaveBeenCalled()
+  })
+
+  it("reflects the organization's billing model", async () => {
+    mockOrganization({
+      ai_provider: AIProvider.None,
+      ai_billing_model: AIBillingModel.Disabled,
+      ai_api_key: null,
+    })
+    expect(await isAIDisabledForOrganization('org-1')).toBe(true)
+
+    mockOrganization({
+      ai_provider: AIProvider.Anthropic,
+      ai_billing_model: AIBillingModel.PlatformBilled,
+      ai_api_key: null,
+    })
+    expect(await isAIDisabledForOrganization('org-1')).toBe(false)
+  })
+})
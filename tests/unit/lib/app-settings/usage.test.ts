@@ -4,12 +4,19 @@ vi.mock('@/lib/supabase/server', () => ({
   createServiceClient: vi.fn(),
 }))
 
+vi.mock('@/lib/ai/provider', () => ({
+  getOrganizationBillingModel: vi.fn(),
+}))
+
 import { logUsage } from '@/lib/app-settings/usage'
 import { createServiceClient } from '@/lib/supabase/server'
+import { getOrganizationBillingModel } from '@/lib/ai/provider'
+import { AIBillingModel } from '@/lib/enums'
 
 describe('logUsage', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    vi.mocked(getOrganizationBillingModel).mockResolvedValue(AIBillingModel.PlatformBilled)
   })
 
   it('inserts a usage log record via service client', async () => {
@@ -36,6 +43,7 @@ describe('logUsage', () => {
       tokens_output: 500,
       cost: 0.0045,
       metadata: { model: 'claude-sonnet-4-5-20250514' },
+      billing_model: AIBillingModel.PlatformBilled,
     })
   })
 
@@ -75,9 +83,25 @@ describe('logUsage', () => {
       tokens_output: null,
       cost: null,
       metadata: null,
+      billing_model: AIBillingModel.PlatformBilled,
     })
   })
 
+  it("records the organization's billing model for the service", async () => {
+    const mockInsert = vi.fn().mockResolvedValue({ error: null })
+    const mockFrom = vi.fn().mockReturnValue({ insert: mockInsert })
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(createServiceClient).mockReturnValue({ from: mockFrom } as any)
+    vi.mocked(getOrganizationBillingModel).mockResolvedValue(AIBillingModel.BringOwnKey)
+
+    await logUsage('anthropic', 'summary_generation', { organizationId: 'org-123' })
+
+    expect(getOrganizationBillingModel).toHaveBeenCalledWith('org-123', 'anthropic')
+    expect(mockInsert).toHaveBeenCalledWith(
+      expect.objectContaining({ billing_model: AIBillingModel.BringOwnKey })
+    )
+  })
+
   it('includes feature field when provided', async () => {
     const mockInsert = vi.fn().mockResolvedValue({ error: null })
     const mockFrom = vi.fn().mockReturnValue({ insert: mockInsert })
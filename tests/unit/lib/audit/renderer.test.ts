@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('playwright-core', () => ({
+  chromium: { launch: vi.fn() },
+}))
+
+import { chromium } from 'playwright-core'
+import { renderPage, closeRenderer } from '@/lib/audit/renderer'
+
+function mockBrowser(newContext: () => Promise<unknown>) {
+  return { newContext: vi.fn(newContext), close: vi.fn(async () => {}) }
+}
+
+describe('renderPage', () => {
+  beforeEach(async () => {
+    await closeRenderer()
+    vi.clearAllMocks()
+  })
+
+  it('returns an error and relaunches when the browser cannot open a context', async () => {
+    const crashed = mockBrowser(async () => {
+      throw new Error('Target closed')
+    })
+    const page = {
+      goto: vi.fn(async () => null),
+      waitForTimeout: vi.fn(async () => {}),
+      content: vi.fn(async () => '<html></html>'),
+    }
+    const healthy = mockBrowser(async () => ({
+      newPage: vi.fn(async () => page),
+      close: vi.fn(async () => {}),
+    }))
+    vi.mocked(chromium.launch)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .mockResolvedValueOnce(crashed as any)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .mockResolvedValueOnce(healthy as any)
+
+    await expect(renderPage('https://example.com/')).resolves.toEqual({
+      html: '',
+      error: 'Target closed',
+    })
+    expect(crashed.close).toHaveBeenCalled()
+
+    await expect(renderPage('https://example.com/')).resolves.toEqual({ html: '<html></html>' })
+    expect(chromium.launch).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildTrackedLinkUrl,
+  parseTrackedLinksCsv,
+  trackedLinksToCsv,
+  validateTrackedLink,
+  type TrackedLink,
+} from '@/lib/campaigns/tracked-links'
+
+const defaults = {
+  utm_source: 'selo',
+  utm_medium: 'social',
+  utm_campaign: 'spring-launch',
+  utm_term: null,
+  utm_content: 'default-creative',
+}
+
+function link(overrides: Partial<TrackedLink> = {}): TrackedLink {
+  return {
+    id: 'link-1',
+    campaign_id: 'campaign-1',
+    name: 'LinkedIn post',
+    destination_url: 'https://example.com/launch?ref=nav',
+    utm_source: null,
+    utm_content: null,
+    last_status_code: null,
+    last_checked_at: null,
+    ...overrides,
+  }
+}
+
+describe('buildTrackedLinkUrl', () => {
+  it('applies campaign defaults and keeps existing query parameters', () => {
+    expect(buildTrackedLinkUrl(link(), defaults)).toBe(
+      'https://example.com/launch?ref=nav&utm_source=selo&utm_medium=social&utm_campaign=spring-launch&utm_content=default-creative'
+    )
+  })
+
+  it('uses the link source and content overrides', () => {
+    const url = new URL(
+      buildTrackedLinkUrl(link({ utm_source: 'linkedin', utm_content: 'carousel-a' }), defaults)
+    )
+    expect(url.searchParams.get('utm_source')).toBe('linkedin')
+    expect(url.searchParams.get('utm_content')).toBe('carousel-a')
+    expect(url.searchParams.get('utm_campaign')).toBe('spring-launch')
+  })
+})
+
+describe('validateTrackedLink', () => {
+  const input = {
+    name: 'Post',
+    destination_url: 'https://example.com',
+    utm_source: '',
+    utm_content: '',
+  }
+
+  it('accepts http(s) destinations', () => {
+    expect(validateTrackedLink(input)).toBeNull()
+  })
+
+  it('rejects missing names and non-web destinations', () => {
+    expect(validateTrackedLink({ ...input, name: '  ' })).toBe('Link name is required')
+    expect(validateTrackedLink({ ...input, destination_url: 'ftp://example.com' })).toBe(
+      'Destination must be an http or https URL'
+    )
+    expect(validateTrackedLink({ ...input, destination_url: 'example' })).toBe(
+      'Destination must be a valid URL'
+    )
+  })
+})
+
+describe('parseTrackedLinksCsv', () => {
+  it('reads columns by header name and ignores extra columns', () => {
+    const csv = [
+      'Destination_URL,name,tracked_url,utm_content',
+      'https://example.com/a,Post A,https://ignored,video',
+      'https://example.com/b,Post B,,',
+    ].join('\n')
+
+    expect(parseTrackedLinksCsv(csv)).toEqual({
+      links: [
+        {
+          name: 'Post A',
+          destination_url: 'https://example.com/a',
+          utm_source: '',
+          utm_content: 'video',
+        },
+        {
+          name: 'Post B',
+          destination_url: 'https://example.com/b',
+          utm_source: '',
+          utm_content: '',
+        },
+      ],
+      errors: [],
+    })
+  })
+
+  it('reports invalid and duplicate rows by spreadsheet row number', () => {
+    const csv = [
+      'name,destination_url',
+      'Post A,https://example.com/a',
+      'Post B,not a url',
+      'post a,https://example.com/c',
+    ].join('\n')
+
+    expect(parseTrackedLinksCsv(csv).errors).toEqual([
+      'Row 3: Destination must be a valid URL',
+      'Row 4: Duplicate link name "post a"',
+    ])
+  })
+
+  it('requires the name and destination_url columns', () => {
+    expect(parseTrackedLinksCsv('title,url\nA,https://example.com').errors).toEqual([
+      'The header row must include name and destination_url',
+    ])
+  })
+
+  it('round-trips an export', () => {
+    const links = [link({ utm_source: 'linkedin' }), link({ id: 'link-2', name: 'Email, footer' })]
+    const { links: parsed, errors } = parseTrackedLinksCsv(trackedLinksToCsv(links, defaults))
+
+    expect(errors).toEqual([])
+    expect(parsed.map((l) => [l.name, l.utm_source])).toEqual([
+      ['LinkedIn post', 'linkedin'],
+      ['Email, footer', ''],
+    ])
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  sendEmail: vi.fn(),
+  isSuppressed: vi.fn(),
+  getOrganizationAnalyticsClient: vi.fn(),
+  CampaignWeeklyReportEmail: vi.fn((props: Record<string, unknown>) => ({ props })),
+}))
+
+vi.mock('@/emails/campaign-weekly-report-email', () => ({
+  default: mocks.CampaignWeeklyReportEmail,
+}))
+
+vi.mock('@/lib/email/client', () => ({
+  sendEmail: mocks.sendEmail,
+  isSuppressed: mocks.isSuppressed,
+  FROM_EMAIL: 'reports@selo.io',
+}))
+
+vi.mock('@/lib/platforms/google-analytics/campaign-performance', () => ({
+  ATTRIBUTABLE_CAMPAIGN_COLUMNS: 'id',
+  getOrganizationAnalyticsClient: mocks.getOrganizationAnalyticsClient,
+}))
+
+import {
+  buildReportMetrics,
+  formatScheduleLabel,
+  getDaysRemaining,
+  sendCampaignWeeklyReports,
+} from '@/lib/campaigns/weekly-report'
+
+describe('getDaysRemaining', () => {
+  const now = new Date('2026-04-13T07:00:00Z')
+
+  it('counts whole days to the end date', () => {
+    expect(getDaysRemaining('2026-04-25', now)).toBe(12)
+    expect(getDaysRemaining('2026-04-13', now)).toBe(0)
+    expect(getDaysRemaining('2026-04-10', now)).toBe(-3)
+    expect(getDaysRemaining(null, now)).toBeNull()
+  })
+
+  it('formats the schedule for the email', () => {
+    expect(formatScheduleLabel('2026-04-14', now)).toBe('1 day remaining')
+    expect(formatScheduleLabel('2026-04-13', now)).toBe('Ends today')
+    expect(formatScheduleLabel('2026-04-10', now)).toBe('Ended Apr 10')
+    expect(formatScheduleLabel(null, now)).toBe('No end date')
+  })
+})
+
+describe('buildReportMetrics', () => {
+  it('compares each metric with the prior week', () => {
+    expect(
+      buildReportMetrics(
+        { sessions: 1500, users: 900, conversions: 12 },
+        { sessions: 1000, users: 1000, conversions: 0 }
+      )
+    ).toEqual([
+      { label: 'Sessions', value: '1,500', delta: '+50.0%', direction: 'up' },
+      { label: 'Users', value: '900', delta: '-10.0%', direction: 'down' },
+      { label: 'Conversions', value: '12', delta: null, direction: 'flat' },
+    ])
+  })
+})
+
+describe('sendCampaignWeeklyReports', () => {
+  const weekStart = new Date('2026-04-06T00:00:00Z')
+  const weekEnd = new Date('2026-04-12T00:00:00Z')
+
+  function makeSupabase(campaigns: Record<string, unknown>[]) {
+    const query = {
+      select: vi.fn(() => query),
+      or: vi.fn(() => query),
+      not: vi.fn(() => Promise.resolve({ data: campaigns, error: null })),
+    }
+    return { from: vi.fn(() => query), query }
+  }
+
+  const campaign = {
+    id: 'campaign-1',
+    organization_id: 'org-1',
+    name: 'Spring Launch',
+    status: 'active',
+    start_date: '2026-03-01',
+    end_date: '2026-04-30',
+    created_at: '2026-02-20T00:00:00Z',
+    utm_source: 'selo',
+    utm_medium: null,
+    utm_campaign: 'spring-launch',
+    weekly_report_recipients: ['a@example.com', 'bounced@example.com'],
+    organizations: { name: 'Acme' },
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mocks.sendEmail.mockResolvedValue({ data: { id: 'msg-1' }, error: null })
+    mocks.isSuppressed.mockImplementation(async (email: string) => email.startsWith('bounced'))
+  })
+
+  it('sends to unsuppressed recipients with this week and last week from GA', async () => {
+    const fetchCampaignPerformance = vi
+      .fn()
+      .mockResolvedValueOnce({ sessions: 200, users: 150, conversions: 4 })
+      .mockResolvedValueOnce({ sessions: 100, users: 90, conversions: 2 })
+    mocks.getOrganizationAnalyticsClient.mockResolvedValue({ fetchCampaignPerformance })
+    const supabase = makeSupabase([campaign])
+
+    const result = await sendCampaignWeeklyReports(supabase as never, weekStart, weekEnd)
+
+    expect(result).toEqual({ campaigns: 1, sent: 1, failed: 0, suppressed: 1 })
+    expect(fetchCampaignPerformance).toHaveBeenNthCalledWith(
+      2,
+      new Date('2026-03-30T00:00:00Z'),
+      new Date('2026-04-05T00:00:00Z'),
+      { utmCampaign: 'spring-launch', utmSource: 'selo', utmMedium: null }
+    )
+    expect(mocks.sendEmail).toHaveBeenCalledTimes(1)
+    expect(mocks.sendEmail.mock.calls[0][0]).toMatchObject({
+      to: 'a@example.com',
+      subject: 'Weekly Campaign Report — Spring Launch',
+      idempotencyKey: 'campaign-weekly-report-campaign-1-2026-04-06-a@example.com',
+    })
+    expect(mocks.CampaignWeeklyReportEmail.mock.calls[0][0]).toMatchObject({
+      organizationName: 'Acme',
+      statusLabel: 'Active',
+      weekStartDate: 'Apr 6',
+    })
+    expect(mocks.sendEmail.mock.calls[0][0].react.props.metrics[0]).toEqual({
+      label: 'Sessions',
+      value: '200',
+      delta: '+100.0%',
+      direction: 'up',
+    })
+  })
+
+  it('still sends status-only reports without a GA connection', async () => {
+    mocks.getOrganizationAnalyticsClient.mockResolvedValue(null)
+    const supabase = makeSupabase([
+      { ...campaign, weekly_report_recipients: ['a@example.com'] },
+      { ...campaign, id: 'campaign-2', weekly_report_recipients: [] },
+    ])
+
+    const result = await sendCampaignWeeklyReports(supabase as never, weekStart, weekEnd)
+
+    expect(result).toEqual({ campaigns: 1, sent: 1, failed: 0, suppressed: 0 })
+    expect(mocks.sendEmail.mock.calls[0][0].react.props.metrics).toEqual([])
+  })
+})
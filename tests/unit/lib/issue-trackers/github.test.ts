@@ -0,0 +1,78 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest'
+import { GitHubClient } from '@/lib/issue-trackers/github'
+import { startHttpStub, type HttpStub, type RecordedRequest } from '@/tests/helpers/http-stub'
+
+let stub: HttpStub | null = null
+
+afterEach(async () => {
+  await stub?.close()
+  stub = null
+})
+
+async function startGitHub(
+  handler: (request: RecordedRequest) => { status?: number; body?: unknown }
+) {
+  stub = await startHttpStub(handler)
+  const client = new GitHubClient(
+    { api_token: 'ghp_token' },
+    { owner: 'acme', repo: 'website', api_base_url: `${stub.url}/api/v3` }
+  )
+  return { client, stub }
+}
+
+describe('GitHubClient', () => {
+  it('creates an issue with the mapped priority added as a label', async () => {
+    const { client, stub } = await startGitHub(() => ({
+      status: 201,
+      body: { number: 56, html_url: 'https://github.com/acme/website/issues/56' },
+    }))
+
+    const issue = await client.createIssue({
+      title: 'Missing alt text (example.com)',
+      body: '## How to fix',
+      priority: 'priority: critical',
+      labels: ['seo-audit'],
+    })
+
+    expect(issue).toEqual({
+      id: '56',
+      key: '#56',
+      url: 'https://github.com/acme/website/issues/56',
+    })
+    const [request] = stub.requests
+    expect(request.method).toBe('POST')
+    expect(request.path).toBe('/api/v3/repos/acme/website/issues')
+    expect(request.headers.authorization).toBe('Bearer ghp_token')
+    expect(request.headers['x-github-api-version']).toBe('2022-11-28')
+    expect(request.headers.accept).toBe('application/vnd.github+json')
+    expect(request.body).toEqual({
+      title: 'Missing alt text (example.com)',
+      body: '## How to fix',
+      labels: ['seo-audit', 'priority: critical'],
+    })
+  })
+
+  it('comments on and closes an issue as completed', async () => {
+    const { client, stub } = await startGitHub(() => ({ body: {} }))
+
+    await client.addComment('56', 'All checks passed')
+    await client.closeIssue('56')
+
+    expect(stub.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      'POST /api/v3/repos/acme/website/issues/56/comments',
+      'PATCH /api/v3/repos/acme/website/issues/56',
+    ])
+    expect(stub.requests[0].body).toEqual({ body: 'All checks passed' })
+    expect(stub.requests[1].body).toEqual({ state: 'closed', state_reason: 'completed' })
+  })
+
+  it('throws with the status on API errors', async () => {
+    const { client } = await startGitHub(() => ({
+      status: 404,
+      body: { message: 'Not Found' },
+    }))
+
+    await expect(client.closeIssue('999')).rejects.toThrow(/GitHub API error \(404\)/)
+  })
+})
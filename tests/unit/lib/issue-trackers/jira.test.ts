@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest'
+import { JiraClient, markdownToAdf } from '@/lib/issue-trackers/jira'
+import { startHttpStub, type HttpStub, type RecordedRequest } from '@/tests/helpers/http-stub'
+
+const credentials = { api_token: 'jira-token', email: 'seo@example.com' }
+
+let stub: HttpStub | null = null
+
+afterEach(async () => {
+  await stub?.close()
+  stub = null
+})
+
+async function startJira(
+  handler: (request: RecordedRequest) => { status?: number; body?: unknown }
+) {
+  stub = await startHttpStub(handler)
+  const client = new JiraClient(credentials, {
+    base_url: `${stub.url}/`,
+    project_key: 'SEO',
+    issue_type: 'Task',
+  })
+  return { client, stub }
+}
+
+describe('markdownToAdf', () => {
+  it('converts headings, bullet lists and links', () => {
+    const doc = markdownToAdf('Intro\n\n## Pages\n- /a\n- /b\n\n[Learn more](https://example.com)')
+
+    expect(doc.content!.map((n) => n.type)).toEqual([
+      'paragraph',
+      'heading',
+      'bulletList',
+      'paragraph',
+    ])
+    expect(doc.content![1].attrs).toEqual({ level: 2 })
+    expect(doc.content![2].content).toHaveLength(2)
+    expect(doc.content![3].content![0]).toEqual({
+      type: 'text',
+      text: 'Learn more',
+      marks: [{ type: 'link', attrs: { href: 'https://example.com' } }],
+    })
+  })
+})
+
+describe('JiraClient', () => {
+  it('creates an issue with basic auth, mapped priority and labels', async () => {
+    const { client, stub } = await startJira(() => ({
+      status: 201,
+      body: { id: '10001', key: 'SEO-12' },
+    }))
+
+    const issue = await client.createIssue({
+      title: 'Missing meta description (example.com)',
+      body: '## How to fix\nAdd one',
+      priority: 'High',
+      labels: ['seo audit'],
+    })
+
+    expect(issue).toEqual({ id: '10001', key: 'SEO-12', url: `${stub.url}/browse/SEO-12` })
+
+    const [request] = stub.requests
+    expect(request.method).toBe('POST')
+    expect(request.path).toBe('/rest/api/3/issue')
+    expect(request.headers.authorization).toBe(
+      `Basic ${Buffer.from('seo@example.com:jira-token').toString('base64')}`
+    )
+    expect(request.body).toMatchObject({
+      fields: {
+        project: { key: 'SEO' },
+        issuetype: { name: 'Task' },
+        summary: 'Missing meta description (example.com)',
+        labels: ['seo-audit'],
+        priority: { name: 'High' },
+        description: { type: 'doc' },
+      },
+    })
+  })
+
+  it('closes an issue through the transition into a done status', async () => {
+    const { client, stub } = await startJira((request) =>
+      request.method === 'GET'
+        ? {
+            body: {
+              transitions: [
+                { id: '11', to: { statusCategory: { key: 'indeterminate' } } },
+                { id: '31', to: { statusCategory: { key: 'done' } } },
+              ],
+            },
+          }
+        : { status: 204 }
+    )
+
+    await client.closeIssue('10001')
+
+    expect(stub.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      'GET /rest/api/3/issue/10001/transitions',
+      'POST /rest/api/3/issue/10001/transitions',
+    ])
+    expect(stub.requests[1].body).toEqual({ transition: { id: '31' } })
+  })
+
+  it('throws with the status and response body on API errors', async () => {
+    const { client } = await startJira(() => ({
+      status: 400,
+      body: { errors: { priority: 'Priority name is invalid' } },
+    }))
+
+    await expect(client.addComment('10001', 'Fixed')).rejects.toThrow(
+      /Jira API error \(400\).*Priority name is invalid/
+    )
+  })
+})
@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest'
+import { LinearClient } from '@/lib/issue-trackers/linear'
+import { startHttpStub, type HttpStub, type RecordedRequest } from '@/tests/helpers/http-stub'
+
+let stub: HttpStub | null = null
+
+afterEach(async () => {
+  await stub?.close()
+  stub = null
+})
+
+async function startLinear(
+  handler: (request: RecordedRequest) => { status?: number; body?: unknown }
+) {
+  stub = await startHttpStub(handler)
+  const client = new LinearClient({ api_token: 'lin_api_key' }, { team_id: 'team-1' }, stub.url)
+  return { client, stub }
+}
+
+function operation(request: RecordedRequest): string {
+  return (request.body as { query: string }).query.match(/^(?:mutation|query) (\w+)/)![1]
+}
+
+describe('LinearClient', () => {
+  it('creates an issue with a numeric priority and Markdown description', async () => {
+    const { client, stub } = await startLinear(() => ({
+      body: {
+        data: {
+          issueCreate: {
+            success: true,
+            issue: { id: 'uuid-1', identifier: 'ENG-34', url: 'https://linear.app/acme/ENG-34' },
+          },
+        },
+      },
+    }))
+
+    const issue = await client.createIssue({
+      title: 'Broken links (example.com)',
+      body: '## Affected pages',
+      priority: '2',
+      labels: [],
+    })
+
+    expect(issue).toEqual({ id: 'uuid-1', key: 'ENG-34', url: 'https://linear.app/acme/ENG-34' })
+    const [request] = stub.requests
+    expect(request.headers.authorization).toBe('lin_api_key')
+    expect(operation(request)).toBe('CreateIssue')
+    expect(request.body).toMatchObject({
+      variables: {
+        input: {
+          teamId: 'team-1',
+          title: 'Broken links (example.com)',
+          description: '## Affected pages',
+          priority: 2,
+        },
+      },
+    })
+  })
+
+  it('omits a non-numeric priority', async () => {
+    const { client, stub } = await startLinear(() => ({
+      body: {
+        data: { issueCreate: { success: true, issue: { id: 'a', identifier: 'ENG-1', url: '' } } },
+      },
+    }))
+
+    await client.createIssue({ title: 'T', body: 'B', priority: 'High', labels: [] })
+
+    const input = (stub.requests[0].body as { variables: { input: Record<string, unknown> } })
+      .variables.input
+    expect(input).not.toHaveProperty('priority')
+  })
+
+  it("closes an issue by moving it to the team's first completed state", async () => {
+    const { client, stub } = await startLinear((request) =>
+      operation(request) === 'CompletedStates'
+        ? {
+            body: {
+              data: {
+                issue: {
+                  team: {
+                    states: {
+                      nodes: [
+                        { id: 'state-released', position: 5 },
+                        { id: 'state-done', position: 2 },
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          }
+        : { body: { data: { issueUpdate: { success: true } } } }
+    )
+
+    await client.closeIssue('uuid-1')
+
+    expect(stub.requests.map(operation)).toEqual(['CompletedStates', 'UpdateIssue'])
+    expect(stub.requests[1].body).toMatchObject({
+      variables: { id: 'uuid-1', input: { stateId: 'state-done' } },
+    })
+  })
+
+  it('throws on GraphQL errors returned with a 200 status', async () => {
+    const { client } = await startLinear(() => ({
+      body: { errors: [{ message: 'Entity not found' }] },
+    }))
+
+    await expect(client.addComment('missing', 'Fixed')).rejects.toThrow(
+      'Linear API error: Entity not found'
+    )
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { buildTicketDrafts, toIssueInput, type TicketCheck } from '@/lib/issue-trackers/mapping'
+import { CheckPriority, IssueTracker, TicketGrouping } from '@/lib/enums'
+
+function check(overrides: Partial<TicketCheck>): TicketCheck {
+  return {
+    check_name: 'missing_meta_description',
+    page_url: 'https://example.com/',
+    display_name: 'Missing meta description',
+    description: 'Pages need a meta description.',
+    priority: CheckPriority.Recommended,
+    fix_guidance: 'Add a unique meta description.',
+    learn_more_url: 'https://developers.google.com/search/docs',
+    ...overrides,
+  }
+}
+
+const CHECKS = [
+  check({ page_url: 'https://example.com/' }),
+  check({ page_url: 'https://example.com/about' }),
+  check({
+    check_name: 'missing_title',
+    display_name: 'Missing title',
+    priority: CheckPriority.Critical,
+    page_url: 'https://example.com/about',
+    learn_more_url: null,
+  }),
+  check({
+    check_name: 'no_sitemap',
+    display_name: 'No sitemap',
+    priority: CheckPriority.Optional,
+    page_url: null,
+    fix_guidance: null,
+  }),
+]
+
+describe('buildTicketDrafts', () => {
+  it('creates one draft per check type listing affected pages, highest priority first', () => {
+    const drafts = buildTicketDrafts(CHECKS, TicketGrouping.CheckType, 'example.com')
+
+    expect(drafts.map((d) => d.check_name)).toEqual([
+      'missing_title',
+      'missing_meta_description',
+      'no_sitemap',
+    ])
+
+    const meta = drafts[1]
+    expect(meta).toMatchObject({
+      grouping: TicketGrouping.CheckType,
+      page_url: null,
+      check_names: ['missing_meta_description'],
+      title: 'Missing meta description (example.com)',
+      priority: CheckPriority.Recommended,
+    })
+    expect(meta.body).toContain('## Affected pages on example.com (2)')
+    expect(meta.body).toContain('- https://example.com/about')
+    expect(meta.body).toContain('## How to fix\nAdd a unique meta description.')
+    expect(meta.body).toContain('[Learn more](https://developers.google.com/search/docs)')
+
+    expect(drafts[2].body).toContain('- Site-wide')
+    expect(drafts[2].body).not.toContain('How to fix')
+  })
+
+  it('creates one draft per page with the highest priority of its checks', () => {
+    const drafts = buildTicketDrafts(CHECKS, TicketGrouping.Page, 'example.com')
+
+    expect(drafts).toHaveLength(3)
+    const about = drafts[0]
+    expect(about).toMatchObject({
+      grouping: TicketGrouping.Page,
+      check_name: null,
+      page_url: 'https://example.com/about',
+      check_names: ['missing_meta_description', 'missing_title'],
+      title: 'Fix 2 audit issues on https://example.com/about',
+      priority: CheckPriority.Critical,
+    })
+    expect(about.body).toContain('## Missing title')
+
+    expect(drafts[2]).toMatchObject({
+      page_url: null,
+      title: 'Fix 1 audit issue on Site-wide',
+    })
+  })
+
+  it('caps the listed pages on large sites', () => {
+    const many = Array.from({ length: 60 }, (_, i) =>
+      check({ page_url: `https://example.com/p${i}` })
+    )
+    const [draft] = buildTicketDrafts(many, TicketGrouping.CheckType, 'example.com')
+
+    expect(draft.body).toContain('(60)')
+    expect(draft.body).toContain('- …and 10 more')
+    expect(draft.body).not.toContain('/p55')
+  })
+})
+
+describe('toIssueInput', () => {
+  const [draft] = buildTicketDrafts(CHECKS, TicketGrouping.CheckType, 'example.com')
+
+  it("uses the organization's priority mapping and labels", () => {
+    const input = toIssueInput(draft, {
+      tracker: IssueTracker.Jira,
+      priority_mapping: { [CheckPriority.Critical]: 'Highest' },
+      labels: ['seo'],
+    })
+
+    expect(input).toEqual({
+      title: draft.title,
+      body: draft.body,
+      priority: 'Highest',
+      labels: ['seo'],
+    })
+  })
+
+  it('falls back to the default mapping for the tracker', () => {
+    const base = { priority_mapping: {}, labels: [] }
+
+    expect(toIssueInput(draft, { ...base, tracker: IssueTracker.Jira }).priority).toBe('High')
+    expect(toIssueInput(draft, { ...base, tracker: IssueTracker.Linear }).priority).toBe('2')
+    expect(toIssueInput(draft, { ...base, tracker: IssueTracker.GitHub }).priority).toBe(
+      'priority: critical'
+    )
+  })
+})
@@ -0,0 +1,294 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: vi.fn(),
+}))
+
+vi.mock('@/lib/utils/crypto', () => ({
+  decryptCredentials: vi.fn(() => ({ api_token: 'ghp_token' })),
+}))
+
+import {
+  isTicketResolved,
+  pushAuditChecksToTracker,
+  syncAuditCheckTickets,
+} from '@/lib/issue-trackers/tickets'
+import { createServiceClient } from '@/lib/supabase/server'
+import { makeChain } from '@/tests/helpers/supabase-mocks'
+import { startHttpStub, type HttpStub } from '@/tests/helpers/http-stub'
+import {
+  CheckPriority,
+  CheckStatus,
+  IssueTracker,
+  TicketGrouping,
+  TicketStatus,
+  UnifiedAuditStatus,
+} from '@/lib/enums'
+
+const AUDIT = {
+  id: 'audit-2',
+  organization_id: 'org-1',
+  domain: 'example.com',
+  status: UnifiedAuditStatus.Completed,
+}
+
+const ABOUT = 'https://example.com/about'
+
+const FAILED_CHECK = {
+  check_name: 'missing_title',
+  page_url: ABOUT,
+  display_name: 'Missing title',
+  description: 'Pages need a title.',
+  priority: CheckPriority.Critical,
+  fix_guidance: 'Add a title element.',
+  learn_more_url: null,
+}
+
+function openTicket(overrides: Record<string, unknown>) {
+  return {
+    id: 'ticket-1',
+    organization_id: 'org-1',
+    domain: 'example.com',
+    tracker: IssueTracker.GitHub,
+    grouping: TicketGrouping.CheckType,
+    check_name: 'missing_title',
+    page_url: null,
+    check_names: ['missing_title'],
+    external_id: '7',
+    external_key: '#7',
+    external_url: null,
+    status: TicketStatus.Open,
+    ...overrides,
+  }
+}
+
+let stub: HttpStub
+
+beforeEach(async () => {
+  stub = await startHttpStub((request) =>
+    request.method === 'POST' && request.path.endsWith('/issues')
+      ? { status: 201, body: { number: 56, html_url: 'https://github.com/acme/website/issues/56' } }
+      : { body: {} }
+  )
+})
+
+afterEach(async () => {
+  await stub.close()
+})
+
+function mockSupabase(options: {
+  /** audit_checks rows: failed checks for pushes, all results for syncs */
+  checks: Record<string, unknown>[]
+  openTickets: Record<string, unknown>[]
+  autoClose?: boolean
+}) {
+  const config = {
+    organization_id: 'org-1',
+    tracker: IssueTracker.GitHub,
+    credentials: 'encrypted',
+    settings: { owner: 'acme', repo: 'website', api_base_url: stub.url },
+    priority_mapping: {},
+    labels: ['seo-audit'],
+    auto_close: options.autoClose ?? true,
+  }
+  const ticketInsert = vi.fn()
+  const ticketUpdate = vi.fn()
+
+  const ticketsChain: Record<string, unknown> = makeChain({
+    then: (resolve: (value: unknown) => void) =>
+      resolve({ data: options.openTickets, error: null }),
+    insert: vi.fn((row: Record<string, unknown>) => {
+      ticketInsert(row)
+      return makeChain({
+        single: vi.fn(async () => ({ data: { id: 'new-ticket', ...row }, error: null })),
+      })
+    }),
+    update: vi.fn((values: Record<string, unknown>) => {
+      ticketUpdate(values)
+      return makeChain({ eq: vi.fn(async () => ({ error: null })) })
+    }),
+  })
+
+  vi.mocked(createServiceClient).mockReturnValue({
+    from: vi.fn((table: string) => {
+      if (table === 'audits') {
+        return makeChain({ single: vi.fn(async () => ({ data: AUDIT, error: null })) })
+      }
+      if (table === 'issue_tracker_configs') {
+        return makeChain({ maybeSingle: vi.fn(async () => ({ data: config, error: null })) })
+      }
+      if (table === 'audit_checks') {
+        return makeChain({
+          range: vi.fn(async () => ({ data: options.checks, error: null })),
+        })
+      }
+      return ticketsChain
+    }),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } as any)
+
+  return { ticketInsert, ticketUpdate }
+}
+
+function result(checkName: string, status: CheckStatus, pageUrl: string | null = ABOUT) {
+  return { check_name: checkName, page_url: pageUrl, status }
+}
+
+describe('isTicketResolved', () => {
+  it('resolves check-type tickets once the check passes with no failures', () => {
+    const ticket = openTicket({}) as never
+
+    expect(isTicketResolved(ticket, [result('missing_title', CheckStatus.Passed)])).toBe(true)
+    expect(
+      isTicketResolved(ticket, [
+        result('missing_title', CheckStatus.Passed),
+        result('missing_title', CheckStatus.Failed, 'https://example.com/pricing'),
+      ])
+    ).toBe(false)
+  })
+
+  it('keeps tickets open when the audit did not run the check', () => {
+    expect(isTicketResolved(openTicket({}) as never, [])).toBe(false)
+    expect(
+      isTicketResolved(openTicket({}) as never, [result('missing_h1', CheckStatus.Passed)])
+    ).toBe(false)
+  })
+
+  it('follows only the original checks on the page for page tickets', () => {
+    const pageTicket = openTicket({
+      grouping: TicketGrouping.Page,
+      check_name: null,
+      page_url: ABOUT,
+      check_names: ['missing_title', 'missing_h1'],
+    }) as never
+
+    expect(
+      isTicketResolved(pageTicket, [
+        result('missing_title', CheckStatus.Passed),
+        result('missing_h1', CheckStatus.Passed),
+        result('missing_alt', CheckStatus.Failed),
+      ])
+    ).toBe(true)
+    // Passing elsewhere says nothing about this page
+    expect(
+      isTicketResolved(pageTicket, [
+        result('missing_title', CheckStatus.Passed),
+        result('missing_h1', CheckStatus.Passed, 'https://example.com/pricing'),
+      ])
+    ).toBe(false)
+  })
+})
+
+describe('pushAuditChecksToTracker', () => {
+  it('creates an issue per check and records the external ID', async () => {
+    const { ticketInsert } = mockSupabase({ checks: [FAILED_CHECK], openTickets: [] })
+
+    const result = await pushAuditChecksToTracker({
+      auditId: 'audit-2',
+      grouping: TicketGrouping.CheckType,
+      userId: 'user-1',
+    })
+
+    expect(result.created).toHaveLength(1)
+    expect(result.skipped).toBe(0)
+    expect(stub.requests).toHaveLength(1)
+    expect(stub.requests[0].body).toMatchObject({
+      title: 'Missing title (example.com)',
+      labels: ['seo-audit', 'priority: critical'],
+    })
+    expect(ticketInsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tracker: IssueTracker.GitHub,
+        check_name: 'missing_title',
+        external_id: '56',
+        external_key: '#56',
+        external_url: 'https://github.com/acme/website/issues/56',
+        created_from_audit_id: 'audit-2',
+      })
+    )
+  })
+
+  it('skips checks that already have an open ticket', async () => {
+    mockSupabase({ checks: [FAILED_CHECK], openTickets: [openTicket({})] })
+
+    const result = await pushAuditChecksToTracker({
+      auditId: 'audit-2',
+      grouping: TicketGrouping.CheckType,
+      userId: 'user-1',
+    })
+
+    expect(result).toEqual({ created: [], skipped: 1, failed: [] })
+    expect(stub.requests).toHaveLength(0)
+  })
+})
+
+describe('syncAuditCheckTickets', () => {
+  it('comments on and closes issues whose checks now pass', async () => {
+    const { ticketUpdate } = mockSupabase({
+      checks: [
+        { ...FAILED_CHECK, status: CheckStatus.Failed },
+        result('missing_h1', CheckStatus.Passed),
+      ],
+      openTickets: [
+        openTicket({
+          id: 'fixed',
+          check_name: 'missing_h1',
+          check_names: ['missing_h1'],
+          external_id: '8',
+        }),
+      ],
+    })
+
+    await syncAuditCheckTickets('audit-2')
+
+    expect(stub.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      'POST /repos/acme/website/issues/8/comments',
+      'PATCH /repos/acme/website/issues/8',
+    ])
+    expect((stub.requests[0].body as { body: string }).body).toContain(
+      'passed in the latest site audit of example.com'
+    )
+    expect(ticketUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ status: TicketStatus.Resolved, last_synced_audit_id: 'audit-2' })
+    )
+  })
+
+  it('only comments when auto-close is off', async () => {
+    mockSupabase({
+      checks: [result('missing_title', CheckStatus.Passed)],
+      openTickets: [openTicket({ external_id: '8' })],
+      autoClose: false,
+    })
+
+    await syncAuditCheckTickets('audit-2')
+
+    expect(stub.requests.map((r) => r.method)).toEqual(['POST'])
+  })
+
+  it('leaves tickets for still-failing checks untouched', async () => {
+    const { ticketUpdate } = mockSupabase({
+      checks: [{ ...FAILED_CHECK, status: CheckStatus.Failed }],
+      openTickets: [openTicket({})],
+    })
+
+    await syncAuditCheckTickets('audit-2')
+
+    expect(stub.requests).toHaveLength(0)
+    expect(ticketUpdate).not.toHaveBeenCalled()
+  })
+
+  it('leaves page tickets open when the page was not crawled', async () => {
+    const { ticketUpdate } = mockSupabase({
+      checks: [result('missing_title', CheckStatus.Passed, 'https://example.com/')],
+      openTickets: [
+        openTicket({ grouping: TicketGrouping.Page, check_name: null, page_url: ABOUT }),
+      ],
+    })
+
+    await syncAuditCheckTickets('audit-2')
+
+    expect(stub.requests).toHaveLength(0)
+    expect(ticketUpdate).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Transform } from 'stream'
+import JSZip from 'jszip'
+import { makeChain } from '@/tests/helpers/supabase-mocks'
+import {
+  buildOrganizationExport,
+  rowsToCsv,
+  runOrganizationDataExport,
+} from '@/lib/organizations/data-export'
+import { DataExportStatus } from '@/lib/enums'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+const ORGANIZATION = {
+  id: 'org-1',
+  name: 'Acme',
+  ai_api_key: 'encrypted-secret',
+  data_export_history: [],
+}
+
+const TABLE_ROWS: Record<string, Record<string, unknown>[]> = {
+  campaigns: [{ id: 'c1', name: 'Spring, 2026', organization_id: 'org-1' }],
+  audits: [{ id: 'a1', organization_id: 'org-1' }],
+  audit_checks: [{ id: 'ch1', audit_id: 'a1', details: { count: 2 } }],
+  audit_pages: [{ id: 'p1', audit_id: 'a1', url: 'https://example.com/' }],
+  marketing_reviews: [{ id: 'r1', organization_id: 'org-1' }],
+  marketing_review_snapshots: [{ id: 's1', review_id: 'r1', data: { ga: {} } }],
+}
+
+function readStream(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk))
+    stream.on('end', () => resolve(Buffer.concat(chunks)))
+    stream.on('error', reject)
+  })
+}
+
+function mockSupabase(options: { uploadError?: string } = {}) {
+  const rpc = vi.fn(async () => ({ error: null }))
+  const selects: Record<string, string> = {}
+  const uploaded: { content?: Buffer } = {}
+  const upload = vi.fn(async (_path: string, body: NodeJS.ReadableStream) => {
+    uploaded.content = await readStream(body)
+    return { error: options.uploadError ? { message: options.uploadError } : null }
+  })
+
+  const supabase = {
+    from: vi.fn((table: string) => {
+      if (table === 'organizations') {
+        return makeChain({
+          single: vi.fn(async () => ({ data: ORGANIZATION, error: null })),
+        })
+      }
+      const chain = makeChain({
+        range: vi.fn(async () => ({ data: TABLE_ROWS[table] ?? [], error: null })),
+      })
+      chain.select = vi.fn((columns: string) => {
+        selects[table] = columns
+        return chain
+      })
+      return chain
+    }),
+    storage: { from: vi.fn(() => ({ upload })) },
+    rpc,
+  } as unknown as SupabaseClient
+
+  return { supabase, selects, rpc, upload, uploaded }
+}
+
+describe('rowsToCsv', () => {
+  it('writes a header from every row and JSON-encodes nested values', () => {
+    const csv = rowsToCsv([
+      { id: 'a', tags: ['x', 'y'] },
+      { id: 'b', score: 90 },
+    ])
+
+    expect(csv).toBe('id,tags,score\na,"[""x"",""y""]",\nb,,90')
+  })
+})
+
+describe('buildOrganizationExport', () => {
+  it('zips each dataset as JSON, with CSV for flat tables', async () => {
+    const { supabase } = mockSupabase()
+
+    const { stream, rowCounts } = await buildOrganizationExport(supabase, 'org-1')
+    const zip = await JSZip.loadAsync(await readStream(stream))
+
+    expect(rowCounts['campaigns/campaigns']).toBe(1)
+    expect(rowCounts['audits/audit_checks']).toBe(1)
+    expect(rowCounts['marketing-reviews/snapshots']).toBe(1)
+    expect(zip.file('campaigns/campaigns.csv')).not.toBeNull()
+    expect(zip.file('marketing-reviews/snapshots.json')).not.toBeNull()
+    expect(zip.file('marketing-reviews/snapshots.csv')).toBeNull()
+
+    const checks = JSON.parse(await zip.file('audits/a1/audit_checks.json')!.async('string'))
+    expect(checks).toEqual(TABLE_ROWS.audit_checks)
+  })
+
+  it('writes checks and pages per audit without stored HTML', async () => {
+    const { supabase, selects } = mockSupabase()
+
+    const { stream, rowCounts } = await buildOrganizationExport(supabase, 'org-1')
+    const zip = await JSZip.loadAsync(await readStream(stream))
+
+    expect(rowCounts['audits/audit_pages']).toBe(1)
+    expect(zip.file('audits/a1/audit_pages.csv')).not.toBeNull()
+    expect(selects.audit_pages).toContain('url')
+    expect(selects.audit_pages).not.toMatch(/html|\*/)
+  })
+
+  it('leaves the AI key and export history out of organization.json', async () => {
+    const { supabase } = mockSupabase()
+
+    const { stream } = await buildOrganizationExport(supabase, 'org-1')
+    const zip = await JSZip.loadAsync(await readStream(stream))
+    const organization = JSON.parse(await zip.file('organization.json')!.async('string'))
+
+    expect(organization).toEqual({ id: 'org-1', name: 'Acme' })
+  })
+})
+
+describe('runOrganizationDataExport', () => {
+  it('streams the zip to storage and records the export', async () => {
+    const { supabase, rpc, upload, uploaded } = mockSupabase()
+
+    const record = await runOrganizationDataExport(supabase, 'org-1', 'user-1')
+
+    expect(record.status).toBe(DataExportStatus.Completed)
+    expect(record.file_path).toBe(`org-1/${record.id}.zip`)
+    expect(upload).toHaveBeenCalledWith(record.file_path, expect.any(Transform), {
+      contentType: 'application/zip',
+    })
+    expect(record.size_bytes).toBe(uploaded.content!.length)
+    const zip = await JSZip.loadAsync(uploaded.content!)
+    expect(zip.file('manifest.json')).not.toBeNull()
+    expect(rpc).toHaveBeenCalledWith('append_data_export_history', {
+      p_organization_id: 'org-1',
+      p_record: record,
+    })
+  })
+
+  it('records a failed export when the upload fails', async () => {
+    const { supabase, rpc } = mockSupabase({ uploadError: 'bucket missing' })
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const record = await runOrganizationDataExport(supabase, 'org-1', 'user-1')
+
+    expect(record.status).toBe(DataExportStatus.Failed)
+    expect(record.file_path).toBeNull()
+    expect(record.error).toContain('bucket missing')
+    expect(rpc).toHaveBeenCalledWith('append_data_export_history', {
+      p_organization_id: 'org-1',
+      p_record: record,
+    })
+  })
+})
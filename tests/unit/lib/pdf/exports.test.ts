@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: vi.fn(),
+}))
+
+vi.mock('@/lib/pdf/renderer', () => ({
+  renderPdf: vi.fn(),
+  closePdfRenderer: vi.fn(),
+}))
+
+import { getResourcePdf } from '@/lib/pdf/exports'
+import { closePdfRenderer, renderPdf } from '@/lib/pdf/renderer'
+import { createServiceClient } from '@/lib/supabase/server'
+import { SharedResourceType } from '@/lib/enums'
+
+const ORG_ID = '11111111-1111-1111-1111-111111111111'
+
+function chainReturning(data: unknown) {
+  const chain = {
+    select: vi.fn(() => chain),
+    eq: vi.fn(() => chain),
+    maybeSingle: vi.fn(async () => ({ data, error: null })),
+  }
+  return chain
+}
+
+function mockSupabase({
+  rows,
+  storedFiles = [],
+}: {
+  rows: Record<string, unknown>
+  storedFiles?: { name: string; updated_at: string }[]
+}) {
+  const bucket = {
+    list: vi.fn(async () => ({ data: storedFiles, error: null })),
+    download: vi.fn(async () => ({ data: new Blob(['stored-pdf']), error: null })),
+    upload: vi.fn(async () => ({ data: {}, error: null })),
+  }
+  const client = {
+    from: vi.fn((table: string) => chainReturning(rows[table] ?? null)),
+    storage: { from: vi.fn(() => bucket) },
+  }
+  vi.mocked(createServiceClient).mockReturnValue(
+    client as unknown as ReturnType<typeof createServiceClient>
+  )
+  return bucket
+}
+
+describe('getResourcePdf', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('PDF_RENDER_SECRET', 'test-secret')
+    vi.stubEnv('NEXT_PUBLIC_SITE_URL', 'https://app.example.com/')
+    vi.mocked(renderPdf).mockResolvedValue(Buffer.from('rendered-pdf'))
+  })
+
+  it('renders the print page and stores the PDF under the owning org', async () => {
+    const bucket = mockSupabase({
+      rows: {
+        marketing_review_snapshots: {
+          review_id: 'review-1',
+          version: 2,
+          created_at: '2026-04-01T00:00:00Z',
+        },
+        marketing_reviews: { organization_id: ORG_ID, title: 'Acme Q1 2026 Review' },
+      },
+    })
+
+    const pdf = await getResourcePdf(SharedResourceType.MarketingReview, 'snap-1')
+
+    expect(vi.mocked(renderPdf).mock.calls[0][0]).toMatch(
+      /^https:\/\/app\.example\.com\/print\/[\w-]+\.[\w-]+$/
+    )
+    expect(bucket.upload).toHaveBeenCalledWith(
+      `${ORG_ID}/marketing_review/snap-1.pdf`,
+      Buffer.from('rendered-pdf'),
+      { contentType: 'application/pdf', upsert: true }
+    )
+    expect(pdf).toEqual({
+      path: `${ORG_ID}/marketing_review/snap-1.pdf`,
+      filename: 'acme-q1-2026-review-v2.pdf',
+      content: Buffer.from('rendered-pdf'),
+    })
+  })
+
+  it('reuses a stored PDF rendered after the resource last changed', async () => {
+    const bucket = mockSupabase({
+      rows: {
+        generated_reports: {
+          organization_id: ORG_ID,
+          domain: 'acme.com',
+          updated_at: '2026-04-01T00:00:00Z',
+        },
+      },
+      storedFiles: [{ name: 'report-1.pdf', updated_at: '2026-04-02T00:00:00Z' }],
+    })
+
+    const pdf = await getResourcePdf(SharedResourceType.Report, 'report-1')
+
+    expect(renderPdf).not.toHaveBeenCalled()
+    expect(bucket.upload).not.toHaveBeenCalled()
+    expect(pdf?.filename).toBe('acme-com-report.pdf')
+    expect(pdf?.content.toString()).toBe('stored-pdf')
+  })
+
+  it('re-renders when the resource changed after the stored PDF', async () => {
+    mockSupabase({
+      rows: {
+        audits: { organization_id: ORG_ID, domain: 'acme.com', updated_at: '2026-04-03T00:00:00Z' },
+      },
+      storedFiles: [{ name: 'audit-1.pdf', updated_at: '2026-04-02T00:00:00Z' }],
+    })
+
+    const pdf = await getResourcePdf(SharedResourceType.UnifiedAudit, 'audit-1')
+
+    expect(renderPdf).toHaveBeenCalledOnce()
+    expect(pdf?.content.toString()).toBe('rendered-pdf')
+  })
+
+  it('closes the browser even when rendering fails', async () => {
+    const bucket = mockSupabase({
+      rows: {
+        audits: { organization_id: ORG_ID, domain: 'acme.com', updated_at: '2026-04-03T00:00:00Z' },
+      },
+    })
+    vi.mocked(renderPdf).mockRejectedValue(new Error('Print page responded with HTTP 500'))
+
+    await expect(getResourcePdf(SharedResourceType.UnifiedAudit, 'audit-1')).rejects.toThrow(
+      'HTTP 500'
+    )
+    expect(closePdfRenderer).toHaveBeenCalledOnce()
+    expect(bucket.upload).not.toHaveBeenCalled()
+  })
+
+  it('returns null instead of rendering when only a stored PDF is wanted', async () => {
+    mockSupabase({
+      rows: {
+        audits: { organization_id: ORG_ID, domain: 'acme.com', updated_at: '2026-04-03T00:00:00Z' },
+      },
+    })
+
+    const pdf = await getResourcePdf(SharedResourceType.UnifiedAudit, 'audit-1', {
+      storedOnly: true,
+    })
+
+    expect(pdf).toBeNull()
+    expect(renderPdf).not.toHaveBeenCalled()
+  })
+
+  it("returns null for another organization's resource", async () => {
+    mockSupabase({
+      rows: {
+        audits: { organization_id: ORG_ID, domain: 'acme.com', updated_at: '2026-04-03T00:00:00Z' },
+      },
+    })
+
+    const pdf = await getResourcePdf(SharedResourceType.UnifiedAudit, 'audit-1', {
+      organizationId: 'other-org',
+    })
+
+    expect(pdf).toBeNull()
+    expect(renderPdf).not.toHaveBeenCalled()
+  })
+
+  it('returns null when the resource does not exist', async () => {
+    mockSupabase({ rows: {} })
+
+    expect(await getResourcePdf(SharedResourceType.Report, 'missing')).toBeNull()
+    expect(renderPdf).not.toHaveBeenCalled()
+  })
+})
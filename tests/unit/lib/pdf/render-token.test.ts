@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createRenderToken, verifyRenderToken } from '@/lib/pdf/render-token'
+import { SharedResourceType } from '@/lib/enums'
+
+describe('render tokens', () => {
+  beforeEach(() => {
+    vi.stubEnv('PDF_RENDER_SECRET', 'test-secret')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.useRealTimers()
+  })
+
+  it('round-trips the resource it was issued for', () => {
+    const token = createRenderToken(SharedResourceType.MarketingReview, 'snap-1')
+    expect(verifyRenderToken(token)).toMatchObject({
+      resourceType: SharedResourceType.MarketingReview,
+      resourceId: 'snap-1',
+    })
+  })
+
+  it('rejects tampered payloads', () => {
+    const token = createRenderToken(SharedResourceType.Report, 'report-1')
+    const [, signature] = token.split('.')
+    const forged = Buffer.from(
+      JSON.stringify({
+        resourceType: SharedResourceType.Report,
+        resourceId: 'report-2',
+        exp: Date.now() + 60_000,
+      })
+    ).toString('base64url')
+
+    expect(verifyRenderToken(`${forged}.${signature}`)).toBeNull()
+  })
+
+  it('rejects tokens signed with a different secret', () => {
+    const token = createRenderToken(SharedResourceType.Report, 'report-1')
+    vi.stubEnv('PDF_RENDER_SECRET', 'rotated-secret')
+    expect(verifyRenderToken(token)).toBeNull()
+  })
+
+  it('rejects expired tokens', () => {
+    vi.useFakeTimers()
+    const token = createRenderToken(SharedResourceType.UnifiedAudit, 'audit-1', 1000)
+    vi.advanceTimersByTime(1001)
+    expect(verifyRenderToken(token)).toBeNull()
+  })
+
+  it('rejects malformed tokens', () => {
+    expect(verifyRenderToken('')).toBeNull()
+    expect(verifyRenderToken('not-a-token')).toBeNull()
+  })
+})
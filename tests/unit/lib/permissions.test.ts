@@ -11,6 +11,7 @@ import {
   canManageFeedback,
   canViewDashboard,
   canViewCampaigns,
+  canManageRemediation,
   isInternalUser,
   canAccessAllAudits,
   UserRole,
@@ -214,6 +215,17 @@ describe('permissions', () => {
     })
   })
 
+  describe('canManageRemediation', () => {
+    it('returns true for team_member', () => {
+      expect(canManageRemediation(UserRole.TeamMember)).toBe(true)
+    })
+
+    it('returns false for client_viewer and undefined role', () => {
+      expect(canManageRemediation(UserRole.ClientViewer)).toBe(false)
+      expect(canManageRemediation(undefined)).toBe(false)
+    })
+  })
+
   describe('internal user permission bypass pattern', () => {
     // Internal users bypass role-based permission checks. The hasPermission function
     // is role-only; callers (withAuth, page guards) must check isInternal separately.
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { getCampaignDateRange } from '@/lib/platforms/google-analytics/campaign-performance'
+
+describe('getCampaignDateRange', () => {
+  const now = new Date('2026-04-15T10:00:00Z')
+
+  function toKeys(range: { start: Date; end: Date } | null) {
+    return range && [range.start.toISOString(), range.end.toISOString()].map((d) => d.split('T')[0])
+  }
+
+  it('uses the campaign dates when it has already ended', () => {
+    const range = getCampaignDateRange(
+      { start_date: '2026-03-01', end_date: '2026-03-31', created_at: '2026-02-20T09:00:00Z' },
+      now
+    )
+    expect(toKeys(range)).toEqual(['2026-03-01', '2026-03-31'])
+  })
+
+  it('caps running campaigns at yesterday and falls back to the creation date', () => {
+    const range = getCampaignDateRange(
+      { start_date: null, end_date: '2026-05-01', created_at: '2026-04-02T18:30:00Z' },
+      now
+    )
+    expect(toKeys(range)).toEqual(['2026-04-02', '2026-04-14'])
+  })
+
+  it('returns null for campaigns that start today or later', () => {
+    expect(
+      getCampaignDateRange(
+        { start_date: '2026-04-15', end_date: null, created_at: '2026-04-01T00:00:00Z' },
+        now
+      )
+    ).toBeNull()
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { GoogleAnalyticsClient } from '@/lib/platforms/google-analytics/client'
+
+describe('GoogleAnalyticsClient', () => {
+  const mockCredentials = {
+    access_token: 'test-token',
+    refresh_token: '',
+    expires_at: '2099-01-01',
+    property_id: '123456',
+    property_name: 'Test Property',
+  }
+
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  describe('fetchPageSessions', () => {
+    it('requests sessions by host and path, busiest first', async () => {
+      const client = new GoogleAnalyticsClient(mockCredentials)
+      global.fetch = vi.fn().mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            rows: [
+              {
+                dimensionValues: [{ value: 'www.example.com' }, { value: '/' }],
+                metricValues: [{ value: '840' }],
+              },
+              {
+                dimensionValues: [{ value: 'www.example.com' }, { value: '/pricing' }],
+                metricValues: [{ value: '125' }],
+              },
+            ],
+          }),
+      })
+
+      const result = await client.fetchPageSessions(
+        new Date('2026-03-01T00:00:00Z'),
+        new Date('2026-03-28T00:00:00Z'),
+        50
+      )
+
+      expect(result).toEqual([
+        { hostName: 'www.example.com', pagePath: '/', sessions: 840 },
+        { hostName: 'www.example.com', pagePath: '/pricing', sessions: 125 },
+      ])
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0] as [string, RequestInit]
+      expect(url).toContain('/properties/123456:runReport')
+      expect(JSON.parse(init.body as string)).toMatchObject({
+        dateRanges: [{ startDate: '2026-03-01', endDate: '2026-03-28' }],
+        dimensions: [{ name: 'hostName' }, { name: 'pagePath' }],
+        orderBys: [{ metric: { metricName: 'sessions' }, desc: true }],
+        limit: 50,
+      })
+    })
+
+    it('throws on API errors so callers can fall back', async () => {
+      const client = new GoogleAnalyticsClient(mockCredentials)
+      global.fetch = vi.fn().mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        text: () => Promise.resolve('forbidden'),
+      })
+
+      await expect(
+        client.fetchPageSessions(new Date('2026-03-01'), new Date('2026-03-28'))
+      ).rejects.toThrow('Google Analytics access denied. Please check your permissions.')
+    })
+  })
+
+  describe('fetchCampaignPerformance', () => {
+    it('filters by the UTM values that are set and maps key events to conversions', async () => {
+      const client = new GoogleAnalyticsClient(mockCredentials)
+      global.fetch = vi.fn().mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            rows: [{ metricValues: [{ value: '420' }, { value: '310' }, { value: '12' }] }],
+          }),
+      })
+
+      const result = await client.fetchCampaignPerformance(
+        new Date('2026-03-01T00:00:00Z'),
+        new Date('2026-03-31T00:00:00Z'),
+        { utmCampaign: 'spring-launch', utmSource: 'selo', utmMedium: null }
+      )
+
+      expect(result).toEqual({ sessions: 420, users: 310, conversions: 12 })
+      const [, init] = vi.mocked(global.fetch).mock.calls[0] as [string, RequestInit]
+      const body = JSON.parse(init.body as string)
+      expect(body.metrics).toEqual([
+        { name: 'sessions' },
+        { name: 'totalUsers' },
+        { name: 'keyEvents' },
+      ])
+      expect(
+        body.dimensionFilter.andGroup.expressions.map(
+          (e: { filter: { fieldName: string; stringFilter: { value: string } } }) => [
+            e.filter.fieldName,
+            e.filter.stringFilter.value,
+          ]
+        )
+      ).toEqual([
+        ['sessionCampaignName', 'spring-launch'],
+        ['sessionSource', 'selo'],
+      ])
+    })
+
+    it('returns zeros when no traffic matches', async () => {
+      const client = new GoogleAnalyticsClient(mockCredentials)
+      global.fetch = vi.fn().mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({}) })
+
+      const result = await client.fetchCampaignPerformance(
+        new Date('2026-03-01'),
+        new Date('2026-03-31'),
+        { utmCampaign: 'quiet-campaign' }
+      )
+
+      expect(result).toEqual({ sessions: 0, users: 0, conversions: 0 })
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { InstagramClient } from '@/lib/platforms/instagram/client'
+
+describe('InstagramClient', () => {
+  const mockCredentials = {
+    access_token: 'test-token',
+    refresh_token: '',
+    expires_at: '2099-01-01',
+    organization_id: '17841400000000000',
+    organization_name: '@selo',
+    scopes: [],
+  }
+
+  beforeEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function jsonResponse(body: unknown) {
+    return { ok: true, json: () => Promise.resolve(body) }
+  }
+
+  describe('getDailyInsights', () => {
+    it('reads total_value metrics into daily fields', async () => {
+      const client = new InstagramClient(mockCredentials)
+      global.fetch = vi.fn().mockResolvedValueOnce(
+        jsonResponse({
+          data: [
+            { name: 'views', period: 'day', total_value: { value: 5400 } },
+            { name: 'reach', period: 'day', total_value: { value: 2100 } },
+            { name: 'profile_views', period: 'day', total_value: { value: 88 } },
+            { name: 'total_interactions', period: 'day', total_value: { value: 143 } },
+          ],
+        })
+      )
+
+      const result = await client.getDailyInsights(new Date('2026-03-15T00:00:00Z'))
+
+      expect(result).toEqual({ views: 5400, reach: 2100, profileViews: 88, interactions: 143 })
+      const url = vi.mocked(global.fetch).mock.calls[0][0] as string
+      expect(url).toContain('/17841400000000000/insights?')
+      expect(url).toContain('metric_type=total_value')
+    })
+
+    it('defaults missing metrics to zero', async () => {
+      const client = new InstagramClient(mockCredentials)
+      global.fetch = vi.fn().mockResolvedValueOnce(jsonResponse({ data: [] }))
+
+      const result = await client.getDailyInsights(new Date('2026-03-15T00:00:00Z'))
+      expect(result).toEqual({ views: 0, reach: 0, profileViews: 0, interactions: 0 })
+    })
+
+    it('surfaces a reconnect message on 401', async () => {
+      const client = new InstagramClient(mockCredentials)
+      global.fetch = vi.fn().mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        text: () => Promise.resolve('{"error":{"message":"Session expired"}}'),
+      })
+
+      await expect(client.getDailyInsights(new Date('2026-03-15T00:00:00Z'))).rejects.toThrow(
+        'Instagram token expired or invalid. Please reconnect your account.'
+      )
+    })
+  })
+
+  describe('getNewFollowers', () => {
+    it('sums the follower_count series', async () => {
+      const client = new InstagramClient(mockCredentials)
+      global.fetch = vi.fn().mockResolvedValueOnce(
+        jsonResponse({
+          data: [{ name: 'follower_count', period: 'day', values: [{ value: 7 }] }],
+        })
+      )
+
+      expect(await client.getNewFollowers(new Date('2026-03-15T00:00:00Z'))).toBe(7)
+    })
+
+    it('returns zero when Instagram does not report new followers', async () => {
+      const client = new InstagramClient(mockCredentials)
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      global.fetch = vi.fn().mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        text: () => Promise.resolve('{"error":{"message":"Not enough followers"}}'),
+      })
+
+      expect(await client.getNewFollowers(new Date('2026-03-15T00:00:00Z'))).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { MetaAdapter } from '@/lib/platforms/meta/adapter'
+import { MetaClient } from '@/lib/platforms/meta/client'
+import { META_METRIC_TYPES, type MetaDailyMetrics } from '@/lib/platforms/meta/types'
+
+vi.mock('@/lib/platforms/meta/client')
+
+describe('MetaAdapter', () => {
+  const mockCredentials = {
+    access_token: 'test-token',
+    refresh_token: 'test-token',
+    expires_at: '2099-01-01',
+    organization_id: 'page-1',
+    organization_name: 'Test Page',
+    scopes: [],
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(MetaClient).mockImplementation(function () {
+      return {} as unknown as MetaClient
+    })
+  })
+
+  describe('normalizeDailyMetricsToDbRecords', () => {
+    const days: MetaDailyMetrics[] = [
+      {
+        date: '2026-03-14',
+        followers: 1200,
+        newFollowers: 4,
+        views: 900,
+        pageVisits: 35,
+        postEngagements: 60,
+      },
+      {
+        date: '2026-03-15',
+        followers: 1200,
+        newFollowers: 2,
+        views: 700,
+        pageVisits: 20,
+        postEngagements: 41,
+      },
+    ]
+
+    it('produces one record per metric per day', () => {
+      const adapter = new MetaAdapter(mockCredentials)
+      const records = adapter.normalizeDailyMetricsToDbRecords(days, 'org-1')
+
+      expect(records).toHaveLength(days.length * META_METRIC_TYPES.length)
+      for (const record of records) {
+        expect(record.platform_type).toBe('meta')
+        expect(record.organization_id).toBe('org-1')
+        expect(record.campaign_id).toBeNull()
+      }
+    })
+
+    it('maps each field to its metric type', () => {
+      const adapter = new MetaAdapter(mockCredentials)
+      const records = adapter.normalizeDailyMetricsToDbRecords([days[1]], 'org-1')
+      const byType = Object.fromEntries(records.map((r) => [r.metric_type, r.value]))
+
+      expect(byType).toEqual({
+        meta_followers: 1200,
+        meta_new_followers: 2,
+        meta_views: 700,
+        meta_page_visits: 20,
+        meta_post_engagements: 41,
+      })
+      expect(records.every((r) => r.date === '2026-03-15')).toBe(true)
+    })
+
+    it('returns no records for an empty range', () => {
+      const adapter = new MetaAdapter(mockCredentials)
+      expect(adapter.normalizeDailyMetricsToDbRecords([], 'org-1')).toEqual([])
+    })
+  })
+})
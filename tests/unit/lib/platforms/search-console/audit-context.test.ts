@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { matchHighImpressionPages } from '@/lib/platforms/search-console/audit-context'
+
+describe('matchHighImpressionPages', () => {
+  const topPages = [
+    { key: 'https://example.com/', clicks: 300, impressions: 9000, ctr: 3.33, position: 2.1 },
+    { key: 'https://example.com/blog/', clicks: 40, impressions: 5000, ctr: 0.8, position: 11 },
+    { key: 'https://example.com/pricing', clicks: 90, impressions: 2000, ctr: 4.5, position: 4 },
+  ]
+
+  it('returns ranked pages that fail critical checks with their checks grouped', () => {
+    const result = matchHighImpressionPages(
+      topPages,
+      [
+        {
+          page_url: 'https://www.example.com/pricing/',
+          check_name: 'missing_title',
+          display_name: 'Missing title',
+        },
+        {
+          page_url: 'https://example.com/blog',
+          check_name: 'noindex',
+          display_name: 'Page is noindexed',
+        },
+        {
+          page_url: 'https://example.com/blog',
+          check_name: 'missing_h1',
+          display_name: 'Missing H1',
+        },
+        { page_url: null, check_name: 'robots_txt', display_name: 'robots.txt blocks crawling' },
+      ],
+      10
+    )
+
+    expect(result.map((p) => p.url)).toEqual([
+      'https://example.com/blog/',
+      'https://example.com/pricing',
+    ])
+    expect(result[0].failedChecks).toEqual([
+      { check_name: 'noindex', display_name: 'Page is noindexed' },
+      { check_name: 'missing_h1', display_name: 'Missing H1' },
+    ])
+  })
+
+  it('stops at the limit', () => {
+    const checks = topPages.map((p) => ({
+      page_url: p.key,
+      check_name: 'missing_title',
+      display_name: 'Missing title',
+    }))
+    expect(matchHighImpressionPages(topPages, checks, 1)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { SearchConsoleClient } from '@/lib/platforms/search-console/client'
+import { SearchConsoleDimension } from '@/lib/enums'
+
+describe('SearchConsoleClient', () => {
+  const mockCredentials = {
+    access_token: 'test-token',
+    refresh_token: '',
+    expires_at: '2099-01-01',
+    organization_id: 'sc-domain:example.com',
+    organization_name: 'sc-domain:example.com',
+    scopes: [],
+  }
+
+  beforeEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function jsonResponse(body: unknown) {
+    return { ok: true, json: () => Promise.resolve(body) }
+  }
+
+  describe('fetchDailyMetrics', () => {
+    it('converts CTR to a percentage and keys rows by date', async () => {
+      const client = new SearchConsoleClient(mockCredentials)
+      global.fetch = vi.fn().mockResolvedValueOnce(
+        jsonResponse({
+          rows: [
+            { keys: ['2026-03-15'], clicks: 42, impressions: 1200, ctr: 0.035, position: 8.234 },
+          ],
+        })
+      )
+
+      const result = await client.fetchDailyMetrics(
+        new Date('2026-03-15T00:00:00Z'),
+        new Date('2026-03-15T23:59:59Z')
+      )
+
+      expect(result).toEqual([
+        { date: '2026-03-15', clicks: 42, impressions: 1200, ctr: 3.5, position: 8.23 },
+      ])
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0] as [string, RequestInit]
+      expect(url).toContain('/sites/sc-domain%3Aexample.com/searchAnalytics/query')
+      expect(JSON.parse(init.body as string)).toMatchObject({
+        startDate: '2026-03-15',
+        endDate: '2026-03-15',
+        dimensions: ['date'],
+      })
+    })
+
+    it('omits days Search Console has not reported yet', async () => {
+      const client = new SearchConsoleClient(mockCredentials)
+      global.fetch = vi.fn().mockResolvedValueOnce(jsonResponse({}))
+
+      const result = await client.fetchDailyMetrics(
+        new Date('2026-03-15T00:00:00Z'),
+        new Date('2026-03-15T23:59:59Z')
+      )
+      expect(result).toEqual([])
+    })
+
+    it('surfaces a reconnect message on 401', async () => {
+      const client = new SearchConsoleClient(mockCredentials)
+      global.fetch = vi.fn().mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        text: () => Promise.resolve('{"error":{"message":"Invalid Credentials"}}'),
+      })
+
+      await expect(
+        client.fetchDailyMetrics(new Date('2026-03-15T00:00:00Z'), new Date('2026-03-15T00:00:00Z'))
+      ).rejects.toThrow('Search Console token expired or invalid. Please reconnect your account.')
+    })
+  })
+
+  describe('fetchDimensionRows', () => {
+    it('returns one row per query for the day', async () => {
+      const client = new SearchConsoleClient(mockCredentials)
+      global.fetch = vi.fn().mockResolvedValueOnce(
+        jsonResponse({
+          rows: [
+            { keys: ['selo seo'], clicks: 10, impressions: 50, ctr: 0.2, position: 1.4 },
+            { keys: ['marketing audit'], clicks: 0, impressions: 30, ctr: 0, position: 14 },
+          ],
+        })
+      )
+
+      const result = await client.fetchDimensionRows(
+        new Date('2026-03-15T00:00:00Z'),
+        SearchConsoleDimension.Query,
+        25
+      )
+
+      expect(result).toEqual([
+        {
+          date: '2026-03-15',
+          dimension: 'query',
+          key: 'selo seo',
+          clicks: 10,
+          impressions: 50,
+          ctr: 20,
+          position: 1.4,
+        },
+        {
+          date: '2026-03-15',
+          dimension: 'query',
+          key: 'marketing audit',
+          clicks: 0,
+          impressions: 30,
+          ctr: 0,
+          position: 14,
+        },
+      ])
+      const init = vi.mocked(global.fetch).mock.calls[0][1] as RequestInit
+      expect(JSON.parse(init.body as string)).toMatchObject({
+        dimensions: ['query'],
+        rowLimit: 25,
+      })
+    })
+  })
+})
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: vi.fn(),
+}))
+
+import { evaluateFixedItem, remediationUrl, verifyRemediationItems } from '@/lib/remediation/verify'
+import { createServiceClient } from '@/lib/supabase/server'
+import { makeChain } from '@/tests/helpers/supabase-mocks'
+import { CheckStatus, RemediationStatus, UnifiedAuditStatus } from '@/lib/enums'
+
+const AUDIT = {
+  id: 'audit-2',
+  organization_id: 'org-1',
+  domain: 'example.com',
+  url: 'https://example.com/',
+  status: UnifiedAuditStatus.Completed,
+}
+
+function fixedItem(overrides: Record<string, unknown>) {
+  return {
+    id: 'item-1',
+    organization_id: 'org-1',
+    domain: 'example.com',
+    check_name: 'missing_title',
+    url: 'https://example.com/about',
+    status: RemediationStatus.Fixed,
+    reopen_count: 0,
+    ...overrides,
+  }
+}
+
+function mockSupabase(options: {
+  audit?: Record<string, unknown>
+  fixedItems: Record<string, unknown>[]
+  results: Record<string, unknown>[]
+}) {
+  const itemUpdates: { id: string; values: Record<string, unknown> }[] = []
+
+  const itemsChain = makeChain({
+    then: (resolve: (value: unknown) => void) => resolve({ data: options.fixedItems, error: null }),
+    update: vi.fn((values: Record<string, unknown>) =>
+      makeChain({
+        eq: vi.fn(async (_column: string, id: string) => {
+          itemUpdates.push({ id, values })
+          return { error: null }
+        }),
+      })
+    ),
+  })
+
+  vi.mocked(createServiceClient).mockReturnValue({
+    from: vi.fn((table: string) => {
+      if (table === 'audits') {
+        return makeChain({
+          single: vi.fn(async () => ({ data: options.audit ?? AUDIT, error: null })),
+        })
+      }
+      if (table === 'audit_checks') {
+        return makeChain({
+          range: vi.fn(async () => ({ data: options.results, error: null })),
+        })
+      }
+      return itemsChain
+    }),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } as any)
+
+  return { itemUpdates }
+}
+
+describe('remediationUrl', () => {
+  it('keys page checks on the page and site-wide checks on the origin', () => {
+    expect(remediationUrl('https://example.com/about', 'https://example.com/')).toBe(
+      'https://example.com/about'
+    )
+    expect(remediationUrl(null, 'https://example.com/blog')).toBe('https://example.com')
+  })
+})
+
+describe('evaluateFixedItem', () => {
+  it('verifies only when every result passed', () => {
+    expect(evaluateFixedItem([{ status: CheckStatus.Passed }])).toBe(RemediationStatus.Verified)
+    expect(
+      evaluateFixedItem([{ status: CheckStatus.Passed }, { status: CheckStatus.Warning }])
+    ).toBe(RemediationStatus.Open)
+  })
+
+  it('returns null when the check did not run', () => {
+    expect(evaluateFixedItem([])).toBeNull()
+  })
+})
+
+describe('verifyRemediationItems', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('verifies passing items and reopens failing ones', async () => {
+    const { itemUpdates } = mockSupabase({
+      fixedItems: [
+        fixedItem({ id: 'item-1' }),
+        fixedItem({ id: 'item-2', check_name: 'missing_h1', reopen_count: 1 }),
+        fixedItem({ id: 'item-3', check_name: 'robots_txt', url: 'https://example.com' }),
+      ],
+      results: [
+        {
+          check_name: 'missing_title',
+          page_url: 'https://example.com/about',
+          status: CheckStatus.Passed,
+        },
+        {
+          check_name: 'missing_h1',
+          page_url: 'https://example.com/about',
+          status: CheckStatus.Failed,
+        },
+        { check_name: 'robots_txt', page_url: null, status: CheckStatus.Passed },
+      ],
+    })
+
+    await verifyRemediationItems('audit-2')
+
+    expect(itemUpdates).toEqual([
+      {
+        id: 'item-1',
+        values: expect.objectContaining({
+          status: RemediationStatus.Verified,
+          verified_at: expect.any(String),
+          last_checked_audit_id: 'audit-2',
+        }),
+      },
+      {
+        id: 'item-2',
+        values: expect.objectContaining({
+          status: RemediationStatus.Open,
+          fixed_at: null,
+          reopen_count: 2,
+          last_checked_audit_id: 'audit-2',
+        }),
+      },
+      {
+        id: 'item-3',
+        values: expect.objectContaining({ status: RemediationStatus.Verified }),
+      },
+    ])
+  })
+
+  it('leaves items alone when the audit did not check their page', async () => {
+    const { itemUpdates } = mockSupabase({
+      fixedItems: [fixedItem({ url: 'https://example.com/pricing' })],
+      results: [
+        {
+          check_name: 'missing_title',
+          page_url: 'https://example.com/about',
+          status: CheckStatus.Failed,
+        },
+      ],
+    })
+
+    await verifyRemediationItems('audit-2')
+
+    expect(itemUpdates).toEqual([])
+  })
+
+  it('skips audits that did not complete', async () => {
+    const { itemUpdates } = mockSupabase({
+      audit: { ...AUDIT, status: UnifiedAuditStatus.Failed },
+      fixedItems: [fixedItem({})],
+      results: [],
+    })
+
+    await verifyRemediationItems('audit-2')
+
+    expect(itemUpdates).toEqual([])
+    expect(createServiceClient().from).not.toHaveBeenCalledWith('remediation_items')
+  })
+})
@@ -25,7 +25,9 @@ vi.mock('@/lib/auth/cached', () => ({
 vi.mock('nanoid', () => ({ nanoid: () => 'test-share-token-21chars' }))
 
 vi.mock('@/lib/reviews/period', () => ({
-  periodsForQuarter: () => ({
+  formatPeriodLabel: (period: string) => period,
+  periodsFor: () => ({
+    type: 'quarter',
     main: { start: '2026-01-01', end: '2026-03-31' },
     qoq: { start: '2025-10-01', end: '2025-12-31' },
     yoy: { start: '2025-01-01', end: '2025-03-31' },
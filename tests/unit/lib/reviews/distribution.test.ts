@@ -0,0 +1,244 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: vi.fn(),
+}))
+
+vi.mock('@/lib/email/client', () => ({
+  FROM_EMAIL: 'Selo <noreply@example.com>',
+  sendEmail: vi.fn(),
+  isSuppressed: vi.fn(),
+}))
+
+vi.mock('@/lib/pdf/exports', () => ({
+  getResourcePdf: vi.fn(),
+  getResourcePdfAttachment: vi.fn(),
+}))
+
+vi.mock('nanoid', () => ({ nanoid: () => 'share-token' }))
+
+import {
+  buildEmailMetrics,
+  deliverReviewSnapshot,
+  parseRecipients,
+  prerenderSnapshotPdf,
+} from '@/lib/reviews/distribution'
+import { createServiceClient } from '@/lib/supabase/server'
+import { isSuppressed, sendEmail } from '@/lib/email/client'
+import { getResourcePdf, getResourcePdfAttachment } from '@/lib/pdf/exports'
+import { ReviewDeliveryTrigger } from '@/lib/enums'
+import type { MetricTriple } from '@/lib/reviews/types'
+
+function triple(current: number, qoqDeltaPct: number | null): MetricTriple {
+  return { current, qoq: null, yoy: null, qoq_delta_pct: qoqDeltaPct, yoy_delta_pct: null }
+}
+
+describe('parseRecipients', () => {
+  test('splits on commas, semicolons and newlines and de-duplicates case-insensitively', () => {
+    expect(parseRecipients('a@x.com, B@x.com;\nA@X.com\n\n')).toEqual({
+      emails: ['a@x.com', 'b@x.com'],
+      invalid: [],
+    })
+  })
+
+  test('reports entries that are not email addresses', () => {
+    expect(parseRecipients('a@x.com not-an-email').invalid).toEqual(['not-an-email'])
+  })
+})
+
+describe('buildEmailMetrics', () => {
+  test('lists featured GA and LinkedIn metrics with their previous-period change', () => {
+    const metrics = buildEmailMetrics({
+      ga: { ga_sessions: triple(12480, 14.2), ga_bounce_rate: triple(40, 1) },
+      linkedin: { metrics: { linkedin_impressions: triple(500, -3.05) } },
+    })
+
+    expect(metrics).toEqual([
+      { label: 'Sessions', value: '12,480', delta: '+14.2%', direction: 'up' },
+      { label: 'LinkedIn impressions', value: '500', delta: '-3.0%', direction: 'down' },
+    ])
+  })
+
+  test('leaves the delta empty when there is no comparison period', () => {
+    expect(buildEmailMetrics({ ga: { ga_new_users: triple(10, null) } })).toEqual([
+      { label: 'New users', value: '10', delta: null, direction: 'flat' },
+    ])
+  })
+})
+
+describe('deliverReviewSnapshot', () => {
+  let deliveryInsert: ReturnType<typeof vi.fn>
+  let linkInsert: ReturnType<typeof vi.fn>
+
+  function chain(result: unknown) {
+    const c: Record<string, unknown> = {
+      select: vi.fn(() => c),
+      eq: vi.fn(() => c),
+      maybeSingle: vi.fn(async () => ({ data: result, error: null })),
+      single: vi.fn(async () => ({ data: result, error: null })),
+      then: (resolve: (value: unknown) => void) => resolve({ data: result, error: null }),
+    }
+    return c
+  }
+
+  function mockSupabase(recipients: string[]) {
+    deliveryInsert = vi.fn(async () => ({ error: null }))
+    const linkChain = chain({ id: 'link-1', token: 'share-token' })
+    linkInsert = vi.fn(() => linkChain)
+
+    const tables: Record<string, unknown> = {
+      marketing_reviews: chain({
+        id: 'review-1',
+        title: 'Acme Q1 2026 Review',
+        quarter: '2026-Q1',
+        organization_id: 'org-1',
+        organizations: { name: 'Acme' },
+      }),
+      marketing_review_snapshots: chain({ id: 'snap-1', data: {} }),
+      marketing_review_recipients: chain(recipients.map((email) => ({ email }))),
+      shared_links: { insert: linkInsert },
+      marketing_review_deliveries: { insert: deliveryInsert },
+    }
+
+    vi.mocked(createServiceClient).mockReturnValue({
+      from: vi.fn((table: string) => tables[table]),
+    } as unknown as ReturnType<typeof createServiceClient>)
+  }
+
+  const PDF = { filename: 'acme-q1-2026-review-v1.pdf', content: Buffer.from('pdf') }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getResourcePdfAttachment).mockResolvedValue(PDF)
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://app.example.com')
+    vi.mocked(isSuppressed).mockImplementation(async (email) => email === 'bounced@x.com')
+    vi.mocked(sendEmail).mockImplementation(async ({ to }) =>
+      to === 'broken@x.com'
+        ? { data: null, error: { message: 'Mailbox unavailable' } }
+        : { data: { id: `msg-${to}` }, error: null }
+    )
+  })
+
+  test('sends to each recipient and records every attempt', async () => {
+    mockSupabase(['client@x.com', 'bounced@x.com', 'broken@x.com'])
+
+    const result = await deliverReviewSnapshot({
+      reviewId: 'review-1',
+      snapshotId: 'snap-1',
+      trigger: ReviewDeliveryTrigger.Publish,
+      triggeredBy: 'user-1',
+    })
+
+    expect(result).toEqual({ sent: 1, failed: 1, suppressed: 1 })
+    expect(sendEmail).toHaveBeenCalledTimes(2)
+    expect(vi.mocked(sendEmail).mock.calls[0][0]).toMatchObject({
+      to: 'client@x.com',
+      subject: 'Acme Q1 2026 Review is ready',
+      idempotencyKey: 'review-delivery-link-1-client@x.com',
+      attachments: [PDF],
+    })
+    expect(getResourcePdfAttachment).toHaveBeenCalledWith('marketing_review', 'snap-1')
+    expect(linkInsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        resource_type: 'marketing_review',
+        resource_id: 'snap-1',
+        token: 'share-token',
+        max_views: 30,
+        created_by: 'user-1',
+        organization_id: 'org-1',
+      })
+    )
+    // One row per recipient as it is handled, so a timeout keeps earlier sends recorded
+    expect(deliveryInsert).toHaveBeenCalledTimes(3)
+    expect(deliveryInsert).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        recipient_email: 'client@x.com',
+        status: 'sent',
+        trigger: 'publish',
+        message_id: 'msg-client@x.com',
+        shared_link_id: 'link-1',
+      })
+    )
+    expect(deliveryInsert).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ recipient_email: 'bounced@x.com', status: 'suppressed' })
+    )
+    expect(deliveryInsert).toHaveBeenNthCalledWith(
+      3,
+      expect.objectContaining({
+        recipient_email: 'broken@x.com',
+        status: 'failed',
+        error: 'Mailbox unavailable',
+      })
+    )
+  })
+
+  test('records a send before the next recipient is tried', async () => {
+    mockSupabase(['client@x.com', 'broken@x.com'])
+    vi.mocked(isSuppressed).mockImplementation(async (email) => {
+      if (email === 'broken@x.com') throw new Error('Function timed out')
+      return false
+    })
+
+    await expect(
+      deliverReviewSnapshot({
+        reviewId: 'review-1',
+        snapshotId: 'snap-1',
+        trigger: ReviewDeliveryTrigger.Scheduled,
+      })
+    ).rejects.toThrow('timed out')
+
+    expect(deliveryInsert).toHaveBeenCalledWith(
+      expect.objectContaining({ recipient_email: 'client@x.com', status: 'sent' })
+    )
+  })
+
+  test('still sends the share link when the PDF fails to render', async () => {
+    mockSupabase(['client@x.com'])
+    vi.mocked(getResourcePdfAttachment).mockRejectedValue(new Error('Chromium unavailable'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const result = await deliverReviewSnapshot({
+      reviewId: 'review-1',
+      snapshotId: 'snap-1',
+      trigger: ReviewDeliveryTrigger.Manual,
+    })
+
+    expect(result).toEqual({ sent: 1, failed: 0, suppressed: 0 })
+    expect(vi.mocked(sendEmail).mock.calls[0][0].attachments).toBeUndefined()
+  })
+
+  test('does nothing when the review has no recipients', async () => {
+    mockSupabase([])
+
+    const result = await deliverReviewSnapshot({
+      reviewId: 'review-1',
+      snapshotId: 'snap-1',
+      trigger: ReviewDeliveryTrigger.Manual,
+    })
+
+    expect(result).toEqual({ sent: 0, failed: 0, suppressed: 0 })
+    expect(linkInsert).not.toHaveBeenCalled()
+    expect(getResourcePdfAttachment).not.toHaveBeenCalled()
+    expect(sendEmail).not.toHaveBeenCalled()
+  })
+})
+
+describe('prerenderSnapshotPdf', () => {
+  test('renders and stores the snapshot PDF', async () => {
+    vi.mocked(getResourcePdf).mockResolvedValue(null)
+
+    await prerenderSnapshotPdf('snap-1')
+
+    expect(getResourcePdf).toHaveBeenCalledWith('marketing_review', 'snap-1')
+  })
+
+  test('logs instead of throwing when rendering fails', async () => {
+    vi.mocked(getResourcePdf).mockRejectedValue(new Error('Chromium unavailable'))
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(prerenderSnapshotPdf('snap-1')).resolves.toBeUndefined()
+    expect(errorSpy).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { ReviewPeriodType } from '@/lib/enums'
+import {
+  buildReviewPptx,
+  narrativeToTextRuns,
+  toPptxColor,
+  type ReviewPptxInput,
+} from '@/lib/reviews/export/pptx'
+import type { MetricTriple } from '@/lib/reviews/types'
+
+function makeTriple(overrides: Partial<MetricTriple> = {}): MetricTriple {
+  return {
+    current: 1200,
+    qoq: 1000,
+    yoy: 900,
+    qoq_delta_pct: 20,
+    yoy_delta_pct: 33.3,
+    timeseries: {
+      current: [
+        { date: '2026-01-01', value: 10 },
+        { date: '2026-01-02', value: 14 },
+      ],
+      qoq: [],
+      yoy: [],
+    },
+    ...overrides,
+  }
+}
+
+function baseInput(overrides: Partial<ReviewPptxInput> = {}): ReviewPptxInput {
+  return {
+    organization: { name: 'Acme Co', logo_url: null, primary_color: '#112233' },
+    title: 'Q1 2026 Marketing Review',
+    periodLabel: 'Q1 2026',
+    periodType: ReviewPeriodType.Quarter,
+    periodStart: '2026-01-01',
+    periodEnd: '2026-03-31',
+    narrative: {
+      cover_subtitle: 'Organic growth led the quarter',
+      ga_summary: 'Going well\n- Sessions up 20%',
+      linkedin_insights: 'To improve\n- Impressions flat',
+      initiatives: '- Shipped SEO refresh',
+      takeaways: '- Organic compounds',
+      planning: '- Double down on video',
+    },
+    data: {
+      ga: { ga_sessions: makeTriple(), ga_active_users: makeTriple({ current: 800 }) },
+      linkedin: { metrics: { linkedin_impressions: makeTriple() }, top_posts: [] },
+    },
+    ...overrides,
+  }
+}
+
+function slideCount(buffer: Buffer): number {
+  // Zip entry names are stored uncompressed in local file headers
+  const names = buffer.toString('latin1').match(/ppt\/slides\/slide\d+\.xml/g) ?? []
+  return new Set(names).size
+}
+
+describe('toPptxColor', () => {
+  test('normalizes hex brand colors', () => {
+    expect(toPptxColor('#112233')).toBe('112233')
+    expect(toPptxColor('abc')).toBe('AABBCC')
+    expect(toPptxColor('#a1b2c3')).toBe('A1B2C3')
+  })
+
+  test('falls back to the default accent for missing or non-hex colors', () => {
+    expect(toPptxColor(null)).toBe('111827')
+    expect(toPptxColor('rgb(0, 0, 0)')).toBe('111827')
+  })
+})
+
+describe('narrativeToTextRuns', () => {
+  test('turns bullet lines into bulleted paragraphs and bolds section headings', () => {
+    const runs = narrativeToTextRuns('Going well\n- Sessions up 20%\n- Users up 8%')
+
+    expect(runs.map((r) => r.text)).toEqual(['Going well', 'Sessions up 20%', 'Users up 8%'])
+    expect(runs[0].options?.bold).toBe(true)
+    expect(runs[1].options?.bullet).toBe(true)
+  })
+
+  test('renders a muted placeholder for empty narrative', () => {
+    const runs = narrativeToTextRuns('   ')
+    expect(runs).toHaveLength(1)
+    expect(runs[0].options?.italic).toBe(true)
+  })
+})
+
+describe('buildReviewPptx', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('produces a pptx with cover, metric and narrative slides', async () => {
+    const buffer = await buildReviewPptx(baseInput())
+
+    expect(buffer.subarray(0, 2).toString('latin1')).toBe('PK')
+    // cover + GA + LinkedIn + Initiatives + Takeaways + Planning
+    expect(slideCount(buffer)).toBe(6)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  test('adds a What Resonated slide and tolerates unreachable thumbnails', async () => {
+    fetchMock.mockRejectedValue(new Error('network down'))
+    const input = baseInput()
+    input.data.linkedin!.top_posts = [
+      {
+        id: 'urn:li:ugcPost:1',
+        url: 'https://linkedin.com/posts/1',
+        thumbnail_url: 'https://cdn.example.com/thumb.png',
+        caption: 'Founder story',
+        posted_at: '2026-02-01',
+        impressions: 5000,
+        reactions: 120,
+        comments: 14,
+        shares: 6,
+        engagement_rate: 0.028,
+      },
+    ]
+
+    const buffer = await buildReviewPptx(input)
+
+    expect(slideCount(buffer)).toBe(7)
+    expect(fetchMock).toHaveBeenCalledWith('https://cdn.example.com/thumb.png', expect.anything())
+  })
+})
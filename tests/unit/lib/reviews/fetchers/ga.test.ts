@@ -7,6 +7,7 @@ vi.mock('@/lib/supabase/server', () => ({
 import { fetchGAData, GA_METRICS } from '@/lib/reviews/fetchers/ga'
 import { GA_FEATURED_METRIC_KEYS } from '@/lib/reviews/featured-metrics'
 import { createServiceClient } from '@/lib/supabase/server'
+import { ReviewPeriodType } from '@/lib/enums'
 
 type Row = { metric_type: string; date: string; value: number }
 
@@ -54,6 +55,7 @@ function mockSupabase(
 }
 
 const periods = {
+  type: ReviewPeriodType.Quarter,
   main: { start: '2026-01-01', end: '2026-03-31' },
   qoq: { start: '2025-10-01', end: '2025-12-31' },
   yoy: { start: '2025-01-01', end: '2025-03-31' },
@@ -7,6 +7,7 @@ vi.mock('@/lib/supabase/server', () => ({
 import { fetchLinkedInData } from '@/lib/reviews/fetchers/linkedin'
 import { LINKEDIN_FEATURED_METRIC_KEYS } from '@/lib/reviews/linkedin-featured-metrics'
 import { createServiceClient } from '@/lib/supabase/server'
+import { ReviewPeriodType } from '@/lib/enums'
 
 type Row = { metric_type: string; date: string; value: number }
 
@@ -118,6 +119,7 @@ function makeSupabaseFake(opts: {
 }
 
 const periods = {
+  type: ReviewPeriodType.Quarter,
   main: { start: '2026-01-01', end: '2026-03-31' },
   qoq: { start: '2025-10-01', end: '2025-12-31' },
   yoy: { start: '2025-01-01', end: '2025-03-31' },
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: vi.fn(),
+}))
+
+import { fetchInstagramData, fetchMetaData } from '@/lib/reviews/fetchers/meta'
+import { createServiceClient } from '@/lib/supabase/server'
+import { ReviewPeriodType } from '@/lib/enums'
+
+type Row = { metric_type: string; date: string; value: number }
+
+function makeMetricsChain(rowsByStart: Record<string, Row[]>, platformFilter: string[]) {
+  let capturedStart: string | null = null
+  const chain: Record<string, unknown> = {
+    select: vi.fn(() => chain),
+    eq: vi.fn((col: string, val: string) => {
+      if (col === 'platform_type') platformFilter.push(val)
+      return chain
+    }),
+    in: vi.fn(() => chain),
+    gte: vi.fn((_col: string, val: string) => {
+      capturedStart = val
+      return chain
+    }),
+    lte: vi.fn(() => chain),
+    order: vi.fn(() => chain),
+    then: (resolve: (r: { data: Row[]; error: null }) => unknown) =>
+      resolve({ data: capturedStart ? (rowsByStart[capturedStart] ?? []) : [], error: null }),
+  }
+  return chain
+}
+
+function makeConnectionChain(rows: Array<{ id: string }>) {
+  const chain: Record<string, unknown> = {
+    select: vi.fn(() => chain),
+    eq: vi.fn(() => chain),
+    limit: vi.fn(async () => ({ data: rows, error: null })),
+  }
+  return chain
+}
+
+function makeSupabaseFake(opts: {
+  rowsByStart?: Record<string, Row[]>
+  connections?: Array<{ id: string }>
+}) {
+  const platformFilter: string[] = []
+  vi.mocked(createServiceClient).mockReturnValue({
+    from: vi.fn((table: string) =>
+      table === 'platform_connections'
+        ? makeConnectionChain(opts.connections ?? [{ id: 'conn-1' }])
+        : makeMetricsChain(opts.rowsByStart ?? {}, platformFilter)
+    ),
+  } as never)
+  return { platformFilter }
+}
+
+const periods = {
+  type: ReviewPeriodType.Quarter,
+  main: { start: '2026-01-01', end: '2026-03-31' },
+  qoq: { start: '2025-10-01', end: '2025-12-31' },
+  yoy: { start: '2025-01-01', end: '2025-03-31' },
+}
+
+describe('fetchMetaData', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  test('returns undefined when the organization has no active Meta connection', async () => {
+    makeSupabaseFake({ connections: [] })
+    expect(await fetchMetaData('org-1', periods)).toBeUndefined()
+  })
+
+  test('sums period metrics and uses the latest value for followers', async () => {
+    const { platformFilter } = makeSupabaseFake({
+      rowsByStart: {
+        [periods.main.start]: [
+          { metric_type: 'meta_views', date: '2026-01-01', value: 400 },
+          { metric_type: 'meta_views', date: '2026-01-02', value: 600 },
+          { metric_type: 'meta_followers', date: '2026-01-01', value: 1000 },
+          { metric_type: 'meta_followers', date: '2026-01-02', value: 1010 },
+        ],
+        [periods.qoq.start]: [
+          { metric_type: 'meta_views', date: '2025-10-01', value: 800 },
+          { metric_type: 'meta_followers', date: '2025-12-31', value: 950 },
+        ],
+      },
+    })
+
+    const data = await fetchMetaData('org-1', periods)
+
+    expect(data!.meta_views).toMatchObject({ current: 1000, qoq: 800, qoq_delta_pct: 25 })
+    expect(data!.meta_followers).toMatchObject({ current: 1010, qoq: 950 })
+    expect(data!.meta_post_engagements.current).toBe(0)
+    expect(platformFilter.every((p) => p === 'meta')).toBe(true)
+  })
+})
+
+describe('fetchInstagramData', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  test('builds a triple for every Instagram metric type', async () => {
+    makeSupabaseFake({
+      rowsByStart: {
+        [periods.main.start]: [{ metric_type: 'instagram_reach', date: '2026-01-01', value: 300 }],
+        [periods.yoy.start]: [{ metric_type: 'instagram_reach', date: '2025-01-01', value: 200 }],
+      },
+    })
+
+    const data = await fetchInstagramData('org-1', periods)
+
+    expect(Object.keys(data!).sort()).toEqual([
+      'instagram_followers',
+      'instagram_interactions',
+      'instagram_new_followers',
+      'instagram_profile_views',
+      'instagram_reach',
+      'instagram_views',
+    ])
+    expect(data!.instagram_reach).toMatchObject({ current: 300, yoy: 200, yoy_delta_pct: 50 })
+  })
+})
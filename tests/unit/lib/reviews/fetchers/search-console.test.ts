@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: vi.fn(),
+}))
+
+import { fetchSearchConsoleData } from '@/lib/reviews/fetchers/search-console'
+import { createServiceClient } from '@/lib/supabase/server'
+import { ReviewPeriodType } from '@/lib/enums'
+
+type Row = { metric_type: string; date: string; value: number }
+
+function makeMetricsChain(rowsByStart: Record<string, Row[]>) {
+  let capturedStart: string | null = null
+  const chain: Record<string, unknown> = {
+    select: vi.fn(() => chain),
+    eq: vi.fn(() => chain),
+    in: vi.fn(() => chain),
+    gte: vi.fn((_col: string, val: string) => {
+      capturedStart = val
+      return chain
+    }),
+    lte: vi.fn(() => chain),
+    order: vi.fn(() => chain),
+    then: (resolve: (r: { data: Row[]; error: null }) => unknown) =>
+      resolve({ data: capturedStart ? (rowsByStart[capturedStart] ?? []) : [], error: null }),
+  }
+  return chain
+}
+
+function makeConnectionChain(rows: Array<{ id: string }>) {
+  const chain: Record<string, unknown> = {
+    select: vi.fn(() => chain),
+    eq: vi.fn(() => chain),
+    limit: vi.fn(async () => ({ data: rows, error: null })),
+  }
+  return chain
+}
+
+function makeSupabaseFake(opts: {
+  rowsByStart?: Record<string, Row[]>
+  connections?: Array<{ id: string }>
+  topRows?: Record<string, unknown[]>
+}) {
+  const rpc = vi.fn(async (_fn: string, args: { row_dimension: string }) => ({
+    data: opts.topRows?.[args.row_dimension] ?? [],
+    error: null,
+  }))
+  vi.mocked(createServiceClient).mockReturnValue({
+    from: vi.fn((table: string) =>
+      table === 'platform_connections'
+        ? makeConnectionChain(opts.connections ?? [{ id: 'conn-1' }])
+        : makeMetricsChain(opts.rowsByStart ?? {})
+    ),
+    rpc,
+  } as never)
+  return { rpc }
+}
+
+const periods = {
+  type: ReviewPeriodType.Quarter,
+  main: { start: '2026-01-01', end: '2026-03-31' },
+  qoq: { start: '2025-10-01', end: '2025-12-31' },
+  yoy: { start: '2025-01-01', end: '2025-03-31' },
+}
+
+function day(date: string, clicks: number, impressions: number, position: number): Row[] {
+  return [
+    { metric_type: 'gsc_clicks', date, value: clicks },
+    { metric_type: 'gsc_impressions', date, value: impressions },
+    { metric_type: 'gsc_ctr', date, value: (clicks / impressions) * 100 },
+    { metric_type: 'gsc_position', date, value: position },
+  ]
+}
+
+describe('fetchSearchConsoleData', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  test('returns undefined when the organization has no active Search Console connection', async () => {
+    makeSupabaseFake({ connections: [] })
+    expect(await fetchSearchConsoleData('org-1', periods)).toBeUndefined()
+  })
+
+  test('sums clicks and derives CTR and impression-weighted position per window', async () => {
+    makeSupabaseFake({
+      rowsByStart: {
+        [periods.main.start]: [
+          ...day('2026-01-01', 30, 1000, 10),
+          ...day('2026-01-02', 10, 3000, 20),
+        ],
+        [periods.qoq.start]: day('2025-10-01', 20, 1000, 15),
+      },
+    })
+
+    const result = await fetchSearchConsoleData('org-1', periods)
+
+    expect(result?.metrics.gsc_clicks).toMatchObject({ current: 40, qoq: 20, yoy: 0 })
+    expect(result?.metrics.gsc_impressions.current).toBe(4000)
+    expect(result?.metrics.gsc_ctr.current).toBe(1)
+    expect(result?.metrics.gsc_position).toMatchObject({ current: 17.5, qoq: 15 })
+  })
+
+  test('includes top queries and pages for the review period', async () => {
+    const { rpc } = makeSupabaseFake({
+      topRows: {
+        query: [{ key: 'selo', clicks: '12', impressions: '400', ctr: '3', position: '2.5' }],
+      },
+    })
+
+    const result = await fetchSearchConsoleData('org-1', periods)
+
+    expect(result?.top_queries).toEqual([
+      { key: 'selo', clicks: 12, impressions: 400, ctr: 3, position: 2.5 },
+    ])
+    expect(result?.top_pages).toBeUndefined()
+    expect(rpc).toHaveBeenCalledWith(
+      'search_console_top_rows',
+      expect.objectContaining({ org_id: 'org-1', start_date: '2026-01-01', end_date: '2026-03-31' })
+    )
+  })
+})
@@ -5,7 +5,8 @@ import {
   NarrativeGenerationError,
 } from '@/lib/reviews/narrative/generator'
 import { logUsage } from '@/lib/app-settings/usage'
-import { UsageFeature } from '@/lib/enums'
+import { AIDisabledError, getAnthropicProvider } from '@/lib/ai/provider'
+import { ReviewPeriodType, UsageFeature } from '@/lib/enums'
 
 vi.mock('ai', () => ({
   generateObject: vi.fn(),
@@ -13,6 +14,7 @@ vi.mock('ai', () => ({
 
 vi.mock('@/lib/ai/provider', () => ({
   getAnthropicProvider: vi.fn(async () => () => 'mock-model'),
+  AIDisabledError: class AIDisabledError extends Error {},
 }))
 
 vi.mock('@/lib/app-settings/usage', () => ({
@@ -38,6 +40,7 @@ const baseInput = {
   organizationId: 'org-1',
   organizationName: 'Acme',
   quarter: '2026-Q1',
+  periodType: ReviewPeriodType.Quarter,
   periodStart: '2026-01-01',
   periodEnd: '2026-03-31',
   data: {},
@@ -129,6 +132,14 @@ describe('generateNarrativeBlocks', () => {
     await expect(generateNarrativeBlocks(baseInput)).rejects.toThrow('anthropic unavailable')
   })
 
+  test('rethrows AIDisabledError without logging a failed generation', async () => {
+    ;(getAnthropicProvider as unknown as Mock).mockRejectedValueOnce(new AIDisabledError())
+
+    await expect(generateNarrativeBlocks(baseInput)).rejects.toBeInstanceOf(AIDisabledError)
+    expect(generateObject).not.toHaveBeenCalled()
+    expect(logUsage).not.toHaveBeenCalled()
+  })
+
   test('weaves author notes into the master prompt when provided', async () => {
     ;(generateObject as unknown as Mock).mockResolvedValue({
       object: {
@@ -153,6 +164,32 @@ describe('generateNarrativeBlocks', () => {
     expect(call.prompt).toContain('Massive paid campaign ran last quarter')
   })
 
+  test('describes monthly reports in the master prompt', async () => {
+    ;(generateObject as unknown as Mock).mockResolvedValue({
+      object: {
+        cover_subtitle: 'x',
+        ga_summary: 'x',
+        linkedin_insights: 'x',
+        content_highlights: 'x',
+        initiatives: 'x',
+        takeaways: 'x',
+        planning: 'x',
+      },
+      usage: { inputTokens: 1, outputTokens: 1 },
+    })
+
+    await generateNarrativeBlocks({
+      ...baseInput,
+      quarter: '2026-03',
+      periodType: ReviewPeriodType.Month,
+      periodStart: '2026-03-01',
+    })
+
+    const call = (generateObject as unknown as Mock).mock.calls[0][0]
+    expect(call.prompt).toContain('monthly marketing performance report')
+    expect(call.prompt).not.toContain('quarterly marketing performance report')
+  })
+
   test('omits author notes section when notes are absent', async () => {
     ;(generateObject as unknown as Mock).mockResolvedValue({
       object: {
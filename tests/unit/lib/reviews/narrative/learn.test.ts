@@ -10,6 +10,7 @@ const anthropicFactory = vi.fn((modelId: string) => `mock-model:${modelId}`)
 const getAnthropicProvider = vi.fn(() => anthropicFactory)
 vi.mock('@/lib/ai/provider', () => ({
   getAnthropicProvider: () => getAnthropicProvider(),
+  AIDisabledError: class AIDisabledError extends Error {},
 }))
 
 const upsertMemo = vi.fn()
@@ -6,11 +6,13 @@ import {
   header,
 } from '@/lib/reviews/narrative/prompts'
 import { GA_FEATURED_METRICS } from '@/lib/reviews/featured-metrics'
+import { ReviewPeriodType } from '@/lib/enums'
 import type { PromptContext } from '@/lib/reviews/narrative/prompts'
 
 const baseCtx: PromptContext = {
   organizationName: 'Test Co',
   quarter: 'Q1 2026',
+  periodType: ReviewPeriodType.Quarter,
   periodStart: '2026-01-01',
   periodEnd: '2026-03-31',
   data: {},
@@ -120,6 +122,7 @@ describe('contentHighlightsPrompt', () => {
     const ctx: PromptContext = {
       organizationName: 'Acme',
       quarter: 'Q1 2026',
+      periodType: ReviewPeriodType.Quarter,
       periodStart: '2026-01-01',
       periodEnd: '2026-03-31',
       data: {
@@ -149,3 +152,35 @@ describe('contentHighlightsPrompt', () => {
     expect(prompt).toContain('Use confident voice.')
   })
 })
+
+describe('period-aware prompts', () => {
+  const monthCtx: PromptContext = {
+    ...baseCtx,
+    quarter: 'March 2026',
+    periodType: ReviewPeriodType.Month,
+    periodStart: '2026-03-01',
+    periodEnd: '2026-03-31',
+  }
+
+  test('labels the period and explains comparison windows for monthly reports', () => {
+    const output = header(monthCtx)
+    expect(output).toContain('Month: March 2026 (2026-03-01 → 2026-03-31)')
+    expect(output).toContain('compare against the previous month')
+  })
+
+  test('omits the comparison note for quarterly reports', () => {
+    const output = header(baseCtx)
+    expect(output).toContain('Quarter: Q1 2026')
+    expect(output).not.toContain('compare against')
+  })
+
+  test('default templates speak about the review period', () => {
+    expect(defaultTemplateGaSummary(ReviewPeriodType.Month)).toContain(
+      'Google Analytics highlights for this month'
+    )
+    expect(defaultTemplateGaSummary(ReviewPeriodType.Custom)).toContain(
+      'Analytics data unavailable this period'
+    )
+    expect(gaSummaryPrompt(monthCtx)).not.toContain('this quarter')
+  })
+})
@@ -5,7 +5,19 @@ import {
   currentQuarter,
   formatQuarterLabel,
   buildQuarterOptions,
+  parseMonth,
+  periodsForMonth,
+  parseCustomPeriod,
+  buildCustomPeriodKey,
+  periodsForCustomRange,
+  getPeriodType,
+  periodsFor,
+  currentMonth,
+  buildMonthOptions,
+  formatPeriodLabel,
+  previousPeriodLabel,
 } from '@/lib/reviews/period'
+import { ReviewPeriodType } from '@/lib/enums'
 
 describe('parseQuarter', () => {
   test('parses 2026-Q1 to year/quarter', () => {
@@ -117,3 +129,121 @@ describe('formatQuarterLabel', () => {
     expect(() => formatQuarterLabel('not-a-quarter')).toThrow()
   })
 })
+
+describe('parseMonth', () => {
+  test('parses 2026-03 to year/month', () => {
+    expect(parseMonth('2026-03')).toEqual({ year: 2026, month: 3 })
+  })
+
+  test('throws on malformed input', () => {
+    expect(() => parseMonth('2026-00')).toThrow()
+    expect(() => parseMonth('2026-13')).toThrow()
+    expect(() => parseMonth('2026-3')).toThrow()
+  })
+})
+
+describe('periodsForMonth', () => {
+  test('March 2026 compares against February 2026 and March 2025', () => {
+    const p = periodsForMonth('2026-03')
+    expect(p.main).toEqual({ start: '2026-03-01', end: '2026-03-31' })
+    expect(p.qoq).toEqual({ start: '2026-02-01', end: '2026-02-28' })
+    expect(p.yoy).toEqual({ start: '2025-03-01', end: '2025-03-31' })
+  })
+
+  test('January crosses the year boundary for the previous month', () => {
+    const p = periodsForMonth('2026-01')
+    expect(p.qoq).toEqual({ start: '2025-12-01', end: '2025-12-31' })
+  })
+
+  test('handles leap-year February', () => {
+    const p = periodsForMonth('2024-02')
+    expect(p.main).toEqual({ start: '2024-02-01', end: '2024-02-29' })
+    expect(p.yoy).toEqual({ start: '2023-02-01', end: '2023-02-28' })
+  })
+})
+
+describe('parseCustomPeriod', () => {
+  test('parses an inclusive date range', () => {
+    expect(parseCustomPeriod('2026-01-15..2026-02-14')).toEqual({
+      start: '2026-01-15',
+      end: '2026-02-14',
+    })
+  })
+
+  test('accepts a single-day range', () => {
+    expect(buildCustomPeriodKey('2026-01-15', '2026-01-15')).toBe('2026-01-15..2026-01-15')
+  })
+
+  test('throws on reversed, impossible or malformed ranges', () => {
+    expect(() => parseCustomPeriod('2026-02-14..2026-01-15')).toThrow()
+    expect(() => parseCustomPeriod('2026-02-30..2026-03-15')).toThrow()
+    expect(() => parseCustomPeriod('2026-01-15')).toThrow()
+    expect(() => buildCustomPeriodKey('', '2026-01-15')).toThrow()
+  })
+})
+
+describe('periodsForCustomRange', () => {
+  test('compares against the equal-length window immediately before', () => {
+    const p = periodsForCustomRange('2026-01-15..2026-02-14')
+    expect(p.main).toEqual({ start: '2026-01-15', end: '2026-02-14' })
+    // 31 days ending the day before the range starts
+    expect(p.qoq).toEqual({ start: '2025-12-15', end: '2026-01-14' })
+    expect(p.yoy).toEqual({ start: '2025-01-15', end: '2025-02-14' })
+  })
+
+  test('clamps Feb 29 when shifting back a year', () => {
+    const p = periodsForCustomRange('2024-02-01..2024-02-29')
+    expect(p.yoy).toEqual({ start: '2023-02-01', end: '2023-02-28' })
+  })
+})
+
+describe('getPeriodType / periodsFor', () => {
+  test('detects each period type from its key', () => {
+    expect(getPeriodType('2026-Q1')).toBe(ReviewPeriodType.Quarter)
+    expect(getPeriodType('2026-03')).toBe(ReviewPeriodType.Month)
+    expect(getPeriodType('2026-01-15..2026-02-14')).toBe(ReviewPeriodType.Custom)
+  })
+
+  test('throws on unrecognised keys', () => {
+    expect(() => getPeriodType('2026')).toThrow()
+    expect(() => getPeriodType('not-a-period')).toThrow()
+  })
+
+  test('dispatches to the matching period calculation', () => {
+    expect(periodsFor('2026-Q1')).toEqual({
+      type: ReviewPeriodType.Quarter,
+      ...periodsForQuarter('2026-Q1'),
+    })
+    expect(periodsFor('2026-03')).toEqual({
+      type: ReviewPeriodType.Month,
+      ...periodsForMonth('2026-03'),
+    })
+    expect(periodsFor('2026-01-15..2026-02-14').type).toBe(ReviewPeriodType.Custom)
+  })
+})
+
+describe('buildMonthOptions', () => {
+  test('returns the current month first and walks back through prior months', () => {
+    expect(currentMonth(new Date('2026-04-21'))).toBe('2026-04')
+    const options = buildMonthOptions(new Date('2026-04-21'))
+    expect(options.slice(0, 5)).toEqual(['2026-04', '2026-03', '2026-02', '2026-01', '2025-12'])
+    expect(options).not.toContain('2026-05')
+    // current (4) + full 2025 (12) + full 2024 (12) = 28 months
+    expect(options).toHaveLength(28)
+  })
+})
+
+describe('formatPeriodLabel', () => {
+  test('formats every period type', () => {
+    expect(formatPeriodLabel('2026-Q1')).toBe('Q1 2026')
+    expect(formatPeriodLabel('2026-03')).toBe('March 2026')
+    expect(formatPeriodLabel('2026-01-15..2026-02-14')).toBe('Jan 15 – Feb 14, 2026')
+    expect(formatPeriodLabel('2025-12-01..2026-01-31')).toBe('Dec 1, 2025 – Jan 31, 2026')
+  })
+
+  test('labels the previous-period comparison per type', () => {
+    expect(previousPeriodLabel(ReviewPeriodType.Quarter)).toBe('QoQ')
+    expect(previousPeriodLabel(ReviewPeriodType.Month)).toBe('MoM')
+    expect(previousPeriodLabel(ReviewPeriodType.Custom)).toBe('PoP')
+  })
+})
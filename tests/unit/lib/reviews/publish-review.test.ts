@@ -22,7 +22,9 @@ vi.mock('@/lib/auth/cached', () => ({
 vi.mock('nanoid', () => ({ nanoid: () => 'test-share-token-21chars' }))
 
 vi.mock('@/lib/reviews/period', () => ({
-  periodsForQuarter: () => ({
+  formatPeriodLabel: (period: string) => period,
+  periodsFor: () => ({
+    type: 'quarter',
     main: { start: '2026-01-01', end: '2026-03-31' },
     qoq: { start: '2025-10-01', end: '2025-12-31' },
     yoy: { start: '2025-01-01', end: '2025-03-31' },
@@ -34,6 +36,15 @@ vi.mock('@/lib/reviews/narrative/learn', () => ({
   runStyleMemoLearner: (...args: unknown[]) => runStyleMemoLearner(...args),
 }))
 
+const deliverReviewSnapshot = vi.fn()
+const prerenderSnapshotPdf = vi.fn()
+vi.mock('@/lib/reviews/distribution', () => ({
+  MAX_REVIEW_RECIPIENTS: 50,
+  parseRecipients: vi.fn(),
+  prerenderSnapshotPdf: (...args: unknown[]) => prerenderSnapshotPdf(...args),
+  deliverReviewSnapshot: (...args: unknown[]) => deliverReviewSnapshot(...args),
+}))
+
 import { publishReview } from '@/lib/reviews/actions'
 import { createClient } from '@/lib/supabase/server'
 import { getAuthUser, getUserRecord } from '@/lib/auth/cached'
@@ -66,6 +77,7 @@ function setupHappyPathSupabase(options: {
     author_notes: unknown
     ai_originals: unknown
   }
+  sendOnPublish?: boolean
 }) {
   const reviewChain = makeChain({
     maybeSingle: async () => ({ data: reviewRow, error: null }),
@@ -85,7 +97,12 @@ function setupHappyPathSupabase(options: {
   }
   insertMock.mockImplementation(() => insertChain)
 
-  const updateChain = makeChain()
+  const updateChain = makeChain({
+    maybeSingle: async () => ({
+      data: { send_on_publish: options.sendOnPublish ?? false },
+      error: null,
+    }),
+  })
 
   let reviewCallCount = 0
   let snapshotCallCount = 0
@@ -251,3 +268,57 @@ describe('publishReview — style memo learner', () => {
     expect(result).toEqual({ success: true, snapshotId: 'snap-1', version: 1 })
   })
 })
+
+describe('publishReview — send on publish', () => {
+  const draftData = {
+    data: { ga: {} },
+    narrative: { cover_subtitle: 'edited cover' },
+    author_notes: null,
+    ai_originals: null,
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getAuthUser).mockResolvedValue({ id: 'user-1' } as never)
+    vi.mocked(getUserRecord).mockResolvedValue({
+      organization_id: 'org-1',
+      role: 'admin',
+      is_internal: false,
+    } as never)
+    runStyleMemoLearner.mockResolvedValue({ status: 'updated' })
+    deliverReviewSnapshot.mockResolvedValue({ sent: 1, failed: 0, suppressed: 0 })
+  })
+
+  test('emails the distribution list when send_on_publish is enabled', async () => {
+    setupHappyPathSupabase({ draftData, sendOnPublish: true })
+
+    const result = await publishReview('review-1')
+
+    expect(result).toMatchObject({ success: true, snapshotId: 'snap-1' })
+    expect(prerenderSnapshotPdf).toHaveBeenCalledWith('snap-1')
+    expect(deliverReviewSnapshot).toHaveBeenCalledWith({
+      reviewId: 'review-1',
+      snapshotId: 'snap-1',
+      trigger: 'publish',
+      triggeredBy: 'user-1',
+    })
+  })
+
+  test('does not email anyone when send_on_publish is disabled', async () => {
+    setupHappyPathSupabase({ draftData })
+
+    await publishReview('review-1')
+
+    expect(prerenderSnapshotPdf).toHaveBeenCalledWith('snap-1')
+    expect(deliverReviewSnapshot).not.toHaveBeenCalled()
+  })
+
+  test('returns success even when delivery fails', async () => {
+    deliverReviewSnapshot.mockRejectedValueOnce(new Error('Resend down'))
+    setupHappyPathSupabase({ draftData, sendOnPublish: true })
+
+    const result = await publishReview('review-1')
+
+    expect(result).toEqual({ success: true, snapshotId: 'snap-1', version: 1 })
+  })
+})
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: vi.fn(),
+}))
+
+import {
+  authorizeSharedLinkDownload,
+  createDownloadGrant,
+  verifyDownloadGrant,
+} from '@/lib/share/download-grant'
+import { createServiceClient } from '@/lib/supabase/server'
+import { makeChain } from '@/tests/helpers/supabase-mocks'
+import { ShareErrorCode, SharedResourceType } from '@/lib/enums'
+
+function mockLink(link: Record<string, unknown> | null) {
+  vi.mocked(createServiceClient).mockReturnValue({
+    from: vi.fn(() => makeChain({ maybeSingle: vi.fn(async () => ({ data: link, error: null })) })),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  } as any)
+}
+
+describe('download grants', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('SHARE_DOWNLOAD_SECRET', 'test-secret')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.useRealTimers()
+  })
+
+  it('verifies only for the share token it was issued for', () => {
+    const grant = createDownloadGrant('share-a')
+    expect(verifyDownloadGrant(grant, 'share-a')).toBe(true)
+    expect(verifyDownloadGrant(grant, 'share-b')).toBe(false)
+  })
+
+  it('rejects tampered and expired grants', () => {
+    const [, signature] = createDownloadGrant('share-a').split('.')
+    const forged = Buffer.from(JSON.stringify({ token: 'share-b', exp: Date.now() + 60_000 }))
+    expect(verifyDownloadGrant(`${forged.toString('base64url')}.${signature}`, 'share-b')).toBe(
+      false
+    )
+
+    vi.useFakeTimers()
+    const grant = createDownloadGrant('share-a', 1000)
+    vi.advanceTimersByTime(1001)
+    expect(verifyDownloadGrant(grant, 'share-a')).toBe(false)
+  })
+
+  it('authorizes a granted download even after the last view was used', async () => {
+    mockLink({
+      resource_type: SharedResourceType.Report,
+      resource_id: 'report-1',
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+    })
+
+    await expect(
+      authorizeSharedLinkDownload('share-a', createDownloadGrant('share-a'))
+    ).resolves.toEqual({
+      success: true,
+      resource_type: SharedResourceType.Report,
+      resource_id: 'report-1',
+    })
+  })
+
+  it('requires a grant instead of checking the link', async () => {
+    await expect(authorizeSharedLinkDownload('share-a', undefined)).resolves.toEqual({
+      success: false,
+      errorCode: ShareErrorCode.DownloadGrantRequired,
+    })
+    expect(createServiceClient).not.toHaveBeenCalled()
+  })
+
+  it('stops downloads once the link is deleted or expires', async () => {
+    const grant = createDownloadGrant('share-a')
+
+    mockLink(null)
+    await expect(authorizeSharedLinkDownload('share-a', grant)).resolves.toMatchObject({
+      errorCode: ShareErrorCode.NotFound,
+    })
+
+    mockLink({ resource_type: 'report', resource_id: 'report-1', expires_at: '2020-01-01' })
+    await expect(authorizeSharedLinkDownload('share-a', grant)).resolves.toMatchObject({
+      errorCode: ShareErrorCode.Expired,
+    })
+  })
+})
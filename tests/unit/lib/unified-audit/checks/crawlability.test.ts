@@ -405,6 +405,37 @@ describe('js-rendering', () => {
 
     expect(result.status).toBe(CheckStatus.Passed)
   })
+
+  describe('rendered crawl mode', () => {
+    const renderedHtml = `<html><head><title>Products</title></head><body>
+      <h1>Our Products</h1>
+      <p>${'Detailed product copy rendered on the client. '.repeat(20)}</p>
+    </body></html>`
+
+    it('should fail when content only appears after JavaScript runs', async () => {
+      const rawHtml = `<html><head><title>Products</title></head><body><div id="root"></div></body></html>`
+
+      const context: CheckContext = { url: 'https://example.com/', html: renderedHtml, rawHtml }
+      const result = await jsRendering.run(context)
+
+      expect(result.status).toBe(CheckStatus.Failed)
+      expect(result.details?.jsOnlyElements).toEqual(['H1'])
+      expect(result.details?.rawWordCount).toBe(0)
+      expect(result.details?.jsOnlyWords).toBe(result.details?.renderedWordCount)
+    })
+
+    it('should pass when the raw HTML already contains the rendered content', async () => {
+      const context: CheckContext = {
+        url: 'https://example.com/',
+        html: renderedHtml,
+        rawHtml: renderedHtml,
+      }
+      const result = await jsRendering.run(context)
+
+      expect(result.status).toBe(CheckStatus.Passed)
+      expect(result.details?.jsOnlyWords).toBe(0)
+    })
+  })
 })
 
 // =============================================================================
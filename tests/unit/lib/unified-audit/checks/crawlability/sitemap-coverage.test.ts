@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { sitemapCoverage } from '@/lib/unified-audit/checks/crawlability/sitemap-coverage'
+import { CheckStatus } from '@/lib/enums'
+import type { CheckContext } from '@/lib/unified-audit/types'
+
+const mockFetch = vi.fn()
+vi.stubGlobal('fetch', mockFetch)
+
+beforeEach(() => {
+  mockFetch.mockReset()
+})
+
+const page = (url: string, extra: object = {}) => ({
+  url,
+  title: 'Page',
+  statusCode: 200,
+  isNoindex: false,
+  ...extra,
+})
+
+function context(
+  sitemapUrls: string[],
+  linkedUrls: string[],
+  allPages: CheckContext['allPages'],
+  crawlComplete = true
+): CheckContext {
+  return {
+    url: 'https://example.com/',
+    html: '',
+    allPages,
+    sitemapCoverage: { sitemapUrls, linkedUrls, crawlComplete },
+  }
+}
+
+describe('sitemapCoverage', () => {
+  it('passes when no sitemap was found', async () => {
+    const result = await sitemapCoverage.run({ url: 'https://example.com/', html: '' })
+    expect(result.status).toBe(CheckStatus.Passed)
+  })
+
+  it('passes when sitemap and crawl agree', async () => {
+    const urls = ['https://example.com', 'https://example.com/about']
+    const result = await sitemapCoverage.run(
+      context(
+        urls,
+        urls,
+        urls.map((u) => page(u))
+      )
+    )
+
+    expect(result.status).toBe(CheckStatus.Passed)
+    expect(result.details?.sitemapUrlCount).toBe(2)
+  })
+
+  it('warns about orphans and indexable pages missing from the sitemap', async () => {
+    const result = await sitemapCoverage.run(
+      context(
+        ['https://example.com', 'https://example.com/landing'],
+        ['https://example.com', 'https://example.com/pricing', 'https://example.com/old'],
+        [
+          page('https://example.com'),
+          page('https://example.com/landing'),
+          page('https://example.com/pricing'),
+          page('https://example.com/old', { canonicalUrl: 'https://example.com/pricing' }),
+        ]
+      )
+    )
+
+    expect(result.status).toBe(CheckStatus.Warning)
+    expect(result.details?.orphanUrls).toEqual(['https://example.com/landing'])
+    expect(result.details?.missingFromSitemap).toEqual(['https://example.com/pricing'])
+  })
+
+  it('reports unlinked URLs without warning when the crawl stopped early', async () => {
+    const result = await sitemapCoverage.run(
+      context(
+        ['https://example.com', 'https://example.com/deep/page'],
+        ['https://example.com'],
+        [page('https://example.com')],
+        false
+      )
+    )
+
+    expect(result.status).toBe(CheckStatus.Passed)
+    expect(result.details?.orphanUrls).toBeUndefined()
+    expect(result.details?.unlinkedUrls).toEqual(['https://example.com/deep/page'])
+    expect(result.details?.message).toContain('not linked from crawled pages')
+  })
+
+  it('fails on non-200 and noindexed sitemap entries', async () => {
+    mockFetch.mockResolvedValue({ status: 301 })
+    const sitemap = [
+      'https://example.com',
+      'https://example.com/gone',
+      'https://example.com/private',
+      'https://example.com/moved',
+    ]
+
+    const result = await sitemapCoverage.run(
+      context(sitemap, sitemap, [
+        page('https://example.com'),
+        page('https://example.com/gone', { statusCode: 404 }),
+        page('https://example.com/private', { isNoindex: true }),
+      ])
+    )
+
+    expect(result.status).toBe(CheckStatus.Failed)
+    expect(result.details?.nonOkUrls).toEqual([
+      { url: 'https://example.com/gone', statusCode: 404 },
+      { url: 'https://example.com/moved', statusCode: 301 },
+    ])
+    expect(result.details?.noindexUrls).toEqual(['https://example.com/private'])
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+})
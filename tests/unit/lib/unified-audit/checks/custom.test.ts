@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildCustomCheck,
+  isUnsafeRegex,
+  matchesUrlScope,
+  validateCustomCheckPattern,
+} from '@/lib/unified-audit/checks/custom'
+import {
+  CheckCategory,
+  CheckPriority,
+  CheckStatus,
+  CustomCheckRuleType,
+  ScoreDimension,
+} from '@/lib/enums'
+import type { CustomCheck } from '@/lib/unified-audit/types'
+
+const makeCustomCheck = (overrides: Partial<CustomCheck> = {}): CustomCheck => ({
+  id: 'abc-123',
+  organization_id: 'org-1',
+  display_name: 'Product pages have Product schema',
+  description: null,
+  rule_type: CustomCheckRuleType.JsonLdType,
+  pattern: 'Product',
+  url_scope: null,
+  priority: CheckPriority.Critical,
+  feeds_score: ScoreDimension.SEO,
+  fix_guidance: null,
+  is_active: true,
+  created_by: null,
+  created_at: '2026-04-25T00:00:00Z',
+  updated_at: '2026-04-25T00:00:00Z',
+  ...overrides,
+})
+
+const run = (check: CustomCheck, html: string) =>
+  buildCustomCheck(check).run({ url: 'https://example.com/products/widget', html })
+
+describe('buildCustomCheck', () => {
+  it('builds a page-specific definition in the custom category', () => {
+    const definition = buildCustomCheck(makeCustomCheck())
+
+    expect(definition.name).toBe('custom_abc-123')
+    expect(definition.category).toBe(CheckCategory.Custom)
+    expect(definition.priority).toBe(CheckPriority.Critical)
+    expect(definition.feedsScores).toEqual([ScoreDimension.SEO])
+    expect(definition.isSiteWide).toBe(false)
+  })
+
+  it('checks selector presence and absence', async () => {
+    const html = '<html><body><a href="https://staging.example.com/x">x</a></body></html>'
+    const selector = 'a[href*="staging.example.com"]'
+
+    const present = await run(
+      makeCustomCheck({ rule_type: CustomCheckRuleType.SelectorPresent, pattern: selector }),
+      html
+    )
+    const absent = await run(
+      makeCustomCheck({ rule_type: CustomCheckRuleType.SelectorAbsent, pattern: selector }),
+      html
+    )
+
+    expect(present.status).toBe(CheckStatus.Passed)
+    expect(absent.status).toBe(CheckStatus.Failed)
+    expect(absent.details?.matchCount).toBe(1)
+  })
+
+  it('checks regex match and no-match case-insensitively', async () => {
+    const html = '<p>Lorem Ipsum dolor</p>'
+
+    const match = await run(
+      makeCustomCheck({ rule_type: CustomCheckRuleType.RegexMatch, pattern: 'lorem ipsum' }),
+      html
+    )
+    const noMatch = await run(
+      makeCustomCheck({ rule_type: CustomCheckRuleType.RegexNoMatch, pattern: 'lorem ipsum' }),
+      html
+    )
+
+    expect(match.status).toBe(CheckStatus.Passed)
+    expect(noMatch.status).toBe(CheckStatus.Failed)
+    expect(noMatch.details?.matchedText).toBe('Lorem Ipsum')
+  })
+
+  it('errors instead of hanging on a catastrophically backtracking pattern', async () => {
+    const check = makeCustomCheck({ rule_type: CustomCheckRuleType.RegexMatch, pattern: '^(a+)+$' })
+
+    await expect(run(check, `${'a'.repeat(40)}!`)).rejects.toThrow('took longer than')
+  })
+
+  it('finds JSON-LD types inside @graph and type arrays', async () => {
+    const graph = `<script type="application/ld+json">${JSON.stringify({
+      '@context': 'https://schema.org',
+      '@graph': [{ '@type': 'WebPage' }, { '@type': ['Product', 'Thing'] }],
+    })}</script>`
+    const other = `<script type="application/ld+json">${JSON.stringify({
+      '@type': 'Organization',
+    })}</script>`
+
+    expect((await run(makeCustomCheck(), graph)).status).toBe(CheckStatus.Passed)
+
+    const missing = await run(makeCustomCheck(), other)
+    expect(missing.status).toBe(CheckStatus.Failed)
+    expect(missing.details?.foundTypes).toEqual(['Organization'])
+  })
+
+  it('limits pages with the URL scope', () => {
+    const definition = buildCustomCheck(makeCustomCheck({ url_scope: '/products/*' }))
+
+    expect(definition.appliesTo?.('https://example.com/products/widget')).toBe(true)
+    expect(definition.appliesTo?.('https://example.com/blog/post')).toBe(false)
+  })
+})
+
+describe('matchesUrlScope', () => {
+  it('matches every page without a scope', () => {
+    expect(matchesUrlScope(null, 'https://example.com/anything')).toBe(true)
+  })
+
+  it('matches as a path prefix with wildcards', () => {
+    expect(matchesUrlScope('/products', 'https://example.com/products/a')).toBe(true)
+    expect(matchesUrlScope('/shop/*/reviews', 'https://example.com/shop/a/reviews')).toBe(true)
+    expect(matchesUrlScope('/shop/*/reviews', 'https://example.com/shop/a/specs')).toBe(false)
+  })
+
+  it('anchors the end with $', () => {
+    expect(matchesUrlScope('/about$', 'https://example.com/about')).toBe(true)
+    expect(matchesUrlScope('/about$', 'https://example.com/about/team')).toBe(false)
+  })
+
+  it('treats regex characters in the scope literally', () => {
+    expect(matchesUrlScope('/a.b', 'https://example.com/a.b/c')).toBe(true)
+    expect(matchesUrlScope('/a.b', 'https://example.com/axb/c')).toBe(false)
+  })
+})
+
+describe('isUnsafeRegex', () => {
+  it('flags nested repetition and backreferences', () => {
+    expect(isUnsafeRegex('(a+)+')).toBe(true)
+    expect(isUnsafeRegex('((\\w*)\\s)*')).toBe(true)
+    expect(isUnsafeRegex('(["\'])x\\1')).toBe(true)
+  })
+
+  it('allows repetition that cannot nest', () => {
+    expect(isUnsafeRegex('<meta name="robots" content="[^"]*noindex')).toBe(false)
+    expect(isUnsafeRegex('(https?://)?staging\\.')).toBe(false)
+    expect(isUnsafeRegex('[(a+)]+')).toBe(false)
+  })
+})
+
+describe('validateCustomCheckPattern', () => {
+  it('rejects invalid regexes, selectors and schema types', () => {
+    expect(validateCustomCheckPattern(CustomCheckRuleType.RegexMatch, '(')).toBe(
+      'Invalid regular expression'
+    )
+    expect(validateCustomCheckPattern(CustomCheckRuleType.SelectorPresent, 'a[')).toBe(
+      'Invalid CSS selector'
+    )
+    expect(validateCustomCheckPattern(CustomCheckRuleType.JsonLdType, 'Product Page')).toBe(
+      'Invalid schema type'
+    )
+    expect(validateCustomCheckPattern(CustomCheckRuleType.JsonLdType, ' ')).toBe(
+      'Pattern is required'
+    )
+  })
+
+  it('rejects regexes that can backtrack exponentially', () => {
+    expect(validateCustomCheckPattern(CustomCheckRuleType.RegexMatch, '(a+)+$')).toContain(
+      'nested repetition'
+    )
+    expect(validateCustomCheckPattern(CustomCheckRuleType.RegexMatch, 'x'.repeat(501))).toContain(
+      'at most 500 characters'
+    )
+  })
+
+  it('accepts valid patterns', () => {
+    expect(validateCustomCheckPattern(CustomCheckRuleType.RegexNoMatch, 'staging\\.')).toBeNull()
+    expect(validateCustomCheckPattern(CustomCheckRuleType.SelectorAbsent, 'div.price')).toBeNull()
+    expect(validateCustomCheckPattern(CustomCheckRuleType.JsonLdType, 'FAQPage')).toBeNull()
+  })
+})
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { CheckStatus } from '@/lib/enums'
+import type { CheckContext, HreflangLink } from '@/lib/unified-audit/types'
+import {
+  hreflangInvalidCodes,
+  hreflangInvalidTargets,
+  hreflangMissingXDefault,
+  hreflangReturnTags,
+  hreflangSitemapConflicts,
+} from '@/lib/unified-audit/checks/international'
+import { validateHreflangCode } from '@/lib/unified-audit/checks/international/hreflang-utils'
+
+const mockFetch = vi.fn()
+vi.stubGlobal('fetch', mockFetch)
+
+beforeEach(() => {
+  mockFetch.mockReset()
+})
+
+const EN = 'https://example.com/en'
+const DE = 'https://example.com/de'
+
+const alternates: HreflangLink[] = [
+  { hreflang: 'en', href: EN },
+  { hreflang: 'de', href: DE },
+  { hreflang: 'x-default', href: EN },
+]
+
+function page(url: string, hreflang: HreflangLink[] | null, extra: object = {}) {
+  return { url, title: null, statusCode: 200, hreflang, canonicalUrl: url, ...extra }
+}
+
+function xmlResponse(xml: string) {
+  return new Response(xml)
+}
+
+function context(allPages: CheckContext['allPages']): CheckContext {
+  return { url: 'https://example.com/', html: '', allPages }
+}
+
+// =============================================================================
+// Hreflang codes
+// =============================================================================
+
+describe('validateHreflangCode', () => {
+  it('accepts language, language-region, script subtags and x-default', () => {
+    expect(validateHreflangCode('en')).toBeNull()
+    expect(validateHreflangCode('en-GB')).toBeNull()
+    expect(validateHreflangCode('zh-Hant-TW')).toBeNull()
+    expect(validateHreflangCode('x-default')).toBeNull()
+  })
+
+  it('rejects common mistakes', () => {
+    expect(validateHreflangCode('en-UK')).toContain('use GB')
+    expect(validateHreflangCode('en_US')).toContain('underscore')
+    expect(validateHreflangCode('eng')).toContain('ISO 639-1')
+    expect(validateHreflangCode('en-XX')).toContain('ISO 3166-1')
+  })
+})
+
+describe('hreflang-invalid-codes', () => {
+  it('groups invalid codes across pages', async () => {
+    const bad = [...alternates, { hreflang: 'en-UK', href: 'https://example.com/uk' }]
+    const result = await hreflangInvalidCodes.run(context([page(EN, bad), page(DE, bad)]))
+
+    expect(result.status).toBe(CheckStatus.Failed)
+    const invalidCodes = result.details?.invalidCodes as { code: string; pageCount: number }[]
+    expect(invalidCodes).toEqual([expect.objectContaining({ code: 'en-UK', pageCount: 2 })])
+  })
+
+  it('passes sites without hreflang', async () => {
+    const result = await hreflangInvalidCodes.run(context([page(EN, null)]))
+    expect(result.status).toBe(CheckStatus.Passed)
+  })
+})
+
+// =============================================================================
+// Return tags
+// =============================================================================
+
+describe('hreflang-return-tags', () => {
+  it('passes when alternates link to each other', async () => {
+    const result = await hreflangReturnTags.run(
+      context([page(EN, alternates), page(DE, alternates)])
+    )
+    expect(result.status).toBe(CheckStatus.Passed)
+  })
+
+  it('fails when a crawled alternate does not link back', async () => {
+    const result = await hreflangReturnTags.run(
+      context([page(EN, alternates), page(DE, [{ hreflang: 'de', href: DE }])])
+    )
+
+    expect(result.status).toBe(CheckStatus.Failed)
+    expect(result.details?.missingReturn).toEqual([{ from: EN, to: DE, hreflang: 'de' }])
+  })
+
+  it('matches URLs regardless of trailing slash', async () => {
+    const withSlashes = alternates.map((l) => ({ ...l, href: `${l.href}/` }))
+    const result = await hreflangReturnTags.run(
+      context([page(EN, withSlashes), page(DE, alternates)])
+    )
+    expect(result.status).toBe(CheckStatus.Passed)
+  })
+})
+
+// =============================================================================
+// x-default
+// =============================================================================
+
+describe('hreflang-missing-x-default', () => {
+  it('warns when pages omit x-default', async () => {
+    const noDefault = alternates.filter((l) => l.hreflang !== 'x-default')
+    const result = await hreflangMissingXDefault.run(
+      context([page(EN, noDefault), page(DE, alternates)])
+    )
+
+    expect(result.status).toBe(CheckStatus.Warning)
+    expect(result.details?.pages).toEqual([EN])
+  })
+})
+
+// =============================================================================
+// Targets
+// =============================================================================
+
+describe('hreflang-invalid-targets', () => {
+  it('flags crawled targets that canonicalize elsewhere or error', async () => {
+    const fr = 'https://example.com/fr'
+    const links = [...alternates, { hreflang: 'fr', href: fr }]
+    const result = await hreflangInvalidTargets.run(
+      context([
+        page(EN, links),
+        page(DE, links, { canonicalUrl: EN }),
+        page(fr, links, { statusCode: 404 }),
+      ])
+    )
+
+    expect(result.status).toBe(CheckStatus.Failed)
+    expect(result.details?.invalidTargets).toEqual([
+      expect.objectContaining({ target: DE, reason: 'non_canonical' }),
+      expect.objectContaining({ target: fr, reason: 'non_200', statusCode: 404 }),
+    ])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('probes uncrawled targets without following redirects', async () => {
+    mockFetch.mockResolvedValue({ status: 301 })
+    const result = await hreflangInvalidTargets.run(context([page(EN, alternates)]))
+
+    expect(mockFetch).toHaveBeenCalledWith(DE, expect.objectContaining({ redirect: 'manual' }))
+    expect(result.status).toBe(CheckStatus.Failed)
+    expect(result.details?.invalidTargets).toEqual([
+      expect.objectContaining({ target: DE, statusCode: 301 }),
+    ])
+  })
+})
+
+// =============================================================================
+// Sitemap conflicts
+// =============================================================================
+
+describe('hreflang-sitemap-conflicts', () => {
+  const sitemap = (deHref: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+  <url>
+    <loc>${EN}</loc>
+    <xhtml:link rel="alternate" hreflang="en" href="${EN}"/>
+    <xhtml:link rel="alternate" hreflang="de" href="${deHref}"/>
+    <xhtml:link rel="alternate" hreflang="x-default" href="${EN}"/>
+  </url>
+</urlset>`
+
+  it('passes when the sitemap matches the HTML', async () => {
+    mockFetch.mockResolvedValue(xmlResponse(sitemap(DE)))
+    const result = await hreflangSitemapConflicts.run(context([page(EN, alternates)]))
+
+    expect(result.status).toBe(CheckStatus.Passed)
+    expect(result.details?.pagesCompared).toBe(1)
+  })
+
+  it('reports alternates that differ between HTML and sitemap', async () => {
+    mockFetch.mockResolvedValue(xmlResponse(sitemap('https://example.com/de-de')))
+    const result = await hreflangSitemapConflicts.run(context([page(EN, alternates)]))
+
+    expect(result.status).toBe(CheckStatus.Failed)
+    expect(result.details?.conflicts).toEqual([
+      { url: EN, hreflang: 'de', html: DE, sitemap: 'https://example.com/de-de' },
+    ])
+  })
+
+  it('passes when no sitemap is reachable', async () => {
+    mockFetch.mockResolvedValue({ ok: false })
+    const result = await hreflangSitemapConflicts.run(context([page(EN, alternates)]))
+    expect(result.status).toBe(CheckStatus.Passed)
+  })
+})
@@ -0,0 +1,205 @@
+import { describe, test, expect } from 'vitest'
+import {
+  diffAudits,
+  findPreviousComparableAudit,
+  getCheckKey,
+  type DiffAudit,
+  type DiffCheck,
+  type DiffPage,
+} from '@/lib/unified-audit/diff'
+import {
+  CheckCategory,
+  CheckPriority,
+  CheckStatus,
+  ScoreDimension,
+  UnifiedAuditStatus,
+} from '@/lib/enums'
+
+const makeCheck = (overrides: Partial<DiffCheck> = {}): DiffCheck => ({
+  check_name: 'missing_title',
+  page_url: 'https://example.com/',
+  status: CheckStatus.Passed,
+  display_name: 'Missing Title',
+  category: CheckCategory.MetaContent,
+  priority: CheckPriority.Critical,
+  ...overrides,
+})
+
+const makeAudit = (overrides: Partial<DiffAudit> = {}): DiffAudit => ({
+  id: 'audit-a',
+  seo_score: 70,
+  performance_score: 60,
+  ai_readiness_score: 50,
+  overall_score: 62,
+  ...overrides,
+})
+
+const page = (url: string, isResource = false): DiffPage => ({ url, is_resource: isResource })
+
+describe('getCheckKey', () => {
+  test('combines check name and page URL', () => {
+    expect(getCheckKey({ check_name: 'missing_h1', page_url: 'https://a.com/x' })).toBe(
+      'missing_h1::https://a.com/x'
+    )
+  })
+
+  test('keys site-wide checks by name only', () => {
+    expect(getCheckKey({ check_name: 'sitemap_detection', page_url: null })).toBe(
+      'sitemap_detection::'
+    )
+  })
+})
+
+describe('diffAudits', () => {
+  test('reports checks that started failing', () => {
+    const diff = diffAudits(
+      {
+        audit: makeAudit(),
+        checks: [makeCheck({ status: CheckStatus.Passed })],
+        pages: [],
+      },
+      {
+        audit: makeAudit({ id: 'audit-b' }),
+        checks: [makeCheck({ status: CheckStatus.Failed })],
+        pages: [],
+      }
+    )
+
+    expect(diff.newlyFailing).toHaveLength(1)
+    expect(diff.newlyFailing[0].previous_status).toBe(CheckStatus.Passed)
+    expect(diff.fixed).toHaveLength(0)
+  })
+
+  test('treats failures on checks absent from the base audit as newly failing', () => {
+    const diff = diffAudits(
+      { audit: makeAudit(), checks: [], pages: [] },
+      {
+        audit: makeAudit({ id: 'audit-b' }),
+        checks: [makeCheck({ status: CheckStatus.Failed })],
+        pages: [],
+      }
+    )
+
+    expect(diff.newlyFailing[0].previous_status).toBeNull()
+  })
+
+  test('does not report checks that were already failing', () => {
+    const diff = diffAudits(
+      { audit: makeAudit(), checks: [makeCheck({ status: CheckStatus.Failed })], pages: [] },
+      {
+        audit: makeAudit({ id: 'audit-b' }),
+        checks: [makeCheck({ status: CheckStatus.Failed })],
+        pages: [],
+      }
+    )
+
+    expect(diff.newlyFailing).toHaveLength(0)
+  })
+
+  test('reports failed and warning checks that now pass as fixed', () => {
+    const diff = diffAudits(
+      {
+        audit: makeAudit(),
+        checks: [
+          makeCheck({ status: CheckStatus.Failed }),
+          makeCheck({ check_name: 'title_length', status: CheckStatus.Warning }),
+        ],
+        pages: [],
+      },
+      {
+        audit: makeAudit({ id: 'audit-b' }),
+        checks: [
+          makeCheck({ status: CheckStatus.Passed }),
+          makeCheck({ check_name: 'title_length', status: CheckStatus.Passed }),
+        ],
+        pages: [],
+      }
+    )
+
+    expect(diff.fixed.map((c) => c.check_name)).toEqual(['missing_title', 'title_length'])
+  })
+
+  test('distinguishes the same check on different pages', () => {
+    const diff = diffAudits(
+      {
+        audit: makeAudit(),
+        checks: [makeCheck({ page_url: 'https://example.com/a', status: CheckStatus.Failed })],
+        pages: [],
+      },
+      {
+        audit: makeAudit({ id: 'audit-b' }),
+        checks: [
+          makeCheck({ page_url: 'https://example.com/a', status: CheckStatus.Failed }),
+          makeCheck({ page_url: 'https://example.com/b', status: CheckStatus.Failed }),
+        ],
+        pages: [],
+      }
+    )
+
+    expect(diff.newlyFailing.map((c) => c.page_url)).toEqual(['https://example.com/b'])
+  })
+
+  test('lists added and removed pages, ignoring resources', () => {
+    const diff = diffAudits(
+      {
+        audit: makeAudit(),
+        checks: [],
+        pages: [page('https://example.com/'), page('https://example.com/old')],
+      },
+      {
+        audit: makeAudit({ id: 'audit-b' }),
+        checks: [],
+        pages: [
+          page('https://example.com/'),
+          page('https://example.com/new'),
+          page('https://example.com/file.pdf', true),
+        ],
+      }
+    )
+
+    expect(diff.pagesAdded).toEqual(['https://example.com/new'])
+    expect(diff.pagesRemoved).toEqual(['https://example.com/old'])
+  })
+
+  test('computes per-dimension score deltas', () => {
+    const diff = diffAudits(
+      { audit: makeAudit(), checks: [], pages: [] },
+      {
+        audit: makeAudit({
+          id: 'audit-b',
+          overall_score: 70,
+          seo_score: 80,
+          performance_score: 55,
+          ai_readiness_score: null,
+        }),
+        checks: [],
+        pages: [],
+      }
+    )
+
+    const byDimension = Object.fromEntries(diff.scoreDeltas.map((d) => [d.dimension, d.delta]))
+    expect(byDimension).toEqual({
+      overall: 8,
+      [ScoreDimension.SEO]: 10,
+      [ScoreDimension.Performance]: -5,
+      [ScoreDimension.AIReadiness]: null,
+    })
+  })
+})
+
+describe('findPreviousComparableAudit', () => {
+  const audits = [
+    { id: '3', domain: 'a.com', status: UnifiedAuditStatus.Completed, created_at: '2026-03-01' },
+    { id: '2', domain: 'a.com', status: UnifiedAuditStatus.Failed, created_at: '2026-02-01' },
+    { id: '1', domain: 'b.com', status: UnifiedAuditStatus.Completed, created_at: '2026-01-15' },
+    { id: '0', domain: 'a.com', status: UnifiedAuditStatus.Completed, created_at: '2026-01-01' },
+  ]
+
+  test('skips failed audits and other domains', () => {
+    expect(findPreviousComparableAudit(audits[0], audits)?.id).toBe('0')
+  })
+
+  test('returns null for the oldest audit', () => {
+    expect(findPreviousComparableAudit(audits[3], audits)).toBeNull()
+  })
+})
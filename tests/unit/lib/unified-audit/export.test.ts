@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest'
+import JSZip from 'jszip'
+import { makeChain } from '@/tests/helpers/supabase-mocks'
+import {
+  buildAuditExport,
+  checksToRows,
+  flattenDetails,
+  pagesToRows,
+  parseAuditExportOptions,
+  type ExportCheck,
+  type ExportPage,
+} from '@/lib/unified-audit/export'
+import {
+  AuditExportDataset,
+  AuditExportFormat,
+  CheckCategory,
+  CheckPriority,
+  CheckStatus,
+} from '@/lib/enums'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+function makeCheck(overrides: Partial<ExportCheck> = {}): ExportCheck {
+  return {
+    page_url: 'https://example.com/',
+    category: CheckCategory.MetaContent,
+    check_name: 'missing_meta_description',
+    priority: CheckPriority.Critical,
+    status: CheckStatus.Failed,
+    display_name: 'Missing meta description',
+    display_name_passed: 'Meta description present',
+    description: 'Pages need a meta description.',
+    fix_guidance: 'Add a meta description.',
+    learn_more_url: null,
+    details: null,
+    ...overrides,
+  }
+}
+
+const PAGE: ExportPage = {
+  url: 'https://example.com/about',
+  status_code: 200,
+  title: '=About us',
+  meta_description: null,
+  depth: 1,
+  canonical_url: null,
+  is_noindex: false,
+  is_resource: false,
+  resource_type: null,
+  last_modified: null,
+}
+
+const AUDIT = { id: 'audit-1', domain: 'example.com', created_at: '2026-04-20T10:00:00Z' }
+
+function mockSupabase(rows: unknown[], chain = makeChain()) {
+  chain.range = vi.fn(async () => ({ data: rows, error: null }))
+  return {
+    from: vi.fn(() => chain),
+  } as unknown as SupabaseClient
+}
+
+describe('flattenDetails', () => {
+  it('flattens nested objects into dotted keys', () => {
+    expect(
+      flattenDetails({
+        length: 180,
+        meta: { found: true, source: 'og' },
+        urls: ['/a', '/b'],
+        items: [{ url: '/a' }],
+      })
+    ).toEqual({
+      'details.length': 180,
+      'details.meta.found': 'true',
+      'details.meta.source': 'og',
+      'details.urls': '/a, /b',
+      'details.items': '[{"url":"/a"}]',
+    })
+  })
+
+  it('returns no columns without details', () => {
+    expect(flattenDetails(null)).toEqual({})
+  })
+})
+
+describe('checksToRows', () => {
+  it('appends the union of detail columns after the fixed columns', () => {
+    const rows = checksToRows([
+      makeCheck({ details: { length: 0 } }),
+      makeCheck({ page_url: null, details: { message: 'No sitemap' } }),
+    ])
+
+    expect(rows[0].slice(-2)).toEqual(['details.length', 'details.message'])
+    expect(rows[1].slice(-2)).toEqual([0, null])
+    expect(rows[2].slice(-2)).toEqual([null, 'No sitemap'])
+  })
+
+  it('uses the passed display name for passing checks', () => {
+    const rows = checksToRows([makeCheck({ status: CheckStatus.Passed })])
+    expect(rows[1][rows[0].indexOf('display_name')]).toBe('Meta description present')
+  })
+})
+
+describe('pagesToRows', () => {
+  it('writes one row per page with status code, title and depth', () => {
+    const rows = pagesToRows([PAGE])
+
+    expect(rows[0]).toContain('status_code')
+    expect(rows[1][rows[0].indexOf('status_code')]).toBe(200)
+    expect(rows[1][rows[0].indexOf('depth')]).toBe(1)
+    expect(rows[1][rows[0].indexOf('is_noindex')]).toBe('false')
+  })
+})
+
+describe('buildAuditExport', () => {
+  it('builds a CSV with formula-like values neutralized', async () => {
+    const file = await buildAuditExport(
+      mockSupabase([PAGE]),
+      AUDIT,
+      AuditExportDataset.Pages,
+      AuditExportFormat.CSV
+    )
+
+    expect(file.filename).toBe('example.com-audit-pages-2026-04-20.csv')
+    expect(file.contentType).toBe('text/csv; charset=utf-8')
+    const text = file.content.toString('utf-8')
+    expect(text.charCodeAt(0)).toBe(0xfeff)
+    expect(text).toContain(",'=About us,")
+  })
+
+  it('builds an XLSX workbook', async () => {
+    const file = await buildAuditExport(
+      mockSupabase([makeCheck()]),
+      AUDIT,
+      AuditExportDataset.Checks,
+      AuditExportFormat.XLSX
+    )
+
+    expect(file.filename).toBe('example.com-audit-checks-2026-04-20.xlsx')
+    const zip = await JSZip.loadAsync(file.content)
+    const sheet = await zip.file('xl/worksheets/sheet1.xml')!.async('string')
+    expect(sheet).toContain('Missing meta description')
+    expect(await zip.file('xl/workbook.xml')!.async('string')).toContain('name="Checks"')
+  })
+
+  it('pages checks in a stable order', async () => {
+    const chain = makeChain()
+    await buildAuditExport(
+      mockSupabase([makeCheck()], chain),
+      AUDIT,
+      AuditExportDataset.Checks,
+      AuditExportFormat.CSV
+    )
+
+    expect(chain.order).toHaveBeenLastCalledWith('id', { ascending: true })
+  })
+
+  it('names the file by audit id when the domain is missing', async () => {
+    const file = await buildAuditExport(
+      mockSupabase([PAGE]),
+      { ...AUDIT, domain: null },
+      AuditExportDataset.Pages,
+      AuditExportFormat.CSV
+    )
+
+    expect(file.filename).toBe('audit-1-audit-pages-2026-04-20.csv')
+  })
+})
+
+describe('parseAuditExportOptions', () => {
+  it('accepts known datasets and formats only', () => {
+    expect(parseAuditExportOptions({ dataset: 'checks', format: 'xlsx' })).toEqual({
+      dataset: AuditExportDataset.Checks,
+      format: AuditExportFormat.XLSX,
+    })
+    expect(parseAuditExportOptions({ dataset: 'checks', format: 'pdf' })).toBeNull()
+    expect(parseAuditExportOptions({})).toBeNull()
+  })
+})
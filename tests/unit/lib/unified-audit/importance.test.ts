@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { rankChecksByTraffic } from '@/lib/unified-audit/importance'
+
+describe('rankChecksByTraffic', () => {
+  const pageTraffic = [
+    { url: 'https://www.example.com/', sessions: 5000 },
+    { url: 'https://www.example.com/pricing', sessions: 1200 },
+    { url: 'https://www.example.com/blog/launch', sessions: 300 },
+    { url: 'https://www.example.com/docs', sessions: 300 },
+  ]
+
+  function check(name: string, pageUrl: string | null, priority = 'critical') {
+    return { check_name: name, display_name: null, priority, page_url: pageUrl }
+  }
+
+  it('orders checks by the combined sessions of their affected pages', () => {
+    const result = rankChecksByTraffic(
+      [
+        check('missing_h1', 'https://example.com/pricing/'),
+        check('missing_h1', 'https://example.com/blog/launch'),
+        check('thin_content', 'https://example.com/', 'recommended'),
+      ],
+      pageTraffic
+    )
+
+    expect(result.map((fix) => [fix.checkName, fix.sessions, fix.affectedPages])).toEqual([
+      ['thin_content', 5000, 1],
+      ['missing_h1', 1500, 2],
+    ])
+    expect(result[1].title).toBe('missing h1')
+    expect(result[1].topPages[0]).toEqual({
+      url: 'https://example.com/pricing/',
+      sessions: 1200,
+    })
+  })
+
+  it('breaks ties on priority and ignores site-wide or untracked pages', () => {
+    const result = rankChecksByTraffic(
+      [
+        check('missing_alt_text', 'https://example.com/docs', 'optional'),
+        check('noindex', 'https://example.com/blog/launch'),
+        check('missing_sitemap', null),
+        check('broken_links', 'https://example.com/never-visited'),
+      ],
+      pageTraffic
+    )
+
+    expect(result.map((fix) => fix.checkName)).toEqual(['noindex', 'missing_alt_text'])
+  })
+
+  it('counts a page once per check and respects the limit', () => {
+    const checks = [
+      check('missing_title', 'https://example.com/pricing'),
+      check('missing_title', 'https://example.com/pricing'),
+      check('missing_h1', 'https://example.com/docs'),
+    ]
+
+    const result = rankChecksByTraffic(checks, pageTraffic, 1)
+    expect(result).toHaveLength(1)
+    expect(result[0]).toMatchObject({
+      checkName: 'missing_title',
+      sessions: 1200,
+      affectedPages: 1,
+    })
+  })
+
+  it('returns nothing without traffic data', () => {
+    expect(rankChecksByTraffic([check('missing_h1', 'https://example.com/')], [])).toEqual([])
+  })
+})
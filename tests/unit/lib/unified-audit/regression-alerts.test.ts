@@ -0,0 +1,120 @@
+import { describe, test, expect, vi } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServiceClient: vi.fn(),
+}))
+
+vi.mock('@/lib/email/client', () => ({
+  sendEmail: vi.fn().mockResolvedValue({ data: { id: '1' }, error: null }),
+  FROM_EMAIL: 'test@selo.io',
+}))
+
+import { evaluateAlertRule } from '@/lib/unified-audit/regression-alerts'
+import type { AuditDiff, CheckChange } from '@/lib/unified-audit/diff'
+import {
+  AuditAlertRuleType,
+  CheckCategory,
+  CheckPriority,
+  CheckStatus,
+  ScoreDimension,
+} from '@/lib/enums'
+
+const makeDiff = (overrides: Partial<AuditDiff> = {}): AuditDiff => ({
+  baseAuditId: 'audit-a',
+  compareAuditId: 'audit-b',
+  newlyFailing: [],
+  fixed: [],
+  pagesAdded: [],
+  pagesRemoved: [],
+  scoreDeltas: [
+    { dimension: 'overall', previous: 80, current: 70, delta: -10 },
+    { dimension: ScoreDimension.SEO, previous: 75, current: 73, delta: -2 },
+    { dimension: ScoreDimension.Performance, previous: null, current: 60, delta: null },
+    { dimension: ScoreDimension.AIReadiness, previous: 60, current: 65, delta: 5 },
+  ],
+  ...overrides,
+})
+
+const makeFailure = (overrides: Partial<CheckChange> = {}): CheckChange => ({
+  check_name: 'missing_title',
+  page_url: 'https://example.com/',
+  status: CheckStatus.Failed,
+  previous_status: CheckStatus.Passed,
+  display_name: 'Missing Title',
+  category: CheckCategory.MetaContent,
+  priority: CheckPriority.Critical,
+  ...overrides,
+})
+
+const scoreDropRule = {
+  id: 'rule-1',
+  rule_type: AuditAlertRuleType.ScoreDrop,
+  dimension: 'overall' as const,
+  threshold: 5,
+  is_active: true,
+  last_triggered_audit_id: null,
+}
+
+const criticalRule = {
+  id: 'rule-2',
+  rule_type: AuditAlertRuleType.NewCriticalFailure,
+  dimension: null,
+  threshold: null,
+  is_active: true,
+  last_triggered_audit_id: null,
+}
+
+describe('evaluateAlertRule', () => {
+  test('fires when a score drops by more than the threshold', () => {
+    expect(evaluateAlertRule(scoreDropRule, makeDiff())).toEqual({
+      ruleId: 'rule-1',
+      type: AuditAlertRuleType.ScoreDrop,
+      dimension: 'overall',
+      previous: 80,
+      current: 70,
+    })
+  })
+
+  test('does not fire when the drop is within the threshold', () => {
+    const rule = { ...scoreDropRule, dimension: ScoreDimension.SEO }
+    expect(evaluateAlertRule(rule, makeDiff())).toBeNull()
+  })
+
+  test('does not fire when the score improved or is missing', () => {
+    expect(
+      evaluateAlertRule({ ...scoreDropRule, dimension: ScoreDimension.AIReadiness }, makeDiff())
+    ).toBeNull()
+    expect(
+      evaluateAlertRule({ ...scoreDropRule, dimension: ScoreDimension.Performance }, makeDiff())
+    ).toBeNull()
+  })
+
+  test('fires only for newly failing critical checks', () => {
+    const critical = makeFailure()
+    const diff = makeDiff({
+      newlyFailing: [
+        critical,
+        makeFailure({ check_name: 'thin', priority: CheckPriority.Recommended }),
+      ],
+    })
+
+    expect(evaluateAlertRule(criticalRule, diff)).toEqual({
+      ruleId: 'rule-2',
+      type: AuditAlertRuleType.NewCriticalFailure,
+      failures: [critical],
+    })
+    expect(evaluateAlertRule(criticalRule, makeDiff())).toBeNull()
+  })
+
+  test('skips inactive rules', () => {
+    expect(evaluateAlertRule({ ...scoreDropRule, is_active: false }, makeDiff())).toBeNull()
+  })
+
+  test('does not fire twice for the same audit', () => {
+    const rule = { ...scoreDropRule, last_triggered_audit_id: 'audit-b' }
+    expect(evaluateAlertRule(rule, makeDiff())).toBeNull()
+    expect(
+      evaluateAlertRule({ ...scoreDropRule, last_triggered_audit_id: 'audit-a' }, makeDiff())
+    ).not.toBeNull()
+  })
+})
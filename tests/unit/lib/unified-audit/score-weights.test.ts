@@ -0,0 +1,63 @@
+import { describe, test, expect, vi } from 'vitest'
+import {
+  loadScoreWeights,
+  resolveScoreWeights,
+  validateScoreWeights,
+} from '@/lib/unified-audit/score-weights'
+import { DEFAULT_SCORE_WEIGHTS } from '@/lib/unified-audit/types'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+const ecommerce = { seo: 0.3, performance: 0.6, ai_readiness: 0.1 }
+
+describe('validateScoreWeights', () => {
+  test('accepts weights that sum to 1', () => {
+    expect(validateScoreWeights(ecommerce)).toBeNull()
+    expect(validateScoreWeights({ seo: 1, performance: 0, ai_readiness: 0 })).toBeNull()
+  })
+
+  test('rejects weights that do not sum to 1', () => {
+    expect(validateScoreWeights({ seo: 0.5, performance: 0.5, ai_readiness: 0.5 })).toBe(
+      'Weights must add up to 100%'
+    )
+  })
+
+  test('rejects out-of-range or non-numeric weights', () => {
+    expect(validateScoreWeights({ seo: 1.2, performance: -0.2, ai_readiness: 0 })).toBe(
+      'Each weight must be between 0% and 100%'
+    )
+    expect(validateScoreWeights({ seo: NaN, performance: 0.5, ai_readiness: 0.5 })).not.toBeNull()
+  })
+})
+
+describe('resolveScoreWeights', () => {
+  test('uses defaults when unset or malformed', () => {
+    expect(resolveScoreWeights(null)).toBe(DEFAULT_SCORE_WEIGHTS)
+    expect(resolveScoreWeights({ seo: 1 })).toBe(DEFAULT_SCORE_WEIGHTS)
+    expect(resolveScoreWeights('0.4')).toBe(DEFAULT_SCORE_WEIGHTS)
+  })
+
+  test('returns a valid stored override', () => {
+    expect(resolveScoreWeights(ecommerce)).toEqual(ecommerce)
+  })
+})
+
+describe('loadScoreWeights', () => {
+  test('skips the lookup for audits without an organization', async () => {
+    const from = vi.fn()
+    const supabase = { from } as unknown as SupabaseClient
+
+    expect(await loadScoreWeights(supabase, null)).toBe(DEFAULT_SCORE_WEIGHTS)
+    expect(from).not.toHaveBeenCalled()
+  })
+
+  test('reads the organization override', async () => {
+    const maybeSingle = vi.fn().mockResolvedValue({ data: { score_weights: ecommerce } })
+    const supabase = {
+      from: vi.fn(() => ({
+        select: vi.fn(() => ({ eq: vi.fn(() => ({ maybeSingle })) })),
+      })),
+    } as unknown as SupabaseClient
+
+    expect(await loadScoreWeights(supabase, 'org-1')).toEqual(ecommerce)
+  })
+})
@@ -172,6 +172,12 @@ describe('Unified Scoring', () => {
       const equalWeights = { seo: 1 / 3, performance: 1 / 3, ai_readiness: 1 / 3 }
       expect(calculateOverallScore(80, 70, 90, equalWeights)).toBe(80)
     })
+
+    test('returns null when only zero-weighted dimensions have scores', () => {
+      const seoOnly = { seo: 1, performance: 0, ai_readiness: 0 }
+      expect(calculateOverallScore(null, 70, 90, seoOnly)).toBeNull()
+      expect(calculateOverallScore(80, 70, 90, seoOnly)).toBe(80)
+    })
   })
 
   describe('getScoreStatus', () => {
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { gzipSync } from 'zlib'
+import { fetchSitemapUrls, getSitemapCandidates } from '@/lib/unified-audit/sitemap'
+
+const mockFetch = vi.fn()
+vi.stubGlobal('fetch', mockFetch)
+
+beforeEach(() => {
+  mockFetch.mockReset()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+function respond(body: string | Buffer | null, headers?: Record<string, string>) {
+  if (body === null) return new Response(null, { status: 404 })
+  return new Response(typeof body === 'string' ? body : new Uint8Array(body), { headers })
+}
+
+function urlset(...urls: string[]) {
+  return `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls
+    .map((u) => `<url><loc>${u}</loc><lastmod>2026-01-01</lastmod></url>`)
+    .join('')}</urlset>`
+}
+
+describe('getSitemapCandidates', () => {
+  it('uses every Sitemap directive from robots.txt', () => {
+    const robotsTxt =
+      'User-agent: *\nSitemap: https://example.com/a.xml\nsitemap: https://example.com/b.xml'
+    expect(getSitemapCandidates('https://example.com/', robotsTxt)).toEqual([
+      'https://example.com/a.xml',
+      'https://example.com/b.xml',
+    ])
+  })
+
+  it('falls back to /sitemap.xml', () => {
+    expect(getSitemapCandidates('https://example.com/page', null)).toEqual([
+      'https://example.com/sitemap.xml',
+    ])
+  })
+})
+
+describe('fetchSitemapUrls', () => {
+  it('follows sitemap indexes and decompresses gzip sitemaps', async () => {
+    const files: Record<string, string | Buffer> = {
+      'https://example.com/sitemap.xml': `<?xml version="1.0"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sitemap><loc>https://example.com/pages.xml</loc></sitemap>
+        <sitemap><loc>https://example.com/posts.xml.gz</loc></sitemap>
+      </sitemapindex>`,
+      'https://example.com/pages.xml': urlset('https://example.com/', 'https://example.com/about'),
+      'https://example.com/posts.xml.gz': gzipSync(
+        urlset('https://example.com/blog/one', 'https://example.com/about')
+      ),
+    }
+    mockFetch.mockImplementation((url: string) => Promise.resolve(respond(files[url] ?? null)))
+
+    const entries = await fetchSitemapUrls('https://example.com/')
+
+    expect(entries.map((e) => e.url)).toEqual([
+      'https://example.com/',
+      'https://example.com/about',
+      'https://example.com/blog/one',
+    ])
+    expect(entries[0].lastmod).toBe('2026-01-01')
+  })
+
+  it('skips gzip sitemaps that inflate past 50MB', async () => {
+    const bomb = gzipSync(Buffer.alloc(51 * 1024 * 1024))
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(respond(url.endsWith('.gz') ? bomb : urlset('https://example.com/about')))
+    )
+
+    const robotsTxt =
+      'Sitemap: https://example.com/bomb.xml.gz\nSitemap: https://example.com/ok.xml'
+    const entries = await fetchSitemapUrls('https://example.com/', robotsTxt)
+
+    expect(entries.map((e) => e.url)).toEqual(['https://example.com/about'])
+  })
+
+  it('skips sitemaps that declare a body over 50MB without reading them', async () => {
+    mockFetch.mockResolvedValue(
+      respond(urlset('https://example.com/about'), { 'content-length': String(60 * 1024 * 1024) })
+    )
+
+    expect(await fetchSitemapUrls('https://example.com/')).toEqual([])
+  })
+
+  it('stops following sitemaps once the time budget runs out', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    mockFetch.mockImplementation(async (url: string) => {
+      vi.advanceTimersByTime(20_000)
+      return respond(
+        url === 'https://example.com/sitemap.xml'
+          ? `<sitemapindex><sitemap><loc>https://example.com/a.xml</loc></sitemap><sitemap><loc>https://example.com/b.xml</loc></sitemap></sitemapindex>`
+          : urlset(url.replace('.xml', ''))
+      )
+    })
+
+    const entries = await fetchSitemapUrls('https://example.com/', null, 30_000)
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(entries.map((e) => e.url)).toEqual(['https://example.com/a'])
+  })
+
+  it('returns nothing when no sitemap is reachable', async () => {
+    mockFetch.mockResolvedValue(respond(null))
+    expect(await fetchSitemapUrls('https://example.com/')).toEqual([])
+  })
+})
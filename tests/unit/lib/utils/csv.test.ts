@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { parseCsv, toCsv } from '@/lib/utils/csv'
+
+describe('parseCsv', () => {
+  it('parses quoted fields with commas, quotes and newlines', () => {
+    const text = 'name,notes\r\n"Launch, day one","He said ""go""\nnow"\r\nplain,\n'
+    expect(parseCsv(text)).toEqual([
+      ['name', 'notes'],
+      ['Launch, day one', 'He said "go"\nnow'],
+      ['plain', ''],
+    ])
+  })
+
+  it('skips blank lines and a leading byte order mark', () => {
+    expect(parseCsv('﻿a,b\n\n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ])
+  })
+})
+
+describe('toCsv', () => {
+  it('quotes only fields that need it and round-trips through parseCsv', () => {
+    const rows = [
+      ['name', 'url'],
+      ['Post "A", v2', 'https://example.com/?a=1'],
+      ['Empty', null],
+    ]
+    const csv = toCsv(rows)
+    expect(csv).toBe('name,url\n"Post ""A"", v2",https://example.com/?a=1\nEmpty,')
+    expect(parseCsv(csv)).toEqual([
+      ['name', 'url'],
+      ['Post "A", v2', 'https://example.com/?a=1'],
+      ['Empty', ''],
+    ])
+  })
+})
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('dns/promises', () => {
+  const lookup = vi.fn()
+  return { lookup, default: { lookup } }
+})
+
+import { lookup } from 'dns/promises'
+import { isPrivateAddress, isPublicHttpUrl } from '@/lib/utils/public-url'
+
+function resolvesTo(...addresses: string[]) {
+  vi.mocked(lookup).mockResolvedValue(
+    addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })) as never
+  )
+}
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.20.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+  ])('flags %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true)
+  })
+
+  it.each(['93.184.216.34', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8'])(
+    'allows %s',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false)
+    }
+  )
+})
+
+describe('isPublicHttpUrl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('allows hosts that resolve to public addresses', async () => {
+    resolvesTo('93.184.216.34')
+
+    expect(await isPublicHttpUrl('https://example.com/page')).toBe(true)
+  })
+
+  it('rejects hosts with any private address', async () => {
+    resolvesTo('93.184.216.34', '10.0.0.5')
+
+    expect(await isPublicHttpUrl('https://internal.example.com')).toBe(false)
+  })
+
+  it('rejects private IP literals without a lookup', async () => {
+    expect(await isPublicHttpUrl('http://169.254.169.254/latest/meta-data')).toBe(false)
+    expect(await isPublicHttpUrl('http://[::1]:3000/')).toBe(false)
+    expect(lookup).not.toHaveBeenCalled()
+  })
+
+  it('rejects other protocols and unresolvable hosts', async () => {
+    vi.mocked(lookup).mockRejectedValue(new Error('ENOTFOUND'))
+
+    expect(await isPublicHttpUrl('file:///etc/passwd')).toBe(false)
+    expect(await isPublicHttpUrl('https://missing.invalid')).toBe(false)
+  })
+})
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest'
+import { normalizePageUrl } from '@/lib/utils/url'
+
+describe('normalizePageUrl', () => {
+  it('ignores www, trailing slashes, query strings and fragments', () => {
+    expect(normalizePageUrl('https://WWW.Example.com/pricing/?utm_source=x#plans')).toBe(
+      'example.com/pricing'
+    )
+  })
+
+  it('keeps the root path', () => {
+    expect(normalizePageUrl('http://example.com')).toBe('example.com/')
+    expect(normalizePageUrl('http://example.com/')).toBe('example.com/')
+  })
+
+  it('falls back to the trimmed, lowercased input for non-URLs', () => {
+    expect(normalizePageUrl(' /About ')).toBe('/about')
+  })
+})
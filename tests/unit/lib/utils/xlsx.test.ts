@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { columnName, toXlsx } from '@/lib/utils/xlsx'
+
+describe('columnName', () => {
+  it('converts zero-based indexes to spreadsheet column letters', () => {
+    expect(columnName(0)).toBe('A')
+    expect(columnName(25)).toBe('Z')
+    expect(columnName(26)).toBe('AA')
+    expect(columnName(701)).toBe('ZZ')
+    expect(columnName(702)).toBe('AAA')
+  })
+})
+
+describe('toXlsx', () => {
+  it('writes a workbook with inline strings and numeric cells', async () => {
+    const content = await toXlsx(
+      [
+        ['url', 'status_code'],
+        ['https://example.com/?a=1&b=<2>', 404],
+        ['https://example.com/empty', null],
+      ],
+      'Pages'
+    )
+
+    const zip = await JSZip.loadAsync(content)
+    expect(zip.file('[Content_Types].xml')).not.toBeNull()
+    expect(await zip.file('xl/workbook.xml')!.async('string')).toContain('name="Pages"')
+
+    const sheet = await zip.file('xl/worksheets/sheet1.xml')!.async('string')
+    expect(sheet).toContain(
+      '<c r="A2" t="inlineStr"><is><t xml:space="preserve">https://example.com/?a=1&amp;b=&lt;2&gt;</t></is></c>'
+    )
+    expect(sheet).toContain('<c r="B2"><v>404</v></c>')
+    expect(sheet).toContain('<row r="3"><c r="A3"')
+    expect(sheet).not.toContain('r="B3"')
+  })
+
+  it('strips characters that are invalid in XML', async () => {
+    const zip = await JSZip.loadAsync(await toXlsx([['a\u0001b']]))
+    const sheet = await zip.file('xl/worksheets/sheet1.xml')!.async('string')
+    expect(sheet).toContain('>ab<')
+  })
+})